@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useRoute } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -10,9 +10,11 @@ import { AppSidebar } from "@/components/app-sidebar";
 import Dashboard from "@/pages/dashboard";
 import PatientsPage from "@/pages/patients";
 import PatientProfile from "@/pages/patient-profile";
+import PatientDuplicatesPage from "@/pages/patient-duplicates";
 import GroupsPage from "@/pages/groups";
 import GroupDetailPage from "@/pages/group-detail";
 import Measurements from "@/pages/measurements";
+import EvaluatorsPage from "@/pages/evaluators";
 import Diets from "@/pages/diets";
 import DietLibrary from "@/pages/diet-library";
 import MealCatalog from "@/pages/meal-catalog";
@@ -20,53 +22,85 @@ import WeeklyDietPlanner from "@/pages/weekly-diet-planner";
 import Reports from "@/pages/reports";
 import NotFound from "@/pages/not-found";
 import SettingsPage from "@/pages/settings";
+import TrashPage from "@/pages/trash";
+import AppointmentsPage from "@/pages/appointments";
+import LoginPage from "@/pages/login";
+import PatientPortalPage from "@/pages/patient-portal";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
       <Route path="/pacientes" component={PatientsPage} />
+      <Route path="/pacientes/duplicados" component={PatientDuplicatesPage} />
       <Route path="/pacientes/:id" component={PatientProfile} />
       <Route path="/grupos" component={GroupsPage} />
       <Route path="/grupos/:id" component={GroupDetailPage} />
+      <Route path="/agenda" component={AppointmentsPage} />
       <Route path="/mediciones" component={Measurements} />
+      <Route path="/evaluadores" component={EvaluatorsPage} />
       <Route path="/dietas" component={Diets} />
       <Route path="/biblioteca-dietas" component={DietLibrary} />
       <Route path="/catalogo-comidas" component={MealCatalog} />
       <Route path="/crear-plan-semanal" component={WeeklyDietPlanner} />
       <Route path="/informes" component={Reports} />
+      <Route path="/papelera" component={TrashPage} />
       <Route path="/configuracion" component={SettingsPage} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
-function App() {
+function AppShell() {
+  const { user, needsSetup, isLoading } = useAuth();
+  // El portal lo abren pacientes sin cuenta: va fuera del login y del menú
+  const [isPortal, portalParams] = useRoute("/portal/:token");
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
   };
 
+  if (isPortal && portalParams) {
+    return <PatientPortalPage token={portalParams.token} />;
+  }
+
+  if (isLoading) {
+    return <div className="flex h-screen w-full items-center justify-center text-muted-foreground">Cargando…</div>;
+  }
+
+  if (!user) {
+    return <LoginPage needsSetup={needsSetup} />;
+  }
+
+  return (
+    <SidebarProvider style={style as React.CSSProperties}>
+      <div className="flex h-screen w-full">
+        <AppSidebar />
+        <div className="flex flex-col flex-1 overflow-hidden">
+          <header className="flex items-center justify-between h-16 px-6 border-b shrink-0">
+            <SidebarTrigger data-testid="button-sidebar-toggle" />
+            <ThemeToggle />
+          </header>
+          <main className="flex-1 overflow-auto p-6">
+            <div className="max-w-7xl mx-auto">
+              <Router />
+            </div>
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
+
+function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider defaultTheme="light">
         <TooltipProvider>
-          <SidebarProvider style={style as React.CSSProperties}>
-            <div className="flex h-screen w-full">
-              <AppSidebar />
-              <div className="flex flex-col flex-1 overflow-hidden">
-                <header className="flex items-center justify-between h-16 px-6 border-b shrink-0">
-                  <SidebarTrigger data-testid="button-sidebar-toggle" />
-                  <ThemeToggle />
-                </header>
-                <main className="flex-1 overflow-auto p-6">
-                  <div className="max-w-7xl mx-auto">
-                    <Router />
-                  </div>
-                </main>
-              </div>
-            </div>
-          </SidebarProvider>
+          <AuthProvider>
+            <AppShell />
+          </AuthProvider>
           <Toaster />
         </TooltipProvider>
       </ThemeProvider>
@@ -0,0 +1,109 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { AllergySeverity, PatientAllergen } from "@shared/schema";
+import { ALLERGY_SEVERITIES, MAJOR_ALLERGENS } from "@shared/allergens";
+
+const EMPTY_ALLERGEN: PatientAllergen = { allergen: "gluten", customName: null, severity: "allergy" };
+
+/** Descarta las entradas propias sin nombre en lugar de bloquear el guardado. */
+export const getCompleteAllergens = (value: PatientAllergen[]): PatientAllergen[] =>
+  value
+    .map((entry) =>
+      entry.allergen === "custom"
+        ? { ...entry, customName: entry.customName?.trim() || null }
+        : { ...entry, customName: null },
+    )
+    .filter((entry) => entry.allergen !== "custom" || entry.customName);
+
+interface AllergenEditorProps {
+  value: PatientAllergen[];
+  onChange: (value: PatientAllergen[]) => void;
+  testIdPrefix?: string;
+}
+
+/** Una fila por alergia, intolerancia o preferencia: alérgeno (o alimento propio) y severidad. */
+export function AllergenEditor({ value, onChange, testIdPrefix = "allergen" }: AllergenEditorProps) {
+  const updateEntry = (index: number, changes: Partial<PatientAllergen>) =>
+    onChange(value.map((entry, entryIndex) => (entryIndex === index ? { ...entry, ...changes } : entry)));
+
+  return (
+    <div className="space-y-2">
+      {value.map((entry, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_140px_auto] items-center gap-2">
+          <Select
+            value={entry.allergen}
+            onValueChange={(allergen) => updateEntry(index, { allergen: allergen as PatientAllergen["allergen"] })}
+          >
+            <SelectTrigger data-testid={`select-${testIdPrefix}-${index}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAJOR_ALLERGENS.map((allergen) => (
+                <SelectItem key={allergen.value} value={allergen.value}>
+                  {allergen.label}
+                </SelectItem>
+              ))}
+              <SelectItem value="custom">Otro alimento</SelectItem>
+            </SelectContent>
+          </Select>
+          {entry.allergen === "custom" ? (
+            <Input
+              placeholder="Ej: Kiwi"
+              value={entry.customName ?? ""}
+              onChange={(e) => updateEntry(index, { customName: e.target.value })}
+              data-testid={`input-${testIdPrefix}-custom-${index}`}
+            />
+          ) : (
+            <span />
+          )}
+          <Select
+            value={entry.severity}
+            onValueChange={(severity) => updateEntry(index, { severity: severity as AllergySeverity })}
+          >
+            <SelectTrigger data-testid={`select-${testIdPrefix}-severity-${index}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ALLERGY_SEVERITIES.map((severity) => (
+                <SelectItem key={severity.value} value={severity.value}>
+                  {severity.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter((_, entryIndex) => entryIndex !== index))}
+            data-testid={`button-remove-${testIdPrefix}-${index}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, { ...EMPTY_ALLERGEN }])}
+        data-testid={`button-add-${testIdPrefix}`}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Agregar
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Se usan para filtrar el catálogo de comidas, marcar conflictos en el plan semanal y rechazar dietas con IA que
+        los incluyan.
+      </p>
+    </div>
+  );
+}
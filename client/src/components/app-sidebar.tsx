@@ -1,4 +1,4 @@
-import { Home, Users, FolderKanban, Ruler, UtensilsCrossed, FileText, Activity, BookOpen, CookingPot, Calendar, Settings } from "lucide-react";
+import { Home, Users, FolderKanban, Ruler, UtensilsCrossed, FileText, Activity, BookOpen, CookingPot, Calendar, CalendarClock, Settings, UserCheck, LogOut, Trash2 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -13,6 +13,9 @@ import {
   SidebarFooter,
 } from "@/components/ui/sidebar";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { ROLE_LABELS, isUserRole } from "@shared/auth";
 import logoLight from "@/assets/logo-carolina.svg";
 import carolinaAvatar from "@/assets/image_1762966212646.png";
 
@@ -32,11 +35,21 @@ const menuItems = [
     url: "/grupos",
     icon: FolderKanban,
   },
+  {
+    title: "Agenda",
+    url: "/agenda",
+    icon: CalendarClock,
+  },
   {
     title: "Mediciones",
     url: "/mediciones",
     icon: Ruler,
   },
+  {
+    title: "Evaluadores",
+    url: "/evaluadores",
+    icon: UserCheck,
+  },
   {
     title: "Dietas Asignadas",
     url: "/dietas",
@@ -62,6 +75,11 @@ const menuItems = [
     url: "/informes",
     icon: FileText,
   },
+  {
+    title: "Papelera",
+    url: "/papelera",
+    icon: Trash2,
+  },
   {
     title: "Configuración",
     url: "/configuracion",
@@ -71,6 +89,7 @@ const menuItems = [
 
 export function AppSidebar() {
   const [location] = useLocation();
+  const { user, logout } = useAuth();
 
   return (
     <Sidebar>
@@ -117,9 +136,21 @@ export function AppSidebar() {
             </AvatarFallback>
           </Avatar>
           <div className="flex-1 text-sm">
-            <p className="font-heading font-semibold text-white">Carolina Ibáñez</p>
-            <p className="text-xs text-white/70">Consultorio &amp; Alto Rendimiento</p>
+            <p className="font-heading font-semibold text-white">{user?.displayName ?? "Carolina Ibáñez"}</p>
+            <p className="text-xs text-white/70">
+              {user && isUserRole(user.role) ? ROLE_LABELS[user.role] : "Consultorio & Alto Rendimiento"}
+            </p>
           </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-white/80 hover:bg-white/10 hover:text-white"
+            onClick={logout}
+            title="Cerrar sesión"
+            data-testid="button-logout"
+          >
+            <LogOut className="h-4 w-4" />
+          </Button>
         </div>
       </SidebarFooter>
     </Sidebar>
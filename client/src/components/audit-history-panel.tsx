@@ -0,0 +1,159 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { History } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDITED_ENTITY_LABELS,
+  getAuditFieldLabel,
+  isAuditedEntityType,
+  type AuditAction,
+  type AuditedEntityType,
+  type AuditFieldChange,
+} from "@shared/audit-log";
+import type { AuditLogEntry } from "@shared/schema";
+
+interface AuditHistoryPanelProps {
+  /** Historial de todos los registros del paciente... */
+  patientId?: string;
+  /** ...o de un único registro. */
+  entityType?: AuditedEntityType;
+  entityId?: string;
+  /** Sin tarjeta propia, para incrustarlo en un diálogo. */
+  compact?: boolean;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+
+const actionVariant: Record<AuditAction, "default" | "secondary" | "destructive" | "outline"> = {
+  create: "default",
+  update: "secondary",
+  delete: "destructive",
+  restore: "outline",
+  purge: "destructive",
+  merge: "outline",
+};
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Sí" : "No";
+  if (typeof value === "string" && ISO_DATE_PATTERN.test(value)) {
+    return format(new Date(value), "dd/MM/yyyy HH:mm");
+  }
+  if (typeof value === "object") {
+    const text = JSON.stringify(value);
+    return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+  }
+  return String(value);
+}
+
+function buildQueryString({ patientId, entityType, entityId }: AuditHistoryPanelProps): string {
+  const params = new URLSearchParams();
+  if (patientId) params.set("patientId", patientId);
+  if (entityType && entityId) {
+    params.set("entityType", entityType);
+    params.set("entityId", entityId);
+  }
+  return params.toString();
+}
+
+function AuditEntryRow({ entry, showEntity }: { entry: AuditLogEntry; showEntity: boolean }) {
+  const changes = (entry.changes as AuditFieldChange[]) ?? [];
+  const action = entry.action as AuditAction;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant={actionVariant[action] ?? "secondary"}>{AUDIT_ACTION_LABELS[action] ?? entry.action}</Badge>
+          {showEntity && (
+            <span className="font-medium">
+              {isAuditedEntityType(entry.entityType) ? AUDITED_ENTITY_LABELS[entry.entityType] : entry.entityType}
+            </span>
+          )}
+          <span className="text-muted-foreground">{entry.userName ?? "Sistema"}</span>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {format(new Date(entry.createdAt), "dd/MM/yyyy HH:mm")}
+        </span>
+      </div>
+      {action === "restore" ? (
+        <p className="text-xs text-muted-foreground">Restaurado desde la papelera</p>
+      ) : action === "merge" && changes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Se le unieron los registros de una ficha duplicada</p>
+      ) : action === "update" || action === "merge" ? (
+        <div className="space-y-1">
+          {changes.map((change) => (
+            <div key={change.field} className="grid grid-cols-[minmax(0,1fr)_auto] gap-2 text-xs">
+              <span className="text-muted-foreground">{getAuditFieldLabel(change.field)}</span>
+              <span>
+                <span className="line-through opacity-60">{formatAuditValue(change.before)}</span>
+                {" → "}
+                <span className="font-medium">{formatAuditValue(change.after)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {changes.length} {changes.length === 1 ? "campo" : "campos"}{" "}
+          {action === "create" ? "cargados" : action === "purge" ? "eliminados definitivamente" : "al momento de la baja"}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** Historial de cambios (append-only) de un paciente o de un registro puntual. */
+export function AuditHistoryPanel(props: AuditHistoryPanelProps) {
+  const queryString = buildQueryString(props);
+  const { data: entries = [], isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: ["/api/audit-log", queryString],
+    queryFn: async () => {
+      const response = await fetch(`/api/audit-log?${queryString}`);
+      if (!response.ok) throw new Error("Failed to fetch audit log");
+      return response.json();
+    },
+    enabled: queryString.length > 0,
+    // Cualquier guardado agrega entradas: se vuelve a pedir cada vez que se abre
+    refetchOnMount: "always",
+  });
+
+  const content = isLoading ? (
+    <p className="text-sm text-muted-foreground">Cargando historial…</p>
+  ) : entries.length === 0 ? (
+    <p className="text-sm text-muted-foreground">Todavía no hay cambios registrados.</p>
+  ) : (
+    <div className="space-y-2">
+      {entries.map((entry) => (
+        <AuditEntryRow key={entry.id} entry={entry} showEntity={!props.entityId} />
+      ))}
+    </div>
+  );
+
+  if (props.compact) {
+    return (
+      <div className="space-y-2">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <History className="h-4 w-4 text-primary" />
+          Historial de cambios
+        </p>
+        {content}
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Historial de cambios
+        </CardTitle>
+        <CardDescription>Quién cargó, editó o eliminó cada registro, con los valores anteriores.</CardDescription>
+      </CardHeader>
+      <CardContent>{content}</CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,618 @@
+import { useMemo, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Activity, Plus, Trash2, Upload } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BIA_FIELD_LABELS,
+  BIA_SEGMENT_LABELS,
+  toBiaColumnValues,
+  type BiaNumericField,
+  type BiaSegment,
+} from "@shared/bia-import";
+import type { BiaMeasurement, BiaSegmental } from "@shared/schema";
+
+interface BiaComparisonRow {
+  date: string;
+  biaMeasurementId: string;
+  measurementId: string | null;
+  device: string | null;
+  biaBodyFatPercentage: number | null;
+  durninWomersleyPercentage: number | null;
+  kerrAdiposePercentage: number | null;
+  differenceVsDurninWomersley: number | null;
+  differenceVsKerr: number | null;
+}
+
+interface BiaComparison {
+  rows: BiaComparisonRow[];
+  matchedDates: number;
+  meanDifferenceVsDurninWomersley: number | null;
+  meanDifferenceVsKerr: number | null;
+}
+
+interface BiaImportResult {
+  imported: number;
+  rows: { line: number; measurementDate: string; values: Partial<Record<BiaNumericField, number>> }[];
+  errors: { line: number; message: string }[];
+  recognizedColumns: string[];
+  unrecognizedColumns: string[];
+}
+
+const FIELD_ORDER = Object.keys(BIA_FIELD_LABELS) as BiaNumericField[];
+const SEGMENT_ORDER = Object.keys(BIA_SEGMENT_LABELS) as BiaSegment[];
+
+const formatValue = (value: string | number | null | undefined, digits = 1) => {
+  if (value === null || value === undefined || value === "") return "—";
+  const numeric = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(numeric) ? numeric.toFixed(digits) : "—";
+};
+
+const formatDifference = (value: number | null) => (value === null ? "—" : `${value > 0 ? "+" : ""}${value.toFixed(1)}`);
+
+// "2025-03-14" como fecha local (evita que el huso horario la corra al día anterior)
+const parseDateKey = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+interface BiaPanelProps {
+  patientId: string;
+}
+
+/**
+ * Mediciones de bioimpedancia del paciente: carga manual, importación del CSV
+ * del equipo y comparación del % de grasa con los pliegues del mismo día.
+ */
+export function BiaPanel({ patientId }: BiaPanelProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [csvContent, setCsvContent] = useState<string | null>(null);
+  const [importDevice, setImportDevice] = useState("");
+  const [importPreview, setImportPreview] = useState<BiaImportResult | null>(null);
+  const [manualOpen, setManualOpen] = useState(false);
+  const [manualDate, setManualDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [manualDevice, setManualDevice] = useState("");
+  const [manualValues, setManualValues] = useState<Partial<Record<BiaNumericField, string>>>({});
+  const [manualSegmental, setManualSegmental] = useState<Partial<Record<BiaSegment, { lean: string; fat: string }>>>({});
+  const [manualNotes, setManualNotes] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<BiaMeasurement | null>(null);
+
+  const { data: biaMeasurements = [] } = useQuery<BiaMeasurement[]>({
+    queryKey: ["/api/bia-measurements", { patientId }],
+    queryFn: async () => {
+      const response = await fetch(`/api/bia-measurements?patientId=${patientId}`);
+      if (!response.ok) throw new Error("Failed to fetch BIA measurements");
+      return response.json();
+    },
+    enabled: !!patientId,
+  });
+
+  const { data: comparison } = useQuery<BiaComparison>({
+    queryKey: ["/api/patients", patientId, "bia", "comparison"],
+    enabled: !!patientId,
+  });
+
+  const invalidateBia = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/bia-measurements", { patientId }] });
+    queryClient.invalidateQueries({ queryKey: ["/api/patients", patientId, "bia", "comparison"] });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async ({ csv, dryRun }: { csv: string; dryRun: boolean }): Promise<BiaImportResult> => {
+      const response = await apiRequest("POST", `/api/patients/${patientId}/bia/import`, {
+        csv,
+        device: importDevice.trim() || undefined,
+        dryRun,
+      });
+      return response.json();
+    },
+    onSuccess: (result, { dryRun }) => {
+      if (dryRun) {
+        setImportPreview(result);
+        return;
+      }
+      invalidateBia();
+      setImportPreview(null);
+      setCsvContent(null);
+      toast({
+        title: "Importación completada",
+        description: `Se importaron ${result.imported} mediciones de bioimpedancia${result.errors.length > 0 ? ` (${result.errors.length} filas con errores)` : ""}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error en la importación",
+        description: error.message || "No se pudo leer el archivo del equipo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const values = FIELD_ORDER.reduce((acc, field) => {
+        const numeric = parseFloat(manualValues[field] ?? "");
+        if (Number.isFinite(numeric)) acc[field] = numeric;
+        return acc;
+      }, {} as Partial<Record<BiaNumericField, number>>);
+      const segmental = SEGMENT_ORDER.reduce((acc, segment) => {
+        const lean = parseFloat(manualSegmental[segment]?.lean ?? "");
+        const fat = parseFloat(manualSegmental[segment]?.fat ?? "");
+        if (Number.isFinite(lean) || Number.isFinite(fat)) {
+          acc[segment] = {
+            leanMassKg: Number.isFinite(lean) ? lean : null,
+            fatMassKg: Number.isFinite(fat) ? fat : null,
+          };
+        }
+        return acc;
+      }, {} as BiaSegmental);
+      const response = await apiRequest("POST", "/api/bia-measurements", {
+        patientId,
+        measurementDate: parseDateKey(manualDate).toISOString(),
+        device: manualDevice.trim() || null,
+        source: "manual",
+        ...toBiaColumnValues(values),
+        segmental: Object.keys(segmental).length > 0 ? segmental : null,
+        notes: manualNotes.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateBia();
+      setManualOpen(false);
+      setManualValues({});
+      setManualSegmental({});
+      setManualNotes("");
+      toast({ title: "Medición guardada", description: "Se registró la medición de bioimpedancia." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo guardar la medición", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/bia-measurements/${id}`),
+    onSuccess: () => {
+      invalidateBia();
+      setDeleteTarget(null);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo eliminar la medición", variant: "destructive" });
+    },
+  });
+
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const content = String(reader.result ?? "");
+      setCsvContent(content);
+      setImportPreview(null);
+      // La vista previa se pide apenas se elige el archivo
+      importMutation.mutate({ csv: content, dryRun: true });
+    };
+    reader.readAsText(file);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const chartData = useMemo(
+    () =>
+      (comparison?.rows ?? []).map((row) => ({
+        date: format(parseDateKey(row.date), "dd/MM/yy"),
+        bia: row.biaBodyFatPercentage,
+        durnin: row.durninWomersleyPercentage,
+        kerr: row.kerrAdiposePercentage,
+      })),
+    [comparison],
+  );
+
+  const hasMatchedSkinfolds = (comparison?.matchedDates ?? 0) > 0;
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Activity className="h-5 w-5 text-primary" />
+              Bioimpedancia (BIA)
+            </CardTitle>
+            <CardDescription>
+              Mediciones del equipo de bioimpedancia y comparación con los pliegues del mismo día
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt"
+              onChange={handleFileSelected}
+              className="hidden"
+              data-testid="input-bia-csv"
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} data-testid="button-import-bia">
+              <Upload className="h-4 w-4 mr-2" />
+              Importar CSV
+            </Button>
+            <Button size="sm" onClick={() => setManualOpen(true)} data-testid="button-new-bia">
+              <Plus className="h-4 w-4 mr-2" />
+              Cargar BIA
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {biaMeasurements.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Todavía no hay mediciones de bioimpedancia. Importá el CSV que exporta el equipo o cargalas a mano.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fecha</TableHead>
+                  <TableHead>Equipo</TableHead>
+                  <TableHead className="text-right">Peso</TableHead>
+                  <TableHead className="text-right">% Grasa</TableHead>
+                  <TableHead className="text-right">MG (kg)</TableHead>
+                  <TableHead className="text-right">MLG (kg)</TableHead>
+                  <TableHead className="text-right">ACT (L)</TableHead>
+                  <TableHead className="text-right">Visceral</TableHead>
+                  <TableHead className="text-right">Áng. fase</TableHead>
+                  <TableHead>Segmental (magra / grasa kg)</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {biaMeasurements.map((bia) => {
+                  const segmental = (bia.segmental as BiaSegmental | null) ?? {};
+                  return (
+                    <TableRow key={bia.id} data-testid={`row-bia-${bia.id}`}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(bia.measurementDate), "dd/MM/yyyy")}
+                        {bia.source === "csv" && (
+                          <Badge variant="outline" className="ml-2 text-[10px]">
+                            CSV
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{bia.device || "—"}</TableCell>
+                      <TableCell className="text-right">{formatValue(bia.weight)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatValue(bia.bodyFatPercentage)}</TableCell>
+                      <TableCell className="text-right">{formatValue(bia.fatMassKg)}</TableCell>
+                      <TableCell className="text-right">{formatValue(bia.fatFreeMassKg)}</TableCell>
+                      <TableCell className="text-right">{formatValue(bia.totalBodyWaterL)}</TableCell>
+                      <TableCell className="text-right">{formatValue(bia.visceralFatLevel, 0)}</TableCell>
+                      <TableCell className="text-right">{formatValue(bia.phaseAngle)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {SEGMENT_ORDER.filter((segment) => segmental[segment]).map((segment) => (
+                          <div key={segment}>
+                            {BIA_SEGMENT_LABELS[segment]}: {formatValue(segmental[segment]?.leanMassKg, 2)} /{" "}
+                            {formatValue(segmental[segment]?.fatMassKg, 2)}
+                          </div>
+                        ))}
+                        {SEGMENT_ORDER.every((segment) => !segmental[segment]) && "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeleteTarget(bia)}
+                          data-testid={`button-delete-bia-${bia.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {comparison && comparison.rows.length > 0 && (
+          <div className="space-y-4">
+            <div>
+              <h3 className="font-semibold">BIA vs. pliegues</h3>
+              <p className="text-sm text-muted-foreground">
+                % de grasa por bioimpedancia frente a Durnin & Womersley y a la masa adiposa de Kerr (5 componentes) de
+                la medición antropométrica del mismo día. La masa adiposa de Kerr incluye agua y tejido conectivo, por
+                eso suele quedar por encima de la grasa estimada por BIA.
+              </p>
+            </div>
+            {hasMatchedSkinfolds ? (
+              <>
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="date" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                    <YAxis className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} domain={["dataMin - 2", "dataMax + 2"]} />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "hsl(var(--card))",
+                        border: "1px solid hsl(var(--border))",
+                        borderRadius: "6px",
+                      }}
+                    />
+                    <Legend />
+                    <Line type="monotone" dataKey="bia" stroke="hsl(var(--primary))" strokeWidth={2} name="BIA (%)" connectNulls />
+                    <Line type="monotone" dataKey="durnin" stroke="hsl(var(--chart-2))" strokeWidth={2} name="Durnin & Womersley (%)" connectNulls />
+                    <Line type="monotone" dataKey="kerr" stroke="hsl(var(--chart-3))" strokeWidth={2} name="Kerr adiposa (%)" connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Fecha</TableHead>
+                      <TableHead className="text-right">BIA %</TableHead>
+                      <TableHead className="text-right">D&W %</TableHead>
+                      <TableHead className="text-right">BIA − D&W</TableHead>
+                      <TableHead className="text-right">Kerr adiposa %</TableHead>
+                      <TableHead className="text-right">BIA − Kerr</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {comparison.rows.map((row) => (
+                      <TableRow key={row.biaMeasurementId}>
+                        <TableCell>{format(parseDateKey(row.date), "dd/MM/yyyy")}</TableCell>
+                        <TableCell className="text-right">{formatValue(row.biaBodyFatPercentage)}</TableCell>
+                        <TableCell className="text-right">{formatValue(row.durninWomersleyPercentage)}</TableCell>
+                        <TableCell className="text-right">{formatDifference(row.differenceVsDurninWomersley)}</TableCell>
+                        <TableCell className="text-right">{formatValue(row.kerrAdiposePercentage)}</TableCell>
+                        <TableCell className="text-right">{formatDifference(row.differenceVsKerr)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-medium">
+                      <TableCell colSpan={3}>Diferencia promedio</TableCell>
+                      <TableCell className="text-right">{formatDifference(comparison.meanDifferenceVsDurninWomersley)}</TableCell>
+                      <TableCell />
+                      <TableCell className="text-right">{formatDifference(comparison.meanDifferenceVsKerr)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Ninguna medición BIA coincide en fecha con una medición antropométrica.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={importPreview !== null} onOpenChange={(open) => !open && setImportPreview(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Importar bioimpedancia</DialogTitle>
+            <DialogDescription>
+              Revisá lo que se va a importar antes de confirmar.
+            </DialogDescription>
+          </DialogHeader>
+          {importPreview && (
+            <div className="space-y-4 text-sm">
+              <div className="space-y-2">
+                <Label htmlFor="bia-import-device">Equipo</Label>
+                <Input
+                  id="bia-import-device"
+                  placeholder="Ej.: InBody 570"
+                  value={importDevice}
+                  onChange={(e) => setImportDevice(e.target.value)}
+                  data-testid="input-bia-import-device"
+                />
+              </div>
+              <p>
+                <span className="font-medium">{importPreview.rows.length}</span> mediciones listas para importar
+                {importPreview.errors.length > 0 && (
+                  <>
+                    {" "}· <span className="text-destructive">{importPreview.errors.length} filas con errores</span>
+                  </>
+                )}
+              </p>
+              {importPreview.rows.length > 0 && (
+                <div className="max-h-48 overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Fecha</TableHead>
+                        <TableHead className="text-right">Peso</TableHead>
+                        <TableHead className="text-right">% Grasa</TableHead>
+                        <TableHead className="text-right">MLG (kg)</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {importPreview.rows.map((row) => (
+                        <TableRow key={row.line}>
+                          <TableCell>{format(new Date(row.measurementDate), "dd/MM/yyyy HH:mm")}</TableCell>
+                          <TableCell className="text-right">{formatValue(row.values.weight)}</TableCell>
+                          <TableCell className="text-right">{formatValue(row.values.bodyFatPercentage)}</TableCell>
+                          <TableCell className="text-right">{formatValue(row.values.fatFreeMassKg)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              {importPreview.errors.length > 0 && (
+                <ul className="list-disc pl-5 text-destructive">
+                  {importPreview.errors.map((error) => (
+                    <li key={`${error.line}-${error.message}`}>
+                      Línea {error.line}: {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {importPreview.unrecognizedColumns.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Columnas no reconocidas (quedan guardadas en los datos originales):{" "}
+                  {importPreview.unrecognizedColumns.join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportPreview(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => csvContent && importMutation.mutate({ csv: csvContent, dryRun: false })}
+              disabled={!csvContent || !importPreview || importPreview.rows.length === 0 || importMutation.isPending}
+              data-testid="button-confirm-bia-import"
+            >
+              {importMutation.isPending ? "Importando..." : "Importar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={manualOpen} onOpenChange={setManualOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Nueva medición de bioimpedancia</DialogTitle>
+            <DialogDescription>Completá los valores que informa el equipo; los vacíos se omiten.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="bia-date">Fecha</Label>
+                <Input
+                  id="bia-date"
+                  type="date"
+                  value={manualDate}
+                  onChange={(e) => setManualDate(e.target.value)}
+                  data-testid="input-bia-date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bia-device">Equipo</Label>
+                <Input
+                  id="bia-device"
+                  placeholder="Ej.: Tanita MC-780"
+                  value={manualDevice}
+                  onChange={(e) => setManualDevice(e.target.value)}
+                  data-testid="input-bia-device"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+              {FIELD_ORDER.map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">
+                    {BIA_FIELD_LABELS[field].label} ({BIA_FIELD_LABELS[field].unit})
+                  </Label>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    value={manualValues[field] ?? ""}
+                    onChange={(e) => setManualValues({ ...manualValues, [field]: e.target.value })}
+                    data-testid={`input-bia-${field}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Segmental (kg)</p>
+              <div className="grid grid-cols-[1fr_100px_100px] items-center gap-2 text-xs">
+                <span />
+                <span className="text-muted-foreground">Masa magra</span>
+                <span className="text-muted-foreground">Masa grasa</span>
+                {SEGMENT_ORDER.map((segment) => (
+                  <div key={segment} className="contents">
+                    <span>{BIA_SEGMENT_LABELS[segment]}</span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={manualSegmental[segment]?.lean ?? ""}
+                      onChange={(e) =>
+                        setManualSegmental({
+                          ...manualSegmental,
+                          [segment]: { lean: e.target.value, fat: manualSegmental[segment]?.fat ?? "" },
+                        })
+                      }
+                      data-testid={`input-bia-${segment}-lean`}
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={manualSegmental[segment]?.fat ?? ""}
+                      onChange={(e) =>
+                        setManualSegmental({
+                          ...manualSegmental,
+                          [segment]: { lean: manualSegmental[segment]?.lean ?? "", fat: e.target.value },
+                        })
+                      }
+                      data-testid={`input-bia-${segment}-fat`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bia-notes">Notas</Label>
+              <Textarea
+                id="bia-notes"
+                placeholder="Ayuno, hidratación, hora del día..."
+                value={manualNotes}
+                onChange={(e) => setManualNotes(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setManualOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!manualDate || createMutation.isPending}
+              data-testid="button-save-bia"
+            >
+              {createMutation.isPending ? "Guardando..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title="Eliminar medición BIA"
+        description="La medición de bioimpedancia se eliminará definitivamente."
+        confirmLabel="Eliminar"
+        onConfirm={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Calculator } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BMR_EQUATIONS, ENERGY_MODELS, isBmrEquationId, isEnergyModel } from "@shared/energy-equations";
+
+interface ExplanationTerm {
+  key: string;
+  label: string;
+  value: number | string | null;
+  unit?: string;
+}
+
+interface CalculationExplanation {
+  field: string;
+  label: string;
+  value: number | string | null;
+  unit: string;
+  formula: string;
+  reference?: string;
+  inputs: ExplanationTerm[];
+  steps: ExplanationTerm[];
+  notes: string[];
+}
+
+interface CalculationExplainResponse {
+  measurementId: string;
+  calculationId: string;
+  formulaSetVersion: number | null;
+  snapshot: {
+    patient: { age: number | null; ageInMonths: number | null };
+    settings: { source: "settings" | "defaults" };
+    equations: {
+      bodyFat: string | null;
+      densityConversion: string | null;
+      bmr: string | null;
+      energyModel?: string | null;
+      referencePopulation: string;
+      growthReference: string | null;
+    };
+  } | null;
+  explanations: CalculationExplanation[];
+}
+
+interface CalculationExplainPanelProps {
+  measurementId: string;
+  className?: string;
+}
+
+const formatValue = (value: number | string | null, unit?: string) => {
+  if (value === null) return "—";
+  const numeric = typeof value === "number" ? value : Number(value);
+  const text = Number.isFinite(numeric) && value !== "" ? String(parseFloat(numeric.toFixed(3))) : String(value);
+  return unit ? `${text} ${unit}` : text;
+};
+
+function TermList({ title, terms }: { title: string; terms: ExplanationTerm[] }) {
+  if (terms.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium uppercase text-muted-foreground">{title}</p>
+      <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 text-sm">
+        {terms.map((item) => (
+          <div key={item.key} className="contents">
+            <dt className="text-muted-foreground">{item.label}</dt>
+            <dd className="text-right font-mono">{formatValue(item.value, item.unit)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+/**
+ * "Explicar este número": muestra cómo se obtuvo cada valor derivado de la
+ * medición con las entradas guardadas al calcularla.
+ */
+export function CalculationExplainPanel({ measurementId, className }: CalculationExplainPanelProps) {
+  const [field, setField] = useState<string>("");
+
+  const { data, isLoading } = useQuery<CalculationExplainResponse>({
+    queryKey: ["/api/calculations", measurementId, "explain"],
+  });
+
+  const explanations = data?.explanations ?? [];
+  const selected = explanations.find((explanation) => explanation.field === field) ?? explanations[0] ?? null;
+
+  useEffect(() => {
+    setField("");
+  }, [measurementId]);
+
+  return (
+    <Card className={className ?? "shadow-md"}>
+      <CardHeader className="flex flex-col gap-2 md:flex-row md:items-start md:justify-between md:space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5 text-primary" />
+            Explicar este número
+          </CardTitle>
+          <CardDescription>Fórmula, datos de entrada y pasos intermedios de cada valor calculado.</CardDescription>
+        </div>
+        {explanations.length > 0 && (
+          <Select value={selected?.field ?? ""} onValueChange={setField}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {explanations.map((explanation) => (
+                <SelectItem key={explanation.field} value={explanation.field}>
+                  {explanation.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !data?.snapshot ? (
+          <p className="text-sm text-muted-foreground">
+            Esta medición se calculó antes de guardar las entradas de cada cálculo. Recalculá las mediciones desde
+            Configuración para ver el desglose.
+          </p>
+        ) : !selected ? (
+          <p className="text-sm text-muted-foreground">No hay valores calculados para explicar.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-baseline gap-2">
+              <span className="text-2xl font-bold">{formatValue(selected.value, selected.unit)}</span>
+              {selected.reference && <Badge variant="outline">{selected.reference}</Badge>}
+            </div>
+            <p className="rounded-md bg-muted/50 px-3 py-2 font-mono text-sm">{selected.formula}</p>
+            <div className="grid gap-4 md:grid-cols-2">
+              <TermList title="Datos de entrada" terms={selected.inputs} />
+              <TermList title="Resultados intermedios" terms={selected.steps} />
+            </div>
+            {selected.notes.length > 0 && (
+              <ul className="list-disc space-y-1 pl-5 text-xs text-muted-foreground">
+                {selected.notes.map((note) => (
+                  <li key={note}>{note}</li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-2 border-t pt-3 text-xs">
+              {data.snapshot.patient.age !== null && (
+                <Badge variant="secondary">Edad a la medición: {data.snapshot.patient.age} años</Badge>
+              )}
+              {data.snapshot.equations.bmr && (
+                <Badge variant="secondary">
+                  TMB:{" "}
+                  {isBmrEquationId(data.snapshot.equations.bmr)
+                    ? BMR_EQUATIONS[data.snapshot.equations.bmr].label
+                    : data.snapshot.equations.bmr}
+                </Badge>
+              )}
+              {isEnergyModel(data.snapshot.equations.energyModel) && (
+                <Badge variant="secondary">GET: {ENERGY_MODELS[data.snapshot.equations.energyModel].label}</Badge>
+              )}
+              <Badge variant="secondary">Referencia: {data.snapshot.equations.referencePopulation}</Badge>
+              <Badge variant="outline">
+                {data.snapshot.settings.source === "settings" ? "Configuración del nutricionista" : "Valores por defecto"}
+              </Badge>
+              {data.formulaSetVersion !== null && <Badge variant="outline">Fórmulas v{data.formulaSetVersion}</Badge>}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
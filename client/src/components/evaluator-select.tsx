@@ -0,0 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Evaluator } from "@shared/schema";
+import type { EvaluatorTEM } from "@shared/isak-calculations";
+
+const NO_EVALUATOR = "none";
+
+export function useEvaluators() {
+  return useQuery<Evaluator[]>({ queryKey: ["/api/evaluators"] });
+}
+
+/** ETM propio del evaluador (null si no tiene estudio o no hay evaluador). */
+export function useEvaluatorTem(evaluatorId: string | null | undefined): EvaluatorTEM | null {
+  const { data: evaluators = [] } = useEvaluators();
+  const evaluator = evaluatorId ? evaluators.find((item) => item.id === evaluatorId) : undefined;
+  return (evaluator?.temValues as EvaluatorTEM | null | undefined) ?? null;
+}
+
+interface EvaluatorSelectProps {
+  value: string | null;
+  onChange: (evaluatorId: string | null) => void;
+  disabled?: boolean;
+  id?: string;
+}
+
+/** Selector del antropometrista; oculta los inactivos salvo el ya asignado. */
+export function EvaluatorSelect({ value, onChange, disabled = false, id }: EvaluatorSelectProps) {
+  const { data: evaluators = [] } = useEvaluators();
+  const options = evaluators.filter((evaluator) => evaluator.isActive || evaluator.id === value);
+
+  return (
+    <Select
+      value={value ?? NO_EVALUATOR}
+      onValueChange={(next) => onChange(next === NO_EVALUATOR ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Sin evaluador" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_EVALUATOR}>Sin evaluador</SelectItem>
+        {options.map((evaluator) => (
+          <SelectItem key={evaluator.id} value={evaluator.id}>
+            {evaluator.name}
+            {evaluator.isakLevel ? ` · ISAK ${evaluator.isakLevel}` : ""}
+            {evaluator.temValues ? "" : " (ETM de referencia)"}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,185 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format, formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { BellRing, CalendarPlus, Check, MessageCircle, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getFollowUpCadenceSourceLabel,
+  renderFollowUpMessage,
+  type FollowUpReminder,
+  type FollowUpReminderList,
+} from "@shared/follow-up";
+
+function toWhatsAppNumber(phone: string | null): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/[^0-9]/g, "");
+  return digits.length >= 10 ? digits : null;
+}
+
+function describeDue(reminder: FollowUpReminder): string {
+  if (reminder.daysOverdue === 0) return "Vence hoy";
+  if (reminder.daysOverdue > 0) {
+    return `Vencido hace ${reminder.daysOverdue} ${reminder.daysOverdue === 1 ? "día" : "días"}`;
+  }
+  const remaining = -reminder.daysOverdue;
+  return `Vence en ${remaining} ${remaining === 1 ? "día" : "días"}`;
+}
+
+/** Lista "Para contactar": pacientes con el control vencido o por vencer y sin turno agendado. */
+export function FollowUpCard() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<FollowUpReminderList>({
+    queryKey: ["/api/follow-ups"],
+  });
+  const { data: settings } = useQuery<{ whatsappTemplateClassic: string | null }>({
+    queryKey: ["/api/settings"],
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/follow-ups/refresh");
+      return (await response.json()) as FollowUpReminderList;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(["/api/follow-ups"], result);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo recalcular la lista.", variant: "destructive" });
+    },
+  });
+
+  const contactedMutation = useMutation({
+    mutationFn: async (patientId: string) => {
+      const response = await apiRequest("POST", `/api/follow-ups/${patientId}/contacted`, {});
+      return (await response.json()) as { followUps: FollowUpReminderList };
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(["/api/follow-ups"], result.followUps);
+      toast({ title: "Contacto registrado" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo registrar el contacto.", variant: "destructive" });
+    },
+  });
+
+  const reminders = data?.reminders ?? [];
+  const pendingCount = reminders.filter((reminder) => !reminder.contacted).length;
+
+  const handleWhatsApp = (reminder: FollowUpReminder) => {
+    const phone = toWhatsAppNumber(reminder.phone);
+    if (!phone) return;
+    const message = renderFollowUpMessage(settings?.whatsappTemplateClassic, reminder.patientName);
+    window.open(`https://wa.me/${phone}?text=${encodeURIComponent(message)}`, "_blank");
+  };
+
+  return (
+    <Card className="shadow-xl text-slate-900 dark:text-white" data-testid="card-follow-ups">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-2">
+          <CardTitle className="flex items-center gap-2 text-slate-900 dark:text-white">
+            <BellRing className="h-5 w-5 text-slate-600 dark:text-white" />
+            Para contactar
+            {pendingCount > 0 && <Badge variant="secondary">{pendingCount}</Badge>}
+          </CardTitle>
+          <CardDescription className="text-xs text-slate-600 dark:text-white/80">
+            Controles vencidos o que vencen esta semana, según la frecuencia de cada paciente.
+            {data && ` Actualizado ${formatDistanceToNow(new Date(data.computedAt), { addSuffix: true, locale: es })}.`}
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => refreshMutation.mutate()}
+          disabled={refreshMutation.isPending}
+          data-testid="button-refresh-follow-ups"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${refreshMutation.isPending ? "animate-spin" : ""}`} />
+          Recalcular
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : reminders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No hay pacientes con controles pendientes.</p>
+        ) : (
+          <div className="space-y-3">
+            {reminders.map((reminder) => {
+              const message = renderFollowUpMessage(settings?.whatsappTemplateClassic, reminder.patientName);
+              const hasPhone = Boolean(toWhatsAppNumber(reminder.phone));
+              return (
+                <div
+                  key={reminder.patientId}
+                  className={`rounded-xl border p-4 ${reminder.contacted ? "opacity-60" : ""}`}
+                  data-testid={`follow-up-${reminder.patientId}`}
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Link href={`/pacientes/${reminder.patientId}`} className="font-semibold hover:underline">
+                          {reminder.patientName}
+                        </Link>
+                        <Badge variant={reminder.status === "overdue" ? "destructive" : "outline"}>
+                          {describeDue(reminder)}
+                        </Badge>
+                        {reminder.contacted && reminder.lastContactedAt && (
+                          <Badge variant="secondary">
+                            Contactado el {format(new Date(reminder.lastContactedAt), "d/M")}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {reminder.lastVisitAt
+                          ? `Última visita: ${format(new Date(reminder.lastVisitAt), "dd/MM/yyyy")}`
+                          : "Sin visitas registradas"}
+                        {` · Control cada ${reminder.cadenceDays} días (${getFollowUpCadenceSourceLabel(reminder.cadenceSource)})`}
+                      </p>
+                      <p className="text-sm italic text-slate-700 dark:text-white/80">“{message}”</p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleWhatsApp(reminder)}
+                        disabled={!hasPhone}
+                        title={hasPhone ? undefined : "El paciente no tiene un teléfono válido"}
+                        data-testid={`button-follow-up-whatsapp-${reminder.patientId}`}
+                      >
+                        <MessageCircle className="h-4 w-4 mr-2" />
+                        WhatsApp
+                      </Button>
+                      <Button variant="outline" size="sm" asChild>
+                        <Link href={`/agenda?nuevo=1&patientId=${reminder.patientId}`}>
+                          <CalendarPlus className="h-4 w-4 mr-2" />
+                          Agendar
+                        </Link>
+                      </Button>
+                      {!reminder.contacted && (
+                        <Button
+                          size="sm"
+                          onClick={() => contactedMutation.mutate(reminder.patientId)}
+                          disabled={contactedMutation.isPending}
+                          data-testid={`button-follow-up-contacted-${reminder.patientId}`}
+                        >
+                          <Check className="h-4 w-4 mr-2" />
+                          Marcar contactado
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
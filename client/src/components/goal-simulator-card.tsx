@@ -0,0 +1,247 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Target } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  GOAL_TARGET_TYPES,
+  TREND_STATUS_LABELS,
+  type GoalSimulation,
+  type GoalTargetType,
+} from "@shared/goal-simulator";
+
+export interface GoalSimulatorParams {
+  targetType: GoalTargetType;
+  targetValue: string;
+  weeklyRatePercent: string;
+}
+
+// Para no disparar una consulta por cada tecla
+const useDebouncedValue = <T,>(value: T, delay = 400) => {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+  return debounced;
+};
+
+const formatDate = (date: string | null) => {
+  if (!date) return "—";
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year}`;
+};
+
+const formatShortDate = (date: string) => {
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year.slice(2)}`;
+};
+
+const formatNumber = (value: number | null, digits = 1) => (value === null ? "—" : value.toFixed(digits));
+
+export function buildGoalSimulationQuery(params: GoalSimulatorParams, measurementId?: string) {
+  const search = new URLSearchParams({ targetType: params.targetType, targetValue: params.targetValue });
+  if (params.weeklyRatePercent) search.set("weeklyRatePercent", params.weeklyRatePercent);
+  if (measurementId) search.set("measurementId", measurementId);
+  return search.toString();
+}
+
+interface GoalSimulatorCardProps {
+  patientId: string;
+}
+
+/**
+ * "¿Cuánto falta para llegar a X % de grasa?": peso objetivo, balance
+ * energético al ritmo elegido y fecha proyectada por la tendencia real.
+ */
+export function GoalSimulatorCard({ patientId }: GoalSimulatorCardProps) {
+  const [params, setParams] = useState<GoalSimulatorParams>({ targetType: "bodyFat", targetValue: "", weeklyRatePercent: "" });
+  const debouncedParams = useDebouncedValue(params);
+  const targetValue = parseFloat(debouncedParams.targetValue);
+
+  const { data: simulation, error, isFetching } = useQuery<GoalSimulation>({
+    queryKey: ["/api/patients", patientId, "goal-simulation", debouncedParams],
+    queryFn: async () => {
+      const response = await fetch(`/api/patients/${patientId}/goal-simulation?${buildGoalSimulationQuery(debouncedParams)}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "No se pudo simular el objetivo");
+      }
+      return response.json();
+    },
+    enabled: !!patientId && Number.isFinite(targetValue) && targetValue > 0,
+  });
+
+  const { unit } = GOAL_TARGET_TYPES[params.targetType];
+  const chartData = useMemo(
+    () => (simulation?.curve ?? []).map((point) => ({ ...point, label: formatShortDate(point.date) })),
+    [simulation],
+  );
+
+  const balance = simulation?.dailyEnergyBalance ?? null;
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5 text-primary" />
+          Simulador de objetivos
+        </CardTitle>
+        <CardDescription>
+          Peso objetivo, déficit o superávit necesario y fecha estimada según la evolución del paciente
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Objetivo</Label>
+            <Select
+              value={params.targetType}
+              onValueChange={(value) => setParams({ ...params, targetType: value as GoalTargetType, targetValue: "" })}
+            >
+              <SelectTrigger data-testid="select-goal-target-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GOAL_TARGET_TYPES) as GoalTargetType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {GOAL_TARGET_TYPES[type].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="goal-target-value">Valor objetivo ({unit})</Label>
+            <Input
+              id="goal-target-value"
+              type="number"
+              step="0.1"
+              placeholder={params.targetType === "bodyFat" ? "Ej.: 15" : "Ej.: 35"}
+              value={params.targetValue}
+              onChange={(e) => setParams({ ...params, targetValue: e.target.value })}
+              data-testid="input-goal-target-value"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="goal-weekly-rate">Ritmo (% del peso por semana)</Label>
+            <Input
+              id="goal-weekly-rate"
+              type="number"
+              step="0.05"
+              min={0.05}
+              max={2}
+              placeholder="Automático"
+              value={params.weeklyRatePercent}
+              onChange={(e) => setParams({ ...params, weeklyRatePercent: e.target.value })}
+              data-testid="input-goal-weekly-rate"
+            />
+          </div>
+        </div>
+
+        {error instanceof Error && <p className="text-sm text-destructive">{error.message}</p>}
+        {!simulation && !error && (
+          <p className="text-sm text-muted-foreground">
+            {isFetching ? "Calculando…" : "Ingresá un valor objetivo para ver la simulación."}
+          </p>
+        )}
+
+        {simulation && (
+          <>
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Actual → objetivo</p>
+                <p className="text-lg font-semibold">
+                  {formatNumber(simulation.currentValue)} → {formatNumber(simulation.target.value)} {unit}
+                </p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Peso objetivo</p>
+                <p className="text-lg font-semibold">{formatNumber(simulation.targetWeight)} kg</p>
+                {simulation.weightChangeKg !== null && (
+                  <p className="text-xs text-muted-foreground">
+                    {simulation.weightChangeKg > 0 ? "+" : ""}
+                    {simulation.weightChangeKg.toFixed(1)} kg ·{" "}
+                    {simulation.target.type === "bodyFat" ? "masa magra constante" : "masa grasa constante"}
+                  </p>
+                )}
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">{balance !== null && balance < 0 ? "Déficit diario" : "Superávit diario"}</p>
+                <p className="text-lg font-semibold">{balance !== null ? `${Math.abs(balance)} kcal` : "—"}</p>
+                <p className="text-xs text-muted-foreground">
+                  {simulation.targetCalories !== null ? `${simulation.targetCalories} kcal/día · ` : ""}
+                  {formatNumber(simulation.weeklyRateKg, 2)} kg/semana
+                </p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Fecha estimada</p>
+                <p className="text-lg font-semibold">{formatDate(simulation.plannedDate)}</p>
+                <p className="text-xs text-muted-foreground">
+                  Tendencia real: {formatDate(simulation.projectedDate)}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <Badge variant={simulation.trendStatus === "on_track" || simulation.trendStatus === "reached" ? "default" : "secondary"}>
+                {TREND_STATUS_LABELS[simulation.trendStatus]}
+              </Badge>
+              {simulation.trend && (
+                <span className="text-muted-foreground">
+                  {simulation.trend.slopePerWeek > 0 ? "+" : ""}
+                  {simulation.trend.slopePerWeek.toFixed(2)} {unit}/semana en {simulation.trend.points} mediciones
+                  {simulation.trend.rSquared !== null ? ` (R² ${simulation.trend.rSquared.toFixed(2)})` : ""}
+                </span>
+              )}
+            </div>
+
+            {chartData.length > 1 && (
+              <ResponsiveContainer width="100%" height={280}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="label" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                  <YAxis className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} domain={["dataMin - 1", "dataMax + 1"]} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "6px",
+                    }}
+                  />
+                  <Legend />
+                  <ReferenceLine y={simulation.target.value} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                  <Line type="monotone" dataKey="actual" stroke="hsl(var(--primary))" strokeWidth={0} dot={{ r: 4 }} name={`Mediciones (${unit})`} />
+                  <Line type="linear" dataKey="trend" stroke="hsl(var(--chart-4))" strokeDasharray="6 4" dot={false} name="Tendencia" connectNulls />
+                  <Line type="monotone" dataKey="plan" stroke="hsl(var(--chart-2))" strokeWidth={2} dot={false} name="Plan" connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+
+            {simulation.warnings.length > 0 && (
+              <ul className="list-disc space-y-1 pl-5 text-xs text-muted-foreground">
+                {simulation.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
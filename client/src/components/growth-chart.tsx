@@ -0,0 +1,223 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Baby } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  GROWTH_CURVE_Z_LINES,
+  GROWTH_INDICATORS,
+  assessGrowth,
+  getAgeInMonths,
+  getGrowthCurves,
+  growthCurveKey,
+  isPediatricAge,
+  type GrowthIndicator,
+} from "@shared/growth-references";
+import { normalizeGender } from "@shared/body-fat-equations";
+
+interface GrowthMeasurement {
+  id: string;
+  measurementDate: string | Date;
+  weight: string | null;
+  height: string | null;
+}
+
+interface GrowthChartCardProps {
+  birthDate: string | Date | null | undefined;
+  gender: string | null | undefined;
+  measurements: GrowthMeasurement[];
+  selectedMeasurementId?: string | null;
+  className?: string;
+}
+
+const CURVE_COLORS: Record<number, string> = {
+  0: "hsl(142 71% 35%)",
+  1: "hsl(38 92% 50%)",
+  2: "hsl(0 72% 51%)",
+  3: "hsl(var(--foreground))",
+};
+
+const toNumeric = (value: string | null): number | null => {
+  if (value === null) return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+function indicatorValue(indicator: GrowthIndicator, measurement: GrowthMeasurement): number | null {
+  const weight = toNumeric(measurement.weight);
+  const height = toNumeric(measurement.height);
+  if (indicator === "weightForAge") return weight;
+  if (indicator === "heightForAge") return height;
+  return weight && height ? weight / Math.pow(height / 100, 2) : null;
+}
+
+/**
+ * Curvas de crecimiento OMS (-3 a +3 SD) con las mediciones del paciente.
+ * No se muestra si el paciente no tiene sexo/fecha de nacimiento o ninguna
+ * medición fue tomada antes de los 19 años.
+ */
+export function GrowthChartCard({
+  birthDate,
+  gender,
+  measurements,
+  selectedMeasurementId,
+  className,
+}: GrowthChartCardProps) {
+  const [indicator, setIndicator] = useState<GrowthIndicator>("bmiForAge");
+  const sex = normalizeGender(gender ?? null);
+
+  const pediatricMeasurements = useMemo(
+    () =>
+      measurements
+        .map((measurement) => ({
+          measurement,
+          ageMonths: getAgeInMonths(birthDate, measurement.measurementDate),
+        }))
+        .filter((entry): entry is { measurement: GrowthMeasurement; ageMonths: number } => isPediatricAge(entry.ageMonths))
+        .sort((a, b) => a.ageMonths - b.ageMonths),
+    [measurements, birthDate],
+  );
+
+  const points = useMemo(
+    () =>
+      pediatricMeasurements
+        .filter(({ ageMonths }) => ageMonths <= GROWTH_INDICATORS[indicator].maxAgeMonths)
+        .map(({ measurement, ageMonths }) => {
+          const value = indicatorValue(indicator, measurement);
+          if (value === null) return null;
+          return {
+            id: measurement.id,
+            ageYears: parseFloat((ageMonths / 12).toFixed(2)),
+            date: format(new Date(measurement.measurementDate), "dd/MM/yy"),
+            paciente: parseFloat(value.toFixed(2)),
+          };
+        })
+        .filter((point): point is NonNullable<typeof point> => point !== null),
+    [pediatricMeasurements, indicator],
+  );
+
+  const curves = useMemo(() => {
+    if (!sex || pediatricMeasurements.length === 0) return [];
+    const youngest = pediatricMeasurements[0].ageMonths;
+    return getGrowthCurves(indicator, sex, 3, { fromMonths: youngest < 61 ? 24 : 61 });
+  }, [indicator, sex, pediatricMeasurements]);
+
+  if (!sex || pediatricMeasurements.length === 0) {
+    return null;
+  }
+
+  const selected =
+    pediatricMeasurements.find(({ measurement }) => measurement.id === selectedMeasurementId) ??
+    pediatricMeasurements[pediatricMeasurements.length - 1];
+  const assessment = assessGrowth(indicator, indicatorValue(indicator, selected.measurement), sex, selected.ageMonths);
+  const { label, unit } = GROWTH_INDICATORS[indicator];
+
+  return (
+    <Card className={className ?? "shadow-md"}>
+      <CardHeader className="flex flex-col gap-2 md:flex-row md:items-start md:justify-between md:space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Baby className="h-5 w-5 text-primary" />
+            Curvas de crecimiento (OMS)
+          </CardTitle>
+          <CardDescription>
+            OMS 2006 (2 a 5 años) y OMS 2007 (5 a 19 años). Las líneas marcan la mediana y ±1, ±2 y ±3 SD.
+          </CardDescription>
+        </div>
+        <Select value={indicator} onValueChange={(value) => setIndicator(value as GrowthIndicator)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(GROWTH_INDICATORS) as GrowthIndicator[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {GROWTH_INDICATORS[key].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {assessment ? (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">
+              {format(new Date(selected.measurement.measurementDate), "dd/MM/yyyy")} · {(selected.ageMonths / 12).toFixed(1)} años:
+            </span>
+            <Badge variant="outline">Z {assessment.zScore.toFixed(2)}</Badge>
+            <Badge variant="outline">P{assessment.percentile.toFixed(1)}</Badge>
+            <Badge variant={assessment.classification === "Normal" ? "secondary" : "default"}>
+              {assessment.classification}
+            </Badge>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {indicator === "weightForAge"
+              ? "El peso para la edad sólo está definido hasta los 10 años; usá el IMC para la edad."
+              : "Sin datos suficientes para la medición seleccionada."}
+          </p>
+        )}
+        <ResponsiveContainer width="100%" height={320}>
+          <ComposedChart data={curves}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis
+              type="number"
+              dataKey="ageYears"
+              domain={["dataMin", "dataMax"]}
+              allowDuplicatedCategory={false}
+              className="text-xs"
+              tick={{ fill: "hsl(var(--muted-foreground))" }}
+              label={{ value: "Edad (años)", position: "insideBottom", offset: -2, fontSize: 11 }}
+            />
+            <YAxis
+              className="text-xs"
+              tick={{ fill: "hsl(var(--muted-foreground))" }}
+              domain={["auto", "auto"]}
+              label={{ value: unit, angle: -90, position: "insideLeft", fontSize: 11 }}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "hsl(var(--card))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "6px",
+              }}
+              labelFormatter={(value) => `${Number(value).toFixed(1)} años`}
+            />
+            <Legend />
+            {GROWTH_CURVE_Z_LINES.map((z) => (
+              <Line
+                key={z}
+                type="monotone"
+                dataKey={growthCurveKey(z)}
+                name={z === 0 ? "Mediana" : `${z > 0 ? "+" : ""}${z} SD`}
+                stroke={CURVE_COLORS[Math.abs(z)]}
+                strokeWidth={z === 0 ? 2 : 1}
+                strokeDasharray={Math.abs(z) === 1 ? "4 4" : undefined}
+                dot={false}
+                activeDot={false}
+              />
+            ))}
+            <Scatter
+              name={`${label} del paciente`}
+              data={points}
+              dataKey="paciente"
+              fill="hsl(var(--primary))"
+              line={{ stroke: "hsl(var(--primary) / 0.5)" }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import { Input } from "@/components/ui/input";
+import { MEAL_SLOTS, type MealSlot } from "@shared/macro-periodization";
+import type { MealDistribution } from "@shared/schema";
+
+export type MealDistributionPercent = Record<MealSlot, number>;
+
+export const toMealDistributionPercent = (distribution: MealDistribution): MealDistributionPercent =>
+  MEAL_SLOTS.reduce((acc, slot) => {
+    acc[slot.id] = Math.round(distribution[slot.id] * 1000) / 10;
+    return acc;
+  }, {} as MealDistributionPercent);
+
+export const fromMealDistributionPercent = (percent: MealDistributionPercent): MealDistribution =>
+  MEAL_SLOTS.reduce((acc, slot) => {
+    acc[slot.id] = Math.round((percent[slot.id] || 0) * 10) / 1000;
+    return acc;
+  }, {} as MealDistribution);
+
+export const getMealDistributionTotal = (percent: MealDistributionPercent) =>
+  Math.round(MEAL_SLOTS.reduce((total, slot) => total + (percent[slot.id] || 0), 0) * 10) / 10;
+
+interface MealDistributionEditorProps {
+  value: MealDistributionPercent;
+  onChange: (value: MealDistributionPercent) => void;
+  testIdPrefix?: string;
+}
+
+/** Porcentaje del día asignado a cada comida; el total debe dar 100 %. */
+export function MealDistributionEditor({ value, onChange, testIdPrefix = "meal-distribution" }: MealDistributionEditorProps) {
+  const total = getMealDistributionTotal(value);
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-5 gap-2">
+        {MEAL_SLOTS.map((slot) => (
+          <div key={slot.id} className="space-y-1">
+            <p className="text-xs text-muted-foreground">{slot.label}</p>
+            <div className="relative">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="1"
+                value={value[slot.id]}
+                onChange={(e) => onChange({ ...value, [slot.id]: parseFloat(e.target.value) || 0 })}
+                className="pr-6"
+                data-testid={`input-${testIdPrefix}-${slot.id}`}
+              />
+              <span className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+                %
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className={`text-xs ${Math.abs(total - 100) > 1 ? "text-destructive" : "text-muted-foreground"}`}>
+        Total: {total}%{Math.abs(total - 100) > 1 ? " — debe sumar 100%" : ""}
+      </p>
+    </div>
+  );
+}
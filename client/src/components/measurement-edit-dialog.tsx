@@ -12,7 +12,14 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { PlausibilityWarningsDialog, getPlausibilityWarnings } from "@/components/plausibility-warnings-dialog";
+import type { PlausibilityOverrideInput, PlausibilityWarning } from "@shared/measurement-plausibility";
 import type { Measurement, MeasurementCalculation } from "@shared/schema";
+import { getMeasurementSite, resolveMeasurementTrials, type MeasurementTrials } from "@shared/isak-calculations";
+import { MeasurementTrialsPanel } from "@/components/measurement-trials-panel";
+import { AuditHistoryPanel } from "@/components/audit-history-panel";
+import { EvaluatorSelect, useEvaluatorTem } from "@/components/evaluator-select";
+import { Switch } from "@/components/ui/switch";
 import { Calculator, Info, Ruler, Scale, Thermometer, Activity, Droplet } from "lucide-react";
 import { format } from "date-fns";
 
@@ -77,6 +84,8 @@ const numericFieldGroups: Array<{
       { key: "abdominal", label: "Abdominal", unit: "mm", step: "0.1" },
       { key: "thighSkinfold", label: "Muslo medial", unit: "mm", step: "0.1" },
       { key: "calfSkinfold", label: "Pantorrilla", unit: "mm", step: "0.1" },
+      { key: "chestSkinfold", label: "Pectoral", unit: "mm", step: "0.1" },
+      { key: "midaxillarySkinfold", label: "Axilar medio", unit: "mm", step: "0.1" },
     ],
   },
 ];
@@ -108,7 +117,9 @@ type NumericFieldKey =
   | "supraspinal"
   | "abdominal"
   | "thighSkinfold"
-  | "calfSkinfold";
+  | "calfSkinfold"
+  | "chestSkinfold"
+  | "midaxillarySkinfold";
 
 type MeasurementWithExtras = Measurement & {
   calculations?: MeasurementCalculation | null;
@@ -124,8 +135,10 @@ interface MeasurementEditDialogProps {
 
 type MeasurementFormState = {
   measurementDate: string;
+  evaluatorId: string | null;
   notes: string;
   version: number | null;
+  rawTrials: MeasurementTrials;
 } & Record<NumericFieldKey, number | null>;
 
 const numericKeys: NumericFieldKey[] = numericFieldGroups.flatMap((group) => group.fields.map((field) => field.key));
@@ -139,8 +152,10 @@ const toNumberOrNull = (value: unknown): number | null => {
 const toEditableState = (measurement: MeasurementWithExtras): MeasurementFormState => {
   const state: MeasurementFormState = {
     measurementDate: measurement.measurementDate ? new Date(measurement.measurementDate).toISOString() : new Date().toISOString(),
+    evaluatorId: measurement.evaluatorId ?? null,
     notes: measurement.notes ?? "",
     version: measurement.version ?? null,
+    rawTrials: (measurement.rawTrials as MeasurementTrials | null) ?? {},
     weight: null,
     height: null,
     seatedHeight: null,
@@ -168,6 +183,8 @@ const toEditableState = (measurement: MeasurementWithExtras): MeasurementFormSta
     abdominal: null,
     thighSkinfold: null,
     calfSkinfold: null,
+    chestSkinfold: null,
+    midaxillarySkinfold: null,
   };
 
   for (const key of numericKeys) {
@@ -186,18 +203,25 @@ export function MeasurementEditDialog({
 }: MeasurementEditDialogProps) {
   const { toast } = useToast();
   const [formState, setFormState] = useState<MeasurementFormState | null>(measurement ? toEditableState(measurement) : null);
+  const [trialMode, setTrialMode] = useState(false);
+  const [plausibilityWarnings, setPlausibilityWarnings] = useState<PlausibilityWarning[] | null>(null);
+  const evaluatorTem = useEvaluatorTem(formState?.evaluatorId);
 
   useEffect(() => {
     if (!open) return;
     if (measurement) {
-      setFormState(toEditableState(measurement));
+      const state = toEditableState(measurement);
+      setFormState(state);
+      setTrialMode(Object.keys(state.rawTrials).length > 0);
     } else {
       setFormState(null);
     }
   }, [measurement, open]);
 
   const updateMeasurementMutation = useMutation({
-    mutationFn: async (payload: MeasurementFormState & { measurementId: string }) => {
+    mutationFn: async (
+      payload: MeasurementFormState & { measurementId: string; plausibilityOverrides?: PlausibilityOverrideInput[] },
+    ) => {
       const { measurementId, version, ...data } = payload;
       return await apiRequest("PATCH", `/api/measurements/${measurementId}`, {
         ...data,
@@ -219,6 +243,11 @@ export function MeasurementEditDialog({
       onOpenChange(false);
     },
     onError: (error: unknown) => {
+      const warnings = getPlausibilityWarnings(error);
+      if (warnings) {
+        setPlausibilityWarnings(warnings);
+        return;
+      }
       const message = error instanceof Error ? error.message : "No se pudo actualizar la medición.";
       const conflict = message.includes("409");
       toast({
@@ -249,7 +278,7 @@ export function MeasurementEditDialog({
     setFormState((prev) => (prev ? { ...prev, measurementDate: new Date(value).toISOString() } : prev));
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = (plausibilityOverrides?: PlausibilityOverrideInput[]) => {
     if (!measurement || !formState) return;
     if (formState.version === null) {
       toast({
@@ -260,9 +289,23 @@ export function MeasurementEditDialog({
       return;
     }
 
+    if (trialMode) {
+      const pending = resolveMeasurementTrials(formState.rawTrials, evaluatorTem).pendingThirdTrial;
+      if (pending.length > 0) {
+        toast({
+          title: "Falta la tercera toma",
+          description: `Completá: ${pending.map((site) => getMeasurementSite(site)?.label ?? site).join(", ")}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
     updateMeasurementMutation.mutate({
       ...formState,
+      rawTrials: trialMode ? formState.rawTrials : {},
       measurementId: measurement.id,
+      plausibilityOverrides,
     });
   };
 
@@ -328,6 +371,42 @@ export function MeasurementEditDialog({
                       disabled={isSaving}
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="measurement-evaluator">Evaluador</Label>
+                    <EvaluatorSelect
+                      id="measurement-evaluator"
+                      value={formState.evaluatorId}
+                      onChange={(evaluatorId) => setFormState((prev) => (prev ? { ...prev, evaluatorId } : prev))}
+                      disabled={isSaving}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-4 rounded-xl border bg-muted/40 p-5">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <h3 className="text-base font-semibold">Tomas repetidas (ISAK)</h3>
+                      <p className="mt-1 text-sm text-muted-foreground">
+                        Dos tomas por sitio y una tercera cuando superan la tolerancia. El valor final se copia abajo.
+                      </p>
+                    </div>
+                    <Switch
+                      checked={trialMode}
+                      onCheckedChange={setTrialMode}
+                      disabled={isSaving}
+                      aria-label="Activar tomas repetidas"
+                    />
+                  </div>
+                  {trialMode && (
+                    <MeasurementTrialsPanel
+                      trials={formState.rawTrials}
+                      evaluatorTem={evaluatorTem}
+                      disabled={isSaving}
+                      onChange={(trials, resolved) =>
+                        setFormState((prev) => (prev ? { ...prev, ...resolved, rawTrials: trials } : prev))
+                      }
+                    />
+                  )}
                 </div>
 
                 {numericFieldGroups.map((group) => {
@@ -458,6 +537,8 @@ export function MeasurementEditDialog({
                   )}
                 </CardContent>
               </Card>
+
+              {measurement && <AuditHistoryPanel entityType="measurement" entityId={measurement.id} compact />}
             </div>
           </div>
         ) : (
@@ -476,11 +557,19 @@ export function MeasurementEditDialog({
             <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
               Cancelar
             </Button>
-            <Button onClick={handleSubmit} disabled={!formState || isSaving}>
+            <Button onClick={() => handleSubmit()} disabled={!formState || isSaving}>
               {isSaving ? "Guardando…" : "Guardar medición"}
             </Button>
           </div>
         </DialogFooter>
+        <PlausibilityWarningsDialog
+          warnings={plausibilityWarnings}
+          onCancel={() => setPlausibilityWarnings(null)}
+          onConfirm={(overrides) => {
+            setPlausibilityWarnings(null);
+            handleSubmit(overrides);
+          }}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { ClipboardList } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getMeasurementSite } from "@shared/isak-calculations";
+import type {
+  MeasurementProtocolsResponse,
+  MeasurementProtocolSummary,
+  ProtocolCalculationStatus,
+} from "@shared/measurement-protocols";
+
+// Valor del select para "sin protocolo": se muestran todos los sitios y no hay obligatorios
+export const NO_PROTOCOL = "none";
+
+const STATUS_LABELS: Record<ProtocolCalculationStatus, string> = {
+  enabled: "Habilitado",
+  optional: "Con opcionales",
+  unavailable: "No disponible",
+};
+
+const STATUS_VARIANTS: Record<ProtocolCalculationStatus, "default" | "secondary" | "outline"> = {
+  enabled: "default",
+  optional: "secondary",
+  unavailable: "outline",
+};
+
+const siteLabels = (sites: string[]) => sites.map((site) => getMeasurementSite(site)?.label ?? site).join(", ");
+
+/** Perfiles disponibles; con paciente, la ecuación de grasa se evalúa con su sexo. */
+export function useMeasurementProtocols(patientId?: string | null) {
+  return useQuery<MeasurementProtocolsResponse>({
+    queryKey: ["/api/measurement-protocols", patientId ?? null],
+    queryFn: async () => {
+      const search = patientId ? `?${new URLSearchParams({ patientId })}` : "";
+      const response = await fetch(`/api/measurement-protocols${search}`);
+      if (!response.ok) {
+        throw new Error("No se pudieron cargar los protocolos");
+      }
+      return response.json();
+    },
+  });
+}
+
+interface MeasurementProtocolCardProps {
+  protocols: MeasurementProtocolSummary[];
+  value: string;
+  onChange: (protocolId: string) => void;
+  disabled?: boolean;
+}
+
+/** Selección del perfil de protocolo y cálculos que habilita antes de medir. */
+export function MeasurementProtocolCard({ protocols, value, onChange, disabled }: MeasurementProtocolCardProps) {
+  const selected = protocols.find((protocol) => protocol.id === value) ?? null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-primary" />
+          Protocolo de medición
+        </CardTitle>
+        <CardDescription>
+          El perfil define qué sitios se miden (en el orden ISAK) y cuáles son obligatorios.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-w-sm space-y-2">
+          <Label>Perfil</Label>
+          <Select value={value} onValueChange={onChange} disabled={disabled}>
+            <SelectTrigger data-testid="select-measurement-protocol">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {protocols.map((protocol) => (
+                <SelectItem key={protocol.id} value={protocol.id}>
+                  {protocol.label}
+                </SelectItem>
+              ))}
+              <SelectItem value={NO_PROTOCOL}>Sin protocolo (todos los sitios)</SelectItem>
+            </SelectContent>
+          </Select>
+          {selected?.description && <p className="text-xs text-muted-foreground">{selected.description}</p>}
+        </div>
+
+        {selected && (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {selected.calculations.map((calculation) => (
+              <div key={calculation.id} className="flex items-start justify-between gap-2 rounded-md border p-2 text-sm">
+                <div>
+                  <p>{calculation.label}</p>
+                  {calculation.missingSites.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {calculation.status === "optional" ? "Requiere cargar" : "Falta"}: {siteLabels(calculation.missingSites)}
+                    </p>
+                  )}
+                </div>
+                <Badge variant={STATUS_VARIANTS[calculation.status]} className="shrink-0">
+                  {STATUS_LABELS[calculation.status]}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
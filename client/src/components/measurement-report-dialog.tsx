@@ -4,6 +4,9 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
@@ -13,6 +16,8 @@ import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { FileText, Loader2 } from "lucide-react";
+import { GOAL_TARGET_TYPES, type GoalTargetType } from "@shared/goal-simulator";
+import type { GoalSimulatorParams } from "@/components/goal-simulator-card";
 
 interface MeasurementReportDialogProps {
   open: boolean;
@@ -33,6 +38,8 @@ export function MeasurementReportDialog({
   const [summary, setSummary] = useState("");
   const [recommendations, setRecommendations] = useState("");
   const [notes, setNotes] = useState("");
+  const [includeGoal, setIncludeGoal] = useState(false);
+  const [goal, setGoal] = useState<GoalSimulatorParams>({ targetType: "bodyFat", targetValue: "", weeklyRatePercent: "" });
 
   useEffect(() => {
     if (!open || !measurement) return;
@@ -58,12 +65,22 @@ export function MeasurementReportDialog({
   const generateReportMutation = useMutation({
     mutationFn: async () => {
       if (!measurement?.patientId) throw new Error("La medición seleccionada no tiene paciente asociado.");
+      const goalValue = parseFloat(goal.targetValue);
+      const weeklyRatePercent = parseFloat(goal.weeklyRatePercent);
       return await apiRequest("POST", "/api/reports/generate", {
         patientId: measurement.patientId,
         measurementId: measurement.id,
         summary,
         recommendations,
         notes,
+        goal:
+          includeGoal && Number.isFinite(goalValue) && goalValue > 0
+            ? {
+                targetType: goal.targetType,
+                targetValue: goalValue,
+                weeklyRatePercent: Number.isFinite(weeklyRatePercent) && weeklyRatePercent > 0 ? weeklyRatePercent : undefined,
+              }
+            : undefined,
       });
     },
     onSuccess: () => {
@@ -139,6 +156,53 @@ export function MeasurementReportDialog({
                       placeholder="Agrega precisiones complementarias que quieras conservar en el informe."
                     />
                   </div>
+                  <div className="space-y-3 rounded-md border p-3">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="include-goal"
+                        checked={includeGoal}
+                        onCheckedChange={(checked) => setIncludeGoal(checked === true)}
+                        data-testid="checkbox-report-goal"
+                      />
+                      <Label htmlFor="include-goal">Incluir simulación de objetivo</Label>
+                    </div>
+                    {includeGoal && (
+                      <div className="grid gap-2 sm:grid-cols-3">
+                        <Select
+                          value={goal.targetType}
+                          onValueChange={(value) => setGoal({ ...goal, targetType: value as GoalTargetType })}
+                        >
+                          <SelectTrigger className="sm:col-span-3">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(GOAL_TARGET_TYPES) as GoalTargetType[]).map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {GOAL_TARGET_TYPES[type].label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          placeholder={`Objetivo (${GOAL_TARGET_TYPES[goal.targetType].unit})`}
+                          value={goal.targetValue}
+                          onChange={(event) => setGoal({ ...goal, targetValue: event.target.value })}
+                          className="sm:col-span-2"
+                          data-testid="input-report-goal-value"
+                        />
+                        <Input
+                          type="number"
+                          step="0.05"
+                          placeholder="% peso/sem"
+                          value={goal.weeklyRatePercent}
+                          onChange={(event) => setGoal({ ...goal, weeklyRatePercent: event.target.value })}
+                          data-testid="input-report-goal-rate"
+                        />
+                      </div>
+                    )}
+                  </div>
                 </div>
               </ScrollArea>
 
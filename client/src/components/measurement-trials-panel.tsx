@@ -0,0 +1,161 @@
+import { useMemo } from "react";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { cn } from "@/lib/utils";
+import {
+  ISAK_SITES,
+  getTrialTolerancePercent,
+  needsThirdTrial,
+  resolveTrialValue,
+  type EvaluatorTEM,
+  type MeasurementSiteGroup,
+  type MeasurementSiteKey,
+  type MeasurementTrials,
+} from "@shared/isak-calculations";
+
+export const MEASUREMENT_GROUP_TITLES: Record<MeasurementSiteGroup, string> = {
+  basic: "Datos básicos",
+  skinfold: "Pliegues cutáneos",
+  perimeter: "Perímetros",
+  diameter: "Diámetros óseos",
+};
+
+export type ResolvedTrialValues = Partial<Record<MeasurementSiteKey, number | null>>;
+
+interface MeasurementTrialsPanelProps {
+  trials: MeasurementTrials;
+  onChange: (trials: MeasurementTrials, resolved: ResolvedTrialValues) => void;
+  sites?: MeasurementSiteKey[];
+  /** ETM propio del evaluador; si falta se usan los valores de referencia. */
+  evaluatorTem?: EvaluatorTEM | null;
+  disabled?: boolean;
+}
+
+const finiteTrials = (values: number[] | undefined) => (values ?? []).filter((value) => Number.isFinite(value));
+
+// Estado de un sitio: si necesita tercera toma y cuál es su valor final (null si falta completar)
+function evaluateSiteTrials(site: MeasurementSiteKey, trials: number[] | undefined, evaluatorTem?: EvaluatorTEM | null) {
+  const firstTwo = finiteTrials(trials?.slice(0, 2));
+  const values = finiteTrials(trials);
+  const requiresThird = firstTwo.length === 2 && needsThirdTrial(site, firstTwo, evaluatorTem);
+  if (requiresThird) {
+    return { requiresThird, finalValue: values.length >= 3 ? resolveTrialValue(values) : null };
+  }
+  // Si las dos primeras concuerdan, una tercera toma previa no se considera
+  return { requiresThird, finalValue: resolveTrialValue(firstTwo.length === 2 ? firstTwo : values) };
+}
+
+/**
+ * Captura de tomas repetidas por sitio (protocolo ISAK). Se piden dos tomas;
+ * si difieren más que la tolerancia derivada del %ETM aparece la tercera.
+ * El valor final (media de dos, mediana de tres) se informa al padre en
+ * `resolved` para que lo copie al campo de la medición.
+ */
+export function MeasurementTrialsPanel({
+  trials,
+  onChange,
+  sites,
+  evaluatorTem = null,
+  disabled = false,
+}: MeasurementTrialsPanelProps) {
+  const visibleSites = useMemo(
+    () => (sites ? ISAK_SITES.filter((site) => sites.includes(site.key)) : ISAK_SITES),
+    [sites],
+  );
+
+  const pendingSites = visibleSites.filter((site) => {
+    const { requiresThird, finalValue } = evaluateSiteTrials(site.key, trials[site.key], evaluatorTem);
+    return requiresThird && finalValue === null;
+  });
+
+  const handleTrialChange = (site: MeasurementSiteKey, index: number, rawValue: string) => {
+    const current = [...(trials[site] ?? [])];
+    while (current.length < index) current.push(Number.NaN);
+    current[index] = rawValue === "" ? Number.NaN : Number(rawValue);
+
+    const { requiresThird, finalValue } = evaluateSiteTrials(site, current, evaluatorTem);
+    const next: MeasurementTrials = {
+      ...trials,
+      [site]: requiresThird ? current : current.slice(0, 2),
+    };
+
+    onChange(next, { [site]: finalValue !== null ? parseFloat(finalValue.toFixed(2)) : null });
+  };
+
+  const groups = (Object.keys(MEASUREMENT_GROUP_TITLES) as MeasurementSiteGroup[])
+    .map((group) => ({ group, sites: visibleSites.filter((site) => site.group === group) }))
+    .filter((entry) => entry.sites.length > 0);
+
+  return (
+    <div className="space-y-4">
+      {pendingSites.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Tomá una tercera medición en: {pendingSites.map((site) => site.label).join(", ")}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {groups.map(({ group, sites: groupSites }) => (
+        <div key={group} className="space-y-2">
+          <h4 className="text-sm font-semibold">{MEASUREMENT_GROUP_TITLES[group]}</h4>
+          <div className="space-y-2">
+            {groupSites.map((site) => {
+              const siteTrials = trials[site.key] ?? [];
+              const { requiresThird, finalValue } = evaluateSiteTrials(site.key, siteTrials, evaluatorTem);
+              const slots = requiresThird ? 3 : 2;
+
+              return (
+                <div
+                  key={site.key}
+                  className={cn(
+                    "grid grid-cols-[minmax(140px,1fr)_repeat(3,minmax(70px,90px))_minmax(90px,auto)] items-center gap-2 rounded-md border bg-background px-3 py-2",
+                    requiresThird && finalValue === null && "border-destructive/60",
+                  )}
+                >
+                  <div className="text-sm">
+                    {site.label}
+                    <span className="block text-xs text-muted-foreground">
+                      {site.unit} · tol. {getTrialTolerancePercent(site.key, evaluatorTem).toFixed(1)}%
+                    </span>
+                  </div>
+                  {[0, 1, 2].map((index) =>
+                    index < slots ? (
+                      <Input
+                        key={index}
+                        type="number"
+                        step="0.1"
+                        placeholder={`Toma ${index + 1}`}
+                        aria-label={`${site.label} toma ${index + 1}`}
+                        value={Number.isFinite(siteTrials[index]) ? siteTrials[index] : ""}
+                        onChange={(event) => handleTrialChange(site.key, index, event.target.value)}
+                        disabled={disabled}
+                      />
+                    ) : (
+                      <span key={index} />
+                    ),
+                  )}
+                  <div className="flex justify-end">
+                    {finalValue !== null ? (
+                      <Badge variant="secondary" className="gap-1">
+                        <CheckCircle2 className="h-3 w-3" />
+                        {finalValue.toFixed(2)}
+                      </Badge>
+                    ) : requiresThird ? (
+                      <Badge variant="destructive">3ª toma</Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">-</span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -15,6 +15,9 @@ import {
   Line,
   AreaChart,
   Area,
+  ScatterChart,
+  Scatter,
+  ReferenceLine,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -43,13 +46,39 @@ import { MeasurementEditDialog } from "@/components/measurement-edit-dialog";
 import { MeasurementReportDialog } from "@/components/measurement-report-dialog";
 import { MeasurementReportsListDialog } from "@/components/measurement-reports-list-dialog";
 import { TimeRangeSelector } from "@/components/time-range-selector";
+import { useEvaluators } from "@/components/evaluator-select";
+import { GrowthChartCard } from "@/components/growth-chart";
+import { CalculationExplainPanel } from "@/components/calculation-explain-panel";
+import { BMR_EQUATIONS, ENERGY_MODELS, isBmrEquationId, isEnergyModel } from "@shared/energy-equations";
+import { DAY_TYPES, DAY_TYPE_ORDER, type DayTypeTargets } from "@shared/macro-periodization";
+import { getWeekdayLabel } from "@shared/training-schedule";
 import {
   getDefaultTimeRange,
   isDateWithinRange,
   formatRangeLabel,
   type TimeRangeValue,
 } from "@/lib/time-range";
-import type { Measurement, MeasurementCalculation, Report } from "@shared/schema";
+import type { Measurement, MeasurementCalculation, Patient, PlausibilityOverride, Report } from "@shared/schema";
+import {
+  calculateSomatochartCoordinates,
+  calculateSomatotypeAttitudinalDistance,
+  SAD_MEANINGFUL_CHANGE,
+  type SomatotypeComponents,
+} from "@shared/isak-calculations";
+import {
+  BODY_FAT_EQUATIONS,
+  DENSITY_CONVERSIONS,
+  isBodyFatEquationId,
+  type BodyFatEstimate,
+} from "@shared/body-fat-equations";
+import {
+  CONFIDENCE_LEVELS,
+  DEFAULT_CONFIDENCE_LEVEL,
+  type ComparisonEntry,
+  type ConfidenceLevel,
+  type MeasurementComparisonResult,
+} from "@shared/measurement-comparison";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { TrendingUp, Scale, Ruler, Calendar, FileText, Pencil, Trash2, Activity, Layers } from "lucide-react";
 import { format } from "date-fns";
 
@@ -64,6 +93,7 @@ type MeasurementWithRelations = Measurement & {
 
 interface MeasurementsHistoryProps {
   patientId: string;
+  patient?: Pick<Patient, "birthDate" | "gender"> | null;
   reports?: Report[];
   initialMeasurementId?: string | null;
 }
@@ -81,7 +111,7 @@ const formatValue = (value: number | string | null | undefined, decimals = 1): s
 
 const formatDateTime = (date: string) => format(new Date(date), "dd/MM/yyyy HH:mm");
 
-export function MeasurementsHistory({ patientId, reports: reportsProp, initialMeasurementId }: MeasurementsHistoryProps) {
+export function MeasurementsHistory({ patientId, patient, reports: reportsProp, initialMeasurementId }: MeasurementsHistoryProps) {
   const { toast } = useToast();
   const [selectedMeasurementId, setSelectedMeasurementId] = useState<string | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
@@ -91,6 +121,7 @@ export function MeasurementsHistory({ patientId, reports: reportsProp, initialMe
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [measurementToDelete, setMeasurementToDelete] = useState<MeasurementWithRelations | null>(null);
   const [timeRange, setTimeRange] = useState<TimeRangeValue>(() => getDefaultTimeRange());
+  const [confidenceLevel, setConfidenceLevel] = useState<ConfidenceLevel>(DEFAULT_CONFIDENCE_LEVEL);
 
   useEffect(() => {
     if (!initialMeasurementId) return;
@@ -118,6 +149,7 @@ export function MeasurementsHistory({ patientId, reports: reportsProp, initialMe
   });
 
   const reports = reportsProp ?? reportsFallback;
+  const { data: evaluators = [] } = useEvaluators();
 
   const sortedMeasurements = useMemo(
     () =>
@@ -143,15 +175,76 @@ export function MeasurementsHistory({ patientId, reports: reportsProp, initialMe
         imc: weight && height ? (weight / ((height / 100) ** 2)).toFixed(1) : null,
         cintura: toNumeric(m.waist),
         cadera: toNumeric(m.hip),
+        brazoCorregido: toNumeric(m.calculations?.correctedArmGirth),
+        musloCorregido: toNumeric(m.calculations?.correctedThighGirth),
+        pantorrillaCorregida: toNumeric(m.calculations?.correctedCalfGirth),
+        areaMuscularBrazo: toNumeric(m.calculations?.correctedArmMuscleArea),
+        areaMuscularMuslo: toNumeric(m.calculations?.thighMuscleArea),
       };
     });
   }, [rangeFilteredMeasurements, sortedMeasurements]);
 
+  const hasCorrectedGirths = chartData.some(
+    (point) => point.brazoCorregido !== null || point.musloCorregido !== null || point.pantorrillaCorregida !== null,
+  );
+
   const selectedMeasurement = useMemo(() => {
     if (!selectedMeasurementId) return sortedMeasurements[0] ?? null;
     return sortedMeasurements.find((item) => item.id === selectedMeasurementId) ?? null;
   }, [selectedMeasurementId, sortedMeasurements]);
 
+  const somatochartData = useMemo(() => {
+    const source = rangeFilteredMeasurements.length > 0 ? rangeFilteredMeasurements : sortedMeasurements;
+    return [...source]
+      .reverse()
+      .map((m) => {
+        const somatotype = getSomatotypeComponents(m.calculations);
+        if (!somatotype) return null;
+        const { x, y } = calculateSomatochartCoordinates(somatotype);
+        return {
+          id: m.id,
+          date: format(new Date(m.measurementDate), "dd/MM/yy"),
+          x: parseFloat(x.toFixed(2)),
+          y: parseFloat(y.toFixed(2)),
+        };
+      })
+      .filter((point): point is NonNullable<typeof point> => point !== null);
+  }, [rangeFilteredMeasurements, sortedMeasurements]);
+
+  const selectedSomatotypeChange = useMemo(() => {
+    if (!selectedMeasurement) return null;
+    const index = sortedMeasurements.findIndex((item) => item.id === selectedMeasurement.id);
+    const previous = index >= 0 ? sortedMeasurements[index + 1] : undefined;
+    const current = getSomatotypeComponents(selectedMeasurement.calculations);
+    const before = getSomatotypeComponents(previous?.calculations);
+    if (!current || !before) return null;
+    return calculateSomatotypeAttitudinalDistance(current, before);
+  }, [selectedMeasurement, sortedMeasurements]);
+
+  const previousOfSelected = useMemo(() => {
+    if (!selectedMeasurement) return null;
+    const index = sortedMeasurements.findIndex((item) => item.id === selectedMeasurement.id);
+    return index >= 0 ? sortedMeasurements[index + 1] ?? null : null;
+  }, [selectedMeasurement, sortedMeasurements]);
+
+  const { data: comparison } = useQuery<MeasurementComparisonResult>({
+    queryKey: ["/api/measurements", selectedMeasurement?.id, "compare", { baselineId: previousOfSelected?.id, confidenceLevel }],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/measurements/${selectedMeasurement!.id}/compare?baselineId=${previousOfSelected!.id}&confidence=${confidenceLevel}`,
+      );
+      if (!response.ok) throw new Error("Failed to compare measurements");
+      return response.json();
+    },
+    enabled: !!selectedMeasurement && !!previousOfSelected,
+  });
+
+  const siteChange = (key: string) =>
+    previousOfSelected ? comparison?.sites.find((entry) => entry.key === key) : undefined;
+  const derivedChanges = previousOfSelected && comparison
+    ? [...comparison.sites.filter((entry) => entry.key === "weight"), ...comparison.derived]
+    : [];
+
   const reportsByMeasurement = useMemo(() => {
     return reports.reduce<Record<string, Report[]>>((acc, report) => {
       if (!acc[report.measurementId]) acc[report.measurementId] = [];
@@ -167,7 +260,7 @@ export function MeasurementsHistory({ patientId, reports: reportsProp, initialMe
     onSuccess: (_, measurementId) => {
       toast({
         title: "Medición eliminada",
-        description: "El registro se eliminó junto a sus cálculos asociados.",
+        description: "El registro se movió a la papelera junto a sus cálculos asociados.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/measurements"] });
       queryClient.invalidateQueries({ queryKey: ["/api/patients", patientId, "profile"] });
@@ -363,6 +456,115 @@ export function MeasurementsHistory({ patientId, reports: reportsProp, initialMe
             </ResponsiveContainer>
           </CardContent>
         </Card>
+
+        {hasCorrectedGirths && (
+          <Card className="shadow-md lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Ruler className="h-5 w-5 text-primary" />
+                Perímetros corregidos y áreas musculares
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={260}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="date" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                  <YAxis yAxisId="girth" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                  <YAxis yAxisId="area" orientation="right" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "6px",
+                    }}
+                  />
+                  <Legend />
+                  <Line yAxisId="girth" type="monotone" dataKey="brazoCorregido" stroke="hsl(var(--chart-1))" strokeWidth={2} connectNulls name="Brazo corr. (cm)" />
+                  <Line yAxisId="girth" type="monotone" dataKey="musloCorregido" stroke="hsl(var(--chart-2))" strokeWidth={2} connectNulls name="Muslo corr. (cm)" />
+                  <Line yAxisId="girth" type="monotone" dataKey="pantorrillaCorregida" stroke="hsl(var(--chart-3))" strokeWidth={2} connectNulls name="Pantorrilla corr. (cm)" />
+                  <Line yAxisId="area" type="monotone" dataKey="areaMuscularBrazo" stroke="hsl(var(--chart-4))" strokeDasharray="5 3" strokeWidth={2} connectNulls name="AMB corregida (cm²)" />
+                  <Line yAxisId="area" type="monotone" dataKey="areaMuscularMuslo" stroke="hsl(var(--chart-5))" strokeDasharray="5 3" strokeWidth={2} connectNulls name="Área muscular muslo (cm²)" />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        )}
+
+        {somatochartData.length > 0 && (
+          <Card className="shadow-md lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Activity className="h-5 w-5 text-primary" />
+                Somatocarta (Heath-Carter)
+              </CardTitle>
+              <CardDescription>
+                Cada punto es una medición. X = ecto − endo, Y = 2·meso − (endo + ecto).
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={320}>
+                <ScatterChart>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis
+                    type="number"
+                    dataKey="x"
+                    name="X"
+                    domain={[-8, 8]}
+                    className="text-xs"
+                    tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="y"
+                    name="Y"
+                    domain={[-10, 16]}
+                    className="text-xs"
+                    tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  />
+                  <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" strokeOpacity={0.4} />
+                  <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeOpacity={0.4} />
+                  <Tooltip
+                    cursor={{ strokeDasharray: "3 3" }}
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "6px",
+                    }}
+                    labelFormatter={() => ""}
+                  />
+                  <Scatter
+                    name="Somatotipo"
+                    data={somatochartData}
+                    line={{ stroke: "hsl(var(--primary) / 0.4)" }}
+                    fill="hsl(var(--primary))"
+                  />
+                  {selectedMeasurement && (
+                    <Scatter
+                      name="Medición seleccionada"
+                      data={somatochartData.filter((point) => point.id === selectedMeasurement.id)}
+                      fill="hsl(var(--chart-4))"
+                    />
+                  )}
+                </ScatterChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        )}
+
+        {patient && (
+          <GrowthChartCard
+            birthDate={patient.birthDate}
+            gender={patient.gender}
+            measurements={sortedMeasurements}
+            selectedMeasurementId={selectedMeasurement?.id}
+            className="shadow-md lg:col-span-2"
+          />
+        )}
+
+        {selectedMeasurement?.calculations && (
+          <CalculationExplainPanel measurementId={selectedMeasurement.id} className="shadow-md lg:col-span-2" />
+        )}
       </div>
 
       <Card className="shadow-md">
@@ -513,6 +715,12 @@ export function MeasurementsHistory({ patientId, reports: reportsProp, initialMe
               </CardTitle>
               <CardDescription>
                 Evolución completa con cálculos ISAK 2. Editá, genera informes o eliminá desde este panel.
+                {selectedMeasurement.evaluatorId && (
+                  <span className="block">
+                    Evaluador:{" "}
+                    {evaluators.find((evaluator) => evaluator.id === selectedMeasurement.evaluatorId)?.name ?? "—"}
+                  </span>
+                )}
               </CardDescription>
             </div>
             <div className="flex flex-wrap gap-2">
@@ -544,33 +752,35 @@ export function MeasurementsHistory({ patientId, reports: reportsProp, initialMe
               <div className="rounded-lg border bg-muted/30 p-4">
                 <div className="grid gap-4 md:grid-cols-2">
                   <FieldGroup title="Diámetros óseos">
-                    <Field label="Biacromial" value={formatValue(selectedMeasurement.biacromial)} unit="cm" />
-                    <Field label="Tórax transverso" value={formatValue(selectedMeasurement.thoraxTransverse)} unit="cm" />
-                    <Field label="Tórax anteroposterior" value={formatValue(selectedMeasurement.thoraxAnteroposterior)} unit="cm" />
-                    <Field label="Bi-iliocrestídeo" value={formatValue(selectedMeasurement.biiliocristideo)} unit="cm" />
-                    <Field label="Humeral" value={formatValue(selectedMeasurement.humeral)} unit="cm" />
-                    <Field label="Femoral" value={formatValue(selectedMeasurement.femoral)} unit="cm" />
+                    <Field label="Biacromial" value={formatValue(selectedMeasurement.biacromial)} unit="cm" change={siteChange("biacromial")} />
+                    <Field label="Tórax transverso" value={formatValue(selectedMeasurement.thoraxTransverse)} unit="cm" change={siteChange("thoraxTransverse")} />
+                    <Field label="Tórax anteroposterior" value={formatValue(selectedMeasurement.thoraxAnteroposterior)} unit="cm" change={siteChange("thoraxAnteroposterior")} />
+                    <Field label="Bi-iliocrestídeo" value={formatValue(selectedMeasurement.biiliocristideo)} unit="cm" change={siteChange("biiliocristideo")} />
+                    <Field label="Humeral" value={formatValue(selectedMeasurement.humeral)} unit="cm" change={siteChange("humeral")} />
+                    <Field label="Femoral" value={formatValue(selectedMeasurement.femoral)} unit="cm" change={siteChange("femoral")} />
                   </FieldGroup>
                   <FieldGroup title="Perímetros">
-                    <Field label="Brazo relajado" value={formatValue(selectedMeasurement.relaxedArm)} unit="cm" />
-                    <Field label="Brazo flexionado" value={formatValue(selectedMeasurement.flexedArm)} unit="cm" />
-                    <Field label="Antebrazo" value={formatValue(selectedMeasurement.forearm)} unit="cm" />
-                    <Field label="Tórax" value={formatValue(selectedMeasurement.thoraxCirc)} unit="cm" />
-                    <Field label="Cintura" value={formatValue(selectedMeasurement.waist)} unit="cm" />
-                    <Field label="Cadera" value={formatValue(selectedMeasurement.hip)} unit="cm" />
-                    <Field label="Muslo sup." value={formatValue(selectedMeasurement.thighSuperior)} unit="cm" />
-                    <Field label="Muslo medial" value={formatValue(selectedMeasurement.thighMedial)} unit="cm" />
-                    <Field label="Pantorrilla" value={formatValue(selectedMeasurement.calf)} unit="cm" />
+                    <Field label="Brazo relajado" value={formatValue(selectedMeasurement.relaxedArm)} unit="cm" change={siteChange("relaxedArm")} />
+                    <Field label="Brazo flexionado" value={formatValue(selectedMeasurement.flexedArm)} unit="cm" change={siteChange("flexedArm")} />
+                    <Field label="Antebrazo" value={formatValue(selectedMeasurement.forearm)} unit="cm" change={siteChange("forearm")} />
+                    <Field label="Tórax" value={formatValue(selectedMeasurement.thoraxCirc)} unit="cm" change={siteChange("thoraxCirc")} />
+                    <Field label="Cintura" value={formatValue(selectedMeasurement.waist)} unit="cm" change={siteChange("waist")} />
+                    <Field label="Cadera" value={formatValue(selectedMeasurement.hip)} unit="cm" change={siteChange("hip")} />
+                    <Field label="Muslo sup." value={formatValue(selectedMeasurement.thighSuperior)} unit="cm" change={siteChange("thighSuperior")} />
+                    <Field label="Muslo medial" value={formatValue(selectedMeasurement.thighMedial)} unit="cm" change={siteChange("thighMedial")} />
+                    <Field label="Pantorrilla" value={formatValue(selectedMeasurement.calf)} unit="cm" change={siteChange("calf")} />
                   </FieldGroup>
                   <FieldGroup title="Pliegues">
-                    <Field label="Tríceps" value={formatValue(selectedMeasurement.triceps)} unit="mm" />
-                    <Field label="Bíceps" value={formatValue(selectedMeasurement.biceps)} unit="mm" />
-                    <Field label="Subescapular" value={formatValue(selectedMeasurement.subscapular)} unit="mm" />
-                    <Field label="Suprailiaco" value={formatValue(selectedMeasurement.suprailiac)} unit="mm" />
-                    <Field label="Supraespinal" value={formatValue(selectedMeasurement.supraspinal)} unit="mm" />
-                    <Field label="Abdominal" value={formatValue(selectedMeasurement.abdominal)} unit="mm" />
-                    <Field label="Muslo medial (pliegue)" value={formatValue(selectedMeasurement.thighSkinfold)} unit="mm" />
-                    <Field label="Pantorrilla (pliegue)" value={formatValue(selectedMeasurement.calfSkinfold)} unit="mm" />
+                    <Field label="Tríceps" value={formatValue(selectedMeasurement.triceps)} unit="mm" change={siteChange("triceps")} />
+                    <Field label="Bíceps" value={formatValue(selectedMeasurement.biceps)} unit="mm" change={siteChange("biceps")} />
+                    <Field label="Subescapular" value={formatValue(selectedMeasurement.subscapular)} unit="mm" change={siteChange("subscapular")} />
+                    <Field label="Suprailiaco" value={formatValue(selectedMeasurement.suprailiac)} unit="mm" change={siteChange("suprailiac")} />
+                    <Field label="Supraespinal" value={formatValue(selectedMeasurement.supraspinal)} unit="mm" change={siteChange("supraspinal")} />
+                    <Field label="Abdominal" value={formatValue(selectedMeasurement.abdominal)} unit="mm" change={siteChange("abdominal")} />
+                    <Field label="Muslo medial (pliegue)" value={formatValue(selectedMeasurement.thighSkinfold)} unit="mm" change={siteChange("thighSkinfold")} />
+                    <Field label="Pantorrilla (pliegue)" value={formatValue(selectedMeasurement.calfSkinfold)} unit="mm" change={siteChange("calfSkinfold")} />
+                    <Field label="Pectoral" value={formatValue(selectedMeasurement.chestSkinfold)} unit="mm" change={siteChange("chestSkinfold")} />
+                    <Field label="Axilar medio" value={formatValue(selectedMeasurement.midaxillarySkinfold)} unit="mm" change={siteChange("midaxillarySkinfold")} />
                   </FieldGroup>
                 </div>
               </div>
@@ -582,15 +792,46 @@ export function MeasurementsHistory({ patientId, reports: reportsProp, initialMe
                   </CardHeader>
                   <CardContent className="space-y-3 text-sm">
                     <div className="flex items-center justify-between rounded-md border bg-background px-3 py-2">
-                      <span className="text-muted-foreground">% Grasa</span>
+                      <span className="text-muted-foreground">
+                        % Grasa
+                        {selectedMeasurement.calculations?.bodyFatEquation && (
+                          <span className="block text-xs">
+                            {getBodyFatEquationLabel(selectedMeasurement.calculations.bodyFatEquation)}
+                          </span>
+                        )}
+                      </span>
                       <span className="font-semibold">{formatValue(selectedMeasurement.calculations?.bodyFatPercentage)}%</span>
                     </div>
+                    {selectedMeasurement.calculations?.bmiClassification && (
+                      <div className="flex items-center justify-between rounded-md border bg-background px-3 py-2">
+                        <span className="text-muted-foreground">
+                          {selectedMeasurement.calculations.growthReference ? "IMC para la edad" : "IMC"}
+                          {selectedMeasurement.calculations.bmiPercentile && (
+                            <span className="block text-xs">
+                              P{formatValue(selectedMeasurement.calculations.bmiPercentile)} · Z {formatValue(selectedMeasurement.calculations.bmiZScore, 2)}
+                            </span>
+                          )}
+                        </span>
+                        <span className="font-semibold">{selectedMeasurement.calculations.bmiClassification}</span>
+                      </div>
+                    )}
                     <div className="flex items-center justify-between rounded-md border bg-background px-3 py-2">
                       <span className="text-muted-foreground">Masa magra</span>
                       <span className="font-semibold">
                         {formatValue(selectedMeasurement.calculations?.leanMass, 2)} kg
                       </span>
                     </div>
+                    {selectedMeasurement.calculations?.maintenanceCalories && (
+                      <div className="flex items-center justify-between rounded-md border bg-background px-3 py-2">
+                        <span className="text-muted-foreground">
+                          Gasto energético total
+                          <span className="block text-xs">
+                            {getEnergyDescription(selectedMeasurement.calculations)}
+                          </span>
+                        </span>
+                        <span className="font-semibold">{selectedMeasurement.calculations.maintenanceCalories} kcal</span>
+                      </div>
+                    )}
                     <div className="flex items-center justify-between rounded-md border bg-background px-3 py-2">
                       <span className="text-muted-foreground">Calorías objetivo</span>
                       <span className="font-semibold">
@@ -603,9 +844,153 @@ export function MeasurementsHistory({ patientId, reports: reportsProp, initialMe
                         {formatSomatotype(selectedMeasurement.calculations)}
                       </span>
                     </div>
+                    {selectedMeasurement.calculations?.correctedArmMuscleArea && (
+                      <div className="flex items-center justify-between rounded-md border bg-background px-3 py-2">
+                        <span className="text-muted-foreground">
+                          Área muscular del brazo corregida
+                          <span className="block text-xs">
+                            Brazo corregido {formatValue(selectedMeasurement.calculations.correctedArmGirth)} cm
+                          </span>
+                        </span>
+                        <span className="font-semibold">{formatValue(selectedMeasurement.calculations.correctedArmMuscleArea)} cm²</span>
+                      </div>
+                    )}
+                    {selectedMeasurement.calculations?.thighMuscleArea && (
+                      <div className="flex items-center justify-between rounded-md border bg-background px-3 py-2">
+                        <span className="text-muted-foreground">
+                          Área muscular del muslo
+                          <span className="block text-xs">
+                            Muslo corregido {formatValue(selectedMeasurement.calculations.correctedThighGirth)} cm
+                          </span>
+                        </span>
+                        <span className="font-semibold">{formatValue(selectedMeasurement.calculations.thighMuscleArea)} cm²</span>
+                      </div>
+                    )}
+                    {selectedMeasurement.calculations?.muscleBoneIndex && (
+                      <div className="flex items-center justify-between rounded-md border bg-background px-3 py-2">
+                        <span className="text-muted-foreground">Índice músculo/óseo</span>
+                        <span className="font-semibold">{formatValue(selectedMeasurement.calculations.muscleBoneIndex, 2)}</span>
+                      </div>
+                    )}
+                    {selectedSomatotypeChange !== null && (
+                      <div className="flex items-center justify-between rounded-md border bg-background px-3 py-2">
+                        <span className="text-muted-foreground">SAD vs. medición anterior</span>
+                        <span className="font-semibold">
+                          {selectedSomatotypeChange.toFixed(2)}
+                          {selectedSomatotypeChange >= SAD_MEANINGFUL_CHANGE && (
+                            <span className="ml-1 text-xs font-normal text-muted-foreground">(cambio relevante)</span>
+                          )}
+                        </span>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
 
+                {derivedChanges.length > 0 && comparison && (
+                  <Card>
+                    <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0 pb-2">
+                      <div>
+                        <CardTitle className="text-sm">Cambio real vs. medición anterior</CardTitle>
+                        <CardDescription>Diferencias que superan el cambio mínimo detectable (MDC).</CardDescription>
+                      </div>
+                      <Select
+                        value={String(confidenceLevel)}
+                        onValueChange={(value) => setConfidenceLevel(Number(value) as ConfidenceLevel)}
+                      >
+                        <SelectTrigger className="h-8 w-[90px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.keys(CONFIDENCE_LEVELS).map((level) => (
+                            <SelectItem key={level} value={level}>
+                              {level}%
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </CardHeader>
+                    <CardContent className="space-y-2 text-sm">
+                      {derivedChanges.map((entry) => (
+                        <div
+                          key={entry.key}
+                          className="flex items-center justify-between rounded-md border bg-background px-3 py-2"
+                        >
+                          <span className="text-muted-foreground">{entry.label}</span>
+                          <ChangeIndicator change={entry} />
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {getBodyFatEstimates(selectedMeasurement.calculations).length > 0 && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm">% Grasa por ecuación</CardTitle>
+                      <CardDescription>Ecuaciones aplicables con los pliegues registrados.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2 text-sm">
+                      {getBodyFatEstimates(selectedMeasurement.calculations).map((estimate) => (
+                        <div
+                          key={estimate.equation}
+                          className="flex items-center justify-between rounded-md border bg-background px-3 py-2"
+                        >
+                          <span className="text-muted-foreground">
+                            {estimate.label}
+                            <span className="block text-xs">
+                              Σ {estimate.sumOfSkinfolds.toFixed(1)} mm
+                              {estimate.conversion ? ` · ${DENSITY_CONVERSIONS[estimate.conversion].label}` : ""}
+                            </span>
+                          </span>
+                          <span className="flex items-center gap-2 font-semibold">
+                            {estimate.bodyFatPercentage.toFixed(2)}%
+                            {estimate.equation === selectedMeasurement.calculations?.bodyFatEquation && (
+                              <Badge variant="secondary">Usada</Badge>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {getDayTypeTargets(selectedMeasurement.calculations) && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm">Objetivos por tipo de día</CardTitle>
+                      <CardDescription>Hidratos según el volumen de entrenamiento de cada tipo de día.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2 text-sm">
+                      {DAY_TYPE_ORDER.map((dayType) => {
+                        const target = getDayTypeTargets(selectedMeasurement.calculations)?.[dayType];
+                        if (!target) return null;
+                        return (
+                          <div
+                            key={dayType}
+                            className="flex items-center justify-between rounded-md border bg-background px-3 py-2"
+                          >
+                            <span className="text-muted-foreground">
+                              {DAY_TYPES[dayType].label}
+                              <span className="block text-xs">
+                                {target.weekdays.length > 0
+                                  ? target.weekdays.map((weekday) => getWeekdayLabel(weekday)).join(", ")
+                                  : "Sin días asignados"}{" "}
+                                · {target.carbsPerKg} g/kg HC
+                              </span>
+                            </span>
+                            <span className="text-right font-semibold">
+                              {target.calories} kcal
+                              <span className="block text-xs font-normal text-muted-foreground">
+                                P {target.protein ?? "-"} · C {target.carbs ?? "-"} · G {target.fats ?? "-"} g
+                              </span>
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card>
                   <CardHeader className="pb-2">
                     <CardTitle className="text-sm">Informes asociados</CardTitle>
@@ -638,6 +1023,22 @@ export function MeasurementsHistory({ patientId, reports: reportsProp, initialMe
                   </CardContent>
                 </Card>
 
+                {((selectedMeasurement.plausibilityOverrides as PlausibilityOverride[] | null) ?? []).length > 0 && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm">Advertencias confirmadas</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      {(selectedMeasurement.plausibilityOverrides as PlausibilityOverride[]).map((override) => (
+                        <div key={override.code} className="text-sm">
+                          <p>{override.message ?? override.code}</p>
+                          {override.reason && <p className="text-xs text-muted-foreground">Motivo: {override.reason}</p>}
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
                 {selectedMeasurement.notes && (
                   <Card>
                     <CardHeader className="pb-2">
@@ -686,8 +1087,7 @@ export function MeasurementsHistory({ patientId, reports: reportsProp, initialMe
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar medición?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta acción eliminará permanentemente los datos registrados y los cálculos derivados. Los informes asociados
-              se mantendrán, pero perderán la referencia a esta medición.
+              La medición pasa a la papelera junto con sus cálculos y se puede restaurar hasta que se purgue.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -728,6 +1128,39 @@ function calculateSumOf(measurement: Measurement, keys: Array<keyof Measurement>
   return sum > 0 ? sum.toFixed(1) : "-";
 }
 
+function getBodyFatEquationLabel(equation: string) {
+  return isBodyFatEquationId(equation) ? BODY_FAT_EQUATIONS[equation].label : equation;
+}
+
+// "TMB Mifflin-St Jeor · Factorial (MET)"
+function getEnergyDescription(calculations: MeasurementCalculation) {
+  const bmr = calculations.bmrEquation && isBmrEquationId(calculations.bmrEquation)
+    ? BMR_EQUATIONS[calculations.bmrEquation].label
+    : null;
+  const model = isEnergyModel(calculations.energyModel) ? ENERGY_MODELS[calculations.energyModel].label : null;
+  return [bmr ? `TMB ${bmr}` : null, model].filter(Boolean).join(" · ");
+}
+
+function getDayTypeTargets(calculations?: MeasurementCalculation | null): DayTypeTargets | null {
+  const targets = calculations?.dayTypeTargets;
+  return targets && typeof targets === "object" ? (targets as DayTypeTargets) : null;
+}
+
+function getBodyFatEstimates(calculations?: MeasurementCalculation | null): BodyFatEstimate[] {
+  return Array.isArray(calculations?.bodyFatEstimates)
+    ? (calculations.bodyFatEstimates as BodyFatEstimate[])
+    : [];
+}
+
+function getSomatotypeComponents(calculations?: MeasurementCalculation | null): SomatotypeComponents | null {
+  if (!calculations) return null;
+  const endomorphy = toNumeric(calculations.endomorphy);
+  const mesomorphy = toNumeric(calculations.mesomorphy);
+  const ectomorphy = toNumeric(calculations.ectomorphy);
+  if (endomorphy === null || mesomorphy === null || ectomorphy === null) return null;
+  return { endomorphy, mesomorphy, ectomorphy };
+}
+
 function formatSomatotype(calculations?: MeasurementCalculation | null) {
   if (!calculations) return "-";
   const endo = calculations.endomorphy;
@@ -777,14 +1210,35 @@ function FieldGroup({ title, children }: { title: string; children: React.ReactN
   );
 }
 
-function Field({ label, value, unit }: { label: string; value: string; unit?: string }) {
+function Field({ label, value, unit, change }: { label: string; value: string; unit?: string; change?: ComparisonEntry }) {
   return (
     <div className="flex items-center justify-between rounded-md border border-dashed border-muted px-3 py-1.5 text-sm">
       <span className="text-muted-foreground">{label}</span>
-      <span className="font-medium">
+      <span className="flex items-center gap-2 font-medium">
         {value}
         {value !== "-" && unit ? ` ${unit}` : ""}
+        {change && <ChangeIndicator change={change} />}
       </span>
     </div>
   );
 }
+
+// Δ respecto de la medición anterior; resaltado si supera el MDC
+function ChangeIndicator({ change }: { change: ComparisonEntry }) {
+  const sign = change.delta > 0 ? "+" : "";
+  const title =
+    change.mdc !== null
+      ? `MDC ±${change.mdc.toFixed(2)} ${change.unit}${change.significant ? " · cambio real" : " · dentro del error de medición"}`
+      : "Sin ETM para evaluar el cambio";
+  return (
+    <Badge
+      variant={change.significant ? "default" : "outline"}
+      className={cn("whitespace-nowrap font-mono text-xs", !change.significant && "text-muted-foreground")}
+      title={title}
+    >
+      Δ {sign}
+      {change.delta.toFixed(2)}
+      {change.significant ? " ✓" : ""}
+    </Badge>
+  );
+}
@@ -22,11 +22,45 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, Trash2, Loader2 } from "lucide-react";
-import type { Patient, PatientGroup, GroupMembership } from "@shared/schema";
+import { Upload, Trash2, Loader2, Plus } from "lucide-react";
+import type {
+  Patient,
+  PatientGroup,
+  GroupMembership,
+  TrainingSession,
+  TrainingIntensity,
+  MealDistribution,
+} from "@shared/schema";
+import { MET_PRESETS } from "@shared/energy-equations";
+import { TRAINING_INTENSITY_LABELS, TRAINING_WEEKDAYS, resolveTrainingSessions, sortTrainingSessions } from "@shared/training-schedule";
+import type { ReferencePopulation } from "@shared/isak-calculations";
+import { DEFAULT_MEAL_DISTRIBUTION } from "@shared/macro-periodization";
+import { resolvePatientAllergens } from "@shared/allergens";
+import {
+  MAX_FOLLOW_UP_CADENCE_DAYS,
+  MIN_FOLLOW_UP_CADENCE_DAYS,
+  getFollowUpCadenceSourceLabel,
+  resolveFollowUpCadence,
+} from "@shared/follow-up";
 import { GroupMultiSelect } from "@/components/group-multi-select";
+import { AllergenEditor, getCompleteAllergens } from "@/components/allergen-editor";
+import {
+  MealDistributionEditor,
+  fromMealDistributionPercent,
+  getMealDistributionTotal,
+  toMealDistributionPercent,
+} from "@/components/meal-distribution-editor";
 import { normalizeObjective, type NormalizedObjective } from "@/lib/objectives";
 
+const EMPTY_TRAINING_SESSION: TrainingSession = {
+  weekday: 1,
+  startTime: null,
+  durationMinutes: 60,
+  sport: "",
+  intensity: "moderada",
+  met: 5,
+};
+
 interface PatientEditDialogProps {
   patient: Patient;
   open: boolean;
@@ -50,12 +84,20 @@ export function PatientEditDialog({ patient, open, onOpenChange }: PatientEditDi
     sportType: patient.sportType || "",
     exerciseDays: patient.exerciseDays || "",
     exerciseSchedule: patient.exerciseSchedule || "",
+    trainingSessions: resolveTrainingSessions(patient),
+    competitionWeekdays: (patient.competitionWeekdays as number[] | null) ?? [],
+    mealDistribution: patient.mealDistribution
+      ? toMealDistributionPercent(patient.mealDistribution as MealDistribution)
+      : null,
     isVegetarian: patient.isVegetarian || false,
     isVegan: patient.isVegan || false,
     foodAllergies: patient.foodAllergies || "",
     foodDislikes: patient.foodDislikes || "",
+    allergens: resolvePatientAllergens(patient),
     medicalConditions: patient.medicalConditions || "",
     medications: patient.medications || "",
+    referencePopulation: patient.referencePopulation || "",
+    followUpCadenceDays: patient.followUpCadenceDays ? String(patient.followUpCadenceDays) : "",
     avatarUrl: patient.avatarUrl || null,
     groupIds: [] as string[],
   });
@@ -64,6 +106,16 @@ export function PatientEditDialog({ patient, open, onOpenChange }: PatientEditDi
     queryKey: ["/api/groups"],
   });
 
+  // Lo que se usaría con el campo vacío, según los grupos y el objetivo elegidos
+  const defaultFollowUpCadence = resolveFollowUpCadence(
+    { followUpCadenceDays: null, objective: formData.objective || null },
+    groups.filter((group) => formData.groupIds.includes(group.id)),
+  );
+
+  const { data: referencePopulations = [] } = useQuery<Omit<ReferencePopulation, "values">[]>({
+    queryKey: ["/api/reference-populations"],
+  });
+
   const { data: memberships = [] } = useQuery<GroupMembership[]>({
     queryKey: [`/api/memberships?patientId=${patient.id}`],
   });
@@ -118,6 +170,10 @@ export function PatientEditDialog({ patient, open, onOpenChange }: PatientEditDi
     mutationFn: async (data: typeof formData) => {
       // Excluir groupIds del payload de paciente
       const { groupIds, ...patientData } = data;
+      // Las filas sin deporte se descartan en lugar de bloquear el guardado
+      const completeSessions = patientData.trainingSessions
+        .filter((session) => session.sport.trim() !== "")
+        .map((session) => ({ ...session, sport: session.sport.trim() }));
 
       const payload: any = {
         name: patientData.name,
@@ -131,12 +187,18 @@ export function PatientEditDialog({ patient, open, onOpenChange }: PatientEditDi
         sportType: patientData.sportType || null,
         exerciseDays: patientData.exerciseDays || null,
         exerciseSchedule: patientData.exerciseSchedule || null,
+        trainingSessions: completeSessions.length > 0 ? sortTrainingSessions(completeSessions) : null,
+        competitionWeekdays: patientData.competitionWeekdays.length > 0 ? patientData.competitionWeekdays : null,
+        mealDistribution: patientData.mealDistribution ? fromMealDistributionPercent(patientData.mealDistribution) : null,
         isVegetarian: patientData.isVegetarian,
         isVegan: patientData.isVegan,
         foodAllergies: patientData.foodAllergies || null,
         foodDislikes: patientData.foodDislikes || null,
+        allergens: getCompleteAllergens(patientData.allergens),
         medicalConditions: patientData.medicalConditions || null,
         medications: patientData.medications || null,
+        referencePopulation: patientData.referencePopulation || null,
+        followUpCadenceDays: patientData.followUpCadenceDays ? Number(patientData.followUpCadenceDays) : null,
         avatarUrl: patientData.avatarUrl,
         version: patient.version,
       };
@@ -283,6 +345,26 @@ export function PatientEditDialog({ patient, open, onOpenChange }: PatientEditDi
       });
       return;
     }
+    if (formData.mealDistribution && Math.abs(getMealDistributionTotal(formData.mealDistribution) - 100) > 1) {
+      toast({
+        title: "Error",
+        description: "La distribución de comidas debe sumar 100%",
+        variant: "destructive",
+      });
+      return;
+    }
+    const cadence = Number(formData.followUpCadenceDays);
+    if (
+      formData.followUpCadenceDays &&
+      (!Number.isInteger(cadence) || cadence < MIN_FOLLOW_UP_CADENCE_DAYS || cadence > MAX_FOLLOW_UP_CADENCE_DAYS)
+    ) {
+      toast({
+        title: "Error",
+        description: `La frecuencia de controles debe estar entre ${MIN_FOLLOW_UP_CADENCE_DAYS} y ${MAX_FOLLOW_UP_CADENCE_DAYS} días`,
+        variant: "destructive",
+      });
+      return;
+    }
     updatePatientMutation.mutate(formData);
   };
 
@@ -436,6 +518,30 @@ export function PatientEditDialog({ patient, open, onOpenChange }: PatientEditDi
                 </SelectContent>
               </Select>
             </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="edit-referencePopulation">Población de referencia (Score-Z)</Label>
+              <Select
+                value={formData.referencePopulation || "auto"}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, referencePopulation: value === "auto" ? "" : value })
+                }
+              >
+                <SelectTrigger id="edit-referencePopulation" data-testid="select-edit-reference-population">
+                  <SelectValue placeholder="Automática según sexo y edad" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Automática según sexo y edad</SelectItem>
+                  {referencePopulations.map((population) => (
+                    <SelectItem key={population.id} value={population.id}>
+                      {population.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Las variables se escalan a la talla de la población (modelo Phantom) antes de calcular el Score-Z.
+              </p>
+            </div>
             <div className="col-span-2 space-y-3">
               <Label>Grupos</Label>
               <GroupMultiSelect
@@ -453,6 +559,236 @@ export function PatientEditDialog({ patient, open, onOpenChange }: PatientEditDi
                 }}
               />
             </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="edit-followUpCadenceDays">Frecuencia de controles (días)</Label>
+              <Input
+                id="edit-followUpCadenceDays"
+                type="number"
+                min={MIN_FOLLOW_UP_CADENCE_DAYS}
+                max={MAX_FOLLOW_UP_CADENCE_DAYS}
+                placeholder={`${defaultFollowUpCadence.days} (${getFollowUpCadenceSourceLabel(defaultFollowUpCadence.source)})`}
+                value={formData.followUpCadenceDays}
+                onChange={(e) => setFormData({ ...formData, followUpCadenceDays: e.target.value })}
+                data-testid="input-edit-follow-up-cadence"
+              />
+              <p className="text-xs text-muted-foreground">
+                Vacío usa la frecuencia de sus grupos o la de su objetivo. Al vencer aparece en "Para contactar" del dashboard.
+              </p>
+            </div>
+            <div className="col-span-2 space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Agenda semanal de entrenamiento</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      trainingSessions: [...prev.trainingSessions, { ...EMPTY_TRAINING_SESSION }],
+                    }))
+                  }
+                  data-testid="button-add-training-session"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Agregar sesión
+                </Button>
+              </div>
+              {formData.trainingSessions.map((session, index) => {
+                const updateSession = (changes: Partial<TrainingSession>) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    trainingSessions: prev.trainingSessions.map((item, itemIndex) =>
+                      itemIndex === index ? { ...item, ...changes } : item,
+                    ),
+                  }));
+                return (
+                  <div key={index} className="space-y-2 rounded-md border p-2">
+                    <div className="grid grid-cols-[130px_110px_90px_1fr_auto] items-center gap-2">
+                      <Select
+                        value={String(session.weekday)}
+                        onValueChange={(value) => updateSession({ weekday: parseInt(value, 10) })}
+                      >
+                        <SelectTrigger data-testid={`select-training-weekday-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TRAINING_WEEKDAYS.map((day) => (
+                            <SelectItem key={day.value} value={String(day.value)}>
+                              {day.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="time"
+                        aria-label="Hora de inicio"
+                        value={session.startTime ?? ""}
+                        onChange={(e) => updateSession({ startTime: e.target.value || null })}
+                        data-testid={`input-training-start-${index}`}
+                      />
+                      <Input
+                        type="number"
+                        min={1}
+                        aria-label="Minutos"
+                        value={session.durationMinutes}
+                        onChange={(e) => updateSession({ durationMinutes: parseInt(e.target.value, 10) || 0 })}
+                        data-testid={`input-training-duration-${index}`}
+                      />
+                      <Input
+                        placeholder="Deporte"
+                        value={session.sport}
+                        onChange={(e) => updateSession({ sport: e.target.value })}
+                        data-testid={`input-training-sport-${index}`}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            trainingSessions: prev.trainingSessions.filter((_, itemIndex) => itemIndex !== index),
+                          }))
+                        }
+                        data-testid={`button-remove-training-session-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-[1fr_130px_90px] items-center gap-2">
+                      <Select
+                        value=""
+                        onValueChange={(value) => {
+                          const preset = MET_PRESETS.find((item) => item.id === value);
+                          if (preset) updateSession({ sport: preset.label, met: preset.met });
+                        }}
+                      >
+                        <SelectTrigger data-testid={`select-training-preset-${index}`}>
+                          <SelectValue placeholder="Actividad tipo (MET)" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MET_PRESETS.map((preset) => (
+                            <SelectItem key={preset.id} value={preset.id}>
+                              {preset.label} ({preset.met} MET)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={session.intensity}
+                        onValueChange={(value) => updateSession({ intensity: value as TrainingIntensity })}
+                      >
+                        <SelectTrigger data-testid={`select-training-intensity-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(TRAINING_INTENSITY_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        min={1}
+                        aria-label="MET"
+                        value={session.met}
+                        onChange={(e) => updateSession({ met: parseFloat(e.target.value) || 0 })}
+                        data-testid={`input-training-met-${index}`}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+              {formData.trainingSessions.length === 0 && patient.exerciseDays && (
+                <p className="text-xs text-muted-foreground">
+                  Texto anterior: {patient.exerciseDays}
+                  {patient.exerciseSchedule ? ` · ${patient.exerciseSchedule}` : ""}. No se pudo convertir en sesiones.
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Una fila por sesión: día, hora de inicio, minutos, deporte, intensidad y MET. Se usan para el factor de
+                actividad, el gasto factorial, el plan con IA y las comidas pre/post entreno del plan semanal.
+              </p>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label>Días de competencia</Label>
+              <div className="flex flex-wrap gap-2">
+                {TRAINING_WEEKDAYS.map((day) => {
+                  const selected = formData.competitionWeekdays.includes(day.value);
+                  return (
+                    <Button
+                      key={day.value}
+                      type="button"
+                      size="sm"
+                      variant={selected ? "default" : "outline"}
+                      onClick={() =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          competitionWeekdays: selected
+                            ? prev.competitionWeekdays.filter((weekday) => weekday !== day.value)
+                            : [...prev.competitionWeekdays, day.value].sort((a, b) => a - b),
+                        }))
+                      }
+                      data-testid={`button-competition-day-${day.value}`}
+                    >
+                      {day.short}
+                    </Button>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Los días con sesiones son de entrenamiento, los demás de descanso; los marcados acá se planifican como
+                competencia.
+              </p>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Distribución de comidas</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      mealDistribution: prev.mealDistribution
+                        ? null
+                        : toMealDistributionPercent(DEFAULT_MEAL_DISTRIBUTION),
+                    }))
+                  }
+                  data-testid="button-toggle-meal-distribution"
+                >
+                  {formData.mealDistribution ? "Usar la de configuración" : "Personalizar"}
+                </Button>
+              </div>
+              {formData.mealDistribution ? (
+                <MealDistributionEditor
+                  value={formData.mealDistribution}
+                  onChange={(value) => setFormData((prev) => ({ ...prev, mealDistribution: value }))}
+                  testIdPrefix="patient-meal-distribution"
+                />
+              ) : (
+                <p className="text-xs text-muted-foreground">Se usa la distribución definida en Configuración.</p>
+              )}
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label>Alergias, intolerancias y preferencias</Label>
+              <AllergenEditor
+                value={formData.allergens}
+                onChange={(value) => setFormData((prev) => ({ ...prev, allergens: value }))}
+                testIdPrefix="patient-allergen"
+              />
+              {!Array.isArray(patient.allergens) && (patient.foodAllergies || patient.foodDislikes) && (
+                <p className="text-xs text-muted-foreground">
+                  Convertido del texto anterior: {[patient.foodAllergies, patient.foodDislikes].filter(Boolean).join(" · ")}.
+                  Revisalo antes de guardar.
+                </p>
+              )}
+            </div>
             <div className="col-span-2 space-y-2">
               <Label htmlFor="edit-notes">Notas</Label>
               <Textarea
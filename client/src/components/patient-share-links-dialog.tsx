@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, Share2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_SHARE_LINK_DAYS,
+  MAX_SHARE_LINK_DAYS,
+  type PatientShareLinkSummary,
+} from "@shared/patient-portal";
+
+interface PatientShareLinksDialogProps {
+  patientId: string;
+  patientName: string;
+}
+
+const toAbsoluteUrl = (path: string) => `${window.location.origin}${path}`;
+
+function getLinkStatus(link: PatientShareLinkSummary): { label: string; variant: "default" | "secondary" | "outline" } {
+  if (link.revokedAt) return { label: "Revocado", variant: "outline" };
+  if (!link.active) return { label: "Vencido", variant: "secondary" };
+  return { label: "Activo", variant: "default" };
+}
+
+export function PatientShareLinksDialog({ patientId, patientName }: PatientShareLinksDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState(String(DEFAULT_SHARE_LINK_DAYS));
+
+  const linksQueryKey = ["/api/patients", patientId, "share-links"];
+
+  const { data: links = [], isLoading } = useQuery<PatientShareLinkSummary[]>({
+    queryKey: linksQueryKey,
+    enabled: open,
+  });
+
+  const copyLink = async (path: string) => {
+    await navigator.clipboard.writeText(toAbsoluteUrl(path));
+    toast({ title: "Enlace copiado" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (days: number) => {
+      const response = await apiRequest("POST", `/api/patients/${patientId}/share-links`, { expiresInDays: days });
+      return (await response.json()) as PatientShareLinkSummary;
+    },
+    onSuccess: async (link) => {
+      queryClient.invalidateQueries({ queryKey: linksQueryKey });
+      if (link.url) {
+        await copyLink(link.url);
+      }
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo generar el enlace.", variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      return await apiRequest("POST", `/api/patients/${patientId}/share-links/${linkId}/revoke`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksQueryKey });
+      toast({ title: "Enlace revocado", description: "El paciente ya no puede abrir el portal con ese enlace." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo revocar el enlace.", variant: "destructive" });
+    },
+  });
+
+  const days = Number(expiresInDays);
+  const isDaysValid = Number.isInteger(days) && days >= 1 && days <= MAX_SHARE_LINK_DAYS;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-patient-portal">
+          <Share2 className="h-4 w-4 mr-2" />
+          Portal del paciente
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl" data-testid="dialog-patient-share-links">
+        <DialogHeader>
+          <DialogTitle>Portal de {patientName}</DialogTitle>
+          <DialogDescription>
+            Quien tenga el enlace ve el plan semanal vigente, los informes, la evolución de peso y masa grasa y las
+            notas de consulta marcadas para compartir. No hace falta usuario ni contraseña.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="share-link-days">Vence en (días)</Label>
+            <Input
+              id="share-link-days"
+              type="number"
+              min={1}
+              max={MAX_SHARE_LINK_DAYS}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              className="w-32"
+              data-testid="input-share-link-days"
+            />
+          </div>
+          <Button
+            onClick={() => createMutation.mutate(days)}
+            disabled={!isDaysValid || createMutation.isPending}
+            data-testid="button-create-share-link"
+          >
+            {createMutation.isPending ? "Generando..." : "Generar y copiar enlace"}
+          </Button>
+        </div>
+        {!isDaysValid && (
+          <p className="text-xs text-destructive">Ingresá entre 1 y {MAX_SHARE_LINK_DAYS} días.</p>
+        )}
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Cargando enlaces...</p>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Todavía no se generó ningún enlace.</p>
+          ) : (
+            links.map((link) => {
+              const status = getLinkStatus(link);
+              return (
+                <div
+                  key={link.id}
+                  className="flex flex-wrap items-center justify-between gap-3 rounded-lg border p-3"
+                  data-testid={`share-link-${link.id}`}
+                >
+                  <div className="space-y-1 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                      <span>
+                        {link.revokedAt
+                          ? `Revocado el ${format(new Date(link.revokedAt), "dd/MM/yyyy")}`
+                          : `Vence el ${format(new Date(link.expiresAt), "dd/MM/yyyy")}`}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Creado el {format(new Date(link.createdAt), "dd/MM/yyyy")} ·{" "}
+                      {link.lastAccessedAt
+                        ? `Último acceso ${format(new Date(link.lastAccessedAt), "dd/MM/yyyy HH:mm")}`
+                        : "Sin accesos"}
+                    </p>
+                  </div>
+                  {link.active && link.url && (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => copyLink(link.url!)}
+                        data-testid={`button-copy-share-link-${link.id}`}
+                      >
+                        <Copy className="h-4 w-4 mr-2" />
+                        Copiar
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate(link.id)}
+                        disabled={revokeMutation.isPending}
+                        data-testid={`button-revoke-share-link-${link.id}`}
+                      >
+                        Revocar
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
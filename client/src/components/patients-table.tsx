@@ -124,7 +124,7 @@ export function PatientsTable({ patients, patientGroupNamesMap }: PatientsTableP
       setPatientToDelete(null);
       toast({
         title: "Paciente eliminado",
-        description: "El paciente se eliminó exitosamente",
+        description: "El paciente se movió a la papelera; podés restaurarlo desde ahí.",
       });
     },
     onError: () => {
@@ -291,7 +291,7 @@ export function PatientsTable({ patients, patientGroupNamesMap }: PatientsTableP
       setBulkDeleteDialogOpen(false);
       toast({
         title: "Pacientes eliminados",
-        description: `Se eliminaron ${selectedIds.size} pacientes exitosamente`,
+        description: `Se movieron ${selectedIds.size} pacientes a la papelera`,
       });
     } catch (error) {
       toast({
@@ -649,7 +649,7 @@ export function PatientsTable({ patients, patientGroupNamesMap }: PatientsTableP
             <AlertDialogTitle>¿Eliminar paciente?</AlertDialogTitle>
             <AlertDialogDescription>
               ¿Estás seguro de que deseas eliminar a <strong>{patientToDelete?.name}</strong>?
-              Esta acción no se puede deshacer y se eliminarán todas las mediciones y datos asociados.
+              El paciente y su historial pasan a la papelera, desde donde se pueden restaurar hasta que se purguen.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -671,7 +671,7 @@ export function PatientsTable({ patients, patientGroupNamesMap }: PatientsTableP
             <AlertDialogTitle>¿Eliminar {selectedIds.size} paciente{selectedIds.size > 1 ? 's' : ''}?</AlertDialogTitle>
             <AlertDialogDescription>
               ¿Estás seguro de que deseas eliminar {selectedIds.size} paciente{selectedIds.size > 1 ? 's' : ''}?
-              Esta acción no se puede deshacer y se eliminarán todas las mediciones y datos asociados a estos pacientes.
+              Los pacientes y su historial pasan a la papelera, desde donde se pueden restaurar hasta que se purguen.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import type { PlausibilityOverrideInput, PlausibilityWarning } from "@shared/measurement-plausibility";
+
+/**
+ * apiRequest lanza "422: {json}"; devuelve las advertencias de plausibilidad
+ * si el error es ése, o null para que el llamador muestre su error habitual.
+ */
+export function getPlausibilityWarnings(error: unknown): PlausibilityWarning[] | null {
+  if (!(error instanceof Error) || !error.message.startsWith("422:")) return null;
+  try {
+    const body = JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+    return Array.isArray(body?.warnings) ? (body.warnings as PlausibilityWarning[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+interface PlausibilityWarningsDialogProps {
+  warnings: PlausibilityWarning[] | null;
+  onCancel: () => void;
+  onConfirm: (overrides: PlausibilityOverrideInput[]) => void;
+}
+
+/** Lista las advertencias y permite guardar igualmente, con un motivo opcional por advertencia. */
+export function PlausibilityWarningsDialog({ warnings, onCancel, onConfirm }: PlausibilityWarningsDialogProps) {
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setReasons({});
+  }, [warnings]);
+
+  const handleConfirm = () => {
+    if (!warnings) return;
+    onConfirm(
+      warnings.map((warning) => ({
+        code: warning.code,
+        value: warning.value,
+        reason: reasons[warning.code]?.trim() || null,
+      })),
+    );
+  };
+
+  return (
+    <AlertDialog open={!!warnings && warnings.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="max-w-2xl" data-testid="plausibility-dialog">
+        <AlertDialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center justify-center w-10 h-10 rounded-full bg-amber-500/10">
+              <AlertTriangle className="w-5 h-5 text-amber-600" />
+            </div>
+            <AlertDialogTitle>Revisá los valores antes de guardar</AlertDialogTitle>
+          </div>
+          <AlertDialogDescription>
+            Algunos valores parecen poco plausibles. Corregilos o confirmá que son correctos; la confirmación queda
+            registrada en la medición.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="max-h-[50vh] space-y-3 overflow-y-auto pr-1">
+          {warnings?.map((warning) => (
+            <div key={warning.code} className="space-y-2 rounded-lg border p-3" data-testid={`plausibility-warning-${warning.code}`}>
+              <div className="flex items-start gap-2">
+                <Badge variant={warning.severity === "critical" ? "destructive" : "secondary"} className="shrink-0">
+                  {warning.severity === "critical" ? "Revisar" : "Atención"}
+                </Badge>
+                <p className="text-sm">{warning.message}</p>
+              </div>
+              <Input
+                placeholder="Motivo (opcional): p. ej. valor verificado, cambio de evaluador…"
+                value={reasons[warning.code] ?? ""}
+                onChange={(e) => setReasons({ ...reasons, [warning.code]: e.target.value })}
+                maxLength={500}
+              />
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel} data-testid="button-plausibility-review">
+            Corregir valores
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={handleConfirm} data-testid="button-plausibility-confirm">
+            Guardar igualmente
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ClipboardList, Pencil, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { MEASUREMENT_GROUP_TITLES } from "@/components/measurement-trials-panel";
+import { useMeasurementProtocols } from "@/components/measurement-protocol-card";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ISAK_SITES, type MeasurementSiteGroup, type MeasurementSiteKey } from "@shared/isak-calculations";
+import type { CustomProtocol } from "@shared/schema";
+
+type SiteRequirement = "none" | "optional" | "required";
+
+interface ProtocolDraft {
+  id: string | null;
+  label: string;
+  description: string;
+  sites: Partial<Record<MeasurementSiteKey, SiteRequirement>>;
+}
+
+const SITE_GROUPS: MeasurementSiteGroup[] = ["basic", "skinfold", "perimeter", "diameter"];
+
+const REQUIREMENT_LABELS: Record<SiteRequirement, string> = {
+  none: "No se mide",
+  optional: "Opcional",
+  required: "Obligatorio",
+};
+
+const emptyDraft = (): ProtocolDraft => ({ id: null, label: "", description: "", sites: {} });
+
+function toDraft(protocol: { requiredSites: string[]; optionalSites: string[] }): ProtocolDraft["sites"] {
+  const sites: ProtocolDraft["sites"] = {};
+  protocol.optionalSites.forEach((site) => (sites[site as MeasurementSiteKey] = "optional"));
+  protocol.requiredSites.forEach((site) => (sites[site as MeasurementSiteKey] = "required"));
+  return sites;
+}
+
+const createProtocolId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? `custom-${crypto.randomUUID()}`
+    : `custom-${Date.now().toString(36)}`;
+
+/** Perfil predeterminado para mediciones nuevas y perfiles propios del consultorio. */
+export function ProtocolProfilesCard() {
+  const { toast } = useToast();
+  const { data: protocolData } = useMeasurementProtocols();
+  const { data: settings } = useQuery<{ defaultProtocolId: string; customProtocols: CustomProtocol[] }>({
+    queryKey: ["/api/settings"],
+  });
+  const [draft, setDraft] = useState<ProtocolDraft | null>(null);
+  const [protocolToDelete, setProtocolToDelete] = useState<CustomProtocol | null>(null);
+
+  const protocols = protocolData?.protocols ?? [];
+  const customProtocols = settings?.customProtocols ?? [];
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: { defaultProtocolId?: string; customProtocols?: CustomProtocol[] }) => {
+      await apiRequest("PUT", "/api/settings", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/measurement-protocols"] });
+      toast({ title: "Protocolos actualizados" });
+      setDraft(null);
+      setProtocolToDelete(null);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudieron guardar los protocolos.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const requiredSites = ISAK_SITES.filter((site) => draft.sites[site.key] === "required").map((site) => site.key);
+    const optionalSites = ISAK_SITES.filter((site) => draft.sites[site.key] === "optional").map((site) => site.key);
+    if (!draft.label.trim() || requiredSites.length === 0) {
+      toast({
+        title: "Datos incompletos",
+        description: "El perfil necesita un nombre y al menos un sitio obligatorio.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const protocol: CustomProtocol = {
+      id: draft.id ?? createProtocolId(),
+      label: draft.label.trim(),
+      description: draft.description.trim() || null,
+      requiredSites,
+      optionalSites,
+    };
+    updateMutation.mutate({
+      customProtocols: draft.id
+        ? customProtocols.map((item) => (item.id === draft.id ? protocol : item))
+        : [...customProtocols, protocol],
+    });
+  };
+
+  const handleDelete = () => {
+    if (!protocolToDelete) return;
+    const remaining = customProtocols.filter((item) => item.id !== protocolToDelete.id);
+    updateMutation.mutate({
+      customProtocols: remaining,
+      // Si era el predeterminado se vuelve al ISAK restringido
+      ...(settings?.defaultProtocolId === protocolToDelete.id ? { defaultProtocolId: "isak_restricted" } : {}),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-primary" />
+          Protocolos de medición
+        </CardTitle>
+        <CardDescription>
+          Perfiles de sitios para las mediciones nuevas. El formulario muestra sólo los sitios del perfil elegido.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="max-w-sm space-y-2">
+          <Label>Perfil predeterminado</Label>
+          <Select
+            value={settings?.defaultProtocolId ?? ""}
+            onValueChange={(defaultProtocolId) => updateMutation.mutate({ defaultProtocolId })}
+            disabled={updateMutation.isPending || !settings}
+          >
+            <SelectTrigger data-testid="select-default-protocol">
+              <SelectValue placeholder="Seleccioná un perfil" />
+            </SelectTrigger>
+            <SelectContent>
+              {protocols.map((protocol) => (
+                <SelectItem key={protocol.id} value={protocol.id}>
+                  {protocol.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          {protocols.map((protocol) => (
+            <div key={protocol.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+              <div>
+                <p className="font-medium">
+                  {protocol.label}{" "}
+                  {protocol.builtIn && <Badge variant="outline" className="ml-1">Predefinido</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {protocol.requiredSites.length} obligatorios · {protocol.optionalSites.length} opcionales ·{" "}
+                  {protocol.calculations.filter((calculation) => calculation.status === "enabled").length} cálculos habilitados
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setDraft({
+                      id: protocol.builtIn ? null : protocol.id,
+                      label: protocol.builtIn ? `${protocol.label} (copia)` : protocol.label,
+                      description: protocol.description ?? "",
+                      sites: toDraft(protocol),
+                    })
+                  }
+                >
+                  {protocol.builtIn ? <Plus className="mr-1 h-4 w-4" /> : <Pencil className="mr-1 h-4 w-4" />}
+                  {protocol.builtIn ? "Duplicar" : "Editar"}
+                </Button>
+                {!protocol.builtIn && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setProtocolToDelete(customProtocols.find((item) => item.id === protocol.id) ?? null)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" onClick={() => setDraft(emptyDraft())} data-testid="button-new-protocol">
+          <Plus className="mr-2 h-4 w-4" />
+          Nuevo perfil
+        </Button>
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Editar perfil" : "Nuevo perfil"}</DialogTitle>
+            <DialogDescription>Marcá qué sitios son obligatorios, cuáles opcionales y cuáles no se miden.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="max-h-[60vh] space-y-4 overflow-y-auto pr-1">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="protocol-label">Nombre</Label>
+                  <Input
+                    id="protocol-label"
+                    value={draft.label}
+                    maxLength={80}
+                    onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="protocol-description">Descripción</Label>
+                  <Textarea
+                    id="protocol-description"
+                    value={draft.description}
+                    maxLength={300}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    className="min-h-10"
+                  />
+                </div>
+              </div>
+              {SITE_GROUPS.map((group) => (
+                <div key={group} className="space-y-2">
+                  <h4 className="text-sm font-semibold">{MEASUREMENT_GROUP_TITLES[group]}</h4>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {ISAK_SITES.filter((site) => site.group === group).map((site) => (
+                      <div key={site.key} className="flex items-center justify-between gap-2 text-sm">
+                        <span>{site.label}</span>
+                        <Select
+                          value={draft.sites[site.key] ?? "none"}
+                          onValueChange={(value) =>
+                            setDraft({ ...draft, sites: { ...draft.sites, [site.key]: value as SiteRequirement } })
+                          }
+                        >
+                          <SelectTrigger className="h-8 w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(REQUIREMENT_LABELS) as SiteRequirement[]).map((requirement) => (
+                              <SelectItem key={requirement} value={requirement}>
+                                {REQUIREMENT_LABELS[requirement]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={updateMutation.isPending}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSaveDraft} disabled={updateMutation.isPending}>
+              {updateMutation.isPending ? "Guardando…" : "Guardar perfil"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!protocolToDelete}
+        onOpenChange={(open) => !open && setProtocolToDelete(null)}
+        title="Eliminar perfil"
+        description={`Las mediciones tomadas con "${protocolToDelete?.label ?? ""}" conservan sus datos, pero el perfil deja de estar disponible.`}
+        confirmLabel="Eliminar"
+        onConfirm={handleDelete}
+        onCancel={() => setProtocolToDelete(null)}
+      />
+    </Card>
+  );
+}
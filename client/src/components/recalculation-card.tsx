@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { RefreshCw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Patient, PatientGroup } from "@shared/schema";
+
+type ScopeType = "all" | "group" | "patient";
+
+interface RecalculationSummary {
+  formulaSetVersion: number;
+  patients: number;
+  measurements: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  changed: number;
+  failed: { measurementId: string; error: string }[];
+  finishedAt: string;
+}
+
+/**
+ * Recalcula los cálculos guardados de las mediciones (todo, un grupo o un
+ * paciente) después de cambiar parámetros nutricionales o fórmulas.
+ */
+export function RecalculationCard() {
+  const { toast } = useToast();
+  const [scope, setScope] = useState<ScopeType>("all");
+  const [targetId, setTargetId] = useState<string>("");
+  const [lastSummary, setLastSummary] = useState<RecalculationSummary | null>(null);
+
+  const { data: patients = [] } = useQuery<Patient[]>({
+    queryKey: ["/api/patients"],
+    enabled: scope === "patient",
+  });
+  const { data: groups = [] } = useQuery<PatientGroup[]>({
+    queryKey: ["/api/groups"],
+    enabled: scope === "group",
+  });
+
+  const recalculateMutation = useMutation({
+    mutationFn: async (): Promise<RecalculationSummary> => {
+      const body =
+        scope === "patient"
+          ? { scope, patientId: targetId }
+          : scope === "group"
+            ? { scope, groupId: targetId }
+            : { scope };
+      const response = await apiRequest("POST", "/api/calculations/recalculate", body);
+      return response.json();
+    },
+    onSuccess: (summary) => {
+      setLastSummary(summary);
+      queryClient.invalidateQueries({ queryKey: ["/api/measurements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      toast({
+        title: "Recálculo completado",
+        description: `${summary.changed} de ${summary.measurements} mediciones actualizadas.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudieron recalcular las mediciones",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const needsTarget = scope !== "all";
+  const options = scope === "patient" ? patients : scope === "group" ? groups : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recalcular mediciones</CardTitle>
+        <CardDescription>
+          Los cálculos se guardan al registrar cada medición. Si cambiaste los parámetros nutricionales, la ecuación de
+          grasa o datos del paciente, recalculá para actualizar el historial.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-[200px_1fr_auto] md:items-end">
+          <div className="space-y-2">
+            <Label>Alcance</Label>
+            <Select
+              value={scope}
+              onValueChange={(value) => {
+                setScope(value as ScopeType);
+                setTargetId("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas las mediciones</SelectItem>
+                <SelectItem value="group">Un grupo</SelectItem>
+                <SelectItem value="patient">Un paciente</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {needsTarget ? (
+            <div className="space-y-2">
+              <Label>{scope === "group" ? "Grupo" : "Paciente"}</Label>
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={scope === "group" ? "Elegí un grupo" : "Elegí un paciente"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <span />
+          )}
+          <Button
+            type="button"
+            onClick={() => recalculateMutation.mutate()}
+            disabled={recalculateMutation.isPending || (needsTarget && !targetId)}
+          >
+            <RefreshCw className={`mr-2 h-4 w-4 ${recalculateMutation.isPending ? "animate-spin" : ""}`} />
+            {recalculateMutation.isPending ? "Recalculando…" : "Recalcular"}
+          </Button>
+        </div>
+
+        {lastSummary && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/40 px-3 py-2 text-sm">
+            <span className="text-muted-foreground">
+              Último recálculo ({new Date(lastSummary.finishedAt).toLocaleString("es-AR")}):
+            </span>
+            <Badge variant="secondary">{lastSummary.patients} pacientes</Badge>
+            <Badge variant="secondary">{lastSummary.measurements} mediciones</Badge>
+            <Badge>{lastSummary.changed} con cambios</Badge>
+            <Badge variant="outline">{lastSummary.unchanged} sin cambios</Badge>
+            {lastSummary.failed.length > 0 && (
+              <Badge variant="destructive">{lastSummary.failed.length} con error</Badge>
+            )}
+            <span className="text-xs text-muted-foreground">Fórmulas v{lastSummary.formulaSetVersion}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
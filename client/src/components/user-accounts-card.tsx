@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { KeyRound, Pencil, Plus, UserCog } from "lucide-react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { MIN_PASSWORD_LENGTH, ROLE_DESCRIPTIONS, ROLE_LABELS, USER_ROLES, isUserRole, type UserRole } from "@shared/auth";
+import type { PublicUser } from "@shared/schema";
+
+interface UserDraft {
+  id: string | null;
+  version: number | null;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  isActive: boolean;
+  password: string;
+}
+
+const emptyDraft = (): UserDraft => ({
+  id: null,
+  version: null,
+  username: "",
+  displayName: "",
+  role: "assistant",
+  isActive: true,
+  password: "",
+});
+
+function getUserError(error: Error): string {
+  if (error.message.startsWith("409")) return "Ya existe un usuario con ese nombre o el registro cambió mientras lo editabas.";
+  if (error.message.startsWith("400")) return "Revisá los datos: usuario de al menos 3 caracteres (letras, números, . _ -) y contraseña válida.";
+  return "No se pudo guardar el usuario.";
+}
+
+/** Cuentas del consultorio y sus roles (sólo nutricionista). */
+export function UserAccountsCard() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const { data: users = [] } = useQuery<PublicUser[]>({ queryKey: ["/api/users"] });
+  const [draft, setDraft] = useState<UserDraft | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: UserDraft) => {
+      const payload = {
+        displayName: data.displayName.trim(),
+        role: data.role,
+        isActive: data.isActive,
+        ...(data.password ? { password: data.password } : {}),
+      };
+      if (data.id) {
+        await apiRequest("PATCH", `/api/users/${data.id}`, { ...payload, version: data.version });
+      } else {
+        await apiRequest("POST", "/api/users", { ...payload, username: data.username.trim() });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Usuario guardado" });
+      setDraft(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getUserError(error), variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    if (!draft) return;
+    const needsPassword = !draft.id || draft.password.length > 0;
+    if (!draft.displayName.trim() || (!draft.id && !draft.username.trim())) {
+      toast({ title: "Datos incompletos", description: "Completá el nombre y el usuario.", variant: "destructive" });
+      return;
+    }
+    if (needsPassword && draft.password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Contraseña muy corta",
+        description: `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  const isSelf = draft?.id === currentUser?.id;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCog className="h-5 w-5 text-primary" />
+          Usuarios y roles
+        </CardTitle>
+        <CardDescription>
+          Cada persona del consultorio ingresa con su propia cuenta. El rol define qué puede ver y modificar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {users.map((user) => (
+            <div key={user.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+              <div>
+                <p className="font-medium">
+                  {user.displayName}{" "}
+                  <span className="text-sm font-normal text-muted-foreground">@{user.username}</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {user.lastLoginAt
+                    ? `Último ingreso: ${format(new Date(user.lastLoginAt), "dd/MM/yyyy HH:mm")}`
+                    : "Todavía no ingresó"}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={user.role === "nutritionist" ? "default" : "secondary"}>
+                  {isUserRole(user.role) ? ROLE_LABELS[user.role] : user.role}
+                </Badge>
+                {!user.isActive && <Badge variant="outline">Inactivo</Badge>}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setDraft({
+                      id: user.id,
+                      version: user.version,
+                      username: user.username,
+                      displayName: user.displayName,
+                      role: isUserRole(user.role) ? user.role : "readonly",
+                      isActive: user.isActive,
+                      password: "",
+                    })
+                  }
+                >
+                  <Pencil className="mr-1 h-4 w-4" />
+                  Editar
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" onClick={() => setDraft(emptyDraft())} data-testid="button-new-user">
+          <Plus className="mr-2 h-4 w-4" />
+          Nuevo usuario
+        </Button>
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Editar usuario" : "Nuevo usuario"}</DialogTitle>
+            <DialogDescription>
+              {draft?.id ? "Dejá la contraseña vacía para conservar la actual." : "La persona podrá cambiar la contraseña después de ingresar."}
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="user-display-name">Nombre</Label>
+                  <Input
+                    id="user-display-name"
+                    value={draft.displayName}
+                    maxLength={120}
+                    onChange={(e) => setDraft({ ...draft, displayName: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="user-username">Usuario</Label>
+                  <Input
+                    id="user-username"
+                    value={draft.username}
+                    maxLength={60}
+                    disabled={!!draft.id}
+                    onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Rol</Label>
+                <Select
+                  value={draft.role}
+                  onValueChange={(role) => setDraft({ ...draft, role: role as UserRole })}
+                  disabled={isSelf}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[draft.role]}</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user-password">{draft.id ? "Nueva contraseña" : "Contraseña"}</Label>
+                <Input
+                  id="user-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={draft.password}
+                  onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <Label htmlFor="user-active">Cuenta activa</Label>
+                  <p className="text-xs text-muted-foreground">Una cuenta inactiva no puede ingresar y pierde sus sesiones abiertas.</p>
+                </div>
+                <Switch
+                  id="user-active"
+                  checked={draft.isActive}
+                  disabled={isSelf}
+                  onCheckedChange={(isActive) => setDraft({ ...draft, isActive })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={saveMutation.isPending}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Guardando…" : "Guardar usuario"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+/** Cambio de la contraseña propia; disponible para todos los roles. */
+export function AccountPasswordCard() {
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+
+  const passwordMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/password", { currentPassword, newPassword });
+    },
+    onSuccess: () => {
+      toast({ title: "Contraseña actualizada" });
+      setCurrentPassword("");
+      setNewPassword("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("400")
+          ? "La contraseña actual no es correcta o la nueva es demasiado corta."
+          : "No se pudo cambiar la contraseña.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          Mi contraseña
+        </CardTitle>
+        <CardDescription>La nueva contraseña debe tener al menos {MIN_PASSWORD_LENGTH} caracteres.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end"
+          onSubmit={(event) => {
+            event.preventDefault();
+            passwordMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Contraseña actual</Label>
+            <Input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">Nueva contraseña</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              minLength={MIN_PASSWORD_LENGTH}
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit" disabled={passwordMutation.isPending}>
+            {passwordMutation.isPending ? "Guardando…" : "Cambiar"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
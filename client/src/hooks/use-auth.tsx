@@ -0,0 +1,70 @@
+import { createContext, useContext, useEffect, type ReactNode } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { wsClient } from "@/lib/websocket";
+import { hasPermission, type Permission } from "@shared/auth";
+import type { PublicUser } from "@shared/schema";
+
+export const AUTH_STATUS_QUERY_KEY = ["/api/auth/status"];
+
+interface AuthStatus {
+  needsSetup: boolean;
+  user: PublicUser | null;
+}
+
+interface AuthContextValue {
+  user: PublicUser | null;
+  needsSetup: boolean;
+  isLoading: boolean;
+  can: (permission: Permission) => boolean;
+  logout: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+/** Sesión actual; el websocket sólo se conecta con una sesión iniciada. */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data, isLoading } = useQuery<AuthStatus>({ queryKey: AUTH_STATUS_QUERY_KEY });
+  const user = data?.user ?? null;
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSettled: () => {
+      queryClient.setQueryData<AuthStatus>(AUTH_STATUS_QUERY_KEY, { needsSetup: false, user: null });
+      // Los datos en caché pertenecen a la sesión que se cerró
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== AUTH_STATUS_QUERY_KEY[0] });
+    },
+  });
+
+  useEffect(() => {
+    if (user) {
+      wsClient.connect();
+    } else {
+      wsClient.disconnect();
+    }
+  }, [user?.id]);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        needsSetup: data?.needsSetup ?? false,
+        isLoading,
+        can: (permission) => hasPermission(user?.role, permission),
+        logout: () => logoutMutation.mutate(),
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
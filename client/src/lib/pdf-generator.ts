@@ -7,14 +7,17 @@ import {
   type BodyCompositionResult,
   calculateAdjustedValue,
   getETM,
-  getReferenceValues,
-  calculateZScore
+  calculateProportionalZScore,
+  resolveReferencePopulation,
+  type ReferenceKey
 } from '@shared/isak-calculations';
 
 export interface PDFReportData {
   patient: {
     name: string;
     age: number;
+    gender?: string | null;
+    referencePopulation?: string | null;
     measurementNumber: number;
     measurementDate: string;
   };
@@ -125,12 +128,17 @@ function generatePage1(pdf: jsPDF, data: PDFReportData, pageWidth: number, pageH
   };
   
   // Calcula Score-Z con formato
-  const getZScore = (rawValue: number | string | null | undefined, measureKey: keyof typeof import('./isak-calculations').REFERENCE_VALUES): string => {
+  const population = resolveReferencePopulation({
+    populationId: data.patient.referencePopulation,
+    gender: data.patient.gender,
+    age: data.patient.age,
+  });
+  const height = m.height ? parseFloat(String(m.height)) : null;
+  const getZScore = (rawValue: number | string | null | undefined, measureKey: ReferenceKey): string => {
     if (!rawValue) return '';
     const num = parseFloat(String(rawValue));
     if (isNaN(num)) return '';
-    const ref = getReferenceValues(measureKey);
-    const zScore = calculateZScore(num, ref.mean, ref.sd);
+    const zScore = calculateProportionalZScore(num, measureKey, height, population);
     return zScore.toFixed(2);
   };
   
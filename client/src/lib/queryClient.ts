@@ -1,6 +1,10 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
+  // Sesión vencida o cerrada en otra pestaña: el estado de auth vuelve a la pantalla de ingreso
+  if (res.status === 401 && !res.url.includes("/api/auth/")) {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
@@ -13,8 +13,11 @@ class WebSocketClient {
   private maxReconnectAttempts = 10;
   private reconnectDelay = 1000;
   private listeners: Set<(message: WebSocketMessage) => void> = new Set();
+  // disconnect() no debe disparar la reconexión automática (p. ej. al cerrar sesión)
+  private closedByClient = false;
 
   connect() {
+    this.closedByClient = false;
     if (this.ws?.readyState === WebSocket.OPEN) {
       console.log("[WS] Already connected");
       return;
@@ -70,6 +73,7 @@ class WebSocketClient {
   }
 
   private attemptReconnect() {
+    if (this.closedByClient) return;
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.log("[WS] Max reconnect attempts reached");
       return;
@@ -131,6 +135,8 @@ class WebSocketClient {
   }
 
   disconnect() {
+    this.closedByClient = true;
+    this.reconnectAttempts = 0;
     if (this.ws) {
       this.ws.close();
       this.ws = null;
@@ -146,9 +152,5 @@ class WebSocketClient {
   }
 }
 
+// El servidor exige sesión: AuthProvider conecta al iniciarla y desconecta al cerrarla
 export const wsClient = new WebSocketClient();
-
-// Auto-connect when module loads
-if (typeof window !== "undefined") {
-  wsClient.connect();
-}
@@ -0,0 +1,770 @@
+import { useEffect, useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { es } from "date-fns/locale";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useConfirmDialog } from "@/hooks/use-confirm-dialog";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CalendarCheck, ChevronLeft, ChevronRight, Download, Link2, Pencil, Plus, Trash2, UserX, X } from "lucide-react";
+import type { Appointment, AppointmentStatus, AppointmentType, Patient } from "@shared/schema";
+import {
+  APPOINTMENT_STATUSES,
+  APPOINTMENT_TYPES,
+  getAppointmentStatusLabel,
+  getAppointmentTypeLabel,
+  getDefaultAppointmentDuration,
+} from "@shared/appointments";
+import { cn } from "@/lib/utils";
+
+type CalendarView = "day" | "week" | "month";
+
+// Lo que devuelve la API: las fechas llegan serializadas
+type AppointmentResponse = Omit<Appointment, "startsAt" | "createdAt" | "updatedAt"> & {
+  startsAt: string;
+  patientName: string;
+};
+
+interface AppointmentDraft {
+  id: string | null;
+  version: number | null;
+  patientId: string;
+  date: string;
+  time: string;
+  type: AppointmentType;
+  durationMinutes: number;
+  status: AppointmentStatus;
+  reason: string;
+}
+
+const STATUS_BADGE_CLASSES: Record<AppointmentStatus, string> = {
+  scheduled: "bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200",
+  confirmed: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200",
+  attended: "bg-muted text-muted-foreground",
+  no_show: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200",
+  cancelled: "bg-muted text-muted-foreground line-through",
+};
+
+const emptyDraft = (date: Date, patientId = ""): AppointmentDraft => ({
+  id: null,
+  version: null,
+  patientId,
+  date: format(date, "yyyy-MM-dd"),
+  time: "09:00",
+  type: "follow_up",
+  durationMinutes: getDefaultAppointmentDuration("follow_up"),
+  status: "scheduled",
+  reason: "",
+});
+
+const toDraft = (appointment: AppointmentResponse): AppointmentDraft => ({
+  id: appointment.id,
+  version: appointment.version,
+  patientId: appointment.patientId,
+  date: format(new Date(appointment.startsAt), "yyyy-MM-dd"),
+  time: format(new Date(appointment.startsAt), "HH:mm"),
+  type: appointment.type as AppointmentType,
+  durationMinutes: appointment.durationMinutes,
+  status: appointment.status as AppointmentStatus,
+  reason: appointment.reason ?? "",
+});
+
+function getVisibleRange(view: CalendarView, anchor: Date): { from: Date; to: Date } {
+  if (view === "day") return { from: startOfDay(anchor), to: addDays(startOfDay(anchor), 1) };
+  if (view === "week") {
+    const from = startOfWeek(anchor, { weekStartsOn: 1 });
+    return { from, to: addDays(from, 7) };
+  }
+  // El mes se muestra en semanas completas
+  const from = startOfWeek(startOfMonth(anchor), { weekStartsOn: 1 });
+  return { from, to: addDays(endOfWeek(endOfMonth(anchor), { weekStartsOn: 1 }), 1) };
+}
+
+function getRangeTitle(view: CalendarView, anchor: Date): string {
+  if (view === "day") return format(anchor, "EEEE d 'de' MMMM yyyy", { locale: es });
+  if (view === "month") return format(anchor, "MMMM yyyy", { locale: es });
+  const from = startOfWeek(anchor, { weekStartsOn: 1 });
+  return `${format(from, "d MMM", { locale: es })} – ${format(addDays(from, 6), "d MMM yyyy", { locale: es })}`;
+}
+
+function shiftAnchor(view: CalendarView, anchor: Date, step: number): Date {
+  if (view === "day") return addDays(anchor, step);
+  if (view === "week") return addWeeks(anchor, step);
+  return addMonths(anchor, step);
+}
+
+function getAppointmentError(error: Error): string {
+  if (error.message.startsWith("409")) return "El turno cambió mientras lo editabas. Volvé a abrirlo.";
+  if (error.message.startsWith("404")) return "El paciente o el turno ya no existe.";
+  return "No se pudo guardar el turno.";
+}
+
+export default function AppointmentsPage() {
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const confirmDialog = useConfirmDialog();
+  const [location, setLocation] = useLocation();
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [draft, setDraft] = useState<AppointmentDraft | null>(null);
+  const [isFeedDialogOpen, setIsFeedDialogOpen] = useState(false);
+  const canSchedule = can("schedule");
+  const canAttend = can("measurements");
+
+  const range = useMemo(() => getVisibleRange(view, anchor), [view, anchor]);
+  const rangeParams = `from=${range.from.toISOString()}&to=${range.to.toISOString()}`;
+
+  const { data: appointments = [], isLoading } = useQuery<AppointmentResponse[]>({
+    queryKey: ["/api/appointments", { from: range.from.toISOString(), to: range.to.toISOString() }],
+    queryFn: async () => {
+      const response = await fetch(`/api/appointments?${rangeParams}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch appointments");
+      return response.json();
+    },
+  });
+
+  const { data: patients = [] } = useQuery<Patient[]>({ queryKey: ["/api/patients"] });
+
+  // /agenda?nuevo=1&patientId=... abre el alta de un turno para ese paciente
+  useEffect(() => {
+    const [, search = ""] = location.split("?");
+    const params = new URLSearchParams(search);
+    if (params.get("nuevo") && canSchedule) {
+      setDraft(emptyDraft(new Date(), params.get("patientId") ?? ""));
+      setLocation("/agenda", { replace: true });
+    }
+  }, [location, canSchedule, setLocation]);
+
+  const appointmentsByDay = useMemo(() => {
+    const byDay = new Map<string, AppointmentResponse[]>();
+    appointments.forEach((appointment) => {
+      const key = format(new Date(appointment.startsAt), "yyyy-MM-dd");
+      byDay.set(key, [...(byDay.get(key) ?? []), appointment]);
+    });
+    return byDay;
+  }, [appointments]);
+
+  const invalidateAppointments = () => queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: AppointmentDraft) => {
+      const payload = {
+        patientId: data.patientId,
+        startsAt: new Date(`${data.date}T${data.time}`).toISOString(),
+        type: data.type,
+        durationMinutes: data.durationMinutes,
+        status: data.status,
+        reason: data.reason.trim() || null,
+      };
+      if (data.id) {
+        return await apiRequest("PATCH", `/api/appointments/${data.id}`, { ...payload, version: data.version });
+      }
+      return await apiRequest("POST", "/api/appointments", {
+        ...payload,
+        userId: user?.role === "nutritionist" ? user.id : null,
+      });
+    },
+    onSuccess: () => {
+      invalidateAppointments();
+      setDraft(null);
+      toast({ title: "Turno guardado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getAppointmentError(error), variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ appointment, status }: { appointment: AppointmentResponse; status: AppointmentStatus }) => {
+      return await apiRequest("PATCH", `/api/appointments/${appointment.id}`, { status, version: appointment.version });
+    },
+    onSuccess: (_data, { status }) => {
+      invalidateAppointments();
+      toast({ title: `Turno: ${getAppointmentStatusLabel(status).toLowerCase()}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getAppointmentError(error), variant: "destructive" });
+    },
+  });
+
+  const attendMutation = useMutation({
+    mutationFn: async (appointment: AppointmentResponse) => {
+      const response = await apiRequest("POST", `/api/appointments/${appointment.id}/attend`, {
+        version: appointment.version,
+      });
+      return response.json();
+    },
+    onSuccess: async (_data, appointment) => {
+      invalidateAppointments();
+      queryClient.invalidateQueries({ queryKey: ["/api/patients", appointment.patientId, "profile"] });
+      const openMeasurement = await confirmDialog.confirm({
+        title: "Consulta registrada",
+        description: `Se creó la consulta de ${appointment.patientName}. ¿Querés cargar la medición ahora?`,
+        confirmLabel: "Cargar medición",
+        cancelLabel: "Más tarde",
+      });
+      if (openMeasurement) {
+        setLocation(`/mediciones?mode=create&patientId=${appointment.patientId}`);
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getAppointmentError(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (appointment: AppointmentResponse) => {
+      return await apiRequest("DELETE", `/api/appointments/${appointment.id}`);
+    },
+    onSuccess: () => {
+      invalidateAppointments();
+      toast({ title: "Turno eliminado" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo eliminar el turno", variant: "destructive" });
+    },
+  });
+
+  const handleDelete = async (appointment: AppointmentResponse) => {
+    const confirmed = await confirmDialog.confirm({
+      title: "Eliminar turno",
+      description: `¿Eliminar el turno de ${appointment.patientName}? Para conservarlo en la agenda, marcalo como cancelado.`,
+      confirmLabel: "Eliminar",
+      cancelLabel: "Cancelar",
+    });
+    if (confirmed) deleteMutation.mutate(appointment);
+  };
+
+  const renderAppointment = (appointment: AppointmentResponse, compact = false) => {
+    const status = appointment.status as AppointmentStatus;
+    const isOpen = status === "scheduled" || status === "confirmed";
+    const startsAt = new Date(appointment.startsAt);
+    return (
+      <div
+        key={appointment.id}
+        className={cn("rounded-md border p-2 text-sm space-y-1", !isOpen && "opacity-70")}
+        data-testid={`appointment-${appointment.id}`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="font-medium truncate">
+              {format(startsAt, "HH:mm")} · {appointment.patientName}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {getAppointmentTypeLabel(appointment.type)} · {appointment.durationMinutes} min
+            </p>
+          </div>
+          <Badge variant="secondary" className={cn("shrink-0", STATUS_BADGE_CLASSES[status])}>
+            {getAppointmentStatusLabel(status)}
+          </Badge>
+        </div>
+        {!compact && appointment.reason && <p className="text-xs text-muted-foreground">{appointment.reason}</p>}
+        {canSchedule && (
+          <div className="flex flex-wrap gap-1">
+            {isOpen && canAttend && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 px-2"
+                onClick={() => attendMutation.mutate(appointment)}
+                disabled={attendMutation.isPending}
+                data-testid={`button-attend-appointment-${appointment.id}`}
+              >
+                <CalendarCheck className="h-3 w-3 mr-1" />
+                Atendido
+              </Button>
+            )}
+            {status === "scheduled" && !compact && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2"
+                onClick={() => statusMutation.mutate({ appointment, status: "confirmed" })}
+                data-testid={`button-confirm-appointment-${appointment.id}`}
+              >
+                Confirmar
+              </Button>
+            )}
+            {isOpen && !compact && (
+              <>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2"
+                  onClick={() => statusMutation.mutate({ appointment, status: "no_show" })}
+                  data-testid={`button-no-show-appointment-${appointment.id}`}
+                >
+                  <UserX className="h-3 w-3 mr-1" />
+                  No asistió
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2"
+                  onClick={() => statusMutation.mutate({ appointment, status: "cancelled" })}
+                  data-testid={`button-cancel-appointment-${appointment.id}`}
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Cancelar
+                </Button>
+              </>
+            )}
+            {status !== "attended" && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                title="Editar"
+                onClick={() => setDraft(toDraft(appointment))}
+                data-testid={`button-edit-appointment-${appointment.id}`}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+            )}
+            {can("delete") && !compact && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                title="Eliminar"
+                onClick={() => handleDelete(appointment)}
+                data-testid={`button-delete-appointment-${appointment.id}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderDay = () => {
+    const dayAppointments = appointmentsByDay.get(format(anchor, "yyyy-MM-dd")) ?? [];
+    return (
+      <Card>
+        <CardContent className="p-4 space-y-2">
+          {dayAppointments.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">No hay turnos este día.</p>
+          ) : (
+            dayAppointments.map((appointment) => renderAppointment(appointment))
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderWeek = () => {
+    const days = eachDayOfInterval({ start: range.from, end: addDays(range.to, -1) });
+    return (
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-7">
+        {days.map((day) => {
+          const dayAppointments = appointmentsByDay.get(format(day, "yyyy-MM-dd")) ?? [];
+          return (
+            <Card key={day.toISOString()} className={cn(isSameDay(day, new Date()) && "border-primary")}>
+              <CardContent className="p-2 space-y-2">
+                <button
+                  type="button"
+                  className="w-full text-left text-sm font-semibold capitalize hover:underline"
+                  onClick={() => {
+                    setAnchor(day);
+                    setView("day");
+                  }}
+                >
+                  {format(day, "EEE d", { locale: es })}
+                </button>
+                {dayAppointments.map((appointment) => renderAppointment(appointment, true))}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderMonth = () => {
+    const days = eachDayOfInterval({ start: range.from, end: addDays(range.to, -1) });
+    return (
+      <Card>
+        <CardContent className="p-2">
+          <div className="grid grid-cols-7 gap-1">
+            {days.slice(0, 7).map((day) => (
+              <div key={`header-${day.toISOString()}`} className="px-1 text-xs font-medium capitalize text-muted-foreground">
+                {format(day, "EEE", { locale: es })}
+              </div>
+            ))}
+            {days.map((day) => {
+              const dayAppointments = appointmentsByDay.get(format(day, "yyyy-MM-dd")) ?? [];
+              return (
+                <button
+                  key={day.toISOString()}
+                  type="button"
+                  className={cn(
+                    "min-h-24 rounded-md border p-1 text-left align-top hover-elevate",
+                    !isSameMonth(day, anchor) && "opacity-50",
+                    isSameDay(day, new Date()) && "border-primary",
+                  )}
+                  onClick={() => {
+                    setAnchor(day);
+                    setView("day");
+                  }}
+                  data-testid={`month-day-${format(day, "yyyy-MM-dd")}`}
+                >
+                  <span className="text-xs font-semibold">{format(day, "d")}</span>
+                  <div className="mt-1 space-y-0.5">
+                    {dayAppointments.slice(0, 3).map((appointment) => (
+                      <p
+                        key={appointment.id}
+                        className={cn(
+                          "truncate rounded px-1 text-xs",
+                          STATUS_BADGE_CLASSES[appointment.status as AppointmentStatus],
+                        )}
+                      >
+                        {format(new Date(appointment.startsAt), "HH:mm")} {appointment.patientName}
+                      </p>
+                    ))}
+                    {dayAppointments.length > 3 && (
+                      <p className="px-1 text-xs text-muted-foreground">+{dayAppointments.length - 3} más</p>
+                    )}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-appointments-title">
+            Agenda
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Turnos del consultorio. Al marcar un turno como atendido se registra la consulta del paciente.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setIsFeedDialogOpen(true)} data-testid="button-calendar-feed">
+            <Link2 className="h-4 w-4 mr-2" />
+            Calendario externo
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/appointments/export.ics?${rangeParams}`} download="agenda.ics" data-testid="link-export-ics">
+              <Download className="h-4 w-4 mr-2" />
+              Exportar .ics
+            </a>
+          </Button>
+          {canSchedule && (
+            <Button onClick={() => setDraft(emptyDraft(anchor))} data-testid="button-new-appointment">
+              <Plus className="h-4 w-4 mr-2" />
+              Nuevo turno
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setAnchor(shiftAnchor(view, anchor, -1))} data-testid="button-previous-range">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setAnchor(new Date())} data-testid="button-today">
+            Hoy
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setAnchor(shiftAnchor(view, anchor, 1))} data-testid="button-next-range">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="ml-2 text-lg font-semibold capitalize" data-testid="text-range-title">
+            {getRangeTitle(view, anchor)}
+          </h2>
+        </div>
+        <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+          <TabsList>
+            <TabsTrigger value="day" data-testid="tab-view-day">Día</TabsTrigger>
+            <TabsTrigger value="week" data-testid="tab-view-week">Semana</TabsTrigger>
+            <TabsTrigger value="month" data-testid="tab-view-month">Mes</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {isLoading ? (
+        <p className="text-center text-muted-foreground py-12">Cargando turnos...</p>
+      ) : view === "day" ? (
+        renderDay()
+      ) : view === "week" ? (
+        renderWeek()
+      ) : (
+        renderMonth()
+      )}
+
+      <AppointmentDialog
+        draft={draft}
+        patients={patients}
+        isSaving={saveMutation.isPending}
+        onChange={setDraft}
+        onSave={(value) => saveMutation.mutate(value)}
+      />
+
+      <CalendarFeedDialog open={isFeedDialogOpen} onOpenChange={setIsFeedDialogOpen} />
+
+      <ConfirmDialog
+        open={confirmDialog.isOpen}
+        onOpenChange={(open) => !open && confirmDialog.handleCancel()}
+        title={confirmDialog.options.title}
+        description={confirmDialog.options.description}
+        confirmLabel={confirmDialog.options.confirmLabel}
+        cancelLabel={confirmDialog.options.cancelLabel}
+        onConfirm={confirmDialog.handleConfirm}
+        onCancel={confirmDialog.handleCancel}
+      />
+    </div>
+  );
+}
+
+interface AppointmentDialogProps {
+  draft: AppointmentDraft | null;
+  patients: Patient[];
+  isSaving: boolean;
+  onChange: (draft: AppointmentDraft | null) => void;
+  onSave: (draft: AppointmentDraft) => void;
+}
+
+function AppointmentDialog({ draft, patients, isSaving, onChange, onSave }: AppointmentDialogProps) {
+  if (!draft) return null;
+  const update = (changes: Partial<AppointmentDraft>) => onChange({ ...draft, ...changes });
+  const canSave = draft.patientId && draft.date && draft.time && draft.durationMinutes > 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onChange(null)}>
+      <DialogContent className="max-w-md" data-testid="dialog-appointment">
+        <DialogHeader>
+          <DialogTitle>{draft.id ? "Editar turno" : "Nuevo turno"}</DialogTitle>
+          <DialogDescription>La duración se completa según el tipo de turno; se puede ajustar.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Paciente *</Label>
+            <Select value={draft.patientId} onValueChange={(patientId) => update({ patientId })} disabled={!!draft.id}>
+              <SelectTrigger data-testid="select-appointment-patient">
+                <SelectValue placeholder="Seleccionar paciente" />
+              </SelectTrigger>
+              <SelectContent>
+                {patients.map((patient) => (
+                  <SelectItem key={patient.id} value={patient.id}>
+                    {patient.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="appointment-date">Fecha *</Label>
+              <Input
+                id="appointment-date"
+                type="date"
+                value={draft.date}
+                onChange={(e) => update({ date: e.target.value })}
+                data-testid="input-appointment-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="appointment-time">Hora *</Label>
+              <Input
+                id="appointment-time"
+                type="time"
+                value={draft.time}
+                onChange={(e) => update({ time: e.target.value })}
+                data-testid="input-appointment-time"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-[1fr_110px] gap-4">
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select
+                value={draft.type}
+                onValueChange={(value) =>
+                  update({ type: value as AppointmentType, durationMinutes: getDefaultAppointmentDuration(value) })
+                }
+              >
+                <SelectTrigger data-testid="select-appointment-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {APPOINTMENT_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="appointment-duration">Minutos</Label>
+              <Input
+                id="appointment-duration"
+                type="number"
+                min={5}
+                step={5}
+                value={draft.durationMinutes}
+                onChange={(e) => update({ durationMinutes: parseInt(e.target.value, 10) || 0 })}
+                data-testid="input-appointment-duration"
+              />
+            </div>
+          </div>
+          {draft.id && (
+            <div className="space-y-2">
+              <Label>Estado</Label>
+              <Select value={draft.status} onValueChange={(value) => update({ status: value as AppointmentStatus })}>
+                <SelectTrigger data-testid="select-appointment-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {APPOINTMENT_STATUSES.filter((status) => status.value !== "attended").map((status) => (
+                    <SelectItem key={status.value} value={status.value}>
+                      {status.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="appointment-reason">Motivo</Label>
+            <Textarea
+              id="appointment-reason"
+              placeholder="Ej: control mensual, entrega de plan..."
+              value={draft.reason}
+              onChange={(e) => update({ reason: e.target.value })}
+              data-testid="input-appointment-reason"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onChange(null)}>
+            Cancelar
+          </Button>
+          <Button onClick={() => onSave(draft)} disabled={!canSave || isSaving} data-testid="button-save-appointment">
+            {isSaving ? "Guardando..." : "Guardar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** URL de suscripción .ics de la propia cuenta (Google Calendar, Outlook, Apple). */
+function CalendarFeedDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const { data } = useQuery<{ url: string | null }>({
+    queryKey: ["/api/auth/calendar-feed"],
+    enabled: open,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/calendar-feed");
+      return response.json();
+    },
+    onSuccess: (result: { url: string }) => {
+      queryClient.setQueryData(["/api/auth/calendar-feed"], result);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo generar la URL", variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/auth/calendar-feed");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/auth/calendar-feed"], { url: null });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo desactivar la URL", variant: "destructive" });
+    },
+  });
+
+  const url = data?.url ?? null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-calendar-feed">
+        <DialogHeader>
+          <DialogTitle>Calendario externo</DialogTitle>
+          <DialogDescription>
+            Suscribite a esta URL desde Google Calendar, Outlook o Apple Calendar para ver la agenda. Incluye el último
+            mes y el próximo año; quien tenga la URL ve los nombres de los pacientes. Generar una nueva desactiva la
+            anterior.
+          </DialogDescription>
+        </DialogHeader>
+        {url ? (
+          <div className="flex gap-2">
+            <Input readOnly value={url} onFocus={(e) => e.target.select()} data-testid="input-calendar-feed-url" />
+            <Button
+              variant="outline"
+              onClick={async () => {
+                await navigator.clipboard.writeText(url);
+                toast({ title: "URL copiada" });
+              }}
+              data-testid="button-copy-calendar-feed"
+            >
+              Copiar
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No hay una URL activa.</p>
+        )}
+        <DialogFooter className="gap-2">
+          {url && (
+            <Button
+              variant="outline"
+              onClick={() => revokeMutation.mutate()}
+              disabled={revokeMutation.isPending}
+              data-testid="button-revoke-calendar-feed"
+            >
+              Desactivar
+            </Button>
+          )}
+          <Button
+            onClick={() => regenerateMutation.mutate()}
+            disabled={regenerateMutation.isPending}
+            data-testid="button-generate-calendar-feed"
+          >
+            {url ? "Generar nueva URL" : "Generar URL"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -26,6 +26,8 @@ import { getObjectiveBadgeClasses, getObjectiveLabel, normalizeObjective } from
 import { Separator } from "@/components/ui/separator";
 import { TimeRangeSelector } from "@/components/time-range-selector";
 import { getDefaultTimeRange, getTimeRangeKey, rangeToQueryParams, type TimeRangeValue } from "@/lib/time-range";
+import { FollowUpCard } from "@/components/follow-up-card";
+import { useAuth } from "@/hooks/use-auth";
 import type { MeasurementCalculation } from "@shared/schema";
 
 interface GroupStatistics {
@@ -63,6 +65,7 @@ const delayStyle = (step: number): React.CSSProperties => ({
 });
 
 export default function Dashboard() {
+  const { can } = useAuth();
   const [timeRange, setTimeRange] = useState<TimeRangeValue>(() => getDefaultTimeRange());
   const [patientChartType, setPatientChartType] = useState<ChartType>("bar");
   const [measurementChartType, setMeasurementChartType] = useState<ChartType>("line");
@@ -390,6 +393,12 @@ export default function Dashboard() {
         ))}
       </div>
 
+      {can("schedule") && (
+        <div className="caro-animate-rise" style={delayStyle(0.3)}>
+          <FollowUpCard />
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card className="shadow-xl caro-animate-rise text-slate-900 dark:text-white" style={delayStyle(0.32)}>
           <CardHeader className="flex items-start justify-between">
@@ -0,0 +1,571 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useConfirmDialog } from "@/hooks/use-confirm-dialog";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2, FlaskConical, X } from "lucide-react";
+import type { Evaluator, EvaluatorTemStudy } from "@shared/schema";
+import {
+  ETM_VALUES,
+  ISAK_SITES,
+  getMeasurementSite,
+  type EvaluatorTEM,
+  type MeasurementSiteKey,
+} from "@shared/isak-calculations";
+
+type EvaluatorForm = {
+  name: string;
+  email: string;
+  isakLevel: string;
+  certificationExpiresAt: string;
+  isActive: boolean;
+  notes: string;
+};
+
+const EMPTY_FORM: EvaluatorForm = {
+  name: "",
+  email: "",
+  isakLevel: "",
+  certificationExpiresAt: "",
+  isActive: true,
+  notes: "",
+};
+
+const ISAK_LEVELS = ["1", "2", "3", "4"];
+
+// Convierte "12.4 12.8" (una línea por par) en pares numéricos; ignora líneas incompletas
+function parsePairs(text: string): Array<[number, number]> {
+  return text
+    .split("\n")
+    .map((line) => line.trim().replace(/,/g, ".").split(/[\s;]+/).map(Number))
+    .filter((values) => values.length >= 2 && Number.isFinite(values[0]) && Number.isFinite(values[1]))
+    .map((values) => [values[0], values[1]] as [number, number]);
+}
+
+function TemTable({ tem }: { tem: EvaluatorTEM }) {
+  const sites = ISAK_SITES.filter((site) => tem[site.key]);
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Sitio</TableHead>
+          <TableHead className="text-right">ETM</TableHead>
+          <TableHead className="text-right">%ETM</TableHead>
+          <TableHead className="text-right">Ref.</TableHead>
+          <TableHead className="text-right">Pares</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sites.map((site) => {
+          const value = tem[site.key]!;
+          const reference = ETM_VALUES[site.key];
+          return (
+            <TableRow key={site.key}>
+              <TableCell>{site.label}</TableCell>
+              <TableCell className="text-right">
+                {value.absolute.toFixed(2)} {site.unit}
+              </TableCell>
+              <TableCell className="text-right font-medium">{value.relative.toFixed(2)}%</TableCell>
+              <TableCell className="text-right text-muted-foreground">
+                {reference !== undefined ? `${reference.toFixed(2)}%` : "—"}
+              </TableCell>
+              <TableCell className="text-right">{value.n}</TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+function TemStudiesHistory({ evaluatorId }: { evaluatorId: string }) {
+  const { data: studies = [], isLoading } = useQuery<EvaluatorTemStudy[]>({
+    queryKey: ["/api/evaluators", evaluatorId, "tem-studies"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/evaluators/${evaluatorId}/tem-studies`);
+      return response.json();
+    },
+  });
+
+  if (isLoading) return <Skeleton className="h-16" />;
+  if (studies.length === 0) {
+    return <p className="text-sm text-muted-foreground">Sin estudios test-retest registrados.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {studies.map((study) => (
+        <div key={study.id} className="flex items-center justify-between text-sm">
+          <span>{new Date(study.studyDate).toLocaleDateString("es-AR")}</span>
+          <span className="text-muted-foreground">
+            {study.source === "measurements" ? "Desde mediciones" : "Carga manual"} ·{" "}
+            {Object.keys((study.results as EvaluatorTEM) ?? {}).length} sitios
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function EvaluatorsPage() {
+  const { toast } = useToast();
+  const confirmDialog = useConfirmDialog();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingEvaluator, setEditingEvaluator] = useState<Evaluator | null>(null);
+  const [form, setForm] = useState<EvaluatorForm>(EMPTY_FORM);
+
+  // Estudio ETM test-retest
+  const [studyEvaluator, setStudyEvaluator] = useState<Evaluator | null>(null);
+  const [studySource, setStudySource] = useState<"manual" | "measurements">("manual");
+  const [studyNotes, setStudyNotes] = useState("");
+  const [studyPairs, setStudyPairs] = useState<Partial<Record<MeasurementSiteKey, string>>>({});
+
+  const { data: evaluators = [], isLoading } = useQuery<Evaluator[]>({
+    queryKey: ["/api/evaluators"],
+  });
+
+  const saveEvaluatorMutation = useMutation({
+    mutationFn: async (data: EvaluatorForm) => {
+      const payload = {
+        name: data.name.trim(),
+        email: data.email.trim() || null,
+        isakLevel: data.isakLevel || null,
+        certificationExpiresAt: data.certificationExpiresAt || null,
+        isActive: data.isActive,
+        notes: data.notes.trim() || null,
+      };
+      if (editingEvaluator) {
+        return await apiRequest("PATCH", `/api/evaluators/${editingEvaluator.id}`, {
+          ...payload,
+          version: editingEvaluator.version,
+        });
+      }
+      return await apiRequest("POST", "/api/evaluators", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/evaluators"] });
+      toast({
+        title: editingEvaluator ? "Evaluador actualizado" : "Evaluador creado",
+        description: "Los datos del evaluador se guardaron correctamente",
+      });
+      handleCloseForm();
+    },
+    onError: (error: any) => {
+      const isConflict = error?.message?.includes("409");
+      toast({
+        title: "Error",
+        description: isConflict
+          ? "El evaluador fue modificado por otro usuario. Recarga la página."
+          : "No se pudo guardar el evaluador",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteEvaluatorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/evaluators/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/evaluators"] });
+      toast({
+        title: "Evaluador eliminado",
+        description: "Las mediciones que tomó quedan sin evaluador asignado",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo eliminar el evaluador",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createStudyMutation = useMutation({
+    mutationFn: async () => {
+      if (!studyEvaluator) return;
+      const pairs = Object.fromEntries(
+        Object.entries(studyPairs).map(([site, text]) => [site, parsePairs(text ?? "")]),
+      );
+      return await apiRequest("POST", `/api/evaluators/${studyEvaluator.id}/tem-studies`, {
+        source: studySource,
+        notes: studyNotes.trim() || null,
+        ...(studySource === "manual" ? { pairs } : {}),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/evaluators"] });
+      toast({
+        title: "ETM actualizado",
+        description: "El nuevo ETM se usará en las tomas repetidas y en los informes",
+      });
+      handleCloseStudy();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message?.includes("400")
+          ? "Se necesitan al menos dos pares de tomas por sitio"
+          : "No se pudo calcular el ETM",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenCreate = () => {
+    setEditingEvaluator(null);
+    setForm(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const handleOpenEdit = (evaluator: Evaluator) => {
+    setEditingEvaluator(evaluator);
+    setForm({
+      name: evaluator.name,
+      email: evaluator.email ?? "",
+      isakLevel: evaluator.isakLevel ?? "",
+      certificationExpiresAt: evaluator.certificationExpiresAt
+        ? new Date(evaluator.certificationExpiresAt).toISOString().split("T")[0]
+        : "",
+      isActive: evaluator.isActive,
+      notes: evaluator.notes ?? "",
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleCloseForm = () => {
+    setIsFormOpen(false);
+    setEditingEvaluator(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleCloseStudy = () => {
+    setStudyEvaluator(null);
+    setStudySource("manual");
+    setStudyNotes("");
+    setStudyPairs({});
+  };
+
+  const handleDelete = async (evaluator: Evaluator) => {
+    const confirmed = await confirmDialog.confirm({
+      title: "Eliminar Evaluador",
+      description: `¿Estás seguro de que deseas eliminar a "${evaluator.name}"? Se borrarán sus estudios de ETM.`,
+      confirmLabel: "Eliminar",
+      cancelLabel: "Cancelar",
+    });
+    if (confirmed) {
+      deleteEvaluatorMutation.mutate(evaluator.id);
+    }
+  };
+
+  const availableStudySites = ISAK_SITES.filter((site) => !(site.key in studyPairs));
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <div className="grid gap-6 md:grid-cols-2">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-64" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-evaluators-title">
+            Evaluadores
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Antropometristas que toman las mediciones y su error técnico de medición (ETM)
+          </p>
+        </div>
+        <Button onClick={handleOpenCreate} data-testid="button-create-evaluator">
+          <Plus className="h-4 w-4 mr-2" />
+          Nuevo Evaluador
+        </Button>
+      </div>
+
+      {evaluators.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">
+            Todavía no hay evaluadores cargados.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2">
+          {evaluators.map((evaluator) => {
+            const tem = (evaluator.temValues as EvaluatorTEM | null) ?? null;
+            const certificationExpired =
+              evaluator.certificationExpiresAt && new Date(evaluator.certificationExpiresAt) < new Date();
+            return (
+              <Card key={evaluator.id} data-testid={`card-evaluator-${evaluator.id}`}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1">
+                    <CardTitle className="text-lg">{evaluator.name}</CardTitle>
+                    <div className="flex flex-wrap gap-2">
+                      {evaluator.isakLevel && <Badge variant="secondary">ISAK nivel {evaluator.isakLevel}</Badge>}
+                      {!evaluator.isActive && <Badge variant="outline">Inactivo</Badge>}
+                      {certificationExpired && <Badge variant="destructive">Certificación vencida</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => setStudyEvaluator(evaluator)} title="Estudio ETM">
+                      <FlaskConical className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleOpenEdit(evaluator)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(evaluator)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {tem && Object.keys(tem).length > 0 ? (
+                    <div className="space-y-2">
+                      <p className="text-sm text-muted-foreground">
+                        ETM vigente
+                        {evaluator.temUpdatedAt &&
+                          ` (${new Date(evaluator.temUpdatedAt).toLocaleDateString("es-AR")})`}
+                      </p>
+                      <TemTable tem={tem} />
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Sin estudio test-retest: se usan los %ETM de referencia.
+                    </p>
+                  )}
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Estudios</p>
+                    <TemStudiesHistory evaluatorId={evaluator.id} />
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => !open && handleCloseForm()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingEvaluator ? "Editar Evaluador" : "Nuevo Evaluador"}</DialogTitle>
+            <DialogDescription>Datos del antropometrista y su certificación ISAK</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="evaluator-name">Nombre *</Label>
+              <Input
+                id="evaluator-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="evaluator-email">Email</Label>
+              <Input
+                id="evaluator-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Nivel ISAK</Label>
+                <Select
+                  value={form.isakLevel || "none"}
+                  onValueChange={(value) => setForm({ ...form, isakLevel: value === "none" ? "" : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Sin certificación</SelectItem>
+                    {ISAK_LEVELS.map((level) => (
+                      <SelectItem key={level} value={level}>
+                        Nivel {level}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="evaluator-certification">Vence la certificación</Label>
+                <Input
+                  id="evaluator-certification"
+                  type="date"
+                  value={form.certificationExpiresAt}
+                  onChange={(e) => setForm({ ...form, certificationExpiresAt: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="evaluator-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="evaluator-active">Activo</Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="evaluator-notes">Notas</Label>
+              <Textarea
+                id="evaluator-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={handleCloseForm}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => saveEvaluatorMutation.mutate(form)}
+              disabled={!form.name.trim() || saveEvaluatorMutation.isPending}
+            >
+              {saveEvaluatorMutation.isPending ? "Guardando..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={studyEvaluator !== null} onOpenChange={(open) => !open && handleCloseStudy()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Estudio ETM test-retest · {studyEvaluator?.name}</DialogTitle>
+            <DialogDescription>
+              ETM = √(Σd² / 2n) sobre pares de tomas del mismo sitio. El resultado reemplaza al ETM vigente del
+              evaluador.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Origen de los pares</Label>
+              <Select value={studySource} onValueChange={(value) => setStudySource(value as "manual" | "measurements")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="manual">Carga manual (sesión test-retest)</SelectItem>
+                  <SelectItem value="measurements">Tomas repetidas de sus mediciones</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {studySource === "measurements" ? (
+              <p className="text-sm text-muted-foreground">
+                Se usan la primera y la segunda toma de cada sitio de las mediciones de este evaluador cargadas con
+                tomas repetidas.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <Select
+                  value=""
+                  onValueChange={(value) => setStudyPairs({ ...studyPairs, [value]: "" })}
+                  disabled={availableStudySites.length === 0}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Agregar sitio" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableStudySites.map((site) => (
+                      <SelectItem key={site.key} value={site.key}>
+                        {site.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {(Object.keys(studyPairs) as MeasurementSiteKey[]).map((siteKey) => {
+                  const site = getMeasurementSite(siteKey);
+                  return (
+                    <div key={siteKey} className="space-y-1">
+                      <div className="flex items-center justify-between">
+                        <Label>
+                          {site?.label ?? siteKey} ({site?.unit}) · {parsePairs(studyPairs[siteKey] ?? "").length} pares
+                        </Label>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            const { [siteKey]: _removed, ...rest } = studyPairs;
+                            setStudyPairs(rest);
+                          }}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <Textarea
+                        rows={3}
+                        placeholder={"Una línea por sujeto: toma1 toma2\n12.4 12.8"}
+                        value={studyPairs[siteKey] ?? ""}
+                        onChange={(e) => setStudyPairs({ ...studyPairs, [siteKey]: e.target.value })}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="study-notes">Notas</Label>
+              <Textarea id="study-notes" value={studyNotes} onChange={(e) => setStudyNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={handleCloseStudy}>
+              Cancelar
+            </Button>
+            <Button onClick={() => createStudyMutation.mutate()} disabled={createStudyMutation.isPending}>
+              {createStudyMutation.isPending ? "Calculando..." : "Calcular ETM"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={confirmDialog.isOpen}
+        onOpenChange={(open) => !open && confirmDialog.handleCancel()}
+        title={confirmDialog.options.title}
+        description={confirmDialog.options.description}
+        confirmLabel={confirmDialog.options.confirmLabel}
+        cancelLabel={confirmDialog.options.cancelLabel}
+        onConfirm={confirmDialog.handleConfirm}
+        onCancel={confirmDialog.handleCancel}
+      />
+    </div>
+  );
+}
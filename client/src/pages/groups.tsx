@@ -30,6 +30,15 @@ import { Plus, Pencil, Trash2, Users, X, ChevronDown, ChevronUp } from "lucide-r
 import { Link } from "wouter";
 import type { PatientGroup } from "@shared/schema";
 import { getGroupGradient, getGroupBorderColor, getGroupBadgeBg, getGroupAccentColor } from "@/lib/group-colors";
+import { MAX_FOLLOW_UP_CADENCE_DAYS, MIN_FOLLOW_UP_CADENCE_DAYS } from "@shared/follow-up";
+
+// Días vacíos o fuera de rango: el grupo no impone frecuencia de controles
+const toCadenceDays = (value: string): number | null => {
+  const days = Number(value);
+  return value && Number.isInteger(days) && days >= MIN_FOLLOW_UP_CADENCE_DAYS && days <= MAX_FOLLOW_UP_CADENCE_DAYS
+    ? days
+    : null;
+};
 
 type Patient = {
   id: string;
@@ -53,12 +62,14 @@ export default function Groups() {
   const [newGroupName, setNewGroupName] = useState("");
   const [newGroupDescription, setNewGroupDescription] = useState("");
   const [newGroupColor, setNewGroupColor] = useState("#3b82f6");
+  const [newGroupCadence, setNewGroupCadence] = useState("");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   
   // Estados para EDITAR grupo
   const [editGroupName, setEditGroupName] = useState("");
   const [editGroupDescription, setEditGroupDescription] = useState("");
   const [editGroupColor, setEditGroupColor] = useState("#3b82f6");
+  const [editGroupCadence, setEditGroupCadence] = useState("");
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingGroup, setEditingGroup] = useState<PatientGroup | null>(null);
   
@@ -80,7 +91,7 @@ export default function Groups() {
   });
 
   const createGroupMutation = useMutation({
-    mutationFn: async (data: { name: string; description: string; color: string }) => {
+    mutationFn: async (data: { name: string; description: string; color: string; followUpCadenceDays: number | null }) => {
       return await apiRequest("POST", "/api/groups", data);
     },
     onSuccess: () => {
@@ -89,6 +100,7 @@ export default function Groups() {
       setNewGroupName("");
       setNewGroupDescription("");
       setNewGroupColor("#3b82f6");
+      setNewGroupCadence("");
       toast({
         title: "Grupo creado",
         description: "El grupo se creó exitosamente",
@@ -104,8 +116,8 @@ export default function Groups() {
   });
 
   const updateGroupMutation = useMutation({
-    mutationFn: async ({ id, name, description, color, version }: { id: string; name: string; description?: string; color?: string; version: number }) => {
-      return await apiRequest("PATCH", `/api/groups/${id}`, { name, description, color, version });
+    mutationFn: async ({ id, name, description, color, followUpCadenceDays, version }: { id: string; name: string; description?: string; color?: string; followUpCadenceDays: number | null; version: number }) => {
+      return await apiRequest("PATCH", `/api/groups/${id}`, { name, description, color, followUpCadenceDays, version });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
@@ -209,6 +221,7 @@ export default function Groups() {
     setEditGroupName(group.name);
     setEditGroupDescription(group.description || "");
     setEditGroupColor(group.color || "#3b82f6");
+    setEditGroupCadence(group.followUpCadenceDays ? String(group.followUpCadenceDays) : "");
     setIsEditDialogOpen(true);
   };
 
@@ -218,6 +231,7 @@ export default function Groups() {
     setEditGroupName("");
     setEditGroupDescription("");
     setEditGroupColor("#3b82f6");
+    setEditGroupCadence("");
   };
 
   const handleSaveEdit = () => {
@@ -228,6 +242,7 @@ export default function Groups() {
       name: editGroupName,
       description: editGroupDescription || undefined,
       color: editGroupColor,
+      followUpCadenceDays: toCadenceDays(editGroupCadence),
       version: editingGroup.version,
     });
   };
@@ -359,6 +374,24 @@ export default function Groups() {
                   />
                 </div>
               </div>
+              <div className="space-y-2">
+                <label htmlFor="groupCadence" className="text-sm font-medium">
+                  Frecuencia de controles (días, opcional)
+                </label>
+                <Input
+                  id="groupCadence"
+                  type="number"
+                  min={MIN_FOLLOW_UP_CADENCE_DAYS}
+                  max={MAX_FOLLOW_UP_CADENCE_DAYS}
+                  data-testid="input-group-cadence"
+                  placeholder="Según el objetivo de cada paciente"
+                  value={newGroupCadence}
+                  onChange={(e) => setNewGroupCadence(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Se aplica a los miembros sin frecuencia propia; si están en varios grupos, la más corta.
+                </p>
+              </div>
             </div>
             <DialogFooter>
               <Button
@@ -374,6 +407,7 @@ export default function Groups() {
                     name: newGroupName,
                     description: newGroupDescription,
                     color: newGroupColor,
+                    followUpCadenceDays: toCadenceDays(newGroupCadence),
                   })
                 }
                 disabled={!newGroupName.trim() || createGroupMutation.isPending}
@@ -442,6 +476,24 @@ export default function Groups() {
                 />
               </div>
             </div>
+            <div className="space-y-2">
+              <label htmlFor="editGroupCadence" className="text-sm font-medium">
+                Frecuencia de controles (días, opcional)
+              </label>
+              <Input
+                id="editGroupCadence"
+                type="number"
+                min={MIN_FOLLOW_UP_CADENCE_DAYS}
+                max={MAX_FOLLOW_UP_CADENCE_DAYS}
+                data-testid="input-edit-group-cadence"
+                placeholder="Según el objetivo de cada paciente"
+                value={editGroupCadence}
+                onChange={(e) => setEditGroupCadence(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Se aplica a los miembros sin frecuencia propia; si están en varios grupos, la más corta.
+              </p>
+            </div>
           </div>
           <DialogFooter>
             <Button
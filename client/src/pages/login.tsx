@@ -0,0 +1,137 @@
+import { useState, type FormEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Lock } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AUTH_STATUS_QUERY_KEY } from "@/hooks/use-auth";
+import { MIN_PASSWORD_LENGTH } from "@shared/auth";
+import logoLight from "@/assets/logo-carolina.svg";
+
+function getLoginError(error: Error): string {
+  if (error.message.startsWith("401")) return "Usuario o contraseña incorrectos.";
+  if (error.message.startsWith("429")) return "Demasiados intentos fallidos. Esperá unos minutos y volvé a intentar.";
+  if (error.message.startsWith("400")) return "Revisá los datos ingresados.";
+  return "No se pudo iniciar sesión. Intentá nuevamente.";
+}
+
+interface LoginPageProps {
+  /** Sin cuentas creadas se muestra el alta de la primera (nutricionista). */
+  needsSetup: boolean;
+}
+
+export default function LoginPage({ needsSetup }: LoginPageProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [passwordConfirm, setPasswordConfirm] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loginMutation = useMutation({
+    mutationFn: async () => {
+      if (needsSetup) {
+        await apiRequest("POST", "/api/auth/setup", { username, password, displayName });
+      } else {
+        await apiRequest("POST", "/api/auth/login", { username, password });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: AUTH_STATUS_QUERY_KEY });
+    },
+    onError: (error: Error) => setFormError(getLoginError(error)),
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setFormError(null);
+    if (needsSetup) {
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        setFormError(`La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`);
+        return;
+      }
+      if (password !== passwordConfirm) {
+        setFormError("Las contraseñas no coinciden.");
+        return;
+      }
+    }
+    loginMutation.mutate();
+  };
+
+  return (
+    <div className="flex min-h-screen w-full items-center justify-center bg-muted/40 p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="space-y-3 text-center">
+          <img src={logoLight} alt="Caro Ibáñez" className="mx-auto h-14 w-14 rounded-xl bg-primary p-2" />
+          <CardTitle className="flex items-center justify-center gap-2">
+            <Lock className="h-5 w-5 text-primary" />
+            {needsSetup ? "Crear cuenta inicial" : "Ingresar"}
+          </CardTitle>
+          <CardDescription>
+            {needsSetup
+              ? "Todavía no hay cuentas. Creá la cuenta de la nutricionista; después vas a poder sumar asistentes desde Configuración."
+              : "Ingresá con tu usuario del consultorio."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            {needsSetup && (
+              <div className="space-y-2">
+                <Label htmlFor="login-display-name">Nombre</Label>
+                <Input
+                  id="login-display-name"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  maxLength={120}
+                  required
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="login-username">Usuario</Label>
+              <Input
+                id="login-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                maxLength={60}
+                required
+                data-testid="input-login-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="login-password">Contraseña</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete={needsSetup ? "new-password" : "current-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                data-testid="input-login-password"
+              />
+            </div>
+            {needsSetup && (
+              <div className="space-y-2">
+                <Label htmlFor="login-password-confirm">Repetir contraseña</Label>
+                <Input
+                  id="login-password-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={passwordConfirm}
+                  onChange={(e) => setPasswordConfirm(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+            <Button type="submit" className="w-full" disabled={loginMutation.isPending} data-testid="button-login">
+              {loginMutation.isPending ? "Ingresando…" : needsSetup ? "Crear cuenta e ingresar" : "Ingresar"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
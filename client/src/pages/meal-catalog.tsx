@@ -1,7 +1,14 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Meal, MealTag } from "@shared/schema";
+import type { Meal, MealTag, Patient } from "@shared/schema";
+import {
+  MAJOR_ALLERGENS,
+  findMealAllergenConflicts,
+  getMajorAllergenLabel,
+  resolveMealAllergens,
+  resolvePatientAllergens,
+} from "@shared/allergens";
 import { useConfirmDialog } from "@/hooks/use-confirm-dialog";
 import { ConfirmDialog } from "@/components/confirm-dialog";
 import { Button } from "@/components/ui/button";
@@ -60,6 +67,8 @@ const mealFormSchema = z.object({
   isVegan: z.boolean().optional(),
   isGlutenFree: z.boolean().optional(),
   isDairyFree: z.boolean().optional(),
+  // null: sin declarar, se infieren de nombre, descripción e ingredientes
+  allergens: z.array(z.string()).nullable(),
   notes: z.string().optional(),
 });
 
@@ -76,6 +85,7 @@ export default function MealCatalogPage() {
   const [pendingImageFile, setPendingImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [removeExistingImage, setRemoveExistingImage] = useState(false);
+  const [safeForPatientId, setSafeForPatientId] = useState<string>("all");
 
   const resetImageState = () => {
     if (imagePreview && imagePreview.startsWith("blob:")) {
@@ -116,6 +126,18 @@ export default function MealCatalogPage() {
     },
   });
 
+  const { data: patients = [] } = useQuery<Patient[]>({
+    queryKey: ["/api/patients"],
+  });
+
+  const safeForPatient = patients.find((patient) => patient.id === safeForPatientId);
+  const safeForAllergens = resolvePatientAllergens(safeForPatient);
+  const mealConflicts = new Map(
+    meals.map((meal) => [meal.id, findMealAllergenConflicts(safeForAllergens, meal)] as const),
+  );
+  const visibleMeals = meals.filter((meal) => (mealConflicts.get(meal.id)?.length ?? 0) === 0);
+  const hiddenMeals = meals.filter((meal) => (mealConflicts.get(meal.id)?.length ?? 0) > 0);
+
   // Get unique categories from existing meals for suggestions
   const existingCategories = Array.from(
     new Set(
@@ -198,7 +220,7 @@ export default function MealCatalogPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/meals"] });
       toast({
         title: "Comida eliminada",
-        description: "La comida se ha eliminado del catálogo.",
+        description: "La comida se movió a la papelera.",
       });
     },
     onError: (error: Error) => {
@@ -326,10 +348,26 @@ export default function MealCatalogPage() {
       isVegan: false,
       isGlutenFree: false,
       isDairyFree: false,
+      allergens: null,
       notes: "",
     },
   });
 
+  const [watchedName, watchedDescription, watchedIngredients, watchedGlutenFree, watchedDairyFree] = form.watch([
+    "name",
+    "description",
+    "ingredients",
+    "isGlutenFree",
+    "isDairyFree",
+  ]);
+  const inferredAllergens = resolveMealAllergens({
+    name: watchedName ?? "",
+    description: watchedDescription,
+    ingredients: watchedIngredients ? [watchedIngredients] : null,
+    isGlutenFree: watchedGlutenFree,
+    isDairyFree: watchedDairyFree,
+  });
+
   const onSubmit = async (data: MealFormValues) => {
     const apiData: any = {
       name: data.name,
@@ -349,6 +387,7 @@ export default function MealCatalogPage() {
       isVegan: data.isVegan,
       isGlutenFree: data.isGlutenFree,
       isDairyFree: data.isDairyFree,
+      allergens: data.allergens,
       notes: data.notes || undefined,
     };
 
@@ -412,6 +451,7 @@ export default function MealCatalogPage() {
       isVegan: meal.isVegan ?? false,
       isGlutenFree: meal.isGlutenFree ?? false,
       isDairyFree: meal.isDairyFree ?? false,
+      allergens: Array.isArray(meal.allergens) ? (meal.allergens as string[]) : null,
       notes: String(meal.notes ?? ""),
     });
   };
@@ -420,7 +460,7 @@ export default function MealCatalogPage() {
     const meal = meals.find(m => m.id === id);
     const confirmed = await confirmDialog.confirm({
       title: "Eliminar Comida",
-      description: `¿Estás seguro de que deseas eliminar "${meal?.name}"? Esta acción no se puede deshacer.`,
+      description: `¿Estás seguro de que deseas eliminar "${meal?.name}"? Va a quedar en la papelera hasta que se purgue.`,
       confirmLabel: "Eliminar",
       cancelLabel: "Cancelar",
     });
@@ -751,6 +791,59 @@ export default function MealCatalogPage() {
                   />
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="allergens"
+                  render={({ field }) => {
+                    const selected = field.value ?? inferredAllergens;
+                    return (
+                      <FormItem>
+                        <div className="flex items-center justify-between">
+                          <FormLabel>Alérgenos</FormLabel>
+                          {field.value && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => field.onChange(null)}
+                              data-testid="button-infer-meal-allergens"
+                            >
+                              Detectar automáticamente
+                            </Button>
+                          )}
+                        </div>
+                        <div className="flex gap-2 flex-wrap">
+                          {MAJOR_ALLERGENS.map((allergen) => {
+                            const isSelected = selected.includes(allergen.value);
+                            return (
+                              <Badge
+                                key={allergen.value}
+                                variant={isSelected ? "default" : "outline"}
+                                className="cursor-pointer hover-elevate"
+                                onClick={() =>
+                                  field.onChange(
+                                    isSelected
+                                      ? selected.filter((value) => value !== allergen.value)
+                                      : [...selected, allergen.value],
+                                  )
+                                }
+                                data-testid={`badge-meal-allergen-${allergen.value}`}
+                              >
+                                {allergen.label}
+                              </Badge>
+                            );
+                          })}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {field.value
+                            ? "Declarados a mano."
+                            : "Sin declarar: se detectan a partir del nombre y la descripción. Marcá o desmarcá para declararlos."}
+                        </p>
+                      </FormItem>
+                    );
+                  }}
+                />
+
                 <DialogFooter>
                   <Button
                     type="button"
@@ -820,13 +913,31 @@ export default function MealCatalogPage() {
               </Select>
             </div>
 
-            {selectedCategory || searchQuery || selectedTags.length > 0 ? (
+            <div className="min-w-[200px]">
+              <Label htmlFor="safe-for-filter">Apto para</Label>
+              <Select value={safeForPatientId} onValueChange={setSafeForPatientId}>
+                <SelectTrigger id="safe-for-filter" data-testid="select-filter-safe-for-patient">
+                  <SelectValue placeholder="Cualquier paciente" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Cualquier paciente</SelectItem>
+                  {patients.map((patient) => (
+                    <SelectItem key={patient.id} value={patient.id}>
+                      {patient.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedCategory || searchQuery || selectedTags.length > 0 || safeForPatientId !== "all" ? (
               <Button
                 variant="outline"
                 onClick={() => {
                   setSearchQuery("");
                   setSelectedCategory("");
                   setSelectedTags([]);
+                  setSafeForPatientId("all");
                 }}
                 data-testid="button-clear-filters"
               >
@@ -853,6 +964,14 @@ export default function MealCatalogPage() {
               </div>
             </div>
           )}
+
+          {safeForPatient && (
+            <p className="text-sm text-muted-foreground" data-testid="text-safe-for-summary">
+              {safeForAllergens.length === 0
+                ? `${safeForPatient.name} no tiene alergias, intolerancias ni preferencias cargadas.`
+                : `Se ocultan ${hiddenMeals.length} comida${hiddenMeals.length === 1 ? "" : "s"} con alérgenos de ${safeForPatient.name}.`}
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -861,11 +980,11 @@ export default function MealCatalogPage() {
         <div className="text-center py-12">
           <p className="text-muted-foreground">Cargando comidas...</p>
         </div>
-      ) : meals.length === 0 ? (
+      ) : visibleMeals.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center">
             <p className="text-muted-foreground">
-              {searchQuery || selectedCategory || selectedTags.length > 0
+              {searchQuery || selectedCategory || selectedTags.length > 0 || safeForPatient
                 ? "No se encontraron comidas con los filtros seleccionados"
                 : "No hay comidas en el catálogo. ¡Crea la primera!"}
             </p>
@@ -873,7 +992,7 @@ export default function MealCatalogPage() {
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {meals.map((meal) => (
+          {visibleMeals.map((meal) => (
             <Card key={meal.id} className="hover-elevate" data-testid={`card-meal-${meal.id}`}>
               {meal.imageUrl && (
                 <div className="relative w-full h-48 overflow-hidden rounded-t-md">
@@ -952,6 +1071,11 @@ export default function MealCatalogPage() {
                   {meal.isVegan && <Badge variant="secondary">Vegano</Badge>}
                   {meal.isGlutenFree && <Badge variant="secondary">Sin Gluten</Badge>}
                   {meal.isDairyFree && <Badge variant="secondary">Sin Lácteos</Badge>}
+                  {resolveMealAllergens(meal).map((allergen) => (
+                    <Badge key={allergen} variant="outline" data-testid={`badge-allergen-${meal.id}-${allergen}`}>
+                      {getMajorAllergenLabel(allergen)}
+                    </Badge>
+                  ))}
                 </div>
               </CardContent>
               <CardFooter className="flex gap-2 border-t pt-4">
@@ -54,6 +54,20 @@ import {
   Trash2,
 } from "lucide-react";
 import type { Measurement, Patient } from "@shared/schema";
+import {
+  ISAK_SITES,
+  getMeasurementSite,
+  resolveMeasurementTrials,
+  type MeasurementSiteGroup,
+  type MeasurementTrials,
+} from "@shared/isak-calculations";
+import { getMissingRequiredSites } from "@shared/measurement-protocols";
+import { MEASUREMENT_GROUP_TITLES, MeasurementTrialsPanel } from "@/components/measurement-trials-panel";
+import { MeasurementProtocolCard, NO_PROTOCOL, useMeasurementProtocols } from "@/components/measurement-protocol-card";
+import { EvaluatorSelect, useEvaluatorTem } from "@/components/evaluator-select";
+import { PlausibilityWarningsDialog, getPlausibilityWarnings } from "@/components/plausibility-warnings-dialog";
+import type { PlausibilityOverrideInput, PlausibilityWarning } from "@shared/measurement-plausibility";
+import { Switch } from "@/components/ui/switch";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { getObjectiveLabel } from "@/lib/objectives";
 import html2canvas from "html2canvas";
@@ -68,6 +82,9 @@ interface MeasurementWithPatient extends Measurement {
   } | null;
 }
 
+// Orden de medición ISAK: básicos, pliegues, perímetros y diámetros
+const SITE_GROUPS: MeasurementSiteGroup[] = ["basic", "skinfold", "perimeter", "diameter"];
+
 type SortColumn = "date" | "patient" | "weight" | "leanMass" | "fatMass" | "bodyFat";
 type SortDirection = "asc" | "desc";
 
@@ -179,6 +196,8 @@ export default function Measurements() {
     version: null,
     originalPatientId: null,
   });
+  const [trialMode, setTrialMode] = useState(false);
+  const [plausibilityWarnings, setPlausibilityWarnings] = useState<PlausibilityWarning[] | null>(null);
   const [patientFilter, setPatientFilter] = useState<string>("all");
   const [searchTerm, setSearchTerm] = useState("");
   const [sortColumn, setSortColumn] = useState<SortColumn>("date");
@@ -200,6 +219,7 @@ export default function Measurements() {
 
   const [formData, setFormData] = useState({
     patientId: "",
+    evaluatorId: null as string | null,
     measurementDate: new Date().toISOString(),
     weight: null as number | null,
     height: null as number | null,
@@ -228,12 +248,18 @@ export default function Measurements() {
     abdominal: null as number | null,
     thighSkinfold: null as number | null,
     calfSkinfold: null as number | null,
+    chestSkinfold: null as number | null,
+    midaxillarySkinfold: null as number | null,
+    // null: todavía no se eligió perfil (se usa el predeterminado de la configuración)
+    protocolId: null as string | null,
+    rawTrials: {} as MeasurementTrials,
     notes: "",
   });
 
   const resetForm = (presetPatientId?: string) => {
     setFormData({
       patientId: presetPatientId ?? "",
+      evaluatorId: null,
       measurementDate: new Date().toISOString(),
       weight: null,
       height: null,
@@ -262,9 +288,14 @@ export default function Measurements() {
       abdominal: null,
       thighSkinfold: null,
       calfSkinfold: null,
+      chestSkinfold: null,
+      midaxillarySkinfold: null,
+      protocolId: null,
+      rawTrials: {},
       notes: "",
     });
     setFormMeta({ id: null, version: null, originalPatientId: null });
+    setTrialMode(false);
   };
 
   useEffect(() => {
@@ -303,6 +334,20 @@ export default function Measurements() {
     queryKey: ["/api/patients"],
   });
 
+  const evaluatorTem = useEvaluatorTem(formData.evaluatorId);
+
+  const { data: protocolData } = useMeasurementProtocols(formData.patientId || null);
+  const selectedProtocolId = formData.protocolId ?? protocolData?.defaultProtocolId ?? NO_PROTOCOL;
+  const selectedProtocol = protocolData?.protocols.find((protocol) => protocol.id === selectedProtocolId) ?? null;
+  // Sitios del perfil en orden ISAK; al editar también los que ya tienen valor, para no ocultar datos
+  const visibleSites = useMemo(
+    () =>
+      selectedProtocol
+        ? ISAK_SITES.filter((site) => selectedProtocol.sites.includes(site.key) || formData[site.key] !== null)
+        : ISAK_SITES,
+    [selectedProtocol, formData],
+  );
+
   const { data: measurements = [], isLoading: loadingMeasurements } = useQuery<MeasurementWithPatient[]>({
     queryKey: ["/api/measurements", patientFilter],
     queryFn: async () => {
@@ -360,7 +405,7 @@ export default function Measurements() {
   }, [measurements, searchTerm, sortColumn, sortDirection]);
 
   const createMeasurementMutation = useMutation({
-    mutationFn: async (data: typeof formData) => {
+    mutationFn: async (data: typeof formData & { plausibilityOverrides?: PlausibilityOverrideInput[] }) => {
       return await apiRequest("POST", "/api/measurements", data);
     },
     onSuccess: (_, variables) => {
@@ -374,7 +419,12 @@ export default function Measurements() {
       resetForm();
       setLocation(`/pacientes/${variables.patientId}?tab=mediciones`);
     },
-    onError: () => {
+    onError: (error: unknown) => {
+      const warnings = getPlausibilityWarnings(error);
+      if (warnings) {
+        setPlausibilityWarnings(warnings);
+        return;
+      }
       toast({
         title: "Error",
         description: "No se pudo guardar la medición.",
@@ -384,7 +434,15 @@ export default function Measurements() {
   });
 
   const updateMeasurementMutation = useMutation({
-    mutationFn: async ({ id, version, data }: { id: string; version: number; data: typeof formData }) => {
+    mutationFn: async ({
+      id,
+      version,
+      data,
+    }: {
+      id: string;
+      version: number;
+      data: typeof formData & { plausibilityOverrides?: PlausibilityOverrideInput[] };
+    }) => {
       return await apiRequest("PATCH", `/api/measurements/${id}`, { ...data, version });
     },
     onSuccess: () => {
@@ -403,6 +461,11 @@ export default function Measurements() {
       setViewMode("list");
     },
     onError: (error: any) => {
+      const warnings = getPlausibilityWarnings(error);
+      if (warnings) {
+        setPlausibilityWarnings(warnings);
+        return;
+      }
       const isConflict = error?.message?.includes?.("409");
       toast({
         title: "Error",
@@ -425,7 +488,7 @@ export default function Measurements() {
       }
       toast({
         title: "Medición eliminada",
-        description: "El registro se eliminó correctamente.",
+        description: "El registro se movió a la papelera.",
       });
       setMeasurementToDelete(null);
       setDeleteDialogOpen(false);
@@ -506,6 +569,7 @@ export default function Measurements() {
   const handleEditMeasurement = (measurement: MeasurementWithPatient) => {
     setFormData({
       patientId: measurement.patientId,
+      evaluatorId: measurement.evaluatorId ?? null,
       measurementDate: new Date(measurement.measurementDate).toISOString(),
       weight: toNumberOrNull(measurement.weight),
       height: toNumberOrNull(measurement.height),
@@ -534,8 +598,13 @@ export default function Measurements() {
       abdominal: toNumberOrNull(measurement.abdominal),
       thighSkinfold: toNumberOrNull(measurement.thighSkinfold),
       calfSkinfold: toNumberOrNull(measurement.calfSkinfold),
+      chestSkinfold: toNumberOrNull(measurement.chestSkinfold),
+      midaxillarySkinfold: toNumberOrNull(measurement.midaxillarySkinfold),
+      protocolId: measurement.protocolId ?? NO_PROTOCOL,
+      rawTrials: (measurement.rawTrials as MeasurementTrials | null) ?? {},
       notes: measurement.notes ?? "",
     });
+    setTrialMode(Object.keys((measurement.rawTrials as MeasurementTrials | null) ?? {}).length > 0);
     setFormMeta({
       id: measurement.id,
       version: measurement.version ?? null,
@@ -544,7 +613,8 @@ export default function Measurements() {
     setViewMode("edit");
   };
 
-  const handleSave = () => {
+  // Las confirmaciones llegan desde el diálogo de plausibilidad al reintentar el guardado
+  const handleSave = (plausibilityOverrides?: PlausibilityOverrideInput[]) => {
     if (!formData.patientId) {
       toast({
         title: "Datos incompletos",
@@ -554,6 +624,29 @@ export default function Measurements() {
       return;
     }
 
+    const missingSites = selectedProtocol ? getMissingRequiredSites(selectedProtocol, formData) : [];
+    if (missingSites.length > 0) {
+      toast({
+        title: "Faltan sitios obligatorios",
+        description: `${selectedProtocol!.label}: ${missingSites.map((site) => getMeasurementSite(site)?.label ?? site).join(", ")}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (trialMode) {
+      const pending = resolveMeasurementTrials(formData.rawTrials, evaluatorTem).pendingThirdTrial;
+      if (pending.length > 0) {
+        toast({
+          title: "Falta la tercera toma",
+          description: `Completá: ${pending.map((site) => getMeasurementSite(site)?.label ?? site).join(", ")}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const protocolId = selectedProtocol ? selectedProtocol.id : null;
     if (viewMode === "edit") {
       if (!formMeta.id || formMeta.version === null) {
         toast({
@@ -563,9 +656,14 @@ export default function Measurements() {
         });
         return;
       }
-      updateMeasurementMutation.mutate({ id: formMeta.id, version: formMeta.version, data: formData });
+      // Al desactivar las tomas repetidas en una edición se descartan las guardadas
+      updateMeasurementMutation.mutate({
+        id: formMeta.id,
+        version: formMeta.version,
+        data: { ...formData, protocolId, rawTrials: trialMode ? formData.rawTrials : {}, plausibilityOverrides },
+      });
     } else {
-    createMeasurementMutation.mutate(formData);
+    createMeasurementMutation.mutate({ ...formData, protocolId, rawTrials: trialMode ? formData.rawTrials : {}, plausibilityOverrides });
     }
   };
 
@@ -1082,7 +1180,7 @@ export default function Measurements() {
             <AlertDialogHeader>
               <AlertDialogTitle>¿Eliminar medición?</AlertDialogTitle>
               <AlertDialogDescription>
-                Esta acción eliminará permanentemente el registro de medición y sus cálculos asociados.
+                La medición pasa a la papelera junto con sus cálculos y se puede restaurar hasta que se purgue.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
@@ -1135,7 +1233,7 @@ export default function Measurements() {
           {viewMode === "edit" ? "Editar medición" : "Nueva medición"}
         </h1>
         <p className="text-muted-foreground">
-          Completa todos los datos ISAK 2 para recalcular automáticamente los indicadores nutricionales.
+          Completá los sitios del protocolo elegido para recalcular automáticamente los indicadores nutricionales.
         </p>
       </div>
 
@@ -1164,309 +1262,82 @@ export default function Measurements() {
                       onChange={(e) => handleInputChange("measurementDate", new Date(e.target.value).toISOString())}
                     />
                   </div>
+            <div className="space-y-2">
+              <Label htmlFor="evaluatorId">Evaluador</Label>
+              <EvaluatorSelect
+                id="evaluatorId"
+                value={formData.evaluatorId}
+                onChange={(evaluatorId) => setFormData((prev) => ({ ...prev, evaluatorId }))}
+                disabled={isSaving}
+              />
+            </div>
           </div>
 
-              <Card>
-                <CardHeader>
-              <CardTitle>Datos básicos</CardTitle>
-                </CardHeader>
-            <CardContent className="grid gap-6 md:grid-cols-3">
-                  <div className="space-y-2">
-                    <Label htmlFor="weight">Peso (kg)</Label>
-                    <Input
-                      id="weight"
-                      type="number"
-                      step="0.01"
-                      value={formData.weight ?? ""}
-                      onChange={(e) => handleInputChange("weight", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="height">Talla (cm)</Label>
-                    <Input
-                      id="height"
-                      type="number"
-                      step="0.1"
-                      value={formData.height ?? ""}
-                      onChange={(e) => handleInputChange("height", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="seatedHeight">Talla sentado (cm)</Label>
-                    <Input
-                      id="seatedHeight"
-                      type="number"
-                      step="0.1"
-                      value={formData.seatedHeight ?? ""}
-                      onChange={(e) => handleInputChange("seatedHeight", e.target.value)}
-                    />
-                  </div>
-                </CardContent>
-              </Card>
+              <MeasurementProtocolCard
+                protocols={protocolData?.protocols ?? []}
+                value={selectedProtocolId}
+                onChange={(protocolId) => setFormData((prev) => ({ ...prev, protocolId }))}
+                disabled={isSaving}
+              />
 
               <Card>
-                <CardHeader>
-              <CardTitle>Diámetros óseos</CardTitle>
-                </CardHeader>
-            <CardContent className="grid gap-6 md:grid-cols-3">
-                  <div className="space-y-2">
-                    <Label htmlFor="biacromial">Biacromial (cm)</Label>
-                    <Input
-                      id="biacromial"
-                      type="number"
-                      step="0.1"
-                      value={formData.biacromial ?? ""}
-                      onChange={(e) => handleInputChange("biacromial", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="thoraxTransverse">Tórax transverso (cm)</Label>
-                    <Input
-                      id="thoraxTransverse"
-                      type="number"
-                      step="0.1"
-                      value={formData.thoraxTransverse ?? ""}
-                      onChange={(e) => handleInputChange("thoraxTransverse", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="thoraxAnteroposterior">Tórax anteroposterior (cm)</Label>
-                    <Input
-                      id="thoraxAnteroposterior"
-                      type="number"
-                      step="0.1"
-                      value={formData.thoraxAnteroposterior ?? ""}
-                      onChange={(e) => handleInputChange("thoraxAnteroposterior", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="biiliocristideo">Bi-iliocrestídeo (cm)</Label>
-                    <Input
-                      id="biiliocristideo"
-                      type="number"
-                      step="0.1"
-                      value={formData.biiliocristideo ?? ""}
-                      onChange={(e) => handleInputChange("biiliocristideo", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="humeral">Humeral (cm)</Label>
-                    <Input
-                      id="humeral"
-                      type="number"
-                      step="0.1"
-                      value={formData.humeral ?? ""}
-                      onChange={(e) => handleInputChange("humeral", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="femoral">Femoral (cm)</Label>
-                    <Input
-                      id="femoral"
-                      type="number"
-                      step="0.1"
-                      value={formData.femoral ?? ""}
-                      onChange={(e) => handleInputChange("femoral", e.target.value)}
-                    />
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <div>
+                    <CardTitle>Tomas repetidas (ISAK)</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Registrá dos tomas por sitio; si difieren más que la tolerancia se pide una tercera. Se guarda la media o la mediana.
+                    </p>
                   </div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader>
-                  <CardTitle>Perímetros</CardTitle>
+                  <Switch
+                    checked={trialMode}
+                    onCheckedChange={setTrialMode}
+                    disabled={isSaving}
+                    aria-label="Activar tomas repetidas"
+                  />
                 </CardHeader>
-            <CardContent className="grid gap-6 md:grid-cols-3">
-                  <div className="space-y-2">
-                    <Label htmlFor="head">Cabeza (cm)</Label>
-                    <Input
-                      id="head"
-                      type="number"
-                      step="0.1"
-                      value={formData.head ?? ""}
-                      onChange={(e) => handleInputChange("head", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="relaxedArm">Brazo relajado (cm)</Label>
-                    <Input
-                      id="relaxedArm"
-                      type="number"
-                      step="0.1"
-                      value={formData.relaxedArm ?? ""}
-                      onChange={(e) => handleInputChange("relaxedArm", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="flexedArm">Brazo flexionado (cm)</Label>
-                    <Input
-                      id="flexedArm"
-                      type="number"
-                      step="0.1"
-                      value={formData.flexedArm ?? ""}
-                      onChange={(e) => handleInputChange("flexedArm", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="forearm">Antebrazo (cm)</Label>
-                    <Input
-                      id="forearm"
-                      type="number"
-                      step="0.1"
-                      value={formData.forearm ?? ""}
-                      onChange={(e) => handleInputChange("forearm", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="thoraxCirc">Tórax (cm)</Label>
-                    <Input
-                      id="thoraxCirc"
-                      type="number"
-                      step="0.1"
-                      value={formData.thoraxCirc ?? ""}
-                      onChange={(e) => handleInputChange("thoraxCirc", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="waist">Cintura mínima (cm)</Label>
-                    <Input
-                      id="waist"
-                      type="number"
-                      step="0.1"
-                      value={formData.waist ?? ""}
-                      onChange={(e) => handleInputChange("waist", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="hip">Cadera máxima (cm)</Label>
-                    <Input
-                      id="hip"
-                      type="number"
-                      step="0.1"
-                      value={formData.hip ?? ""}
-                      onChange={(e) => handleInputChange("hip", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="thighSuperior">Muslo superior (cm)</Label>
-                    <Input
-                      id="thighSuperior"
-                      type="number"
-                      step="0.1"
-                      value={formData.thighSuperior ?? ""}
-                      onChange={(e) => handleInputChange("thighSuperior", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="thighMedial">Muslo medial (cm)</Label>
-                    <Input
-                      id="thighMedial"
-                      type="number"
-                      step="0.1"
-                      value={formData.thighMedial ?? ""}
-                      onChange={(e) => handleInputChange("thighMedial", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="calf">Pantorrilla máxima (cm)</Label>
-                    <Input
-                      id="calf"
-                      type="number"
-                      step="0.1"
-                      value={formData.calf ?? ""}
-                      onChange={(e) => handleInputChange("calf", e.target.value)}
+                {trialMode && (
+                  <CardContent>
+                    <MeasurementTrialsPanel
+                      trials={formData.rawTrials}
+                      sites={visibleSites.map((site) => site.key)}
+                      evaluatorTem={evaluatorTem}
+                      disabled={isSaving}
+                      onChange={(trials, resolved) =>
+                        setFormData((prev) => ({ ...prev, ...resolved, rawTrials: trials }))
+                      }
                     />
-                  </div>
-                </CardContent>
+                  </CardContent>
+                )}
               </Card>
 
-              <Card>
-                <CardHeader>
-              <CardTitle>Pliegues cutáneos</CardTitle>
-                </CardHeader>
-            <CardContent className="grid gap-6 md:grid-cols-3">
-                  <div className="space-y-2">
-                <Label htmlFor="triceps">Tríceps (mm)</Label>
-                    <Input
-                      id="triceps"
-                      type="number"
-                      step="0.1"
-                      value={formData.triceps ?? ""}
-                      onChange={(e) => handleInputChange("triceps", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="biceps">Bíceps (mm)</Label>
-                <Input
-                  id="biceps"
-                  type="number"
-                  step="0.1"
-                  value={formData.biceps ?? ""}
-                  onChange={(e) => handleInputChange("biceps", e.target.value)}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="subscapular">Subescapular (mm)</Label>
-                    <Input
-                      id="subscapular"
-                      type="number"
-                      step="0.1"
-                      value={formData.subscapular ?? ""}
-                      onChange={(e) => handleInputChange("subscapular", e.target.value)}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="suprailiac">Suprailiaco (mm)</Label>
-                <Input
-                  id="suprailiac"
-                  type="number"
-                  step="0.1"
-                  value={formData.suprailiac ?? ""}
-                  onChange={(e) => handleInputChange("suprailiac", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="supraspinal">Supraespinal (mm)</Label>
-                    <Input
-                      id="supraspinal"
-                      type="number"
-                      step="0.1"
-                      value={formData.supraspinal ?? ""}
-                      onChange={(e) => handleInputChange("supraspinal", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="abdominal">Abdominal (mm)</Label>
-                    <Input
-                      id="abdominal"
-                      type="number"
-                      step="0.1"
-                      value={formData.abdominal ?? ""}
-                      onChange={(e) => handleInputChange("abdominal", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                <Label htmlFor="thighSkinfold">Muslo medial (mm)</Label>
-                    <Input
-                      id="thighSkinfold"
-                      type="number"
-                      step="0.1"
-                      value={formData.thighSkinfold ?? ""}
-                      onChange={(e) => handleInputChange("thighSkinfold", e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="calfSkinfold">Pantorrilla (mm)</Label>
-                    <Input
-                      id="calfSkinfold"
-                      type="number"
-                      step="0.1"
-                      value={formData.calfSkinfold ?? ""}
-                      onChange={(e) => handleInputChange("calfSkinfold", e.target.value)}
-                    />
-                  </div>
-                </CardContent>
-              </Card>
+              {SITE_GROUPS.map((group) => {
+                const sites = visibleSites.filter((site) => site.group === group);
+                if (sites.length === 0) return null;
+                return (
+                  <Card key={group}>
+                    <CardHeader>
+                      <CardTitle>{MEASUREMENT_GROUP_TITLES[group]}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid gap-6 md:grid-cols-3">
+                      {sites.map((site) => (
+                        <div key={site.key} className="space-y-2">
+                          <Label htmlFor={site.key}>
+                            {site.label} ({site.unit})
+                            {selectedProtocol?.requiredSites.includes(site.key) && <span className="text-destructive"> *</span>}
+                          </Label>
+                          <Input
+                            id={site.key}
+                            type="number"
+                            step={site.key === "weight" ? "0.01" : "0.1"}
+                            value={formData[site.key] ?? ""}
+                            onChange={(e) => handleInputChange(site.key, e.target.value)}
+                          />
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                );
+              })}
 
               <Card>
                 <CardHeader>
@@ -1506,7 +1377,7 @@ export default function Measurements() {
           </Button>
           <Button
             type="button"
-                  onClick={handleSave}
+                  onClick={() => handleSave()}
             disabled={isSaving || !formData.patientId}
                 >
             {isSaving ? "Guardando..." : viewMode === "edit" ? "Guardar cambios" : "Guardar y calcular"}
@@ -1514,6 +1385,14 @@ export default function Measurements() {
               </div>
             </div>
       {reportPreviewDialog}
+      <PlausibilityWarningsDialog
+        warnings={plausibilityWarnings}
+        onCancel={() => setPlausibilityWarnings(null)}
+        onConfirm={(overrides) => {
+          setPlausibilityWarnings(null);
+          handleSave(overrides);
+        }}
+      />
     </div>
   );
 }
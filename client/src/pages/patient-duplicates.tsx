@@ -0,0 +1,341 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, GitMerge } from "lucide-react";
+import { getAuditFieldLabel } from "@shared/audit-log";
+import {
+  getPatientMergeConflicts,
+  resolvePatientMergeUpdates,
+  PATIENT_MERGE_RECORD_LABELS,
+  type DuplicatePair,
+  type MergeFieldSource,
+  type MergeablePatientField,
+  type PatientMergeMovedRecords,
+  type PatientMergeRecordType,
+} from "@shared/patient-merge";
+import type { Patient, PatientMerge } from "@shared/schema";
+
+type DuplicateCandidate = Patient & { measurementCount: number };
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+
+function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Sí" : "No";
+  if (value instanceof Date || (typeof value === "string" && ISO_DATE_PATTERN.test(value))) {
+    return new Date(value).toLocaleDateString("es-AR");
+  }
+  if (typeof value === "object") {
+    const text = JSON.stringify(value);
+    return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+  }
+  return String(value);
+}
+
+function describeMovedRecords(movedRecords: PatientMergeMovedRecords): string {
+  const parts = (Object.keys(PATIENT_MERGE_RECORD_LABELS) as PatientMergeRecordType[])
+    .filter((type) => (movedRecords[type] ?? 0) > 0)
+    .map((type) => `${PATIENT_MERGE_RECORD_LABELS[type]}: ${movedRecords[type]}`);
+  return parts.length > 0 ? parts.join(" · ") : "Sin registros para mover";
+}
+
+function PatientSummary({ patient }: { patient: DuplicateCandidate }) {
+  return (
+    <div className="space-y-1 text-sm">
+      <Link to={`/pacientes/${patient.id}`} className="font-medium hover:underline">
+        {patient.name}
+      </Link>
+      <p className="text-muted-foreground">{patient.email || "Sin email"}</p>
+      <p className="text-muted-foreground">{patient.phone || "Sin teléfono"}</p>
+      <p className="text-muted-foreground">
+        Nacimiento: {patient.birthDate ? formatFieldValue(patient.birthDate) : "—"}
+      </p>
+      <p className="text-muted-foreground">
+        {patient.measurementCount} {patient.measurementCount === 1 ? "medición" : "mediciones"} · alta{" "}
+        {new Date(patient.createdAt).toLocaleDateString("es-AR")}
+      </p>
+    </div>
+  );
+}
+
+function MergeDialog({ pair, onClose }: { pair: DuplicatePair<DuplicateCandidate>; onClose: () => void }) {
+  const { toast } = useToast();
+  // Por defecto sobrevive la ficha con más mediciones
+  const [survivorId, setSurvivorId] = useState(() =>
+    pair.patients[0].measurementCount >= pair.patients[1].measurementCount ? pair.patients[0].id : pair.patients[1].id,
+  );
+  const [fieldChoices, setFieldChoices] = useState<Partial<Record<MergeablePatientField, MergeFieldSource>>>({});
+
+  const survivor = pair.patients.find((patient) => patient.id === survivorId)!;
+  const duplicate = pair.patients.find((patient) => patient.id !== survivorId)!;
+  const conflicts = useMemo(() => getPatientMergeConflicts(survivor, duplicate), [survivor, duplicate]);
+  const filledFromDuplicate = useMemo(
+    () =>
+      Object.keys(resolvePatientMergeUpdates(survivor, duplicate, {})).filter(
+        (field) => !conflicts.includes(field as MergeablePatientField),
+      ) as MergeablePatientField[],
+    [survivor, duplicate, conflicts],
+  );
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/patient-merges", {
+        survivorId: survivor.id,
+        duplicateId: duplicate.id,
+        survivorVersion: survivor.version,
+        fieldChoices,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patient-duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patient-merges"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/measurements"] });
+      toast({
+        title: "Pacientes fusionados",
+        description: `Los registros de "${duplicate.name}" pasaron a "${survivor.name}"`,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message?.includes("409")
+          ? "La ficha se modificó mientras tanto. Volvé a abrir la fusión."
+          : "No se pudieron fusionar los pacientes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSurvivorChange = (id: string) => {
+    setSurvivorId(id);
+    setFieldChoices({});
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-merge-patients">
+        <DialogHeader>
+          <DialogTitle>Fusionar pacientes</DialogTitle>
+          <DialogDescription>
+            Las mediciones, consultas, informes, análisis, grupos y planes del duplicado pasan a la ficha que queda, y
+            el duplicado se elimina.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Ficha que queda</Label>
+            <RadioGroup value={survivorId} onValueChange={handleSurvivorChange} className="grid gap-2 md:grid-cols-2">
+              {pair.patients.map((patient) => (
+                <Label
+                  key={patient.id}
+                  htmlFor={`survivor-${patient.id}`}
+                  className="flex cursor-pointer items-start gap-3 rounded-md border p-3 font-normal"
+                >
+                  <RadioGroupItem value={patient.id} id={`survivor-${patient.id}`} className="mt-1" />
+                  <PatientSummary patient={patient} />
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Datos en conflicto</Label>
+            {conflicts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Las dos fichas no tienen datos contradictorios.</p>
+            ) : (
+              <div className="space-y-3">
+                {conflicts.map((field) => (
+                  <div key={field} className="space-y-1">
+                    <p className="text-sm font-medium">{getAuditFieldLabel(field)}</p>
+                    <RadioGroup
+                      value={fieldChoices[field] ?? "survivor"}
+                      onValueChange={(value) =>
+                        setFieldChoices((current) => ({ ...current, [field]: value as MergeFieldSource }))
+                      }
+                      className="grid gap-2 md:grid-cols-2"
+                    >
+                      {(["survivor", "duplicate"] as const).map((source) => {
+                        const patient = source === "survivor" ? survivor : duplicate;
+                        return (
+                          <Label
+                            key={source}
+                            htmlFor={`${field}-${source}`}
+                            className="flex cursor-pointer items-center gap-2 rounded-md border px-3 py-2 text-sm font-normal"
+                          >
+                            <RadioGroupItem value={source} id={`${field}-${source}`} />
+                            <span className="truncate">{formatFieldValue(patient[field])}</span>
+                          </Label>
+                        );
+                      })}
+                    </RadioGroup>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {filledFromDuplicate.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Se completan desde el duplicado: {filledFromDuplicate.map((field) => getAuditFieldLabel(field)).join(", ")}.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={mergeMutation.isPending}>
+            Cancelar
+          </Button>
+          <Button onClick={() => mergeMutation.mutate()} disabled={mergeMutation.isPending} data-testid="button-confirm-merge">
+            {mergeMutation.isPending ? "Fusionando…" : `Fusionar en "${survivor.name}"`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function PatientDuplicatesPage() {
+  const { can } = useAuth();
+  const [mergingPair, setMergingPair] = useState<DuplicatePair<DuplicateCandidate> | null>(null);
+
+  const { data: pairs = [], isLoading } = useQuery<DuplicatePair<DuplicateCandidate>[]>({
+    queryKey: ["/api/patient-duplicates"],
+  });
+
+  const { data: merges = [] } = useQuery<PatientMerge[]>({
+    queryKey: ["/api/patient-merges"],
+  });
+
+  const { data: patients = [] } = useQuery<Patient[]>({
+    queryKey: ["/api/patients"],
+  });
+
+  const patientNames = useMemo(() => new Map(patients.map((patient) => [patient.id, patient.name])), [patients]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight" data-testid="text-duplicates-title">
+            Pacientes duplicados
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Fichas que parecen ser la misma persona por nombre, email, teléfono o fecha de nacimiento
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/pacientes">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Pacientes
+          </Link>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-48" />
+      ) : pairs.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">No se encontraron posibles duplicados.</CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {pairs.map((pair) => (
+            <Card key={`${pair.patients[0].id}-${pair.patients[1].id}`} data-testid={`card-duplicate-${pair.patients[0].id}`}>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-2">
+                  <CardTitle className="text-lg">Coincidencia {pair.score}%</CardTitle>
+                  <div className="flex flex-wrap gap-2">
+                    {pair.reasons.map((reason) => (
+                      <Badge key={reason.kind} variant={reason.kind === "birthDateMismatch" ? "outline" : "secondary"}>
+                        {reason.label}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                {can("delete") && (
+                  <Button onClick={() => setMergingPair(pair)} data-testid={`button-merge-${pair.patients[0].id}`}>
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    Fusionar
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                {pair.patients.map((patient) => (
+                  <PatientSummary key={patient.id} patient={patient} />
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Fusiones realizadas</CardTitle>
+          <CardDescription>Qué ficha se eliminó, en cuál quedaron sus registros y qué datos se tomaron de ella.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {merges.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Todavía no se fusionaron pacientes.</p>
+          ) : (
+            <div className="space-y-2">
+              {merges.map((merge) => {
+                const takenFields = Object.entries((merge.fieldChoices as Record<string, MergeFieldSource>) ?? {})
+                  .filter(([, source]) => source === "duplicate")
+                  .map(([field]) => getAuditFieldLabel(field));
+                return (
+                  <div key={merge.id} className="space-y-1 rounded-md border p-3 text-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span>
+                        <span className="font-medium">{merge.duplicateName}</span>
+                        {" → "}
+                        {patientNames.has(merge.survivorId) ? (
+                          <Link to={`/pacientes/${merge.survivorId}`} className="font-medium hover:underline">
+                            {patientNames.get(merge.survivorId)}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">Paciente eliminado</span>
+                        )}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(merge.createdAt).toLocaleString("es-AR")} · {merge.userName ?? "Sistema"}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {describeMovedRecords(merge.movedRecords as PatientMergeMovedRecords)}
+                    </p>
+                    {takenFields.length > 0 && (
+                      <p className="text-xs text-muted-foreground">Datos del duplicado: {takenFields.join(", ")}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {mergingPair && <MergeDialog pair={mergingPair} onClose={() => setMergingPair(null)} />}
+    </div>
+  );
+}
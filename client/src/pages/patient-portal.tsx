@@ -0,0 +1,262 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { CalendarDays, Download, FileText, LineChart as LineChartIcon, MessageSquareText, UtensilsCrossed } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { PatientPortalData, PortalEvolutionPoint, PortalPlanMeal } from "@shared/patient-portal";
+
+const DAYS_OF_WEEK = ["Lunes", "Martes", "Miércoles", "Jueves", "Viernes", "Sábado", "Domingo"];
+
+const MEAL_SLOT_LABELS: Record<string, string> = {
+  breakfast: "Desayuno",
+  snack1: "Colación AM",
+  lunch: "Almuerzo",
+  snack2: "Colación PM",
+  snack: "Colación",
+  dinner: "Cena",
+};
+
+const formatDate = (value: string) => format(new Date(value), "d 'de' MMMM yyyy", { locale: es });
+
+function EvolutionChart({
+  data,
+  dataKey,
+  unit,
+  color,
+}: {
+  data: PortalEvolutionPoint[];
+  dataKey: "weight" | "fatMassKg";
+  unit: string;
+  color: string;
+}) {
+  const points = data
+    .filter((point) => point[dataKey] !== null)
+    .map((point) => ({ fecha: format(new Date(point.date), "dd/MM/yy"), valor: point[dataKey] }));
+
+  if (points.length < 2) {
+    return <p className="text-sm text-muted-foreground">Hacen falta al menos dos mediciones para ver la evolución.</p>;
+  }
+
+  return (
+    <div className="h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points}>
+          <CartesianGrid strokeDasharray="4 4" stroke="rgba(148, 163, 184, 0.35)" />
+          <XAxis dataKey="fecha" tick={{ fontSize: 12 }} />
+          <YAxis domain={["auto", "auto"]} tick={{ fontSize: 12 }} unit={` ${unit}`} width={70} />
+          <Tooltip formatter={(value: number) => [`${value.toFixed(1)} ${unit}`, ""]} />
+          <Line type="monotone" dataKey="valor" stroke={color} strokeWidth={3} dot={{ r: 4 }} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function PlanDay({ meals }: { meals: PortalPlanMeal[] }) {
+  if (meals.length === 0) {
+    return <p className="text-sm text-muted-foreground">Sin comidas cargadas para este día.</p>;
+  }
+  return (
+    <div className="space-y-3">
+      {meals.map((meal, index) => (
+        <div key={`${meal.mealSlot}-${index}`} className="rounded-lg border p-3">
+          <div className="flex items-center justify-between gap-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            <span>{MEAL_SLOT_LABELS[meal.mealSlot] ?? meal.mealSlot}</span>
+            {meal.suggestedTime && <span>{meal.suggestedTime} hs</span>}
+          </div>
+          <p className="mt-1 font-medium">{meal.name}</p>
+          {meal.portionSize && <p className="text-xs text-muted-foreground">Porción: {meal.portionSize}</p>}
+          {meal.description && <p className="mt-1 whitespace-pre-wrap text-sm text-muted-foreground">{meal.description}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Portal de sólo lectura que abre el paciente desde su enlace compartido. */
+export default function PatientPortalPage({ token }: { token: string }) {
+  const { data: portal, isLoading, error } = useQuery<PatientPortalData>({
+    queryKey: ["/api/portal", token],
+  });
+
+  const mealsByDay = useMemo(() => {
+    const days = DAYS_OF_WEEK.map(() => [] as PortalPlanMeal[]);
+    portal?.plan?.meals.forEach((meal) => days[meal.dayOfWeek - 1]?.push(meal));
+    return days;
+  }, [portal?.plan]);
+
+  const todayIndex = (new Date().getDay() + 6) % 7;
+
+  if (isLoading) {
+    return (
+      <div className="mx-auto max-w-4xl space-y-6 p-6">
+        <Skeleton className="h-28 w-full" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !portal) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-6">
+        <Card className="max-w-md text-center">
+          <CardHeader>
+            <CardTitle>Enlace no disponible</CardTitle>
+            <CardDescription>
+              Este enlace venció o fue revocado. Pedile uno nuevo a tu nutricionista.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <div className="mx-auto max-w-4xl space-y-6 p-4 sm:p-6">
+        <Card className="border-2 border-primary/10 shadow-lg">
+          <CardHeader>
+            {portal.practiceName && (
+              <span className="text-xs font-semibold uppercase tracking-[0.2em] text-muted-foreground">
+                {portal.practiceName}
+              </span>
+            )}
+            <CardTitle className="text-3xl text-primary" data-testid="text-portal-greeting">
+              Hola {portal.firstName}!
+            </CardTitle>
+            <CardDescription>Acá tenés tu plan, tus informes y cómo vas evolucionando.</CardDescription>
+          </CardHeader>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div className="space-y-1">
+              <CardTitle className="flex items-center gap-2">
+                <UtensilsCrossed className="h-5 w-5" />
+                {portal.plan ? portal.plan.name : "Plan semanal"}
+              </CardTitle>
+              {portal.plan && (
+                <CardDescription>
+                  {[
+                    portal.plan.goal,
+                    portal.plan.dailyCalories ? `${portal.plan.dailyCalories} kcal por día` : null,
+                    portal.plan.startDate ? `Desde el ${formatDate(portal.plan.startDate)}` : null,
+                    portal.plan.endDate ? `hasta el ${formatDate(portal.plan.endDate)}` : null,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </CardDescription>
+              )}
+            </div>
+            {portal.plan && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/portal/${token}/plan`} data-testid="link-portal-plan-pdf">
+                  <Download className="mr-2 h-4 w-4" />
+                  PDF
+                </a>
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!portal.plan ? (
+              <p className="text-sm text-muted-foreground">Todavía no tenés un plan semanal vigente.</p>
+            ) : (
+              <Tabs defaultValue={DAYS_OF_WEEK[todayIndex]}>
+                <TabsList className="flex h-auto flex-wrap">
+                  {DAYS_OF_WEEK.map((day) => (
+                    <TabsTrigger key={day} value={day}>
+                      {day}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                {DAYS_OF_WEEK.map((day, index) => (
+                  <TabsContent key={day} value={day}>
+                    <PlanDay meals={mealsByDay[index]} />
+                  </TabsContent>
+                ))}
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <LineChartIcon className="h-5 w-5" />
+              Tu evolución
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Peso</h3>
+              <EvolutionChart data={portal.evolution} dataKey="weight" unit="kg" color="#0ea5e9" />
+            </div>
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Masa grasa</h3>
+              <EvolutionChart data={portal.evolution} dataKey="fatMassKg" unit="kg" color="#f97316" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Informes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {portal.reports.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Todavía no hay informes.</p>
+            ) : (
+              <div className="space-y-2">
+                {portal.reports.map((report) => (
+                  <div key={report.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                    <span className="flex items-center gap-2 text-sm">
+                      <CalendarDays className="h-4 w-4 text-muted-foreground" />
+                      Informe del {formatDate(report.createdAt)}
+                    </span>
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/portal/${token}/reports/${report.id}`} data-testid={`link-portal-report-${report.id}`}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Descargar
+                      </a>
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {portal.notes.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessageSquareText className="h-5 w-5" />
+                Indicaciones de tu nutricionista
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {portal.notes.map((note, index) => (
+                <div key={`${note.date}-${index}`} className="rounded-lg border p-3">
+                  <p className="text-xs font-semibold text-muted-foreground">{formatDate(note.date)}</p>
+                  <p className="mt-1 whitespace-pre-wrap text-sm">{note.text}</p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <p className="pb-6 text-center text-xs text-muted-foreground">
+          Enlace personal válido hasta el {formatDate(portal.expiresAt)}. No lo compartas.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -6,11 +6,14 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Calendar, Mail, Phone, User, Edit, FileDown, Activity, Utensils, Heart, MessageSquareShare, MessageCircle, Plus, Target, Cake, MapPin } from "lucide-react";
+import { Calendar, CalendarClock, Mail, Phone, User, Edit, FileDown, Activity, Utensils, Heart, MessageSquareShare, MessageCircle, Plus, Target, Cake, MapPin } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { AssignDietDialog } from "@/components/assign-diet-dialog";
 import { PatientEditDialog } from "@/components/patient-edit-dialog";
+import { PatientShareLinksDialog } from "@/components/patient-share-links-dialog";
+import { BiaPanel } from "@/components/bia-panel";
+import { GoalSimulatorCard } from "@/components/goal-simulator-card";
 import { MeasurementsHistory } from "@/components/measurements-history";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import {
@@ -23,11 +26,22 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import type { Patient, DietAssignment, Measurement, Report } from "@shared/schema";
+import {
+  TRAINING_INTENSITY_LABELS,
+  getTrainingWeekdays,
+  getWeekdayLabel,
+  resolveTrainingSessions,
+} from "@shared/training-schedule";
 import { cn } from "@/lib/utils";
+import { AuditHistoryPanel } from "@/components/audit-history-panel";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { getObjectiveBadgeClasses, getObjectiveLabel } from "@/lib/objectives";
+import { describePatientAllergen, getAllergySeverityLabel, resolvePatientAllergens } from "@shared/allergens";
 
 type ConsultationSummary = {
   consultation: {
@@ -39,6 +53,7 @@ type ConsultationSummary = {
     dietaryPreferences: Record<string, unknown> | null;
     supplements: Record<string, unknown> | null;
     notes: string | null;
+    notesShared: boolean;
     attachments: unknown;
   };
   measurements: Measurement[];
@@ -68,12 +83,15 @@ export default function PatientProfile() {
   const [isConsultationDialogOpen, setIsConsultationDialogOpen] = useState(false);
   const [consultationDate, setConsultationDate] = useState(() => new Date().toISOString().slice(0, 10));
   const [consultationNotes, setConsultationNotes] = useState("");
+  const [consultationNotesShared, setConsultationNotesShared] = useState(false);
   const [consultationActivity, setConsultationActivity] = useState("");
   const [consultationDietary, setConsultationDietary] = useState("");
   const [consultationSupplements, setConsultationSupplements] = useState("");
   const [focusedMeasurementId, setFocusedMeasurementId] = useState<string | null>(null);
 
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canShareNotes = can("write") && can("clinicalNotes");
   
   // Sync URL when tab changes
   useEffect(() => {
@@ -96,6 +114,8 @@ export default function PatientProfile() {
   });
 
   const patient = patientProfile?.patient;
+  const trainingSessions = resolveTrainingSessions(patient);
+  const patientAllergens = resolvePatientAllergens(patient);
 
   const { data: dietAssignments = [] } = useQuery<DietAssignment[]>({
     queryKey: ["/api/diet-assignments", { patientId }],
@@ -126,6 +146,7 @@ export default function PatientProfile() {
         patientId,
         consultationDate,
         notes: consultationNotes || null,
+        notesShared: canShareNotes && Boolean(consultationNotes) && consultationNotesShared,
         activity: consultationActivity ? { description: consultationActivity } : null,
         dietaryPreferences: consultationDietary ? { notes: consultationDietary } : null,
         supplements: consultationSupplements ? { plan: consultationSupplements } : null,
@@ -135,6 +156,7 @@ export default function PatientProfile() {
       queryClient.invalidateQueries({ queryKey: ["/api/patients", patientId, "profile"] });
       setIsConsultationDialogOpen(false);
       setConsultationNotes("");
+      setConsultationNotesShared(false);
       setConsultationActivity("");
       setConsultationDietary("");
       setConsultationSupplements("");
@@ -152,6 +174,28 @@ export default function PatientProfile() {
     },
   });
 
+  const toggleNotesSharedMutation = useMutation({
+    mutationFn: async ({ id, notesShared }: { id: string; notesShared: boolean }) => {
+      await apiRequest("PATCH", `/api/consultations/${id}`, { notesShared });
+    },
+    onSuccess: (_data, { notesShared }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients", patientId, "profile"] });
+      toast({
+        title: notesShared ? "Notas compartidas" : "Notas ocultas",
+        description: notesShared
+          ? "El paciente las ve en su portal."
+          : "Ya no aparecen en el portal del paciente.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo actualizar la consulta",
+        variant: "destructive",
+      });
+    },
+  });
+
   // All hooks MUST be before any conditional returns
   const formattedPhone = useMemo(() => {
     if (!patient?.phone) return null;
@@ -332,6 +376,16 @@ export default function PatientProfile() {
                 <Edit className="h-4 w-4 mr-2" />
                 Editar
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setLocation(`/agenda?nuevo=1&patientId=${patientId}`)}
+                data-testid="button-schedule-appointment"
+              >
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Agendar turno
+              </Button>
+              {can("write") && <PatientShareLinksDialog patientId={patient.id} patientName={patient.name} />}
               <Button size="sm" variant="secondary" data-testid="button-export-patient">
                 <FileDown className="h-4 w-4 mr-2" />
                 Exportar ficha
@@ -343,12 +397,13 @@ export default function PatientProfile() {
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-5 bg-primary/10">
+        <TabsList className="grid w-full grid-cols-6 bg-primary/10">
           <TabsTrigger value="datos" data-testid="tab-datos">Datos Personales</TabsTrigger>
           <TabsTrigger value="dietas" data-testid="tab-dietas">Dietas Asignadas</TabsTrigger>
           <TabsTrigger value="mediciones" data-testid="tab-mediciones">Mediciones</TabsTrigger>
           <TabsTrigger value="informes" data-testid="tab-informes">Informes</TabsTrigger>
           <TabsTrigger value="consultas" data-testid="tab-consultas">Consultas</TabsTrigger>
+          <TabsTrigger value="historial" data-testid="tab-historial">Historial</TabsTrigger>
         </TabsList>
         
         <TabsContent value="datos" className="space-y-4">
@@ -466,20 +521,52 @@ export default function PatientProfile() {
                       <Calendar className="h-5 w-5 text-primary mt-1" />
                       <div className="flex-1">
                         <p className="text-sm font-medium text-muted-foreground mb-1">Días que Entrena</p>
-                        <p className="text-lg font-semibold">{patient.exerciseDays || "-"}</p>
+                        <p className="text-lg font-semibold">
+                          {trainingSessions.length > 0
+                            ? getTrainingWeekdays(trainingSessions).map(getWeekdayLabel).join(", ")
+                            : patient.exerciseDays || "-"}
+                        </p>
                       </div>
                     </div>
                   </div>
 
-                  <div className="flex items-start gap-3">
-                    <Calendar className="h-5 w-5 text-primary mt-1" />
-                    <div className="flex-1">
-                      <p className="text-sm font-medium text-muted-foreground mb-1">Horarios</p>
-                      <p className="text-lg font-semibold">{patient.exerciseSchedule || "-"}</p>
+                  {trainingSessions.length === 0 && (
+                    <div className="flex items-start gap-3">
+                      <Calendar className="h-5 w-5 text-primary mt-1" />
+                      <div className="flex-1">
+                        <p className="text-sm font-medium text-muted-foreground mb-1">Horarios</p>
+                        <p className="text-lg font-semibold">{patient.exerciseSchedule || "-"}</p>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </>
               )}
+
+              {trainingSessions.length > 0 && (
+                <div className="flex items-start gap-3">
+                  <Calendar className="h-5 w-5 text-primary mt-1" />
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-muted-foreground mb-1">Agenda semanal</p>
+                    <ul className="space-y-1 text-sm">
+                      {trainingSessions.map((session, index) => (
+                        <li key={`${session.weekday}-${index}`} className="flex flex-wrap items-center gap-2">
+                          <span className="w-24 font-semibold">{getWeekdayLabel(session.weekday)}</span>
+                          <span>{session.startTime ?? "Sin horario"}</span>
+                          <span>· {session.sport} · {session.durationMinutes} min</span>
+                          <Badge variant="outline">
+                            {TRAINING_INTENSITY_LABELS[session.intensity]} · {session.met} MET
+                          </Badge>
+                        </li>
+                      ))}
+                    </ul>
+                    {!Array.isArray(patient.trainingSessions) && (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        Estimada a partir de los textos de días y horarios; editá el paciente para confirmarla.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -519,16 +606,27 @@ export default function PatientProfile() {
               <div className="flex items-start gap-3">
                 <Heart className="h-5 w-5 text-primary mt-1" />
                 <div className="flex-1">
-                  <p className="text-sm font-medium text-muted-foreground mb-1">Alergias Alimentarias</p>
-                  <p className="text-lg font-semibold">{patient.foodAllergies || "-"}</p>
-                </div>
-              </div>
-
-              <div className="flex items-start gap-3">
-                <Utensils className="h-5 w-5 text-primary mt-1" />
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-muted-foreground mb-1">Alimentos que No Consume</p>
-                  <p className="text-lg font-semibold">{patient.foodDislikes || "-"}</p>
+                  <p className="text-sm font-medium text-muted-foreground mb-1">Alergias, intolerancias y preferencias</p>
+                  {patientAllergens.length > 0 ? (
+                    <div className="flex flex-wrap gap-2" data-testid="list-patient-allergens">
+                      {patientAllergens.map((entry, index) => (
+                        <Badge
+                          key={index}
+                          variant={entry.severity === "allergy" ? "destructive" : entry.severity === "intolerance" ? "default" : "outline"}
+                        >
+                          {describePatientAllergen(entry)} · {getAllergySeverityLabel(entry.severity)}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-lg font-semibold">-</p>
+                  )}
+                  {!Array.isArray(patient.allergens) && (patient.foodAllergies || patient.foodDislikes) && (
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      Estimadas a partir del texto anterior ({[patient.foodAllergies, patient.foodDislikes].filter(Boolean).join(" · ")});
+                      editá el paciente para confirmarlas.
+                    </p>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -618,9 +716,12 @@ export default function PatientProfile() {
           </div>
           <MeasurementsHistory
             patientId={patientId!}
+            patient={patient}
             reports={reports}
             initialMeasurementId={focusedMeasurementId}
           />
+          <GoalSimulatorCard patientId={patientId!} />
+          <BiaPanel patientId={patientId!} />
         </TabsContent>
 
         <TabsContent value="informes" className="space-y-4">
@@ -737,6 +838,7 @@ export default function PatientProfile() {
                       <TableHead className="min-w-[160px]">Fecha y hora</TableHead>
                       <TableHead className="min-w-[220px]">Medición asociada</TableHead>
                       <TableHead>Notas</TableHead>
+                      {canShareNotes && <TableHead className="whitespace-nowrap">En el portal</TableHead>}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -783,6 +885,19 @@ export default function PatientProfile() {
                               <span className="text-muted-foreground">Sin notas registradas</span>
                             )}
                           </TableCell>
+                          {canShareNotes && (
+                            <TableCell>
+                              <Switch
+                                checked={consultation.notesShared}
+                                disabled={!consultation.notes || toggleNotesSharedMutation.isPending}
+                                onCheckedChange={(checked) =>
+                                  toggleNotesSharedMutation.mutate({ id: consultation.id, notesShared: checked })
+                                }
+                                aria-label="Compartir notas en el portal del paciente"
+                                data-testid={`switch-notes-shared-${consultation.id}`}
+                              />
+                            </TableCell>
+                          )}
                         </TableRow>
                       );
                     })}
@@ -792,6 +907,10 @@ export default function PatientProfile() {
             </Card>
           )}
         </TabsContent>
+
+        <TabsContent value="historial" className="space-y-4">
+          <AuditHistoryPanel patientId={patient.id} />
+        </TabsContent>
       </Tabs>
 
       <Dialog open={isConsultationDialogOpen} onOpenChange={setIsConsultationDialogOpen}>
@@ -820,6 +939,18 @@ export default function PatientProfile() {
                 value={consultationNotes}
                 onChange={(e) => setConsultationNotes(e.target.value)}
               />
+              {canShareNotes && (
+                <div className="mt-2 flex items-center gap-2">
+                  <Switch
+                    id="consultation-notes-shared"
+                    checked={consultationNotesShared}
+                    onCheckedChange={setConsultationNotesShared}
+                  />
+                  <label className="text-sm text-muted-foreground" htmlFor="consultation-notes-shared">
+                    Mostrar estas notas en el portal del paciente
+                  </label>
+                </div>
+              )}
             </div>
             <div>
               <label className="text-sm font-medium" htmlFor="consultation-activity">Actividad/Entrenamiento</label>
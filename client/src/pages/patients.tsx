@@ -6,7 +6,7 @@ import { ExcelImportExport } from "@/components/excel-import-export";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Plus, Search, LayoutGrid, Table2 } from "lucide-react";
+import { Plus, Search, LayoutGrid, Table2, Copy } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
@@ -26,12 +26,13 @@ import {
 } from "@/components/ui/dialog";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import type { Patient, PatientGroup, GroupMembership, MeasurementCalculation } from "@shared/schema";
+import type { Patient, PatientAllergen, PatientGroup, GroupMembership, MeasurementCalculation } from "@shared/schema";
 import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Users, Calendar } from "lucide-react";
 import { GroupMultiSelect } from "@/components/group-multi-select";
+import { AllergenEditor, getCompleteAllergens } from "@/components/allergen-editor";
 import {
   getObjectiveBadgeClasses,
   getObjectiveLabel,
@@ -86,8 +87,7 @@ export default function Patients() {
     exerciseSchedule: "",
     isVegetarian: false,
     isVegan: false,
-    foodAllergies: "",
-    foodDislikes: "",
+    allergens: [] as PatientAllergen[],
     medicalConditions: "",
     medications: "",
     groupIds: [] as string[],
@@ -225,8 +225,7 @@ export default function Patients() {
         exerciseSchedule: patientData.exerciseSchedule || null,
         isVegetarian: patientData.isVegetarian,
         isVegan: patientData.isVegan,
-        foodAllergies: patientData.foodAllergies || null,
-        foodDislikes: patientData.foodDislikes || null,
+        allergens: getCompleteAllergens(patientData.allergens),
         medicalConditions: patientData.medicalConditions || null,
         medications: patientData.medications || null,
       };
@@ -265,8 +264,7 @@ export default function Patients() {
         exerciseSchedule: "",
         isVegetarian: false,
         isVegan: false,
-        foodAllergies: "",
-        foodDislikes: "",
+        allergens: [],
         medicalConditions: "",
         medications: "",
         groupIds: [],
@@ -314,6 +312,12 @@ export default function Patients() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" asChild data-testid="button-patient-duplicates">
+            <Link to="/pacientes/duplicados">
+              <Copy className="h-4 w-4 mr-2" />
+              Duplicados
+            </Link>
+          </Button>
           <ExcelImportExport patients={patients} />
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
@@ -517,23 +521,11 @@ export default function Patients() {
                 </Label>
               </div>
               <div className="col-span-2 space-y-2">
-                <Label htmlFor="foodAllergies">Alergias Alimentarias</Label>
-                <Textarea
-                  id="foodAllergies"
-                  placeholder="Ej: Maní, mariscos, lácteos..."
-                  value={newPatient.foodAllergies}
-                  onChange={(e) => setNewPatient({ ...newPatient, foodAllergies: e.target.value })}
-                  className="min-h-16"
-                />
-              </div>
-              <div className="col-span-2 space-y-2">
-                <Label htmlFor="foodDislikes">Alimentos que No Consume</Label>
-                <Textarea
-                  id="foodDislikes"
-                  placeholder="Alimentos que no le gustan o prefiere evitar..."
-                  value={newPatient.foodDislikes}
-                  onChange={(e) => setNewPatient({ ...newPatient, foodDislikes: e.target.value })}
-                  className="min-h-16"
+                <Label>Alergias, intolerancias y preferencias</Label>
+                <AllergenEditor
+                  value={newPatient.allergens}
+                  onChange={(value) => setNewPatient({ ...newPatient, allergens: value })}
+                  testIdPrefix="new-patient-allergen"
                 />
               </div>
 
@@ -7,9 +7,47 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { RecalculationCard } from "@/components/recalculation-card";
+import { ProtocolProfilesCard } from "@/components/protocol-profiles-card";
+import { AccountPasswordCard, UserAccountsCard } from "@/components/user-accounts-card";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  MealDistributionEditor,
+  fromMealDistributionPercent,
+  getMealDistributionTotal,
+  toMealDistributionPercent,
+} from "@/components/meal-distribution-editor";
+import {
+  BODY_FAT_EQUATIONS,
+  DENSITY_CONVERSIONS,
+  SKINFOLD_SITE_LABELS,
+  type BodyFatEquationId,
+} from "@shared/body-fat-equations";
+import { BMR_EQUATIONS, ENERGY_MODELS, type BmrEquationId } from "@shared/energy-equations";
+import { DEFAULT_MEAL_DISTRIBUTION } from "@shared/macro-periodization";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  MAX_TRASH_RETENTION_DAYS,
+  MIN_TRASH_RETENTION_DAYS,
+} from "@shared/trash";
+import type { MealDistribution } from "@shared/schema";
+
+const bodyFatEquationIds = Object.keys(BODY_FAT_EQUATIONS) as [BodyFatEquationId, ...BodyFatEquationId[]];
+const bmrEquationIds = Object.keys(BMR_EQUATIONS) as [BmrEquationId, ...BmrEquationId[]];
+
+// Describe los pliegues que necesita cada ecuación (por sexo cuando difieren)
+function describeRequiredSites(id: BodyFatEquationId): string {
+  const equation = BODY_FAT_EQUATIONS[id];
+  const male = equation.requiredSites("M");
+  const female = equation.requiredSites("F");
+  const format = (sites: typeof male) => sites.map((site) => SKINFOLD_SITE_LABELS[site]).join(", ");
+  if (format(male) === format(female)) return format(male);
+  return `Varones: ${format(male)} · Mujeres: ${format(female)}`;
+}
 
 const settingsSchema = z.object({
   profileName: z.string().optional().nullable(),
@@ -17,13 +55,30 @@ const settingsSchema = z.object({
   proteinMultiplierMaintain: z.coerce.number().min(0.5).max(5),
   proteinMultiplierGain: z.coerce.number().min(0.5).max(5),
   fatPerKg: z.coerce.number().min(0.1).max(5),
+  bodyFatEquation: z.enum(bodyFatEquationIds),
+  densityConversion: z.enum(["siri", "brozek"]),
+  bmrEquation: z.enum(bmrEquationIds),
+  energyModel: z.enum(["multiplier", "factorial"]),
+  mealDistribution: z
+    .object({
+      breakfast: z.number().min(0).max(100),
+      snack1: z.number().min(0).max(100),
+      lunch: z.number().min(0).max(100),
+      snack2: z.number().min(0).max(100),
+      dinner: z.number().min(0).max(100),
+    })
+    .refine((value) => Math.abs(getMealDistributionTotal(value) - 100) <= 1, {
+      message: "La distribución de comidas debe sumar 100%",
+    }),
   whatsappTemplateClassic: z.string().optional().nullable(),
   whatsappTemplateWithDocs: z.string().optional().nullable(),
+  trashRetentionDays: z.coerce.number().int().min(MIN_TRASH_RETENTION_DAYS).max(MAX_TRASH_RETENTION_DAYS),
 });
 
 type SettingsFormValues = z.infer<typeof settingsSchema>;
 
-type SettingsResponse = SettingsFormValues & {
+type SettingsResponse = Omit<SettingsFormValues, "mealDistribution"> & {
+  mealDistribution: MealDistribution;
   id: string;
   createdAt: string;
   updatedAt: string;
@@ -31,6 +86,7 @@ type SettingsResponse = SettingsFormValues & {
 
 export default function SettingsPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const form = useForm<SettingsFormValues>({
     resolver: zodResolver(settingsSchema),
     defaultValues: {
@@ -39,9 +95,15 @@ export default function SettingsPage() {
       proteinMultiplierMaintain: 1.8,
       proteinMultiplierGain: 2,
       fatPerKg: 0.9,
+      bodyFatEquation: "durnin_womersley",
+      densityConversion: "siri",
+      bmrEquation: "katch_mcardle",
+      energyModel: "multiplier",
+      mealDistribution: toMealDistributionPercent(DEFAULT_MEAL_DISTRIBUTION),
       whatsappTemplateClassic: "Hola {{nombre}}! ¿Cómo venís con el plan?",
       whatsappTemplateWithDocs:
         "Hola {{nombre}}! Te adjunto tu plan y el informe actualizados. Cualquier cosa escribime ❤️",
+      trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
     },
   });
 
@@ -62,21 +124,30 @@ export default function SettingsPage() {
         proteinMultiplierMaintain: data.proteinMultiplierMaintain,
         proteinMultiplierGain: data.proteinMultiplierGain,
         fatPerKg: data.fatPerKg,
+        bodyFatEquation: data.bodyFatEquation,
+        densityConversion: data.densityConversion,
+        bmrEquation: data.bmrEquation,
+        energyModel: data.energyModel,
+        mealDistribution: toMealDistributionPercent(data.mealDistribution),
         whatsappTemplateClassic: data.whatsappTemplateClassic ?? "",
         whatsappTemplateWithDocs: data.whatsappTemplateWithDocs ?? "",
+        trashRetentionDays: data.trashRetentionDays,
       });
     }
   }, [data, form]);
 
   const updateSettingsMutation = useMutation({
     mutationFn: async (values: SettingsFormValues) => {
-      await apiRequest("PUT", "/api/settings", values);
+      await apiRequest("PUT", "/api/settings", {
+        ...values,
+        mealDistribution: fromMealDistributionPercent(values.mealDistribution),
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
       toast({
         title: "Configuración actualizada",
-        description: "Usaremos estos valores en los cálculos y envíos automáticos.",
+        description: "Usaremos estos valores en los cálculos nuevos. Recalculá las mediciones para actualizar el historial.",
       });
     },
     onError: () => {
@@ -182,6 +253,129 @@ export default function SettingsPage() {
                 />
               </div>
 
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="bodyFatEquation"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ecuación de % grasa por defecto</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-body-fat-equation">
+                            <SelectValue placeholder="Seleccionar ecuación" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {bodyFatEquationIds.map((id) => (
+                            <SelectItem key={id} value={id}>
+                              {BODY_FAT_EQUATIONS[id].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Pliegues: {describeRequiredSites(field.value)}. Si faltan datos se usa Durnin & Womersley.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="densityConversion"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Conversión densidad → % grasa</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-density-conversion">
+                            <SelectValue placeholder="Seleccionar fórmula" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="siri">{DENSITY_CONVERSIONS.siri.label}</SelectItem>
+                          <SelectItem value="brozek">{DENSITY_CONVERSIONS.brozek.label}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Se aplica a las ecuaciones que estiman densidad corporal.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="bmrEquation"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ecuación de metabolismo basal</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-bmr-equation">
+                            <SelectValue placeholder="Seleccionar ecuación" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {bmrEquationIds.map((id) => (
+                            <SelectItem key={id} value={id}>
+                              {BMR_EQUATIONS[id].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        {BMR_EQUATIONS[field.value].formula}. Si no es aplicable se usa Mifflin-St Jeor.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="energyModel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gasto energético total</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-energy-model">
+                            <SelectValue placeholder="Seleccionar modelo" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="multiplier">{ENERGY_MODELS.multiplier.label}</SelectItem>
+                          <SelectItem value="factorial">{ENERGY_MODELS.factorial.label}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        {ENERGY_MODELS[field.value].description}. Los pacientes sin sesiones cargadas usan el factor de actividad.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="mealDistribution"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Distribución de comidas</FormLabel>
+                    <MealDistributionEditor value={field.value} onChange={field.onChange} />
+                    <FormDescription>
+                      Reparto de calorías y macros de cada día entre las comidas. Cada paciente puede tener la suya.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <div className="grid gap-4 md:grid-cols-2">
                 <FormField
                   control={form.control}
@@ -221,6 +415,31 @@ export default function SettingsPage() {
                 />
               </div>
 
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="trashRetentionDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Retención de la papelera (días)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="1"
+                          min={MIN_TRASH_RETENTION_DAYS}
+                          max={MAX_TRASH_RETENTION_DAYS}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Pasado este plazo, lo eliminado se borra definitivamente y ya no se puede restaurar.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               <div className="flex justify-end gap-2">
                 <Button
                   type="button"
@@ -231,8 +450,11 @@ export default function SettingsPage() {
                     proteinMultiplierMaintain: data.proteinMultiplierMaintain,
                     proteinMultiplierGain: data.proteinMultiplierGain,
                     fatPerKg: data.fatPerKg,
+                    bodyFatEquation: data.bodyFatEquation,
+                    densityConversion: data.densityConversion,
                     whatsappTemplateClassic: data.whatsappTemplateClassic ?? "",
                     whatsappTemplateWithDocs: data.whatsappTemplateWithDocs ?? "",
+                    trashRetentionDays: data.trashRetentionDays,
                   })}
                   disabled={updateSettingsMutation.isPending || isLoading}
                 >
@@ -246,6 +468,14 @@ export default function SettingsPage() {
           </Form>
         </CardContent>
       </Card>
+
+      <ProtocolProfilesCard />
+
+      <RecalculationCard />
+
+      {can("manageUsers") && <UserAccountsCard />}
+
+      <AccountPasswordCard />
     </div>
   );
 }
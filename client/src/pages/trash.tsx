@@ -0,0 +1,198 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useConfirmDialog } from "@/hooks/use-confirm-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { TRASH_ENTITY_LABELS, type TrashItem } from "@shared/trash";
+
+// Lo que devuelve la API: las fechas llegan serializadas
+type TrashItemResponse = Omit<TrashItem, "date" | "deletedAt" | "purgeAt"> & {
+  date: string | null;
+  deletedAt: string;
+  purgeAt: string;
+};
+
+// Listados que pueden volver a mostrar un registro restaurado (o dejar de referenciarlo)
+const AFFECTED_QUERY_KEYS = ["/api/trash", "/api/patients", "/api/measurements", "/api/meals", "/api/weekly-plans"];
+
+function invalidateAffectedQueries() {
+  AFFECTED_QUERY_KEYS.forEach((key) => queryClient.invalidateQueries({ queryKey: [key] }));
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString("es-AR") : "—";
+}
+
+function describeItem(item: TrashItemResponse): string {
+  if (item.entityType === "measurement" || item.entityType === "consultation") {
+    return `${item.patientName ?? "Paciente eliminado"} · ${formatDate(item.date)}`;
+  }
+  return item.name ?? "Sin nombre";
+}
+
+export default function TrashPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const confirmDialog = useConfirmDialog();
+
+  const { data: items = [], isLoading } = useQuery<TrashItemResponse[]>({
+    queryKey: ["/api/trash"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashItemResponse) => {
+      return await apiRequest("POST", `/api/trash/${item.entityType}/${item.id}/restore`);
+    },
+    onSuccess: (_data, item) => {
+      invalidateAffectedQueries();
+      toast({
+        title: "Registro restaurado",
+        description: `${TRASH_ENTITY_LABELS[item.entityType]} "${describeItem(item)}" volvió a estar disponible`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo restaurar el registro",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: TrashItemResponse) => {
+      return await apiRequest("DELETE", `/api/trash/${item.entityType}/${item.id}`);
+    },
+    onSuccess: () => {
+      invalidateAffectedQueries();
+      toast({
+        title: "Registro eliminado",
+        description: "Se eliminó definitivamente de la papelera",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo eliminar el registro",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePurge = async (item: TrashItemResponse) => {
+    const confirmed = await confirmDialog.confirm({
+      title: "Eliminar definitivamente",
+      description:
+        item.entityType === "patient"
+          ? `¿Eliminar definitivamente a "${describeItem(item)}"? Se borrarán también sus mediciones, consultas y planes. Esta acción no se puede deshacer.`
+          : `¿Eliminar definitivamente "${describeItem(item)}"? Esta acción no se puede deshacer.`,
+      confirmLabel: "Eliminar",
+      cancelLabel: "Cancelar",
+    });
+    if (confirmed) {
+      purgeMutation.mutate(item);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold" data-testid="text-trash-title">
+          Papelera
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Pacientes, mediciones, consultas, comidas y planes eliminados. Se pueden restaurar hasta la fecha de purga.
+        </p>
+      </div>
+
+      {items.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">La papelera está vacía.</CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Registro</TableHead>
+                  <TableHead>Eliminado</TableHead>
+                  <TableHead>Se purga</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={`${item.entityType}-${item.id}`} data-testid={`row-trash-${item.id}`}>
+                    <TableCell>
+                      <Badge variant="secondary">{TRASH_ENTITY_LABELS[item.entityType]}</Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">{describeItem(item)}</TableCell>
+                    <TableCell>{formatDate(item.deletedAt)}</TableCell>
+                    <TableCell className="text-muted-foreground">{formatDate(item.purgeAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {can("write") && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Restaurar"
+                            onClick={() => restoreMutation.mutate(item)}
+                            disabled={restoreMutation.isPending}
+                            data-testid={`button-restore-${item.id}`}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can("delete") && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Eliminar definitivamente"
+                            onClick={() => handlePurge(item)}
+                            disabled={purgeMutation.isPending}
+                            data-testid={`button-purge-${item.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <ConfirmDialog
+        open={confirmDialog.isOpen}
+        onOpenChange={(open) => !open && confirmDialog.handleCancel()}
+        title={confirmDialog.options.title}
+        description={confirmDialog.options.description}
+        confirmLabel={confirmDialog.options.confirmLabel}
+        cancelLabel={confirmDialog.options.cancelLabel}
+        onConfirm={confirmDialog.handleConfirm}
+        onCancel={confirmDialog.handleCancel}
+      />
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Textarea } from "@/components/ui/textarea";
-import { Search, GripVertical, X, Clock, Plus, Save, ArrowLeft, Edit, Copy, Users, User, Calendar, FileText, Settings2, ArrowUp, ArrowDown } from "lucide-react";
+import { Search, GripVertical, X, Clock, Plus, Save, ArrowLeft, Edit, Copy, Users, User, Calendar, FileText, Settings2, ArrowUp, ArrowDown, AlertTriangle } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -28,6 +28,9 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { Checkbox } from "@/components/ui/checkbox";
+import { findWorkoutLink, resolveTrainingSessions } from "@shared/training-schedule";
+import { describeAllergenConflict, type AllergenConflict } from "@shared/allergens";
+import { DAY_TYPES, getDayType, type DayTypeTargets, type MealSlot } from "@shared/macro-periodization";
 
 const DAYS_OF_WEEK = ["Lunes", "Martes", "Miércoles", "Jueves", "Viernes", "Sábado", "Domingo"];
 const MEAL_TIMES = [
@@ -94,6 +97,16 @@ type SlotEditorFormState = {
   linkedToExercise: boolean;
 };
 
+type PlanAllergenConflict = {
+  patientId: string;
+  patientName: string;
+  planMealId: string;
+  dayOfWeek: number;
+  mealSlot: string;
+  mealName: string;
+  conflicts: AllergenConflict[];
+};
+
 const UNITS = ["porción", "u", "g", "ml", "taza", "cda"] as const;
 
 interface PlannedActivity {
@@ -316,6 +329,15 @@ export default function WeeklyDietPlanner() {
   const [assignmentEndDate, setAssignmentEndDate] = useState("");
   const [assignmentNotes, setAssignmentNotes] = useState("");
 
+  const assignmentTarget =
+    assignmentType === "group"
+      ? selectedGroupId && `groupId=${selectedGroupId}`
+      : selectedPatientId && `patientId=${selectedPatientId}`;
+  const { data: assignmentConflicts = [], isFetching: isCheckingConflicts } = useQuery<PlanAllergenConflict[]>({
+    queryKey: [`/api/weekly-plans/${assigningPlanId}/allergen-conflicts?${assignmentTarget}`],
+    enabled: isAssignDialogOpen && !!assigningPlanId && !!assignmentTarget,
+  });
+
   // Fetch templates (isTemplate=true)
   const { data: templates = [], isLoading: templatesLoading } = useQuery<WeeklyDietPlan[]>({
     queryKey: ["/api/weekly-plans", { isTemplate: true }],
@@ -348,6 +370,33 @@ export default function WeeklyDietPlanner() {
     },
   });
 
+  const trainingSessions = useMemo(
+    () => resolveTrainingSessions(planPatientProfile?.patient),
+    [planPatientProfile],
+  );
+
+  const competitionWeekdays = useMemo(
+    () => (planPatientProfile?.patient.competitionWeekdays as number[] | null) ?? [],
+    [planPatientProfile],
+  );
+
+  const dayTypeTargets = useMemo(() => {
+    let raw = planPatientProfile?.latestMeasurementCalculations?.dayTypeTargets as unknown;
+    if (typeof raw === "string") {
+      try {
+        raw = JSON.parse(raw);
+      } catch {
+        raw = null;
+      }
+    }
+    return (raw as DayTypeTargets | null) ?? null;
+  }, [planPatientProfile]);
+
+  const getDayTypeFor = useCallback(
+    (day: string) => getDayType(DAYS_OF_WEEK.indexOf(day) + 1, trainingSessions, competitionWeekdays),
+    [trainingSessions, competitionWeekdays],
+  );
+
   const { data: templatesData = [] } = useQuery<DietTemplate[]>({
     queryKey: ["/api/diet-templates"],
     queryFn: async () => {
@@ -970,7 +1019,7 @@ function areActivitiesEqual(a?: ActivitiesBySlot, b?: ActivitiesBySlot): boolean
       meal: draggedMeal,
       time: defaultTime,
       note: JSON.stringify({ quantity: "", unit: UNITS[0], note: "" }),
-      linkedToExercise: false,
+      linkedToExercise: findWorkoutLink(trainingSessions, DAYS_OF_WEEK.indexOf(baseDay) + 1, defaultTime) !== null,
     };
 
     applyPlanUpdate(baseDay, (dayPlan) => {
@@ -1183,10 +1232,20 @@ function areActivitiesEqual(a?: ActivitiesBySlot, b?: ActivitiesBySlot): boolean
   }
 
   function handleOpenAddMeal(day: string, slot: WeeklyPlanSlot, defaultTime: string) {
-    const guideline = mealGuidelines[slot];
+    const guideline = getSlotGuideline(day, slot);
     const recommendedNote = formatGuidelineNote(guideline);
+    const workoutLink = findWorkoutLink(trainingSessions, DAYS_OF_WEEK.indexOf(day) + 1, defaultTime);
+    const workoutNote = workoutLink
+      ? `${workoutLink.type === "pre" ? "Pre-entreno" : "Post-entreno"} (${workoutLink.session.sport} ${workoutLink.session.startTime})`
+      : "";
     setSlotEditor({ day, slot, defaultTime, mode: "add" });
-    setSlotEditorForm({ mealId: "", quantity: "", unit: UNITS[0], note: recommendedNote, linkedToExercise: false });
+    setSlotEditorForm({
+      mealId: "",
+      quantity: "",
+      unit: UNITS[0],
+      note: [workoutNote, recommendedNote].filter(Boolean).join(" · "),
+      linkedToExercise: workoutLink !== null,
+    });
     setSlotEditorSearch("");
     setSlotEditorTime(defaultTime);
   }
@@ -1306,9 +1365,66 @@ function areActivitiesEqual(a?: ActivitiesBySlot, b?: ActivitiesBySlot): boolean
     });
   }
 
+  // Con objetivos por tipo de día, cada día usa el reparto de su tipo (entreno, descanso o competencia)
+  function getSlotGuideline(day: string, slot: WeeklyPlanSlot): MealGuideline | undefined {
+    return dayTypeTargets?.[getDayTypeFor(day)]?.perMealPlan[slot as MealSlot] ?? mealGuidelines[slot];
+  }
+
+  function getDayTotals(day: string): MealGuideline {
+    const totals = { calories: 0, protein: 0, carbs: 0, fats: 0 };
+    MEAL_TIMES.forEach((mealTime) => {
+      weeklyPlan[day][mealTime.id].forEach(({ meal }) => {
+        totals.calories += meal.calories ?? 0;
+        totals.protein += parseFloat(meal.protein ?? "0") || 0;
+        totals.carbs += parseFloat(meal.carbs ?? "0") || 0;
+        totals.fats += parseFloat(meal.fats ?? "0") || 0;
+      });
+    });
+    return {
+      calories: Math.round(totals.calories),
+      protein: Math.round(totals.protein),
+      carbs: Math.round(totals.carbs),
+      fats: Math.round(totals.fats),
+    };
+  }
+
+  function renderDayComparison(day: string) {
+    const target = dayTypeTargets?.[getDayTypeFor(day)];
+    if (!target) return null;
+    const totals = getDayTotals(day);
+    const rows: { key: keyof MealGuideline; label: string; unit: string }[] = [
+      { key: "calories", label: "Energía", unit: "kcal" },
+      { key: "protein", label: "Proteínas", unit: "g" },
+      { key: "carbs", label: "Hidratos", unit: "g" },
+      { key: "fats", label: "Grasas", unit: "g" },
+    ];
+    return (
+      <div className="rounded-md border border-primary/10 bg-white/70 px-3 py-2 text-[11px] text-slate-800 shadow-sm">
+        <p className="mb-1 text-[10px] uppercase tracking-[0.18em] text-slate-500">
+          {DAY_TYPES[target.dayType].label} · {target.carbsPerKg} g/kg HC
+        </p>
+        {rows.map((row) => {
+          const goal = target[row.key];
+          const actual = totals[row.key] ?? 0;
+          const deviation = goal ? (actual - goal) / goal : null;
+          const tone =
+            deviation === null ? "" : Math.abs(deviation) <= 0.1 ? "text-emerald-700" : deviation < 0 ? "text-amber-700" : "text-red-700";
+          return (
+            <div key={row.key} className="flex justify-between gap-2">
+              <span className="text-slate-500">{row.label}</span>
+              <span className={`font-medium ${tone}`}>
+                {actual} / {goal !== null ? Math.round(goal) : "—"} {row.unit}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
   function renderSlot(day: string, slot: WeeklyPlanSlot, defaultTime: string) {
     const slotTime = weeklyPlan[day][slot].length > 0 ? weeklyPlan[day][slot][0].time : defaultTime;
-    const guideline = mealGuidelines[slot];
+    const guideline = getSlotGuideline(day, slot);
     return (
       <div
         onDragOver={handleDragOver}
@@ -1652,6 +1768,31 @@ function areActivitiesEqual(a?: ActivitiesBySlot, b?: ActivitiesBySlot): boolean
                 </div>
               </div>
 
+              {assignmentTarget && !isCheckingConflicts && assignmentConflicts.length > 0 && (
+                <div
+                  className="space-y-1 rounded-md border border-destructive/50 bg-destructive/5 p-3 text-sm"
+                  data-testid="list-assignment-allergen-conflicts"
+                >
+                  <p className="flex items-center gap-2 font-medium text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    Conflictos con alergias o preferencias
+                  </p>
+                  <ul className="max-h-40 space-y-1 overflow-y-auto text-muted-foreground">
+                    {assignmentConflicts.map((conflict) => (
+                      <li key={`${conflict.patientId}-${conflict.planMealId}`}>
+                        {assignmentType === "group" && <span className="font-medium">{conflict.patientName}: </span>}
+                        {DAYS_OF_WEEK[conflict.dayOfWeek - 1]},{" "}
+                        {(MEAL_TIMES.find((slot) => slot.id === conflict.mealSlot)?.label ?? conflict.mealSlot).toLowerCase()} ·{" "}
+                        {conflict.mealName} — {conflict.conflicts.map(describeAllergenConflict).join(", ")}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-muted-foreground">
+                    Podés asignarlo igual, pero conviene reemplazar esas comidas.
+                  </p>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="assignment-notes">Notas de Asignación</Label>
                 <Textarea
@@ -1668,7 +1809,7 @@ function areActivitiesEqual(a?: ActivitiesBySlot, b?: ActivitiesBySlot): boolean
                 Cancelar
               </Button>
               <Button onClick={handleAssign} data-testid="button-confirm-assign">
-                Asignar Plan
+                {assignmentConflicts.length > 0 ? "Asignar igual" : "Asignar Plan"}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -2022,6 +2163,23 @@ function areActivitiesEqual(a?: ActivitiesBySlot, b?: ActivitiesBySlot): boolean
                         className="rounded-lg bg-primary/15 px-4 py-3 text-center text-xs font-semibold uppercase tracking-[0.22em] text-primary-800"
                       >
                         {group.label}
+                        {dayTypeTargets && (
+                          <span className="mt-1 block">
+                            <Badge variant="outline" className="text-[10px] font-semibold normal-case tracking-normal">
+                              {DAY_TYPES[getDayTypeFor(group.base)].label}
+                            </Badge>
+                          </span>
+                        )}
+                        {trainingSessions
+                          .filter((session) => group.days.includes(DAYS_OF_WEEK[session.weekday - 1]))
+                          .map((session, sessionIndex) => (
+                            <span
+                              key={`${session.weekday}-${sessionIndex}`}
+                              className="mt-1 block text-[10px] font-normal normal-case tracking-normal text-muted-foreground"
+                            >
+                              {session.startTime ?? "s/h"} · {session.sport} · {session.durationMinutes} min
+                            </span>
+                          ))}
                       </th>
                     ))}
                   </tr>
@@ -2054,6 +2212,20 @@ function areActivitiesEqual(a?: ActivitiesBySlot, b?: ActivitiesBySlot): boolean
                     </Fragment>
                   ))}
                 </tbody>
+                {dayTypeTargets && (
+                  <tfoot>
+                    <tr>
+                      <th className="align-top rounded-lg bg-white/70 px-4 py-3 text-left text-sm font-semibold text-primary shadow-sm">
+                        Total del día vs objetivo
+                      </th>
+                      {dayGroups.map((group) => (
+                        <td key={`${group.base}-totals`} className="align-top px-2">
+                          {renderDayComparison(group.base)}
+                        </td>
+                      ))}
+                    </tr>
+                  </tfoot>
+                )}
               </table>
             </div>
           </CardContent>
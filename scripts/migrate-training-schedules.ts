@@ -0,0 +1,51 @@
+import { db } from "../server/db";
+import { patients } from "../shared/schema";
+import { eq } from "drizzle-orm";
+import { parseLegacyTrainingSchedule } from "../shared/training-schedule";
+
+/**
+ * Convierte los textos libres de actividad (exerciseDays/exerciseSchedule/sportType)
+ * de los pacientes existentes en la agenda estructurada trainingSessions.
+ * No toca a los pacientes que ya tienen sesiones cargadas. Con --dry-run sólo informa.
+ */
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const rows = await db.select().from(patients);
+
+  let migrated = 0;
+  let unparsed = 0;
+
+  for (const patient of rows) {
+    const existing = Array.isArray(patient.trainingSessions) ? patient.trainingSessions : [];
+    if (existing.length > 0 || !patient.exerciseDays?.trim()) continue;
+
+    const sessions = parseLegacyTrainingSchedule(patient);
+    if (sessions.length === 0) {
+      unparsed++;
+      console.log(`⚠ ${patient.name}: no se reconocieron días en "${patient.exerciseDays}".`);
+      continue;
+    }
+
+    if (!dryRun) {
+      await db
+        .update(patients)
+        .set({ trainingSessions: sessions, updatedAt: new Date() })
+        .where(eq(patients.id, patient.id));
+    }
+    migrated++;
+    console.log(
+      `✓ ${patient.name}: "${patient.exerciseDays}"${patient.exerciseSchedule ? ` / "${patient.exerciseSchedule}"` : ""} → ${sessions.length} sesión(es).`,
+    );
+  }
+
+  console.log(
+    `\n${dryRun ? "Simulación: " : ""}${migrated} paciente(s) convertidos, ${unparsed} sin convertir (revisar a mano).\n`,
+  );
+  console.log("Recalculá las mediciones desde Configuración para aplicar la nueva agenda a los cálculos.");
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Error migrando agendas de entrenamiento:", error);
+  process.exit(1);
+});
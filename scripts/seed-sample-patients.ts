@@ -10,6 +10,7 @@ import {
 } from "../shared/schema";
 import { and, eq } from "drizzle-orm";
 import { calculateAll } from "../server/services/measurement-calculations";
+import { parseLegacyTrainingSchedule, resolveTrainingSessions } from "../shared/training-schedule";
 
 interface SamplePatient {
   name: string;
@@ -369,6 +370,7 @@ async function createMeasurementEntries(patient: Patient, template: MeasurementT
         exerciseDays: patient.exerciseDays,
         exerciseSchedule: patient.exerciseSchedule,
         sportType: patient.sportType,
+        trainingSessions: resolveTrainingSessions(patient),
       },
     },
   );
@@ -436,6 +438,7 @@ async function main() {
         exerciseDays: sample.exerciseDays ?? null,
         exerciseSchedule: sample.exerciseSchedule ?? null,
         exercisesRegularly: Boolean(sample.exerciseDays),
+        trainingSessions: parseLegacyTrainingSchedule(sample),
       })
       .returning();
 
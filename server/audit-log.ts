@@ -0,0 +1,144 @@
+/**
+ * Historial de cambios: envuelve IStorage para que cada alta, edición o baja
+ * de un registro clínico deje una entrada con el diff campo a campo y quién
+ * hizo el cambio (tomado de la request en curso vía AsyncLocalStorage).
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { RequestHandler } from "express";
+import type { IStorage, PatientMergeInput, PatientMergeResult } from "./storage";
+import {
+  AUDITED_ENTITY_TYPES,
+  diffRecords,
+  isAuditedEntityType,
+  type AuditAction,
+  type AuditedEntityType,
+  type AuditFieldChange,
+} from "@shared/audit-log";
+
+interface AuditActor {
+  userId: string | null;
+  userName: string | null;
+}
+
+const actorContext = new AsyncLocalStorage<AuditActor>();
+
+/** Deja disponible el usuario de la sesión para las escrituras de esta request. */
+export const bindAuditActor: RequestHandler = (req, _res, next) => {
+  actorContext.run(
+    { userId: req.user?.id ?? null, userName: req.user?.displayName ?? null },
+    next,
+  );
+};
+
+type AuditedMethod = {
+  entityType: AuditedEntityType;
+  action: AuditAction;
+  getter: string;
+};
+
+type StoredRecord = Record<string, unknown> & { id: string };
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// create/update/delete<Entidad> con su get<Entidad>(id) para leer la versión previa
+const AUDITED_METHODS = new Map<string, AuditedMethod>(
+  AUDITED_ENTITY_TYPES.flatMap((entityType) => {
+    const name = capitalize(entityType);
+    const getter = `get${name}`;
+    return (["create", "update", "delete"] as const).map(
+      (action) => [`${action}${name}`, { entityType, action, getter }] as const,
+    );
+  }),
+);
+
+function resolvePatientId(entityType: AuditedEntityType, record: StoredRecord): string | null {
+  if (entityType === "patient") return record.id;
+  return typeof record.patientId === "string" ? record.patientId : null;
+}
+
+async function recordEntry(
+  target: IStorage,
+  entityType: AuditedEntityType,
+  action: AuditAction,
+  record: StoredRecord,
+  changes: AuditFieldChange[],
+) {
+  const actor = actorContext.getStore();
+  try {
+    await target.createAuditLogEntry({
+      entityType,
+      entityId: record.id,
+      patientId: resolvePatientId(entityType, record),
+      action,
+      changes,
+      userId: actor?.userId ?? null,
+      userName: actor?.userName ?? null,
+    });
+  } catch (error) {
+    // El cambio ya quedó guardado; no se revierte por una falla del historial
+    console.error(`[Audit] No se pudo registrar ${action} de ${entityType} ${record.id}:`, error);
+  }
+}
+
+export function withAuditLog(inner: IStorage): IStorage {
+  return new Proxy(inner, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== "function") return value;
+      // Las llamadas internas del storage (p. ej. assignPlanToPatient) no pasan por el proxy
+      const method = value.bind(target) as (...args: unknown[]) => Promise<unknown>;
+      if (property === "restoreFromTrash" || property === "purgeFromTrash") {
+        const action: AuditAction = property === "restoreFromTrash" ? "restore" : "purge";
+        return async (entityType: string, id: string) => {
+          const record = (await method(entityType, id)) as StoredRecord | null;
+          if (record && isAuditedEntityType(entityType)) {
+            const changes = action === "purge" ? diffRecords(record, null) : [];
+            await recordEntry(target, entityType, action, record, changes);
+          }
+          return record;
+        };
+      }
+      if (property === "mergePatients") {
+        // Una entrada en la ficha que sobrevive con los datos que tomó del duplicado
+        return async (input: PatientMergeInput) => {
+          const before = (await target.getPatient(input.survivorId)) as StoredRecord | null;
+          const result = (await method(input)) as PatientMergeResult | null;
+          if (before && result) {
+            const survivor = result.survivor as unknown as StoredRecord;
+            await recordEntry(target, "patient", "merge", survivor, diffRecords(before, survivor));
+          }
+          return result;
+        };
+      }
+
+      const audited = typeof property === "string" ? AUDITED_METHODS.get(property) : undefined;
+      if (!audited) return method;
+
+      const getById = (id: unknown) =>
+        (Reflect.get(target, audited.getter) as (id: unknown) => Promise<StoredRecord | null>).call(target, id);
+
+      return async (...args: unknown[]) => {
+        if (audited.action === "create") {
+          const created = (await method(...args)) as StoredRecord;
+          await recordEntry(target, audited.entityType, "create", created, diffRecords(null, created));
+          return created;
+        }
+
+        const before = await getById(args[0]);
+        const result = await method(...args);
+        if (!before || !result) return result;
+
+        if (audited.action === "update") {
+          const changes = diffRecords(before, result as StoredRecord);
+          if (changes.length > 0) {
+            await recordEntry(target, audited.entityType, "update", result as StoredRecord, changes);
+          }
+        } else {
+          await recordEntry(target, audited.entityType, "delete", before, diffRecords(before, null));
+        }
+        return result;
+      };
+    },
+  });
+}
@@ -0,0 +1,237 @@
+/**
+ * Autenticación por sesión (passport-local) y autorización por rol.
+ * Toda la API queda detrás de authorizeApiRequest salvo el ingreso y la
+ * creación de la primera cuenta; el websocket valida la misma sesión.
+ */
+
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { pool } from "./db";
+import { storage } from "./db-storage";
+import { bindAuditActor } from "./audit-log";
+import type { WebSocketSession } from "./websocket";
+import type { PublicUser, User } from "@shared/schema";
+import {
+  CLINICAL_NOTE_FIELDS,
+  getRequiredPermission,
+  hasPermission,
+  normalizeApiPath,
+  redactClinicalNotes,
+  type Permission,
+  type UserRole,
+} from "@shared/auth";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: string };
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+// Rutas de /api accesibles sin sesión
+const PUBLIC_API_PATHS = ["/api/auth/status", "/api/auth/login", "/api/auth/setup"];
+// El feed .ics lo piden calendarios externos sin cookie y el portal lo abren los pacientes:
+// ambos se autorizan por el token de la URL
+const PUBLIC_API_PREFIXES = ["/api/calendar-feed/", "/api/portal/"];
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, calendarFeedToken: _calendarFeedToken, ...rest } = user;
+  return rest;
+}
+
+function resolveSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("[Auth] SESSION_SECRET no configurado: las sesiones se pierden al reiniciar el servidor");
+  return randomBytes(32).toString("hex");
+}
+
+/** Firma las cookies de sesión y los enlaces al portal de pacientes. */
+export const serverSecret = resolveSessionSecret();
+
+function createSessionStore(): session.Store {
+  if (process.env.USE_MEM_STORAGE === "true") {
+    const MemoryStore = createMemoryStore(session);
+    return new MemoryStore({ checkPeriod: SESSION_MAX_AGE_MS });
+  }
+  const PgStore = connectPgSimple(session);
+  return new PgStore({ pool: pool as any, tableName: "session", createTableIfMissing: true });
+}
+
+const sessionMiddleware = session({
+  secret: serverSecret,
+  store: createSessionStore(),
+  resave: false,
+  saveUninitialized: false,
+  rolling: true,
+  cookie: {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_MAX_AGE_MS,
+  },
+});
+
+// Intentos fallidos por usuario: tras MAX_FAILED_LOGINS se bloquea LOGIN_LOCK_MS
+const MAX_FAILED_LOGINS = 5;
+const LOGIN_LOCK_MS = 15 * 60 * 1000;
+const failedLogins = new Map<string, { count: number; lockedUntil: number | null }>();
+
+export function isLoginLocked(username: string): boolean {
+  const entry = failedLogins.get(username.toLowerCase());
+  if (!entry?.lockedUntil) return false;
+  if (entry.lockedUntil > Date.now()) return true;
+  failedLogins.delete(username.toLowerCase());
+  return false;
+}
+
+export function recordLoginAttempt(username: string, success: boolean) {
+  const key = username.toLowerCase();
+  if (success) {
+    failedLogins.delete(key);
+    return;
+  }
+  const entry = failedLogins.get(key) ?? { count: 0, lockedUntil: null };
+  entry.count += 1;
+  if (entry.count >= MAX_FAILED_LOGINS) {
+    entry.lockedUntil = Date.now() + LOGIN_LOCK_MS;
+    entry.count = 0;
+  }
+  failedLogins.set(key, entry);
+}
+
+passport.use(
+  new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !user.isActive || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      return done(null, toPublicUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }),
+);
+
+passport.serializeUser((user, done) => done(null, user.id));
+
+passport.deserializeUser(async (id: string, done) => {
+  try {
+    const user = await storage.getUser(id);
+    // Una cuenta desactivada pierde las sesiones abiertas en la siguiente request
+    done(null, user && user.isActive ? toPublicUser(user) : false);
+  } catch (error) {
+    done(error);
+  }
+});
+
+/** Sesión y passport; debe montarse antes de los archivos estáticos privados y de la API. */
+export function setupAuth(app: Express) {
+  if (process.env.NODE_ENV === "production") {
+    app.set("trust proxy", 1);
+  }
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(bindAuditActor);
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+};
+
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ error: "Forbidden", permission });
+    }
+    next();
+  };
+}
+
+/**
+ * Protege toda la API: exige sesión, el permiso del rol para el método y la
+ * ruta, y oculta las notas clínicas a los roles que no pueden verlas.
+ */
+export function authorizeApiRequest(req: Request, res: Response, next: NextFunction) {
+  const path = normalizeApiPath(req.baseUrl + req.path);
+  if (PUBLIC_API_PATHS.includes(path) || PUBLIC_API_PREFIXES.some((prefix) => path.startsWith(prefix))) return next();
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  // Salir y cambiar la propia contraseña sólo requieren sesión
+  if (path.startsWith("/api/auth/")) return next();
+
+  const permission = getRequiredPermission(req.method, path);
+  if (!hasPermission(req.user.role, permission)) {
+    return res.status(403).json({ error: "Forbidden", permission });
+  }
+
+  if (!hasPermission(req.user.role, "clinicalNotes")) {
+    // Sin ver las notas tampoco se pueden pisar: se descartan de lo que se envía
+    if (req.body && typeof req.body === "object" && !Array.isArray(req.body)) {
+      CLINICAL_NOTE_FIELDS.forEach((field) => delete req.body[field]);
+    }
+    const originalJson = res.json.bind(res);
+    res.json = (body) => originalJson(redactClinicalNotes(body));
+  }
+  next();
+}
+
+/** Verifica la sesión de una conexión entrante (upgrade del websocket); null si no hay sesión válida. */
+export function authenticateUpgrade(req: IncomingMessage): Promise<WebSocketSession | null> {
+  return new Promise((resolve) => {
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      try {
+        const userId = (req as Request).session?.passport?.user;
+        const user = userId ? await storage.getUser(userId) : null;
+        resolve(
+          user?.isActive
+            ? { userId: user.id, sessionId: (req as Request).sessionID, role: user.role as UserRole }
+            : null,
+        );
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
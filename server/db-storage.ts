@@ -1,4 +1,4 @@
-import { eq, and, desc, sql, inArray } from "drizzle-orm";
+import { eq, and, or, desc, sql, inArray, isNull, isNotNull, notInArray, gte, lt, type SQL } from "drizzle-orm";
 import { db } from "./db";
 import {
   patients,
@@ -10,6 +10,7 @@ import {
   dietAssignments,
   reports,
   biochemicalResults,
+  biaMeasurements,
   dietTemplates,
   dietGenerations,
   dietMealPlans,
@@ -38,6 +39,8 @@ import {
   type InsertReport,
   type BiochemicalResult,
   type InsertBiochemicalResult,
+  type BiaMeasurement,
+  type InsertBiaMeasurement,
   type DietTemplate,
   type InsertDietTemplate,
   type DietGeneration,
@@ -61,18 +64,63 @@ import {
   consultations,
   type Consultation,
   type InsertConsultation,
+  appointments,
+  type Appointment,
+  type InsertAppointment,
+  followUpContacts,
+  type FollowUpContact,
+  type InsertFollowUpContact,
+  patientShareLinks,
+  type PatientShareLink,
+  type InsertPatientShareLink,
+  evaluators,
+  evaluatorTemStudies,
+  type Evaluator,
+  type InsertEvaluator,
+  type EvaluatorTemStudy,
+  type InsertEvaluatorTemStudy,
   nutritionistSettings,
   type NutritionistSettingsRow,
+  type CustomProtocol,
   type InsertNutritionistSettings,
+  users,
+  type User,
+  type InsertUser,
+  auditLog,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  patientMerges,
+  type PatientMerge,
 } from "@shared/schema";
 import type {
+  AppointmentFilters,
+  AppointmentWithPatient,
+  AuditLogFilters,
   ConsultationSummary,
   IStorage,
+  TrashRecord,
   NutritionistSettings,
   NutritionistSettingsUpdate,
   PatientProfile,
+  PatientMergeInput,
+  PatientMergeResult,
 } from "./storage";
 import { VersionConflictError } from "./storage";
+import type { EvaluatorTEM } from "@shared/isak-calculations";
+import {
+  DEFAULT_BODY_FAT_EQUATION,
+  DEFAULT_DENSITY_CONVERSION,
+  isBodyFatEquationId,
+} from "@shared/body-fat-equations";
+import {
+  DEFAULT_BMR_EQUATION,
+  DEFAULT_ENERGY_MODEL,
+  isBmrEquationId,
+  isEnergyModel,
+} from "@shared/energy-equations";
+import { DEFAULT_MEAL_DISTRIBUTION, resolveMealDistribution } from "@shared/macro-periodization";
+import { DEFAULT_PROTOCOL_ID } from "@shared/measurement-protocols";
+import { DEFAULT_TRASH_RETENTION_DAYS, toTrashItem, type TrashEntityType, type TrashItem } from "@shared/trash";
 
 export class DbStorage implements IStorage {
   private async normalizeSettings(row: NutritionistSettingsRow): Promise<NutritionistSettings> {
@@ -83,20 +131,65 @@ export class DbStorage implements IStorage {
       proteinMultiplierMaintain: Number(row.proteinMultiplierMaintain ?? 1.8),
       proteinMultiplierGain: Number(row.proteinMultiplierGain ?? 2),
       fatPerKg: Number(row.fatPerKg ?? 0.9),
+      bodyFatEquation: isBodyFatEquationId(row.bodyFatEquation) ? row.bodyFatEquation : DEFAULT_BODY_FAT_EQUATION,
+      densityConversion: row.densityConversion === "brozek" ? "brozek" : DEFAULT_DENSITY_CONVERSION,
+      bmrEquation: isBmrEquationId(row.bmrEquation) ? row.bmrEquation : DEFAULT_BMR_EQUATION,
+      energyModel: isEnergyModel(row.energyModel) ? row.energyModel : DEFAULT_ENERGY_MODEL,
+      mealDistribution: resolveMealDistribution(null, row.mealDistribution).distribution,
+      defaultProtocolId: row.defaultProtocolId ?? DEFAULT_PROTOCOL_ID,
+      customProtocols: (row.customProtocols as CustomProtocol[] | null) ?? [],
       whatsappTemplateClassic: row.whatsappTemplateClassic,
       whatsappTemplateWithDocs: row.whatsappTemplateWithDocs,
+      trashRetentionDays: row.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     };
   }
 
+  // Pacientes en la papelera: sus mediciones y membresías quedan ocultas con ellos
+  private trashedPatientIds() {
+    return db.select({ id: patients.id }).from(patients).where(isNotNull(patients.deletedAt));
+  }
+
+  private trashedMeasurementIds() {
+    return db.select({ id: measurements.id }).from(measurements).where(isNotNull(measurements.deletedAt));
+  }
+
+  private trashedWeeklyPlanIds() {
+    return db.select({ id: weeklyDietPlans.id }).from(weeklyDietPlans).where(isNotNull(weeklyDietPlans.deletedAt));
+  }
+
+  // Los informes se ocultan con su paciente o con su medición
+  private visibleReports(): SQL {
+    return and(
+      notInArray(reports.patientId, this.trashedPatientIds()),
+      notInArray(reports.measurementId, this.trashedMeasurementIds()),
+    )!;
+  }
+
+  private visibleDietAssignments(): SQL {
+    return notInArray(dietAssignments.patientId, this.trashedPatientIds());
+  }
+
+  // Las asignaciones a grupos no tienen paciente: sólo cuenta el plan
+  private visibleWeeklyPlanAssignments(): SQL {
+    return and(
+      notInArray(weeklyPlanAssignments.planId, this.trashedWeeklyPlanIds()),
+      or(isNull(weeklyPlanAssignments.patientId), notInArray(weeklyPlanAssignments.patientId, this.trashedPatientIds())),
+    )!;
+  }
+
   // Patients
   async getPatients(): Promise<Patient[]> {
-    return await db.select().from(patients).orderBy(patients.name);
+    return await db.select().from(patients).where(isNull(patients.deletedAt)).orderBy(patients.name);
   }
 
   async getPatient(id: string): Promise<Patient | null> {
-    const result = await db.select().from(patients).where(eq(patients.id, id)).limit(1);
+    const result = await db
+      .select()
+      .from(patients)
+      .where(and(eq(patients.id, id), isNull(patients.deletedAt)))
+      .limit(1);
     return result[0] || null;
   }
 
@@ -151,8 +244,8 @@ export class DbStorage implements IStorage {
 
   async updatePatient(id: string, data: Partial<InsertPatient>, expectedVersion?: number): Promise<Patient | null> {
     const whereConditions = expectedVersion !== undefined
-      ? and(eq(patients.id, id), eq(patients.version, expectedVersion))
-      : eq(patients.id, id);
+      ? and(eq(patients.id, id), eq(patients.version, expectedVersion), isNull(patients.deletedAt))
+      : and(eq(patients.id, id), isNull(patients.deletedAt));
 
     const result = await db
       .update(patients)
@@ -165,6 +258,8 @@ export class DbStorage implements IStorage {
       .returning();
 
     if (!result[0] && expectedVersion !== undefined) {
+      // En la papelera (o inexistente) es un 404, no un conflicto de versión
+      if (!(await this.getPatient(id))) return null;
       throw new VersionConflictError();
     }
 
@@ -172,8 +267,12 @@ export class DbStorage implements IStorage {
   }
 
   async deletePatient(id: string): Promise<boolean> {
-    const result = await db.delete(patients).where(eq(patients.id, id));
-    return result.rowCount ? result.rowCount > 0 : false;
+    const result = await db
+      .update(patients)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(patients.id, id), isNull(patients.deletedAt)))
+      .returning();
+    return result.length > 0;
   }
 
   // Patient Groups
@@ -220,22 +319,11 @@ export class DbStorage implements IStorage {
 
   // Group Memberships
   async getGroupMemberships(groupId?: string, patientId?: string): Promise<GroupMembership[]> {
-    let query = db.select().from(groupMemberships);
-
-    if (groupId && patientId) {
-      return await query.where(
-        and(
-          eq(groupMemberships.groupId, groupId),
-          eq(groupMemberships.patientId, patientId)
-        )
-      );
-    } else if (groupId) {
-      return await query.where(eq(groupMemberships.groupId, groupId));
-    } else if (patientId) {
-      return await query.where(eq(groupMemberships.patientId, patientId));
-    }
+    const conditions = [notInArray(groupMemberships.patientId, this.trashedPatientIds())];
+    if (groupId) conditions.push(eq(groupMemberships.groupId, groupId));
+    if (patientId) conditions.push(eq(groupMemberships.patientId, patientId));
 
-    return await query;
+    return await db.select().from(groupMemberships).where(and(...conditions));
   }
 
   async createGroupMembership(data: InsertGroupMembership): Promise<GroupMembership> {
@@ -263,10 +351,14 @@ export class DbStorage implements IStorage {
       return await db
         .select()
         .from(measurements)
-        .where(eq(measurements.patientId, patientId))
+        .where(and(eq(measurements.patientId, patientId), isNull(measurements.deletedAt)))
         .orderBy(desc(measurements.measurementDate));
     }
-    return await db.select().from(measurements).orderBy(desc(measurements.measurementDate));
+    return await db
+      .select()
+      .from(measurements)
+      .where(and(isNull(measurements.deletedAt), notInArray(measurements.patientId, this.trashedPatientIds())))
+      .orderBy(desc(measurements.measurementDate));
   }
 
   async getMeasurementsWithPatient(patientId?: string): Promise<
@@ -282,6 +374,7 @@ export class DbStorage implements IStorage {
         id: measurements.id,
         patientId: measurements.patientId,
         consultationId: measurements.consultationId,
+        evaluatorId: measurements.evaluatorId,
         measurementDate: measurements.measurementDate,
         weight: measurements.weight,
         height: measurements.height,
@@ -310,10 +403,16 @@ export class DbStorage implements IStorage {
         abdominal: measurements.abdominal,
         thighSkinfold: measurements.thighSkinfold,
         calfSkinfold: measurements.calfSkinfold,
+        chestSkinfold: measurements.chestSkinfold,
+        midaxillarySkinfold: measurements.midaxillarySkinfold,
+        protocolId: measurements.protocolId,
+        rawTrials: measurements.rawTrials,
+        plausibilityOverrides: measurements.plausibilityOverrides,
         notes: measurements.notes,
         version: measurements.version,
         createdAt: measurements.createdAt,
         updatedAt: measurements.updatedAt,
+        deletedAt: measurements.deletedAt,
         patient: {
           id: patients.id,
           name: patients.name,
@@ -326,14 +425,19 @@ export class DbStorage implements IStorage {
       .leftJoin(measurementCalculations, eq(measurementCalculations.measurementId, measurements.id))
       .orderBy(desc(measurements.measurementDate));
 
+    const visible = and(isNull(measurements.deletedAt), isNull(patients.deletedAt));
     if (patientId) {
-      return await query.where(eq(measurements.patientId, patientId));
+      return await query.where(and(visible, eq(measurements.patientId, patientId)));
     }
-    return await query;
+    return await query.where(visible);
   }
 
   async getMeasurement(id: string): Promise<Measurement | null> {
-    const result = await db.select().from(measurements).where(eq(measurements.id, id)).limit(1);
+    const result = await db
+      .select()
+      .from(measurements)
+      .where(and(eq(measurements.id, id), isNull(measurements.deletedAt)))
+      .limit(1);
     return result[0] || null;
   }
 
@@ -344,8 +448,8 @@ export class DbStorage implements IStorage {
 
   async updateMeasurement(id: string, data: Partial<InsertMeasurement>, expectedVersion?: number): Promise<Measurement | null> {
     const whereConditions = expectedVersion !== undefined
-      ? and(eq(measurements.id, id), eq(measurements.version, expectedVersion))
-      : eq(measurements.id, id);
+      ? and(eq(measurements.id, id), eq(measurements.version, expectedVersion), isNull(measurements.deletedAt))
+      : and(eq(measurements.id, id), isNull(measurements.deletedAt));
 
     const result = await db
       .update(measurements)
@@ -358,6 +462,7 @@ export class DbStorage implements IStorage {
       .returning();
 
     if (!result[0] && expectedVersion !== undefined) {
+      if (!(await this.getMeasurement(id))) return null;
       throw new VersionConflictError();
     }
 
@@ -365,20 +470,84 @@ export class DbStorage implements IStorage {
   }
 
   async deleteMeasurement(id: string): Promise<boolean> {
-    const result = await db.delete(measurements).where(eq(measurements.id, id));
-    return result.rowCount ? result.rowCount > 0 : false;
+    const result = await db
+      .update(measurements)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(measurements.id, id), isNull(measurements.deletedAt)))
+      .returning();
+    return result.length > 0;
   }
 
   async getLatestMeasurement(patientId: string): Promise<Measurement | null> {
     const result = await db
       .select()
       .from(measurements)
-      .where(eq(measurements.patientId, patientId))
+      .where(and(eq(measurements.patientId, patientId), isNull(measurements.deletedAt)))
       .orderBy(desc(measurements.measurementDate))
       .limit(1);
     return result[0] || null;
   }
 
+  // Evaluators
+  async getEvaluators(): Promise<Evaluator[]> {
+    return await db.select().from(evaluators).orderBy(evaluators.name);
+  }
+
+  async getEvaluator(id: string): Promise<Evaluator | null> {
+    const result = await db.select().from(evaluators).where(eq(evaluators.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  async createEvaluator(data: InsertEvaluator): Promise<Evaluator> {
+    const result = await db.insert(evaluators).values(data).returning();
+    return result[0];
+  }
+
+  async updateEvaluator(id: string, data: Partial<InsertEvaluator>, expectedVersion?: number): Promise<Evaluator | null> {
+    if (expectedVersion !== undefined) {
+      const existing = await this.getEvaluator(id);
+      if (!existing) return null;
+      if (existing.version !== expectedVersion) {
+        throw new VersionConflictError("Version conflict - record was modified by another user");
+      }
+    }
+
+    const result = await db
+      .update(evaluators)
+      .set({ ...data, version: sql`${evaluators.version} + 1`, updatedAt: new Date() })
+      .where(eq(evaluators.id, id))
+      .returning();
+
+    return result[0] || null;
+  }
+
+  async deleteEvaluator(id: string): Promise<boolean> {
+    const result = await db.delete(evaluators).where(eq(evaluators.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getEvaluatorTemStudies(evaluatorId: string): Promise<EvaluatorTemStudy[]> {
+    return await db
+      .select()
+      .from(evaluatorTemStudies)
+      .where(eq(evaluatorTemStudies.evaluatorId, evaluatorId))
+      .orderBy(desc(evaluatorTemStudies.studyDate));
+  }
+
+  async createEvaluatorTemStudy(data: InsertEvaluatorTemStudy, results: EvaluatorTEM): Promise<EvaluatorTemStudy> {
+    const [study] = await db.insert(evaluatorTemStudies).values({ ...data, results }).returning();
+    await db
+      .update(evaluators)
+      .set({
+        temValues: results,
+        temUpdatedAt: study.studyDate,
+        version: sql`${evaluators.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(evaluators.id, data.evaluatorId));
+    return study;
+  }
+
   // Measurement Calculations
   async getMeasurementCalculations(measurementId: string): Promise<MeasurementCalculation[]> {
     return await db
@@ -467,26 +636,34 @@ export class DbStorage implements IStorage {
       return await db
         .select()
         .from(dietAssignments)
-        .where(and(eq(dietAssignments.patientId, patientId), eq(dietAssignments.dietId, dietId)))
+        .where(and(eq(dietAssignments.patientId, patientId), eq(dietAssignments.dietId, dietId), this.visibleDietAssignments()))
         .orderBy(desc(dietAssignments.startDate));
     } else if (patientId) {
       return await db
         .select()
         .from(dietAssignments)
-        .where(eq(dietAssignments.patientId, patientId))
+        .where(and(eq(dietAssignments.patientId, patientId), this.visibleDietAssignments()))
         .orderBy(desc(dietAssignments.startDate));
     } else if (dietId) {
       return await db
         .select()
         .from(dietAssignments)
-        .where(eq(dietAssignments.dietId, dietId))
+        .where(and(eq(dietAssignments.dietId, dietId), this.visibleDietAssignments()))
         .orderBy(desc(dietAssignments.startDate));
     }
-    return await db.select().from(dietAssignments).orderBy(desc(dietAssignments.startDate));
+    return await db
+      .select()
+      .from(dietAssignments)
+      .where(this.visibleDietAssignments())
+      .orderBy(desc(dietAssignments.startDate));
   }
 
   async getDietAssignment(id: string): Promise<DietAssignment | null> {
-    const result = await db.select().from(dietAssignments).where(eq(dietAssignments.id, id)).limit(1);
+    const result = await db
+      .select()
+      .from(dietAssignments)
+      .where(and(eq(dietAssignments.id, id), this.visibleDietAssignments()))
+      .limit(1);
     return result[0] || null;
   }
 
@@ -528,14 +705,14 @@ export class DbStorage implements IStorage {
       return await db
         .select()
         .from(reports)
-        .where(eq(reports.patientId, patientId))
+        .where(and(eq(reports.patientId, patientId), this.visibleReports()))
         .orderBy(desc(reports.createdAt));
     }
-    return await db.select().from(reports).orderBy(desc(reports.createdAt));
+    return await db.select().from(reports).where(this.visibleReports()).orderBy(desc(reports.createdAt));
   }
 
   async getReport(id: string): Promise<Report | null> {
-    const result = await db.select().from(reports).where(eq(reports.id, id)).limit(1);
+    const result = await db.select().from(reports).where(and(eq(reports.id, id), this.visibleReports())).limit(1);
     return result[0] || null;
   }
 
@@ -628,6 +805,52 @@ export class DbStorage implements IStorage {
     return result[0] || null;
   }
 
+  // BIA Measurements
+  async getBiaMeasurements(patientId: string): Promise<BiaMeasurement[]> {
+    return await db
+      .select()
+      .from(biaMeasurements)
+      .where(eq(biaMeasurements.patientId, patientId))
+      .orderBy(desc(biaMeasurements.measurementDate));
+  }
+
+  async getBiaMeasurement(id: string): Promise<BiaMeasurement | null> {
+    const result = await db.select().from(biaMeasurements).where(eq(biaMeasurements.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  async createBiaMeasurement(data: InsertBiaMeasurement): Promise<BiaMeasurement> {
+    const result = await db.insert(biaMeasurements).values(data).returning();
+    return result[0];
+  }
+
+  async updateBiaMeasurement(id: string, data: Partial<InsertBiaMeasurement>, expectedVersion?: number): Promise<BiaMeasurement | null> {
+    const whereConditions = expectedVersion !== undefined
+      ? and(eq(biaMeasurements.id, id), eq(biaMeasurements.version, expectedVersion))
+      : eq(biaMeasurements.id, id);
+
+    const result = await db
+      .update(biaMeasurements)
+      .set({
+        ...data,
+        updatedAt: new Date(),
+        version: sql`${biaMeasurements.version} + 1`
+      })
+      .where(whereConditions)
+      .returning();
+
+    if (!result[0] && expectedVersion !== undefined) {
+      throw new VersionConflictError();
+    }
+
+    return result[0] || null;
+  }
+
+  async deleteBiaMeasurement(id: string): Promise<boolean> {
+    const result = await db.delete(biaMeasurements).where(eq(biaMeasurements.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
   async getGroupStatistics(): Promise<import("./storage").GroupStatistics[]> {
     // Get all groups
     const allGroups = await db.select().from(patientGroups);
@@ -646,7 +869,8 @@ export class DbStorage implements IStorage {
           mc.bmi
         FROM patient_groups pg
         LEFT JOIN group_memberships gm ON pg.id = gm.group_id
-        LEFT JOIN measurements m ON gm.patient_id = m.patient_id
+          AND gm.patient_id IN (SELECT id FROM patients WHERE deleted_at IS NULL)
+        LEFT JOIN measurements m ON gm.patient_id = m.patient_id AND m.deleted_at IS NULL
         LEFT JOIN measurement_calculations mc ON m.id = mc.measurement_id
       )
       SELECT 
@@ -672,7 +896,8 @@ export class DbStorage implements IStorage {
           mc.bmi
         FROM patient_groups pg
         LEFT JOIN group_memberships gm ON pg.id = gm.group_id
-        LEFT JOIN measurements m ON gm.patient_id = m.patient_id
+          AND gm.patient_id IN (SELECT id FROM patients WHERE deleted_at IS NULL)
+        LEFT JOIN measurements m ON gm.patient_id = m.patient_id AND m.deleted_at IS NULL
         LEFT JOIN measurement_calculations mc ON m.id = mc.measurement_id
         WHERE m.id IS NOT NULL
       )
@@ -721,6 +946,7 @@ export class DbStorage implements IStorage {
         group_id,
         COUNT(DISTINCT patient_id) as patient_count
       FROM group_memberships
+      WHERE patient_id IN (SELECT id FROM patients WHERE deleted_at IS NULL)
       GROUP BY group_id
     `);
 
@@ -876,7 +1102,7 @@ export class DbStorage implements IStorage {
   // Helper method for diet AI service
   async getMeasurementsByPatient(patientId: string): Promise<Measurement[]> {
     return await db.select().from(measurements)
-      .where(eq(measurements.patientId, patientId))
+      .where(and(eq(measurements.patientId, patientId), isNull(measurements.deletedAt)))
       .orderBy(desc(measurements.measurementDate));
   }
 
@@ -887,7 +1113,7 @@ export class DbStorage implements IStorage {
   async getMeals(filters?: { category?: string; search?: string; tagIds?: string[] }): Promise<Meal[]> {
     let query = db.select().from(meals);
 
-    const conditions = [];
+    const conditions = [isNull(meals.deletedAt)];
     
     if (filters?.category) {
       conditions.push(eq(meals.category, filters.category));
@@ -913,15 +1139,15 @@ export class DbStorage implements IStorage {
       }
     }
 
-    if (conditions.length > 0) {
-      return await query.where(and(...conditions)).orderBy(meals.name);
-    }
-    
-    return await query.orderBy(meals.name);
+    return await query.where(and(...conditions)).orderBy(meals.name);
   }
 
   async getMeal(id: string): Promise<Meal | null> {
-    const result = await db.select().from(meals).where(eq(meals.id, id)).limit(1);
+    const result = await db
+      .select()
+      .from(meals)
+      .where(and(eq(meals.id, id), isNull(meals.deletedAt)))
+      .limit(1);
     return result[0] || null;
   }
 
@@ -949,7 +1175,11 @@ export class DbStorage implements IStorage {
   }
 
   async deleteMeal(id: string): Promise<boolean> {
-    const result = await db.delete(meals).where(eq(meals.id, id)).returning();
+    const result = await db
+      .update(meals)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(meals.id, id), isNull(meals.deletedAt)))
+      .returning();
     return result.length > 0;
   }
 
@@ -1029,7 +1259,7 @@ export class DbStorage implements IStorage {
   async getWeeklyDietPlans(filters?: { isTemplate?: boolean; search?: string }): Promise<WeeklyDietPlan[]> {
     let query = db.select().from(weeklyDietPlans);
 
-    const conditions = [];
+    const conditions = [isNull(weeklyDietPlans.deletedAt)];
     
     if (filters?.isTemplate !== undefined) {
       conditions.push(eq(weeklyDietPlans.isTemplate, filters.isTemplate));
@@ -1039,15 +1269,15 @@ export class DbStorage implements IStorage {
       conditions.push(sql`LOWER(${weeklyDietPlans.name}) LIKE LOWER(${'%' + filters.search + '%'})`);
     }
 
-    if (conditions.length > 0) {
-      return await query.where(and(...conditions)).orderBy(desc(weeklyDietPlans.createdAt));
-    }
-    
-    return await query.orderBy(desc(weeklyDietPlans.createdAt));
+    return await query.where(and(...conditions)).orderBy(desc(weeklyDietPlans.createdAt));
   }
 
   async getWeeklyDietPlan(id: string): Promise<WeeklyDietPlan | null> {
-    const result = await db.select().from(weeklyDietPlans).where(eq(weeklyDietPlans.id, id)).limit(1);
+    const result = await db
+      .select()
+      .from(weeklyDietPlans)
+      .where(and(eq(weeklyDietPlans.id, id), isNull(weeklyDietPlans.deletedAt)))
+      .limit(1);
     return result[0] || null;
   }
 
@@ -1075,7 +1305,11 @@ export class DbStorage implements IStorage {
   }
 
   async deleteWeeklyDietPlan(id: string): Promise<boolean> {
-    const result = await db.delete(weeklyDietPlans).where(eq(weeklyDietPlans.id, id)).returning();
+    const result = await db
+      .update(weeklyDietPlans)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(weeklyDietPlans.id, id), isNull(weeklyDietPlans.deletedAt)))
+      .returning();
     return result.length > 0;
   }
 
@@ -1124,19 +1358,20 @@ export class DbStorage implements IStorage {
   async getWeeklyPlanAssignments(planId?: string, groupId?: string, patientId?: string): Promise<WeeklyPlanAssignment[]> {
     let query = db.select().from(weeklyPlanAssignments);
 
-    const conditions = [];
+    const conditions = [this.visibleWeeklyPlanAssignments()];
     if (planId) conditions.push(eq(weeklyPlanAssignments.planId, planId));
     if (groupId) conditions.push(eq(weeklyPlanAssignments.groupId, groupId));
     if (patientId) conditions.push(eq(weeklyPlanAssignments.patientId, patientId));
 
-    if (conditions.length > 0) {
-      return await query.where(and(...conditions));
-    }
-    return await query;
+    return await query.where(and(...conditions));
   }
 
   async getWeeklyPlanAssignment(id: string): Promise<WeeklyPlanAssignment | null> {
-    const result = await db.select().from(weeklyPlanAssignments).where(eq(weeklyPlanAssignments.id, id)).limit(1);
+    const result = await db
+      .select()
+      .from(weeklyPlanAssignments)
+      .where(and(eq(weeklyPlanAssignments.id, id), this.visibleWeeklyPlanAssignments()))
+      .limit(1);
     return result[0] || null;
   }
 
@@ -1199,7 +1434,7 @@ export class DbStorage implements IStorage {
     return await db
       .select()
       .from(consultations)
-      .where(eq(consultations.patientId, patientId))
+      .where(and(eq(consultations.patientId, patientId), isNull(consultations.deletedAt)))
       .orderBy(desc(consultations.consultationDate));
   }
 
@@ -1207,7 +1442,7 @@ export class DbStorage implements IStorage {
     const result = await db
       .select()
       .from(consultations)
-      .where(eq(consultations.id, id))
+      .where(and(eq(consultations.id, id), isNull(consultations.deletedAt)))
       .limit(1);
     return result[0] || null;
   }
@@ -1227,7 +1462,11 @@ export class DbStorage implements IStorage {
   }
 
   async deleteConsultation(id: string): Promise<boolean> {
-    const result = await db.delete(consultations).where(eq(consultations.id, id)).returning();
+    const result = await db
+      .update(consultations)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(consultations.id, id), isNull(consultations.deletedAt)))
+      .returning();
     return result.length > 0;
   }
 
@@ -1244,17 +1483,17 @@ export class DbStorage implements IStorage {
         db
           .select()
           .from(measurements)
-          .where(eq(measurements.consultationId, consultation.id))
+          .where(and(eq(measurements.consultationId, consultation.id), isNull(measurements.deletedAt)))
           .orderBy(desc(measurements.measurementDate)),
         db
           .select()
           .from(dietAssignments)
-          .where(eq(dietAssignments.consultationId, consultation.id))
+          .where(and(eq(dietAssignments.consultationId, consultation.id), this.visibleDietAssignments()))
           .orderBy(desc(dietAssignments.startDate)),
         db
           .select()
           .from(reports)
-          .where(eq(reports.consultationId, consultation.id))
+          .where(and(eq(reports.consultationId, consultation.id), this.visibleReports()))
           .orderBy(desc(reports.createdAt)),
       ]);
 
@@ -1269,6 +1508,101 @@ export class DbStorage implements IStorage {
     return summaries;
   }
 
+  // Appointments
+  async getAppointments(filters: AppointmentFilters = {}): Promise<AppointmentWithPatient[]> {
+    const conditions: SQL[] = [isNull(patients.deletedAt)];
+    if (filters.from) conditions.push(gte(appointments.startsAt, filters.from));
+    if (filters.to) conditions.push(lt(appointments.startsAt, filters.to));
+    if (filters.patientId) conditions.push(eq(appointments.patientId, filters.patientId));
+    if (filters.userId) conditions.push(eq(appointments.userId, filters.userId));
+
+    const rows = await db
+      .select({ appointment: appointments, patientName: patients.name })
+      .from(appointments)
+      .innerJoin(patients, eq(appointments.patientId, patients.id))
+      .where(and(...conditions))
+      .orderBy(appointments.startsAt);
+    return rows.map(({ appointment, patientName }) => ({ ...appointment, patientName }));
+  }
+
+  async getAppointment(id: string): Promise<Appointment | null> {
+    const result = await db.select().from(appointments).where(eq(appointments.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  async createAppointment(data: InsertAppointment): Promise<Appointment> {
+    const result = await db.insert(appointments).values(data).returning();
+    return result[0];
+  }
+
+  async updateAppointment(
+    id: string,
+    data: Partial<InsertAppointment> & { consultationId?: string | null },
+    expectedVersion?: number,
+  ): Promise<Appointment | null> {
+    if (expectedVersion !== undefined) {
+      const existing = await this.getAppointment(id);
+      if (!existing) return null;
+      if (existing.version !== expectedVersion) {
+        throw new VersionConflictError("Version conflict - record was modified by another user");
+      }
+    }
+
+    const result = await db
+      .update(appointments)
+      .set({ ...data, version: sql`${appointments.version} + 1`, updatedAt: new Date() })
+      .where(eq(appointments.id, id))
+      .returning();
+
+    return result[0] || null;
+  }
+
+  async deleteAppointment(id: string): Promise<boolean> {
+    const result = await db.delete(appointments).where(eq(appointments.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Follow-up Contacts
+  async getFollowUpContacts(patientId?: string): Promise<FollowUpContact[]> {
+    return await db
+      .select()
+      .from(followUpContacts)
+      .where(patientId ? eq(followUpContacts.patientId, patientId) : undefined)
+      .orderBy(desc(followUpContacts.contactedAt));
+  }
+
+  async createFollowUpContact(data: InsertFollowUpContact): Promise<FollowUpContact> {
+    const result = await db.insert(followUpContacts).values(data).returning();
+    return result[0];
+  }
+
+  // Patient Share Links
+  async getPatientShareLinks(patientId: string): Promise<PatientShareLink[]> {
+    return await db
+      .select()
+      .from(patientShareLinks)
+      .where(eq(patientShareLinks.patientId, patientId))
+      .orderBy(desc(patientShareLinks.createdAt));
+  }
+
+  async getPatientShareLink(id: string): Promise<PatientShareLink | null> {
+    const result = await db.select().from(patientShareLinks).where(eq(patientShareLinks.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  async createPatientShareLink(data: InsertPatientShareLink): Promise<PatientShareLink> {
+    const result = await db.insert(patientShareLinks).values(data).returning();
+    return result[0];
+  }
+
+  async updatePatientShareLink(
+    id: string,
+    data: Partial<Pick<PatientShareLink, "revokedAt" | "lastAccessedAt">>,
+  ): Promise<PatientShareLink | null> {
+    const result = await db.update(patientShareLinks).set(data).where(eq(patientShareLinks.id, id)).returning();
+    return result[0] || null;
+  }
+
   async getNutritionistSettings(): Promise<NutritionistSettings> {
     const result = await db.select().from(nutritionistSettings).limit(1);
     if (result[0]) {
@@ -1281,10 +1615,18 @@ export class DbStorage implements IStorage {
       proteinMultiplierMaintain: "1.80",
       proteinMultiplierGain: "2.00",
       fatPerKg: "0.90",
+      bodyFatEquation: DEFAULT_BODY_FAT_EQUATION,
+      densityConversion: DEFAULT_DENSITY_CONVERSION,
+      bmrEquation: DEFAULT_BMR_EQUATION,
+      energyModel: DEFAULT_ENERGY_MODEL,
+      mealDistribution: DEFAULT_MEAL_DISTRIBUTION,
+      defaultProtocolId: DEFAULT_PROTOCOL_ID,
+      customProtocols: [],
       whatsappTemplateClassic:
         "Hola {{nombre}}! ¿Cómo venís con el plan? Cualquier cosa escribime ❤️",
       whatsappTemplateWithDocs:
         "Hola {{nombre}}! Te adjunto tu plan y el informe actualizados. Contame cuando los veas 🙌",
+      trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
     };
 
     const inserted = await db.insert(nutritionistSettings).values(defaults).returning();
@@ -1303,10 +1645,18 @@ export class DbStorage implements IStorage {
     if (data.proteinMultiplierGain !== undefined)
       updatePayload.proteinMultiplierGain = data.proteinMultiplierGain.toFixed(2);
     if (data.fatPerKg !== undefined) updatePayload.fatPerKg = data.fatPerKg.toFixed(2);
+    if (data.bodyFatEquation !== undefined) updatePayload.bodyFatEquation = data.bodyFatEquation;
+    if (data.densityConversion !== undefined) updatePayload.densityConversion = data.densityConversion;
+    if (data.bmrEquation !== undefined) updatePayload.bmrEquation = data.bmrEquation;
+    if (data.energyModel !== undefined) updatePayload.energyModel = data.energyModel;
+    if (data.mealDistribution !== undefined) updatePayload.mealDistribution = data.mealDistribution;
+    if (data.defaultProtocolId !== undefined) updatePayload.defaultProtocolId = data.defaultProtocolId;
+    if (data.customProtocols !== undefined) updatePayload.customProtocols = data.customProtocols;
     if (data.whatsappTemplateClassic !== undefined)
       updatePayload.whatsappTemplateClassic = data.whatsappTemplateClassic;
     if (data.whatsappTemplateWithDocs !== undefined)
       updatePayload.whatsappTemplateWithDocs = data.whatsappTemplateWithDocs;
+    if (data.trashRetentionDays !== undefined) updatePayload.trashRetentionDays = data.trashRetentionDays;
 
     const result = await db
       .update(nutritionistSettings)
@@ -1316,16 +1666,335 @@ export class DbStorage implements IStorage {
 
     return this.normalizeSettings(result[0]);
   }
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.displayName);
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    const result = await db.select().from(users).where(eq(users.username, username.toLowerCase())).limit(1);
+    return result[0] || null;
+  }
+
+  async createUser(data: InsertUser): Promise<User> {
+    const result = await db.insert(users).values({ ...data, username: data.username.toLowerCase() }).returning();
+    return result[0];
+  }
+
+  async updateUser(id: string, data: Partial<InsertUser>, expectedVersion?: number): Promise<User | null> {
+    if (expectedVersion !== undefined) {
+      const existing = await this.getUser(id);
+      if (!existing) return null;
+      if (existing.version !== expectedVersion) {
+        throw new VersionConflictError("Version conflict - record was modified by another user");
+      }
+    }
+
+    const result = await db
+      .update(users)
+      .set({
+        ...data,
+        ...(data.username ? { username: data.username.toLowerCase() } : {}),
+        version: sql`${users.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, id))
+      .returning();
+
+    return result[0] || null;
+  }
+
+  async recordUserLogin(id: string): Promise<void> {
+    await db.update(users).set({ lastLoginAt: new Date() }).where(eq(users.id, id));
+  }
+
+  async getUserByCalendarFeedToken(token: string): Promise<User | null> {
+    const result = await db.select().from(users).where(eq(users.calendarFeedToken, token)).limit(1);
+    return result[0] || null;
+  }
+
+  async setUserCalendarFeedToken(id: string, token: string | null): Promise<void> {
+    await db.update(users).set({ calendarFeedToken: token }).where(eq(users.id, id));
+  }
+
+  // Trash
+  async getTrash(): Promise<TrashItem[]> {
+    const { trashRetentionDays } = await this.getNutritionistSettings();
+    const [trashedPatients, trashedMeasurements, trashedConsultations, trashedMeals, trashedPlans] = await Promise.all([
+      db
+        .select({ id: patients.id, name: patients.name, deletedAt: patients.deletedAt })
+        .from(patients)
+        .where(isNotNull(patients.deletedAt)),
+      db
+        .select({
+          id: measurements.id,
+          date: measurements.measurementDate,
+          patientName: patients.name,
+          deletedAt: measurements.deletedAt,
+        })
+        .from(measurements)
+        .leftJoin(patients, eq(measurements.patientId, patients.id))
+        .where(isNotNull(measurements.deletedAt)),
+      db
+        .select({
+          id: consultations.id,
+          date: consultations.consultationDate,
+          patientName: patients.name,
+          deletedAt: consultations.deletedAt,
+        })
+        .from(consultations)
+        .leftJoin(patients, eq(consultations.patientId, patients.id))
+        .where(isNotNull(consultations.deletedAt)),
+      db
+        .select({ id: meals.id, name: meals.name, deletedAt: meals.deletedAt })
+        .from(meals)
+        .where(isNotNull(meals.deletedAt)),
+      db
+        .select({ id: weeklyDietPlans.id, name: weeklyDietPlans.name, deletedAt: weeklyDietPlans.deletedAt })
+        .from(weeklyDietPlans)
+        .where(isNotNull(weeklyDietPlans.deletedAt)),
+    ]);
+
+    return [
+      ...trashedPatients.map((row) => toTrashItem("patient", row, trashRetentionDays)),
+      ...trashedMeasurements.map((row) => toTrashItem("measurement", row, trashRetentionDays)),
+      ...trashedConsultations.map((row) => toTrashItem("consultation", row, trashRetentionDays)),
+      ...trashedMeals.map((row) => toTrashItem("meal", row, trashRetentionDays)),
+      ...trashedPlans.map((row) => toTrashItem("weeklyDietPlan", row, trashRetentionDays)),
+    ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async restoreFromTrash(entityType: TrashEntityType, id: string): Promise<TrashRecord | null> {
+    let restored: TrashRecord[] = [];
+    switch (entityType) {
+      case "patient":
+        restored = await db
+          .update(patients)
+          .set({ deletedAt: null })
+          .where(and(eq(patients.id, id), isNotNull(patients.deletedAt)))
+          .returning();
+        break;
+      case "measurement":
+        restored = await db
+          .update(measurements)
+          .set({ deletedAt: null })
+          .where(and(eq(measurements.id, id), isNotNull(measurements.deletedAt)))
+          .returning();
+        break;
+      case "consultation":
+        restored = await db
+          .update(consultations)
+          .set({ deletedAt: null })
+          .where(and(eq(consultations.id, id), isNotNull(consultations.deletedAt)))
+          .returning();
+        break;
+      case "meal":
+        restored = await db
+          .update(meals)
+          .set({ deletedAt: null })
+          .where(and(eq(meals.id, id), isNotNull(meals.deletedAt)))
+          .returning();
+        break;
+      case "weeklyDietPlan":
+        restored = await db
+          .update(weeklyDietPlans)
+          .set({ deletedAt: null })
+          .where(and(eq(weeklyDietPlans.id, id), isNotNull(weeklyDietPlans.deletedAt)))
+          .returning();
+        break;
+    }
+    return restored[0] || null;
+  }
+
+  async purgeFromTrash(entityType: TrashEntityType, id: string): Promise<TrashRecord | null> {
+    // Las FK con onDelete cascade se llevan mediciones, cálculos, informes y asignaciones
+    let purged: TrashRecord[] = [];
+    switch (entityType) {
+      case "patient":
+        purged = await db
+          .delete(patients)
+          .where(and(eq(patients.id, id), isNotNull(patients.deletedAt)))
+          .returning();
+        break;
+      case "measurement":
+        purged = await db
+          .delete(measurements)
+          .where(and(eq(measurements.id, id), isNotNull(measurements.deletedAt)))
+          .returning();
+        break;
+      case "consultation":
+        purged = await db
+          .delete(consultations)
+          .where(and(eq(consultations.id, id), isNotNull(consultations.deletedAt)))
+          .returning();
+        break;
+      case "meal":
+        purged = await db
+          .delete(meals)
+          .where(and(eq(meals.id, id), isNotNull(meals.deletedAt)))
+          .returning();
+        break;
+      case "weeklyDietPlan":
+        purged = await db
+          .delete(weeklyDietPlans)
+          .where(and(eq(weeklyDietPlans.id, id), isNotNull(weeklyDietPlans.deletedAt)))
+          .returning();
+        break;
+    }
+    return purged[0] || null;
+  }
+
+  // Patient Merges
+  async mergePatients(input: PatientMergeInput): Promise<PatientMergeResult | null> {
+    const { survivorId, duplicateId } = input;
+
+    return await db.transaction(async (tx) => {
+      const [survivor] = await tx
+        .select()
+        .from(patients)
+        .where(and(eq(patients.id, survivorId), isNull(patients.deletedAt)));
+      const [duplicate] = await tx
+        .select()
+        .from(patients)
+        .where(and(eq(patients.id, duplicateId), isNull(patients.deletedAt)));
+      if (!survivor || !duplicate) return null;
+
+      // Grupos que ya comparten: la membresía del duplicado sobra
+      const survivorGroupIds = tx
+        .select({ groupId: groupMemberships.groupId })
+        .from(groupMemberships)
+        .where(eq(groupMemberships.patientId, survivorId));
+      await tx
+        .delete(groupMemberships)
+        .where(and(eq(groupMemberships.patientId, duplicateId), inArray(groupMemberships.groupId, survivorGroupIds)));
+
+      // Incluye lo que está en la papelera: al restaurarlo aparece en la ficha que sobrevive
+      const reassign = async (table: typeof measurements | typeof consultations | typeof reports | typeof biochemicalResults
+        | typeof biaMeasurements | typeof groupMemberships | typeof dietAssignments | typeof dietGenerations) => {
+        const moved = await tx
+          .update(table)
+          .set({ patientId: survivorId })
+          .where(eq(table.patientId, duplicateId))
+          .returning({ id: table.id });
+        return moved.length;
+      };
+      const movedRecords = {
+        measurements: await reassign(measurements),
+        consultations: await reassign(consultations),
+        reports: await reassign(reports),
+        biochemicalResults: await reassign(biochemicalResults),
+        biaMeasurements: await reassign(biaMeasurements),
+        groupMemberships: await reassign(groupMemberships),
+        dietAssignments: await reassign(dietAssignments),
+        dietGenerations: await reassign(dietGenerations),
+        weeklyPlanAssignments: (
+          await tx
+            .update(weeklyPlanAssignments)
+            .set({ patientId: survivorId })
+            .where(eq(weeklyPlanAssignments.patientId, duplicateId))
+            .returning({ id: weeklyPlanAssignments.id })
+        ).length,
+        appointments: (
+          await tx
+            .update(appointments)
+            .set({ patientId: survivorId })
+            .where(eq(appointments.patientId, duplicateId))
+            .returning({ id: appointments.id })
+        ).length,
+        followUpContacts: (
+          await tx
+            .update(followUpContacts)
+            .set({ patientId: survivorId })
+            .where(eq(followUpContacts.patientId, duplicateId))
+            .returning({ id: followUpContacts.id })
+        ).length,
+        // El token sólo lleva el id del enlace: los ya enviados siguen abriendo el portal del que sobrevive
+        patientShareLinks: (
+          await tx
+            .update(patientShareLinks)
+            .set({ patientId: survivorId })
+            .where(eq(patientShareLinks.patientId, duplicateId))
+            .returning({ id: patientShareLinks.id })
+        ).length,
+      };
+
+      const [updated] = await tx
+        .update(patients)
+        .set({
+          ...input.updates,
+          updatedAt: new Date(),
+          version: sql`${patients.version} + 1`,
+        })
+        .where(and(eq(patients.id, survivorId), eq(patients.version, input.survivorVersion)))
+        .returning();
+      if (!updated) {
+        throw new VersionConflictError();
+      }
+
+      await tx.delete(patients).where(eq(patients.id, duplicateId));
+
+      const [merge] = await tx
+        .insert(patientMerges)
+        .values({
+          survivorId,
+          duplicateId,
+          duplicateName: duplicate.name,
+          duplicateSnapshot: duplicate,
+          fieldChoices: input.fieldChoices,
+          movedRecords,
+          userId: input.userId,
+          userName: input.userName,
+        })
+        .returning();
+
+      return { survivor: updated, merge };
+    });
+  }
+
+  async getPatientMerges(survivorId?: string): Promise<PatientMerge[]> {
+    return await db
+      .select()
+      .from(patientMerges)
+      .where(survivorId ? eq(patientMerges.survivorId, survivorId) : undefined)
+      .orderBy(desc(patientMerges.createdAt));
+  }
+
+  // Audit Log
+  async createAuditLogEntry(data: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const result = await db.insert(auditLog).values(data).returning();
+    return result[0];
+  }
+
+  async getAuditLog(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+    const conditions = [];
+    if (filters.patientId) conditions.push(eq(auditLog.patientId, filters.patientId));
+    if (filters.entityType) conditions.push(eq(auditLog.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditLog.entityId, filters.entityId));
+
+    return await db
+      .select()
+      .from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.createdAt))
+      .limit(filters.limit ?? 200);
+  }
 }
 
 import { MemStorage } from "./mem-storage";
+import { withAuditLog } from "./audit-log";
 
 // Use DbStorage (PostgreSQL) by default now that Neon DB is available
 // Set USE_MEM_STORAGE=true to use in-memory storage for testing
 const USE_MEM_STORAGE = process.env.USE_MEM_STORAGE === "true";
 
-export const storage: IStorage = USE_MEM_STORAGE 
+export const storage: IStorage = withAuditLog(USE_MEM_STORAGE 
   ? new MemStorage()
-  : new DbStorage();
+  : new DbStorage());
 
 console.log(`[Storage] Using ${USE_MEM_STORAGE ? "MemStorage" : "DbStorage"} (database: ${USE_MEM_STORAGE ? "In-Memory" : "PostgreSQL"})`);
@@ -6,6 +6,10 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { wsManager } from "./websocket";
+import { authenticateUpgrade, requireAuth, requirePermission, setupAuth } from "./auth";
+import { storage } from "./db-storage";
+import { scheduleTrashPurge } from "./services/trash-retention";
+import { scheduleFollowUpScan } from "./services/follow-up-reminders";
 
 const app = express();
 
@@ -21,10 +25,12 @@ app.use(express.json({
 }));
 app.use(express.urlencoded({ extended: false }));
 
-// Serve uploaded files
-app.use('/uploads', express.static('uploads'));
-app.use('/assets', express.static('attached_assets'));
-app.use('/reports', express.static('reports'));
+setupAuth(app);
+
+// Serve uploaded files (sólo con sesión; los informes incluyen notas clínicas)
+app.use('/uploads', requireAuth, express.static('uploads'));
+app.use('/assets', requireAuth, express.static('attached_assets'));
+app.use('/reports', requirePermission('clinicalNotes'), express.static('reports'));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -60,7 +66,7 @@ app.use((req, res, next) => {
   const server = await registerRoutes(app);
 
   // Initialize WebSocket server for real-time synchronization
-  wsManager.initialize(server);
+  wsManager.initialize(server, authenticateUpgrade);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -88,5 +94,7 @@ app.use((req, res, next) => {
   
   server.listen(port, host, () => {
     log(`serving on port ${port}`);
+    scheduleTrashPurge(storage);
+    scheduleFollowUpScan(storage);
   });
 })();
@@ -56,18 +56,45 @@ import type {
   InsertWeeklyPlanAssignment,
   Consultation,
   InsertConsultation,
+  Appointment,
+  InsertAppointment,
+  FollowUpContact,
+  InsertFollowUpContact,
+  PatientShareLink,
+  InsertPatientShareLink,
+  Evaluator,
+  InsertEvaluator,
+  BiaMeasurement,
+  InsertBiaMeasurement,
+  EvaluatorTemStudy,
+  InsertEvaluatorTemStudy,
   NutritionistSettings,
   NutritionistSettingsUpdate,
+  User,
+  InsertUser,
+  AuditLogEntry,
+  InsertAuditLogEntry,
+  PatientMerge,
 } from "@shared/schema";
 import type {
+  AppointmentFilters,
+  AppointmentWithPatient,
+  AuditLogFilters,
   ConsultationSummary,
   GroupStatistics,
   IStorage,
+  TrashRecord,
   NutritionistSettings,
   NutritionistSettingsUpdate,
   PatientProfile,
+  PatientMergeInput,
+  PatientMergeResult,
 } from "./storage";
 import { VersionConflictError } from "./storage";
+import type { EvaluatorTEM } from "@shared/isak-calculations";
+import { DEFAULT_MEAL_DISTRIBUTION } from "@shared/macro-periodization";
+import { DEFAULT_PROTOCOL_ID } from "@shared/measurement-protocols";
+import { DEFAULT_TRASH_RETENTION_DAYS, toTrashItem, type TrashEntityType, type TrashItem } from "@shared/trash";
 
 /**
  * In-memory storage implementation for development and testing
@@ -95,6 +122,15 @@ export class MemStorage implements IStorage {
   private weeklyPlanMeals: WeeklyPlanMeal[] = [];
   private weeklyPlanAssignments: WeeklyPlanAssignment[] = [];
   private consultationsData: Consultation[] = [];
+  private appointments: Appointment[] = [];
+  private followUpContacts: FollowUpContact[] = [];
+  private patientShareLinks: PatientShareLink[] = [];
+  private evaluators: Evaluator[] = [];
+  private evaluatorTemStudies: EvaluatorTemStudy[] = [];
+  private biaMeasurements: BiaMeasurement[] = [];
+  private users: User[] = [];
+  private auditLog: AuditLogEntry[] = [];
+  private patientMerges: PatientMerge[] = [];
   private nutritionistSettings: NutritionistSettings = {
     id: nanoid(),
     profileName: "Carolina Ibáñez",
@@ -102,9 +138,17 @@ export class MemStorage implements IStorage {
     proteinMultiplierMaintain: 1.8,
     proteinMultiplierGain: 2,
     fatPerKg: 0.9,
+    bodyFatEquation: "durnin_womersley",
+    densityConversion: "siri",
+    bmrEquation: "katch_mcardle",
+    energyModel: "multiplier",
+    mealDistribution: { ...DEFAULT_MEAL_DISTRIBUTION },
+    defaultProtocolId: DEFAULT_PROTOCOL_ID,
+    customProtocols: [],
     whatsappTemplateClassic: "Hola {{nombre}}! ¿Cómo venís con el plan?",
     whatsappTemplateWithDocs:
       "Hola {{nombre}}! Te adjunto tu plan y el informe actualizados. Cualquier duda me escribís ❤️",
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -118,7 +162,7 @@ export class MemStorage implements IStorage {
     search?: string;
     tagIds?: string[];
   }): Promise<Meal[]> {
-    let results = [...this.meals];
+    let results = this.meals.filter((m) => !m.deletedAt);
 
     if (filters?.category) {
       results = results.filter((m) => m.category === filters.category);
@@ -146,7 +190,7 @@ export class MemStorage implements IStorage {
   }
 
   async getMeal(id: string): Promise<Meal | null> {
-    return this.meals.find((m) => m.id === id) || null;
+    return this.meals.find((m) => m.id === id && !m.deletedAt) || null;
   }
 
   async createMeal(data: InsertMeal): Promise<Meal> {
@@ -169,10 +213,12 @@ export class MemStorage implements IStorage {
       isVegan: data.isVegan ?? null,
       isGlutenFree: data.isGlutenFree ?? null,
       isDairyFree: data.isDairyFree ?? null,
+      allergens: data.allergens ?? null,
       notes: data.notes ?? null,
       version: 1,
       createdAt: new Date(),
       updatedAt: new Date(),
+      deletedAt: null,
     };
     this.meals.push(meal);
     return meal;
@@ -202,13 +248,10 @@ export class MemStorage implements IStorage {
   }
 
   async deleteMeal(id: string): Promise<boolean> {
-    const initialLength = this.meals.length;
-    this.meals = this.meals.filter((m) => m.id !== id);
-    // Also delete tag assignments
-    this.mealTagAssignments = this.mealTagAssignments.filter(
-      (a) => a.mealId !== id
-    );
-    return this.meals.length < initialLength;
+    const meal = await this.getMeal(id);
+    if (!meal) return false;
+    meal.deletedAt = new Date();
+    return true;
   }
 
   // Meal Tags
@@ -319,7 +362,7 @@ export class MemStorage implements IStorage {
 
   // Weekly Diet Plans
   async getWeeklyDietPlans(filters?: { isTemplate?: boolean; search?: string }): Promise<WeeklyDietPlan[]> {
-    let results = [...this.weeklyDietPlans];
+    let results = this.weeklyDietPlans.filter((p) => !p.deletedAt);
     
     if (filters?.isTemplate !== undefined) {
       results = results.filter(p => p.isTemplate === filters.isTemplate);
@@ -338,7 +381,7 @@ export class MemStorage implements IStorage {
   }
 
   async getWeeklyDietPlan(id: string): Promise<WeeklyDietPlan | null> {
-    return this.weeklyDietPlans.find((p) => p.id === id) || null;
+    return this.weeklyDietPlans.find((p) => p.id === id && !p.deletedAt) || null;
   }
 
   async createWeeklyDietPlan(data: InsertWeeklyDietPlan): Promise<WeeklyDietPlan> {
@@ -356,6 +399,7 @@ export class MemStorage implements IStorage {
       version: 1,
       createdAt: new Date(),
       updatedAt: new Date(),
+      deletedAt: null,
     };
     this.weeklyDietPlans.push(plan);
     return plan;
@@ -385,11 +429,10 @@ export class MemStorage implements IStorage {
   }
 
   async deleteWeeklyDietPlan(id: string): Promise<boolean> {
-    const initialLength = this.weeklyDietPlans.length;
-    this.weeklyDietPlans = this.weeklyDietPlans.filter((p) => p.id !== id);
-    // Also delete associated meals
-    this.weeklyPlanMeals = this.weeklyPlanMeals.filter((m) => m.planId !== id);
-    return this.weeklyDietPlans.length < initialLength;
+    const plan = await this.getWeeklyDietPlan(id);
+    if (!plan) return false;
+    plan.deletedAt = new Date();
+    return true;
   }
 
   // Weekly Plan Meals
@@ -462,8 +505,17 @@ export class MemStorage implements IStorage {
   }
 
   // Weekly Plan Assignments
+  // Asignaciones cuyo plan o paciente no está en la papelera
+  private visibleWeeklyPlanAssignments(): WeeklyPlanAssignment[] {
+    const trashedPlanIds = new Set(this.weeklyDietPlans.filter((p) => p.deletedAt).map((p) => p.id));
+    const trashedPatientIds = new Set(this.patients.filter((p) => p.deletedAt).map((p) => p.id));
+    return this.weeklyPlanAssignments.filter(
+      (a) => !trashedPlanIds.has(a.planId) && !(a.patientId && trashedPatientIds.has(a.patientId)),
+    );
+  }
+
   async getWeeklyPlanAssignments(planId?: string, groupId?: string, patientId?: string): Promise<WeeklyPlanAssignment[]> {
-    let results = [...this.weeklyPlanAssignments];
+    let results = this.visibleWeeklyPlanAssignments();
     
     if (planId) {
       results = results.filter(a => a.planId === planId);
@@ -479,7 +531,7 @@ export class MemStorage implements IStorage {
   }
 
   async getWeeklyPlanAssignment(id: string): Promise<WeeklyPlanAssignment | null> {
-    return this.weeklyPlanAssignments.find(a => a.id === id) || null;
+    return this.visibleWeeklyPlanAssignments().find(a => a.id === id) || null;
   }
 
   async createWeeklyPlanAssignment(data: InsertWeeklyPlanAssignment): Promise<WeeklyPlanAssignment> {
@@ -560,18 +612,18 @@ export class MemStorage implements IStorage {
   // ============================================================================
 
   async getPatients(): Promise<Patient[]> {
-    return [...this.patients].sort((a, b) => a.name.localeCompare(b.name));
+    return this.patients.filter((p) => !p.deletedAt).sort((a, b) => a.name.localeCompare(b.name));
   }
 
   async getPatient(id: string): Promise<Patient | null> {
-    return this.patients.find((p) => p.id === id) || null;
+    return this.patients.find((p) => p.id === id && !p.deletedAt) || null;
   }
 
   async getPatientProfile(id: string): Promise<PatientProfile | null> {
     const patient = await this.getPatient(id);
     if (!patient) return null;
     
-    const measurements = this.measurements.filter((m) => m.patientId === id);
+    const measurements = this.measurements.filter((m) => m.patientId === id && !m.deletedAt);
     const latestMeasurement = measurements.length > 0 ? measurements[measurements.length - 1] : null;
     
     const groupMemberships = this.groupMemberships.filter((gm) => gm.patientId === id);
@@ -601,15 +653,21 @@ export class MemStorage implements IStorage {
       sportType: data.sportType ?? null,
       exerciseDays: data.exerciseDays ?? null,
       exerciseSchedule: data.exerciseSchedule ?? null,
+      trainingSessions: data.trainingSessions ?? null,
+      competitionWeekdays: data.competitionWeekdays ?? null,
+      mealDistribution: data.mealDistribution ?? null,
       isVegetarian: data.isVegetarian ?? false,
       isVegan: data.isVegan ?? false,
       foodAllergies: data.foodAllergies ?? null,
       foodDislikes: data.foodDislikes ?? null,
+      allergens: data.allergens ?? null,
       medicalConditions: data.medicalConditions ?? null,
       medications: data.medications ?? null,
+      followUpCadenceDays: data.followUpCadenceDays ?? null,
       version: 1,
       createdAt: new Date(),
       updatedAt: new Date(),
+      deletedAt: null,
     };
     
     this.patients.push(patient);
@@ -617,7 +675,7 @@ export class MemStorage implements IStorage {
   }
 
   async updatePatient(id: string, data: Partial<InsertPatient>, expectedVersion?: number): Promise<Patient | null> {
-    const index = this.patients.findIndex((p) => p.id === id);
+    const index = this.patients.findIndex((p) => p.id === id && !p.deletedAt);
     if (index === -1) return null;
     
     const patient = this.patients[index];
@@ -642,15 +700,9 @@ export class MemStorage implements IStorage {
   }
 
   async deletePatient(id: string): Promise<boolean> {
-    const index = this.patients.findIndex((p) => p.id === id);
-    if (index === -1) return false;
-    
-    // Also delete related data
-    this.measurements = this.measurements.filter((m) => m.patientId !== id);
-    this.dietAssignments = this.dietAssignments.filter((da) => da.patientId !== id);
-    this.groupMemberships = this.groupMemberships.filter((gm) => gm.patientId !== id);
-    
-    this.patients.splice(index, 1);
+    const patient = await this.getPatient(id);
+    if (!patient) return false;
+    patient.deletedAt = new Date();
     return true;
   }
 
@@ -671,6 +723,7 @@ export class MemStorage implements IStorage {
       name: data.name,
       description: data.description ?? null,
       color: assignedColor,
+      followUpCadenceDays: data.followUpCadenceDays ?? null,
       version: 1,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -710,7 +763,8 @@ export class MemStorage implements IStorage {
   }
 
   async getGroupMemberships(groupId?: string, patientId?: string): Promise<GroupMembership[]> {
-    let results = [...this.groupMemberships];
+    const trashedPatientIds = new Set(this.patients.filter((p) => p.deletedAt).map((p) => p.id));
+    let results = this.groupMemberships.filter((gm) => !trashedPatientIds.has(gm.patientId));
     
     if (groupId) {
       results = results.filter((gm) => gm.groupId === groupId);
@@ -783,7 +837,96 @@ export class MemStorage implements IStorage {
   }
 
   async getLatestMeasurement(patientId: string): Promise<Measurement | null> {
-    throw new Error("MemStorage not implemented yet - use DbStorage when Neon is enabled");
+    const patientMeasurements = this.measurements
+      .filter((m) => m.patientId === patientId && !m.deletedAt)
+      .sort((a, b) => new Date(b.measurementDate).getTime() - new Date(a.measurementDate).getTime());
+    return patientMeasurements[0] || null;
+  }
+
+  async getEvaluators(): Promise<Evaluator[]> {
+    return [...this.evaluators].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getEvaluator(id: string): Promise<Evaluator | null> {
+    return this.evaluators.find((e) => e.id === id) || null;
+  }
+
+  async createEvaluator(data: InsertEvaluator): Promise<Evaluator> {
+    const evaluator: Evaluator = {
+      id: nanoid(),
+      name: data.name,
+      email: data.email ?? null,
+      isakLevel: data.isakLevel ?? null,
+      certificationExpiresAt: data.certificationExpiresAt ?? null,
+      isActive: data.isActive ?? true,
+      temValues: null,
+      temUpdatedAt: null,
+      notes: data.notes ?? null,
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.evaluators.push(evaluator);
+    return evaluator;
+  }
+
+  async updateEvaluator(
+    id: string,
+    data: Partial<InsertEvaluator>,
+    expectedVersion?: number
+  ): Promise<Evaluator | null> {
+    const index = this.evaluators.findIndex((e) => e.id === id);
+    if (index === -1) return null;
+
+    const current = this.evaluators[index];
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      throw new VersionConflictError();
+    }
+
+    const updated: Evaluator = {
+      ...current,
+      ...data,
+      version: current.version + 1,
+      updatedAt: new Date(),
+    };
+    this.evaluators[index] = updated;
+    return updated;
+  }
+
+  async deleteEvaluator(id: string): Promise<boolean> {
+    const initialLength = this.evaluators.length;
+    this.evaluators = this.evaluators.filter((e) => e.id !== id);
+    this.evaluatorTemStudies = this.evaluatorTemStudies.filter((s) => s.evaluatorId !== id);
+    return this.evaluators.length < initialLength;
+  }
+
+  async getEvaluatorTemStudies(evaluatorId: string): Promise<EvaluatorTemStudy[]> {
+    return this.evaluatorTemStudies
+      .filter((s) => s.evaluatorId === evaluatorId)
+      .sort((a, b) => b.studyDate.getTime() - a.studyDate.getTime());
+  }
+
+  async createEvaluatorTemStudy(data: InsertEvaluatorTemStudy, results: EvaluatorTEM): Promise<EvaluatorTemStudy> {
+    const study: EvaluatorTemStudy = {
+      id: nanoid(),
+      evaluatorId: data.evaluatorId,
+      studyDate: data.studyDate ?? new Date(),
+      source: data.source ?? "manual",
+      pairs: data.pairs,
+      results,
+      notes: data.notes ?? null,
+      createdAt: new Date(),
+    };
+    this.evaluatorTemStudies.push(study);
+
+    const evaluator = this.evaluators.find((e) => e.id === data.evaluatorId);
+    if (evaluator) {
+      evaluator.temValues = results;
+      evaluator.temUpdatedAt = study.studyDate;
+      evaluator.version += 1;
+      evaluator.updatedAt = new Date();
+    }
+    return study;
   }
 
   async getMeasurementCalculations(measurementId: string): Promise<MeasurementCalculation[]> {
@@ -925,11 +1068,76 @@ export class MemStorage implements IStorage {
     throw new Error("MemStorage not implemented yet - use DbStorage when Neon is enabled");
   }
 
+  // BIA Measurements
+  async getBiaMeasurements(patientId: string): Promise<BiaMeasurement[]> {
+    return this.biaMeasurements
+      .filter((bia) => bia.patientId === patientId)
+      .sort((a, b) => new Date(b.measurementDate).getTime() - new Date(a.measurementDate).getTime());
+  }
+
+  async getBiaMeasurement(id: string): Promise<BiaMeasurement | null> {
+    return this.biaMeasurements.find((bia) => bia.id === id) || null;
+  }
+
+  async createBiaMeasurement(data: InsertBiaMeasurement): Promise<BiaMeasurement> {
+    const bia: BiaMeasurement = {
+      id: nanoid(),
+      patientId: data.patientId,
+      measurementDate: data.measurementDate,
+      device: data.device ?? null,
+      source: data.source ?? "manual",
+      weight: data.weight ?? null,
+      fatMassKg: data.fatMassKg ?? null,
+      bodyFatPercentage: data.bodyFatPercentage ?? null,
+      fatFreeMassKg: data.fatFreeMassKg ?? null,
+      skeletalMuscleMassKg: data.skeletalMuscleMassKg ?? null,
+      totalBodyWaterL: data.totalBodyWaterL ?? null,
+      intracellularWaterL: data.intracellularWaterL ?? null,
+      extracellularWaterL: data.extracellularWaterL ?? null,
+      visceralFatLevel: data.visceralFatLevel ?? null,
+      phaseAngle: data.phaseAngle ?? null,
+      basalMetabolicRate: data.basalMetabolicRate ?? null,
+      segmental: data.segmental ?? null,
+      rawData: data.rawData ?? null,
+      notes: data.notes ?? null,
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.biaMeasurements.push(bia);
+    return bia;
+  }
+
+  async updateBiaMeasurement(id: string, data: Partial<InsertBiaMeasurement>, expectedVersion?: number): Promise<BiaMeasurement | null> {
+    const index = this.biaMeasurements.findIndex((bia) => bia.id === id);
+    if (index === -1) return null;
+
+    const current = this.biaMeasurements[index];
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      throw new VersionConflictError();
+    }
+
+    const updated: BiaMeasurement = {
+      ...current,
+      ...data,
+      version: current.version + 1,
+      updatedAt: new Date(),
+    };
+    this.biaMeasurements[index] = updated;
+    return updated;
+  }
+
+  async deleteBiaMeasurement(id: string): Promise<boolean> {
+    const initialLength = this.biaMeasurements.length;
+    this.biaMeasurements = this.biaMeasurements.filter((bia) => bia.id !== id);
+    return this.biaMeasurements.length < initialLength;
+  }
+
   async getGroupStatistics(): Promise<GroupStatistics[]> {
     const stats: GroupStatistics[] = [];
     
     for (const group of this.patientGroups) {
-      const memberships = this.groupMemberships.filter((gm) => gm.groupId === group.id);
+      const memberships = await this.getGroupMemberships(group.id);
       const patientIds = memberships.map((gm) => gm.patientId);
       
       stats.push({
@@ -1039,12 +1247,12 @@ export class MemStorage implements IStorage {
   // Consultations
   async getConsultationsByPatient(patientId: string): Promise<Consultation[]> {
     return this.consultationsData
-      .filter((consultation) => consultation.patientId === patientId)
+      .filter((consultation) => consultation.patientId === patientId && !consultation.deletedAt)
       .sort((a, b) => new Date(b.consultationDate).getTime() - new Date(a.consultationDate).getTime());
   }
 
   async getConsultation(id: string): Promise<Consultation | null> {
-    return this.consultationsData.find((consultation) => consultation.id === id) || null;
+    return this.consultationsData.find((consultation) => consultation.id === id && !consultation.deletedAt) || null;
   }
 
   async createConsultation(data: InsertConsultation): Promise<Consultation> {
@@ -1057,9 +1265,11 @@ export class MemStorage implements IStorage {
       dietaryPreferences: data.dietaryPreferences ?? null,
       supplements: data.supplements ?? null,
       notes: data.notes ?? null,
+      notesShared: data.notesShared ?? false,
       attachments: data.attachments ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
+      deletedAt: null,
     };
     this.consultationsData.push(consultation);
     return consultation;
@@ -1081,21 +1291,141 @@ export class MemStorage implements IStorage {
   }
 
   async deleteConsultation(id: string): Promise<boolean> {
-    const initialLength = this.consultationsData.length;
-    this.consultationsData = this.consultationsData.filter((consultation) => consultation.id !== id);
-    return this.consultationsData.length < initialLength;
+    const consultation = await this.getConsultation(id);
+    if (!consultation) return false;
+    consultation.deletedAt = new Date();
+    return true;
   }
 
   async getConsultationSummaries(patientId: string): Promise<ConsultationSummary[]> {
     const consultations = await this.getConsultationsByPatient(patientId);
     return consultations.map((consultation) => ({
       consultation,
-      measurements: this.measurements.filter((m) => m.consultationId === consultation.id),
+      measurements: this.measurements.filter((m) => m.consultationId === consultation.id && !m.deletedAt),
       dietAssignments: this.dietAssignments.filter((d) => d.consultationId === consultation.id),
-      reports: this.reports.filter((r) => r.consultationId === consultation.id),
+      reports: this.reports.filter(
+        (r) => r.consultationId === consultation.id && !this.measurements.some((m) => m.id === r.measurementId && m.deletedAt),
+      ),
     }));
   }
 
+  async getAppointments(filters: AppointmentFilters = {}): Promise<AppointmentWithPatient[]> {
+    const patientsById = new Map(this.patients.filter((p) => !p.deletedAt).map((p) => [p.id, p]));
+    return this.appointments
+      .filter((a) => patientsById.has(a.patientId))
+      .filter((a) => !filters.from || a.startsAt >= filters.from)
+      .filter((a) => !filters.to || a.startsAt < filters.to)
+      .filter((a) => !filters.patientId || a.patientId === filters.patientId)
+      .filter((a) => !filters.userId || a.userId === filters.userId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+      .map((a) => ({ ...a, patientName: patientsById.get(a.patientId)!.name }));
+  }
+
+  async getAppointment(id: string): Promise<Appointment | null> {
+    return this.appointments.find((a) => a.id === id) || null;
+  }
+
+  async createAppointment(data: InsertAppointment): Promise<Appointment> {
+    const appointment: Appointment = {
+      id: nanoid(),
+      patientId: data.patientId,
+      userId: data.userId ?? null,
+      startsAt: data.startsAt,
+      durationMinutes: data.durationMinutes ?? 30,
+      type: data.type ?? "follow_up",
+      status: data.status ?? "scheduled",
+      reason: data.reason ?? null,
+      consultationId: null,
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.appointments.push(appointment);
+    return appointment;
+  }
+
+  async updateAppointment(
+    id: string,
+    data: Partial<InsertAppointment> & { consultationId?: string | null },
+    expectedVersion?: number
+  ): Promise<Appointment | null> {
+    const index = this.appointments.findIndex((a) => a.id === id);
+    if (index === -1) return null;
+
+    const current = this.appointments[index];
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      throw new VersionConflictError();
+    }
+
+    const updated: Appointment = {
+      ...current,
+      ...data,
+      version: current.version + 1,
+      updatedAt: new Date(),
+    };
+    this.appointments[index] = updated;
+    return updated;
+  }
+
+  async deleteAppointment(id: string): Promise<boolean> {
+    const initialLength = this.appointments.length;
+    this.appointments = this.appointments.filter((a) => a.id !== id);
+    return this.appointments.length < initialLength;
+  }
+
+  async getFollowUpContacts(patientId?: string): Promise<FollowUpContact[]> {
+    return this.followUpContacts
+      .filter((c) => !patientId || c.patientId === patientId)
+      .sort((a, b) => b.contactedAt.getTime() - a.contactedAt.getTime());
+  }
+
+  async createFollowUpContact(data: InsertFollowUpContact): Promise<FollowUpContact> {
+    const contact: FollowUpContact = {
+      id: nanoid(),
+      patientId: data.patientId,
+      userId: data.userId ?? null,
+      contactedAt: new Date(),
+      note: data.note ?? null,
+    };
+    this.followUpContacts.push(contact);
+    return contact;
+  }
+
+  async getPatientShareLinks(patientId: string): Promise<PatientShareLink[]> {
+    return this.patientShareLinks
+      .filter((l) => l.patientId === patientId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPatientShareLink(id: string): Promise<PatientShareLink | null> {
+    return this.patientShareLinks.find((l) => l.id === id) || null;
+  }
+
+  async createPatientShareLink(data: InsertPatientShareLink): Promise<PatientShareLink> {
+    const link: PatientShareLink = {
+      id: nanoid(),
+      patientId: data.patientId,
+      createdByUserId: data.createdByUserId ?? null,
+      expiresAt: data.expiresAt,
+      revokedAt: null,
+      lastAccessedAt: null,
+      createdAt: new Date(),
+    };
+    this.patientShareLinks.push(link);
+    return link;
+  }
+
+  async updatePatientShareLink(
+    id: string,
+    data: Partial<Pick<PatientShareLink, "revokedAt" | "lastAccessedAt">>
+  ): Promise<PatientShareLink | null> {
+    const index = this.patientShareLinks.findIndex((l) => l.id === id);
+    if (index === -1) return null;
+    const updated: PatientShareLink = { ...this.patientShareLinks[index], ...data };
+    this.patientShareLinks[index] = updated;
+    return updated;
+  }
+
   async getNutritionistSettings(): Promise<NutritionistSettings> {
     return this.nutritionistSettings;
   }
@@ -1108,4 +1438,263 @@ export class MemStorage implements IStorage {
     };
     return this.nutritionistSettings;
   }
+
+  async getUsers(): Promise<User[]> {
+    return [...this.users].sort((a, b) => a.displayName.localeCompare(b.displayName));
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    return this.users.find((u) => u.id === id) || null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    return this.users.find((u) => u.username === username.toLowerCase()) || null;
+  }
+
+  async createUser(data: InsertUser): Promise<User> {
+    const user: User = {
+      id: nanoid(),
+      username: data.username.toLowerCase(),
+      passwordHash: data.passwordHash,
+      displayName: data.displayName,
+      role: data.role ?? "readonly",
+      isActive: data.isActive ?? true,
+      lastLoginAt: null,
+      calendarFeedToken: null,
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.users.push(user);
+    return user;
+  }
+
+  async updateUser(id: string, data: Partial<InsertUser>, expectedVersion?: number): Promise<User | null> {
+    const index = this.users.findIndex((u) => u.id === id);
+    if (index === -1) return null;
+
+    const current = this.users[index];
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      throw new VersionConflictError();
+    }
+
+    const updated: User = {
+      ...current,
+      ...data,
+      username: data.username ? data.username.toLowerCase() : current.username,
+      version: current.version + 1,
+      updatedAt: new Date(),
+    };
+    this.users[index] = updated;
+    return updated;
+  }
+
+  async recordUserLogin(id: string): Promise<void> {
+    const user = this.users.find((u) => u.id === id);
+    if (user) user.lastLoginAt = new Date();
+  }
+
+  async getUserByCalendarFeedToken(token: string): Promise<User | null> {
+    return this.users.find((u) => u.calendarFeedToken === token) || null;
+  }
+
+  async setUserCalendarFeedToken(id: string, token: string | null): Promise<void> {
+    const user = this.users.find((u) => u.id === id);
+    if (user) user.calendarFeedToken = token;
+  }
+
+  // Trash
+  private trashCollection(entityType: TrashEntityType): TrashRecord[] {
+    switch (entityType) {
+      case "patient":
+        return this.patients;
+      case "measurement":
+        return this.measurements;
+      case "consultation":
+        return this.consultationsData;
+      case "meal":
+        return this.meals;
+      case "weeklyDietPlan":
+        return this.weeklyDietPlans;
+    }
+  }
+
+  async getTrash(): Promise<TrashItem[]> {
+    const { trashRetentionDays } = this.nutritionistSettings;
+    const patientName = (patientId: string) => this.patients.find((p) => p.id === patientId)?.name ?? null;
+    return [
+      ...this.patients
+        .filter((p) => p.deletedAt)
+        .map((p) => toTrashItem("patient", { id: p.id, name: p.name, deletedAt: p.deletedAt }, trashRetentionDays)),
+      ...this.measurements
+        .filter((m) => m.deletedAt)
+        .map((m) =>
+          toTrashItem(
+            "measurement",
+            { id: m.id, date: m.measurementDate, patientName: patientName(m.patientId), deletedAt: m.deletedAt },
+            trashRetentionDays,
+          ),
+        ),
+      ...this.consultationsData
+        .filter((c) => c.deletedAt)
+        .map((c) =>
+          toTrashItem(
+            "consultation",
+            { id: c.id, date: c.consultationDate, patientName: patientName(c.patientId), deletedAt: c.deletedAt },
+            trashRetentionDays,
+          ),
+        ),
+      ...this.meals
+        .filter((m) => m.deletedAt)
+        .map((m) => toTrashItem("meal", { id: m.id, name: m.name, deletedAt: m.deletedAt }, trashRetentionDays)),
+      ...this.weeklyDietPlans
+        .filter((p) => p.deletedAt)
+        .map((p) => toTrashItem("weeklyDietPlan", { id: p.id, name: p.name, deletedAt: p.deletedAt }, trashRetentionDays)),
+    ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async restoreFromTrash(entityType: TrashEntityType, id: string): Promise<TrashRecord | null> {
+    const record = this.trashCollection(entityType).find((item) => item.id === id && item.deletedAt);
+    if (!record) return null;
+    record.deletedAt = null;
+    return record;
+  }
+
+  async purgeFromTrash(entityType: TrashEntityType, id: string): Promise<TrashRecord | null> {
+    const record = this.trashCollection(entityType).find((item) => item.id === id && item.deletedAt);
+    if (!record) return null;
+
+    switch (entityType) {
+      case "patient":
+        this.patients = this.patients.filter((p) => p.id !== id);
+        this.measurements = this.measurements.filter((m) => m.patientId !== id);
+        this.consultationsData = this.consultationsData.filter((c) => c.patientId !== id);
+        this.dietAssignments = this.dietAssignments.filter((da) => da.patientId !== id);
+        this.groupMemberships = this.groupMemberships.filter((gm) => gm.patientId !== id);
+        this.appointments = this.appointments.filter((a) => a.patientId !== id);
+        this.followUpContacts = this.followUpContacts.filter((c) => c.patientId !== id);
+        this.patientShareLinks = this.patientShareLinks.filter((l) => l.patientId !== id);
+        break;
+      case "measurement":
+        this.measurements = this.measurements.filter((m) => m.id !== id);
+        break;
+      case "consultation":
+        this.consultationsData = this.consultationsData.filter((c) => c.id !== id);
+        break;
+      case "meal":
+        this.meals = this.meals.filter((m) => m.id !== id);
+        this.mealTagAssignments = this.mealTagAssignments.filter((a) => a.mealId !== id);
+        break;
+      case "weeklyDietPlan":
+        this.weeklyDietPlans = this.weeklyDietPlans.filter((p) => p.id !== id);
+        this.weeklyPlanMeals = this.weeklyPlanMeals.filter((m) => m.planId !== id);
+        break;
+    }
+    return record;
+  }
+
+  // Patient Merges
+  async mergePatients(input: PatientMergeInput): Promise<PatientMergeResult | null> {
+    const { survivorId, duplicateId } = input;
+    const survivorIndex = this.patients.findIndex((p) => p.id === survivorId && !p.deletedAt);
+    const duplicate = this.patients.find((p) => p.id === duplicateId && !p.deletedAt);
+    if (survivorIndex === -1 || !duplicate) return null;
+
+    const survivor = this.patients[survivorIndex];
+    if (survivor.version !== input.survivorVersion) {
+      throw new VersionConflictError(
+        `Patient version mismatch: expected ${input.survivorVersion}, got ${survivor.version}`
+      );
+    }
+
+    // Grupos que ya comparten: la membresía del duplicado sobra
+    const survivorGroupIds = new Set(
+      this.groupMemberships.filter((m) => m.patientId === survivorId).map((m) => m.groupId),
+    );
+    this.groupMemberships = this.groupMemberships.filter(
+      (m) => !(m.patientId === duplicateId && survivorGroupIds.has(m.groupId)),
+    );
+
+    const reassign = (records: { patientId: string | null }[]) => {
+      let moved = 0;
+      for (const record of records) {
+        if (record.patientId === duplicateId) {
+          record.patientId = survivorId;
+          moved++;
+        }
+      }
+      return moved;
+    };
+    const movedRecords = {
+      measurements: reassign(this.measurements),
+      consultations: reassign(this.consultationsData),
+      reports: reassign(this.reports),
+      biochemicalResults: 0, // MemStorage no guarda análisis bioquímicos
+      biaMeasurements: reassign(this.biaMeasurements),
+      groupMemberships: reassign(this.groupMemberships),
+      dietAssignments: reassign(this.dietAssignments),
+      dietGenerations: reassign(this.dietGenerations),
+      weeklyPlanAssignments: reassign(this.weeklyPlanAssignments),
+      appointments: reassign(this.appointments),
+      followUpContacts: reassign(this.followUpContacts),
+      patientShareLinks: reassign(this.patientShareLinks),
+    };
+
+    const updated: Patient = {
+      ...survivor,
+      ...input.updates,
+      id: survivor.id,
+      version: survivor.version + 1,
+      updatedAt: new Date(),
+    };
+    this.patients[survivorIndex] = updated;
+    this.patients = this.patients.filter((p) => p.id !== duplicateId);
+
+    const merge: PatientMerge = {
+      id: nanoid(),
+      survivorId,
+      duplicateId,
+      duplicateName: duplicate.name,
+      duplicateSnapshot: duplicate,
+      fieldChoices: input.fieldChoices,
+      movedRecords,
+      userId: input.userId,
+      userName: input.userName,
+      createdAt: new Date(),
+    };
+    this.patientMerges.push(merge);
+    return { survivor: updated, merge };
+  }
+
+  async getPatientMerges(survivorId?: string): Promise<PatientMerge[]> {
+    return this.patientMerges
+      .filter((merge) => !survivorId || merge.survivorId === survivorId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Audit Log
+  async createAuditLogEntry(data: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const entry: AuditLogEntry = {
+      id: nanoid(),
+      entityType: data.entityType,
+      entityId: data.entityId,
+      patientId: data.patientId ?? null,
+      action: data.action,
+      changes: data.changes,
+      userId: data.userId ?? null,
+      userName: data.userName ?? null,
+      createdAt: new Date(),
+    };
+    this.auditLog.push(entry);
+    return entry;
+  }
+
+  async getAuditLog(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+    return this.auditLog
+      .filter((entry) => !filters.patientId || entry.patientId === filters.patientId)
+      .filter((entry) => !filters.entityType || entry.entityType === filters.entityType)
+      .filter((entry) => !filters.entityId || entry.entityId === filters.entityId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, filters.limit ?? 200);
+  }
 }
@@ -1,4 +1,4 @@
-import { Router, type Express } from "express";
+import { Router, type Express, type Request, type Response } from "express";
 import { z } from "zod";
 import { storage } from "./db-storage";
 import {
@@ -12,6 +12,8 @@ import {
   insertReportSchema,
   insertBiochemicalResultSchema,
   updateBiochemicalResultSchema,
+  insertBiaMeasurementSchema,
+  updateBiaMeasurementSchema,
   insertMealSchema,
   insertMealTagSchema,
   insertMealTagAssignmentSchema,
@@ -19,19 +21,101 @@ import {
   insertWeeklyPlanMealSchema,
   insertWeeklyPlanAssignmentSchema,
   insertConsultationSchema,
+  insertAppointmentSchema,
+  insertEvaluatorSchema,
+  insertEvaluatorTemStudySchema,
   insertDietTemplateSchema,
   insertDietGenerationSchema,
   insertDietMealPlanSchema,
   insertDietExerciseBlockSchema,
+  mealDistributionSchema,
+  customProtocolSchema,
+  type Measurement,
+  type InsertMeasurement,
+  type Patient,
+  type InsertPatient,
 } from "@shared/schema";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { wsManager } from "./websocket";
 import { VersionConflictError } from "./storage";
+import passport from "passport";
+import {
+  authorizeApiRequest,
+  hashPassword,
+  isLoginLocked,
+  recordLoginAttempt,
+  serverSecret,
+  toPublicUser,
+  verifyPassword,
+} from "./auth";
+import { CLINICAL_NOTE_FIELDS, MIN_PASSWORD_LENGTH, USER_ROLES, hasPermission } from "@shared/auth";
+import { isAuditedEntityType, type AuditFieldChange } from "@shared/audit-log";
+import { isTrashEntityType, MAX_TRASH_RETENTION_DAYS, MIN_TRASH_RETENTION_DAYS } from "@shared/trash";
+import { findDuplicatePairs, patientMergeRequestSchema, resolvePatientMergeUpdates } from "@shared/patient-merge";
+import { buildAppointmentsCalendar, getDefaultAppointmentDuration } from "@shared/appointments";
 import { imageService } from "./services/image-service";
 import { saveAvatar, deleteAvatar } from "./services/avatar-service";
-import { calculateAll } from "./services/measurement-calculations";
+import { getBiaComparison } from "./services/bia-comparison";
+import { findPlanAllergenConflicts } from "./services/plan-allergen-conflicts";
+import {
+  getFollowUpReminders,
+  invalidateFollowUpReminders,
+  refreshFollowUpReminders,
+} from "./services/follow-up-reminders";
+import {
+  buildPatientPortal,
+  createPortalToken,
+  findActivePlanAssignment,
+  getPortalPath,
+  getShareLinkExpiry,
+  resolvePortalAccess,
+  toShareLinkSummary,
+} from "./services/patient-portal";
+import { patientShareLinkRequestSchema } from "@shared/patient-portal";
+import { GoalSimulationError, simulatePatientGoal } from "./services/goal-simulation";
+import { evaluateMeasurementPlausibility, getAgeAt, getEvaluatorTem } from "./services/measurement-plausibility";
+import { saveMeasurementCalculations, recalculateMeasurements, type RecalculationScope } from "./services/measurement-recalculation";
+import {
+  explainAllCalculations,
+  explainCalculation,
+  getInputSnapshot,
+  isExplainableField,
+} from "./services/calculation-explanations";
+import {
+  REFERENCE_POPULATIONS,
+  ISAK_SITES,
+  resolveMeasurementTrials,
+  calculateEvaluatorTEM,
+  extractTrialPairs,
+  type EvaluatorTEM,
+  type MeasurementSiteKey,
+  type MeasurementTrials,
+  type TrialPairs,
+} from "@shared/isak-calculations";
+import { BODY_FAT_EQUATIONS, isBodyFatEquationId, type BodyFatEquationId } from "@shared/body-fat-equations";
+import { BMR_EQUATIONS, type BmrEquationId } from "@shared/energy-equations";
+import {
+  findProtocol,
+  getMissingRequiredSites,
+  getProtocolCalculations,
+  getProtocolSites,
+  isMeasurementSiteKey,
+  listProtocols,
+  type MeasurementProtocolSummary,
+  type MeasurementProtocolsResponse,
+} from "@shared/measurement-protocols";
+import { parseLegacyTrainingSchedule } from "@shared/training-schedule";
+import { parseBiaCsv, toBiaColumnValues } from "@shared/bia-import";
+import {
+  DEFAULT_CONFIDENCE_LEVEL,
+  compareMeasurements,
+  isConfidenceLevel,
+  type ConfidenceLevel,
+  type MeasurementComparisonResult,
+} from "@shared/measurement-comparison";
 import { generateMeasurementReport } from "./services/pdf-report-service";
-import { generateWeeklyPlanPDF } from "./services/weekly-plan-pdf-service";
+import { generateWeeklyPlanPDF, renderWeeklyPlanPDF } from "./services/weekly-plan-pdf-service";
 import multer from "multer";
 import path from "path";
 import fs from "fs/promises";
@@ -66,6 +150,8 @@ const MEASUREMENT_DECIMAL_FIELDS = [
   "abdominal",
   "thighSkinfold",
   "calfSkinfold",
+  "chestSkinfold",
+  "midaxillarySkinfold",
 ];
 
 // Helper function for request validation
@@ -97,6 +183,336 @@ function normalizeMeasurementPayload<T extends Record<string, unknown>>(payload:
   return normalized as T;
 }
 
+/**
+ * Si la medición trae tomas repetidas, limpia los valores crudos y reemplaza
+ * cada sitio por su valor final ISAK (media de dos, mediana de tres).
+ * Devuelve los sitios que todavía necesitan una tercera toma; la tolerancia
+ * usa el ETM del evaluador cuando tiene un estudio test-retest.
+ */
+function applyMeasurementTrials<T extends Record<string, unknown>>(
+  payload: T,
+  evaluatorTem?: EvaluatorTEM | null,
+  existingTrials?: unknown,
+): { payload: T; pendingThirdTrial: MeasurementSiteKey[]; clearedSites: MeasurementSiteKey[] } {
+  const rawTrials = payload.rawTrials;
+  if (!rawTrials || typeof rawTrials !== "object") {
+    return { payload, pendingThirdTrial: [], clearedSites: [] };
+  }
+
+  // En una edición sólo se reemplazan los sitios enviados; un sitio enviado vacío borra sus tomas y su valor final
+  const trials: MeasurementTrials =
+    existingTrials && typeof existingTrials === "object" ? { ...(existingTrials as MeasurementTrials) } : {};
+  const incoming: MeasurementTrials = {};
+  const clearedSites: MeasurementSiteKey[] = [];
+  for (const [site, values] of Object.entries(rawTrials as Record<string, unknown>)) {
+    if (!MEASUREMENT_DECIMAL_FIELDS.includes(site) || !Array.isArray(values)) continue;
+    const numeric = values
+      .filter((value) => value !== null && value !== "")
+      .map((value) => Number(value))
+      .filter((value) => Number.isFinite(value));
+    if (numeric.length > 0) {
+      incoming[site as MeasurementSiteKey] = numeric.slice(0, 3);
+      trials[site as MeasurementSiteKey] = numeric.slice(0, 3);
+    } else {
+      delete trials[site as MeasurementSiteKey];
+      clearedSites.push(site as MeasurementSiteKey);
+    }
+  }
+
+  // Los valores finales de los demás sitios quedan como están guardados
+  const resolved = resolveMeasurementTrials(incoming, evaluatorTem);
+  return {
+    payload: { ...payload, ...resolved.values, rawTrials: trials },
+    pendingThirdTrial: resolved.pendingThirdTrial,
+    clearedSites,
+  };
+}
+
+/**
+ * Compara dos mediciones del mismo paciente con el ETM de cada evaluador.
+ * El % de grasa se recalcula con la ecuación guardada en la medición actual.
+ */
+async function buildMeasurementComparison(
+  current: Measurement,
+  baseline: Measurement,
+  patient: Patient | null,
+  confidenceLevel: ConfidenceLevel = DEFAULT_CONFIDENCE_LEVEL,
+): Promise<MeasurementComparisonResult> {
+  const [currentTem, baselineTem, calculations, settings] = await Promise.all([
+    getEvaluatorTem(storage, current.evaluatorId),
+    getEvaluatorTem(storage, baseline.evaluatorId),
+    storage.getMeasurementCalculations(current.id),
+    storage.getNutritionistSettings(),
+  ]);
+  const storedEquation = calculations[0]?.bodyFatEquation;
+
+  return compareMeasurements(
+    { measurement: baseline, evaluatorTem: baselineTem },
+    { measurement: current, evaluatorTem: currentTem },
+    {
+      gender: patient?.gender ?? null,
+      age: getAgeAt(patient?.birthDate, current.measurementDate),
+      bodyFatEquation: isBodyFatEquationId(storedEquation) ? storedEquation : settings.bodyFatEquation,
+      densityConversion: settings.densityConversion,
+    },
+    confidenceLevel,
+  );
+}
+
+/**
+ * Sitios obligatorios del perfil de protocolo que faltan en la medición. Las
+ * mediciones sin protocolo (anteriores o importadas) no se validan; un perfil
+ * propio que ya no existe sólo es error si se lo está asignando ahora.
+ */
+async function getProtocolError(
+  protocolId: string | null | undefined,
+  values: Record<string, unknown>,
+  rejectUnknown = true,
+): Promise<{ error: string; sites?: MeasurementSiteKey[] } | null> {
+  if (!protocolId) return null;
+  const settings = await storage.getNutritionistSettings();
+  const protocol = findProtocol(protocolId, settings.customProtocols);
+  if (!protocol) {
+    return rejectUnknown ? { error: "Unknown measurement protocol" } : null;
+  }
+  const missing = getMissingRequiredSites(protocol, values);
+  return missing.length > 0 ? { error: "Missing required sites", sites: missing } : null;
+}
+
+/** Medición anterior del paciente (por fecha y luego por creación). */
+async function findPreviousMeasurement(measurement: Measurement): Promise<Measurement | null> {
+  const patientMeasurements = await storage.getMeasurements(measurement.patientId);
+  const sorted = [...patientMeasurements].sort((a, b) => {
+    const dateA = a.measurementDate ? new Date(a.measurementDate).getTime() : 0;
+    const dateB = b.measurementDate ? new Date(b.measurementDate).getTime() : 0;
+    if (dateA !== dateB) {
+      return dateA - dateB;
+    }
+    const createdA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
+    const createdB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
+    return createdA - createdB;
+  });
+  const index = sorted.findIndex((m) => m.id === measurement.id);
+  return index > 0 ? sorted[index - 1] : null;
+}
+
+// ===== AUTH =====
+const credentialsSchema = z.object({
+  username: z.string().trim().min(1).max(60),
+  password: z.string().min(1).max(200),
+});
+
+const newPasswordSchema = z.string().min(MIN_PASSWORD_LENGTH).max(200);
+
+const setupSchema = z.object({
+  username: z.string().trim().min(3).max(60).regex(/^[a-zA-Z0-9._-]+$/),
+  password: newPasswordSchema,
+  displayName: z.string().trim().min(1).max(120),
+});
+
+router.get("/api/auth/status", async (req, res) => {
+  try {
+    const users = await storage.getUsers();
+    res.json({
+      needsSetup: users.length === 0,
+      user: req.isAuthenticated() ? req.user : null,
+    });
+  } catch (error) {
+    console.error("Error fetching auth status:", error);
+    res.status(500).json({ error: "Failed to fetch auth status" });
+  }
+});
+
+// Sólo mientras no hay cuentas: crea la primera (nutricionista) e inicia sesión
+router.post("/api/auth/setup", async (req, res, next) => {
+  try {
+    const data = validate(setupSchema, req.body);
+    const users = await storage.getUsers();
+    if (users.length > 0) {
+      return res.status(409).json({ error: "Setup already completed" });
+    }
+    const user = await storage.createUser({
+      username: data.username,
+      displayName: data.displayName,
+      passwordHash: await hashPassword(data.password),
+      role: "nutritionist",
+      isActive: true,
+    });
+    req.login(toPublicUser(user), (error) => {
+      if (error) return next(error);
+      res.status(201).json(toPublicUser(user));
+    });
+  } catch (error) {
+    console.error("Error creating first user:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to create user" });
+  }
+});
+
+router.post("/api/auth/login", (req, res, next) => {
+  const parsed = credentialsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Validation error", details: parsed.error.errors });
+  }
+  const { username } = parsed.data;
+  if (isLoginLocked(username)) {
+    return res.status(429).json({ error: "Too many failed attempts" });
+  }
+
+  passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+    if (error) return next(error);
+    recordLoginAttempt(username, !!user);
+    if (!user) {
+      return res.status(401).json({ error: "Invalid credentials" });
+    }
+    req.login(user, async (loginError) => {
+      if (loginError) return next(loginError);
+      await storage.recordUserLogin(user.id).catch((err) => console.error("Error recording login:", err));
+      res.json(user);
+    });
+  })(req, res, next);
+});
+
+router.post("/api/auth/logout", (req, res, next) => {
+  wsManager.disconnectSession(req.sessionID);
+  req.logout((error) => {
+    if (error) return next(error);
+    req.session.destroy(() => {
+      res.clearCookie("connect.sid");
+      res.status(204).send();
+    });
+  });
+});
+
+router.post("/api/auth/password", async (req, res) => {
+  try {
+    const data = validate(z.object({ currentPassword: z.string().min(1), newPassword: newPasswordSchema }), req.body);
+    const user = await storage.getUser(req.user!.id);
+    if (!user || !(await verifyPassword(data.currentPassword, user.passwordHash))) {
+      return res.status(400).json({ error: "Current password is incorrect" });
+    }
+    await storage.updateUser(user.id, { passwordHash: await hashPassword(data.newPassword) });
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error changing password:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to change password" });
+  }
+});
+
+// Feed .ics de la agenda de la propia cuenta: regenerar el token invalida la URL anterior
+const calendarFeedUrl = (req: Request, token: string) =>
+  `${req.protocol}://${req.get("host")}/api/calendar-feed/${token}.ics`;
+
+router.get("/api/auth/calendar-feed", async (req, res) => {
+  try {
+    const user = await storage.getUser(req.user!.id);
+    res.json({ url: user?.calendarFeedToken ? calendarFeedUrl(req, user.calendarFeedToken) : null });
+  } catch (error) {
+    console.error("Error fetching calendar feed:", error);
+    res.status(500).json({ error: "Failed to fetch calendar feed" });
+  }
+});
+
+router.post("/api/auth/calendar-feed", async (req, res) => {
+  try {
+    const token = randomBytes(24).toString("hex");
+    await storage.setUserCalendarFeedToken(req.user!.id, token);
+    res.json({ url: calendarFeedUrl(req, token) });
+  } catch (error) {
+    console.error("Error creating calendar feed:", error);
+    res.status(500).json({ error: "Failed to create calendar feed" });
+  }
+});
+
+router.delete("/api/auth/calendar-feed", async (req, res) => {
+  try {
+    await storage.setUserCalendarFeedToken(req.user!.id, null);
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error revoking calendar feed:", error);
+    res.status(500).json({ error: "Failed to revoke calendar feed" });
+  }
+});
+
+// ===== USERS =====
+const userPayloadSchema = z.object({
+  username: z.string().trim().min(3).max(60).regex(/^[a-zA-Z0-9._-]+$/),
+  displayName: z.string().trim().min(1).max(120),
+  role: z.enum(USER_ROLES),
+  isActive: z.boolean().default(true),
+  password: newPasswordSchema,
+});
+
+router.get("/api/users", async (_req, res) => {
+  try {
+    const users = await storage.getUsers();
+    res.json(users.map(toPublicUser));
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    res.status(500).json({ error: "Failed to fetch users" });
+  }
+});
+
+router.post("/api/users", async (req, res) => {
+  try {
+    const { password, ...data } = validate(userPayloadSchema, req.body);
+    if (await storage.getUserByUsername(data.username)) {
+      return res.status(409).json({ error: "Username already exists" });
+    }
+    const user = await storage.createUser({ ...data, passwordHash: await hashPassword(password) });
+    res.status(201).json(toPublicUser(user));
+  } catch (error) {
+    console.error("Error creating user:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to create user" });
+  }
+});
+
+router.patch("/api/users/:id", async (req, res) => {
+  try {
+    const { version, ...updateData } = req.body;
+
+    if (version === undefined || version === null) {
+      return res.status(400).json({ error: "version field is required for updates" });
+    }
+
+    const { password, ...data } = validate(userPayloadSchema.omit({ username: true }).partial(), updateData);
+    // Evita que el consultorio se quede sin nadie que administre las cuentas
+    if (req.params.id === req.user!.id && ((data.role && data.role !== "nutritionist") || data.isActive === false)) {
+      return res.status(400).json({ error: "Cannot demote or deactivate your own account" });
+    }
+    const user = await storage.updateUser(
+      req.params.id,
+      { ...data, ...(password ? { passwordHash: await hashPassword(password) } : {}) },
+      Number(version),
+    );
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    // Los sockets abiertos se autorizaron con el rol anterior
+    if (data.role !== undefined || data.isActive !== undefined) {
+      wsManager.disconnectUser(user.id);
+    }
+    res.json(toPublicUser(user));
+  } catch (error) {
+    console.error("Error updating user:", error);
+    if (error instanceof VersionConflictError) {
+      return res.status(409).json({ error: "Version conflict - record was modified by another user" });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to update user" });
+  }
+});
+
 // ===== PATIENTS =====
 router.get("/api/patients", async (req, res) => {
   try {
@@ -137,10 +553,16 @@ router.get("/api/patients/:id/profile", async (req, res) => {
 router.post("/api/patients", async (req, res) => {
   try {
     const data = validate(insertPatientSchema, req.body);
+    // Altas que sólo traen los textos libres de actividad: se guarda también la agenda estructurada
+    if (!data.trainingSessions?.length) {
+      const legacySessions = parseLegacyTrainingSchedule(data);
+      if (legacySessions.length > 0) data.trainingSessions = legacySessions;
+    }
     const patient = await storage.createPatient(data);
     
     // Broadcast patient creation to all clients
     wsManager.notifyPatientCreated(patient);
+    invalidateFollowUpReminders();
     
     res.status(201).json(patient);
   } catch (error) {
@@ -152,6 +574,37 @@ router.post("/api/patients", async (req, res) => {
   }
 });
 
+const PATIENT_CALCULATION_FIELDS = [
+  "birthDate",
+  "gender",
+  "objective",
+  "exercisesRegularly",
+  "exerciseDays",
+  "exerciseSchedule",
+  "sportType",
+  "trainingSessions",
+  "competitionWeekdays",
+  "mealDistribution",
+  "referencePopulation",
+] as const;
+
+/**
+ * Recalcula las mediciones del paciente sin demorar la respuesta: el cambio ya
+ * quedó guardado, así que un error acá se registra en vez de devolver un 500.
+ * Los clientes se enteran del resultado por WebSocket.
+ */
+function recalculatePatientInBackground(patientId: string) {
+  recalculateMeasurements(storage, { type: "patient", patientId })
+    .then((summary) => {
+      if (summary.changed > 0) {
+        wsManager.notifyCalculationsRecalculated(summary);
+      }
+    })
+    .catch((error) => {
+      console.error(`Error recalculating measurements for patient ${patientId}:`, error);
+    });
+}
+
 router.patch("/api/patients/:id", async (req, res) => {
   try {
     const { version, ...updateData } = req.body;
@@ -179,6 +632,11 @@ router.patch("/api/patients/:id", async (req, res) => {
       return res.status(404).json({ error: "Patient not found" });
     }
     
+    // Edad, sexo, objetivo y actividad intervienen en los cálculos: recalcular sus mediciones
+    if (PATIENT_CALCULATION_FIELDS.some((field) => field in data)) {
+      recalculatePatientInBackground(patient.id);
+    }
+    
     // Delete old avatar if it was changed (after successful update)
     if (updateData.avatarUrl && existingPatient.avatarUrl && existingPatient.avatarUrl !== updateData.avatarUrl) {
       await deleteAvatar(existingPatient.avatarUrl).catch(err => {
@@ -189,6 +647,7 @@ router.patch("/api/patients/:id", async (req, res) => {
     
     // Broadcast patient update to all clients
     wsManager.notifyPatientUpdate(patient.id, patient);
+    invalidateFollowUpReminders();
     
     res.json(patient);
   } catch (error) {
@@ -212,6 +671,7 @@ router.delete("/api/patients/:id", async (req, res) => {
     
     // Broadcast patient deletion to all clients
     wsManager.notifyPatientDeleted(req.params.id);
+    invalidateFollowUpReminders();
     
     res.status(204).send();
   } catch (error) {
@@ -220,6 +680,83 @@ router.delete("/api/patients/:id", async (req, res) => {
   }
 });
 
+// ===== PATIENT MERGES =====
+router.get("/api/patient-duplicates", async (req, res) => {
+  try {
+    const [patients, measurements] = await Promise.all([storage.getPatients(), storage.getMeasurements()]);
+    const measurementCounts = new Map<string, number>();
+    measurements.forEach((measurement) => {
+      measurementCounts.set(measurement.patientId, (measurementCounts.get(measurement.patientId) ?? 0) + 1);
+    });
+    const pairs = findDuplicatePairs(
+      patients.map((patient) => ({ ...patient, measurementCount: measurementCounts.get(patient.id) ?? 0 })),
+    );
+    res.json(pairs);
+  } catch (error) {
+    console.error("Error detecting duplicate patients:", error);
+    res.status(500).json({ error: "Failed to detect duplicate patients" });
+  }
+});
+
+router.get("/api/patient-merges", async (req, res) => {
+  try {
+    const survivorId = typeof req.query.survivorId === "string" ? req.query.survivorId : undefined;
+    const merges = await storage.getPatientMerges(survivorId);
+    res.json(merges);
+  } catch (error) {
+    console.error("Error fetching patient merges:", error);
+    res.status(500).json({ error: "Failed to fetch patient merges" });
+  }
+});
+
+router.post("/api/patient-merges", async (req, res) => {
+  try {
+    const data = validate(patientMergeRequestSchema, req.body);
+    if (data.survivorId === data.duplicateId) {
+      return res.status(400).json({ error: "Cannot merge a patient into itself" });
+    }
+
+    const [survivor, duplicate] = await Promise.all([
+      storage.getPatient(data.survivorId),
+      storage.getPatient(data.duplicateId),
+    ]);
+    if (!survivor || !duplicate) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+
+    const result = await storage.mergePatients({
+      survivorId: data.survivorId,
+      duplicateId: data.duplicateId,
+      survivorVersion: data.survivorVersion,
+      updates: resolvePatientMergeUpdates(survivor, duplicate, data.fieldChoices) as Partial<InsertPatient>,
+      fieldChoices: data.fieldChoices,
+      userId: req.user?.id ?? null,
+      userName: req.user?.displayName ?? null,
+    });
+    if (!result) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+
+    // Las mediciones del duplicado se calcularon con su ficha: recalcular con la resultante
+    recalculatePatientInBackground(result.survivor.id);
+
+    wsManager.notifyPatientDeleted(data.duplicateId);
+    wsManager.notifyPatientUpdate(result.survivor.id, result.survivor);
+    invalidateFollowUpReminders();
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error("Error merging patients:", error);
+    if (error instanceof VersionConflictError) {
+      return res.status(409).json({ error: "Version conflict - record was modified by another user" });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to merge patients" });
+  }
+});
+
 // ===== PATIENT GROUPS =====
 router.get("/api/groups", async (req, res) => {
   try {
@@ -285,6 +822,7 @@ router.patch("/api/groups/:id", async (req, res) => {
     
     // Broadcast group update to all clients
     wsManager.notifyGroupUpdate(group.id, group);
+    invalidateFollowUpReminders();
     
     res.json(group);
   } catch (error) {
@@ -308,6 +846,7 @@ router.delete("/api/groups/:id", async (req, res) => {
     
     // Broadcast group deletion to all clients
     wsManager.notifyGroupDeleted(req.params.id);
+    invalidateFollowUpReminders();
     
     res.status(204).send();
   } catch (error) {
@@ -374,6 +913,7 @@ router.post("/api/memberships", async (req, res) => {
     
     // Broadcast membership update to all clients
     wsManager.notifyMembershipUpdate(membership);
+    invalidateFollowUpReminders();
     
     res.status(201).json(membership);
   } catch (error) {
@@ -398,6 +938,7 @@ router.post("/api/memberships/reassign", async (req, res) => {
     
     // Broadcast membership update to all clients
     wsManager.notifyMembershipUpdate({ patientId, newGroupId });
+    invalidateFollowUpReminders();
     
     res.json({ success: true });
   } catch (error) {
@@ -412,6 +953,7 @@ router.delete("/api/memberships/:id", async (req, res) => {
     if (!deleted) {
       return res.status(404).json({ error: "Membership not found" });
     }
+    invalidateFollowUpReminders();
     res.status(204).send();
   } catch (error) {
     console.error("Error deleting membership:", error);
@@ -420,6 +962,30 @@ router.delete("/api/memberships/:id", async (req, res) => {
 });
 
 // ===== MEASUREMENTS =====
+/**
+ * Perfiles de protocolo con los cálculos que habilita cada uno. Con patientId
+ * la ecuación de grasa se resuelve con el sexo del paciente.
+ */
+router.get("/api/measurement-protocols", async (req, res) => {
+  try {
+    const settings = await storage.getNutritionistSettings();
+    const patient = typeof req.query.patientId === "string" ? await storage.getPatient(req.query.patientId) : null;
+    const protocols = listProtocols(settings.customProtocols).map((protocol): MeasurementProtocolSummary => ({
+      ...protocol,
+      sites: getProtocolSites(protocol),
+      calculations: getProtocolCalculations(protocol, {
+        bodyFatEquation: settings.bodyFatEquation,
+        gender: patient?.gender ?? null,
+      }),
+    }));
+    const response: MeasurementProtocolsResponse = { defaultProtocolId: settings.defaultProtocolId, protocols };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching measurement protocols:", error);
+    res.status(500).json({ error: "Failed to fetch measurement protocols" });
+  }
+});
+
 router.get("/api/measurements", async (req, res) => {
   try {
     const { patientId } = req.query;
@@ -444,88 +1010,71 @@ router.get("/api/measurements/:id", async (req, res) => {
   }
 });
 
+/**
+ * Diferencias entre dos mediciones con su cambio mínimo detectable.
+ * Sin baselineId se compara con la medición anterior del paciente.
+ */
+router.get("/api/measurements/:id/compare", async (req, res) => {
+  try {
+    const confidence = req.query.confidence !== undefined ? Number(req.query.confidence) : DEFAULT_CONFIDENCE_LEVEL;
+    if (!isConfidenceLevel(confidence)) {
+      return res.status(400).json({ error: "confidence must be one of 80, 90, 95, 99" });
+    }
+
+    const current = await storage.getMeasurement(req.params.id);
+    if (!current) {
+      return res.status(404).json({ error: "Measurement not found" });
+    }
+
+    const { baselineId } = req.query;
+    const baseline = typeof baselineId === "string" && baselineId
+      ? await storage.getMeasurement(baselineId)
+      : await findPreviousMeasurement(current);
+    if (!baseline) {
+      return res.status(404).json({ error: "Baseline measurement not found" });
+    }
+    if (baseline.patientId !== current.patientId) {
+      return res.status(400).json({ error: "Both measurements must belong to the same patient" });
+    }
+
+    const patient = await storage.getPatient(current.patientId);
+    const comparison = await buildMeasurementComparison(current, baseline, patient, confidence);
+    res.json({ baselineId: baseline.id, currentId: current.id, ...comparison });
+  } catch (error) {
+    console.error("Error comparing measurements:", error);
+    res.status(500).json({ error: "Failed to compare measurements" });
+  }
+});
+
 router.post("/api/measurements", async (req, res) => {
   try {
-    const normalizedBody = normalizeMeasurementPayload(req.body);
+    const trials = applyMeasurementTrials(req.body, await getEvaluatorTem(storage, req.body.evaluatorId));
+    if (trials.pendingThirdTrial.length > 0) {
+      return res.status(400).json({ error: "Third trial required", sites: trials.pendingThirdTrial });
+    }
+    const normalizedBody: Record<string, unknown> = normalizeMeasurementPayload(trials.payload);
+    trials.clearedSites.forEach((site) => {
+      normalizedBody[site] = null;
+    });
     const data = validate(insertMeasurementSchema, normalizedBody);
-    const measurement = await storage.createMeasurement(data);
-    
-    // Obtener el paciente para acceder a edad y género
-    const patient = await storage.getPatient(measurement.patientId);
-    let patientAge = null;
-    let patientGender = null;
-    
-    if (patient) {
-      patientGender = patient.gender;
-      if (patient.birthDate) {
-        const birthDate = new Date(patient.birthDate);
-        const today = new Date();
-        patientAge = today.getFullYear() - birthDate.getFullYear();
-        const monthDiff = today.getMonth() - birthDate.getMonth();
-        if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-          patientAge--;
-        }
-      }
+    const protocolError = await getProtocolError(data.protocolId, data);
+    if (protocolError) {
+      return res.status(400).json(protocolError);
+    }
+    const plausibility = await evaluateMeasurementPlausibility(storage, data, data.plausibilityOverrides ?? []);
+    if (plausibility.unresolved.length > 0) {
+      return res.status(422).json({ error: "Plausibility warnings", warnings: plausibility.unresolved });
     }
+    const measurement = await storage.createMeasurement({ ...data, plausibilityOverrides: plausibility.overrides });
     
     // Calcular BMI y otros indicadores automáticamente
+    const patient = await storage.getPatient(measurement.patientId);
     const settings = await storage.getNutritionistSettings();
-    const calculations = calculateAll({
-      weight: measurement.weight,
-      height: measurement.height,
-      seatedHeight: measurement.seatedHeight,
-      triceps: measurement.triceps,
-      biceps: measurement.biceps,
-      subscapular: measurement.subscapular,
-      suprailiac: measurement.suprailiac,
-      supraspinal: measurement.supraspinal,
-      abdominal: measurement.abdominal,
-      thighSkinfold: measurement.thighSkinfold,
-      calfSkinfold: measurement.calfSkinfold,
-      waistCircumference: measurement.waist,
-      hipCircumference: measurement.hip,
-      head: measurement.head,
-      relaxedArm: measurement.relaxedArm,
-      flexedArm: measurement.flexedArm,
-      forearm: measurement.forearm,
-      thoraxCirc: measurement.thoraxCirc,
-      thighSuperior: measurement.thighSuperior,
-      thighMedial: measurement.thighMedial,
-      calf: measurement.calf,
-      biacromial: measurement.biacromial,
-      thoraxTransverse: measurement.thoraxTransverse,
-      thoraxAnteroposterior: measurement.thoraxAnteroposterior,
-      biiliocristideo: measurement.biiliocristideo,
-      humeral: measurement.humeral,
-      femoral: measurement.femoral,
-    }, {
-      age: patientAge,
-      gender: patientGender,
-      objective: patient?.objective ?? null,
-      activityProfile: {
-        exercisesRegularly: patient?.exercisesRegularly ?? null,
-        exerciseDays: patient?.exerciseDays ?? null,
-        exerciseSchedule: patient?.exerciseSchedule ?? null,
-        sportType: patient?.sportType ?? null,
-      },
-      preferences: {
-        proteinMultiplierLoss: settings.proteinMultiplierLoss,
-        proteinMultiplierMaintain: settings.proteinMultiplierMaintain,
-        proteinMultiplierGain: settings.proteinMultiplierGain,
-        fatPerKg: settings.fatPerKg,
-      },
-    });
-    
-    // Guardar los cálculos si hay algún resultado
-    if (Object.keys(calculations).length > 0) {
-      await storage.createMeasurementCalculation({
-        measurementId: measurement.id,
-        ...calculations
-      });
-    }
+    await saveMeasurementCalculations(storage, measurement, patient, settings);
     
     // Broadcast measurement creation to all clients
     wsManager.notifyMeasurementCreated(measurement);
+    invalidateFollowUpReminders();
     
     res.status(201).json(measurement);
   } catch (error) {
@@ -552,99 +1101,56 @@ router.patch("/api/measurements/:id", async (req, res) => {
       return res.status(400).json({ error: "version must be a valid number" });
     }
     
-    const normalizedUpdate = normalizeMeasurementPayload(updateData);
+    const existing = await storage.getMeasurement(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Measurement not found" });
+    }
+
+    const evaluatorId = updateData.evaluatorId !== undefined ? updateData.evaluatorId : existing.evaluatorId;
+    const trials = applyMeasurementTrials(
+      updateData,
+      updateData.rawTrials ? await getEvaluatorTem(storage, evaluatorId) : null,
+      existing.rawTrials,
+    );
+    if (trials.pendingThirdTrial.length > 0) {
+      return res.status(400).json({ error: "Third trial required", sites: trials.pendingThirdTrial });
+    }
+    const normalizedUpdate: Record<string, unknown> = normalizeMeasurementPayload(trials.payload);
+    // normalizeMeasurementPayload descarta los null: los sitios sin tomas se vacían acá
+    trials.clearedSites.forEach((site) => {
+      normalizedUpdate[site] = null;
+    });
     const data = validate(insertMeasurementSchema.partial(), normalizedUpdate);
-    const measurement = await storage.updateMeasurement(req.params.id, data, versionNum);
+
+    // Los controles se hacen sobre la medición completa tal como quedaría guardada
+    const merged = { ...existing, ...data } as InsertMeasurement;
+    const protocolError = await getProtocolError(merged.protocolId, merged, data.protocolId !== undefined);
+    if (protocolError) {
+      return res.status(400).json(protocolError);
+    }
+    const plausibility = await evaluateMeasurementPlausibility(storage, merged, data.plausibilityOverrides ?? [], existing);
+    if (plausibility.unresolved.length > 0) {
+      return res.status(422).json({ error: "Plausibility warnings", warnings: plausibility.unresolved });
+    }
+
+    const measurement = await storage.updateMeasurement(
+      req.params.id,
+      { ...data, plausibilityOverrides: plausibility.overrides },
+      versionNum,
+    );
     
     if (!measurement) {
       return res.status(404).json({ error: "Measurement not found" });
     }
     
-    // Obtener el paciente para acceder a edad y género
-    const patient = await storage.getPatient(measurement.patientId);
-    let patientAge = null;
-    let patientGender = null;
-    
-    if (patient) {
-      patientGender = patient.gender;
-      if (patient.birthDate) {
-        const birthDate = new Date(patient.birthDate);
-        const today = new Date();
-        patientAge = today.getFullYear() - birthDate.getFullYear();
-        const monthDiff = today.getMonth() - birthDate.getMonth();
-        if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-          patientAge--;
-        }
-      }
-    }
-    
     // Re-calcular BMI y otros indicadores cuando se actualiza
+    const patient = await storage.getPatient(measurement.patientId);
     const settings = await storage.getNutritionistSettings();
-    const calculations = calculateAll({
-      weight: measurement.weight,
-      height: measurement.height,
-      seatedHeight: measurement.seatedHeight,
-      triceps: measurement.triceps,
-      biceps: measurement.biceps,
-      subscapular: measurement.subscapular,
-      suprailiac: measurement.suprailiac,
-      supraspinal: measurement.supraspinal,
-      abdominal: measurement.abdominal,
-      thighSkinfold: measurement.thighSkinfold,
-      calfSkinfold: measurement.calfSkinfold,
-      waistCircumference: measurement.waist,
-      hipCircumference: measurement.hip,
-      head: measurement.head,
-      relaxedArm: measurement.relaxedArm,
-      flexedArm: measurement.flexedArm,
-      forearm: measurement.forearm,
-      thoraxCirc: measurement.thoraxCirc,
-      thighSuperior: measurement.thighSuperior,
-      thighMedial: measurement.thighMedial,
-      calf: measurement.calf,
-      biacromial: measurement.biacromial,
-      thoraxTransverse: measurement.thoraxTransverse,
-      thoraxAnteroposterior: measurement.thoraxAnteroposterior,
-      biiliocristideo: measurement.biiliocristideo,
-      humeral: measurement.humeral,
-      femoral: measurement.femoral,
-    }, {
-      age: patientAge,
-      gender: patientGender,
-      objective: patient?.objective ?? null,
-      activityProfile: {
-        exercisesRegularly: patient?.exercisesRegularly ?? null,
-        exerciseDays: patient?.exerciseDays ?? null,
-        exerciseSchedule: patient?.exerciseSchedule ?? null,
-        sportType: patient?.sportType ?? null,
-      },
-      preferences: {
-        proteinMultiplierLoss: settings.proteinMultiplierLoss,
-        proteinMultiplierMaintain: settings.proteinMultiplierMaintain,
-        proteinMultiplierGain: settings.proteinMultiplierGain,
-        fatPerKg: settings.fatPerKg,
-      },
-    });
-    
-    // Actualizar o crear cálculos
-    if (Object.keys(calculations).length > 0) {
-      const existingCalculations = await storage.getMeasurementCalculations(measurement.id);
-      if (existingCalculations.length > 0) {
-        await storage.updateMeasurementCalculation(
-          existingCalculations[0].id,
-          calculations,
-          existingCalculations[0].version
-        );
-      } else {
-        await storage.createMeasurementCalculation({
-          measurementId: measurement.id,
-          ...calculations
-        });
-      }
-    }
+    await saveMeasurementCalculations(storage, measurement, patient, settings);
     
     // Broadcast measurement update to all clients
     wsManager.notifyMeasurementUpdate(measurement.id, measurement);
+    invalidateFollowUpReminders();
     
     res.json(measurement);
   } catch (error) {
@@ -669,6 +1175,7 @@ router.delete("/api/measurements/:id", async (req, res) => {
     
     // Broadcast measurement deletion to all clients
     wsManager.notifyMeasurementDeleted(req.params.id);
+    invalidateFollowUpReminders();
     
     res.status(204).send();
   } catch (error) {
@@ -677,6 +1184,142 @@ router.delete("/api/measurements/:id", async (req, res) => {
   }
 });
 
+// ===== EVALUATORS =====
+router.get("/api/evaluators", async (_req, res) => {
+  try {
+    const evaluators = await storage.getEvaluators();
+    res.json(evaluators);
+  } catch (error) {
+    console.error("Error fetching evaluators:", error);
+    res.status(500).json({ error: "Failed to fetch evaluators" });
+  }
+});
+
+router.get("/api/evaluators/:id", async (req, res) => {
+  try {
+    const evaluator = await storage.getEvaluator(req.params.id);
+    if (!evaluator) {
+      return res.status(404).json({ error: "Evaluator not found" });
+    }
+    res.json(evaluator);
+  } catch (error) {
+    console.error("Error fetching evaluator:", error);
+    res.status(500).json({ error: "Failed to fetch evaluator" });
+  }
+});
+
+const evaluatorPayloadSchema = insertEvaluatorSchema.extend({
+  certificationExpiresAt: z.coerce.date().nullable().optional(),
+});
+
+router.post("/api/evaluators", async (req, res) => {
+  try {
+    const data = validate(evaluatorPayloadSchema, req.body);
+    const evaluator = await storage.createEvaluator(data);
+    res.status(201).json(evaluator);
+  } catch (error) {
+    console.error("Error creating evaluator:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to create evaluator" });
+  }
+});
+
+router.patch("/api/evaluators/:id", async (req, res) => {
+  try {
+    const { version, ...updateData } = req.body;
+
+    if (version === undefined || version === null) {
+      return res.status(400).json({ error: "version field is required for updates" });
+    }
+
+    const data = validate(evaluatorPayloadSchema.partial(), updateData);
+    const evaluator = await storage.updateEvaluator(req.params.id, data, Number(version));
+    if (!evaluator) {
+      return res.status(404).json({ error: "Evaluator not found" });
+    }
+    res.json(evaluator);
+  } catch (error) {
+    console.error("Error updating evaluator:", error);
+    if (error instanceof VersionConflictError) {
+      return res.status(409).json({ error: "Version conflict - record was modified by another user" });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to update evaluator" });
+  }
+});
+
+router.delete("/api/evaluators/:id", async (req, res) => {
+  try {
+    const deleted = await storage.deleteEvaluator(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Evaluator not found" });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting evaluator:", error);
+    res.status(500).json({ error: "Failed to delete evaluator" });
+  }
+});
+
+router.get("/api/evaluators/:id/tem-studies", async (req, res) => {
+  try {
+    const studies = await storage.getEvaluatorTemStudies(req.params.id);
+    res.json(studies);
+  } catch (error) {
+    console.error("Error fetching TEM studies:", error);
+    res.status(500).json({ error: "Failed to fetch TEM studies" });
+  }
+});
+
+const siteKeys = ISAK_SITES.map((site) => site.key) as [MeasurementSiteKey, ...MeasurementSiteKey[]];
+const temStudyRequestSchema = insertEvaluatorTemStudySchema.omit({ evaluatorId: true, pairs: true }).extend({
+  source: z.enum(["manual", "measurements"]).default("manual"),
+  studyDate: z.coerce.date().optional(),
+  // Pares test-retest cargados a mano: { sitio: [[toma1, toma2], ...] }
+  pairs: z.record(z.enum(siteKeys), z.array(z.tuple([z.coerce.number(), z.coerce.number()]))).optional(),
+});
+
+/**
+ * Estudio de ETM test-retest. Con source "manual" usa los pares enviados;
+ * con "measurements" toma las dos primeras tomas de cada sitio de las
+ * mediciones del evaluador que se cargaron con tomas repetidas.
+ */
+router.post("/api/evaluators/:id/tem-studies", async (req, res) => {
+  try {
+    const evaluator = await storage.getEvaluator(req.params.id);
+    if (!evaluator) {
+      return res.status(404).json({ error: "Evaluator not found" });
+    }
+
+    const { pairs: manualPairs, ...data } = validate(temStudyRequestSchema, req.body);
+    let pairs: TrialPairs;
+    if (data.source === "measurements") {
+      const measurements = (await storage.getMeasurements()).filter((m) => m.evaluatorId === evaluator.id);
+      pairs = extractTrialPairs(measurements.map((m) => m.rawTrials as MeasurementTrials | null));
+    } else {
+      pairs = manualPairs ?? {};
+    }
+
+    const results = calculateEvaluatorTEM(pairs);
+    if (Object.keys(results).length === 0) {
+      return res.status(400).json({ error: "At least two trial pairs per site are required" });
+    }
+
+    const study = await storage.createEvaluatorTemStudy({ ...data, evaluatorId: evaluator.id, pairs }, results);
+    res.status(201).json(study);
+  } catch (error) {
+    console.error("Error creating TEM study:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to create TEM study" });
+  }
+});
+
 // ===== MEASUREMENT CALCULATIONS =====
 router.get("/api/calculations/:measurementId", async (req, res) => {
   try {
@@ -688,6 +1331,109 @@ router.get("/api/calculations/:measurementId", async (req, res) => {
   }
 });
 
+// Desglose (fórmula, entradas y resultados intermedios) de los valores derivados de una medición
+router.get("/api/calculations/:measurementId/explain", async (req, res) => {
+  try {
+    const field = typeof req.query.field === "string" ? req.query.field : undefined;
+    if (field && !isExplainableField(field)) {
+      return res.status(404).json({ error: "Unknown calculation field" });
+    }
+
+    const [calculation] = await storage.getMeasurementCalculations(req.params.measurementId);
+    if (!calculation) {
+      return res.status(404).json({ error: "Calculations not found" });
+    }
+
+    const explanations = field
+      ? [explainCalculation(calculation, field)].filter((explanation) => explanation !== null)
+      : explainAllCalculations(calculation);
+
+    res.json({
+      measurementId: calculation.measurementId,
+      calculationId: calculation.id,
+      formulaSetVersion: calculation.formulaSetVersion,
+      snapshot: getInputSnapshot(calculation),
+      explanations,
+    });
+  } catch (error) {
+    console.error("Error explaining calculations:", error);
+    res.status(500).json({ error: "Failed to explain calculations" });
+  }
+});
+
+const recalculationScopeSchema = z.discriminatedUnion("scope", [
+  z.object({ scope: z.literal("patient"), patientId: z.string().uuid() }),
+  z.object({ scope: z.literal("group"), groupId: z.string().uuid() }),
+  z.object({ scope: z.literal("all") }),
+]);
+
+// Recalcula measurement_calculations con las fórmulas y la configuración actuales
+router.post("/api/calculations/recalculate", async (req, res) => {
+  try {
+    const body = validate(recalculationScopeSchema, req.body);
+    let scope: RecalculationScope;
+    if (body.scope === "patient") {
+      if (!(await storage.getPatient(body.patientId))) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      scope = { type: "patient", patientId: body.patientId };
+    } else if (body.scope === "group") {
+      if (!(await storage.getPatientGroup(body.groupId))) {
+        return res.status(404).json({ error: "Group not found" });
+      }
+      scope = { type: "group", groupId: body.groupId };
+    } else {
+      scope = { type: "all" };
+    }
+
+    const summary = await recalculateMeasurements(storage, scope);
+    wsManager.notifyCalculationsRecalculated(summary);
+    res.json(summary);
+  } catch (error) {
+    console.error("Error recalculating measurements:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to recalculate measurements" });
+  }
+});
+
+// Poblaciones de referencia disponibles para los Score-Z proporcionales
+router.get("/api/reference-populations", (_req, res) => {
+  res.json(
+    Object.values(REFERENCE_POPULATIONS).map(({ values: _values, ...population }) => population)
+  );
+});
+
+// Simulador de objetivos: peso meta, balance energético y fecha proyectada por la tendencia
+const goalSimulationQuerySchema = z.object({
+  targetType: z.enum(["bodyFat", "muscleMass"]),
+  targetValue: z.coerce.number().positive(),
+  weeklyRatePercent: z.coerce.number().positive().max(2).optional(),
+  measurementId: z.string().optional(),
+});
+
+router.get("/api/patients/:patientId/goal-simulation", async (req, res) => {
+  try {
+    const query = validate(goalSimulationQuerySchema, req.query);
+    const simulation = await simulatePatientGoal(storage, req.params.patientId, {
+      target: { type: query.targetType, value: query.targetValue },
+      weeklyRatePercent: query.weeklyRatePercent,
+      measurementId: query.measurementId,
+    });
+    res.json(simulation);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    if (error instanceof GoalSimulationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error simulating goal:", error);
+    res.status(500).json({ error: "Failed to simulate goal" });
+  }
+});
+
 // ===== DIETS =====
 router.get("/api/diets", async (req, res) => {
   try {
@@ -977,14 +1723,19 @@ router.delete("/api/reports/:id", async (req, res) => {
   }
 });
 
+const reportGoalSchema = goalSimulationQuerySchema.omit({ measurementId: true });
+
 // Generate PDF Report
 router.post("/api/reports/generate", async (req, res) => {
   try {
-    const { patientId, measurementId, summary, recommendations, notes } = req.body;
+    const { patientId, measurementId, summary, recommendations, notes, confidenceLevel, goal } = req.body;
     
     if (!patientId || !measurementId) {
       return res.status(400).json({ error: "patientId and measurementId are required" });
     }
+    if (confidenceLevel !== undefined && !isConfidenceLevel(Number(confidenceLevel))) {
+      return res.status(400).json({ error: "confidenceLevel must be one of 80, 90, 95, 99" });
+    }
     
     // Obtener datos del paciente y medición
     const patient = await storage.getPatient(patientId);
@@ -1016,26 +1767,50 @@ router.post("/api/reports/generate", async (req, res) => {
     const measurementIndex = sortedMeasurements.findIndex((m) => m.id === measurement.id);
     const measurementNumber = measurementIndex >= 0 ? measurementIndex + 1 : sortedMeasurements.length;
     const previousMeasurement = measurementIndex > 0 ? sortedMeasurements[measurementIndex - 1] : null;
-    
-    // Generar PDF
-    const pdfUrl = await generateMeasurementReport({
+    const evaluator = measurement.evaluatorId ? await storage.getEvaluator(measurement.evaluatorId) : null;
+    const comparison = previousMeasurement
+      ? await buildMeasurementComparison(
+          measurement,
+          previousMeasurement,
+          patient,
+          confidenceLevel !== undefined ? (Number(confidenceLevel) as ConfidenceLevel) : DEFAULT_CONFIDENCE_LEVEL,
+        )
+      : null;
+    const goalOptions = goal ? validate(reportGoalSchema, goal) : null;
+    const goalSimulation = goalOptions
+      ? await simulatePatientGoal(storage, patientId, {
+          target: { type: goalOptions.targetType, value: goalOptions.targetValue },
+          weeklyRatePercent: goalOptions.weeklyRatePercent,
+          measurementId,
+        })
+      : null;
+    
+    // Generar PDF (y la copia sin notas que se ofrece en el portal del paciente)
+    const reportData = {
       patient,
       measurement,
       previousMeasurement,
       measurementNumber,
+      evaluator,
+      comparison,
+      history: sortedMeasurements.slice(0, measurementIndex >= 0 ? measurementIndex + 1 : sortedMeasurements.length),
       calculations: calculations.length > 0 ? calculations : undefined,
+      goalSimulation,
       annotations: {
         summary,
         recommendations,
         notes,
       },
-    });
+    };
+    const pdfUrl = await generateMeasurementReport(reportData);
+    const portalPdfUrl = await generateMeasurementReport(reportData, { includeNotes: false });
     
     // Crear registro de report
     const report = await storage.createReport({
       patientId,
       measurementId,
       pdfUrl,
+      portalPdfUrl,
       status: 'generated',
       sentAt: null
     });
@@ -1045,6 +1820,12 @@ router.post("/api/reports/generate", async (req, res) => {
     
     res.status(201).json(report);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    if (error instanceof GoalSimulationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error("Error generating report PDF:", error);
     res.status(500).json({ error: "Failed to generate PDF" });
   }
@@ -1146,7 +1927,76 @@ router.patch("/api/biochemical-results/:id", async (req, res) => {
       version
     );
     if (!result) {
-      return res.status(404).json({ error: "Biochemical result not found" });
+      return res.status(404).json({ error: "Biochemical result not found" });
+    }
+    res.json(result);
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error("Error updating biochemical result:", error);
+    res.status(500).json({ error: "Failed to update biochemical result" });
+  }
+});
+
+router.delete("/api/biochemical-results/:id", async (req, res) => {
+  try {
+    const deleted = await storage.deleteBiochemicalResult(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Biochemical result not found" });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting biochemical result:", error);
+    res.status(500).json({ error: "Failed to delete biochemical result" });
+  }
+});
+
+// ===== BIA MEASUREMENTS =====
+router.get("/api/bia-measurements", async (req, res) => {
+  try {
+    if (!req.query.patientId) {
+      return res.status(400).json({ error: "patientId query parameter is required" });
+    }
+    const results = await storage.getBiaMeasurements(req.query.patientId as string);
+    res.json(results);
+  } catch (error) {
+    console.error("Error fetching BIA measurements:", error);
+    res.status(500).json({ error: "Failed to fetch BIA measurements" });
+  }
+});
+
+router.post("/api/bia-measurements", async (req, res) => {
+  try {
+    const data = validate(insertBiaMeasurementSchema, req.body);
+    const result = await storage.createBiaMeasurement(data);
+    res.status(201).json(result);
+  } catch (error) {
+    console.error("Error creating BIA measurement:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: "Failed to create BIA measurement" });
+  }
+});
+
+router.patch("/api/bia-measurements/:id", async (req, res) => {
+  try {
+    const { version, patientId, source, rawData, ...payload } = req.body;
+    if (typeof version !== "number") {
+      return res.status(400).json({ error: "version field is required for updates" });
+    }
+    if (Object.keys(payload).length === 0) {
+      return res.status(400).json({ error: "At least one updatable field must be provided" });
+    }
+
+    const data = validate(updateBiaMeasurementSchema, payload);
+    const result = await storage.updateBiaMeasurement(req.params.id, data, version);
+    if (!result) {
+      return res.status(404).json({ error: "BIA measurement not found" });
     }
     res.json(result);
   } catch (error) {
@@ -1156,26 +2006,100 @@ router.patch("/api/biochemical-results/:id", async (req, res) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors });
     }
-    console.error("Error updating biochemical result:", error);
-    res.status(500).json({ error: "Failed to update biochemical result" });
+    console.error("Error updating BIA measurement:", error);
+    res.status(500).json({ error: "Failed to update BIA measurement" });
   }
 });
 
-router.delete("/api/biochemical-results/:id", async (req, res) => {
+router.delete("/api/bia-measurements/:id", async (req, res) => {
   try {
-    const deleted = await storage.deleteBiochemicalResult(req.params.id);
+    const deleted = await storage.deleteBiaMeasurement(req.params.id);
     if (!deleted) {
-      return res.status(404).json({ error: "Biochemical result not found" });
+      return res.status(404).json({ error: "BIA measurement not found" });
     }
     res.status(204).send();
   } catch (error) {
-    console.error("Error deleting biochemical result:", error);
-    res.status(500).json({ error: "Failed to delete biochemical result" });
+    console.error("Error deleting BIA measurement:", error);
+    res.status(500).json({ error: "Failed to delete BIA measurement" });
+  }
+});
+
+const biaImportSchema = z.object({
+  csv: z.string().min(1),
+  device: z.string().trim().max(100).optional(),
+  dryRun: z.boolean().optional(),
+});
+
+// Importa el CSV exportado por el equipo; con dryRun sólo devuelve lo que se importaría
+router.post("/api/patients/:patientId/bia/import", async (req, res) => {
+  try {
+    const { csv, device, dryRun } = validate(biaImportSchema, req.body);
+    const patient = await storage.getPatient(req.params.patientId);
+    if (!patient) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+
+    const parsed = parseBiaCsv(csv);
+    const preview = parsed.rows.map((row) => ({
+      line: row.line,
+      measurementDate: row.measurementDate,
+      values: row.values,
+      segmental: row.segmental,
+    }));
+    if (dryRun) {
+      return res.json({
+        imported: 0,
+        rows: preview,
+        errors: parsed.errors,
+        recognizedColumns: parsed.recognizedColumns,
+        unrecognizedColumns: parsed.unrecognizedColumns,
+      });
+    }
+
+    const created = [];
+    for (const row of parsed.rows) {
+      created.push(
+        await storage.createBiaMeasurement({
+          patientId: patient.id,
+          measurementDate: row.measurementDate,
+          device: device || null,
+          source: "csv",
+          ...toBiaColumnValues(row.values),
+          segmental: row.segmental,
+          rawData: row.rawData,
+        }),
+      );
+    }
+
+    res.status(created.length > 0 ? 201 : 200).json({
+      imported: created.length,
+      measurements: created,
+      rows: preview,
+      errors: parsed.errors,
+      recognizedColumns: parsed.recognizedColumns,
+      unrecognizedColumns: parsed.unrecognizedColumns,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error("Error importing BIA CSV:", error);
+    res.status(500).json({ error: "Failed to import BIA CSV" });
+  }
+});
+
+router.get("/api/patients/:patientId/bia/comparison", async (req, res) => {
+  try {
+    const comparison = await getBiaComparison(storage, req.params.patientId);
+    res.json(comparison);
+  } catch (error) {
+    console.error("Error comparing BIA measurements:", error);
+    res.status(500).json({ error: "Failed to compare BIA measurements" });
   }
 });
 
 // ===== AI DIET GENERATION =====
-import { SimpleDietAiService } from "./services/diet-ai-service-simple";
+import { DietAllergenError, SimpleDietAiService } from "./services/diet-ai-service-simple";
 const dietAiService = new SimpleDietAiService(storage);
 
 router.post("/api/patients/:id/diets/generate", async (req, res) => {
@@ -1191,6 +2115,13 @@ router.post("/api/patients/:id/diets/generate", async (req, res) => {
     
     res.json(result);
   } catch (error) {
+    if (error instanceof DietAllergenError) {
+      return res.status(422).json({
+        error: error.message,
+        generationId: error.generationId,
+        conflicts: error.conflicts,
+      });
+    }
     console.error("Error generating diet:", error);
     res.status(500).json({ error: "Failed to generate diet plan" });
   }
@@ -1326,6 +2257,7 @@ router.post("/api/consultations", async (req, res) => {
       },
     );
     const consultation = await storage.createConsultation(data);
+    invalidateFollowUpReminders();
     res.status(201).json(consultation);
   } catch (error) {
     console.error("Error creating consultation:", error);
@@ -1349,6 +2281,7 @@ router.patch("/api/consultations/:id", async (req, res) => {
     if (!updated) {
       return res.status(404).json({ error: "Consultation not found" });
     }
+    invalidateFollowUpReminders();
     res.json(updated);
   } catch (error) {
     console.error("Error updating consultation:", error);
@@ -1365,6 +2298,7 @@ router.delete("/api/consultations/:id", async (req, res) => {
     if (!deleted) {
       return res.status(404).json({ error: "Consultation not found" });
     }
+    invalidateFollowUpReminders();
     res.status(204).send();
   } catch (error) {
     console.error("Error deleting consultation:", error);
@@ -1372,6 +2306,392 @@ router.delete("/api/consultations/:id", async (req, res) => {
   }
 });
 
+// ===== APPOINTMENTS =====
+const appointmentQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  patientId: z.string().optional(),
+  userId: z.string().optional(),
+});
+
+// El feed cubre el último mes y el próximo año de toda la agenda del consultorio
+const CALENDAR_FEED_PAST_DAYS = 30;
+const CALENDAR_FEED_FUTURE_DAYS = 365;
+
+async function sendAppointmentsCalendar(
+  req: Request,
+  res: Response,
+  filters: Parameters<typeof storage.getAppointments>[0],
+  disposition: "inline" | "attachment",
+) {
+  const [appointments, settings] = await Promise.all([
+    storage.getAppointments(filters),
+    storage.getNutritionistSettings(),
+  ]);
+  const calendar = buildAppointmentsCalendar(appointments, {
+    calendarName: settings.profileName ? `Agenda · ${settings.profileName}` : "Agenda",
+    domain: req.hostname,
+  });
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", `${disposition}; filename="agenda.ics"`);
+  res.send(calendar);
+}
+
+router.get("/api/appointments", async (req, res) => {
+  try {
+    const filters = validate(appointmentQuerySchema, req.query);
+    res.json(await storage.getAppointments(filters));
+  } catch (error) {
+    console.error("Error fetching appointments:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to fetch appointments" });
+  }
+});
+
+router.get("/api/appointments/export.ics", async (req, res) => {
+  try {
+    const filters = validate(appointmentQuerySchema, req.query);
+    await sendAppointmentsCalendar(req, res, filters, "attachment");
+  } catch (error) {
+    console.error("Error exporting appointments:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to export appointments" });
+  }
+});
+
+// Público (ver PUBLIC_API_PREFIXES): lo autoriza el token de la cuenta
+router.get("/api/calendar-feed/:token.ics", async (req, res) => {
+  try {
+    const user = await storage.getUserByCalendarFeedToken(req.params.token);
+    if (!user || !user.isActive || !hasPermission(user.role, "read")) {
+      return res.status(404).json({ error: "Calendar feed not found" });
+    }
+    const day = 24 * 60 * 60 * 1000;
+    await sendAppointmentsCalendar(
+      req,
+      res,
+      {
+        from: new Date(Date.now() - CALENDAR_FEED_PAST_DAYS * day),
+        to: new Date(Date.now() + CALENDAR_FEED_FUTURE_DAYS * day),
+      },
+      "inline",
+    );
+  } catch (error) {
+    console.error("Error serving calendar feed:", error);
+    res.status(500).json({ error: "Failed to serve calendar feed" });
+  }
+});
+
+router.get("/api/appointments/:id", async (req, res) => {
+  try {
+    const appointment = await storage.getAppointment(req.params.id);
+    if (!appointment) {
+      return res.status(404).json({ error: "Appointment not found" });
+    }
+    res.json(appointment);
+  } catch (error) {
+    console.error("Error fetching appointment:", error);
+    res.status(500).json({ error: "Failed to fetch appointment" });
+  }
+});
+
+router.post("/api/appointments", async (req, res) => {
+  try {
+    const data = validate(insertAppointmentSchema, req.body);
+    if (data.status === "attended") {
+      return res.status(400).json({ error: "Use the attend endpoint to mark an appointment as attended" });
+    }
+    const patient = await storage.getPatient(data.patientId);
+    if (!patient) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+    const appointment = await storage.createAppointment({
+      ...data,
+      durationMinutes: data.durationMinutes ?? getDefaultAppointmentDuration(data.type ?? "follow_up"),
+    });
+    invalidateFollowUpReminders();
+    res.status(201).json(appointment);
+  } catch (error) {
+    console.error("Error creating appointment:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to create appointment" });
+  }
+});
+
+router.patch("/api/appointments/:id", async (req, res) => {
+  try {
+    const { version, ...updateData } = req.body;
+
+    if (version === undefined || version === null) {
+      return res.status(400).json({ error: "version field is required for updates" });
+    }
+
+    const data = validate(insertAppointmentSchema.partial(), updateData);
+    // "Atendido" sólo vía /attend, que además genera la consulta
+    if (data.status === "attended") {
+      return res.status(400).json({ error: "Use the attend endpoint to mark an appointment as attended" });
+    }
+    // Un turno atendido queda vinculado a su consulta (consultationId no se acepta en el PATCH)
+    if (data.status !== undefined) {
+      const current = await storage.getAppointment(req.params.id);
+      if (!current) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (current.status === "attended") {
+        return res.status(409).json({ error: "Appointment already attended" });
+      }
+    }
+    const appointment = await storage.updateAppointment(req.params.id, data, Number(version));
+    if (!appointment) {
+      return res.status(404).json({ error: "Appointment not found" });
+    }
+    invalidateFollowUpReminders();
+    res.json(appointment);
+  } catch (error) {
+    console.error("Error updating appointment:", error);
+    if (error instanceof VersionConflictError) {
+      return res.status(409).json({ error: "Version conflict - record was modified by another user" });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to update appointment" });
+  }
+});
+
+// Marca el turno como atendido y crea la consulta del paciente con la fecha del turno
+router.post("/api/appointments/:id/attend", async (req, res) => {
+  try {
+    const { version } = validate(z.object({ version: z.number().int() }), req.body);
+    const current = await storage.getAppointment(req.params.id);
+    if (!current) {
+      return res.status(404).json({ error: "Appointment not found" });
+    }
+    if (current.consultationId) {
+      return res.status(409).json({ error: "Appointment already attended" });
+    }
+
+    const attended = await storage.updateAppointment(current.id, { status: "attended" }, version);
+    if (!attended) {
+      return res.status(404).json({ error: "Appointment not found" });
+    }
+    const consultation = await storage.createConsultation({
+      patientId: current.patientId,
+      consultationDate: current.startsAt,
+    });
+    const appointment = await storage.updateAppointment(current.id, { consultationId: consultation.id });
+    invalidateFollowUpReminders();
+    res.json({ appointment, consultation });
+  } catch (error) {
+    console.error("Error attending appointment:", error);
+    if (error instanceof VersionConflictError) {
+      return res.status(409).json({ error: "Version conflict - record was modified by another user" });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to attend appointment" });
+  }
+});
+
+router.delete("/api/appointments/:id", async (req, res) => {
+  try {
+    const deleted = await storage.deleteAppointment(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Appointment not found" });
+    }
+    invalidateFollowUpReminders();
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting appointment:", error);
+    res.status(500).json({ error: "Failed to delete appointment" });
+  }
+});
+
+// ===== PATIENT PORTAL =====
+
+router.get("/api/patients/:id/share-links", async (req, res) => {
+  try {
+    const links = await storage.getPatientShareLinks(req.params.id);
+    res.json(links.map((link) => toShareLinkSummary(link, serverSecret)));
+  } catch (error) {
+    console.error("Error fetching share links:", error);
+    res.status(500).json({ error: "Failed to fetch share links" });
+  }
+});
+
+router.post("/api/patients/:id/share-links", async (req, res) => {
+  try {
+    const { expiresInDays } = validate(patientShareLinkRequestSchema, req.body ?? {});
+    const patient = await storage.getPatient(req.params.id);
+    if (!patient) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+    const link = await storage.createPatientShareLink({
+      patientId: patient.id,
+      createdByUserId: req.user?.id ?? null,
+      expiresAt: getShareLinkExpiry(expiresInDays),
+    });
+    res.status(201).json({
+      ...toShareLinkSummary(link, serverSecret),
+      url: getPortalPath(createPortalToken(link, serverSecret)),
+    });
+  } catch (error) {
+    console.error("Error creating share link:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to create share link" });
+  }
+});
+
+router.post("/api/patients/:id/share-links/:linkId/revoke", async (req, res) => {
+  try {
+    const link = await storage.getPatientShareLink(req.params.linkId);
+    if (!link || link.patientId !== req.params.id) {
+      return res.status(404).json({ error: "Share link not found" });
+    }
+    const revoked = link.revokedAt ? link : await storage.updatePatientShareLink(link.id, { revokedAt: new Date() });
+    res.json(toShareLinkSummary(revoked ?? link, serverSecret));
+  } catch (error) {
+    console.error("Error revoking share link:", error);
+    res.status(500).json({ error: "Failed to revoke share link" });
+  }
+});
+
+// Rutas públicas del portal: el token de la URL identifica al paciente y nada más
+async function requirePortalAccess(req: Request, res: Response) {
+  res.set("Cache-Control", "no-store");
+  const access = await resolvePortalAccess(storage, req.params.token, serverSecret);
+  if (!access.ok) {
+    res
+      .status(access.reason === "invalid" ? 404 : 410)
+      .json({ error: "Portal link is not valid", reason: access.reason });
+    return null;
+  }
+  return access;
+}
+
+const REPORTS_DIR = path.join(process.cwd(), "reports");
+
+router.get("/api/portal/:token", async (req, res) => {
+  try {
+    const access = await requirePortalAccess(req, res);
+    if (!access) return;
+    const portal = await buildPatientPortal(storage, access.patient, access.link);
+    await storage.updatePatientShareLink(access.link.id, { lastAccessedAt: new Date() });
+    res.json(portal);
+  } catch (error) {
+    console.error("Error serving patient portal:", error);
+    res.status(500).json({ error: "Failed to load patient portal" });
+  }
+});
+
+router.get("/api/portal/:token/reports/:reportId", async (req, res) => {
+  try {
+    const access = await requirePortalAccess(req, res);
+    if (!access) return;
+    const report = await storage.getReport(req.params.reportId);
+    // Sólo la copia sin notas internas de informes ya revisados; los anteriores a ella no se ofrecen
+    if (!report || report.patientId !== access.patient.id || !report.portalPdfUrl || report.status === "pending") {
+      return res.status(404).json({ error: "Report not found" });
+    }
+    const filename = `informe-${report.createdAt.toISOString().slice(0, 10)}.pdf`;
+    res.download(path.join(REPORTS_DIR, path.basename(report.portalPdfUrl)), filename, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: "Report file not found" });
+      }
+    });
+  } catch (error) {
+    console.error("Error serving portal report:", error);
+    res.status(500).json({ error: "Failed to download report" });
+  }
+});
+
+router.get("/api/portal/:token/plan", async (req, res) => {
+  try {
+    const access = await requirePortalAccess(req, res);
+    if (!access) return;
+    const assignment = await findActivePlanAssignment(storage, access.patient.id);
+    const plan = assignment ? await storage.getWeeklyDietPlan(assignment.planId) : null;
+    if (!assignment || !plan) {
+      return res.status(404).json({ error: "No active plan" });
+    }
+    const planMeals = await storage.getWeeklyPlanMeals(plan.id);
+    const meals = await Promise.all(
+      planMeals.map(async (planMeal) => {
+        if (!planMeal.mealId) return planMeal;
+        const mealDetails = await storage.getMeal(planMeal.mealId);
+        return { ...planMeal, mealDetails: mealDetails || undefined };
+      }),
+    );
+    // Se arma en memoria: el enlace es público y cada descarga no debe dejar un archivo en disco.
+    // Las notas de asignación son internas y no van en la copia del paciente.
+    const pdf = renderWeeklyPlanPDF({
+      plan,
+      meals,
+      patient: access.patient,
+      startDate: assignment.startDate || undefined,
+      endDate: assignment.endDate || undefined,
+    });
+    res.attachment("plan-semanal.pdf").type("application/pdf").send(pdf);
+  } catch (error) {
+    console.error("Error serving portal plan:", error);
+    res.status(500).json({ error: "Failed to download plan" });
+  }
+});
+
+// ===== FOLLOW-UPS =====
+
+// Pacientes con el control vencido o por vencer, según el último cálculo diario
+router.get("/api/follow-ups", async (_req, res) => {
+  try {
+    res.json(await getFollowUpReminders(storage));
+  } catch (error) {
+    console.error("Error fetching follow-ups:", error);
+    res.status(500).json({ error: "Failed to fetch follow-ups" });
+  }
+});
+
+router.post("/api/follow-ups/refresh", async (_req, res) => {
+  try {
+    res.json(await refreshFollowUpReminders(storage));
+  } catch (error) {
+    console.error("Error refreshing follow-ups:", error);
+    res.status(500).json({ error: "Failed to refresh follow-ups" });
+  }
+});
+
+// Registra que se contactó al paciente y recalcula la lista
+router.post("/api/follow-ups/:patientId/contacted", async (req, res) => {
+  try {
+    const { note } = validate(z.object({ note: z.string().trim().max(500).nullable().optional() }), req.body ?? {});
+    const patient = await storage.getPatient(req.params.patientId);
+    if (!patient) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+    const contact = await storage.createFollowUpContact({
+      patientId: patient.id,
+      userId: req.user?.id ?? null,
+      note: note || null,
+    });
+    const followUps = await refreshFollowUpReminders(storage);
+    res.status(201).json({ contact, followUps });
+  } catch (error) {
+    console.error("Error recording follow-up contact:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to record follow-up contact" });
+  }
+});
+
 // ============================================================================
 // MEAL CATALOG SYSTEM - Carolina's Time-Saving Features
 // ============================================================================
@@ -1996,7 +3316,8 @@ router.post("/api/weekly-plans/:id/assign-to-group", async (req, res) => {
       startDate ? new Date(startDate) : undefined,
       endDate ? new Date(endDate) : undefined
     );
-    res.status(201).json(assignment);
+    const allergenConflicts = await findPlanAllergenConflicts(storage, req.params.id, { groupId });
+    res.status(201).json({ ...assignment, allergenConflicts });
   } catch (error) {
     console.error("Error assigning plan to group:", error);
     res.status(500).json({ error: "Failed to assign plan to group" });
@@ -2016,13 +3337,33 @@ router.post("/api/weekly-plans/:id/assign-to-patient", async (req, res) => {
       startDate ? new Date(startDate) : undefined,
       endDate ? new Date(endDate) : undefined
     );
-    res.status(201).json(assignment);
+    const allergenConflicts = await findPlanAllergenConflicts(storage, req.params.id, { patientId });
+    res.status(201).json({ ...assignment, allergenConflicts });
   } catch (error) {
     console.error("Error assigning plan to patient:", error);
     res.status(500).json({ error: "Failed to assign plan to patient" });
   }
 });
 
+// Conflictos con los alérgenos de un paciente o de los integrantes de un grupo, antes de asignar
+router.get("/api/weekly-plans/:id/allergen-conflicts", async (req, res) => {
+  try {
+    const { patientId, groupId } = req.query;
+    if (typeof patientId !== "string" && typeof groupId !== "string") {
+      return res.status(400).json({ error: "patientId or groupId is required" });
+    }
+    const conflicts = await findPlanAllergenConflicts(
+      storage,
+      req.params.id,
+      typeof patientId === "string" ? { patientId } : { groupId: groupId as string },
+    );
+    res.json(conflicts);
+  } catch (error) {
+    console.error("Error checking plan allergen conflicts:", error);
+    res.status(500).json({ error: "Failed to check allergen conflicts" });
+  }
+});
+
 // ===== WEEKLY PLAN MEALS =====
 router.get("/api/weekly-plans/:id/meals", async (req, res) => {
   try {
@@ -2159,6 +3500,94 @@ router.post("/api/weekly-plans/:id/generate-pdf", async (req, res) => {
   }
 });
 
+// ===== AUDIT LOG =====
+// Historial por paciente (?patientId=) o por registro (?entityType=&entityId=)
+router.get("/api/audit-log", async (req, res) => {
+  try {
+    const { patientId, entityType, entityId } = req.query;
+    const byPatient = typeof patientId === "string" && patientId.length > 0;
+    const byEntity = isAuditedEntityType(entityType) && typeof entityId === "string" && entityId.length > 0;
+    if (!byPatient && !byEntity) {
+      return res.status(400).json({ error: "patientId or entityType and entityId query parameters are required" });
+    }
+
+    const entries = await storage.getAuditLog({
+      patientId: byPatient ? patientId : undefined,
+      entityType: byEntity ? entityType : undefined,
+      entityId: byEntity ? entityId : undefined,
+    });
+
+    // Sin acceso a notas clínicas tampoco se ven sus valores anteriores
+    if (req.user && !hasPermission(req.user.role, "clinicalNotes")) {
+      const hidden: readonly string[] = CLINICAL_NOTE_FIELDS;
+      return res.json(
+        entries.map((entry) => ({
+          ...entry,
+          changes: (entry.changes as AuditFieldChange[]).filter((change) => !hidden.includes(change.field)),
+        })),
+      );
+    }
+    res.json(entries);
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    res.status(500).json({ error: "Failed to fetch audit log" });
+  }
+});
+
+// ===== TRASH =====
+// Pacientes, mediciones, consultas, comidas y planes semanales eliminados (baja lógica)
+router.get("/api/trash", async (_req, res) => {
+  try {
+    const items = await storage.getTrash();
+    res.json(items);
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    res.status(500).json({ error: "Failed to fetch trash" });
+  }
+});
+
+router.post("/api/trash/:entityType/:id/restore", async (req, res) => {
+  try {
+    const { entityType, id } = req.params;
+    if (!isTrashEntityType(entityType)) {
+      return res.status(400).json({ error: "Unknown trash entity type" });
+    }
+    const restored = await storage.restoreFromTrash(entityType, id);
+    if (!restored) {
+      return res.status(404).json({ error: "Item not found in trash" });
+    }
+
+    if (entityType === "patient") {
+      wsManager.notifyPatientCreated(restored);
+    } else if (entityType === "measurement") {
+      wsManager.notifyMeasurementCreated(restored);
+    }
+    invalidateFollowUpReminders();
+    res.json(restored);
+  } catch (error) {
+    console.error("Error restoring from trash:", error);
+    res.status(500).json({ error: "Failed to restore item" });
+  }
+});
+
+router.delete("/api/trash/:entityType/:id", async (req, res) => {
+  try {
+    const { entityType, id } = req.params;
+    if (!isTrashEntityType(entityType)) {
+      return res.status(400).json({ error: "Unknown trash entity type" });
+    }
+    const purged = await storage.purgeFromTrash(entityType, id);
+    if (!purged) {
+      return res.status(404).json({ error: "Item not found in trash" });
+    }
+    invalidateFollowUpReminders();
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error purging from trash:", error);
+    res.status(500).json({ error: "Failed to purge item" });
+  }
+});
+
 // ===== NUTRITIONIST SETTINGS =====
 const settingsSchema = z.object({
   profileName: z.string().optional().nullable(),
@@ -2166,8 +3595,28 @@ const settingsSchema = z.object({
   proteinMultiplierMaintain: z.number().min(0.5).max(5).optional(),
   proteinMultiplierGain: z.number().min(0.5).max(5).optional(),
   fatPerKg: z.number().min(0.1).max(5).optional(),
+  bodyFatEquation: z
+    .enum(Object.keys(BODY_FAT_EQUATIONS) as [BodyFatEquationId, ...BodyFatEquationId[]])
+    .optional(),
+  densityConversion: z.enum(["siri", "brozek"]).optional(),
+  bmrEquation: z.enum(Object.keys(BMR_EQUATIONS) as [BmrEquationId, ...BmrEquationId[]]).optional(),
+  energyModel: z.enum(["multiplier", "factorial"]).optional(),
+  mealDistribution: mealDistributionSchema.nullable().optional(),
+  defaultProtocolId: z.string().min(1).optional(),
+  customProtocols: z
+    .array(
+      customProtocolSchema.refine(
+        (protocol) => [...protocol.requiredSites, ...protocol.optionalSites].every(isMeasurementSiteKey),
+        { message: "Unknown measurement site" },
+      ),
+    )
+    .refine((protocols) => new Set(protocols.map((protocol) => protocol.id)).size === protocols.length, {
+      message: "Protocol ids must be unique",
+    })
+    .optional(),
   whatsappTemplateClassic: z.string().optional().nullable(),
   whatsappTemplateWithDocs: z.string().optional().nullable(),
+  trashRetentionDays: z.number().int().min(MIN_TRASH_RETENTION_DAYS).max(MAX_TRASH_RETENTION_DAYS).optional(),
 });
 
 router.get("/api/settings", async (_req, res) => {
@@ -2183,6 +3632,13 @@ router.get("/api/settings", async (_req, res) => {
 router.put("/api/settings", async (req, res) => {
   try {
     const data = validate(settingsSchema, req.body);
+    if (data.defaultProtocolId !== undefined || data.customProtocols !== undefined) {
+      const current = await storage.getNutritionistSettings();
+      const protocolId = data.defaultProtocolId ?? current.defaultProtocolId;
+      if (!findProtocol(protocolId, data.customProtocols ?? current.customProtocols)) {
+        return res.status(400).json({ error: "Unknown default measurement protocol" });
+      }
+    }
     const updated = await storage.updateNutritionistSettings(data);
     res.json(updated);
   } catch (error) {
@@ -2199,6 +3655,9 @@ export { router };
 
 // Main function to register routes and create HTTP server
 export function registerRoutes(app: Express): Server {
+  // Every API route requires a session and the role's permission (see server/auth.ts)
+  app.use("/api", authorizeApiRequest);
+
   // Mount all API routes
   app.use(router);
 
@@ -0,0 +1,122 @@
+/**
+ * Comparación del % de grasa por bioimpedancia con los métodos de pliegues
+ * del mismo día: Durnin & Womersley (grasa química, vía densidad corporal) y
+ * la masa adiposa del fraccionamiento en cinco componentes de Kerr. La masa
+ * adiposa de Kerr incluye agua y tejido conectivo, por eso suele quedar por
+ * encima de la grasa que estiman la BIA y Durnin & Womersley.
+ */
+
+import type { IStorage } from "../storage";
+import type { BiaMeasurement } from "@shared/schema";
+import type { BodyFatEstimate } from "@shared/body-fat-equations";
+
+export interface BiaComparisonRow {
+  date: string; // aaaa-mm-dd
+  biaMeasurementId: string;
+  measurementId: string | null;
+  device: string | null;
+  biaBodyFatPercentage: number | null;
+  biaFatMassKg: number | null;
+  durninWomersleyPercentage: number | null;
+  kerrAdiposePercentage: number | null;
+  kerrAdiposeKg: number | null;
+  /** BIA − Durnin & Womersley, en puntos porcentuales. */
+  differenceVsDurninWomersley: number | null;
+  /** BIA − masa adiposa de Kerr, en puntos porcentuales. */
+  differenceVsKerr: number | null;
+}
+
+export interface BiaComparison {
+  patientId: string;
+  rows: BiaComparisonRow[];
+  /** Cantidad de registros BIA con antropometría el mismo día. */
+  matchedDates: number;
+  meanDifferenceVsDurninWomersley: number | null;
+  meanDifferenceVsKerr: number | null;
+}
+
+const toNumber = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const numeric = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(numeric) ? numeric : null;
+};
+
+const round = (value: number | null, digits = 1) => (value === null ? null : parseFloat(value.toFixed(digits)));
+
+/** Día calendario local (las mediciones se cargan con hora 00:00 o la del equipo). */
+function toDateKey(value: Date | string): string {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function mean(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? round(present.reduce((total, value) => total + value, 0) / present.length) : null;
+}
+
+function getBiaBodyFat(bia: BiaMeasurement): number | null {
+  const percentage = toNumber(bia.bodyFatPercentage);
+  if (percentage !== null) return percentage;
+  const fatMass = toNumber(bia.fatMassKg);
+  const weight = toNumber(bia.weight);
+  return fatMass !== null && weight ? (fatMass / weight) * 100 : null;
+}
+
+export async function getBiaComparison(storage: IStorage, patientId: string): Promise<BiaComparison> {
+  const [biaMeasurements, measurements] = await Promise.all([
+    storage.getBiaMeasurements(patientId),
+    storage.getMeasurementsWithPatient(patientId),
+  ]);
+
+  // Si hay más de una medición antropométrica el mismo día, se toma la última cargada
+  const measurementsByDate = new Map<string, (typeof measurements)[number]>();
+  [...measurements]
+    .sort((a, b) => new Date(a.measurementDate).getTime() - new Date(b.measurementDate).getTime())
+    .forEach((measurement) => measurementsByDate.set(toDateKey(measurement.measurementDate), measurement));
+
+  const rows = [...biaMeasurements]
+    .sort((a, b) => new Date(a.measurementDate).getTime() - new Date(b.measurementDate).getTime())
+    .map((bia): BiaComparisonRow => {
+      const date = toDateKey(bia.measurementDate);
+      const measurement = measurementsByDate.get(date) ?? null;
+      const calculations = measurement?.calculations ?? null;
+
+      const estimates = (calculations?.bodyFatEstimates as BodyFatEstimate[] | null) ?? [];
+      const durninEstimate = estimates.find((estimate) => estimate.equation === "durnin_womersley");
+      const durninWomersleyPercentage = durninEstimate
+        ? durninEstimate.bodyFatPercentage
+        : calculations?.bodyFatEquation === "durnin_womersley"
+          ? toNumber(calculations.bodyFatPercentage)
+          : null;
+      const kerrAdiposePercentage = toNumber(calculations?.adiposeMassPercent);
+      const biaBodyFatPercentage = getBiaBodyFat(bia);
+
+      return {
+        date,
+        biaMeasurementId: bia.id,
+        measurementId: measurement?.id ?? null,
+        device: bia.device,
+        biaBodyFatPercentage: round(biaBodyFatPercentage),
+        biaFatMassKg: round(toNumber(bia.fatMassKg), 2),
+        durninWomersleyPercentage: round(durninWomersleyPercentage),
+        kerrAdiposePercentage: round(kerrAdiposePercentage),
+        kerrAdiposeKg: round(toNumber(calculations?.adiposeMassKg), 2),
+        differenceVsDurninWomersley:
+          biaBodyFatPercentage !== null && durninWomersleyPercentage !== null
+            ? round(biaBodyFatPercentage - durninWomersleyPercentage)
+            : null,
+        differenceVsKerr:
+          biaBodyFatPercentage !== null && kerrAdiposePercentage !== null
+            ? round(biaBodyFatPercentage - kerrAdiposePercentage)
+            : null,
+      };
+    });
+
+  return {
+    patientId,
+    rows,
+    matchedDates: rows.filter((row) => row.measurementId !== null).length,
+    meanDifferenceVsDurninWomersley: mean(rows.map((row) => row.differenceVsDurninWomersley)),
+    meanDifferenceVsKerr: mean(rows.map((row) => row.differenceVsKerr)),
+  };
+}
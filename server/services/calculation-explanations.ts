@@ -0,0 +1,550 @@
+/**
+ * Explicación de los valores derivados de una fila de measurement_calculations.
+ * Cada explicación se reconstruye con las entradas guardadas en inputSnapshot
+ * (no con el paciente ni la configuración actuales), así el desglose coincide
+ * con el número que se informó.
+ */
+
+import type { MeasurementCalculation } from "@shared/schema";
+import {
+  BODY_FAT_EQUATIONS,
+  DENSITY_CONVERSIONS,
+  type BodyFatEstimate,
+} from "@shared/body-fat-equations";
+import { PHANTOM_HEIGHT, calculateHeightWeightRatio, toNumberOrNull } from "@shared/isak-calculations";
+import { GROWTH_INDICATORS, getLms, type GrowthIndicator } from "@shared/growth-references";
+import { BMR_EQUATIONS } from "@shared/energy-equations";
+import { describeTrainingSession } from "@shared/training-schedule";
+import type { CalculationInputSnapshot, EnergyBreakdown } from "./measurement-calculations";
+
+export interface ExplanationTerm {
+  key: string;
+  label: string;
+  value: number | string | null;
+  unit?: string;
+}
+
+export interface CalculationExplanation {
+  field: string;
+  label: string;
+  value: number | string | null;
+  unit: string;
+  formula: string;
+  reference?: string;
+  inputs: ExplanationTerm[];
+  steps: ExplanationTerm[];
+  notes: string[];
+}
+
+interface ExplainContext {
+  row: MeasurementCalculation;
+  snapshot: CalculationInputSnapshot;
+  input: (key: string) => number | null;
+  stored: (field: keyof MeasurementCalculation) => number | null;
+}
+
+type Explainer = (context: ExplainContext) => Omit<CalculationExplanation, "field" | "value"> | null;
+
+const round = (value: number, decimals = 3) => parseFloat(value.toFixed(decimals));
+
+const term = (key: string, label: string, value: number | string | null, unit?: string): ExplanationTerm => ({
+  key,
+  label,
+  value: typeof value === "number" ? round(value) : value,
+  unit,
+});
+
+const MEASUREMENT_LABELS: Record<string, { label: string; unit: string }> = {
+  weight: { label: "Peso", unit: "kg" },
+  height: { label: "Talla", unit: "cm" },
+  triceps: { label: "Pliegue tríceps", unit: "mm" },
+  biceps: { label: "Pliegue bíceps", unit: "mm" },
+  subscapular: { label: "Pliegue subescapular", unit: "mm" },
+  suprailiac: { label: "Pliegue suprailiaco", unit: "mm" },
+  supraspinal: { label: "Pliegue supraespinal", unit: "mm" },
+  abdominal: { label: "Pliegue abdominal", unit: "mm" },
+  thighSkinfold: { label: "Pliegue muslo", unit: "mm" },
+  calfSkinfold: { label: "Pliegue pantorrilla", unit: "mm" },
+  chestSkinfold: { label: "Pliegue pectoral", unit: "mm" },
+  midaxillarySkinfold: { label: "Pliegue axilar medio", unit: "mm" },
+  waistCircumference: { label: "Cintura", unit: "cm" },
+  hipCircumference: { label: "Cadera", unit: "cm" },
+  flexedArm: { label: "Brazo flexionado", unit: "cm" },
+  calf: { label: "Pantorrilla", unit: "cm" },
+  humeral: { label: "Diámetro humeral", unit: "cm" },
+  femoral: { label: "Diámetro femoral", unit: "cm" },
+};
+
+const measurementTerms = (context: ExplainContext, keys: string[]): ExplanationTerm[] =>
+  keys.map((key) => term(key, MEASUREMENT_LABELS[key]?.label ?? key, context.input(key), MEASUREMENT_LABELS[key]?.unit));
+
+const SUM_OF_4_SITES = ["triceps", "biceps", "subscapular", "suprailiac"];
+const SUM_OF_6_SITES = ["triceps", "subscapular", "supraspinal", "abdominal", "thighSkinfold", "calfSkinfold"];
+
+const OBJECTIVE_FACTORS: Record<CalculationInputSnapshot["patient"]["objectiveCategory"], { factor: number; label: string }> = {
+  loss: { factor: 0.85, label: "Déficit moderado (-15%)" },
+  gain: { factor: 1.1, label: "Superávit moderado (+10%)" },
+  maintain: { factor: 1, label: "Mantenimiento" },
+};
+
+function proteinMultiplier(snapshot: CalculationInputSnapshot): number {
+  const { settings, patient } = snapshot;
+  if (patient.objectiveCategory === "loss") return settings.proteinMultiplierLoss;
+  if (patient.objectiveCategory === "gain") return settings.proteinMultiplierGain;
+  return settings.proteinMultiplierMaintain;
+}
+
+function explainSum(sites: string[], label: string): Explainer {
+  return (context) => ({
+    label,
+    unit: "mm",
+    formula: sites.map((site) => MEASUREMENT_LABELS[site].label.replace("Pliegue ", "")).join(" + "),
+    inputs: measurementTerms(context, sites),
+    steps: [],
+    notes: [],
+  });
+}
+
+function explainKerrMass(component: "skin" | "adipose" | "bone" | "residual" | "muscle", label: string): Explainer {
+  return (context) => {
+    const weight = context.input("weight");
+    const height = context.input("height");
+    const male = context.snapshot.patient.gender?.toUpperCase().startsWith("F") !== true;
+    const base = { label, unit: "kg", reference: "Fraccionamiento en 5 componentes", notes: [] as string[] };
+
+    if (component === "skin") {
+      const surface = weight && height ? 0.007184 * Math.pow(weight, 0.425) * Math.pow(height, 0.725) : null;
+      return {
+        ...base,
+        formula: "Masa de piel = SC × 2.0 × 1.05, con SC (DuBois) = 0.007184 × peso^0.425 × talla^0.725",
+        inputs: measurementTerms(context, ["weight", "height"]),
+        steps: [term("bodySurface", "Superficie corporal", surface, "m²")],
+      };
+    }
+    if (component === "adipose") {
+      const sum = SUM_OF_6_SITES.reduce((total, site) => total + (context.input(site) ?? 0), 0);
+      const density = 1.0982 - 0.000815 * sum;
+      const fatPercent = 495 / density - 450;
+      return {
+        ...base,
+        formula: "Masa adiposa = peso × (495 / D − 450) / 100, con D = 1.0982 − 0.000815 × Σ6 pliegues",
+        inputs: measurementTerms(context, ["weight", ...SUM_OF_6_SITES]),
+        steps: [
+          term("sumOf6Skinfolds", "Σ6 pliegues", sum, "mm"),
+          term("density", "Densidad corporal", density, "g/cm³"),
+          term("fatPercent", "% adiposo", fatPercent, "%"),
+        ],
+      };
+    }
+    if (component === "bone") {
+      return {
+        ...base,
+        formula: "Masa ósea = 3.02 × (talla² × húmero × fémur × 400)^0.712 (talla y diámetros en m)",
+        inputs: measurementTerms(context, ["height", "humeral", "femoral"]),
+        steps: [],
+      };
+    }
+    if (component === "residual") {
+      return {
+        ...base,
+        formula: `Masa residual = peso × ${male ? "24.1" : "20.9"} / 100 (${male ? "varones" : "mujeres"})`,
+        inputs: [...measurementTerms(context, ["weight"]), term("gender", "Sexo", context.snapshot.patient.gender)],
+        steps: [],
+      };
+    }
+    return {
+      ...base,
+      formula: "Masa muscular = peso − (piel + adiposa + ósea + residual)",
+      inputs: measurementTerms(context, ["weight"]),
+      steps: [
+        term("skinMassKg", "Masa de piel", context.stored("skinMassKg"), "kg"),
+        term("adiposeMassKg", "Masa adiposa", context.stored("adiposeMassKg"), "kg"),
+        term("boneMassKg", "Masa ósea", context.stored("boneMassKg"), "kg"),
+        term("residualMassKg", "Masa residual", context.stored("residualMassKg"), "kg"),
+      ],
+    };
+  };
+}
+
+function explainGrowthZScore(indicator: GrowthIndicator, phantomKey: "weight" | "height" | "bmi"): Explainer {
+  return (context) => {
+    const { snapshot } = context;
+    const sex = snapshot.patient.gender === "M" || snapshot.patient.gender === "F" ? snapshot.patient.gender : null;
+    const ageInMonths = snapshot.patient.ageInMonths;
+    const lms = snapshot.equations.growthReference && sex && ageInMonths !== null ? getLms(indicator, sex, ageInMonths) : null;
+    const value = phantomKey === "bmi" ? context.stored("bmi") : context.input(phantomKey);
+
+    if (lms) {
+      return {
+        label: `Score-Z ${GROWTH_INDICATORS[indicator].label.toLowerCase()}`,
+        unit: "SD",
+        formula: "z = ((X / M)^L − 1) / (L × S)",
+        reference: snapshot.equations.growthReference === "who-2006" ? "OMS 2006" : "OMS 2007",
+        inputs: [
+          term("value", GROWTH_INDICATORS[indicator].label, value, GROWTH_INDICATORS[indicator].unit),
+          term("ageInMonths", "Edad a la medición", ageInMonths, "meses"),
+          term("gender", "Sexo", sex),
+        ],
+        steps: [term("L", "L", lms.L), term("M", "M (mediana)", lms.M), term("S", "S", lms.S)],
+        notes: ["Más allá de ±3 SD la OMS ajusta el Score-Z de peso e IMC con la distancia entre las curvas de 2 y 3 SD."],
+      };
+    }
+
+    const notes = [`Población de referencia: ${snapshot.equations.referencePopulation}.`];
+    if (phantomKey === "bmi") {
+      notes.push("Cálculo de versiones anteriores: el desvío estándar del IMC se aproximaba como el 10% de la media. Ahora sólo se informa con las referencias OMS.");
+    }
+    return {
+      label: `Score-Z ${phantomKey === "bmi" ? "IMC" : MEASUREMENT_LABELS[phantomKey].label.toLowerCase()}`,
+      unit: "SD",
+      formula:
+        phantomKey === "bmi"
+          ? "z = (IMC − IMC de referencia) / (0.1 × IMC de referencia)"
+          : `z = (X × (${PHANTOM_HEIGHT} / talla)^d − P) / s (Phantom)`,
+      reference: "Ross & Wilson (Phantom)",
+      inputs: [term("value", phantomKey === "bmi" ? "IMC" : MEASUREMENT_LABELS[phantomKey].label, value), ...measurementTerms(context, phantomKey === "height" ? [] : ["height"])],
+      steps: [],
+      notes,
+    };
+  };
+}
+
+const EXPLAINERS: Record<string, Explainer> = {
+  bmi: (context) => {
+    const height = context.input("height");
+    return {
+      label: "Índice de masa corporal",
+      unit: "kg/m²",
+      formula: "IMC = peso / talla²",
+      inputs: measurementTerms(context, ["weight", "height"]),
+      steps: [term("heightM", "Talla", height !== null ? height / 100 : null, "m")],
+      notes: context.row.bmiClassification ? [`Clasificación: ${context.row.bmiClassification}.`] : [],
+    };
+  },
+  sumOf4Skinfolds: explainSum(SUM_OF_4_SITES, "Suma de 4 pliegues"),
+  sumOf6Skinfolds: explainSum(SUM_OF_6_SITES, "Suma de 6 pliegues"),
+  bodyFatPercentage: (context) => {
+    const equationId = context.snapshot.equations.bodyFat;
+    if (!equationId) return null;
+    const equation = BODY_FAT_EQUATIONS[equationId];
+    const estimate = ((context.row.bodyFatEstimates as BodyFatEstimate[] | null) ?? []).find(
+      (item) => item.equation === equationId,
+    );
+    const conversion = context.snapshot.equations.densityConversion;
+    const steps: ExplanationTerm[] = [];
+    if (estimate) steps.push(term("sumOfSkinfolds", "Suma de pliegues", estimate.sumOfSkinfolds, "mm"));
+    if (estimate?.density) steps.push(term("density", "Densidad corporal", estimate.density, "g/cm³"));
+    return {
+      label: "% Grasa corporal",
+      unit: "%",
+      formula:
+        equation.output === "density" && conversion
+          ? `${equation.label} → densidad; % grasa con ${DENSITY_CONVERSIONS[conversion].label} (${conversion === "siri" ? "495 / D − 450" : "457 / D − 414.2"})`
+          : `${equation.label} (% grasa directo)`,
+      reference: equation.reference,
+      inputs: [
+        ...measurementTerms(context, estimate?.sites ?? equation.requiredSites(context.snapshot.patient.gender === "F" ? "F" : "M")),
+        term("age", "Edad a la medición", context.snapshot.patient.age, "años"),
+        term("gender", "Sexo", context.snapshot.patient.gender),
+      ],
+      steps,
+      notes:
+        context.snapshot.settings.bodyFatEquation !== equationId
+          ? [`La ecuación preferida (${BODY_FAT_EQUATIONS[context.snapshot.settings.bodyFatEquation ?? "durnin_womersley"].label}) no era aplicable; se usó la siguiente disponible.`]
+          : [],
+    };
+  },
+  leanMass: (context) => {
+    const weight = context.input("weight");
+    const fat = context.stored("bodyFatPercentage");
+    return {
+      label: "Masa magra",
+      unit: "kg",
+      formula: "Masa magra = peso × (1 − % grasa / 100)",
+      inputs: [...measurementTerms(context, ["weight"]), term("bodyFatPercentage", "% Grasa corporal", fat, "%")],
+      steps: [term("fatMass", "Masa grasa", weight !== null && fat !== null ? (weight * fat) / 100 : null, "kg")],
+      notes: [],
+    };
+  },
+  waistHipRatio: (context) => ({
+    label: "Índice cintura/cadera",
+    unit: "",
+    formula: "ICC = cintura / cadera",
+    inputs: measurementTerms(context, ["waistCircumference", "hipCircumference"]),
+    steps: [],
+    notes: [],
+  }),
+  endomorphy: (context) => {
+    const height = context.input("height");
+    const sum = ["triceps", "subscapular", "supraspinal"].reduce((total, site) => total + (context.input(site) ?? 0), 0);
+    return {
+      label: "Endomorfia",
+      unit: "",
+      formula: "Endo = −0.7182 + 0.1451·X − 0.00068·X² + 0.0000014·X³, con X = Σ3 pliegues × 170.18 / talla",
+      reference: "Heath-Carter",
+      inputs: measurementTerms(context, ["height", "triceps", "subscapular", "supraspinal"]),
+      steps: [term("x", "X (Σ3 corregida por talla)", height ? sum * (PHANTOM_HEIGHT / height) : null, "mm")],
+      notes: ["Ningún componente se informa por debajo de 0.1."],
+    };
+  },
+  mesomorphy: (context) => {
+    const arm = context.input("flexedArm");
+    const triceps = context.input("triceps");
+    const calf = context.input("calf");
+    const calfSkinfold = context.input("calfSkinfold");
+    return {
+      label: "Mesomorfia",
+      unit: "",
+      formula: "Meso = 0.858·húmero + 0.601·fémur + 0.188·brazo corregido + 0.161·pantorrilla corregida − 0.131·talla + 4.5",
+      reference: "Heath-Carter",
+      inputs: measurementTerms(context, ["height", "humeral", "femoral", "flexedArm", "triceps", "calf", "calfSkinfold"]),
+      steps: [
+        term("correctedArm", "Brazo corregido (brazo − tríceps/10)", arm !== null && triceps !== null ? arm - triceps / 10 : null, "cm"),
+        term("correctedCalf", "Pantorrilla corregida (pantorrilla − pliegue/10)", calf !== null && calfSkinfold !== null ? calf - calfSkinfold / 10 : null, "cm"),
+      ],
+      notes: [],
+    };
+  },
+  ectomorphy: (context) => {
+    const height = context.input("height");
+    const weight = context.input("weight");
+    return {
+      label: "Ectomorfia",
+      unit: "",
+      formula: "HWR ≥ 40.75: 0.732·HWR − 28.58; 38.25 < HWR < 40.75: 0.463·HWR − 17.63; si no, 0.1",
+      reference: "Heath-Carter",
+      inputs: measurementTerms(context, ["height", "weight"]),
+      steps: [term("hwr", "Índice ponderal (talla / ∛peso)", height && weight ? calculateHeightWeightRatio(height, weight) : null)],
+      notes: [],
+    };
+  },
+  skinMassKg: explainKerrMass("skin", "Masa de la piel"),
+  adiposeMassKg: explainKerrMass("adipose", "Masa adiposa"),
+  boneMassKg: explainKerrMass("bone", "Masa ósea"),
+  residualMassKg: explainKerrMass("residual", "Masa residual"),
+  muscleMassKg: explainKerrMass("muscle", "Masa muscular"),
+  basalMetabolicRate: (context) => {
+    const { snapshot } = context;
+    const energy = getEnergyBreakdown(context.row);
+    const equationId = energy?.bmr.equation ?? snapshot.equations.bmr;
+    if (!equationId) return null;
+    const equation = BMR_EQUATIONS[equationId];
+    const inputs: ExplanationTerm[] = [];
+    if (equation.requiresLeanMass) {
+      inputs.push(term("leanMass", "Masa magra", context.stored("leanMass"), "kg"));
+    } else {
+      inputs.push(...measurementTerms(context, equation.requiresHeight ? ["weight", "height"] : ["weight"]));
+      if (equation.requiresAge) inputs.push(term("age", "Edad a la medición", snapshot.patient.age, "años"));
+      inputs.push(term("gender", "Sexo", snapshot.patient.gender));
+    }
+    const notes: string[] = [];
+    if (energy?.bmr.fallbackFrom) {
+      notes.push(`La ecuación elegida (${BMR_EQUATIONS[energy.bmr.fallbackFrom].label}) no era aplicable con los datos disponibles.`);
+    }
+    if (equationId === "mifflin_st_jeor" && snapshot.patient.gender !== "M" && snapshot.patient.gender !== "F") {
+      notes.push("Sin sexo informado se usa una constante intermedia (−78).");
+    }
+    return {
+      label: "Metabolismo basal",
+      unit: "kcal",
+      formula: `${equation.label}: ${equation.formula}`,
+      reference: equation.reference,
+      inputs,
+      steps: [],
+      notes,
+    };
+  },
+  activityMultiplier: (context) => {
+    const energy = getEnergyBreakdown(context.row);
+    if (energy?.factorial) {
+      return {
+        label: "Factor de actividad",
+        unit: "",
+        formula: "Factor equivalente = GET factorial / TMB",
+        inputs: [
+          term("totalEnergyExpenditure", "Gasto energético total", energy.factorial.totalEnergyExpenditure, "kcal"),
+          term("basalMetabolicRate", "Metabolismo basal", energy.bmr.value, "kcal"),
+        ],
+        steps: [],
+        notes: ["Con el modelo factorial el factor no se elige: resulta de las sesiones semanales."],
+      };
+    }
+    const { activity } = context.snapshot;
+    const sessions = activity.profile.trainingSessions ?? [];
+    const sourceLabel =
+      activity.source === "trainingSchedule"
+        ? `${activity.trainingDays} día(s) con sesiones en la agenda semanal`
+        : activity.source === "exerciseDays"
+        ? `${activity.trainingDays} día(s) de entrenamiento declarados`
+        : activity.source === "exercisesRegularly"
+          ? "Entrena regularmente (sin días declarados)"
+          : "Sedentario (sin actividad declarada)";
+    const notes = activity.clamped ? ["El factor se acotó al rango 1.1-2.2."] : [];
+    if (energy?.requestedModel === "factorial") {
+      notes.push("Se pidió el modelo factorial pero el paciente no tiene sesiones semanales cargadas.");
+    }
+    return {
+      label: "Factor de actividad",
+      unit: "",
+      formula: "Factor base por días de entrenamiento + ajustes, acotado entre 1.1 y 2.2",
+      inputs: sessions.length > 0
+        ? sessions.map((session, index) => term(`session${index}`, `Sesión ${index + 1}`, describeTrainingSession(session)))
+        : [
+            term("exerciseDays", "Días de entrenamiento", activity.profile.exerciseDays ?? null),
+            term("exerciseSchedule", "Horario", activity.profile.exerciseSchedule ?? null),
+            term("sportType", "Deporte", activity.profile.sportType ?? null),
+          ],
+      steps: [
+        term("baseMultiplier", `Factor base (${sourceLabel})`, activity.baseMultiplier),
+        ...activity.adjustments.map((adjustment, index) => term(`adjustment${index}`, adjustment.reason, adjustment.delta)),
+      ],
+      notes,
+    };
+  },
+  maintenanceCalories: (context) => {
+    const energy = getEnergyBreakdown(context.row);
+    if (energy?.factorial) {
+      const { factorial } = energy;
+      return {
+        label: "Calorías de mantenimiento",
+        unit: "kcal",
+        formula: `GET = TMB × ${factorial.baselineFactor} + Σ (MET − 1) × peso × horas / 7`,
+        reference: "Compendio de Actividades Físicas (Ainsworth et al., 2011)",
+        inputs: [
+          term("basalMetabolicRate", "Metabolismo basal", energy.bmr.value, "kcal"),
+          ...measurementTerms(context, ["weight"]),
+          ...factorial.sessions.map((session, index) =>
+            term(`session${index}`, `${session.sport} (${session.met} MET)`, session.durationMinutes, "min"),
+          ),
+        ],
+        steps: [
+          term("baselineCalories", "Vida cotidiana (TMB × factor basal)", factorial.baselineCalories, "kcal"),
+          ...factorial.sessions.map((session, index) => term(`sessionKcal${index}`, session.sport, session.kcal, "kcal/sesión")),
+          term("weeklyExerciseCalories", "Entrenamiento semanal", factorial.weeklyExerciseCalories, "kcal"),
+          term("dailyExerciseCalories", "Entrenamiento promedio diario", factorial.dailyExerciseCalories, "kcal"),
+        ],
+        notes: [],
+      };
+    }
+    return {
+      label: "Calorías de mantenimiento",
+      unit: "kcal",
+      formula: "Mantenimiento = TMB × factor de actividad",
+      inputs: [
+        term("basalMetabolicRate", "Metabolismo basal", context.stored("basalMetabolicRate"), "kcal"),
+        term("activityMultiplier", "Factor de actividad", context.stored("activityMultiplier")),
+      ],
+      steps: [],
+      notes: [],
+    };
+  },
+  targetCalories: (context) => {
+    const objective = OBJECTIVE_FACTORS[context.snapshot.patient.objectiveCategory];
+    return {
+      label: "Calorías objetivo",
+      unit: "kcal",
+      formula: "Objetivo = mantenimiento × factor del objetivo (mínimo 900 kcal)",
+      inputs: [
+        term("maintenanceCalories", "Calorías de mantenimiento", context.stored("maintenanceCalories"), "kcal"),
+        term("objective", "Objetivo declarado", context.snapshot.patient.objective),
+      ],
+      steps: [term("factor", objective.label, objective.factor)],
+      notes: [],
+    };
+  },
+  proteinPerDay: (context) => {
+    const leanMass = context.stored("leanMass");
+    const useLean = leanMass !== null && leanMass > 0;
+    return {
+      label: "Proteínas por día",
+      unit: "g",
+      formula: `Proteínas = ${useLean ? "masa magra" : "peso"} × multiplicador de proteínas del objetivo`,
+      inputs: [
+        useLean ? term("leanMass", "Masa magra", leanMass, "kg") : measurementTerms(context, ["weight"])[0],
+        term("proteinMultiplier", "Multiplicador (configuración)", proteinMultiplier(context.snapshot), "g/kg"),
+      ],
+      steps: [],
+      notes: context.snapshot.settings.source === "defaults" ? ["Se usaron los valores por defecto de la configuración."] : [],
+    };
+  },
+  fatsPerDay: (context) => ({
+    label: "Grasas por día",
+    unit: "g",
+    formula: "Grasas = máx(0.8, peso × grasas por kg)",
+    inputs: [
+      ...measurementTerms(context, ["weight"]),
+      term("fatPerKg", "Grasas por kg (configuración)", context.snapshot.settings.fatPerKg, "g/kg"),
+    ],
+    steps: [],
+    notes: [],
+  }),
+  carbsPerDay: (context) => {
+    const target = context.stored("targetCalories");
+    const protein = context.stored("proteinPerDay") ?? 0;
+    const fats = context.stored("fatsPerDay") ?? 0;
+    return {
+      label: "Carbohidratos por día",
+      unit: "g",
+      formula: "Carbohidratos = (calorías objetivo − 4 × proteínas − 9 × grasas) / 4",
+      inputs: [
+        term("targetCalories", "Calorías objetivo", target, "kcal"),
+        term("proteinPerDay", "Proteínas", protein, "g"),
+        term("fatsPerDay", "Grasas", fats, "g"),
+      ],
+      steps: [term("remaining", "Calorías restantes", target !== null ? Math.max(0, target - protein * 4 - fats * 9) : null, "kcal")],
+      notes: [],
+    };
+  },
+  weightZScore: explainGrowthZScore("weightForAge", "weight"),
+  heightZScore: explainGrowthZScore("heightForAge", "height"),
+  bmiZScore: explainGrowthZScore("bmiForAge", "bmi"),
+};
+
+export const EXPLAINABLE_FIELDS = Object.keys(EXPLAINERS);
+
+export function isExplainableField(field: string): boolean {
+  return field in EXPLAINERS;
+}
+
+function getEnergyBreakdown(row: MeasurementCalculation): EnergyBreakdown | null {
+  return (row.energyBreakdown as EnergyBreakdown | null) ?? null;
+}
+
+export function getInputSnapshot(row: MeasurementCalculation): CalculationInputSnapshot | null {
+  return (row.inputSnapshot as CalculationInputSnapshot | null) ?? null;
+}
+
+/**
+ * Explica un campo de la fila; null si la fila no tiene snapshot (anterior al
+ * guardado de entradas), el campo no tiene valor o no es explicable.
+ */
+export function explainCalculation(row: MeasurementCalculation, field: string): CalculationExplanation | null {
+  const snapshot = getInputSnapshot(row);
+  const explainer = EXPLAINERS[field];
+  if (!snapshot || !explainer) return null;
+
+  const rawValue = (row as Record<string, unknown>)[field];
+  if (rawValue === null || rawValue === undefined) return null;
+
+  const context: ExplainContext = {
+    row,
+    snapshot,
+    input: (key) => toNumberOrNull(snapshot.measurement[key] ?? null),
+    stored: (key) => toNumberOrNull((row[key] as number | string | null | undefined) ?? null),
+  };
+  const explanation = explainer(context);
+  if (!explanation) return null;
+
+  return {
+    field,
+    value: typeof rawValue === "number" || typeof rawValue === "string" ? rawValue : null,
+    ...explanation,
+  };
+}
+
+/** Todas las explicaciones disponibles de la fila, en el orden de EXPLAINERS. */
+export function explainAllCalculations(row: MeasurementCalculation): CalculationExplanation[] {
+  return EXPLAINABLE_FIELDS.map((field) => explainCalculation(row, field)).filter(
+    (explanation): explanation is CalculationExplanation => explanation !== null,
+  );
+}
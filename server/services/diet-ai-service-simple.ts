@@ -1,6 +1,15 @@
 import { ChatOpenAI } from "@langchain/openai";
 import type { IStorage } from "../storage";
 import type { Patient, DietTemplate, Measurement } from "@shared/schema";
+import { describeTrainingSession, resolveTrainingSessions } from "@shared/training-schedule";
+import {
+  describeAllergenConflict,
+  describePatientAllergen,
+  findTextAllergenConflicts,
+  isBlockingConflict,
+  resolvePatientAllergens,
+  type AllergenConflict,
+} from "@shared/allergens";
 
 export interface DietGenerationRequest {
   patientId: string;
@@ -13,6 +22,93 @@ export interface DietGenerationResult {
   generationId: string;
   status: 'draft' | 'approved' | 'rejected';
   weeklyPlan: any;
+  warnings: string[];
+}
+
+// Plan de ejemplo sin LLM: una lista de opciones por comida, en orden de preferencia
+const MOCK_MEAL_OPTIONS = [
+  [
+    {
+      type: 'breakfast',
+      name: 'Café con leche descremada + tostadas integrales',
+      description: 'Café con leche 200cc + 2 tostadas integrales con queso untable descremado',
+      ingredients: ['Leche descremada 200cc', 'Café', 'Pan integral 2 rebanadas', 'Queso untable light 30g'],
+      calories: 350,
+      protein: 18,
+      carbs: 45,
+      fats: 8,
+      suggestedTime: '09:00'
+    },
+    {
+      type: 'breakfast',
+      name: 'Infusión + licuado de banana + tortitas de arroz',
+      description: 'Té o café + licuado de banana y frutillas con agua + 4 tortitas de arroz',
+      ingredients: ['Banana 1 unidad', 'Frutillas 100g', 'Tortitas de arroz 4 unidades', 'Té o café'],
+      calories: 320,
+      protein: 6,
+      carbs: 68,
+      fats: 3,
+      suggestedTime: '09:00'
+    },
+  ],
+  [
+    {
+      type: 'lunch',
+      name: 'Carne + ensalada + fruta',
+      description: 'Carne roja magra con ensalada mixta y fruta de estación',
+      ingredients: ['Carne roja 180g', 'Ensalada mixta 1 plato', 'Aceite de oliva 1 cdta', 'Fruta 1 unidad'],
+      calories: 520,
+      protein: 42,
+      carbs: 35,
+      fats: 18,
+      suggestedTime: '13:30'
+    },
+  ],
+  [
+    {
+      type: 'snack',
+      name: 'Yogurt + granola',
+      description: 'Yogurt descremado con granola y frutas',
+      ingredients: ['Yogurt descremado 200cc', 'Granola 30g', 'Frutas mixtas'],
+      calories: 280,
+      protein: 12,
+      carbs: 42,
+      fats: 6,
+      suggestedTime: '17:00'
+    },
+    {
+      type: 'snack',
+      name: 'Fruta + semillas de girasol',
+      description: 'Fruta de estación con semillas de girasol',
+      ingredients: ['Fruta 2 unidades', 'Semillas de girasol 20g'],
+      calories: 240,
+      protein: 6,
+      carbs: 38,
+      fats: 9,
+      suggestedTime: '17:00'
+    },
+  ],
+  [
+    {
+      type: 'dinner',
+      name: 'Pollo + vegetales + arroz integral',
+      description: 'Suprema de pollo al horno con vegetales y arroz integral',
+      ingredients: ['Pollo 150g', 'Vegetales mixtos 1 plato', 'Arroz integral 100g cocido'],
+      calories: 480,
+      protein: 38,
+      carbs: 52,
+      fats: 10,
+      suggestedTime: '20:30'
+    },
+  ],
+];
+
+/** El plan generado incluye alimentos a los que el paciente es alérgico o intolerante. */
+export class DietAllergenError extends Error {
+  constructor(public readonly generationId: string, public readonly conflicts: AllergenConflict[]) {
+    super(`Diet plan contains patient allergens: ${conflicts.map(describeAllergenConflict).join(", ")}`);
+    this.name = "DietAllergenError";
+  }
 }
 
 export class SimpleDietAiService {
@@ -69,28 +165,37 @@ export class SimpleDietAiService {
 
     if (this.llm && templates.length > 0) {
       weeklyPlan = await this.generateWithAI(patient, measurements, templates, request);
-      
-      await this.storage.updateDietGeneration(generation.id, {
-        weeklyPlan,
-        status: 'draft',
-      });
-
-      await this.persistMealsAndExercises(generation.id, weeklyPlan);
     } else {
       weeklyPlan = this.generateMockPlan(patient, request);
-      
+    }
+
+    // Una alergia o intolerancia invalida el plan: queda rechazado y sin comidas. Las preferencias
+    // sólo se avisan para que el nutricionista las revise.
+    const conflicts = findTextAllergenConflicts(resolvePatientAllergens(patient), JSON.stringify(weeklyPlan));
+    const blockingConflicts = conflicts.filter(isBlockingConflict);
+    if (blockingConflicts.length > 0) {
       await this.storage.updateDietGeneration(generation.id, {
         weeklyPlan,
-        status: 'draft',
+        validationErrors: blockingConflicts.map((conflict) => `Contiene ${describeAllergenConflict(conflict)}`),
+        status: 'rejected',
       });
-
-      await this.persistMealsAndExercises(generation.id, weeklyPlan);
+      throw new DietAllergenError(generation.id, blockingConflicts);
     }
 
+    const warnings = conflicts.map((conflict) => `Contiene ${describeAllergenConflict(conflict)}`);
+    await this.storage.updateDietGeneration(generation.id, {
+      weeklyPlan,
+      validationErrors: warnings.length > 0 ? warnings : null,
+      status: 'draft',
+    });
+
+    await this.persistMealsAndExercises(generation.id, weeklyPlan);
+
     return {
       generationId: generation.id,
       status: 'draft',
       weeklyPlan,
+      warnings,
     };
   }
 
@@ -111,6 +216,14 @@ export class SimpleDietAiService {
       .filter(c => c.length > 0)
       .join('\n\n---\n\n');
 
+    const allergens = resolvePatientAllergens(patient);
+    const forbidden = allergens.filter((entry) => entry.severity !== 'preference').map(describePatientAllergen);
+    const avoided = allergens.filter((entry) => entry.severity === 'preference').map(describePatientAllergen);
+
+    const trainingSchedule = resolveTrainingSessions(patient)
+      .map(session => `\n  - ${describeTrainingSession(session)}`)
+      .join('');
+
     const prompt = `Eres la nutricionista Carolina Ibáñez. Genera un plan nutricional semanal personalizado.
 
 PACIENTE:
@@ -119,13 +232,12 @@ PACIENTE:
 - Peso: ${latestMeasurement?.weight || 'N/A'} kg
 - Altura: ${latestMeasurement?.height || 'N/A'} cm
 - Deporte: ${patient.sportType || 'N/A'}
-- Días de entrenamiento: ${patient.exerciseDays || 'N/A'}
-- Horarios: ${patient.exerciseSchedule || 'N/A'}
+- Agenda de entrenamiento: ${trainingSchedule || 'N/A'}
 - Objetivo: ${request.goal}
 - Vegetariano: ${patient.isVegetarian ? 'Sí' : 'No'}
 - Vegano: ${patient.isVegan ? 'Sí' : 'No'}
-- Alergias: ${patient.foodAllergies || 'Ninguna'}
-- Disgustos: ${patient.foodDislikes || 'Ninguno'}
+- Alergias e intolerancias (PROHIBIDO incluirlos, ni como ingrediente menor): ${forbidden.join(', ') || 'Ninguna'}
+- No consume (tampoco incluir): ${avoided.join(', ') || 'Nada'}
 
 EJEMPLOS DE TUS PLANES:
 ${templateExamples}
@@ -186,56 +298,17 @@ Devuelve JSON con esta estructura:
   }
 
   private generateMockPlan(patient: Patient, request: DietGenerationRequest): any {
+    // Primera opción de cada comida que no choque con los alérgenos del paciente
+    const allergens = resolvePatientAllergens(patient);
+    const meals = MOCK_MEAL_OPTIONS.map(
+      (options) => options.find((meal) => findTextAllergenConflicts(allergens, JSON.stringify(meal)).length === 0) ?? options[0],
+    );
+
     return {
       days: Array.from({ length: 7 }, (_, i) => ({
         dayOfWeek: i + 1,
         dayName: ['Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado', 'Domingo'][i],
-        meals: [
-          {
-            type: 'breakfast',
-            name: 'Café con leche descremada + tostadas integrales',
-            description: 'Café con leche 200cc + 2 tostadas integrales con queso untable descremado',
-            ingredients: ['Leche descremada 200cc', 'Café', 'Pan integral 2 rebanadas', 'Queso untable light 30g'],
-            calories: 350,
-            protein: 18,
-            carbs: 45,
-            fats: 8,
-            suggestedTime: '09:00'
-          },
-          {
-            type: 'lunch',
-            name: 'Carne + ensalada + fruta',
-            description: 'Carne roja magra con ensalada mixta y fruta de estación',
-            ingredients: ['Carne roja 180g', 'Ensalada mixta 1 plato', 'Aceite de oliva 1 cdta', 'Fruta 1 unidad'],
-            calories: 520,
-            protein: 42,
-            carbs: 35,
-            fats: 18,
-            suggestedTime: '13:30'
-          },
-          {
-            type: 'snack',
-            name: 'Yogurt + granola',
-            description: 'Yogurt descremado con granola y frutas',
-            ingredients: ['Yogurt descremado 200cc', 'Granola 30g', 'Frutas mixtas'],
-            calories: 280,
-            protein: 12,
-            carbs: 42,
-            fats: 6,
-            suggestedTime: '17:00'
-          },
-          {
-            type: 'dinner',
-            name: 'Pollo + vegetales + arroz integral',
-            description: 'Suprema de pollo al horno con vegetales y arroz integral',
-            ingredients: ['Pollo 150g', 'Vegetales mixtos 1 plato', 'Arroz integral 100g cocido'],
-            calories: 480,
-            protein: 38,
-            carbs: 52,
-            fats: 10,
-            suggestedTime: '20:30'
-          }
-        ],
+        meals,
         exercises: i % 2 === 0 ? [
           {
             type: patient.sportType || 'Entrenamiento',
@@ -3,6 +3,15 @@ import { StateGraph, Annotation, END } from "@langchain/langgraph";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import type { Patient, Measurement, DietTemplate } from "@shared/schema";
+import { describeTrainingSession, resolveTrainingSessions } from "@shared/training-schedule";
+import {
+  describeAllergenConflict,
+  describePatientAllergen,
+  findTextAllergenConflicts,
+  getAllergySeverityLabel,
+  isBlockingConflict,
+  resolvePatientAllergens,
+} from "@shared/allergens";
 import type { IStorage } from "../storage";
 
 // State interface for LangGraph workflow
@@ -224,19 +233,20 @@ export class DietAiService {
         return { ...state, validationErrors: errors };
       }
 
-      // Validate allergies
-      if (state.patient?.foodAllergies) {
-        const allergies = state.patient.foodAllergies.toLowerCase();
-        const planText = JSON.stringify(plan).toLowerCase();
-        
-        // Simple check - should be more sophisticated in production
-        if (allergies.includes("maní") && planText.includes("maní")) {
-          errors.push("Plan contains allergen: maní");
-        }
-        if (allergies.includes("mariscos") && planText.includes("mariscos")) {
-          errors.push("Plan contains allergen: mariscos");
-        }
+      // Alergias e intolerancias cortan el flujo sin guardar el plan; las preferencias quedan para revisión
+      const allergenConflicts = findTextAllergenConflicts(resolvePatientAllergens(state.patient), JSON.stringify(plan));
+      const blockingConflicts = allergenConflicts.filter(isBlockingConflict);
+      if (blockingConflicts.length > 0) {
+        return {
+          ...state,
+          validationErrors: blockingConflicts.map((conflict) => `Plan contains allergen: ${describeAllergenConflict(conflict)}`),
+          success: false,
+          error: `Plan contains patient allergens: ${blockingConflicts.map(describeAllergenConflict).join(", ")}`,
+        };
       }
+      allergenConflicts
+        .filter((conflict) => !isBlockingConflict(conflict))
+        .forEach((conflict) => errors.push(`Plan contains disliked food: ${describeAllergenConflict(conflict)}`));
 
       // Validate vegetarian/vegan preferences
       if (state.patient?.isVegetarian || state.patient?.isVegan) {
@@ -264,6 +274,9 @@ export class DietAiService {
 
     // Node 6: Persist draft
     workflow.addNode("persistDraft", async (state) => {
+      // validatePlan rechazó el plan
+      if (state.error) return state;
+
       console.log("💾 Persisting draft diet plan...");
       
       try {
@@ -381,7 +394,14 @@ export class DietAiService {
       context += `Cintura: ${latestMeasurement.waist || "N/A"} cm\n\n`;
     }
 
-    if (patient?.exercisesRegularly) {
+    const trainingSessions = resolveTrainingSessions(patient);
+    if (trainingSessions.length > 0) {
+      context += `AGENDA SEMANAL DE ENTRENAMIENTO (ubicar pre y post entreno según el horario):\n`;
+      trainingSessions.forEach((session) => {
+        context += `- ${describeTrainingSession(session)}\n`;
+      });
+      context += `\n`;
+    } else if (patient?.exercisesRegularly) {
       context += `ACTIVIDAD FÍSICA:\n`;
       context += `Deporte: ${patient.sportType || "N/A"}\n`;
       context += `Días: ${patient.exerciseDays || "N/A"}\n`;
@@ -393,8 +413,9 @@ export class DietAiService {
     context += `PREFERENCIAS DIET ARIAS:\n`;
     if (patient?.isVegetarian) context += `- Vegetariano\n`;
     if (patient?.isVegan) context += `- Vegano\n`;
-    if (patient?.foodAllergies) context += `- Alergias: ${patient.foodAllergies}\n`;
-    if (patient?.foodDislikes) context += `- No consume: ${patient.foodDislikes}\n`;
+    resolvePatientAllergens(patient).forEach((entry) => {
+      context += `- ${getAllergySeverityLabel(entry.severity)}: ${describePatientAllergen(entry)}\n`;
+    });
     context += `\n`;
 
     if (patient?.medicalConditions || patient?.medications) {
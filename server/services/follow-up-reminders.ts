@@ -0,0 +1,156 @@
+/**
+ * Controles de seguimiento vencidos o por vencer. Una vez por día se recorre
+ * la lista de pacientes: la última visita es la medición o consulta más
+ * reciente y el vencimiento sale de la frecuencia de controles del paciente.
+ * El resultado queda en memoria para la lista "Para contactar" del dashboard;
+ * las rutas que cambian visitas, turnos, pacientes o grupos la invalidan y se
+ * vuelve a calcular en la próxima lectura.
+ */
+
+import type { IStorage } from "../storage";
+import {
+  FOLLOW_UP_CONTACT_SNOOZE_DAYS,
+  FOLLOW_UP_UPCOMING_DAYS,
+  addFollowUpDays,
+  getFollowUpStatus,
+  resolveFollowUpCadence,
+  type FollowUpReminder,
+  type FollowUpReminderList,
+} from "@shared/follow-up";
+import { ACTIVE_APPOINTMENT_STATUSES } from "@shared/appointments";
+import type { AppointmentStatus, PatientGroup } from "@shared/schema";
+
+const SCAN_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+let latest: FollowUpReminderList | null = null;
+// Se incrementa en cada invalidación: un cálculo que empezó antes no pisa la lista
+let generation = 0;
+
+function latestDate(...dates: (Date | string | null | undefined)[]): Date | null {
+  const times = dates
+    .filter((date): date is Date | string => Boolean(date))
+    .map((date) => new Date(date).getTime())
+    .filter((time) => !Number.isNaN(time));
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
+
+export async function computeFollowUpReminders(storage: IStorage, now: Date = new Date()): Promise<FollowUpReminder[]> {
+  const [patients, groups, memberships, contacts, upcomingAppointments] = await Promise.all([
+    storage.getPatients(),
+    storage.getPatientGroups(),
+    storage.getGroupMemberships(),
+    storage.getFollowUpContacts(),
+    storage.getAppointments({ from: now }),
+  ]);
+
+  const groupsById = new Map(groups.map((group) => [group.id, group]));
+  const groupsByPatient = new Map<string, PatientGroup[]>();
+  for (const membership of memberships) {
+    const group = groupsById.get(membership.groupId);
+    if (!group) continue;
+    groupsByPatient.set(membership.patientId, [...(groupsByPatient.get(membership.patientId) ?? []), group]);
+  }
+
+  // Vienen del más reciente al más antiguo: el primero de cada paciente es el último contacto
+  const lastContactByPatient = new Map<string, Date>();
+  for (const contact of contacts) {
+    if (!lastContactByPatient.has(contact.patientId)) {
+      lastContactByPatient.set(contact.patientId, contact.contactedAt);
+    }
+  }
+
+  // Quien ya tiene turno no hace falta contactarlo
+  const scheduledPatientIds = new Set(
+    upcomingAppointments
+      .filter((appointment) => ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status as AppointmentStatus))
+      .map((appointment) => appointment.patientId),
+  );
+
+  const reminders: FollowUpReminder[] = [];
+  for (const patient of patients) {
+    if (scheduledPatientIds.has(patient.id)) continue;
+
+    const [latestMeasurement, consultations] = await Promise.all([
+      storage.getLatestMeasurement(patient.id),
+      storage.getConsultationsByPatient(patient.id),
+    ]);
+    const lastVisitAt = latestDate(
+      latestMeasurement?.measurementDate,
+      ...consultations.map((consultation) => consultation.consultationDate),
+    );
+
+    const cadence = resolveFollowUpCadence(patient, groupsByPatient.get(patient.id));
+    const dueAt = addFollowUpDays(lastVisitAt ?? patient.createdAt, cadence.days);
+    const status = getFollowUpStatus(dueAt, now);
+    if (!status) continue;
+
+    // Cuenta el contacto hecho desde que el control entró en la lista
+    const lastContactedAt = lastContactByPatient.get(patient.id) ?? null;
+    const contactedThisCycle =
+      lastContactedAt !== null &&
+      lastContactedAt.getTime() >= addFollowUpDays(dueAt, -FOLLOW_UP_UPCOMING_DAYS).getTime() &&
+      (!lastVisitAt || lastContactedAt.getTime() > lastVisitAt.getTime());
+    const contacted =
+      contactedThisCycle &&
+      now.getTime() < addFollowUpDays(lastContactedAt, FOLLOW_UP_CONTACT_SNOOZE_DAYS).getTime();
+
+    reminders.push({
+      patientId: patient.id,
+      patientName: patient.name,
+      phone: patient.phone,
+      objective: patient.objective,
+      cadenceDays: cadence.days,
+      cadenceSource: cadence.source,
+      lastVisitAt: lastVisitAt ? lastVisitAt.toISOString() : null,
+      dueAt: dueAt.toISOString(),
+      daysOverdue: status.daysOverdue,
+      status: status.status,
+      lastContactedAt: lastContactedAt ? lastContactedAt.toISOString() : null,
+      contacted,
+    });
+  }
+
+  // Primero los pendientes, del más atrasado al que vence más tarde
+  return reminders.sort(
+    (a, b) => Number(a.contacted) - Number(b.contacted) || b.daysOverdue - a.daysOverdue,
+  );
+}
+
+export async function refreshFollowUpReminders(storage: IStorage, now: Date = new Date()): Promise<FollowUpReminderList> {
+  const startedAt = generation;
+  const reminders = await computeFollowUpReminders(storage, now);
+  const list = { computedAt: now.toISOString(), reminders };
+  if (startedAt === generation) latest = list;
+  return list;
+}
+
+/** Descarta la lista en memoria tras un cambio en los datos de los que depende. */
+export function invalidateFollowUpReminders() {
+  latest = null;
+  generation += 1;
+}
+
+/** La última lista calculada; si el job todavía no corrió, se calcula en el momento. */
+export async function getFollowUpReminders(storage: IStorage): Promise<FollowUpReminderList> {
+  return latest ?? (await refreshFollowUpReminders(storage));
+}
+
+/** Calcula la lista al iniciar y luego cada SCAN_INTERVAL_MS. */
+export function scheduleFollowUpScan(storage: IStorage) {
+  const run = async () => {
+    try {
+      const { reminders } = await refreshFollowUpReminders(storage);
+      const overdue = reminders.filter((reminder) => reminder.status === "overdue" && !reminder.contacted).length;
+      if (overdue > 0) {
+        console.log(`[FollowUp] ${overdue} paciente(s) con el control vencido`);
+      }
+    } catch (error) {
+      console.error("[FollowUp] Error al calcular los controles:", error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, SCAN_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,81 @@
+/**
+ * Simulación de objetivos de composición corporal para un paciente. El estado
+ * actual y el historial se recalculan con calculateAll y la configuración
+ * vigente, así la tendencia no mezcla ecuaciones de grasa distintas.
+ */
+
+import type { IStorage } from "../storage";
+import type { Measurement } from "@shared/schema";
+import { simulateGoal, type GoalHistoryPoint, type GoalSimulation, type GoalTarget } from "@shared/goal-simulator";
+import { computeMeasurementCalculations } from "./measurement-recalculation";
+
+const toNumber = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const numeric = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(numeric) ? numeric : null;
+};
+
+export class GoalSimulationError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 = 400) {
+    super(message);
+    this.name = "GoalSimulationError";
+  }
+}
+
+export interface GoalSimulationRequest {
+  target: GoalTarget;
+  weeklyRatePercent?: number | null;
+  /** Medición desde la que se simula; por defecto, la última del paciente. */
+  measurementId?: string | null;
+}
+
+export async function simulatePatientGoal(
+  storage: IStorage,
+  patientId: string,
+  request: GoalSimulationRequest,
+): Promise<GoalSimulation> {
+  const patient = await storage.getPatient(patientId);
+  if (!patient) {
+    throw new GoalSimulationError("Patient not found", 404);
+  }
+  const [measurements, settings] = await Promise.all([
+    storage.getMeasurements(patientId),
+    storage.getNutritionistSettings(),
+  ]);
+  const sorted = [...measurements]
+    .filter((measurement) => toNumber(measurement.weight) !== null)
+    .sort((a, b) => new Date(a.measurementDate).getTime() - new Date(b.measurementDate).getTime());
+
+  const baseIndex = request.measurementId
+    ? sorted.findIndex((measurement) => measurement.id === request.measurementId)
+    : sorted.length - 1;
+  if (baseIndex < 0) {
+    throw new GoalSimulationError("The patient has no measurements with weight");
+  }
+
+  // La tendencia sólo usa mediciones hasta la de base (así el informe de una medición vieja es reproducible)
+  const history = sorted.slice(0, baseIndex + 1).map((measurement: Measurement) => {
+    const calculations = computeMeasurementCalculations(measurement, patient, settings);
+    return { measurement, calculations };
+  });
+  const { measurement: base, calculations } = history[history.length - 1];
+
+  return simulateGoal({
+    current: {
+      date: new Date(base.measurementDate).toISOString(),
+      weight: toNumber(base.weight) as number,
+      bodyFatPercentage: toNumber(calculations.bodyFatPercentage),
+      leanMass: toNumber(calculations.leanMass),
+      muscleMassKg: toNumber(calculations.muscleMassKg),
+      maintenanceCalories: calculations.maintenanceCalories ?? null,
+    },
+    history: history.map(({ measurement, calculations: item }): GoalHistoryPoint => ({
+      date: new Date(measurement.measurementDate).toISOString(),
+      weight: toNumber(measurement.weight),
+      bodyFatPercentage: toNumber(item.bodyFatPercentage),
+      muscleMassKg: toNumber(item.muscleMassKg),
+    })),
+    target: request.target,
+    weeklyRatePercent: request.weeklyRatePercent,
+  });
+}
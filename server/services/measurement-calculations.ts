@@ -6,26 +6,76 @@
 import {
   calculateBodyComposition,
   type MeasurementData,
-  calculateZScore,
-  getReferenceValues,
+  calculateProportionalZScore,
+  resolveReferencePopulation,
+  REFERENCE_VALUES,
+  type ReferenceKey,
   toNumberOrNull,
+  calculateEndomorphy,
+  calculateMesomorphy,
+  calculateEctomorphy,
+  calculateSomatochartCoordinates,
+  calculateCorrectedGirth,
+  calculateCorrectedArmMuscleArea,
+  calculateMuscleArea,
 } from "@shared/isak-calculations";
+import {
+  estimateAllBodyFat,
+  normalizeGender,
+  DEFAULT_BODY_FAT_EQUATION,
+  DEFAULT_DENSITY_CONVERSION,
+  type BodyFatEquationId,
+  type BodyFatEstimate,
+  type DensityConversion,
+  type SkinfoldSite,
+  type SkinfoldValues,
+} from "@shared/body-fat-equations";
+import { assessGrowth, classifyBMI, type GrowthReferenceId } from "@shared/growth-references";
+import {
+  BMR_EQUATIONS,
+  DEFAULT_BMR_EQUATION,
+  DEFAULT_ENERGY_MODEL,
+  calculateFactorialEnergy,
+  estimateBmr,
+  type BmrEquationId,
+  type BmrEstimate,
+  type EnergyModel,
+  type FactorialEnergyBreakdown,
+} from "@shared/energy-equations";
+import { HIGH_INTENSITY_KEYWORDS, getTrainingWeekdays } from "@shared/training-schedule";
+import type { MealDistribution, TrainingSession } from "@shared/schema";
+import {
+  calculateDayTypeTargets,
+  resolveMealDistribution,
+  splitByMeal,
+  type DayTypeTargets,
+  type MacroTarget,
+  type MealDistributionSource,
+  type ResolvedMealDistribution,
+} from "@shared/macro-periodization";
 
-const MEAL_DISTRIBUTION: Record<string, number> = {
-  breakfast: 0.25,
-  snack1: 0.1,
-  lunch: 0.3,
-  snack2: 0.15,
-  dinner: 0.2,
-};
+/**
+ * Versión del conjunto de fórmulas de calculateAll. Incrementarla cuando cambie
+ * una fórmula, ecuación o tabla de referencia: las filas con una versión menor
+ * quedan identificadas como desactualizadas hasta el próximo recálculo.
+ */
+export const FORMULA_SET_VERSION = 8;
 
-const HIGH_DEMAND_SPORT_KEYWORDS = ["alto rendimiento", "profesional", "intenso", "competencia", "selección"];
+const DEFAULT_NUTRITION_PREFERENCES: NutritionPreferences = {
+  proteinMultiplierLoss: 1.8,
+  proteinMultiplierMaintain: 1.8,
+  proteinMultiplierGain: 2,
+  fatPerKg: 0.9,
+};
 
-interface ActivityProfile {
+export interface ActivityProfile {
   exercisesRegularly?: boolean | null;
   exerciseDays?: string | null;
   exerciseSchedule?: string | null;
   sportType?: string | null;
+  /** Agenda semanal estructurada; tiene prioridad sobre los textos libres. */
+  trainingSessions?: TrainingSession[] | null;
+  competitionWeekdays?: number[] | null;
 }
 
 export interface NutritionPreferences {
@@ -33,27 +83,35 @@ export interface NutritionPreferences {
   proteinMultiplierMaintain: number;
   proteinMultiplierGain: number;
   fatPerKg: number;
+  bodyFatEquation?: BodyFatEquationId | null;
+  densityConversion?: DensityConversion | null;
+  bmrEquation?: BmrEquationId | null;
+  energyModel?: EnergyModel | null;
+  mealDistribution?: MealDistribution | null;
 }
 
-export interface MealMacroTarget {
-  calories: number | null;
-  protein: number | null;
-  carbs: number | null;
-  fats: number | null;
-}
+export type MealMacroTarget = MacroTarget;
 
 export interface MeasurementCalculationResult {
   bmi?: string;
   sumOf4Skinfolds?: string; // Durnin & Womersley (4 pliegues)
   sumOf6Skinfolds?: string; // ISAK 2 (6 pliegues)
   bodyFatPercentage?: string; // % grasa corporal
+  bodyFatEquation?: BodyFatEquationId; // ecuación que produjo bodyFatPercentage
+  densityConversion?: DensityConversion | null; // null si la ecuación da % directo
+  bodyFatEstimates?: BodyFatEstimate[]; // todas las ecuaciones aplicables
   leanMass?: string;
   waistHipRatio?: string;
   endomorphy?: string;
   mesomorphy?: string;
   ectomorphy?: string;
+  somatochartX?: string;
+  somatochartY?: string;
   basalMetabolicRate?: string;
+  bmrEquation?: BmrEquationId;
   activityMultiplier?: string;
+  energyModel?: EnergyModel;
+  energyBreakdown?: EnergyBreakdown;
   maintenanceCalories?: number;
   targetCalories?: number;
   calorieObjective?: string;
@@ -61,6 +119,8 @@ export interface MeasurementCalculationResult {
   carbsPerDay?: string;
   fatsPerDay?: string;
   perMealPlan?: Record<string, MealMacroTarget>;
+  mealDistribution?: ResolvedMealDistribution;
+  dayTypeTargets?: DayTypeTargets;
   skinMassKg?: string;
   skinMassPercent?: string;
   adiposeMassKg?: string;
@@ -71,9 +131,25 @@ export interface MeasurementCalculationResult {
   boneMassPercent?: string;
   residualMassKg?: string;
   residualMassPercent?: string;
-  weightZScore?: string;
+  correctedArmGirth?: string; // perímetros corregidos por pliegue (cm)
+  correctedThighGirth?: string;
+  correctedCalfGirth?: string;
+  correctedArmMuscleArea?: string; // Heymsfield (cm²)
+  thighMuscleArea?: string; // cm²
+  muscleBoneIndex?: string; // masa muscular / masa ósea (5 componentes)
+  weightZScore?: string | null;
   heightZScore?: string;
-  bmiZScore?: string;
+  bmiZScore?: string | null;
+  // null explícito en adultos para limpiar valores previos al recalcular
+  weightPercentile?: string | null;
+  heightPercentile?: string | null;
+  bmiPercentile?: string | null;
+  bmiClassification?: string;
+  growthReference?: GrowthReferenceId | null;
+  referencePopulation?: string;
+  proportionalityZScores?: Record<string, number>;
+  formulaSetVersion?: number;
+  inputSnapshot?: CalculationInputSnapshot;
 }
 
 function normalizeObjective(objective?: string | null): "loss" | "gain" | "maintain" {
@@ -101,11 +177,25 @@ function inferTrainingDays(exerciseDays?: string | null): number {
   return cleaned.split(/[,;\/]+/).filter(Boolean).length;
 }
 
-function inferActivityMultiplier(profile: ActivityProfile): number {
-  const days = inferTrainingDays(profile.exerciseDays);
+export interface ActivityMultiplierBreakdown {
+  multiplier: number;
+  baseMultiplier: number;
+  trainingDays: number;
+  source: "sedentary" | "trainingSchedule" | "exerciseDays" | "exercisesRegularly";
+  adjustments: { reason: string; delta: number }[];
+  clamped: boolean;
+}
+
+function inferActivityMultiplier(profile: ActivityProfile): ActivityMultiplierBreakdown {
+  const sessions = profile.trainingSessions ?? [];
+  const days = sessions.length > 0
+    ? getTrainingWeekdays(sessions).length
+    : inferTrainingDays(profile.exerciseDays);
   let multiplier = 1.2; // Sedentary baseline
+  let source: ActivityMultiplierBreakdown["source"] = "sedentary";
 
   if (profile.exercisesRegularly || days > 0) {
+    source = sessions.length > 0 ? "trainingSchedule" : days > 0 ? "exerciseDays" : "exercisesRegularly";
     if (days <= 2) {
       multiplier = 1.375;
     } else if (days <= 4) {
@@ -117,37 +207,83 @@ function inferActivityMultiplier(profile: ActivityProfile): number {
     }
   }
 
+  const baseMultiplier = multiplier;
+  const adjustments: ActivityMultiplierBreakdown["adjustments"] = [];
+
   const schedule = profile.exerciseSchedule?.toLowerCase() ?? "";
-  if (schedule.includes("doble") || schedule.includes("2")) {
+  const hasDoubleSession = sessions.length > 0
+    ? days < sessions.length
+    : schedule.includes("doble") || schedule.includes("2");
+  if (hasDoubleSession) {
     multiplier += 0.05;
+    adjustments.push({ reason: "Doble turno de entrenamiento", delta: 0.05 });
   }
 
-  const sport = profile.sportType?.toLowerCase() ?? "";
-  if (HIGH_DEMAND_SPORT_KEYWORDS.some(keyword => sport.includes(keyword))) {
+  const sports = sessions.length > 0
+    ? sessions.map(session => session.sport.toLowerCase())
+    : [profile.sportType?.toLowerCase() ?? ""];
+  const isHighDemand =
+    sessions.some(session => session.intensity === "alta") ||
+    sports.some(sport => HIGH_INTENSITY_KEYWORDS.some(keyword => sport.includes(keyword)));
+  if (isHighDemand) {
     multiplier += 0.05;
+    adjustments.push({ reason: "Deporte de alta demanda", delta: 0.05 });
   }
 
   // Clamp multiplier to reasonable range
-  return Math.min(2.2, Math.max(1.1, parseFloat(multiplier.toFixed(2))));
+  const clampedMultiplier = Math.min(2.2, Math.max(1.1, parseFloat(multiplier.toFixed(2))));
+  return {
+    multiplier: clampedMultiplier,
+    baseMultiplier,
+    trainingDays: days,
+    source,
+    adjustments,
+    clamped: clampedMultiplier !== parseFloat(multiplier.toFixed(2)),
+  };
 }
 
-function calculateBMR(
-  weight: number | null,
-  height: number | null,
-  age: number | null,
-  gender: string | null,
-  leanMass: number | null,
-): number | null {
-  if (leanMass && leanMass > 0) {
-    // Katch-McArdle formula
-    return 370 + 21.6 * leanMass;
-  }
-  if (weight && height && age !== null && age >= 0) {
-    // Mifflin-St Jeor
-    const s = gender === "F" ? -161 : gender === "M" ? 5 : -78; // Neutral value for Other/undefined
-    return (10 * weight) + (6.25 * height) - (5 * age) + s;
-  }
-  return null;
+/**
+ * Desglose del gasto energético total: ecuación de TMB usada y, según el
+ * modelo, el factor de actividad o el gasto de cada sesión semanal.
+ */
+export interface EnergyBreakdown {
+  /** Modelo aplicado; "multiplier" si se pidió el factorial y el paciente no tiene sesiones. */
+  model: EnergyModel;
+  requestedModel: EnergyModel;
+  bmr: BmrEstimate & { formula: string };
+  multiplier: ActivityMultiplierBreakdown | null;
+  factorial: FactorialEnergyBreakdown | null;
+  totalEnergyExpenditure: number;
+}
+
+/**
+ * Entradas exactas con las que calculateAll produjo una fila de cálculos:
+ * permite reconstruir cada número aunque luego cambien el paciente o la configuración.
+ */
+export interface CalculationInputSnapshot {
+  formulaSetVersion: number;
+  measurement: Record<string, string | null>;
+  patient: {
+    age: number | null;
+    ageInMonths: number | null;
+    gender: string | null;
+    objective: string | null;
+    objectiveCategory: "loss" | "gain" | "maintain";
+    referencePopulation: string | null;
+  };
+  activity: ActivityMultiplierBreakdown & { profile: ActivityProfile };
+  settings: NutritionPreferences & {
+    mealDistributionSource?: MealDistributionSource;
+    source: "settings" | "defaults";
+  };
+  equations: {
+    bodyFat: BodyFatEquationId | null;
+    densityConversion: DensityConversion | null;
+    bmr: BmrEquationId | null;
+    energyModel: EnergyModel | null;
+    referencePopulation: string;
+    growthReference: GrowthReferenceId | null;
+  };
 }
 
 function roundTo(value: number, digits = 2): string {
@@ -268,116 +404,165 @@ export function calculateSum6Skinfolds(skinfolds: {
 }
 
 /**
- * Calcula el somatotipo de Heath-Carter (simplificado)
- * Este es un cálculo básico - para precisión completa se requieren fórmulas más complejas
+ * Calcula el somatotipo antropométrico de Heath-Carter
+ * - Endomorfia: suma de tríceps + subescapular + supraespinal corregida por talla (170.18 / talla)
+ * - Mesomorfia: diámetros humeral y femoral, perímetros de brazo flexionado y pantorrilla corregidos por pliegue
+ * - Ectomorfia: índice ponderal (talla / ∛peso)
+ * Cada componente se calcula sólo si están todos sus datos; las coordenadas de la
+ * somatocarta requieren los tres componentes.
  */
 export function calculateSomatotype(data: {
   weight?: string | null;
   height?: string | null;
-  sum6Skinfolds?: string | null;
-  // Agregar más campos según se requiera para cálculos avanzados
+  triceps?: string | null;
+  subscapular?: string | null;
+  supraspinal?: string | null;
+  humeral?: string | null;
+  femoral?: string | null;
+  flexedArm?: string | null;
+  calf?: string | null;
+  calfSkinfold?: string | null;
 }): {
   endomorphy: string | null;
   mesomorphy: string | null;
   ectomorphy: string | null;
+  somatochartX: string | null;
+  somatochartY: string | null;
 } {
-  // Implementación básica - para producción se debe usar fórmulas completas de Heath-Carter
-  // Por ahora retornamos null, se implementará cuando se tenga todos los datos necesarios
+  const weight = toNumberOrNull(data.weight ?? null);
+  const height = toNumberOrNull(data.height ?? null);
+  const triceps = toNumberOrNull(data.triceps ?? null);
+  const subscapular = toNumberOrNull(data.subscapular ?? null);
+  const supraspinal = toNumberOrNull(data.supraspinal ?? null);
+  const humeral = toNumberOrNull(data.humeral ?? null);
+  const femoral = toNumberOrNull(data.femoral ?? null);
+  const flexedArm = toNumberOrNull(data.flexedArm ?? null);
+  const calf = toNumberOrNull(data.calf ?? null);
+  const calfSkinfold = toNumberOrNull(data.calfSkinfold ?? null);
+
+  const validHeight = height !== null && height > 0 ? height : null;
+
+  const endomorphy =
+    validHeight !== null && triceps !== null && subscapular !== null && supraspinal !== null
+      ? calculateEndomorphy({ height: validHeight, triceps, subscapular, supraspinal })
+      : null;
+
+  const mesomorphy =
+    validHeight !== null &&
+    humeral !== null &&
+    femoral !== null &&
+    flexedArm !== null &&
+    triceps !== null &&
+    calf !== null &&
+    calfSkinfold !== null
+      ? calculateMesomorphy({ height: validHeight, humeral, femoral, flexedArm, triceps, calf, calfSkinfold })
+      : null;
+
+  const ectomorphy =
+    validHeight !== null && weight !== null && weight > 0
+      ? calculateEctomorphy({ height: validHeight, weight })
+      : null;
+
+  const coordinates =
+    endomorphy !== null && mesomorphy !== null && ectomorphy !== null
+      ? calculateSomatochartCoordinates({ endomorphy, mesomorphy, ectomorphy })
+      : null;
+
   return {
-    endomorphy: null,
-    mesomorphy: null,
-    ectomorphy: null
+    endomorphy: endomorphy !== null ? roundTo(endomorphy) : null,
+    mesomorphy: mesomorphy !== null ? roundTo(mesomorphy) : null,
+    ectomorphy: ectomorphy !== null ? roundTo(ectomorphy) : null,
+    somatochartX: coordinates ? roundTo(coordinates.x) : null,
+    somatochartY: coordinates ? roundTo(coordinates.y) : null,
   };
 }
 
 /**
- * Calcula el porcentaje de grasa corporal usando fórmula de Durnin & Womersley
- * Esta fórmula usa la suma de 4 pliegues específicos (triceps, biceps, subscapular, suprailiac)
- * con constantes específicas por edad y género
- * @param sum4Skinfolds Suma de 4 pliegues en mm (Durnin & Womersley)
- * @param age Edad en años
- * @param gender Género ('M' o 'F')
+ * Perímetros de brazo, muslo y pantorrilla corregidos por su pliegue y áreas
+ * musculares de brazo y muslo. Cada valor se calcula si están su perímetro y su pliegue.
  */
-export function calculateBodyFatPercentage(
-  sum4Skinfolds: string | null,
-  age: number | null,
-  gender: string | null
-): string | null {
-  if (!sum4Skinfolds || !age || !gender) {
-    return null;
-  }
+export function calculateCorrectedGirths(
+  data: {
+    relaxedArm?: string | null;
+    triceps?: string | null;
+    thighMedial?: string | null;
+    thighSkinfold?: string | null;
+    calf?: string | null;
+    calfSkinfold?: string | null;
+  },
+  gender?: string | null,
+): {
+  correctedArmGirth: string | null;
+  correctedThighGirth: string | null;
+  correctedCalfGirth: string | null;
+  correctedArmMuscleArea: string | null;
+  thighMuscleArea: string | null;
+} {
+  const relaxedArm = toNumberOrNull(data.relaxedArm ?? null);
+  const triceps = toNumberOrNull(data.triceps ?? null);
+  const thighMedial = toNumberOrNull(data.thighMedial ?? null);
+  const thighSkinfold = toNumberOrNull(data.thighSkinfold ?? null);
+  const calf = toNumberOrNull(data.calf ?? null);
+  const calfSkinfold = toNumberOrNull(data.calfSkinfold ?? null);
+
+  const corrected = (girth: number | null, skinfold: number | null) => {
+    if (girth === null || skinfold === null || girth <= 0) return null;
+    const value = calculateCorrectedGirth(girth, skinfold);
+    return value > 0 ? value : null;
+  };
 
-  const sum = parseFloat(sum4Skinfolds);
-  if (isNaN(sum) || sum <= 0) {
-    return null;
-  }
+  const arm = corrected(relaxedArm, triceps);
+  const thigh = corrected(thighMedial, thighSkinfold);
+  const calfCorrected = corrected(calf, calfSkinfold);
+  const sex = normalizeGender(gender);
+  const armMuscleArea =
+    arm !== null && relaxedArm !== null && triceps !== null
+      ? calculateCorrectedArmMuscleArea(relaxedArm, triceps, sex === "F" ? "female" : sex === "M" ? "male" : null)
+      : null;
 
-  // Constantes de Durnin & Womersley por edad y género
-  let c: number; // Constante C
-  let m: number; // Constante M
-
-  if (gender === 'M') {
-    // Hombres - rangos de edad específicos
-    if (age < 17) {
-      c = 1.1533;
-      m = 0.0643;
-    } else if (age <= 19) {
-      c = 1.1620;
-      m = 0.0630;
-    } else if (age <= 29) {
-      c = 1.1631;
-      m = 0.0632;
-    } else if (age <= 39) {
-      c = 1.1422;
-      m = 0.0544;
-    } else if (age <= 49) {
-      c = 1.1620;
-      m = 0.0700;
-    } else {
-      // 50+ años
-      c = 1.1715;
-      m = 0.0779;
-    }
-  } else if (gender === 'F') {
-    // Mujeres - rangos de edad específicos
-    if (age < 17) {
-      c = 1.1369;
-      m = 0.0598;
-    } else if (age <= 19) {
-      c = 1.1549;
-      m = 0.0678;
-    } else if (age <= 29) {
-      c = 1.1599;
-      m = 0.0717;
-    } else if (age <= 39) {
-      c = 1.1423;
-      m = 0.0632;
-    } else if (age <= 49) {
-      c = 1.1333;
-      m = 0.0612;
-    } else {
-      // 50+ años
-      c = 1.1339;
-      m = 0.0645;
-    }
-  } else {
-    // Para género 'Other', usar promedio de rangos adultos jóvenes
-    c = 1.1615;
-    m = 0.0675;
-  }
+  return {
+    correctedArmGirth: arm !== null ? roundTo(arm) : null,
+    correctedThighGirth: thigh !== null ? roundTo(thigh) : null,
+    correctedCalfGirth: calfCorrected !== null ? roundTo(calfCorrected) : null,
+    correctedArmMuscleArea: armMuscleArea !== null ? roundTo(armMuscleArea) : null,
+    thighMuscleArea: thigh !== null ? roundTo(calculateMuscleArea(thigh)) : null,
+  };
+}
 
-  // Calcular densidad corporal: D = C - M * log10(suma de pliegues)
-  const densidad = c - m * Math.log10(sum);
+/**
+ * Calcula el porcentaje de grasa corporal con todas las ecuaciones del registro
+ * cuyos pliegues estén disponibles y elige la preferida por la nutricionista.
+ * Si la preferida no es aplicable se usa Durnin & Womersley y, en su defecto,
+ * la primera ecuación disponible.
+ */
+export function calculateBodyFatEstimates(
+  skinfolds: Partial<Record<SkinfoldSite, string | null | undefined>>,
+  options: {
+    age: number | null;
+    gender: string | null;
+    equation?: BodyFatEquationId | null;
+    conversion?: DensityConversion | null;
+  }
+): { selected: BodyFatEstimate | null; estimates: BodyFatEstimate[] } {
+  const values: SkinfoldValues = {};
+  (Object.keys(skinfolds) as SkinfoldSite[]).forEach((site) => {
+    values[site] = toNumberOrNull(skinfolds[site]);
+  });
 
-  // Fórmula de Siri: % grasa = ((4.95 / densidad) - 4.5) * 100
-  const bodyFat = ((4.95 / densidad) - 4.5) * 100;
+  const estimates = estimateAllBodyFat(
+    values,
+    { age: options.age, gender: normalizeGender(options.gender) },
+    options.conversion ?? DEFAULT_DENSITY_CONVERSION
+  );
 
-  // Validar que el resultado esté en un rango razonable (3% - 50%)
-  if (bodyFat < 3 || bodyFat > 50) {
-    return null;
-  }
+  const preferred = options.equation ?? DEFAULT_BODY_FAT_EQUATION;
+  const selected =
+    estimates.find((estimate) => estimate.equation === preferred) ??
+    estimates.find((estimate) => estimate.equation === DEFAULT_BODY_FAT_EQUATION) ??
+    estimates[0] ??
+    null;
 
-  return bodyFat.toFixed(2);
+  return { selected, estimates };
 }
 
 /**
@@ -455,6 +640,8 @@ export function calculateAll(
     abdominal?: string | null;
     thighSkinfold?: string | null;
     calfSkinfold?: string | null;
+    chestSkinfold?: string | null;
+    midaxillarySkinfold?: string | null;
     waistCircumference?: string | null;
     hipCircumference?: string | null;
     head?: string | null;
@@ -474,13 +661,16 @@ export function calculateAll(
   },
   options?: {
     age?: number | null;
+    ageInMonths?: number | null; // edad a la fecha de la medición, para las referencias OMS
     gender?: string | null;
     objective?: string | null;
     activityProfile?: ActivityProfile;
     preferences?: NutritionPreferences;
+    mealDistribution?: MealDistribution | null; // del paciente; tiene prioridad sobre la de preferences
+    referencePopulation?: string | null;
   }
 ): MeasurementCalculationResult {
-  const result: MeasurementCalculationResult = {};
+  const result: MeasurementCalculationResult = { formulaSetVersion: FORMULA_SET_VERSION };
 
   // 1. Calcular BMI
   const bmiResult = calculateBMI(measurementData.weight ?? null, measurementData.height ?? null);
@@ -512,20 +702,44 @@ export function calculateAll(
     result.sumOf6Skinfolds = sum6;
   }
 
-  // 4. Calcular porcentaje de grasa corporal (usando sum4 - Durnin & Womersley)
+  // 4. Calcular porcentaje de grasa corporal (registro de ecuaciones)
   const age = options?.age ?? null;
   const gender = options?.gender ?? null;
 
-  if (sum4 && age !== null && gender) {
-    const bodyFat = calculateBodyFatPercentage(sum4, age, gender);
-    if (bodyFat) {
-      result.bodyFatPercentage = bodyFat;
+  const bodyFat = calculateBodyFatEstimates(
+    {
+      triceps: measurementData.triceps,
+      biceps: measurementData.biceps,
+      subscapular: measurementData.subscapular,
+      suprailiac: measurementData.suprailiac,
+      supraspinal: measurementData.supraspinal,
+      abdominal: measurementData.abdominal,
+      thighSkinfold: measurementData.thighSkinfold,
+      calfSkinfold: measurementData.calfSkinfold,
+      chestSkinfold: measurementData.chestSkinfold,
+      midaxillarySkinfold: measurementData.midaxillarySkinfold,
+    },
+    {
+      age,
+      gender,
+      equation: options?.preferences?.bodyFatEquation,
+      conversion: options?.preferences?.densityConversion,
+    }
+  );
+
+  if (bodyFat.estimates.length > 0) {
+    result.bodyFatEstimates = bodyFat.estimates;
+  }
+
+  if (bodyFat.selected) {
+    result.bodyFatPercentage = roundTo(bodyFat.selected.bodyFatPercentage);
+    result.bodyFatEquation = bodyFat.selected.equation;
+    result.densityConversion = bodyFat.selected.conversion;
 
-      // 5. Calcular masa magra
-      const leanMass = calculateLeanMass(measurementData.weight ?? null, bodyFat);
-      if (leanMass) {
-        result.leanMass = leanMass;
-      }
+    // 5. Calcular masa magra
+    const leanMass = calculateLeanMass(measurementData.weight ?? null, result.bodyFatPercentage);
+    if (leanMass) {
+      result.leanMass = leanMass;
     }
   }
 
@@ -538,16 +752,25 @@ export function calculateAll(
     result.waistHipRatio = waistHip;
   }
 
-  // 7. Calcular somatotipo (básico por ahora)
+  // 7. Calcular somatotipo antropométrico (Heath-Carter)
   const somatotype = calculateSomatotype({
     weight: measurementData.weight,
     height: measurementData.height,
-    sum6Skinfolds: sum6
+    triceps: measurementData.triceps,
+    subscapular: measurementData.subscapular,
+    supraspinal: measurementData.supraspinal,
+    humeral: measurementData.humeral,
+    femoral: measurementData.femoral,
+    flexedArm: measurementData.flexedArm,
+    calf: measurementData.calf,
+    calfSkinfold: measurementData.calfSkinfold,
   });
 
   if (somatotype.endomorphy) result.endomorphy = somatotype.endomorphy;
   if (somatotype.mesomorphy) result.mesomorphy = somatotype.mesomorphy;
   if (somatotype.ectomorphy) result.ectomorphy = somatotype.ectomorphy;
+  if (somatotype.somatochartX) result.somatochartX = somatotype.somatochartX;
+  if (somatotype.somatochartY) result.somatochartY = somatotype.somatochartY;
 
   // 8. Fraccionamiento corporal de 5 componentes
   const numericWeight = toNumberOrNull(measurementData.weight ?? null);
@@ -625,21 +848,71 @@ export function calculateAll(
     result.boneMassPercent = roundTo(bodyComposition.boneMassPercent, 2);
     result.residualMassKg = roundTo(bodyComposition.residualMassKg, 3);
     result.residualMassPercent = roundTo(bodyComposition.residualMassPercent, 2);
+    result.muscleBoneIndex = roundTo(bodyComposition.muscleToBoneRatio, 3);
   }
 
+  // 8b. Perímetros corregidos y áreas musculares (no requieren el perfil completo)
+  const correctedGirths = calculateCorrectedGirths(
+    {
+      relaxedArm: measurementData.relaxedArm,
+      triceps: measurementData.triceps,
+      thighMedial: measurementData.thighMedial,
+      thighSkinfold: measurementData.thighSkinfold,
+      calf: measurementData.calf,
+      calfSkinfold: measurementData.calfSkinfold,
+    },
+    gender,
+  );
+  if (correctedGirths.correctedArmGirth) result.correctedArmGirth = correctedGirths.correctedArmGirth;
+  if (correctedGirths.correctedThighGirth) result.correctedThighGirth = correctedGirths.correctedThighGirth;
+  if (correctedGirths.correctedCalfGirth) result.correctedCalfGirth = correctedGirths.correctedCalfGirth;
+  if (correctedGirths.correctedArmMuscleArea) result.correctedArmMuscleArea = correctedGirths.correctedArmMuscleArea;
+  if (correctedGirths.thighMuscleArea) result.thighMuscleArea = correctedGirths.thighMuscleArea;
+
   // 9. Cálculo de objetivos nutricionales automáticos
   const weightNum = measurementData.weight ? parseFloat(measurementData.weight) : null;
   const heightNum = measurementData.height ? parseFloat(measurementData.height) : null;
   const leanMassNum = result.leanMass ? parseFloat(result.leanMass) : null;
 
-  const basalMetabolicRate = calculateBMR(weightNum, heightNum, age, gender, leanMassNum);
-  const activityMultiplier = inferActivityMultiplier(options?.activityProfile ?? {});
+  const prefs: NutritionPreferences = options?.preferences ?? DEFAULT_NUTRITION_PREFERENCES;
+  const mealDistribution = resolveMealDistribution(options?.mealDistribution, prefs.mealDistribution);
+  const bmr = estimateBmr(prefs.bmrEquation ?? DEFAULT_BMR_EQUATION, {
+    weight: weightNum,
+    height: heightNum,
+    age,
+    gender: normalizeGender(gender),
+    leanMass: leanMassNum,
+  });
+  const basalMetabolicRate = bmr?.value ?? null;
+  const activity = inferActivityMultiplier(options?.activityProfile ?? {});
+  const requestedModel = prefs.energyModel ?? DEFAULT_ENERGY_MODEL;
+  const trainingSessions = options?.activityProfile?.trainingSessions ?? [];
+  let energy: EnergyBreakdown | null = null;
+
+  if (bmr && basalMetabolicRate) {
+    const factorial =
+      requestedModel === "factorial" && weightNum && trainingSessions.length > 0
+        ? calculateFactorialEnergy(basalMetabolicRate, weightNum, trainingSessions)
+        : null;
+    energy = {
+      model: factorial ? "factorial" : "multiplier",
+      requestedModel,
+      bmr: { ...bmr, value: parseFloat(bmr.value.toFixed(2)), formula: BMR_EQUATIONS[bmr.equation].formula },
+      multiplier: factorial ? null : activity,
+      factorial,
+      totalEnergyExpenditure: factorial ? factorial.totalEnergyExpenditure : Math.round(basalMetabolicRate * activity.multiplier),
+    };
+  }
 
-  if (basalMetabolicRate) {
+  if (basalMetabolicRate && energy) {
+    const activityMultiplier = energy.factorial ? energy.factorial.effectiveMultiplier : activity.multiplier;
     result.basalMetabolicRate = roundTo(basalMetabolicRate);
+    result.bmrEquation = energy.bmr.equation;
     result.activityMultiplier = roundTo(activityMultiplier, 2);
+    result.energyModel = energy.model;
+    result.energyBreakdown = energy;
 
-    const maintenanceCalories = basalMetabolicRate * activityMultiplier;
+    const maintenanceCalories = energy.factorial ? energy.factorial.totalEnergyExpenditure : basalMetabolicRate * activityMultiplier;
     const objective = normalizeObjective(options?.objective ?? null);
     let targetFactor = 1;
     let objectiveLabel = "Mantenimiento";
@@ -658,13 +931,6 @@ export function calculateAll(
     result.calorieObjective = objectiveLabel;
 
     // Cálculo de macros
-    const prefs: NutritionPreferences = options?.preferences ?? {
-      proteinMultiplierLoss: 1.8,
-      proteinMultiplierMaintain: 1.8,
-      proteinMultiplierGain: 2,
-      fatPerKg: 0.9,
-    };
-
     const effectiveWeight = leanMassNum && leanMassNum > 0 ? leanMassNum : weightNum;
 
     let proteinMultiplier = prefs.proteinMultiplierMaintain;
@@ -691,46 +957,144 @@ export function calculateAll(
       result.fatsPerDay = roundTo(fatsPerDay);
     }
 
-    const perMealPlan: Record<string, MealMacroTarget> = {};
-    Object.entries(MEAL_DISTRIBUTION).forEach(([slot, ratio]) => {
-      perMealPlan[slot] = {
-        calories: Math.round(targetCalories * ratio),
-        protein: proteinPerDay ? parseFloat((proteinPerDay * ratio).toFixed(1)) : null,
-        carbs: carbsPerDay ? parseFloat((carbsPerDay * ratio).toFixed(1)) : null,
-        fats: fatsPerDay ? parseFloat((fatsPerDay * ratio).toFixed(1)) : null,
-      };
-    });
-
-    result.perMealPlan = perMealPlan;
-  }
-
-  // 10. Score-Z principales
-  if (measurementData.weight) {
-    const numeric = parseFloat(measurementData.weight);
-    if (Number.isFinite(numeric)) {
-      const ref = getReferenceValues("weight");
-      result.weightZScore = roundTo(calculateZScore(numeric, ref.mean, ref.sd));
+    result.mealDistribution = mealDistribution;
+    result.perMealPlan = splitByMeal(
+      {
+        calories: targetCalories,
+        protein: proteinPerDay || null,
+        carbs: carbsPerDay || null,
+        fats: fatsPerDay || null,
+      },
+      mealDistribution.distribution,
+    );
+
+    if (weightNum) {
+      result.dayTypeTargets = calculateDayTypeTargets({
+        weight: weightNum,
+        proteinPerDay,
+        fatsPerDay,
+        sessions: trainingSessions,
+        competitionWeekdays: options?.activityProfile?.competitionWeekdays ?? [],
+        objective,
+        distribution: mealDistribution.distribution,
+      });
     }
   }
 
-  if (measurementData.height) {
-    const numeric = parseFloat(measurementData.height);
-    if (Number.isFinite(numeric)) {
-      const ref = getReferenceValues("height");
-      result.heightZScore = roundTo(calculateZScore(numeric, ref.mean, ref.sd));
-    }
+  // 10. Score-Z proporcionales (Phantom) contra la población de referencia del paciente
+  const population = resolveReferencePopulation({
+    populationId: options?.referencePopulation,
+    gender: options?.gender,
+    age: options?.age,
+  });
+  result.referencePopulation = population.id;
+  const heightValue = toNumberOrNull(measurementData.height);
+
+  const proportionalityZScores: Record<string, number> = {};
+  (Object.keys(REFERENCE_VALUES) as ReferenceKey[]).forEach((key) => {
+    const source = key === "waist"
+      ? measurementData.waistCircumference
+      : key === "hip"
+        ? measurementData.hipCircumference
+        : measurementData[key];
+    const numeric = toNumberOrNull(source);
+    if (numeric === null) return;
+    proportionalityZScores[key] = parseFloat(
+      calculateProportionalZScore(numeric, key, heightValue, population).toFixed(2)
+    );
+  });
+  if (Object.keys(proportionalityZScores).length > 0) {
+    result.proportionalityZScores = proportionalityZScores;
+  }
+
+  if (proportionalityZScores.weight !== undefined) {
+    result.weightZScore = roundTo(proportionalityZScores.weight);
+  }
+
+  if (proportionalityZScores.height !== undefined) {
+    result.heightZScore = roundTo(proportionalityZScores.height);
   }
 
+  // Sin una DE publicada del IMC para adultos, el Score-Z del IMC sólo sale de las referencias OMS (punto 11)
+  result.bmiZScore = null;
   if (result.bmi) {
     const numericBmi = parseFloat(result.bmi);
     if (Number.isFinite(numericBmi) && measurementData.height) {
-      const ref = getReferenceValues("weight");
-      const heightRef = getReferenceValues("height");
-      const meanBmi = ref.mean / Math.pow(heightRef.mean / 100, 2);
-      const sdBmi = meanBmi * 0.1; // aproximación conservadora
-      result.bmiZScore = roundTo(calculateZScore(numericBmi, meanBmi, sdBmi));
+      result.bmiClassification = classifyBMI(numericBmi, gender, options?.ageInMonths);
     }
   }
 
+  // 11. Menores de 19 años: los Score-Z de peso, talla e IMC usan las referencias OMS (LMS)
+  const ageInMonths = options?.ageInMonths ?? null;
+  result.weightPercentile = null;
+  result.heightPercentile = null;
+  result.bmiPercentile = null;
+  result.growthReference = null;
+  const growth = {
+    weight: assessGrowth("weightForAge", toNumberOrNull(measurementData.weight), gender, ageInMonths),
+    height: assessGrowth("heightForAge", heightValue, gender, ageInMonths),
+    bmi: assessGrowth("bmiForAge", result.bmi ? parseFloat(result.bmi) : null, gender, ageInMonths),
+  };
+  if (growth.weight) {
+    result.weightZScore = roundTo(growth.weight.zScore);
+    result.weightPercentile = roundTo(growth.weight.percentile);
+  }
+  if (growth.height) {
+    result.heightZScore = roundTo(growth.height.zScore);
+    result.heightPercentile = roundTo(growth.height.percentile);
+  }
+  if (growth.bmi) {
+    result.bmiZScore = roundTo(growth.bmi.zScore);
+    result.bmiPercentile = roundTo(growth.bmi.percentile);
+  }
+  const pediatric = growth.bmi ?? growth.height ?? growth.weight;
+  if (pediatric) {
+    result.growthReference = pediatric.reference;
+    // Peso para la edad no existe después de los 10 años: no mezclar con el Score-Z Phantom
+    if (!growth.weight) {
+      result.weightZScore = null;
+    }
+  }
+
+  // 12. Entradas usadas, para poder explicar cada número más adelante
+  const measurementInputs: Record<string, string | null> = {};
+  Object.entries(measurementData).forEach(([key, value]) => {
+    measurementInputs[key] = value ?? null;
+  });
+  result.inputSnapshot = {
+    formulaSetVersion: FORMULA_SET_VERSION,
+    measurement: measurementInputs,
+    patient: {
+      age,
+      ageInMonths,
+      gender,
+      objective: options?.objective ?? null,
+      objectiveCategory: normalizeObjective(options?.objective ?? null),
+      referencePopulation: options?.referencePopulation ?? null,
+    },
+    activity: { ...activity, profile: options?.activityProfile ?? {} },
+    settings: {
+      proteinMultiplierLoss: prefs.proteinMultiplierLoss,
+      proteinMultiplierMaintain: prefs.proteinMultiplierMaintain,
+      proteinMultiplierGain: prefs.proteinMultiplierGain,
+      fatPerKg: prefs.fatPerKg,
+      bodyFatEquation: prefs.bodyFatEquation ?? DEFAULT_BODY_FAT_EQUATION,
+      densityConversion: prefs.densityConversion ?? DEFAULT_DENSITY_CONVERSION,
+      bmrEquation: prefs.bmrEquation ?? DEFAULT_BMR_EQUATION,
+      energyModel: prefs.energyModel ?? DEFAULT_ENERGY_MODEL,
+      mealDistribution: mealDistribution.distribution,
+      mealDistributionSource: mealDistribution.source,
+      source: options?.preferences ? "settings" : "defaults",
+    },
+    equations: {
+      bodyFat: result.bodyFatEquation ?? null,
+      densityConversion: result.densityConversion ?? null,
+      bmr: bmr?.equation ?? null,
+      energyModel: energy?.model ?? null,
+      referencePopulation: population.id,
+      growthReference: result.growthReference ?? null,
+    },
+  };
+
   return result;
 }
@@ -0,0 +1,111 @@
+/**
+ * Controles de plausibilidad al crear o editar una medición. La medición de
+ * referencia para los saltos es la última del paciente con fecha anterior (o
+ * igual) a la que se guarda, excluyendo la propia al editar.
+ */
+
+import type { IStorage } from "../storage";
+import type { InsertMeasurement, Measurement, PlausibilityOverride } from "@shared/schema";
+import type { EvaluatorTEM } from "@shared/isak-calculations";
+import {
+  checkMeasurementPlausibility,
+  isWarningOverridden,
+  type PlausibilityWarning,
+} from "@shared/measurement-plausibility";
+
+export interface PlausibilityEvaluation {
+  warnings: PlausibilityWarning[];
+  /** Advertencias sin confirmar: si hay alguna, la medición no se guarda. */
+  unresolved: PlausibilityWarning[];
+  /** Confirmaciones vigentes para guardar con la medición. */
+  overrides: PlausibilityOverride[];
+}
+
+/** Edad en años cumplidos a la fecha dada (la de la medición, no la de hoy). */
+export function getAgeAt(birthDate: Date | string | null | undefined, date: Date | string): number | null {
+  if (!birthDate) return null;
+  const birth = new Date(birthDate);
+  const at = new Date(date);
+  let age = at.getFullYear() - birth.getFullYear();
+  const monthDiff = at.getMonth() - birth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && at.getDate() < birth.getDate())) {
+    age--;
+  }
+  return age;
+}
+
+/** ETM por sitio del evaluador (su último estudio test-retest), o null si no tiene. */
+export async function getEvaluatorTem(storage: IStorage, evaluatorId: unknown): Promise<EvaluatorTEM | null> {
+  if (typeof evaluatorId !== "string" || !evaluatorId) return null;
+  const evaluator = await storage.getEvaluator(evaluatorId);
+  return (evaluator?.temValues as EvaluatorTEM | null) ?? null;
+}
+
+async function findMeasurementBefore(
+  storage: IStorage,
+  patientId: string,
+  date: Date,
+  excludeId?: string,
+): Promise<Measurement | null> {
+  const measurements = await storage.getMeasurements(patientId);
+  const candidates = measurements
+    .filter((measurement) => measurement.id !== excludeId && new Date(measurement.measurementDate).getTime() <= date.getTime())
+    .sort((a, b) => {
+      const diff = new Date(a.measurementDate).getTime() - new Date(b.measurementDate).getTime();
+      return diff !== 0 ? diff : new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+    });
+  return candidates[candidates.length - 1] ?? null;
+}
+
+/**
+ * Evalúa la medición tal como quedaría guardada. `overrides` son las
+ * confirmaciones que envía el cliente; al editar se suman las ya guardadas,
+ * así no hay que reconfirmar advertencias de valores que no cambiaron.
+ */
+export async function evaluateMeasurementPlausibility(
+  storage: IStorage,
+  data: InsertMeasurement,
+  overrides: PlausibilityOverride[] = [],
+  existing?: Measurement | null,
+): Promise<PlausibilityEvaluation> {
+  const measurementDate = new Date(data.measurementDate);
+  const [patient, previous, evaluatorTem] = await Promise.all([
+    storage.getPatient(data.patientId),
+    findMeasurementBefore(storage, data.patientId, measurementDate, existing?.id),
+    getEvaluatorTem(storage, data.evaluatorId),
+  ]);
+
+  const warnings = checkMeasurementPlausibility(data, {
+    age: getAgeAt(patient?.birthDate, measurementDate),
+    measurementDate,
+    evaluatorTem,
+    previous: previous
+      ? {
+          measurement: previous,
+          measurementDate: previous.measurementDate,
+          evaluatorTem: await getEvaluatorTem(storage, previous.evaluatorId),
+        }
+      : null,
+  });
+
+  const candidates = [...overrides, ...((existing?.plausibilityOverrides as PlausibilityOverride[] | null) ?? [])];
+  const confirmedAt = new Date().toISOString();
+  const unresolved: PlausibilityWarning[] = [];
+  const stored: PlausibilityOverride[] = [];
+  warnings.forEach((warning) => {
+    if (!isWarningOverridden(warning, candidates)) {
+      unresolved.push(warning);
+      return;
+    }
+    const override = candidates.find((candidate) => isWarningOverridden(warning, [candidate]))!;
+    stored.push({
+      code: warning.code,
+      value: warning.value,
+      message: warning.message,
+      reason: override.reason?.trim() || null,
+      confirmedAt: override.confirmedAt ?? confirmedAt,
+    });
+  });
+
+  return { warnings, unresolved, overrides: stored };
+}
@@ -0,0 +1,235 @@
+/**
+ * Cálculo y recálculo de measurement_calculations.
+ * El alta/edición de mediciones y el recálculo masivo usan la misma entrada de
+ * calculateAll (medición + paciente + configuración), así un recálculo sin
+ * cambios de fórmulas ni de datos no modifica ninguna fila.
+ */
+
+import type { IStorage, NutritionistSettings } from "../storage";
+import {
+  insertMeasurementCalculationSchema,
+  type InsertMeasurementCalculation,
+  type Measurement,
+  type MeasurementCalculation,
+  type MealDistribution,
+  type Patient,
+} from "@shared/schema";
+import { getAgeInMonths } from "@shared/growth-references";
+import { resolveTrainingSessions } from "@shared/training-schedule";
+import { calculateAll, FORMULA_SET_VERSION, type MeasurementCalculationResult } from "./measurement-calculations";
+
+export type RecalculationScope =
+  | { type: "patient"; patientId: string }
+  | { type: "group"; groupId: string }
+  | { type: "all" };
+
+export type RecalculationOutcome = "created" | "updated" | "unchanged";
+
+export interface RecalculationSummary {
+  scope: RecalculationScope;
+  formulaSetVersion: number;
+  patients: number;
+  measurements: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  changed: number;
+  failed: { measurementId: string; error: string }[];
+  startedAt: string;
+  finishedAt: string;
+}
+
+// Columnas calculadas: las que calculateAll no devuelve se guardan en null al recalcular
+const CALCULATION_FIELDS = Object.keys(insertMeasurementCalculationSchema.shape).filter(
+  (field) => field !== "measurementId",
+) as (keyof InsertMeasurementCalculation)[];
+
+/** Calcula los indicadores de una medición con la edad del paciente a la fecha de medición. */
+export function computeMeasurementCalculations(
+  measurement: Measurement,
+  patient: Patient | null | undefined,
+  settings: NutritionistSettings,
+): MeasurementCalculationResult {
+  const ageInMonths = getAgeInMonths(patient?.birthDate, measurement.measurementDate);
+
+  return calculateAll({
+    weight: measurement.weight,
+    height: measurement.height,
+    seatedHeight: measurement.seatedHeight,
+    triceps: measurement.triceps,
+    biceps: measurement.biceps,
+    subscapular: measurement.subscapular,
+    suprailiac: measurement.suprailiac,
+    supraspinal: measurement.supraspinal,
+    abdominal: measurement.abdominal,
+    thighSkinfold: measurement.thighSkinfold,
+    calfSkinfold: measurement.calfSkinfold,
+    chestSkinfold: measurement.chestSkinfold,
+    midaxillarySkinfold: measurement.midaxillarySkinfold,
+    waistCircumference: measurement.waist,
+    hipCircumference: measurement.hip,
+    head: measurement.head,
+    relaxedArm: measurement.relaxedArm,
+    flexedArm: measurement.flexedArm,
+    forearm: measurement.forearm,
+    thoraxCirc: measurement.thoraxCirc,
+    thighSuperior: measurement.thighSuperior,
+    thighMedial: measurement.thighMedial,
+    calf: measurement.calf,
+    biacromial: measurement.biacromial,
+    thoraxTransverse: measurement.thoraxTransverse,
+    thoraxAnteroposterior: measurement.thoraxAnteroposterior,
+    biiliocristideo: measurement.biiliocristideo,
+    humeral: measurement.humeral,
+    femoral: measurement.femoral,
+  }, {
+    age: ageInMonths !== null ? Math.floor(ageInMonths / 12) : null,
+    ageInMonths,
+    gender: patient?.gender ?? null,
+    objective: patient?.objective ?? null,
+    activityProfile: {
+      exercisesRegularly: patient?.exercisesRegularly ?? null,
+      exerciseDays: patient?.exerciseDays ?? null,
+      exerciseSchedule: patient?.exerciseSchedule ?? null,
+      sportType: patient?.sportType ?? null,
+      trainingSessions: resolveTrainingSessions(patient),
+      competitionWeekdays: (patient?.competitionWeekdays as number[] | null) ?? null,
+    },
+    mealDistribution: (patient?.mealDistribution as MealDistribution | null) ?? null,
+    referencePopulation: patient?.referencePopulation ?? null,
+    preferences: {
+      proteinMultiplierLoss: settings.proteinMultiplierLoss,
+      proteinMultiplierMaintain: settings.proteinMultiplierMaintain,
+      proteinMultiplierGain: settings.proteinMultiplierGain,
+      fatPerKg: settings.fatPerKg,
+      bodyFatEquation: settings.bodyFatEquation,
+      densityConversion: settings.densityConversion,
+      bmrEquation: settings.bmrEquation,
+      energyModel: settings.energyModel,
+      mealDistribution: settings.mealDistribution,
+    },
+  });
+}
+
+function toCalculationRow(calculations: MeasurementCalculationResult): Partial<InsertMeasurementCalculation> {
+  const row: Record<string, unknown> = {};
+  CALCULATION_FIELDS.forEach((field) => {
+    const value = (calculations as Record<string, unknown>)[field];
+    row[field] = value === undefined ? null : value;
+  });
+  return row as Partial<InsertMeasurementCalculation>;
+}
+
+// Las columnas decimal vuelven como "12.30" y jsonb no conserva el orden de las claves
+function normalizeValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return parseFloat(value.toFixed(4));
+  if (typeof value === "string") {
+    const numeric = Number(value);
+    return value.trim() !== "" && Number.isFinite(numeric) ? parseFloat(numeric.toFixed(4)) : value;
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, normalizeValue((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+function hasChanges(existing: MeasurementCalculation, row: Partial<InsertMeasurementCalculation>): boolean {
+  return CALCULATION_FIELDS.some(
+    (field) =>
+      JSON.stringify(normalizeValue((existing as Record<string, unknown>)[field])) !==
+      JSON.stringify(normalizeValue(row[field])),
+  );
+}
+
+/** Recalcula y guarda los cálculos de una medición; no escribe si nada cambió. */
+export async function saveMeasurementCalculations(
+  storage: IStorage,
+  measurement: Measurement,
+  patient: Patient | null | undefined,
+  settings: NutritionistSettings,
+): Promise<{ outcome: RecalculationOutcome; calculation: MeasurementCalculation }> {
+  const row = toCalculationRow(computeMeasurementCalculations(measurement, patient, settings));
+  const [existing] = await storage.getMeasurementCalculations(measurement.id);
+
+  if (!existing) {
+    const calculation = await storage.createMeasurementCalculation({ measurementId: measurement.id, ...row });
+    return { outcome: "created", calculation };
+  }
+  if (!hasChanges(existing, row)) {
+    return { outcome: "unchanged", calculation: existing };
+  }
+  const calculation = await storage.updateMeasurementCalculation(existing.id, row, existing.version);
+  return { outcome: "updated", calculation: calculation ?? existing };
+}
+
+async function resolveScopePatients(storage: IStorage, scope: RecalculationScope): Promise<Patient[]> {
+  if (scope.type === "all") {
+    return storage.getPatients();
+  }
+  if (scope.type === "patient") {
+    const patient = await storage.getPatient(scope.patientId);
+    return patient ? [patient] : [];
+  }
+  const memberships = await storage.getGroupMemberships(scope.groupId);
+  const patients: Patient[] = [];
+  for (const membership of memberships) {
+    const patient = await storage.getPatient(membership.patientId);
+    if (patient) patients.push(patient);
+  }
+  return patients;
+}
+
+/**
+ * Recalcula todas las mediciones del alcance (paciente, grupo o todo) con las
+ * fórmulas y la configuración actuales. Los errores por medición se informan
+ * en `failed` sin interrumpir el resto.
+ */
+export async function recalculateMeasurements(
+  storage: IStorage,
+  scope: RecalculationScope,
+): Promise<RecalculationSummary> {
+  const startedAt = new Date().toISOString();
+  const settings = await storage.getNutritionistSettings();
+  const patients = await resolveScopePatients(storage, scope);
+
+  const summary: RecalculationSummary = {
+    scope,
+    formulaSetVersion: FORMULA_SET_VERSION,
+    patients: patients.length,
+    measurements: 0,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    changed: 0,
+    failed: [],
+    startedAt,
+    finishedAt: startedAt,
+  };
+
+  for (const patient of patients) {
+    const measurements = await storage.getMeasurements(patient.id);
+    for (const measurement of measurements) {
+      summary.measurements++;
+      try {
+        const { outcome } = await saveMeasurementCalculations(storage, measurement, patient, settings);
+        summary[outcome]++;
+      } catch (error) {
+        summary.failed.push({
+          measurementId: measurement.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  summary.changed = summary.created + summary.updated;
+  summary.finishedAt = new Date().toISOString();
+  return summary;
+}
@@ -0,0 +1,206 @@
+/**
+ * Enlaces al portal del paciente y armado de sus datos. El token lleva el id
+ * del enlace y su vencimiento firmados con HMAC: se rechaza sin consultar la
+ * base si fue alterado o venció, y la revocación se verifica contra el enlace
+ * guardado. Todo lo que devuelve buildPatientPortal es del paciente del enlace.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IStorage } from "../storage";
+import type { Patient, PatientShareLink, WeeklyPlanAssignment } from "@shared/schema";
+import type {
+  PatientPortalData,
+  PatientShareLinkSummary,
+  PortalEvolutionPoint,
+  PortalPlan,
+} from "@shared/patient-portal";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PortalAccess =
+  | { ok: true; link: PatientShareLink; patient: Patient }
+  | { ok: false; reason: "invalid" | "expired" | "revoked" };
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+export function createPortalToken(link: Pick<PatientShareLink, "id" | "expiresAt">, secret: string): string {
+  const payload = `${link.id}.${link.expiresAt.getTime().toString(36)}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+export function getPortalPath(token: string): string {
+  return `/portal/${token}`;
+}
+
+export function getShareLinkExpiry(expiresInDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() + expiresInDays * DAY_MS);
+}
+
+export function isShareLinkActive(link: PatientShareLink, now: Date = new Date()): boolean {
+  return !link.revokedAt && link.expiresAt.getTime() > now.getTime();
+}
+
+export function toShareLinkSummary(link: PatientShareLink, secret: string, now: Date = new Date()): PatientShareLinkSummary {
+  const active = isShareLinkActive(link, now);
+  return {
+    id: link.id,
+    expiresAt: link.expiresAt.toISOString(),
+    revokedAt: link.revokedAt ? link.revokedAt.toISOString() : null,
+    lastAccessedAt: link.lastAccessedAt ? link.lastAccessedAt.toISOString() : null,
+    createdAt: link.createdAt.toISOString(),
+    active,
+    url: active ? getPortalPath(createPortalToken(link, secret)) : null,
+  };
+}
+
+export async function resolvePortalAccess(
+  storage: IStorage,
+  token: string,
+  secret: string,
+  now: Date = new Date(),
+): Promise<PortalAccess> {
+  const [id, expiresPart, signature] = token.split(".");
+  if (!id || !expiresPart || !signature) return { ok: false, reason: "invalid" };
+
+  const expected = Buffer.from(sign(`${id}.${expiresPart}`, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { ok: false, reason: "invalid" };
+  }
+
+  const expiresAt = parseInt(expiresPart, 36);
+  if (!Number.isFinite(expiresAt) || expiresAt <= now.getTime()) return { ok: false, reason: "expired" };
+
+  const link = await storage.getPatientShareLink(id);
+  if (!link || link.expiresAt.getTime() !== expiresAt) return { ok: false, reason: "invalid" };
+  if (link.revokedAt) return { ok: false, reason: "revoked" };
+
+  // Un paciente en la papelera deja de tener portal
+  const patient = await storage.getPatient(link.patientId);
+  if (!patient) return { ok: false, reason: "invalid" };
+
+  return { ok: true, link, patient };
+}
+
+function isAssignmentCurrent(assignment: WeeklyPlanAssignment, now: Date): boolean {
+  if (assignment.status !== "active") return false;
+  if (assignment.startDate && assignment.startDate.getTime() > now.getTime()) return false;
+  return !assignment.endDate || assignment.endDate.getTime() >= now.getTime() - DAY_MS;
+}
+
+/** El plan asignado al paciente o, si no tiene, el de alguno de sus grupos; el más reciente. */
+export async function findActivePlanAssignment(
+  storage: IStorage,
+  patientId: string,
+  now: Date = new Date(),
+): Promise<WeeklyPlanAssignment | null> {
+  const byNewest = (a: WeeklyPlanAssignment, b: WeeklyPlanAssignment) => b.createdAt.getTime() - a.createdAt.getTime();
+
+  const own = (await storage.getWeeklyPlanAssignments(undefined, undefined, patientId))
+    .filter((assignment) => isAssignmentCurrent(assignment, now))
+    .sort(byNewest);
+  if (own.length > 0) return own[0];
+
+  const memberships = await storage.getGroupMemberships(undefined, patientId);
+  const groupAssignments = (
+    await Promise.all(memberships.map((membership) => storage.getWeeklyPlanAssignments(undefined, membership.groupId)))
+  )
+    .flat()
+    .filter((assignment) => isAssignmentCurrent(assignment, now))
+    .sort(byNewest);
+  return groupAssignments[0] ?? null;
+}
+
+async function buildPortalPlan(storage: IStorage, assignment: WeeklyPlanAssignment): Promise<PortalPlan | null> {
+  const plan = await storage.getWeeklyDietPlan(assignment.planId);
+  if (!plan) return null;
+
+  const planMeals = await storage.getWeeklyPlanMeals(plan.id);
+  const meals = await Promise.all(
+    planMeals.map(async (planMeal) => {
+      const meal = planMeal.mealId ? await storage.getMeal(planMeal.mealId) : null;
+      return {
+        dayOfWeek: planMeal.dayOfWeek,
+        mealSlot: planMeal.mealSlot,
+        slotOrder: planMeal.slotOrder ?? 1,
+        suggestedTime: planMeal.suggestedTime,
+        name: meal?.name ?? planMeal.customName ?? "",
+        description: meal?.description ?? planMeal.customDescription ?? null,
+        portionSize: meal?.portionSize ?? null,
+      };
+    }),
+  );
+
+  return {
+    name: plan.name,
+    goal: plan.goal,
+    dailyCalories: plan.dailyCalories,
+    startDate: assignment.startDate ? assignment.startDate.toISOString() : null,
+    endDate: assignment.endDate ? assignment.endDate.toISOString() : null,
+    meals: meals
+      .filter((meal) => meal.name)
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.slotOrder - b.slotOrder),
+  };
+}
+
+const toNumber = (value: string | null | undefined): number | null => {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+async function buildEvolution(storage: IStorage, patientId: string): Promise<PortalEvolutionPoint[]> {
+  const measurements = await storage.getMeasurements(patientId);
+  const points = await Promise.all(
+    measurements.map(async (measurement) => {
+      const [calculation] = await storage.getMeasurementCalculations(measurement.id);
+      const weight = toNumber(measurement.weight);
+      const bodyFatPercentage = toNumber(calculation?.bodyFatPercentage);
+      return {
+        date: new Date(measurement.measurementDate).toISOString(),
+        weight,
+        bodyFatPercentage,
+        fatMassKg:
+          weight !== null && bodyFatPercentage !== null
+            ? Math.round(weight * bodyFatPercentage) / 100
+            : null,
+      };
+    }),
+  );
+  return points.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export async function buildPatientPortal(
+  storage: IStorage,
+  patient: Patient,
+  link: PatientShareLink,
+  now: Date = new Date(),
+): Promise<PatientPortalData> {
+  const [settings, assignment, reports, consultations, evolution] = await Promise.all([
+    storage.getNutritionistSettings(),
+    findActivePlanAssignment(storage, patient.id, now),
+    storage.getReports(patient.id),
+    storage.getConsultationsByPatient(patient.id),
+    buildEvolution(storage, patient.id),
+  ]);
+
+  return {
+    firstName: patient.name.trim().split(/\s+/)[0] ?? "",
+    practiceName: settings.profileName,
+    expiresAt: link.expiresAt.toISOString(),
+    plan: assignment ? await buildPortalPlan(storage, assignment) : null,
+    reports: reports
+      .filter((report) => report.portalPdfUrl && report.status !== "pending")
+      .map((report) => ({ id: report.id, createdAt: report.createdAt.toISOString() })),
+    evolution,
+    notes: consultations
+      .filter((consultation) => consultation.notesShared && consultation.notes?.trim())
+      .sort((a, b) => new Date(b.consultationDate).getTime() - new Date(a.consultationDate).getTime())
+      .map((consultation) => ({
+        date: new Date(consultation.consultationDate).toISOString(),
+        text: consultation.notes!.trim(),
+      })),
+  };
+}
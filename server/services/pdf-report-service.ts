@@ -2,19 +2,45 @@ import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { Chart, registerables } from 'chart.js';
 import { createCanvas } from 'canvas';
-import { Patient, Measurement, MeasurementCalculation } from '@shared/schema';
+import { Patient, Measurement, MeasurementCalculation, Evaluator } from '@shared/schema';
 import {
   calculateBodyComposition,
   type MeasurementData,
   calculateAdjustedValue,
   getETM,
-  getReferenceValues,
-  calculateZScore,
+  calculateProportionalZScore,
+  resolveReferencePopulation,
+  type ReferenceKey,
+  type ReferencePopulation,
   formatDifference,
   formatNumber as sharedFormatNumber,
   toNumberOrNull,
   ETM_VALUES,
+  calculateHeathCarterSomatotype,
+  calculateSomatotypeAttitudinalDistance,
+  SAD_MEANINGFUL_CHANGE,
+  calculateSomatotypeAttitudinalMean,
+  type SomatotypeResult,
+  type EvaluatorTEM,
+  type MeasurementSiteKey,
 } from '@shared/isak-calculations';
+import type { ComparisonEntry, MeasurementComparisonResult } from '@shared/measurement-comparison';
+import {
+  GROWTH_CURVE_Z_LINES,
+  GROWTH_INDICATORS,
+  assessGrowth,
+  getAgeInMonths,
+  getGrowthCurves,
+  growthCurveKey,
+  isPediatricAge,
+  type GrowthIndicator,
+  type GrowthSex,
+} from '@shared/growth-references';
+import { normalizeGender } from '@shared/body-fat-equations';
+import { BMR_EQUATIONS, ENERGY_MODELS } from '@shared/energy-equations';
+import { getWeekdayLabel } from '@shared/training-schedule';
+import { GOAL_TARGET_TYPES, TREND_STATUS_LABELS, type GoalSimulation } from '@shared/goal-simulator';
+import { calculateCorrectedGirths, type EnergyBreakdown } from './measurement-calculations';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -23,7 +49,11 @@ interface ReportData {
   measurement: Measurement;
   previousMeasurement?: Measurement | null;
   measurementNumber: number;
+  evaluator?: Evaluator | null;
+  comparison?: MeasurementComparisonResult | null;
+  history?: Measurement[] | null; // mediciones hasta la actual, para las curvas de crecimiento
   calculations?: MeasurementCalculation[] | null;
+  goalSimulation?: GoalSimulation | null;
   annotations?: {
     summary?: string;
     recommendations?: string;
@@ -125,6 +155,36 @@ function resolveBodyComposition(
   };
 }
 
+function resolveSomatotype(measurement: Measurement): SomatotypeResult | null {
+  const values = {
+    weight: toNumberOrNull(measurement.weight),
+    height: toNumberOrNull(measurement.height),
+    triceps: toNumberOrNull(measurement.triceps),
+    subscapular: toNumberOrNull(measurement.subscapular),
+    supraspinal: toNumberOrNull(measurement.supraspinal),
+    humeral: toNumberOrNull(measurement.humeral),
+    femoral: toNumberOrNull(measurement.femoral),
+    flexedArm: toNumberOrNull(measurement.flexedArm),
+    calf: toNumberOrNull(measurement.calf),
+    calfSkinfold: toNumberOrNull(measurement.calfSkinfold),
+  };
+
+  if (Object.values(values).some((value) => value === null) || !values.height || !values.weight) {
+    return null;
+  }
+
+  return calculateHeathCarterSomatotype(values as { [K in keyof typeof values]: number });
+}
+
+// Marca con * las diferencias que superan el cambio mínimo detectable
+function flagDifference(text: string, change: ComparisonEntry | undefined): string | { content: string; styles: object } {
+  if (!change?.significant) return text;
+  return {
+    content: `${text} *`,
+    styles: { fontStyle: 'bold', textColor: [BRAND_COLORS.header.r, BRAND_COLORS.header.g, BRAND_COLORS.header.b] },
+  };
+}
+
 function formatValue(value: number | string | null | undefined, decimals = 2): string {
   const formatted = sharedFormatNumber(value, decimals);
   return formatted || '';
@@ -137,13 +197,16 @@ function getAdjusted(value: number | string | null | undefined, type: 'skinfold'
   return calculateAdjustedValue(num, type).toFixed(2);
 }
 
-function getZScoreFormatted(value: number | string | null | undefined, key: keyof typeof getReferenceValues extends never ? never : keyof typeof ETM_VALUES | keyof typeof getReferenceValues): string {
+function getZScoreFormatted(
+  value: number | string | null | undefined,
+  key: ReferenceKey,
+  height: number | null,
+  population: ReferencePopulation,
+): string {
   if (value === null || value === undefined) return '';
   const num = parseFloat(String(value));
   if (!Number.isFinite(num)) return '';
-  const refKey = key as keyof typeof getReferenceValues;
-  const ref = getReferenceValues(refKey as keyof typeof getReferenceValues);
-  return calculateZScore(num, ref.mean, ref.sd).toFixed(2);
+  return calculateProportionalZScore(num, key, height, population).toFixed(2);
 }
 
 function calculateAge(birthDate: string | null): number | null {
@@ -287,11 +350,179 @@ function renderScoreChart(labels: string[], scores: number[]): string {
   return renderChartToBase64(configuration, SCORE_CHART_SIZE);
 }
 
+function renderSomatochart(points: { label: string; x: number; y: number; color: string }[]): string {
+  const configuration = {
+    type: 'scatter' as const,
+    data: {
+      datasets: points.map((point) => ({
+        label: point.label,
+        data: [{ x: point.x, y: point.y }],
+        backgroundColor: point.color,
+        borderColor: point.color,
+        pointRadius: 7,
+      })),
+    },
+    options: {
+      scales: {
+        x: {
+          min: -8,
+          max: 8,
+          grid: { color: 'rgba(148, 163, 184, 0.35)' },
+          ticks: { stepSize: 2, font: { size: 10 } },
+          title: { display: true, text: 'X = ecto - endo', font: { size: 10 } },
+        },
+        y: {
+          min: -10,
+          max: 16,
+          grid: { color: 'rgba(148, 163, 184, 0.35)' },
+          ticks: { stepSize: 2, font: { size: 10 } },
+          title: { display: true, text: 'Y = 2·meso - (endo + ecto)', font: { size: 10 } },
+        },
+      },
+      plugins: {
+        legend: {
+          position: 'bottom' as const,
+          labels: { font: { size: 10, family: 'Helvetica' } },
+        },
+      },
+    },
+  };
+
+  return renderChartToBase64(configuration, SOMATOCHART_SIZE);
+}
+
+// Curvas OMS de -3 a +3 SD con las mediciones del paciente superpuestas
+function renderGrowthChart(
+  indicator: GrowthIndicator,
+  sex: GrowthSex,
+  points: { ageYears: number; value: number }[],
+  fromMonths: number,
+): string {
+  const curves = getGrowthCurves(indicator, sex, 3, { fromMonths });
+  const curveColor = (z: number) => (z === 0 ? '#16A34A' : Math.abs(z) === 2 ? '#DC2626' : Math.abs(z) === 3 ? '#0F172A' : '#F59E0B');
+  const configuration = {
+    type: 'scatter' as const,
+    data: {
+      datasets: [
+        ...GROWTH_CURVE_Z_LINES.map((z) => ({
+          label: z === 0 ? 'Mediana' : `${z > 0 ? '+' : ''}${z} SD`,
+          data: curves.map((point) => ({ x: point.ageYears, y: point[growthCurveKey(z)] })),
+          showLine: true,
+          borderColor: curveColor(z),
+          borderWidth: z === 0 ? 2 : 1,
+          pointRadius: 0,
+        })),
+        {
+          label: 'Paciente',
+          data: points.map((point) => ({ x: point.ageYears, y: point.value })),
+          showLine: points.length > 1,
+          borderColor: '#2563EB',
+          backgroundColor: '#2563EB',
+          pointRadius: 4,
+        },
+      ],
+    },
+    options: {
+      scales: {
+        x: {
+          grid: { color: 'rgba(148, 163, 184, 0.35)' },
+          ticks: { stepSize: 1, font: { size: 9 } },
+          title: { display: true, text: 'Edad (años)', font: { size: 10 } },
+        },
+        y: {
+          grid: { color: 'rgba(148, 163, 184, 0.35)' },
+          ticks: { font: { size: 9 } },
+          title: { display: true, text: `${GROWTH_INDICATORS[indicator].label} (${GROWTH_INDICATORS[indicator].unit})`, font: { size: 10 } },
+        },
+      },
+      plugins: {
+        legend: {
+          position: 'bottom' as const,
+          labels: { font: { size: 9, family: 'Helvetica' }, boxWidth: 12 },
+        },
+      },
+    },
+  };
+
+  return renderChartToBase64(configuration, GROWTH_CHART_SIZE);
+}
+
+function renderGoalChart(simulation: GoalSimulation): string {
+  const { unit } = GOAL_TARGET_TYPES[simulation.target.type];
+  const labels = simulation.curve.map((point) => {
+    const [year, month, day] = point.date.split('-');
+    return `${day}/${month}/${year.slice(2)}`;
+  });
+  const configuration = {
+    type: 'line' as const,
+    data: {
+      labels,
+      datasets: [
+        {
+          label: 'Mediciones',
+          data: simulation.curve.map((point) => point.actual),
+          borderColor: '#2563EB',
+          backgroundColor: '#2563EB',
+          showLine: false,
+          pointRadius: 4,
+        },
+        {
+          label: 'Tendencia',
+          data: simulation.curve.map((point) => point.trend),
+          borderColor: '#F59E0B',
+          borderDash: [6, 4],
+          borderWidth: 2,
+          pointRadius: 0,
+          spanGaps: true,
+        },
+        {
+          label: 'Plan',
+          data: simulation.curve.map((point) => point.plan),
+          borderColor: '#16A34A',
+          borderWidth: 2,
+          pointRadius: 0,
+          spanGaps: true,
+        },
+        {
+          label: 'Objetivo',
+          data: simulation.curve.map(() => simulation.target.value),
+          borderColor: '#DC2626',
+          borderWidth: 1,
+          pointRadius: 0,
+        },
+      ],
+    },
+    options: {
+      scales: {
+        x: {
+          grid: { color: 'rgba(148, 163, 184, 0.35)' },
+          ticks: { font: { size: 9 }, maxRotation: 0, autoSkip: true, maxTicksLimit: 10 },
+        },
+        y: {
+          grid: { color: 'rgba(148, 163, 184, 0.35)' },
+          ticks: { font: { size: 9 } },
+          title: { display: true, text: `${GOAL_TARGET_TYPES[simulation.target.type].label} (${unit})`, font: { size: 10 } },
+        },
+      },
+      plugins: {
+        legend: {
+          position: 'bottom' as const,
+          labels: { font: { size: 9, family: 'Helvetica' }, boxWidth: 12 },
+        },
+      },
+    },
+  };
+
+  return renderChartToBase64(configuration, GROWTH_CHART_SIZE);
+}
+
 Chart.register(...registerables);
 
 const PIE_CHART_SIZE = { width: 360, height: 260 };
 const SCATTER_CHART_SIZE = { width: 360, height: 260 };
 const SCORE_CHART_SIZE = { width: 360, height: 220 };
+const SOMATOCHART_SIZE = { width: 360, height: 360 };
+const GROWTH_CHART_SIZE = { width: 480, height: 260 };
 
 function renderChartToBase64(configuration: any, size: { width: number; height: number }): string {
   const canvas = createCanvas(size.width, size.height);
@@ -303,8 +534,23 @@ function renderChartToBase64(configuration: any, size: { width: number; height:
   return buffer.toString('base64');
 }
 
-export async function generateMeasurementReport(data: ReportData): Promise<string> {
-  const { patient, measurement, previousMeasurement, measurementNumber, calculations, annotations } = data;
+/**
+ * Genera el PDF del informe y devuelve su URL. Con includeNotes en false sale
+ * sin "Notas complementarias": es la copia que se ofrece en el portal del
+ * paciente, donde no deben llegar las notas internas de la medición.
+ */
+export async function generateMeasurementReport(
+  data: ReportData,
+  { includeNotes = true }: { includeNotes?: boolean } = {},
+): Promise<string> {
+  const { patient, measurement, previousMeasurement, measurementNumber, evaluator, comparison, history, calculations, goalSimulation, annotations } = data;
+  const siteChange = (key: MeasurementSiteKey) => comparison?.sites.find((entry) => entry.key === key);
+  const derivedChange = (key: string) => comparison?.derived.find((entry) => entry.key === key);
+  const changeLegend = comparison
+    ? `* Cambio real: la diferencia supera el cambio mínimo detectable (MDC ${comparison.confidenceLevel}%) calculado con el ETM de cada medición.`
+    : null;
+  // El %ETM de la tabla es el del evaluador si tiene estudio test-retest
+  const evaluatorTem = (evaluator?.temValues as EvaluatorTEM | null) ?? null;
   const doc = new jsPDF('p', 'mm', 'a4');
   const pageWidth = doc.internal.pageSize.getWidth();
 
@@ -312,6 +558,12 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
     ? new Date(measurement.measurementDate).toLocaleDateString('es-AR')
     : new Date().toLocaleDateString('es-AR');
   const age = calculateAge(patient.birthDate);
+  const referencePopulation = resolveReferencePopulation({
+    populationId: patient.referencePopulation,
+    gender: patient.gender,
+    age,
+  });
+  const measuredHeight = toNumberOrNull(measurement.height);
   const bodyComposition = resolveBodyComposition(measurement, patient.gender);
 
   doc.setFillColor(BRAND_COLORS.header.r, BRAND_COLORS.header.g, BRAND_COLORS.header.b);
@@ -343,6 +595,12 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
   doc.text(`Fecha de medición: ${measurementDate}`, 20, y);
   doc.text(`Medición Nº: ${measurementNumber}`, 120, y);
   y += 5;
+  if (evaluator) {
+    const isakLevel = evaluator.isakLevel ? ` (ISAK nivel ${evaluator.isakLevel})` : '';
+    doc.text(`Evaluador: ${evaluator.name}${isakLevel}`, 20, y);
+    doc.text(`%ETM: ${evaluatorTem ? 'propio del evaluador' : 'valores de referencia'}`, 120, y);
+    y += 5;
+  }
   if (patient.objective) {
     doc.text(`Objetivo declarado: ${patient.objective}`, 20, y);
     y += 5;
@@ -359,25 +617,25 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
     'Peso (kg)',
     formatValue(measurement.weight),
     getAdjusted(measurement.weight, 'basic'),
-    formatValue(getETM('weight'), 2),
-    formatDifference(measurement.weight, previousMeasurement?.weight),
-    getZScoreFormatted(measurement.weight, 'weight'),
+    formatValue(getETM('weight', evaluatorTem), 2),
+    flagDifference(formatDifference(measurement.weight, previousMeasurement?.weight), siteChange('weight')),
+    getZScoreFormatted(measurement.weight, 'weight', measuredHeight, referencePopulation),
   ]);
   tableBody.push([
     'Talla (cm)',
     formatValue(measurement.height),
     '',
-    formatValue(getETM('height'), 2),
-    formatDifference(measurement.height, previousMeasurement?.height),
-    getZScoreFormatted(measurement.height, 'height'),
+    formatValue(getETM('height', evaluatorTem), 2),
+    flagDifference(formatDifference(measurement.height, previousMeasurement?.height), siteChange('height')),
+    getZScoreFormatted(measurement.height, 'height', measuredHeight, referencePopulation),
   ]);
   tableBody.push([
     'Talla sentado (cm)',
     formatValue(measurement.seatedHeight),
     getAdjusted(measurement.seatedHeight, 'basic'),
-    formatValue(getETM('seatedHeight'), 2),
-    formatDifference(measurement.seatedHeight, previousMeasurement?.seatedHeight),
-    getZScoreFormatted(measurement.seatedHeight, 'seatedHeight'),
+    formatValue(getETM('seatedHeight', evaluatorTem), 2),
+    flagDifference(formatDifference(measurement.seatedHeight, previousMeasurement?.seatedHeight), siteChange('seatedHeight')),
+    getZScoreFormatted(measurement.seatedHeight, 'seatedHeight', measuredHeight, referencePopulation),
   ]);
 
   const pushGroup = (title: string) => {
@@ -389,16 +647,17 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
     value: any,
     adjustedType: 'skinfold' | 'perimeter' | 'diameter' | 'basic',
     etmKey: keyof typeof ETM_VALUES,
-    refKey: keyof typeof getReferenceValues,
+    refKey: ReferenceKey,
     previousValue: any,
+    siteKey: MeasurementSiteKey = etmKey as MeasurementSiteKey,
   ) => {
     tableBody.push([
       label,
       formatValue(value),
       getAdjusted(value, adjustedType),
-      formatValue(getETM(etmKey), 2),
-      formatDifference(value, previousValue),
-      getZScoreFormatted(value, refKey),
+      formatValue(getETM(etmKey, evaluatorTem), 2),
+      flagDifference(formatDifference(value, previousValue), siteChange(siteKey)),
+      getZScoreFormatted(value, refKey, measuredHeight, referencePopulation),
     ]);
   };
 
@@ -424,9 +683,9 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
 
   pushGroup('PLIEGUES CUTÁNEOS (mm)');
   addRow('Tríceps', measurement.triceps, 'skinfold', 'triceps', 'triceps', previousMeasurement?.triceps);
-  addRow('Bíceps', measurement.biceps, 'skinfold', 'triceps', 'triceps', previousMeasurement?.biceps);
+  addRow('Bíceps', measurement.biceps, 'skinfold', 'triceps', 'triceps', previousMeasurement?.biceps, 'biceps');
   addRow('Subescapular', measurement.subscapular, 'skinfold', 'subscapular', 'subscapular', previousMeasurement?.subscapular);
-  addRow('Suprailiaco', measurement.suprailiac, 'skinfold', 'triceps', 'triceps', previousMeasurement?.suprailiac);
+  addRow('Suprailiaco', measurement.suprailiac, 'skinfold', 'triceps', 'triceps', previousMeasurement?.suprailiac, 'suprailiac');
   addRow('Supraespinal', measurement.supraspinal, 'skinfold', 'supraspinal', 'supraspinal', previousMeasurement?.supraspinal);
   addRow('Abdominal', measurement.abdominal, 'skinfold', 'abdominal', 'abdominal', previousMeasurement?.abdominal);
   addRow('Muslo (medial)', measurement.thighSkinfold, 'skinfold', 'thighSkinfold', 'thighSkinfold', previousMeasurement?.thighSkinfold);
@@ -470,8 +729,8 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
       'Suma de 6 pliegues cutáneos',
       bodyComposition ? `${bodyComposition.sumOf6Skinfolds.toFixed(2)} mm` : 'S/D',
       previousMeasurement && bodyComposition && resolveBodyComposition(previousMeasurement, patient.gender)
-        ? `${(bodyComposition.sumOf6Skinfolds -
-            resolveBodyComposition(previousMeasurement, patient.gender)!.sumOf6Skinfolds).toFixed(2)} mm`
+        ? flagDifference(`${(bodyComposition.sumOf6Skinfolds -
+            resolveBodyComposition(previousMeasurement, patient.gender)!.sumOf6Skinfolds).toFixed(2)} mm`, derivedChange('sumOf6Skinfolds'))
         : '—',
     ],
     [
@@ -514,6 +773,12 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
   });
 
   let nextY = (doc as any).lastAutoTable.finalY + 10;
+  if (changeLegend) {
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(8);
+    doc.text(changeLegend, 20, nextY - 4);
+    nextY += 2;
+  }
   doc.setFont('helvetica', 'bold');
   doc.setFontSize(10);
   doc.text('Resumen y notas', 20, nextY);
@@ -533,12 +798,14 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
   doc.text(recommendationLines, 20, nextY);
   nextY += recommendationLines.length * 3.2 + 8;
 
-  doc.setFont('helvetica', 'bold');
-  doc.text('Notas complementarias', 20, nextY);
-  nextY += 5;
-  doc.setFont('helvetica', 'normal');
-  const notesLines = doc.splitTextToSize(annotations?.notes || measurement.notes || 'Sin notas adicionales.', pageWidth - 40);
-  doc.text(notesLines, 20, nextY);
+  if (includeNotes) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Notas complementarias', 20, nextY);
+    nextY += 5;
+    doc.setFont('helvetica', 'normal');
+    const notesLines = doc.splitTextToSize(annotations?.notes || measurement.notes || 'Sin notas adicionales.', pageWidth - 40);
+    doc.text(notesLines, 20, nextY);
+  }
 
   doc.addPage();
   doc.setFillColor(BRAND_COLORS.header.r, BRAND_COLORS.header.g, BRAND_COLORS.header.b);
@@ -603,12 +870,12 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
     page2Y += 86;
 
     const componentRows = [
-      ['Masa adiposa', formatValue(bodyComposition.adiposeMassPercent), formatValue(bodyComposition.adiposeMassKg, 3), massScatterData[1]?.value.toFixed(2) ?? '0.00', previousBodyComposition ? formatValue(bodyComposition.adiposeMassKg - previousBodyComposition.adiposeMassKg, 3) : '—'],
-      ['Masa muscular', formatValue(bodyComposition.muscleMassPercent), formatValue(bodyComposition.muscleMassKg, 3), massScatterData[2]?.value.toFixed(2) ?? '0.00', previousBodyComposition ? formatValue(bodyComposition.muscleMassKg - previousBodyComposition.muscleMassKg, 3) : '—'],
-      ['Masa residual', formatValue(bodyComposition.residualMassPercent), formatValue(bodyComposition.residualMassKg, 3), massScatterData[3]?.value.toFixed(2) ?? '0.00', previousBodyComposition ? formatValue(bodyComposition.residualMassKg - previousBodyComposition.residualMassKg, 3) : '—'],
-      ['Masa ósea', formatValue(bodyComposition.boneMassPercent), formatValue(bodyComposition.boneMassKg, 3), massScatterData[4]?.value.toFixed(2) ?? '0.00', previousBodyComposition ? formatValue(bodyComposition.boneMassKg - previousBodyComposition.boneMassKg, 3) : '—'],
-      ['Masa de la piel', formatValue(bodyComposition.skinMassPercent), formatValue(bodyComposition.skinMassKg, 3), massScatterData[5]?.value.toFixed(2) ?? '0.00', previousBodyComposition ? formatValue(bodyComposition.skinMassKg - previousBodyComposition.skinMassKg, 3) : '—'],
-      ['Masa total', '100%', formatValue(parseFloat(String(measurement.weight)), 3), weightScore.toFixed(2), previousMeasurement?.weight ? formatDifference(measurement.weight, previousMeasurement.weight) : '—'],
+      ['Masa adiposa', formatValue(bodyComposition.adiposeMassPercent), formatValue(bodyComposition.adiposeMassKg, 3), massScatterData[1]?.value.toFixed(2) ?? '0.00', previousBodyComposition ? flagDifference(formatValue(bodyComposition.adiposeMassKg - previousBodyComposition.adiposeMassKg, 3), derivedChange('adiposeMassKg')) : '—'],
+      ['Masa muscular', formatValue(bodyComposition.muscleMassPercent), formatValue(bodyComposition.muscleMassKg, 3), massScatterData[2]?.value.toFixed(2) ?? '0.00', previousBodyComposition ? flagDifference(formatValue(bodyComposition.muscleMassKg - previousBodyComposition.muscleMassKg, 3), derivedChange('muscleMassKg')) : '—'],
+      ['Masa residual', formatValue(bodyComposition.residualMassPercent), formatValue(bodyComposition.residualMassKg, 3), massScatterData[3]?.value.toFixed(2) ?? '0.00', previousBodyComposition ? flagDifference(formatValue(bodyComposition.residualMassKg - previousBodyComposition.residualMassKg, 3), derivedChange('residualMassKg')) : '—'],
+      ['Masa ósea', formatValue(bodyComposition.boneMassPercent), formatValue(bodyComposition.boneMassKg, 3), massScatterData[4]?.value.toFixed(2) ?? '0.00', previousBodyComposition ? flagDifference(formatValue(bodyComposition.boneMassKg - previousBodyComposition.boneMassKg, 3), derivedChange('boneMassKg')) : '—'],
+      ['Masa de la piel', formatValue(bodyComposition.skinMassPercent), formatValue(bodyComposition.skinMassKg, 3), massScatterData[5]?.value.toFixed(2) ?? '0.00', previousBodyComposition ? flagDifference(formatValue(bodyComposition.skinMassKg - previousBodyComposition.skinMassKg, 3), derivedChange('skinMassKg')) : '—'],
+      ['Masa total', '100%', formatValue(parseFloat(String(measurement.weight)), 3), weightScore.toFixed(2), previousMeasurement?.weight ? flagDifference(formatDifference(measurement.weight, previousMeasurement.weight), siteChange('weight')) : '—'],
     ];
 
     autoTable(doc, {
@@ -640,6 +907,13 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
 
     page2Y = (doc as any).lastAutoTable.finalY + 8;
 
+    if (changeLegend) {
+      doc.setFont('helvetica', 'italic');
+      doc.setFontSize(8);
+      doc.text(changeLegend, 20, page2Y - 3);
+      page2Y += 3;
+    }
+
     doc.setFont('helvetica', 'normal');
     doc.setFontSize(9);
     doc.text(`Suma de 6 pliegues: ${bodyComposition.sumOf6Skinfolds.toFixed(2)} mm`, 20, page2Y);
@@ -684,18 +958,63 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
     page2Y += 12;
   }
 
+  const correctedGirths = calculateCorrectedGirths(measurement, patient.gender);
+  const previousCorrectedGirths = previousMeasurement ? calculateCorrectedGirths(previousMeasurement, patient.gender) : null;
+  const correctedGirthRows = ([
+    ['Perímetro de brazo corregido', 'correctedArmGirth', 'cm'],
+    ['Perímetro de muslo corregido', 'correctedThighGirth', 'cm'],
+    ['Perímetro de pantorrilla corregido', 'correctedCalfGirth', 'cm'],
+    ['Área muscular del brazo corregida', 'correctedArmMuscleArea', 'cm²'],
+    ['Área muscular del muslo', 'thighMuscleArea', 'cm²'],
+  ] as const)
+    .filter(([, key]) => correctedGirths[key] !== null)
+    .map(([label, key, unit]) => [
+      label,
+      `${formatValue(correctedGirths[key])} ${unit}`,
+      previousCorrectedGirths?.[key]
+        ? flagDifference(`${formatDifference(correctedGirths[key], previousCorrectedGirths[key])} ${unit}`, derivedChange(key))
+        : '—',
+    ]);
+
+  if (correctedGirthRows.length > 0) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text('Perímetros corregidos y áreas musculares', 20, page2Y);
+    page2Y += 2;
+    autoTable(doc, {
+      startY: page2Y,
+      head: [['Indicador', 'Valor', 'Δ previa']],
+      body: correctedGirthRows,
+      styles: { fontSize: 8.5, cellPadding: 1.5 },
+      columnStyles: {
+        0: { cellWidth: 80 },
+        1: { cellWidth: 35, halign: 'center' },
+        2: { cellWidth: 35, halign: 'center' },
+      },
+      headStyles: {
+        fillColor: [BRAND_COLORS.strip.r, BRAND_COLORS.strip.g, BRAND_COLORS.strip.b],
+        textColor: [BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b],
+      },
+      margin: { left: 20, right: 20 },
+    });
+    page2Y = (doc as any).lastAutoTable.finalY + 3;
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(8);
+    doc.text('Perímetro corregido = perímetro − π · pliegue. El área muscular del brazo descuenta el área ósea (Heymsfield).', 20, page2Y + 2);
+    page2Y += 10;
+  }
+
   doc.setFont('helvetica', 'bold');
   doc.setFontSize(10);
-  doc.text('Score-Z Perímetros', 20, page2Y);
+  doc.text(`Score-Z proporcional Perímetros (${referencePopulation.label})`, 20, page2Y);
   page2Y += 6;
   const perimeterLabels = ['Cabeza', 'Brazo rel.', 'Brazo flex.', 'Antebrazo', 'Tórax', 'Cintura', 'Cadera', 'Muslo sup.', 'Muslo med.', 'Pantorrilla'];
   const perimeterKeys: Array<keyof Measurement> = ['head', 'relaxedArm', 'flexedArm', 'forearm', 'thoraxCirc', 'waist', 'hip', 'thighSuperior', 'thighMedial', 'calf'];
+  const perimeterRefKeys: ReferenceKey[] = ['head', 'relaxedArm', 'flexedArm', 'forearm', 'thoraxCirc', 'waist', 'hip', 'thighSuperior', 'thighMedial', 'calf'];
   const perimeterZ = perimeterKeys.map((key, idx) => {
     const value = measurement[key];
     if (value === null || value === undefined) return 0;
-    const refKey = ['head', 'relaxedArm', 'flexedArm', 'forearm', 'thoraxCirc', 'waist', 'hip', 'thighSuperior', 'thighMedial', 'calf'][idx] as keyof typeof getReferenceValues;
-    const ref = getReferenceValues(refKey);
-    return calculateZScore(parseFloat(String(value)), ref.mean, ref.sd);
+    return calculateProportionalZScore(parseFloat(String(value)), perimeterRefKeys[idx], measuredHeight, referencePopulation);
   });
   const perimeterChartBase64 = renderScoreChart(perimeterLabels, perimeterZ);
   if (perimeterChartBase64) {
@@ -705,16 +1024,15 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
 
   doc.setFont('helvetica', 'bold');
   doc.setFontSize(10);
-  doc.text('Score-Z Pliegues', 20, page2Y);
+  doc.text(`Score-Z proporcional Pliegues (${referencePopulation.label})`, 20, page2Y);
   page2Y += 6;
   const skinfoldLabels = ['Tríceps', 'Bíceps', 'Subescap.', 'Suprailiaco', 'Supraesp.', 'Abdominal', 'Muslo Med.', 'Pantorrilla'];
   const skinfoldKeys: Array<keyof Measurement> = ['triceps', 'biceps', 'subscapular', 'suprailiac', 'supraspinal', 'abdominal', 'thighSkinfold', 'calfSkinfold'];
-  const skinfoldRefKeys: Array<keyof typeof getReferenceValues> = ['triceps', 'triceps', 'subscapular', 'triceps', 'supraspinal', 'abdominal', 'thighSkinfold', 'calfSkinfold'];
+  const skinfoldRefKeys: ReferenceKey[] = ['triceps', 'triceps', 'subscapular', 'triceps', 'supraspinal', 'abdominal', 'thighSkinfold', 'calfSkinfold'];
   const skinfoldZ = skinfoldKeys.map((key, idx) => {
     const value = measurement[key];
     if (value === null || value === undefined) return 0;
-    const ref = getReferenceValues(skinfoldRefKeys[idx]);
-    return calculateZScore(parseFloat(String(value)), ref.mean, ref.sd);
+    return calculateProportionalZScore(parseFloat(String(value)), skinfoldRefKeys[idx], measuredHeight, referencePopulation);
   });
   const skinfoldChartBase64 = renderScoreChart(skinfoldLabels, skinfoldZ);
   if (skinfoldChartBase64) {
@@ -724,7 +1042,7 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
 
   doc.setFont('helvetica', 'italic');
   doc.setFontSize(8.5);
-  const explanatory = 'Los Score-Z describen la relación con valores de referencia antropométricos. Valores cercanos a 0 indican similitud con la media; los positivos indican valores mayores al promedio y los negativos, menores.';
+  const explanatory = `Los Score-Z proporcionales (modelo Phantom de Ross & Wilson) escalan cada variable a 170,18 cm (talla del Phantom) según su exponente dimensional, igual que a la población "${referencePopulation.label}", antes de compararlas, eliminando el efecto de la talla. Valores cercanos a 0 indican proporciones similares a la referencia; los positivos, proporcionalmente mayores y los negativos, menores.`;
   const explanatoryLines = doc.splitTextToSize(explanatory, pageWidth - 40);
   doc.text(explanatoryLines, 20, page2Y + 6);
   page2Y += explanatoryLines.length * 2.8 + 10;
@@ -733,9 +1051,373 @@ export async function generateMeasurementReport(data: ReportData): Promise<strin
   doc.setFontSize(10);
   doc.text(`Objetivo actual: ${patient.objective ?? 'Sin especificar'}`, 20, page2Y + 4);
 
+  const somatotype = resolveSomatotype(measurement);
+  if (somatotype) {
+    const previousSomatotype = previousMeasurement ? resolveSomatotype(previousMeasurement) : null;
+
+    doc.addPage();
+    doc.setFillColor(BRAND_COLORS.header.r, BRAND_COLORS.header.g, BRAND_COLORS.header.b);
+    doc.rect(0, 0, pageWidth, 20, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.text('Somatotipo antropométrico (Heath-Carter)', pageWidth / 2, 12, { align: 'center' });
+
+    let page3Y = 30;
+    doc.setTextColor(BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b);
+
+    const somatotypeRows = [
+      ['Endomorfia', somatotype.endomorphy.toFixed(2), previousSomatotype ? formatDifference(somatotype.endomorphy, previousSomatotype.endomorphy) : '—'],
+      ['Mesomorfia', somatotype.mesomorphy.toFixed(2), previousSomatotype ? formatDifference(somatotype.mesomorphy, previousSomatotype.mesomorphy) : '—'],
+      ['Ectomorfia', somatotype.ectomorphy.toFixed(2), previousSomatotype ? formatDifference(somatotype.ectomorphy, previousSomatotype.ectomorphy) : '—'],
+      ['Somatocarta X', somatotype.somatochartX.toFixed(2), previousSomatotype ? formatDifference(somatotype.somatochartX, previousSomatotype.somatochartX) : '—'],
+      ['Somatocarta Y', somatotype.somatochartY.toFixed(2), previousSomatotype ? formatDifference(somatotype.somatochartY, previousSomatotype.somatochartY) : '—'],
+    ];
+
+    autoTable(doc, {
+      startY: page3Y,
+      head: [[
+        { content: 'Componente', styles: { fontStyle: 'bold' } },
+        { content: 'Valor', styles: { halign: 'center', fontStyle: 'bold' } },
+        { content: 'Δ previa', styles: { halign: 'center', fontStyle: 'bold' } },
+      ]],
+      body: somatotypeRows,
+      styles: { fontSize: 9, cellPadding: 2, textColor: [BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b] },
+      columnStyles: {
+        0: { cellWidth: 60 },
+        1: { cellWidth: 30, halign: 'center' },
+        2: { cellWidth: 30, halign: 'center' },
+      },
+      headStyles: {
+        fillColor: [BRAND_COLORS.strip.r, BRAND_COLORS.strip.g, BRAND_COLORS.strip.b],
+      },
+      margin: { left: 20, right: 20 },
+    });
+
+    page3Y = (doc as any).lastAutoTable.finalY + 6;
+
+    const somatochartPoints = [
+      { label: `Actual (${measurementDate})`, x: somatotype.somatochartX, y: somatotype.somatochartY, color: '#2563EB' },
+    ];
+    if (previousSomatotype && previousMeasurement) {
+      const previousDate = previousMeasurement.measurementDate
+        ? new Date(previousMeasurement.measurementDate).toLocaleDateString('es-AR')
+        : 'previa';
+      somatochartPoints.unshift({
+        label: `Anterior (${previousDate})`,
+        x: previousSomatotype.somatochartX,
+        y: previousSomatotype.somatochartY,
+        color: '#94A3B8',
+      });
+    }
+
+    const somatochartBase64 = renderSomatochart(somatochartPoints);
+    if (somatochartBase64) {
+      doc.addImage(somatochartBase64, 'PNG', 45, page3Y, 120, 120);
+      page3Y += 126;
+    }
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.text(
+      `Somatotipo: ${somatotype.endomorphy.toFixed(1)} - ${somatotype.mesomorphy.toFixed(1)} - ${somatotype.ectomorphy.toFixed(1)}`,
+      20,
+      page3Y,
+    );
+    page3Y += 5;
+
+    if (previousSomatotype) {
+      // El umbral de 1 unidad es para la SAD; la SAM se informa sin interpretar
+      const sad = calculateSomatotypeAttitudinalDistance(somatotype, previousSomatotype);
+      doc.text(
+        `Distancia actitudinal del somatotipo (SAD) respecto a la medición anterior: ${sad.toFixed(2)}${sad >= SAD_MEANINGFUL_CHANGE ? ' (cambio relevante)' : ''}`,
+        20,
+        page3Y,
+      );
+      page3Y += 5;
+      const sam = calculateSomatotypeAttitudinalMean([somatotype, previousSomatotype]);
+      if (sam !== null) {
+        doc.text(`Media actitudinal del somatotipo (SAM): ${sam.toFixed(2)}`, 20, page3Y);
+        page3Y += 5;
+      }
+    }
+
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(8.5);
+    const somatotypeText = 'El somatotipo describe la forma corporal actual en tres componentes: endomorfia (adiposidad relativa), mesomorfia (robustez músculo-esquelética relativa a la talla) y ectomorfia (linealidad relativa). Una SAD ≥ 1.0 entre dos mediciones indica un cambio de forma corporal relevante.';
+    const somatotypeLines = doc.splitTextToSize(somatotypeText, pageWidth - 40);
+    doc.text(somatotypeLines, 20, page3Y + 4);
+  }
+
+  const growthSex = normalizeGender(patient.gender);
+  const growthAgeMonths = getAgeInMonths(patient.birthDate, measurement.measurementDate);
+  if (growthSex && isPediatricAge(growthAgeMonths)) {
+    doc.addPage();
+    doc.setFillColor(BRAND_COLORS.header.r, BRAND_COLORS.header.g, BRAND_COLORS.header.b);
+    doc.rect(0, 0, pageWidth, 20, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.text('Crecimiento (referencias OMS)', pageWidth / 2, 12, { align: 'center' });
+
+    let growthY = 30;
+    doc.setTextColor(BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b);
+
+    const weight = toNumberOrNull(measurement.weight);
+    const bmi = weight && measuredHeight ? weight / Math.pow(measuredHeight / 100, 2) : null;
+    const indicatorValues: Record<GrowthIndicator, number | null> = {
+      weightForAge: weight,
+      heightForAge: measuredHeight,
+      bmiForAge: bmi,
+    };
+    const growthRows = (Object.keys(indicatorValues) as GrowthIndicator[])
+      .map((indicator) => assessGrowth(indicator, indicatorValues[indicator], growthSex, growthAgeMonths))
+      .filter((assessment): assessment is NonNullable<typeof assessment> => assessment !== null)
+      .map((assessment) => [
+        GROWTH_INDICATORS[assessment.indicator].label,
+        `${formatValue(assessment.value)} ${GROWTH_INDICATORS[assessment.indicator].unit}`,
+        assessment.zScore.toFixed(2),
+        `P${assessment.percentile.toFixed(1)}`,
+        assessment.classification,
+      ]);
+
+    autoTable(doc, {
+      startY: growthY,
+      head: [['Indicador', 'Valor', 'Score-Z', 'Percentil', 'Clasificación']],
+      body: growthRows,
+      styles: { fontSize: 9, cellPadding: 2, textColor: [BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b] },
+      columnStyles: {
+        1: { halign: 'center' },
+        2: { halign: 'center' },
+        3: { halign: 'center' },
+      },
+      headStyles: {
+        fillColor: [BRAND_COLORS.strip.r, BRAND_COLORS.strip.g, BRAND_COLORS.strip.b],
+        textColor: [BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b],
+      },
+      margin: { left: 20, right: 20 },
+    });
+    growthY = (doc as any).lastAutoTable.finalY + 6;
+
+    // Historial del paciente en edad pediátrica (incluye la medición actual)
+    const growthHistory = (history && history.length > 0 ? history : [measurement])
+      .map((item) => {
+        const ageMonths = getAgeInMonths(patient.birthDate, item.measurementDate);
+        const itemWeight = toNumberOrNull(item.weight);
+        const itemHeight = toNumberOrNull(item.height);
+        return {
+          ageMonths,
+          ageYears: ageMonths !== null ? ageMonths / 12 : 0,
+          height: itemHeight,
+          bmi: itemWeight && itemHeight ? itemWeight / Math.pow(itemHeight / 100, 2) : null,
+        };
+      })
+      .filter((item) => isPediatricAge(item.ageMonths));
+    const fromMonths = growthAgeMonths < 61 ? 24 : 61;
+
+    (['bmiForAge', 'heightForAge'] as const).forEach((indicator) => {
+      const points = growthHistory
+        .map((item) => ({ ageYears: item.ageYears, value: indicator === 'bmiForAge' ? item.bmi : item.height }))
+        .filter((point): point is { ageYears: number; value: number } => point.value !== null);
+      if (points.length === 0) return;
+      const chartBase64 = renderGrowthChart(indicator, growthSex, points, Math.min(fromMonths, ...growthHistory.map((item) => item.ageMonths ?? fromMonths)));
+      if (chartBase64) {
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(10);
+        doc.text(GROWTH_INDICATORS[indicator].label, 20, growthY);
+        doc.addImage(chartBase64, 'PNG', 20, growthY + 2, pageWidth - 40, 84);
+        growthY += 92;
+      }
+    });
+
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(8.5);
+    const growthText = 'Score-Z y percentiles calculados con el método LMS sobre los Patrones de Crecimiento Infantil OMS 2006 (hasta 5 años) y la Referencia OMS 2007 (5 a 19 años). IMC para la edad: sobrepeso > +1 SD, obesidad > +2 SD, delgadez < -2 SD (puntos de corte para 5-19 años). El peso para la edad sólo está definido hasta los 10 años.';
+    const growthLines = doc.splitTextToSize(growthText, pageWidth - 40);
+    doc.text(growthLines, 20, growthY + 2);
+  }
+
+  const calculation = calculations?.find((item) => item.measurementId === measurement.id) ?? calculations?.[0] ?? null;
+  const energy = (calculation?.energyBreakdown as EnergyBreakdown | null) ?? null;
+  if (calculation && energy) {
+    doc.addPage();
+    doc.setFillColor(BRAND_COLORS.header.r, BRAND_COLORS.header.g, BRAND_COLORS.header.b);
+    doc.rect(0, 0, pageWidth, 20, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.text('Gasto energético', pageWidth / 2, 12, { align: 'center' });
+
+    let energyY = 30;
+    doc.setTextColor(BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b);
+
+    const bmrEquation = BMR_EQUATIONS[energy.bmr.equation];
+    const energyRows: string[][] = [
+      ['Metabolismo basal', `${formatValue(energy.bmr.value, 0)} kcal`, `${bmrEquation.label} (${bmrEquation.reference})`],
+      ['Modelo de gasto total', ENERGY_MODELS[energy.model].label, ENERGY_MODELS[energy.model].description],
+    ];
+    if (energy.factorial) {
+      energyRows.push(
+        ['Vida cotidiana', `${energy.factorial.baselineCalories} kcal`, `TMB × ${energy.factorial.baselineFactor}`],
+        ['Entrenamiento', `${energy.factorial.dailyExerciseCalories} kcal/día`, `${energy.factorial.weeklyExerciseCalories} kcal por semana`],
+      );
+    } else if (energy.multiplier) {
+      energyRows.push(['Factor de actividad', formatValue(energy.multiplier.multiplier), `${energy.multiplier.trainingDays} día(s) de entrenamiento declarados`]);
+    }
+    energyRows.push(
+      ['Gasto energético total', `${energy.totalEnergyExpenditure} kcal`, ''],
+      ['Calorías objetivo', `${calculation.targetCalories ?? '—'} kcal`, calculation.calorieObjective ?? ''],
+    );
+
+    autoTable(doc, {
+      startY: energyY,
+      head: [['Componente', 'Valor', 'Detalle']],
+      body: energyRows,
+      styles: { fontSize: 9, cellPadding: 2, textColor: [BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b] },
+      columnStyles: {
+        0: { cellWidth: 50, fontStyle: 'bold' },
+        1: { cellWidth: 35, halign: 'center' },
+      },
+      headStyles: {
+        fillColor: [BRAND_COLORS.strip.r, BRAND_COLORS.strip.g, BRAND_COLORS.strip.b],
+        textColor: [BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b],
+      },
+      margin: { left: 20, right: 20 },
+    });
+    energyY = (doc as any).lastAutoTable.finalY + 6;
+
+    if (energy.factorial && energy.factorial.sessions.length > 0) {
+      autoTable(doc, {
+        startY: energyY,
+        head: [['Sesión semanal', 'MET', 'Duración', 'Gasto']],
+        body: energy.factorial.sessions.map((session) => [
+          session.weekday ? `${getWeekdayLabel(session.weekday)} · ${session.sport}` : session.sport,
+          formatValue(session.met, 1),
+          `${session.durationMinutes} min`,
+          `${session.kcal} kcal`,
+        ]),
+        styles: { fontSize: 9, cellPadding: 2, textColor: [BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b] },
+        columnStyles: {
+          1: { halign: 'center' },
+          2: { halign: 'center' },
+          3: { halign: 'center' },
+        },
+        headStyles: {
+          fillColor: [BRAND_COLORS.strip.r, BRAND_COLORS.strip.g, BRAND_COLORS.strip.b],
+          textColor: [BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b],
+        },
+        margin: { left: 20, right: 20 },
+      });
+      energyY = (doc as any).lastAutoTable.finalY + 6;
+    }
+
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(8.5);
+    const energyNotes = [`Metabolismo basal: ${bmrEquation.formula}.`];
+    if (energy.bmr.fallbackFrom) {
+      energyNotes.push(`La ecuación configurada (${BMR_EQUATIONS[energy.bmr.fallbackFrom].label}) no era aplicable con los datos disponibles.`);
+    }
+    if (energy.factorial) {
+      energyNotes.push('Gasto de cada sesión = (MET − 1) × peso × horas; el reposo ya está incluido en el metabolismo basal. Valores MET del Compendio de Actividades Físicas.');
+    } else if (energy.requestedModel === 'factorial') {
+      energyNotes.push('El paciente no tiene sesiones semanales cargadas: se usó el factor de actividad.');
+    }
+    const energyLines = doc.splitTextToSize(energyNotes.join(' '), pageWidth - 40);
+    doc.text(energyLines, 20, energyY + 2);
+  }
+
+  if (goalSimulation) {
+    doc.addPage();
+    doc.setFillColor(BRAND_COLORS.header.r, BRAND_COLORS.header.g, BRAND_COLORS.header.b);
+    doc.rect(0, 0, pageWidth, 20, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.text('Objetivo de composición corporal', pageWidth / 2, 12, { align: 'center' });
+
+    let goalY = 30;
+    doc.setTextColor(BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b);
+
+    const { label: targetLabel, unit: targetUnit } = GOAL_TARGET_TYPES[goalSimulation.target.type];
+    const formatGoalDate = (date: string | null) => {
+      if (!date) return '—';
+      const [year, month, day] = date.split('-');
+      return `${day}/${month}/${year}`;
+    };
+    const balance = goalSimulation.dailyEnergyBalance;
+    const goalRows: string[][] = [
+      [targetLabel, `${formatValue(goalSimulation.currentValue, 1)} ${targetUnit} → ${formatValue(goalSimulation.target.value, 1)} ${targetUnit}`, ''],
+      [
+        'Peso objetivo',
+        goalSimulation.targetWeight !== null ? `${formatValue(goalSimulation.targetWeight, 1)} kg` : '—',
+        goalSimulation.weightChangeKg !== null
+          ? `${goalSimulation.weightChangeKg > 0 ? '+' : ''}${formatValue(goalSimulation.weightChangeKg, 1)} kg (${goalSimulation.target.type === 'bodyFat' ? 'masa magra constante' : 'masa grasa constante'})`
+          : '',
+      ],
+      [
+        'Ritmo planificado',
+        goalSimulation.weeklyRateKg !== null ? `${formatValue(goalSimulation.weeklyRateKg, 2)} kg/semana` : '—',
+        `${formatValue(goalSimulation.weeklyRatePercent, 2)} % del peso por semana`,
+      ],
+      [
+        balance !== null && balance < 0 ? 'Déficit diario' : 'Superávit diario',
+        balance !== null ? `${Math.abs(balance)} kcal` : '—',
+        `${goalSimulation.energyPerKg} kcal por kg de tejido`,
+      ],
+      ['Calorías diarias estimadas', goalSimulation.targetCalories !== null ? `${goalSimulation.targetCalories} kcal` : '—', 'Mantenimiento ± balance'],
+      [
+        'Fecha según el plan',
+        formatGoalDate(goalSimulation.plannedDate),
+        goalSimulation.plannedWeeks !== null ? `${formatValue(goalSimulation.plannedWeeks, 1)} semanas` : '',
+      ],
+      [
+        'Fecha según la tendencia',
+        formatGoalDate(goalSimulation.projectedDate),
+        TREND_STATUS_LABELS[goalSimulation.trendStatus],
+      ],
+    ];
+
+    autoTable(doc, {
+      startY: goalY,
+      head: [['Indicador', 'Valor', 'Detalle']],
+      body: goalRows,
+      styles: { fontSize: 9, cellPadding: 2, textColor: [BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b] },
+      columnStyles: {
+        0: { cellWidth: 50, fontStyle: 'bold' },
+        1: { cellWidth: 45, halign: 'center' },
+      },
+      headStyles: {
+        fillColor: [BRAND_COLORS.strip.r, BRAND_COLORS.strip.g, BRAND_COLORS.strip.b],
+        textColor: [BRAND_COLORS.text.r, BRAND_COLORS.text.g, BRAND_COLORS.text.b],
+      },
+      margin: { left: 20, right: 20 },
+    });
+    goalY = (doc as any).lastAutoTable.finalY + 6;
+
+    const goalChartBase64 = renderGoalChart(goalSimulation);
+    if (goalChartBase64) {
+      doc.addImage(goalChartBase64, 'PNG', 20, goalY, pageWidth - 40, 84);
+      goalY += 90;
+    }
+
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(8.5);
+    const goalNotes = [
+      'Proyección orientativa. El plan supone un ritmo constante y que sólo cambia el tejido indicado; la tendencia es una regresión lineal sobre las mediciones anteriores.',
+      ...goalSimulation.warnings,
+    ];
+    if (goalSimulation.trend) {
+      goalNotes.push(
+        `Tendencia: ${goalSimulation.trend.slopePerWeek > 0 ? '+' : ''}${formatValue(goalSimulation.trend.slopePerWeek, 2)} ${targetUnit} por semana (${goalSimulation.trend.points} mediciones${goalSimulation.trend.rSquared !== null ? `, R² ${formatValue(goalSimulation.trend.rSquared, 2)}` : ''}).`,
+      );
+    }
+    const goalLines = doc.splitTextToSize(goalNotes.join(' '), pageWidth - 40);
+    doc.text(goalLines, 20, goalY + 2);
+  }
+
   const reportsDir = path.join(process.cwd(), 'reports');
   await fs.mkdir(reportsDir, { recursive: true });
-  const filename = `informe_${patient.name.replace(/\s+/g, '_')}_${Date.now()}.pdf`;
+  const filename = `informe_${patient.name.replace(/\s+/g, '_')}_${Date.now()}${includeNotes ? '' : '_portal'}.pdf`;
   const filepath = path.join(reportsDir, filename);
   const pdfBuffer = Buffer.from(doc.output('arraybuffer'));
   await fs.writeFile(filepath, pdfBuffer);
@@ -0,0 +1,76 @@
+/**
+ * Conflictos entre las comidas de un plan semanal y los alérgenos de los
+ * pacientes a los que se asigna (uno, o todos los de un grupo). No bloquean la
+ * asignación: se muestran para que el nutricionista ajuste el plan.
+ */
+
+import type { IStorage } from "../storage";
+import type { Meal, Patient } from "@shared/schema";
+import { findMealAllergenConflicts, resolvePatientAllergens, type AllergenConflict } from "@shared/allergens";
+
+export interface PlanAllergenConflict {
+  patientId: string;
+  patientName: string;
+  planMealId: string;
+  dayOfWeek: number;
+  mealSlot: string;
+  mealName: string;
+  conflicts: AllergenConflict[];
+}
+
+export type PlanAllergenTarget = { patientId: string } | { groupId: string };
+
+async function resolveTargetPatients(storage: IStorage, target: PlanAllergenTarget): Promise<Patient[]> {
+  if ("patientId" in target) {
+    const patient = await storage.getPatient(target.patientId);
+    return patient ? [patient] : [];
+  }
+  const memberships = await storage.getGroupMemberships(target.groupId);
+  const patients = await Promise.all(memberships.map((membership) => storage.getPatient(membership.patientId)));
+  return patients.filter((patient): patient is Patient => Boolean(patient));
+}
+
+export async function findPlanAllergenConflicts(
+  storage: IStorage,
+  planId: string,
+  target: PlanAllergenTarget,
+): Promise<PlanAllergenConflict[]> {
+  const patients = (await resolveTargetPatients(storage, target))
+    .map((patient) => ({ patient, allergens: resolvePatientAllergens(patient) }))
+    .filter(({ allergens }) => allergens.length > 0);
+  if (patients.length === 0) return [];
+
+  const planMeals = await storage.getWeeklyPlanMeals(planId);
+  const mealIds = Array.from(new Set(planMeals.map((planMeal) => planMeal.mealId).filter((id): id is string => !!id)));
+  const catalog = new Map<string, Meal>();
+  (await Promise.all(mealIds.map((id) => storage.getMeal(id)))).forEach((meal) => {
+    if (meal) catalog.set(meal.id, meal);
+  });
+
+  const result: PlanAllergenConflict[] = [];
+  for (const planMeal of planMeals) {
+    const meal = planMeal.mealId ? catalog.get(planMeal.mealId) : undefined;
+    // Las entradas propias del plan no tienen alérgenos declarados: se infieren del texto
+    const checked = meal ?? {
+      name: planMeal.customName ?? "",
+      description: planMeal.customDescription,
+    };
+    if (!checked.name) continue;
+
+    for (const { patient, allergens } of patients) {
+      const conflicts = findMealAllergenConflicts(allergens, checked);
+      if (conflicts.length === 0) continue;
+      result.push({
+        patientId: patient.id,
+        patientName: patient.name,
+        planMealId: planMeal.id,
+        dayOfWeek: planMeal.dayOfWeek,
+        mealSlot: planMeal.mealSlot,
+        mealName: checked.name,
+        conflicts,
+      });
+    }
+  }
+
+  return result.sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.patientName.localeCompare(b.patientName));
+}
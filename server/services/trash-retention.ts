@@ -0,0 +1,39 @@
+/**
+ * Purga automática de la papelera: lo que superó los días de retención de la
+ * configuración se elimina definitivamente con purgeFromTrash, así cada baja
+ * queda en el historial igual que una purga manual (a nombre del sistema).
+ */
+
+import type { IStorage } from "../storage";
+
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+export async function purgeExpiredTrash(storage: IStorage, now: Date = new Date()): Promise<number> {
+  const expired = (await storage.getTrash()).filter((item) => item.purgeAt.getTime() <= now.getTime());
+  let purged = 0;
+  for (const item of expired) {
+    if (await storage.purgeFromTrash(item.entityType, item.id)) {
+      purged++;
+    }
+  }
+  return purged;
+}
+
+/** Corre una purga al iniciar y luego cada PURGE_INTERVAL_MS. */
+export function scheduleTrashPurge(storage: IStorage) {
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredTrash(storage);
+      if (purged > 0) {
+        console.log(`[Trash] ${purged} registro(s) purgados por vencer la retención`);
+      }
+    } catch (error) {
+      console.error("[Trash] Error en la purga automática:", error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
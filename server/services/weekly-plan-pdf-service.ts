@@ -92,7 +92,7 @@ function parseGuidelines(raw?: string): Record<string, string[]> | null {
   return null;
 }
 
-export async function generateWeeklyPlanPDF(params: GenerateWeeklyPlanPDFParams): Promise<string> {
+function buildWeeklyPlanDocument(params: GenerateWeeklyPlanPDFParams): jsPDF {
   const { plan, meals, patient, group, assignmentNotes, startDate, endDate } = params;
 
   const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
@@ -313,11 +313,22 @@ export async function generateWeeklyPlanPDF(params: GenerateWeeklyPlanPDFParams)
     );
   }
 
+  return doc;
+}
+
+export async function generateWeeklyPlanPDF(params: GenerateWeeklyPlanPDFParams): Promise<string> {
+  const doc = buildWeeklyPlanDocument(params);
+
   const timestamp = Date.now();
-  const sanitizedName = (plan.name || "plan").replace(/[^a-z0-9]/gi, "_").toLowerCase();
+  const sanitizedName = (params.plan.name || "plan").replace(/[^a-z0-9]/gi, "_").toLowerCase();
   const filename = `plan_${sanitizedName}_${timestamp}.pdf`;
   const filepath = path.join(REPORTS_DIR, filename);
   doc.save(filepath);
 
   return `/reports/${filename}`;
 }
+
+/** El mismo PDF en memoria, sin guardarlo en reports/ (para descargas que no deben dejar archivos). */
+export function renderWeeklyPlanPDF(params: GenerateWeeklyPlanPDFParams): Buffer {
+  return Buffer.from(buildWeeklyPlanDocument(params).output("arraybuffer"));
+}
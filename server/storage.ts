@@ -17,6 +17,8 @@ import type {
   InsertReport,
   BiochemicalResult,
   InsertBiochemicalResult,
+  BiaMeasurement,
+  InsertBiaMeasurement,
   DietTemplate,
   InsertDietTemplate,
   DietGeneration,
@@ -39,8 +41,30 @@ import type {
   InsertWeeklyPlanAssignment,
   Consultation,
   InsertConsultation,
+  Appointment,
+  InsertAppointment,
+  FollowUpContact,
+  InsertFollowUpContact,
+  PatientShareLink,
+  InsertPatientShareLink,
+  Evaluator,
+  InsertEvaluator,
+  EvaluatorTemStudy,
+  InsertEvaluatorTemStudy,
   NutritionistSettingsRow,
+  MealDistribution,
+  CustomProtocol,
+  User,
+  InsertUser,
+  AuditLogEntry,
+  InsertAuditLogEntry,
+  PatientMerge,
 } from "@shared/schema";
+import type { EvaluatorTEM } from "@shared/isak-calculations";
+import type { BodyFatEquationId, DensityConversion } from "@shared/body-fat-equations";
+import type { BmrEquationId, EnergyModel } from "@shared/energy-equations";
+import type { TrashEntityType, TrashItem } from "@shared/trash";
+import type { MergeFieldSource, MergeablePatientField } from "@shared/patient-merge";
 
 export class VersionConflictError extends Error {
   constructor(message: string = "Version conflict - record was modified by another user") {
@@ -85,8 +109,16 @@ export type NutritionistSettings = {
   proteinMultiplierMaintain: number;
   proteinMultiplierGain: number;
   fatPerKg: number;
+  bodyFatEquation: BodyFatEquationId;
+  densityConversion: DensityConversion;
+  bmrEquation: BmrEquationId;
+  energyModel: EnergyModel;
+  mealDistribution: MealDistribution;
+  defaultProtocolId: string;
+  customProtocols: CustomProtocol[];
   whatsappTemplateClassic: string | null;
   whatsappTemplateWithDocs: string | null;
+  trashRetentionDays: number;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -97,10 +129,53 @@ export type NutritionistSettingsUpdate = Partial<{
   proteinMultiplierMaintain: number;
   proteinMultiplierGain: number;
   fatPerKg: number;
+  bodyFatEquation: BodyFatEquationId;
+  densityConversion: DensityConversion;
+  bmrEquation: BmrEquationId;
+  energyModel: EnergyModel;
+  mealDistribution: MealDistribution | null;
+  defaultProtocolId: string;
+  customProtocols: CustomProtocol[];
   whatsappTemplateClassic: string | null;
   whatsappTemplateWithDocs: string | null;
+  trashRetentionDays: number;
 }>;
 
+export type TrashRecord = Patient | Measurement | Consultation | Meal | WeeklyDietPlan;
+
+export type PatientMergeInput = {
+  survivorId: string;
+  duplicateId: string;
+  survivorVersion: number;
+  /** Datos de la ficha que sobrevive ya resueltos (resolvePatientMergeUpdates). */
+  updates: Partial<InsertPatient>;
+  fieldChoices: Partial<Record<MergeablePatientField, MergeFieldSource>>;
+  userId: string | null;
+  userName: string | null;
+};
+
+export type PatientMergeResult = {
+  survivor: Patient;
+  merge: PatientMerge;
+};
+
+export type AuditLogFilters = {
+  patientId?: string;
+  entityType?: string;
+  entityId?: string;
+  limit?: number;
+};
+
+export type AppointmentFilters = {
+  /** Turnos que empiezan desde (inclusive) y hasta (exclusive). */
+  from?: Date;
+  to?: Date;
+  patientId?: string;
+  userId?: string;
+};
+
+export type AppointmentWithPatient = Appointment & { patientName: string };
+
 export interface IStorage {
   // Patients
   getPatients(): Promise<Patient[]>;
@@ -141,6 +216,16 @@ export interface IStorage {
   deleteMeasurement(id: string): Promise<boolean>;
   getLatestMeasurement(patientId: string): Promise<Measurement | null>;
 
+  // Evaluators (antropometristas) y estudios de ETM test-retest
+  getEvaluators(): Promise<Evaluator[]>;
+  getEvaluator(id: string): Promise<Evaluator | null>;
+  createEvaluator(data: InsertEvaluator): Promise<Evaluator>;
+  updateEvaluator(id: string, data: Partial<InsertEvaluator>, expectedVersion?: number): Promise<Evaluator | null>;
+  deleteEvaluator(id: string): Promise<boolean>;
+  getEvaluatorTemStudies(evaluatorId: string): Promise<EvaluatorTemStudy[]>;
+  /** Guarda el estudio y copia sus resultados como ETM vigente del evaluador. */
+  createEvaluatorTemStudy(data: InsertEvaluatorTemStudy, results: EvaluatorTEM): Promise<EvaluatorTemStudy>;
+
   // Measurement Calculations
   getMeasurementCalculations(measurementId: string): Promise<MeasurementCalculation[]>;
   createMeasurementCalculation(data: InsertMeasurementCalculation): Promise<MeasurementCalculation>;
@@ -175,6 +260,13 @@ export interface IStorage {
   deleteBiochemicalResult(id: string): Promise<boolean>;
   getLatestBiochemicalResult(patientId: string): Promise<BiochemicalResult | null>;
 
+  // BIA Measurements (patientId required for security)
+  getBiaMeasurements(patientId: string): Promise<BiaMeasurement[]>;
+  getBiaMeasurement(id: string): Promise<BiaMeasurement | null>;
+  createBiaMeasurement(data: InsertBiaMeasurement): Promise<BiaMeasurement>;
+  updateBiaMeasurement(id: string, data: Partial<InsertBiaMeasurement>, expectedVersion?: number): Promise<BiaMeasurement | null>;
+  deleteBiaMeasurement(id: string): Promise<boolean>;
+
   // Dashboard Statistics
   getGroupStatistics(): Promise<GroupStatistics[]>;
 
@@ -186,6 +278,30 @@ export interface IStorage {
   deleteConsultation(id: string): Promise<boolean>;
   getConsultationSummaries(patientId: string): Promise<ConsultationSummary[]>;
 
+  // Appointments (ocultan los de pacientes en la papelera), por fecha de inicio
+  getAppointments(filters?: AppointmentFilters): Promise<AppointmentWithPatient[]>;
+  getAppointment(id: string): Promise<Appointment | null>;
+  createAppointment(data: InsertAppointment): Promise<Appointment>;
+  updateAppointment(
+    id: string,
+    data: Partial<InsertAppointment> & { consultationId?: string | null },
+    expectedVersion?: number,
+  ): Promise<Appointment | null>;
+  deleteAppointment(id: string): Promise<boolean>;
+
+  // Follow-up Contacts, del más reciente al más antiguo
+  getFollowUpContacts(patientId?: string): Promise<FollowUpContact[]>;
+  createFollowUpContact(data: InsertFollowUpContact): Promise<FollowUpContact>;
+
+  // Patient Share Links (portal del paciente), del más reciente al más antiguo
+  getPatientShareLinks(patientId: string): Promise<PatientShareLink[]>;
+  getPatientShareLink(id: string): Promise<PatientShareLink | null>;
+  createPatientShareLink(data: InsertPatientShareLink): Promise<PatientShareLink>;
+  updatePatientShareLink(
+    id: string,
+    data: Partial<Pick<PatientShareLink, "revokedAt" | "lastAccessedAt">>,
+  ): Promise<PatientShareLink | null>;
+
   // AI Diet Generation System
   // Diet Templates
   getDietTemplates(): Promise<DietTemplate[]>;
@@ -214,6 +330,39 @@ export interface IStorage {
   getNutritionistSettings(): Promise<NutritionistSettings>;
   updateNutritionistSettings(data: NutritionistSettingsUpdate): Promise<NutritionistSettings>;
 
+  // Users (username en minúsculas)
+  getUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | null>;
+  getUserByUsername(username: string): Promise<User | null>;
+  createUser(data: InsertUser): Promise<User>;
+  updateUser(id: string, data: Partial<InsertUser>, expectedVersion?: number): Promise<User | null>;
+  /** Registra el ingreso sin cambiar la versión del usuario. */
+  recordUserLogin(id: string): Promise<void>;
+  getUserByCalendarFeedToken(token: string): Promise<User | null>;
+  /** null desactiva el feed; tampoco cambia la versión del usuario. */
+  setUserCalendarFeedToken(id: string, token: string | null): Promise<void>;
+
+  // Trash (baja lógica: los get/list de estas entidades ocultan lo que está en la papelera)
+  getTrash(): Promise<TrashItem[]>;
+  /** Devuelve el registro restaurado, o null si no estaba en la papelera. */
+  restoreFromTrash(entityType: TrashEntityType, id: string): Promise<TrashRecord | null>;
+  /** Borrado definitivo (con sus cascadas); sólo sobre registros que ya están en la papelera. */
+  purgeFromTrash(entityType: TrashEntityType, id: string): Promise<TrashRecord | null>;
+
+  // Patient Merges
+  /**
+   * Pasa todos los registros del duplicado a la ficha que sobrevive, aplica los
+   * datos resueltos y elimina el duplicado. null si alguna de las fichas no existe.
+   */
+  mergePatients(input: PatientMergeInput): Promise<PatientMergeResult | null>;
+  /** Fusiones en las que la ficha sobrevivió (todas si no se indica), más recientes primero. */
+  getPatientMerges(survivorId?: string): Promise<PatientMerge[]>;
+
+  // Audit Log (append-only; las entradas las genera withAuditLog)
+  createAuditLogEntry(data: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  /** Entradas más recientes primero. */
+  getAuditLog(filters: AuditLogFilters): Promise<AuditLogEntry[]>;
+
   // ============================================================================
   // MEAL CATALOG SYSTEM - Carolina's Pre-loaded Meals
   // ============================================================================
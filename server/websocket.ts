@@ -1,5 +1,7 @@
 import { WebSocketServer, WebSocket } from "ws";
-import type { Server } from "http";
+import type { IncomingMessage, Server } from "http";
+import { hasPermission, redactClinicalNotes, type UserRole } from "@shared/auth";
+import type { RecalculationSummary } from "./services/measurement-recalculation";
 
 export interface WebSocketMessage {
   type: "update" | "create" | "delete";
@@ -8,16 +10,43 @@ export interface WebSocketMessage {
   timestamp: number;
 }
 
+/** Sesión dueña de un socket: el rol decide si recibe las notas clínicas. */
+export interface WebSocketSession {
+  userId: string;
+  sessionId: string;
+  role: UserRole;
+}
+
 class WebSocketManager {
   private wss: WebSocketServer | null = null;
-  private clients: Set<WebSocket> = new Set();
+  private clients: Map<WebSocket, WebSocketSession> = new Map();
+  private pendingSessions = new WeakMap<IncomingMessage, WebSocketSession>();
 
-  initialize(server: Server) {
-    this.wss = new WebSocketServer({ server, path: "/ws" });
+  /** authenticate devuelve la sesión de la conexión o null para rechazarla. */
+  initialize(server: Server, authenticate: (req: IncomingMessage) => Promise<WebSocketSession | null>) {
+    this.wss = new WebSocketServer({
+      server,
+      path: "/ws",
+      verifyClient: (info, callback) => {
+        authenticate(info.req)
+          .then((session) => {
+            if (!session) return callback(false, 401, "Unauthorized");
+            this.pendingSessions.set(info.req, session);
+            callback(true);
+          })
+          .catch(() => callback(false, 401, "Unauthorized"));
+      },
+    });
 
-    this.wss.on("connection", (ws: WebSocket) => {
+    this.wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
+      const session = this.pendingSessions.get(req);
+      if (!session) {
+        ws.close(1008, "Unauthorized");
+        return;
+      }
+      this.pendingSessions.delete(req);
       console.log("New WebSocket client connected");
-      this.clients.add(ws);
+      this.clients.set(ws, session);
 
       ws.on("message", (message: string) => {
         try {
@@ -52,14 +81,21 @@ class WebSocketManager {
       return;
     }
 
+    // Igual que en la API: sin clinicalNotes los registros de pacientes viajan sin esos campos
     const payload = JSON.stringify(message);
+    let redactedPayload: string | null = null;
     let successCount = 0;
     let failCount = 0;
 
-    this.clients.forEach((client) => {
+    this.clients.forEach(({ role }, client) => {
       if (client.readyState === WebSocket.OPEN) {
         try {
-          client.send(payload);
+          if (hasPermission(role, "clinicalNotes")) {
+            client.send(payload);
+          } else {
+            redactedPayload ??= JSON.stringify({ ...message, data: redactClinicalNotes(message.data) });
+            client.send(redactedPayload);
+          }
           successCount++;
         } catch (error) {
           console.error("Error sending message to client:", error);
@@ -171,6 +207,15 @@ class WebSocketManager {
     });
   }
 
+  notifyCalculationsRecalculated(summary: RecalculationSummary) {
+    this.broadcast({
+      type: "update",
+      entity: "calculation",
+      data: { recalculation: summary },
+      timestamp: Date.now(),
+    });
+  }
+
   notifyDietUpdate(dietId: string, data: any) {
     this.broadcast({
       type: "update",
@@ -216,6 +261,27 @@ class WebSocketManager {
     });
   }
 
+  private closeWhere(matches: (session: WebSocketSession) => boolean) {
+    this.clients.forEach((session, client) => {
+      if (!matches(session)) return;
+      this.clients.delete(client);
+      client.close(4001, "Session ended");
+    });
+  }
+
+  /** Cierra los sockets de una sesión (logout). */
+  disconnectSession(sessionId: string) {
+    this.closeWhere((session) => session.sessionId === sessionId);
+  }
+
+  /**
+   * Cierra los sockets de un usuario al cambiarle el rol o desactivarlo: al
+   * reconectar se vuelve a verificar la sesión con los datos nuevos.
+   */
+  disconnectUser(userId: string) {
+    this.closeWhere((session) => session.userId === userId);
+  }
+
   getClientCount(): number {
     return this.clients.size;
   }
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectAllergensInText, findTextAllergenConflicts } from "./allergens";
+
+describe("detectAllergensInText", () => {
+  it("detecta alérgenos mencionados", () => {
+    assert.deepEqual(detectAllergensInText("Pan integral con queso").sort(), ["gluten", "milk"]);
+    assert.deepEqual(detectAllergensInText("Budín con huevo"), ["eggs"]);
+  });
+
+  it("no confunde palabras que contienen la clave", () => {
+    assert.deepEqual(detectAllergensInText("Panceta"), []);
+  });
+
+  it("ignora menciones negadas", () => {
+    assert.deepEqual(detectAllergensInText("Galletitas libres de gluten"), []);
+    assert.deepEqual(detectAllergensInText("Chocolate sin leche ni huevo"), []);
+  });
+
+  it("ignora alimentos calificados como libres del alérgeno", () => {
+    assert.deepEqual(detectAllergensInText("Pan sin gluten"), []);
+    assert.deepEqual(detectAllergensInText("Pan 0% TACC"), []);
+  });
+
+  it("no toma bebidas ni untables vegetales como lácteos", () => {
+    assert.deepEqual(detectAllergensInText("Leche de almendras"), ["tree_nuts"]);
+    assert.deepEqual(detectAllergensInText("Leche vegetal de coco"), []);
+    assert.deepEqual(detectAllergensInText("Manteca de maní"), ["peanuts"]);
+  });
+
+  it("la leche deslactosada sigue siendo leche", () => {
+    assert.deepEqual(detectAllergensInText("Yogur 0% lactosa"), ["milk"]);
+  });
+});
+
+describe("findTextAllergenConflicts", () => {
+  it("no marca conflictos en preparaciones libres del alérgeno", () => {
+    const conflicts = findTextAllergenConflicts(
+      [
+        { allergen: "gluten", severity: "allergy" },
+        { allergen: "milk", severity: "intolerance" },
+      ],
+      "Pan sin gluten con leche de almendras sin lactosa",
+    );
+    assert.deepEqual(conflicts, []);
+  });
+
+  it("marca el alérgeno presente", () => {
+    const conflicts = findTextAllergenConflicts([{ allergen: "milk", severity: "allergy" }], "Tostadas con queso");
+    assert.equal(conflicts.length, 1);
+    assert.equal(conflicts[0].allergen.allergen, "milk");
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Alergias, intolerancias y preferencias del paciente (patients.allergens) y
+ * alérgenos de las comidas (meals.allergens). Reemplaza a los textos libres
+ * foodAllergies/foodDislikes: los pacientes que sólo tienen esos textos se
+ * convierten con parseLegacyAllergens, y las comidas sin alérgenos declarados
+ * se infieren de sus ingredientes.
+ */
+
+import type { AllergySeverity, MajorAllergen, PatientAllergen } from "./schema";
+
+export const MAJOR_ALLERGENS: { value: MajorAllergen; label: string; keywords: string[] }[] = [
+  {
+    value: "gluten",
+    label: "Gluten",
+    keywords: [
+      "gluten", "trigo", "harina", "pan", "tostada", "fideo", "pasta", "avena", "cebada", "centeno", "galleta",
+      "galletita", "semola", "cuscus", "seitan", "granola", "rebozado", "empanado", "tarta", "pizza", "wrap",
+    ],
+  },
+  {
+    value: "crustaceans",
+    label: "Crustáceos",
+    keywords: ["crustaceo", "camaron", "langostino", "cangrejo", "langosta", "gamba", "kani"],
+  },
+  { value: "eggs", label: "Huevo", keywords: ["huevo", "clara", "yema", "mayonesa", "omelette", "tortilla", "merengue"] },
+  {
+    value: "fish",
+    label: "Pescado",
+    keywords: ["pescado", "merluza", "atun", "salmon", "sardina", "caballa", "trucha", "bacalao", "anchoa", "abadejo", "surimi"],
+  },
+  { value: "peanuts", label: "Maní", keywords: ["mani", "cacahuate", "cacahuete"] },
+  { value: "soy", label: "Soja", keywords: ["soja", "soya", "tofu", "edamame", "tempeh", "miso"] },
+  {
+    value: "milk",
+    label: "Leche y lactosa",
+    keywords: [
+      "leche", "lactosa", "lacteo", "queso", "yogur", "yogurt", "manteca", "mantequilla", "crema", "ricota", "ricotta",
+      "muzzarella", "mozzarella", "dulce de leche", "suero",
+    ],
+  },
+  {
+    value: "tree_nuts",
+    label: "Frutos secos",
+    keywords: [
+      "fruto seco", "nuez", "nueces", "almendra", "avellana", "castaña", "pistacho", "anacardo", "caju", "pecan",
+      "macadamia",
+    ],
+  },
+  { value: "celery", label: "Apio", keywords: ["apio"] },
+  { value: "mustard", label: "Mostaza", keywords: ["mostaza"] },
+  { value: "sesame", label: "Sésamo", keywords: ["sesamo", "tahini", "tahina", "ajonjoli"] },
+  { value: "sulphites", label: "Sulfitos", keywords: ["sulfito", "vino"] },
+  { value: "lupin", label: "Altramuz", keywords: ["altramuz", "lupino", "lupin", "chocho"] },
+  {
+    value: "molluscs",
+    label: "Moluscos",
+    keywords: ["molusco", "mejillon", "almeja", "calamar", "pulpo", "ostra", "vieira", "caracol", "rabas"],
+  },
+];
+
+export const ALLERGY_SEVERITIES: { value: AllergySeverity; label: string; description: string }[] = [
+  { value: "allergy", label: "Alergia", description: "Reacción inmunológica: no puede consumirlo." },
+  { value: "intolerance", label: "Intolerancia", description: "Le cae mal: evitarlo o limitarlo." },
+  { value: "preference", label: "Preferencia", description: "No lo consume por gusto o elección." },
+];
+
+// "Mariscos" abarca crustáceos y moluscos
+const GROUP_KEYWORDS: [string, MajorAllergen[]][] = [["marisco", ["crustaceans", "molluscs"]]];
+
+const EMPTY_LEGACY_VALUES = ["ninguna", "ninguno", "no", "no tiene", "sin alergias", "n/a", "-"];
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// "sin gluten", "libre de lactosa", "0% lactosa", "sin azúcar ni huevo": lo que sigue no está
+const NEGATION_BEFORE = /(^|[^a-z0-9])(sin|ni|libres? de|0 ?%(\s+de)?)\s+$/;
+const NEGATION_AFTER = "\\s+(sin|libres? de|0 ?%(\\s+de)?)\\s+";
+
+// "Pan sin gluten" o "chocolate sin leche": el alimento nombrado viene sin el alérgeno
+const FREE_OF_TERMS: Partial<Record<MajorAllergen, string[]>> = {
+  gluten: ["gluten", "tacc", "trigo"],
+  milk: ["leche", "lacteo", "lacteos"],
+  eggs: ["huevo", "huevos"],
+};
+
+// Bebidas y untables vegetales: "leche de almendras", "manteca de maní" no son lácteos
+const PLANT_BASED_AFTER = new RegExp(
+  "^\\s+(vegetal|vegana|de\\s+(almendras?|coco|soja|soya|arroz|avena|castanas?|caju|anacardos?|nuez|nueces|avellanas?|mani|cacao|pistachos?|quinoa|canamo|sesamo))([^a-z]|$)",
+);
+
+interface KeywordOptions {
+  freeOf?: string[];
+  notFollowedBy?: RegExp;
+}
+
+/**
+ * Palabra completa (con plural) para que "pan" no coincida con "panceta". Una
+ * mención negada ("sin gluten") o calificada como libre del alérgeno ("pan sin
+ * gluten") no cuenta.
+ */
+function containsKeyword(normalizedText: string, keyword: string, options: KeywordOptions = {}): boolean {
+  const pattern = new RegExp(`(^|[^a-z])(${escapeRegExp(normalizeText(keyword))}(s|es)?)(?=[^a-z]|$)`, "g");
+  const freeOf = options.freeOf?.length
+    ? new RegExp(`^${NEGATION_AFTER}(${options.freeOf.map(escapeRegExp).join("|")})(s|es)?([^a-z]|$)`)
+    : null;
+  for (const match of Array.from(normalizedText.matchAll(pattern))) {
+    const start = (match.index ?? 0) + match[1].length;
+    const rest = normalizedText.slice(start + match[2].length);
+    if (NEGATION_BEFORE.test(normalizedText.slice(0, start))) continue;
+    if (freeOf?.test(rest)) continue;
+    if (options.notFollowedBy?.test(rest)) continue;
+    return true;
+  }
+  return false;
+}
+
+export function getMajorAllergenLabel(allergen: MajorAllergen): string {
+  return MAJOR_ALLERGENS.find((entry) => entry.value === allergen)?.label ?? allergen;
+}
+
+export function getAllergySeverityLabel(severity: AllergySeverity): string {
+  return ALLERGY_SEVERITIES.find((entry) => entry.value === severity)?.label ?? severity;
+}
+
+/** "Maní" o, para las entradas propias, el alimento indicado. */
+export function describePatientAllergen(entry: PatientAllergen): string {
+  return entry.allergen === "custom" ? entry.customName ?? "Otro" : getMajorAllergenLabel(entry.allergen);
+}
+
+/** Alérgenos de declaración obligatoria mencionados en un texto libre. */
+export function detectAllergensInText(text: string | null | undefined): MajorAllergen[] {
+  if (!text?.trim()) return [];
+  const normalized = normalizeText(text);
+  const found = new Set<MajorAllergen>();
+  MAJOR_ALLERGENS.forEach((allergen) => {
+    const options: KeywordOptions = {
+      freeOf: FREE_OF_TERMS[allergen.value],
+      notFollowedBy: allergen.value === "milk" ? PLANT_BASED_AFTER : undefined,
+    };
+    if (allergen.keywords.some((keyword) => containsKeyword(normalized, keyword, options))) found.add(allergen.value);
+  });
+  GROUP_KEYWORDS.forEach(([keyword, allergens]) => {
+    if (containsKeyword(normalized, keyword)) allergens.forEach((allergen) => found.add(allergen));
+  });
+  return MAJOR_ALLERGENS.map((allergen) => allergen.value).filter((value) => found.has(value));
+}
+
+const SEVERITY_RANK: Record<AllergySeverity, number> = { allergy: 3, intolerance: 2, preference: 1 };
+
+function allergenKey(entry: PatientAllergen): string {
+  return entry.allergen === "custom" ? `custom:${normalizeText(entry.customName ?? "")}` : entry.allergen;
+}
+
+// Una entrada por alérgeno, con la severidad más alta
+function dedupeAllergens(entries: PatientAllergen[]): PatientAllergen[] {
+  const byKey = new Map<string, PatientAllergen>();
+  entries.forEach((entry) => {
+    const current = byKey.get(allergenKey(entry));
+    if (!current || SEVERITY_RANK[entry.severity] > SEVERITY_RANK[current.severity]) {
+      byKey.set(allergenKey(entry), entry);
+    }
+  });
+  return Array.from(byKey.values());
+}
+
+function parseLegacyText(text: string | null | undefined, defaultSeverity: AllergySeverity): PatientAllergen[] {
+  if (!text?.trim()) return [];
+  return text
+    .split(/[,;\n/]|\s+y\s+/)
+    .map((fragment) => fragment.trim())
+    .filter((fragment) => fragment && !EMPTY_LEGACY_VALUES.includes(normalizeText(fragment)))
+    .flatMap((fragment): PatientAllergen[] => {
+      const severity = normalizeText(fragment).includes("intoleran") ? "intolerance" : defaultSeverity;
+      const detected = detectAllergensInText(fragment);
+      if (detected.length > 0) {
+        return detected.map((allergen) => ({ allergen, customName: null, severity }));
+      }
+      const customName = fragment.replace(/^(alergia|alergico|alérgico|intolerancia)\s+(a|al|a la)\s+/i, "").trim();
+      return customName ? [{ allergen: "custom", customName, severity }] : [];
+    });
+}
+
+/**
+ * Convierte los textos libres de alergias (alergias, o intolerancias si el
+ * texto lo dice) y de alimentos que no consume (preferencias). Lo que no se
+ * reconoce como uno de los 14 queda como entrada propia.
+ */
+export function parseLegacyAllergens(patient: {
+  foodAllergies?: string | null;
+  foodDislikes?: string | null;
+}): PatientAllergen[] {
+  return dedupeAllergens([
+    ...parseLegacyText(patient.foodAllergies, "allergy"),
+    ...parseLegacyText(patient.foodDislikes, "preference"),
+  ]);
+}
+
+/** Alérgenos del paciente: los estructurados o, si nunca se cargaron, los derivados de los textos libres. */
+export function resolvePatientAllergens(patient: {
+  allergens?: unknown;
+  foodAllergies?: string | null;
+  foodDislikes?: string | null;
+} | null | undefined): PatientAllergen[] {
+  if (!patient) return [];
+  return Array.isArray(patient.allergens) ? (patient.allergens as PatientAllergen[]) : parseLegacyAllergens(patient);
+}
+
+type AllergenMeal = {
+  name: string;
+  description?: string | null;
+  ingredients?: unknown;
+  allergens?: unknown;
+  isGlutenFree?: boolean | null;
+  isDairyFree?: boolean | null;
+};
+
+/** Nombre, descripción e ingredientes de una comida, para buscar alimentos por texto. */
+export function getMealSearchText(meal: Omit<AllergenMeal, "allergens">): string {
+  const ingredients = Array.isArray(meal.ingredients)
+    ? meal.ingredients.map((ingredient) =>
+        typeof ingredient === "string" ? ingredient : (ingredient as { name?: string })?.name ?? "",
+      )
+    : [];
+  return [meal.name, meal.description ?? "", ...ingredients].join(" \n ");
+}
+
+/** Alérgenos de una comida: los declarados o, si no se declararon, los inferidos de sus ingredientes. */
+export function resolveMealAllergens(meal: AllergenMeal): MajorAllergen[] {
+  if (Array.isArray(meal.allergens)) return meal.allergens as MajorAllergen[];
+  return detectAllergensInText(getMealSearchText(meal)).filter(
+    (allergen) => !(allergen === "gluten" && meal.isGlutenFree) && !(allergen === "milk" && meal.isDairyFree),
+  );
+}
+
+export interface AllergenConflict {
+  allergen: PatientAllergen;
+  label: string;
+  severity: AllergySeverity;
+}
+
+function toConflict(entry: PatientAllergen): AllergenConflict {
+  return { allergen: entry, label: describePatientAllergen(entry), severity: entry.severity };
+}
+
+function sortConflicts(conflicts: AllergenConflict[]): AllergenConflict[] {
+  return conflicts.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+/** Alergias, intolerancias o preferencias del paciente que choca una comida del catálogo. */
+export function findMealAllergenConflicts(patientAllergens: PatientAllergen[], meal: AllergenMeal): AllergenConflict[] {
+  if (patientAllergens.length === 0) return [];
+  const mealAllergens = resolveMealAllergens(meal);
+  const text = normalizeText(getMealSearchText(meal));
+  return sortConflicts(
+    patientAllergens
+      .filter((entry) =>
+        entry.allergen === "custom"
+          ? Boolean(entry.customName) && containsKeyword(text, entry.customName!)
+          : mealAllergens.includes(entry.allergen),
+      )
+      .map(toConflict),
+  );
+}
+
+/** Lo mismo sobre un texto libre, p. ej. un plan generado por IA. */
+export function findTextAllergenConflicts(patientAllergens: PatientAllergen[], text: string): AllergenConflict[] {
+  if (patientAllergens.length === 0) return [];
+  const detected = detectAllergensInText(text);
+  const normalized = normalizeText(text);
+  return sortConflicts(
+    patientAllergens
+      .filter((entry) =>
+        entry.allergen === "custom"
+          ? Boolean(entry.customName) && containsKeyword(normalized, entry.customName!)
+          : detected.includes(entry.allergen),
+      )
+      .map(toConflict),
+  );
+}
+
+/** Alergias e intolerancias invalidan un plan; las preferencias sólo se avisan. */
+export function isBlockingConflict(conflict: AllergenConflict): boolean {
+  return conflict.severity !== "preference";
+}
+
+/** "Maní (alergia)" */
+export function describeAllergenConflict(conflict: AllergenConflict): string {
+  return `${conflict.label} (${getAllergySeverityLabel(conflict.severity).toLowerCase()})`;
+}
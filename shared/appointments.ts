@@ -0,0 +1,118 @@
+/**
+ * Turnos de la agenda: tipos con su duración habitual, estados y exportación
+ * a iCalendar (RFC 5545) para ver la agenda en calendarios externos.
+ */
+
+import type { Appointment, AppointmentStatus, AppointmentType } from "./schema";
+
+export const APPOINTMENT_TYPES: { value: AppointmentType; label: string; defaultDurationMinutes: number }[] = [
+  { value: "first_visit", label: "Primera consulta", defaultDurationMinutes: 60 },
+  { value: "follow_up", label: "Control", defaultDurationMinutes: 30 },
+  { value: "measurement", label: "Medición antropométrica", defaultDurationMinutes: 45 },
+  { value: "online", label: "Consulta online", defaultDurationMinutes: 30 },
+];
+
+export const APPOINTMENT_STATUSES: { value: AppointmentStatus; label: string }[] = [
+  { value: "scheduled", label: "Agendado" },
+  { value: "confirmed", label: "Confirmado" },
+  { value: "attended", label: "Atendido" },
+  { value: "no_show", label: "No asistió" },
+  { value: "cancelled", label: "Cancelado" },
+];
+
+/** Estados que todavía ocupan el horario en la agenda. */
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = ["scheduled", "confirmed"];
+
+export function getAppointmentTypeLabel(type: string): string {
+  return APPOINTMENT_TYPES.find((entry) => entry.value === type)?.label ?? type;
+}
+
+export function getAppointmentStatusLabel(status: string): string {
+  return APPOINTMENT_STATUSES.find((entry) => entry.value === status)?.label ?? status;
+}
+
+export function getDefaultAppointmentDuration(type: string): number {
+  return APPOINTMENT_TYPES.find((entry) => entry.value === type)?.defaultDurationMinutes ?? 30;
+}
+
+export function getAppointmentEnd(appointment: Pick<Appointment, "startsAt" | "durationMinutes">): Date {
+  return new Date(new Date(appointment.startsAt).getTime() + appointment.durationMinutes * 60 * 1000);
+}
+
+// ===== iCalendar =====
+
+export type CalendarAppointment = Pick<
+  Appointment,
+  "id" | "startsAt" | "durationMinutes" | "type" | "status" | "reason" | "version" | "updatedAt"
+> & {
+  patientName: string;
+};
+
+// Los cancelados se exportan como CANCELLED para que el calendario externo los borre
+const ICS_STATUS: Record<AppointmentStatus, string> = {
+  scheduled: "TENTATIVE",
+  confirmed: "CONFIRMED",
+  attended: "CONFIRMED",
+  no_show: "CONFIRMED",
+  cancelled: "CANCELLED",
+};
+
+function formatIcsDate(value: Date | string): string {
+  return new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Líneas de hasta 75 octetos; las siguientes empiezan con un espacio
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/** Calendario .ics con un evento por turno, en UTC. */
+export function buildAppointmentsCalendar(
+  appointments: CalendarAppointment[],
+  options: { calendarName: string; domain: string },
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Nutricion//Agenda//ES",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(options.calendarName)}`,
+  ];
+  for (const appointment of appointments) {
+    const status = appointment.status as AppointmentStatus;
+    const summary = `${appointment.patientName} · ${getAppointmentTypeLabel(appointment.type)}`;
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${appointment.id}@${options.domain}`,
+      `DTSTAMP:${formatIcsDate(appointment.updatedAt)}`,
+      `DTSTART:${formatIcsDate(appointment.startsAt)}`,
+      `DTEND:${formatIcsDate(getAppointmentEnd(appointment))}`,
+      `SEQUENCE:${appointment.version}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+      `STATUS:${ICS_STATUS[status] ?? "CONFIRMED"}`,
+    );
+    const description = [getAppointmentStatusLabel(status), appointment.reason].filter(Boolean).join("\n");
+    lines.push(`DESCRIPTION:${escapeIcsText(description)}`, "END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
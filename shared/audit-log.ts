@@ -0,0 +1,123 @@
+/**
+ * Historial de cambios de los registros clínicos: tipos de entidad auditados
+ * y diff campo a campo entre la versión anterior y la nueva de un registro.
+ */
+
+import { getMeasurementSite } from "./isak-calculations";
+
+export const AUDITED_ENTITY_TYPES = [
+  "patient",
+  "measurement",
+  "biaMeasurement",
+  "biochemicalResult",
+  "consultation",
+  "dietAssignment",
+  "dietGeneration",
+  "report",
+] as const;
+export type AuditedEntityType = (typeof AUDITED_ENTITY_TYPES)[number];
+
+export const AUDITED_ENTITY_LABELS: Record<AuditedEntityType, string> = {
+  patient: "Paciente",
+  measurement: "Medición",
+  biaMeasurement: "Medición BIA",
+  biochemicalResult: "Análisis bioquímico",
+  consultation: "Consulta",
+  dietAssignment: "Asignación de dieta",
+  dietGeneration: "Dieta generada",
+  report: "Informe",
+};
+
+// delete envía a la papelera las entidades con baja lógica; purge es el borrado definitivo;
+// merge es la fusión de un paciente duplicado en la ficha que sobrevive
+export type AuditAction = "create" | "update" | "delete" | "restore" | "purge" | "merge";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Alta",
+  update: "Edición",
+  delete: "Baja",
+  restore: "Restauración",
+  purge: "Eliminación definitiva",
+  merge: "Fusión",
+};
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Metadatos que cambian en cada escritura y no aportan al historial
+const IGNORED_FIELDS = new Set(["id", "version", "createdAt", "updatedAt"]);
+
+// Campos fuera de los sitios ISAK (éstos toman la etiqueta de getMeasurementSite)
+const FIELD_LABELS: Record<string, string> = {
+  name: "Nombre",
+  email: "Email",
+  phone: "Teléfono",
+  birthDate: "Fecha de nacimiento",
+  gender: "Sexo",
+  objective: "Objetivo",
+  notes: "Notas",
+  medicalConditions: "Condiciones médicas",
+  medications: "Medicación",
+  foodAllergies: "Alergias",
+  foodDislikes: "Alimentos que no consume",
+  allergens: "Alergias e intolerancias",
+  avatarUrl: "Foto",
+  exercisesRegularly: "Hace ejercicio",
+  sportType: "Deporte",
+  exerciseDays: "Días de entrenamiento",
+  exerciseSchedule: "Horario de entrenamiento",
+  trainingSessions: "Agenda de entrenamiento",
+  competitionWeekdays: "Días de competencia",
+  mealDistribution: "Distribución de comidas",
+  isVegetarian: "Vegetariano",
+  isVegan: "Vegano",
+  referencePopulation: "Población de referencia",
+  measurementDate: "Fecha de medición",
+  evaluatorId: "Evaluador",
+  rawTrials: "Tomas individuales",
+  protocolId: "Protocolo",
+  plausibilityOverrides: "Advertencias confirmadas",
+  startDate: "Inicio",
+  endDate: "Fin",
+  isActive: "Activo",
+  status: "Estado",
+  deletedAt: "En papelera desde",
+};
+
+export function isAuditedEntityType(value: unknown): value is AuditedEntityType {
+  return typeof value === "string" && (AUDITED_ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+export function getAuditFieldLabel(field: string): string {
+  return getMeasurementSite(field)?.label ?? FIELD_LABELS[field] ?? field;
+}
+
+// Fechas a ISO y undefined a null para que el diff y el JSON guardado coincidan
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+/**
+ * Campos que difieren entre dos versiones de un registro. Un alta se compara
+ * contra null y una baja contra null del lado nuevo.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditFieldChange[] = [];
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const previous = normalizeValue(before?.[field]);
+    const next = normalizeValue(after?.[field]);
+    if (JSON.stringify(previous) === JSON.stringify(next)) return;
+    changes.push({ field, before: previous, after: next });
+  });
+  return changes;
+}
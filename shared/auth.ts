@@ -0,0 +1,108 @@
+/**
+ * Roles de las cuentas del consultorio y permisos que habilitan. El servidor
+ * resuelve el permiso de cada request con getRequiredPermission; el cliente
+ * usa hasPermission sólo para ocultar acciones que el servidor rechazaría.
+ */
+
+export const USER_ROLES = ["nutritionist", "assistant", "readonly"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  nutritionist: "Nutricionista",
+  assistant: "Asistente",
+  readonly: "Sólo lectura",
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  nutritionist: "Acceso completo, incluida la gestión de usuarios.",
+  assistant: "Carga mediciones y agenda; no elimina ni ve notas clínicas.",
+  readonly: "Consulta toda la información sin modificarla.",
+};
+
+/**
+ * read: consultar; write: crear y editar en general; measurements: cargar y
+ * editar mediciones; schedule: agenda; delete: eliminar; clinicalNotes: ver y
+ * editar notas clínicas; manageUsers: cuentas y roles.
+ */
+export type Permission =
+  | "read"
+  | "write"
+  | "measurements"
+  | "schedule"
+  | "delete"
+  | "clinicalNotes"
+  | "manageUsers";
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  nutritionist: ["read", "write", "measurements", "schedule", "delete", "clinicalNotes", "manageUsers"],
+  assistant: ["read", "measurements", "schedule"],
+  readonly: ["read", "clinicalNotes"],
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isUserRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Escrituras que no se rigen por "write": permisos más acotados, o delete cuando eliminan registros
+const ROUTE_PERMISSIONS: Array<{ pattern: RegExp; permission: Permission }> = [
+  { pattern: /^\/api\/patient-merges$/, permission: "delete" },
+  { pattern: /^\/api\/measurements(\/|$)/, permission: "measurements" },
+  { pattern: /^\/api\/bia-measurements(\/|$)/, permission: "measurements" },
+  { pattern: /^\/api\/patients\/[^/]+\/bia\/import$/, permission: "measurements" },
+  // Atender un turno crea la consulta del paciente: no alcanza con manejar la agenda
+  { pattern: /^\/api\/appointments\/[^/]+\/attend$/, permission: "measurements" },
+  { pattern: /^\/api\/appointments(\/|$)/, permission: "schedule" },
+  { pattern: /^\/api\/follow-ups(\/|$)/, permission: "schedule" },
+];
+
+/**
+ * Ruta tal como la compara Express: sin distinguir mayúsculas y con las barras
+ * repetidas colapsadas, para que "/API//users" no esquive los permisos.
+ */
+export function normalizeApiPath(path: string): string {
+  return path.toLowerCase().replace(/\/{2,}/g, "/");
+}
+
+/** Permiso que exige una request a la API según su método y ruta. */
+export function getRequiredPermission(method: string, rawPath: string): Permission {
+  const verb = method.toUpperCase();
+  const path = normalizeApiPath(rawPath);
+  // Las cuentas no se pueden ni listar sin manageUsers
+  if (/^\/api\/users(\/|$)/.test(path)) return "manageUsers";
+  if (verb === "GET" || verb === "HEAD" || verb === "OPTIONS") return "read";
+  if (verb === "DELETE") return "delete";
+  return ROUTE_PERMISSIONS.find((route) => route.pattern.test(path))?.permission ?? "write";
+}
+
+/**
+ * Campos de notas clínicas. Se ocultan en las respuestas (y se ignoran en las
+ * escrituras) de los roles sin permiso clinicalNotes.
+ */
+export const CLINICAL_NOTE_FIELDS = ["notes", "notesShared", "medicalConditions", "medications", "anamnesis"] as const;
+
+// Sólo los registros de pacientes (o vinculados a uno) llevan notas clínicas
+const isPatientRecord = (value: Record<string, unknown>) => "patientId" in value || "medicalConditions" in value;
+
+/** Copia del valor sin los campos clínicos de los registros de pacientes, a cualquier profundidad. */
+export function redactClinicalNotes<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactClinicalNotes(item)) as T;
+  }
+  if (!value || typeof value !== "object" || value instanceof Date) {
+    return value;
+  }
+  const record = value as Record<string, unknown>;
+  const redacted: Record<string, unknown> = {};
+  const patientRecord = isPatientRecord(record);
+  for (const [key, entry] of Object.entries(record)) {
+    if (patientRecord && (CLINICAL_NOTE_FIELDS as readonly string[]).includes(key)) continue;
+    redacted[key] = redactClinicalNotes(entry);
+  }
+  return redacted as T;
+}
@@ -0,0 +1,301 @@
+/**
+ * Importación de mediciones de bioimpedancia desde el CSV que exportan los
+ * equipos (LookinBody de InBody, GMON/Health Planet de Tanita, etc.). Cada
+ * fabricante nombra las columnas a su manera, así que se reconocen por alias
+ * normalizados; las columnas que no se reconocen se informan sin cortar la
+ * importación.
+ */
+
+import type { BiaSegmental } from "./schema";
+
+export type BiaNumericField =
+  | "weight"
+  | "fatMassKg"
+  | "bodyFatPercentage"
+  | "fatFreeMassKg"
+  | "skeletalMuscleMassKg"
+  | "totalBodyWaterL"
+  | "intracellularWaterL"
+  | "extracellularWaterL"
+  | "visceralFatLevel"
+  | "phaseAngle"
+  | "basalMetabolicRate";
+
+export type BiaSegment = keyof BiaSegmental;
+
+export const BIA_FIELD_LABELS: Record<BiaNumericField, { label: string; unit: string }> = {
+  weight: { label: "Peso", unit: "kg" },
+  fatMassKg: { label: "Masa grasa", unit: "kg" },
+  bodyFatPercentage: { label: "% Grasa", unit: "%" },
+  fatFreeMassKg: { label: "Masa libre de grasa", unit: "kg" },
+  skeletalMuscleMassKg: { label: "Masa muscular esquelética", unit: "kg" },
+  totalBodyWaterL: { label: "Agua corporal total", unit: "L" },
+  intracellularWaterL: { label: "Agua intracelular", unit: "L" },
+  extracellularWaterL: { label: "Agua extracelular", unit: "L" },
+  visceralFatLevel: { label: "Grasa visceral", unit: "nivel" },
+  phaseAngle: { label: "Ángulo de fase", unit: "°" },
+  basalMetabolicRate: { label: "TMB (equipo)", unit: "kcal" },
+};
+
+export const BIA_SEGMENT_LABELS: Record<BiaSegment, string> = {
+  rightArm: "Brazo derecho",
+  leftArm: "Brazo izquierdo",
+  trunk: "Tronco",
+  rightLeg: "Pierna derecha",
+  leftLeg: "Pierna izquierda",
+};
+
+// Alias normalizados (minúsculas, sin acentos ni símbolos) de cada columna
+const FIELD_ALIASES: Record<BiaNumericField | "date", string[]> = {
+  date: ["date", "fecha", "testdate", "testdatetime", "datetime", "measurementdate", "fechahora", "fechademedicion"],
+  weight: ["weight", "weightkg", "peso", "pesokg", "bodyweight"],
+  fatMassKg: ["bodyfatmass", "bodyfatmasskg", "bfm", "fatmass", "fatmasskg", "masagrasa", "masagrasakg"],
+  bodyFatPercentage: ["percentbodyfat", "pbf", "bodyfat", "bodyfatpercent", "bodyfatpercentage", "fat", "fatpercent", "grasa", "porcentajegrasa", "grasacorporal"],
+  fatFreeMassKg: ["fatfreemass", "fatfreemasskg", "ffm", "leanbodymass", "masalibredegrasa", "masamagra"],
+  skeletalMuscleMassKg: ["skeletalmusclemass", "skeletalmusclemasskg", "smm", "musclemass", "masamuscular", "masamuscularesqueletica"],
+  totalBodyWaterL: ["totalbodywater", "totalbodywaterl", "totalbodywaterkg", "tbw", "aguacorporaltotal", "aguacorporal"],
+  intracellularWaterL: ["intracellularwater", "intracellularwaterl", "icw", "aguaintracelular"],
+  extracellularWaterL: ["extracellularwater", "extracellularwaterl", "ecw", "aguaextracelular"],
+  visceralFatLevel: ["visceralfatlevel", "vfl", "visceralfatrating", "visceralfat", "visceralfatarea", "grasavisceral", "nivelgrasavisceral"],
+  phaseAngle: ["phaseangle", "wholebodyphaseangle", "50khzwholebodyphaseangle", "wholebody50khzphaseangle", "angulodefase"],
+  basalMetabolicRate: ["basalmetabolicrate", "bmr", "tmb", "metabolismobasal"],
+};
+
+const SEGMENT_ALIASES: Record<BiaSegment, string[]> = {
+  rightArm: ["rightarm", "ra", "brazoderecho"],
+  leftArm: ["leftarm", "la", "brazoizquierdo"],
+  trunk: ["trunk", "tronco", "torso"],
+  rightLeg: ["rightleg", "rl", "piernaderecha"],
+  leftLeg: ["leftleg", "ll", "piernaizquierda"],
+};
+
+const LEAN_KEYWORDS = ["ffm", "fatfree", "lean", "muscle", "libredegrasa", "magra", "muscular"];
+const FAT_KEYWORDS = ["fat", "bfm", "grasa"];
+
+export function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\(.*?\)/g, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+type ColumnTarget =
+  | { kind: "date" }
+  | { kind: "field"; field: BiaNumericField }
+  | { kind: "segment"; segment: BiaSegment; part: "leanMassKg" | "fatMassKg" };
+
+function resolveColumn(header: string): ColumnTarget | null {
+  const key = normalizeHeader(header);
+  if (!key) return null;
+
+  // Segmentales: "Lean Mass of Right Arm", "FFM of Right Arm", "Right Arm Fat Mass", "RA BFM"...
+  for (const [segment, aliases] of Object.entries(SEGMENT_ALIASES) as [BiaSegment, string[]][]) {
+    const segmentAlias = aliases.find((alias) =>
+      alias.length > 2 ? key.includes(alias) : key.startsWith(alias) || key.endsWith(alias),
+    );
+    if (!segmentAlias) continue;
+    const rest = key.replace(segmentAlias, "");
+    if (!rest || rest.includes("ecw") || rest.includes("phase") || rest.includes("impedance")) continue;
+    if (LEAN_KEYWORDS.some((keyword) => rest.includes(keyword))) {
+      return { kind: "segment", segment, part: "leanMassKg" };
+    }
+    if (FAT_KEYWORDS.some((keyword) => rest.includes(keyword))) {
+      return { kind: "segment", segment, part: "fatMassKg" };
+    }
+  }
+
+  if (FIELD_ALIASES.date.includes(key)) return { kind: "date" };
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as [BiaNumericField | "date", string[]][]) {
+    if (field === "date") continue;
+    if (aliases.includes(key)) return { kind: "field", field };
+  }
+  return null;
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best,
+  );
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') {
+      if (quoted && line[index + 1] === '"') {
+        current += '"';
+        index++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function parseNumber(value: string): number | null {
+  const cleaned = value.replace(/[^\d,.\-]/g, "");
+  if (!cleaned || cleaned === "-") return null;
+  // Los equipos configurados en español exportan con coma decimal ("23,5")
+  const normalized = cleaned.includes(",") && !cleaned.includes(".") ? cleaned.replace(",", ".") : cleaned.replace(/,/g, "");
+  const numeric = Number(normalized);
+  return Number.isFinite(numeric) ? numeric : null;
+}
+
+/** Fechas ISO, "dd/mm/aaaa [hh:mm]", "aaaa.mm.dd" y el "aaaammddhhmmss" de LookinBody. */
+export function parseBiaDate(value: string): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?$/);
+  if (compact) {
+    const [, year, month, day, hours = "0", minutes = "0", seconds = "0"] = compact;
+    return new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+  }
+
+  const dayFirst = trimmed.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4})(?:\s+(\d{1,2}):(\d{2}))?/);
+  if (dayFirst) {
+    const [, day, month, year, hours = "0", minutes = "0"] = dayFirst;
+    return new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+  }
+
+  const yearFirst = trimmed.match(/^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})(?:[\sT]+(\d{1,2}):(\d{2}))?/);
+  if (yearFirst) {
+    const [, year, month, day, hours = "0", minutes = "0"] = yearFirst;
+    return new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+  }
+
+  return null;
+}
+
+export interface ParsedBiaRow {
+  line: number;
+  measurementDate: Date;
+  values: Partial<Record<BiaNumericField, number>>;
+  segmental: BiaSegmental | null;
+  rawData: Record<string, string>;
+}
+
+export interface BiaImportError {
+  line: number;
+  message: string;
+}
+
+export interface BiaCsvParseResult {
+  rows: ParsedBiaRow[];
+  errors: BiaImportError[];
+  recognizedColumns: string[];
+  unrecognizedColumns: string[];
+}
+
+export function parseBiaCsv(content: string): BiaCsvParseResult {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== "");
+  if (headerIndex === -1) {
+    return { rows: [], errors: [{ line: 1, message: "El archivo está vacío" }], recognizedColumns: [], unrecognizedColumns: [] };
+  }
+
+  const delimiter = detectDelimiter(lines[headerIndex]);
+  const headers = splitCsvLine(lines[headerIndex], delimiter);
+  const targets = headers.map(resolveColumn);
+  const recognizedColumns = headers.filter((_, index) => targets[index] !== null);
+  const unrecognizedColumns = headers.filter((header, index) => targets[index] === null && header !== "");
+
+  const errors: BiaImportError[] = [];
+  if (!targets.some((target) => target?.kind === "date")) {
+    errors.push({ line: headerIndex + 1, message: "No se encontró la columna de fecha" });
+    return { rows: [], errors, recognizedColumns, unrecognizedColumns };
+  }
+
+  const rows: ParsedBiaRow[] = [];
+  lines.slice(headerIndex + 1).forEach((line, offset) => {
+    const lineNumber = headerIndex + offset + 2;
+    if (line.trim() === "") return;
+    const cells = splitCsvLine(line, delimiter);
+    const rawData: Record<string, string> = {};
+    const values: Partial<Record<BiaNumericField, number>> = {};
+    const segmental: BiaSegmental = {};
+    let measurementDate: Date | null = null;
+
+    headers.forEach((header, index) => {
+      const cell = cells[index] ?? "";
+      if (header) rawData[header] = cell;
+      const target = targets[index];
+      if (!target || cell === "") return;
+      if (target.kind === "date") {
+        measurementDate = parseBiaDate(cell);
+        return;
+      }
+      const numeric = parseNumber(cell);
+      if (numeric === null) return;
+      if (target.kind === "field") {
+        values[target.field] = numeric;
+      } else {
+        const segment = segmental[target.segment] ?? { leanMassKg: null, fatMassKg: null };
+        segment[target.part] = numeric;
+        segmental[target.segment] = segment;
+      }
+    });
+
+    if (!measurementDate) {
+      errors.push({ line: lineNumber, message: "Fecha vacía o con formato no reconocido" });
+      return;
+    }
+    completeDerivedValues(values);
+    if (values.bodyFatPercentage === undefined && values.fatMassKg === undefined && values.fatFreeMassKg === undefined) {
+      errors.push({ line: lineNumber, message: "La fila no tiene masa grasa, % de grasa ni masa libre de grasa" });
+      return;
+    }
+    rows.push({
+      line: lineNumber,
+      measurementDate,
+      values,
+      segmental: Object.keys(segmental).length > 0 ? segmental : null,
+      rawData,
+    });
+  });
+
+  return { rows, errors, recognizedColumns, unrecognizedColumns };
+}
+
+// Completa masa grasa / % grasa / masa libre de grasa cuando el equipo exporta sólo dos de ellos
+function completeDerivedValues(values: Partial<Record<BiaNumericField, number>>) {
+  const { weight, fatMassKg, bodyFatPercentage, fatFreeMassKg } = values;
+  if (!weight) return;
+  if (fatMassKg === undefined && bodyFatPercentage !== undefined) {
+    values.fatMassKg = parseFloat(((weight * bodyFatPercentage) / 100).toFixed(2));
+  } else if (fatMassKg === undefined && fatFreeMassKg !== undefined) {
+    values.fatMassKg = parseFloat((weight - fatFreeMassKg).toFixed(2));
+  }
+  if (values.bodyFatPercentage === undefined && values.fatMassKg !== undefined) {
+    values.bodyFatPercentage = parseFloat(((values.fatMassKg / weight) * 100).toFixed(1));
+  }
+  if (values.fatFreeMassKg === undefined && values.fatMassKg !== undefined) {
+    values.fatFreeMassKg = parseFloat((weight - values.fatMassKg).toFixed(2));
+  }
+}
+
+/** Valores de una fila con el formato de las columnas decimal de bia_measurements (texto; TMB entera). */
+export function toBiaColumnValues(values: Partial<Record<BiaNumericField, number>>) {
+  const columns: Partial<Record<Exclude<BiaNumericField, "basalMetabolicRate">, string>> & { basalMetabolicRate?: number } = {};
+  (Object.entries(values) as [BiaNumericField, number][]).forEach(([field, value]) => {
+    if (field === "basalMetabolicRate") {
+      columns.basalMetabolicRate = Math.round(value);
+    } else {
+      columns[field] = String(value);
+    }
+  });
+  return columns;
+}
@@ -0,0 +1,301 @@
+/**
+ * Registro de ecuaciones de porcentaje de grasa corporal por pliegues cutáneos.
+ * Cada ecuación declara los pliegues que necesita y si requiere edad/sexo; las
+ * que estiman densidad corporal se convierten a % grasa con Siri o Brozek.
+ */
+
+export type SkinfoldSite =
+  | "triceps"
+  | "biceps"
+  | "subscapular"
+  | "suprailiac"
+  | "supraspinal"
+  | "abdominal"
+  | "thighSkinfold"
+  | "calfSkinfold"
+  | "chestSkinfold"
+  | "midaxillarySkinfold";
+
+export const SKINFOLD_SITE_LABELS: Record<SkinfoldSite, string> = {
+  triceps: "Tríceps",
+  biceps: "Bíceps",
+  subscapular: "Subescapular",
+  suprailiac: "Suprailiaco",
+  supraspinal: "Supraespinal",
+  abdominal: "Abdominal",
+  thighSkinfold: "Muslo",
+  calfSkinfold: "Pantorrilla",
+  chestSkinfold: "Pectoral",
+  midaxillarySkinfold: "Axilar medio",
+};
+
+export type BodyFatEquationId =
+  | "durnin_womersley"
+  | "jackson_pollock_3"
+  | "jackson_pollock_7"
+  | "yuhasz"
+  | "faulkner"
+  | "withers"
+  | "slaughter";
+
+export type DensityConversion = "siri" | "brozek";
+
+export const DENSITY_CONVERSIONS: Record<DensityConversion, { label: string; convert: (density: number) => number }> = {
+  siri: {
+    label: "Siri (1961)",
+    convert: (density) => (4.95 / density - 4.5) * 100,
+  },
+  brozek: {
+    label: "Brozek (1963)",
+    convert: (density) => (4.57 / density - 4.142) * 100,
+  },
+};
+
+export const DEFAULT_BODY_FAT_EQUATION: BodyFatEquationId = "durnin_womersley";
+export const DEFAULT_DENSITY_CONVERSION: DensityConversion = "siri";
+
+export type SkinfoldValues = Partial<Record<SkinfoldSite, number | null>>;
+
+export interface BodyFatEquationContext {
+  age: number | null;
+  gender: "M" | "F" | null;
+}
+
+export interface BodyFatEquation {
+  id: BodyFatEquationId;
+  label: string;
+  reference: string;
+  /** Pliegues requeridos según sexo (las ecuaciones de JP3 usan sitios distintos). */
+  requiredSites: (gender: "M" | "F" | null) => SkinfoldSite[];
+  requiresAge: boolean;
+  requiresGender: boolean;
+  minAge?: number;
+  maxAge?: number;
+  /** "density" → el resultado se convierte con Siri/Brozek; "percentage" → % directo. */
+  output: "density" | "percentage";
+  compute: (sum: number, context: BodyFatEquationContext, sites: Record<SkinfoldSite, number>) => number | null;
+}
+
+export interface BodyFatEstimate {
+  equation: BodyFatEquationId;
+  label: string;
+  bodyFatPercentage: number;
+  density: number | null;
+  conversion: DensityConversion | null;
+  sumOfSkinfolds: number;
+  sites: SkinfoldSite[];
+}
+
+// Constantes C y M de Durnin & Womersley (1974) por sexo y rango etario
+const DURNIN_WOMERSLEY_CONSTANTS: Record<"M" | "F", Array<{ maxAge: number; c: number; m: number }>> = {
+  M: [
+    { maxAge: 16, c: 1.1533, m: 0.0643 },
+    { maxAge: 19, c: 1.162, m: 0.063 },
+    { maxAge: 29, c: 1.1631, m: 0.0632 },
+    { maxAge: 39, c: 1.1422, m: 0.0544 },
+    { maxAge: 49, c: 1.162, m: 0.07 },
+    { maxAge: Infinity, c: 1.1715, m: 0.0779 },
+  ],
+  F: [
+    { maxAge: 16, c: 1.1369, m: 0.0598 },
+    { maxAge: 19, c: 1.1549, m: 0.0678 },
+    { maxAge: 29, c: 1.1599, m: 0.0717 },
+    { maxAge: 39, c: 1.1423, m: 0.0632 },
+    { maxAge: 49, c: 1.1333, m: 0.0612 },
+    { maxAge: Infinity, c: 1.1339, m: 0.0645 },
+  ],
+};
+
+export const BODY_FAT_EQUATIONS: Record<BodyFatEquationId, BodyFatEquation> = {
+  durnin_womersley: {
+    id: "durnin_womersley",
+    label: "Durnin & Womersley (4 pliegues)",
+    reference: "Durnin & Womersley, 1974",
+    requiredSites: () => ["triceps", "biceps", "subscapular", "suprailiac"],
+    requiresAge: true,
+    requiresGender: true,
+    output: "density",
+    compute: (sum, { age, gender }) => {
+      if (age === null || !gender) return null;
+      const bracket = DURNIN_WOMERSLEY_CONSTANTS[gender].find((entry) => age <= entry.maxAge)!;
+      return bracket.c - bracket.m * Math.log10(sum);
+    },
+  },
+  jackson_pollock_3: {
+    id: "jackson_pollock_3",
+    label: "Jackson & Pollock (3 pliegues)",
+    reference: "Jackson & Pollock, 1978; Jackson, Pollock & Ward, 1980",
+    requiredSites: (gender) =>
+      gender === "F"
+        ? ["triceps", "suprailiac", "thighSkinfold"]
+        : ["chestSkinfold", "abdominal", "thighSkinfold"],
+    requiresAge: true,
+    requiresGender: true,
+    minAge: 18,
+    output: "density",
+    compute: (sum, { age, gender }) => {
+      if (age === null) return null;
+      if (gender === "M") {
+        return 1.10938 - 0.0008267 * sum + 0.0000016 * sum * sum - 0.0002574 * age;
+      }
+      return 1.0994921 - 0.0009929 * sum + 0.0000023 * sum * sum - 0.0001392 * age;
+    },
+  },
+  jackson_pollock_7: {
+    id: "jackson_pollock_7",
+    label: "Jackson & Pollock (7 pliegues)",
+    reference: "Jackson & Pollock, 1978; Jackson, Pollock & Ward, 1980",
+    requiredSites: () => [
+      "chestSkinfold",
+      "midaxillarySkinfold",
+      "triceps",
+      "subscapular",
+      "abdominal",
+      "suprailiac",
+      "thighSkinfold",
+    ],
+    requiresAge: true,
+    requiresGender: true,
+    minAge: 18,
+    output: "density",
+    compute: (sum, { age, gender }) => {
+      if (age === null) return null;
+      if (gender === "M") {
+        return 1.112 - 0.00043499 * sum + 0.00000055 * sum * sum - 0.00028826 * age;
+      }
+      return 1.097 - 0.00046971 * sum + 0.00000056 * sum * sum - 0.00012828 * age;
+    },
+  },
+  yuhasz: {
+    id: "yuhasz",
+    label: "Yuhasz (6 pliegues)",
+    reference: "Yuhasz, 1974 (modificada por Carter, 1982)",
+    requiredSites: () => ["triceps", "subscapular", "supraspinal", "abdominal", "thighSkinfold", "calfSkinfold"],
+    requiresAge: false,
+    requiresGender: true,
+    output: "percentage",
+    compute: (sum, { gender }) => (gender === "M" ? 0.1051 * sum + 2.585 : 0.1548 * sum + 3.58),
+  },
+  faulkner: {
+    id: "faulkner",
+    label: "Faulkner (4 pliegues)",
+    reference: "Faulkner, 1968",
+    requiredSites: () => ["triceps", "subscapular", "suprailiac", "abdominal"],
+    requiresAge: false,
+    requiresGender: false,
+    output: "percentage",
+    compute: (sum) => 0.153 * sum + 5.783,
+  },
+  withers: {
+    id: "withers",
+    label: "Withers",
+    reference: "Withers et al., 1987",
+    requiredSites: (gender) =>
+      gender === "F"
+        ? ["triceps", "subscapular", "supraspinal", "calfSkinfold"]
+        : ["triceps", "subscapular", "biceps", "supraspinal", "abdominal", "thighSkinfold", "calfSkinfold"],
+    requiresAge: false,
+    requiresGender: true,
+    output: "density",
+    compute: (sum, { gender }) =>
+      gender === "F" ? 1.20953 - 0.08294 * Math.log10(sum) : 1.0988 - 0.0004 * sum,
+  },
+  slaughter: {
+    id: "slaughter",
+    label: "Slaughter (niños prepúberes)",
+    reference: "Slaughter et al., 1988",
+    requiredSites: () => ["triceps", "subscapular"],
+    requiresAge: true,
+    requiresGender: true,
+    // Sin el estadio de Tanner sólo se aplican las constantes prepuberales (varones −1,7)
+    minAge: 8,
+    maxAge: 11,
+    output: "percentage",
+    compute: (sum, { gender }) => {
+      if (gender === "M") {
+        return sum > 35 ? 0.783 * sum + 1.6 : 1.21 * sum - 0.008 * sum * sum - 1.7;
+      }
+      return sum > 35 ? 0.546 * sum + 9.7 : 1.33 * sum - 0.013 * sum * sum - 2.5;
+    },
+  },
+};
+
+// Rango fisiológico aceptado para informar un % de grasa
+const MIN_BODY_FAT = 3;
+const MAX_BODY_FAT = 60;
+
+export function normalizeGender(gender: string | null | undefined): "M" | "F" | null {
+  return gender === "M" || gender === "F" ? gender : null;
+}
+
+export function isBodyFatEquationId(value: unknown): value is BodyFatEquationId {
+  return typeof value === "string" && value in BODY_FAT_EQUATIONS;
+}
+
+/**
+ * Devuelve los pliegues que faltan para aplicar la ecuación, o null si la
+ * ecuación no es aplicable por edad/sexo.
+ */
+export function getMissingSites(
+  equation: BodyFatEquation,
+  skinfolds: SkinfoldValues,
+  context: BodyFatEquationContext
+): SkinfoldSite[] | null {
+  if (equation.requiresGender && !context.gender) return null;
+  if (equation.requiresAge && context.age === null) return null;
+  if (context.age !== null) {
+    if (equation.minAge !== undefined && context.age < equation.minAge) return null;
+    if (equation.maxAge !== undefined && context.age > equation.maxAge) return null;
+  }
+  return equation.requiredSites(context.gender).filter((site) => {
+    const value = skinfolds[site];
+    return value === null || value === undefined || !Number.isFinite(value) || value <= 0;
+  });
+}
+
+export function estimateBodyFat(
+  equationId: BodyFatEquationId,
+  skinfolds: SkinfoldValues,
+  context: BodyFatEquationContext,
+  conversion: DensityConversion = DEFAULT_DENSITY_CONVERSION
+): BodyFatEstimate | null {
+  const equation = BODY_FAT_EQUATIONS[equationId];
+  const missing = getMissingSites(equation, skinfolds, context);
+  if (!missing || missing.length > 0) return null;
+
+  const sites = equation.requiredSites(context.gender);
+  const values = {} as Record<SkinfoldSite, number>;
+  let sum = 0;
+  for (const site of sites) {
+    values[site] = skinfolds[site] as number;
+    sum += values[site];
+  }
+
+  const raw = equation.compute(sum, context, values);
+  if (raw === null || !Number.isFinite(raw)) return null;
+
+  const density = equation.output === "density" ? raw : null;
+  const bodyFatPercentage = density !== null ? DENSITY_CONVERSIONS[conversion].convert(density) : raw;
+  if (bodyFatPercentage < MIN_BODY_FAT || bodyFatPercentage > MAX_BODY_FAT) return null;
+
+  return {
+    equation: equationId,
+    label: equation.label,
+    bodyFatPercentage: parseFloat(bodyFatPercentage.toFixed(2)),
+    density: density !== null ? parseFloat(density.toFixed(5)) : null,
+    conversion: density !== null ? conversion : null,
+    sumOfSkinfolds: parseFloat(sum.toFixed(2)),
+    sites,
+  };
+}
+
+/** Evalúa todas las ecuaciones cuyos pliegues y datos del paciente están disponibles. */
+export function estimateAllBodyFat(
+  skinfolds: SkinfoldValues,
+  context: BodyFatEquationContext,
+  conversion: DensityConversion = DEFAULT_DENSITY_CONVERSION
+): BodyFatEstimate[] {
+  return (Object.keys(BODY_FAT_EQUATIONS) as BodyFatEquationId[])
+    .map((id) => estimateBodyFat(id, skinfolds, context, conversion))
+    .filter((estimate): estimate is BodyFatEstimate => estimate !== null);
+}
@@ -0,0 +1,289 @@
+/**
+ * Registro de ecuaciones de metabolismo basal (TMB) y modelos de gasto
+ * energético total (GET). El modelo "multiplier" aplica un factor de actividad
+ * a la TMB; el "factorial" suma a la TMB el gasto de cada sesión semanal de
+ * entrenamiento según su MET y duración.
+ */
+
+export type BmrEquationId =
+  | "harris_benedict"
+  | "mifflin_st_jeor"
+  | "katch_mcardle"
+  | "cunningham"
+  | "fao_who_unu"
+  | "schofield";
+
+export type EnergyModel = "multiplier" | "factorial";
+
+export const DEFAULT_BMR_EQUATION: BmrEquationId = "katch_mcardle";
+export const DEFAULT_ENERGY_MODEL: EnergyModel = "multiplier";
+// Si la ecuación elegida no es aplicable (p. ej. sin masa magra) se usa Mifflin-St Jeor
+export const FALLBACK_BMR_EQUATION: BmrEquationId = "mifflin_st_jeor";
+
+export interface BmrContext {
+  weight: number | null;
+  height: number | null;
+  age: number | null;
+  gender: "M" | "F" | null;
+  leanMass: number | null;
+}
+
+export interface BmrEquation {
+  id: BmrEquationId;
+  label: string;
+  reference: string;
+  /** Fórmula legible, para el informe y el desglose de cálculos. */
+  formula: string;
+  requiresLeanMass: boolean;
+  requiresHeight: boolean;
+  requiresAge: boolean;
+  requiresGender: boolean;
+  compute: (context: BmrContext) => number | null;
+}
+
+interface AgeBandCoefficients {
+  maxAge: number;
+  slope: number;
+  intercept: number;
+}
+
+// kcal/día = slope × peso + intercept, por sexo y franja de edad
+const FAO_WHO_UNU_COEFFICIENTS: Record<"M" | "F", AgeBandCoefficients[]> = {
+  M: [
+    { maxAge: 3, slope: 60.9, intercept: -54 },
+    { maxAge: 10, slope: 22.7, intercept: 495 },
+    { maxAge: 18, slope: 17.5, intercept: 651 },
+    { maxAge: 30, slope: 15.3, intercept: 679 },
+    { maxAge: 60, slope: 11.6, intercept: 879 },
+    { maxAge: Infinity, slope: 13.5, intercept: 487 },
+  ],
+  F: [
+    { maxAge: 3, slope: 61.0, intercept: -51 },
+    { maxAge: 10, slope: 22.5, intercept: 499 },
+    { maxAge: 18, slope: 12.2, intercept: 746 },
+    { maxAge: 30, slope: 14.7, intercept: 496 },
+    { maxAge: 60, slope: 8.7, intercept: 829 },
+    { maxAge: Infinity, slope: 10.5, intercept: 596 },
+  ],
+};
+
+const SCHOFIELD_COEFFICIENTS: Record<"M" | "F", AgeBandCoefficients[]> = {
+  M: [
+    { maxAge: 3, slope: 59.512, intercept: -30.4 },
+    { maxAge: 10, slope: 22.706, intercept: 504.3 },
+    { maxAge: 18, slope: 17.686, intercept: 658.2 },
+    { maxAge: 30, slope: 15.057, intercept: 692.2 },
+    { maxAge: 60, slope: 11.472, intercept: 873.1 },
+    { maxAge: Infinity, slope: 11.711, intercept: 587.7 },
+  ],
+  F: [
+    { maxAge: 3, slope: 58.317, intercept: -31.1 },
+    { maxAge: 10, slope: 20.315, intercept: 485.9 },
+    { maxAge: 18, slope: 13.384, intercept: 692.6 },
+    { maxAge: 30, slope: 14.818, intercept: 486.6 },
+    { maxAge: 60, slope: 8.126, intercept: 845.6 },
+    { maxAge: Infinity, slope: 9.082, intercept: 658.5 },
+  ],
+};
+
+function computeByAgeBand(table: Record<"M" | "F", AgeBandCoefficients[]>, { weight, age, gender }: BmrContext) {
+  if (!weight || age === null || !gender) return null;
+  const band = table[gender].find((entry) => age < entry.maxAge) ?? table[gender][table[gender].length - 1];
+  return band.slope * weight + band.intercept;
+}
+
+export const BMR_EQUATIONS: Record<BmrEquationId, BmrEquation> = {
+  harris_benedict: {
+    id: "harris_benedict",
+    label: "Harris-Benedict (revisada)",
+    reference: "Roza & Shizgal, 1984",
+    formula: "V: 88.362 + 13.397·peso + 4.799·talla − 5.677·edad; M: 447.593 + 9.247·peso + 3.098·talla − 4.330·edad",
+    requiresLeanMass: false,
+    requiresHeight: true,
+    requiresAge: true,
+    requiresGender: true,
+    compute: ({ weight, height, age, gender }) => {
+      if (!weight || !height || age === null || !gender) return null;
+      return gender === "M"
+        ? 88.362 + 13.397 * weight + 4.799 * height - 5.677 * age
+        : 447.593 + 9.247 * weight + 3.098 * height - 4.33 * age;
+    },
+  },
+  mifflin_st_jeor: {
+    id: "mifflin_st_jeor",
+    label: "Mifflin-St Jeor",
+    reference: "Mifflin et al., 1990",
+    formula: "10·peso + 6.25·talla − 5·edad + s (s = +5 varones, −161 mujeres)",
+    requiresLeanMass: false,
+    requiresHeight: true,
+    requiresAge: true,
+    requiresGender: false,
+    compute: ({ weight, height, age, gender }) => {
+      if (!weight || !height || age === null || age < 0) return null;
+      const s = gender === "F" ? -161 : gender === "M" ? 5 : -78; // Valor neutro sin sexo informado
+      return 10 * weight + 6.25 * height - 5 * age + s;
+    },
+  },
+  katch_mcardle: {
+    id: "katch_mcardle",
+    label: "Katch-McArdle",
+    reference: "Katch & McArdle, 1975",
+    formula: "370 + 21.6·masa magra",
+    requiresLeanMass: true,
+    requiresHeight: false,
+    requiresAge: false,
+    requiresGender: false,
+    compute: ({ leanMass }) => (leanMass && leanMass > 0 ? 370 + 21.6 * leanMass : null),
+  },
+  cunningham: {
+    id: "cunningham",
+    label: "Cunningham",
+    reference: "Cunningham, 1980",
+    formula: "500 + 22·masa magra",
+    requiresLeanMass: true,
+    requiresHeight: false,
+    requiresAge: false,
+    requiresGender: false,
+    compute: ({ leanMass }) => (leanMass && leanMass > 0 ? 500 + 22 * leanMass : null),
+  },
+  fao_who_unu: {
+    id: "fao_who_unu",
+    label: "FAO/OMS/UNU",
+    reference: "FAO/WHO/UNU, 1985",
+    formula: "a·peso + b, con a y b según sexo y franja de edad",
+    requiresLeanMass: false,
+    requiresHeight: false,
+    requiresAge: true,
+    requiresGender: true,
+    compute: (context) => computeByAgeBand(FAO_WHO_UNU_COEFFICIENTS, context),
+  },
+  schofield: {
+    id: "schofield",
+    label: "Schofield",
+    reference: "Schofield, 1985",
+    formula: "a·peso + b, con a y b según sexo y franja de edad",
+    requiresLeanMass: false,
+    requiresHeight: false,
+    requiresAge: true,
+    requiresGender: true,
+    compute: (context) => computeByAgeBand(SCHOFIELD_COEFFICIENTS, context),
+  },
+};
+
+export const ENERGY_MODELS: Record<EnergyModel, { label: string; description: string }> = {
+  multiplier: {
+    label: "Factor de actividad",
+    description: "TMB × factor según días de entrenamiento declarados",
+  },
+  factorial: {
+    label: "Factorial (MET)",
+    description: "TMB × factor de vida cotidiana + gasto de cada sesión semanal (MET × peso × horas)",
+  },
+};
+
+export function isBmrEquationId(value: unknown): value is BmrEquationId {
+  return typeof value === "string" && value in BMR_EQUATIONS;
+}
+
+export function isEnergyModel(value: unknown): value is EnergyModel {
+  return typeof value === "string" && value in ENERGY_MODELS;
+}
+
+export interface BmrEstimate {
+  equation: BmrEquationId;
+  label: string;
+  value: number;
+  /** Ecuación pedida que no fue aplicable, cuando se usó la de respaldo. */
+  fallbackFrom: BmrEquationId | null;
+}
+
+/** Aplica la ecuación elegida y, si no es aplicable, la de respaldo. */
+export function estimateBmr(preferred: BmrEquationId, context: BmrContext): BmrEstimate | null {
+  const candidates = preferred === FALLBACK_BMR_EQUATION ? [preferred] : [preferred, FALLBACK_BMR_EQUATION];
+  for (const id of candidates) {
+    const value = BMR_EQUATIONS[id].compute(context);
+    if (value !== null && Number.isFinite(value) && value > 0) {
+      return {
+        equation: id,
+        label: BMR_EQUATIONS[id].label,
+        value,
+        fallbackFrom: id === preferred ? null : preferred,
+      };
+    }
+  }
+  return null;
+}
+
+// Valores del Compendio de Actividades Físicas (Ainsworth et al., 2011)
+export const MET_PRESETS: { id: string; label: string; met: number }[] = [
+  { id: "walking", label: "Caminata rápida", met: 4.3 },
+  { id: "running", label: "Correr (~10 km/h)", met: 9.8 },
+  { id: "cycling", label: "Ciclismo moderado", met: 8.0 },
+  { id: "swimming", label: "Natación moderada", met: 7.0 },
+  { id: "strength", label: "Musculación", met: 5.0 },
+  { id: "strength_vigorous", label: "Musculación intensa", met: 6.0 },
+  { id: "hiit", label: "Funcional / HIIT", met: 8.0 },
+  { id: "football", label: "Fútbol", met: 7.0 },
+  { id: "basketball", label: "Básquet", met: 6.5 },
+  { id: "tennis", label: "Tenis", met: 7.3 },
+  { id: "rowing", label: "Remo", met: 7.0 },
+  { id: "dance", label: "Danza", met: 5.0 },
+  { id: "yoga", label: "Yoga / Pilates", met: 2.5 },
+];
+
+export interface EnergySession {
+  sport: string;
+  weekday?: number;
+  met: number;
+  durationMinutes: number;
+}
+
+// Gasto de la vida cotidiana sin entrenamiento (mismo punto de partida que el factor sedentario)
+export const FACTORIAL_BASELINE_FACTOR = 1.2;
+
+export interface FactorialSessionEnergy extends EnergySession {
+  kcal: number;
+}
+
+export interface FactorialEnergyBreakdown {
+  baselineFactor: number;
+  baselineCalories: number;
+  sessions: FactorialSessionEnergy[];
+  weeklyExerciseCalories: number;
+  dailyExerciseCalories: number;
+  totalEnergyExpenditure: number;
+  /** GET / TMB: factor de actividad equivalente. */
+  effectiveMultiplier: number;
+}
+
+/**
+ * GET factorial: TMB × factor basal + promedio diario del gasto neto de las
+ * sesiones semanales. El gasto neto descuenta 1 MET porque el reposo ya está
+ * contenido en la TMB (1 MET ≈ 1 kcal/kg/h).
+ */
+export function calculateFactorialEnergy(
+  bmr: number,
+  weight: number,
+  sessions: EnergySession[],
+): FactorialEnergyBreakdown {
+  const sessionEnergy = sessions
+    .filter((session) => session.met > 0 && session.durationMinutes > 0)
+    .map((session) => ({
+      ...session,
+      kcal: Math.round(Math.max(0, session.met - 1) * weight * (session.durationMinutes / 60)),
+    }));
+  const weeklyExerciseCalories = sessionEnergy.reduce((total, session) => total + session.kcal, 0);
+  const dailyExerciseCalories = weeklyExerciseCalories / 7;
+  const baselineCalories = bmr * FACTORIAL_BASELINE_FACTOR;
+  const totalEnergyExpenditure = baselineCalories + dailyExerciseCalories;
+
+  return {
+    baselineFactor: FACTORIAL_BASELINE_FACTOR,
+    baselineCalories: Math.round(baselineCalories),
+    sessions: sessionEnergy,
+    weeklyExerciseCalories,
+    dailyExerciseCalories: Math.round(dailyExerciseCalories),
+    totalEnergyExpenditure: Math.round(totalEnergyExpenditure),
+    effectiveMultiplier: parseFloat((totalEnergyExpenditure / bmr).toFixed(3)),
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Seguimiento de pacientes: cada cuántos días corresponde un control (propio
+ * del paciente, de sus grupos o según el objetivo), cuándo vence y el mensaje
+ * de contacto armado con la plantilla de WhatsApp de la configuración.
+ */
+
+import type { Patient, PatientGroup } from "./schema";
+
+export const MIN_FOLLOW_UP_CADENCE_DAYS = 7;
+export const MAX_FOLLOW_UP_CADENCE_DAYS = 365;
+
+// Los descensos de peso se controlan más seguido que el mantenimiento
+export const FOLLOW_UP_CADENCE_BY_OBJECTIVE = {
+  loss: 28,
+  gain: 42,
+  maintain: 56,
+} as const;
+
+/** Días antes del vencimiento en que el paciente ya aparece para contactar. */
+export const FOLLOW_UP_UPCOMING_DAYS = 7;
+
+/** Días que un paciente contactado sale de la lista antes de volver a aparecer si no vino. */
+export const FOLLOW_UP_CONTACT_SNOOZE_DAYS = 7;
+
+export type FollowUpObjective = keyof typeof FOLLOW_UP_CADENCE_BY_OBJECTIVE;
+export type FollowUpCadenceSource = "patient" | "group" | "objective";
+export type FollowUpStatus = "overdue" | "upcoming";
+
+export interface FollowUpCadence {
+  days: number;
+  source: FollowUpCadenceSource;
+}
+
+export interface FollowUpReminder {
+  patientId: string;
+  patientName: string;
+  phone: string | null;
+  objective: string | null;
+  cadenceDays: number;
+  cadenceSource: FollowUpCadenceSource;
+  /** Última medición o consulta (null = nunca vino; se cuenta desde el alta). */
+  lastVisitAt: string | null;
+  dueAt: string;
+  /** Positivo: días de atraso; negativo: días que faltan. */
+  daysOverdue: number;
+  status: FollowUpStatus;
+  lastContactedAt: string | null;
+  /** Ya se lo contactó en este vencimiento y todavía no pasó FOLLOW_UP_CONTACT_SNOOZE_DAYS. */
+  contacted: boolean;
+}
+
+export interface FollowUpReminderList {
+  computedAt: string;
+  reminders: FollowUpReminder[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function normalizeFollowUpObjective(objective: string | null | undefined): FollowUpObjective {
+  const normalized = (objective ?? "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+  if (normalized.includes("loss") || normalized.includes("perd") || normalized.includes("baj") || normalized.includes("defin")) {
+    return "loss";
+  }
+  if (normalized.includes("gain") || normalized.includes("gan") || normalized.includes("aument") || normalized.includes("hipert")) {
+    return "gain";
+  }
+  return "maintain";
+}
+
+/** La del paciente; si no, la más corta de sus grupos; si no, la de su objetivo. */
+export function resolveFollowUpCadence(
+  patient: Pick<Patient, "followUpCadenceDays" | "objective">,
+  groups: Pick<PatientGroup, "followUpCadenceDays">[] = [],
+): FollowUpCadence {
+  if (patient.followUpCadenceDays) {
+    return { days: patient.followUpCadenceDays, source: "patient" };
+  }
+  const groupCadences = groups
+    .map((group) => group.followUpCadenceDays)
+    .filter((days): days is number => typeof days === "number" && days > 0);
+  if (groupCadences.length > 0) {
+    return { days: Math.min(...groupCadences), source: "group" };
+  }
+  return { days: FOLLOW_UP_CADENCE_BY_OBJECTIVE[normalizeFollowUpObjective(patient.objective)], source: "objective" };
+}
+
+export function getFollowUpCadenceSourceLabel(source: FollowUpCadenceSource): string {
+  switch (source) {
+    case "patient":
+      return "del paciente";
+    case "group":
+      return "del grupo";
+    default:
+      return "según objetivo";
+  }
+}
+
+/**
+ * Estado del control a `now`. Devuelve null si todavía falta más de
+ * FOLLOW_UP_UPCOMING_DAYS para el vencimiento.
+ */
+export function getFollowUpStatus(
+  dueAt: Date,
+  now: Date = new Date(),
+): { status: FollowUpStatus; daysOverdue: number } | null {
+  const daysOverdue = Math.floor((now.getTime() - dueAt.getTime()) / DAY_MS);
+  if (daysOverdue >= 0) return { status: "overdue", daysOverdue };
+  if (-daysOverdue <= FOLLOW_UP_UPCOMING_DAYS) return { status: "upcoming", daysOverdue };
+  return null;
+}
+
+export function addFollowUpDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Completa la plantilla con el primer nombre del paciente. Acepta
+ * `{{nombre}}` y el `[Paciente]` que sugiere el campo de configuración.
+ */
+export function renderFollowUpMessage(template: string | null | undefined, patientName: string): string {
+  const firstName = patientName.trim().split(/\s+/)[0] ?? "";
+  const text = template?.trim() || "Hola {{nombre}}! ¿Cómo venís con el plan?";
+  return text.replace(/\{\{\s*nombre\s*\}\}/gi, firstName).replace(/\[Paciente\]/gi, firstName);
+}
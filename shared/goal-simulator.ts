@@ -0,0 +1,273 @@
+/**
+ * Simulador de objetivos de composición corporal: a partir del estado actual
+ * (calculateAll sobre la última medición) calcula el peso objetivo para un
+ * % de grasa o una masa muscular meta, el balance energético diario para
+ * llegar al ritmo elegido y la fecha que proyecta la tendencia real del
+ * paciente (regresión lineal sobre las mediciones anteriores).
+ */
+
+export type GoalTargetType = "bodyFat" | "muscleMass";
+
+export const GOAL_TARGET_TYPES: Record<GoalTargetType, { label: string; unit: string }> = {
+  bodyFat: { label: "% de grasa corporal", unit: "%" },
+  muscleMass: { label: "Masa muscular (Kerr)", unit: "kg" },
+};
+
+// Contenido energético por kg de tejido (Hall, 2008): el tejido adiposo se
+// redondea a 7700 kcal/kg; el magro no incluye el costo de síntesis proteica.
+export const FAT_TISSUE_KCAL_PER_KG = 7700;
+export const LEAN_TISSUE_KCAL_PER_KG = 1800;
+
+// Ritmo semanal sugerido, en % del peso corporal
+export const DEFAULT_WEEKLY_RATE_PERCENT = { loss: 0.5, gain: 0.25 } as const;
+const MIN_TREND_SPAN_DAYS = 14;
+const MAX_PROJECTION_DAYS = 730;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GoalTarget {
+  type: GoalTargetType;
+  value: number;
+}
+
+export interface GoalCurrentState {
+  date: string; // ISO
+  weight: number;
+  bodyFatPercentage: number | null;
+  leanMass: number | null;
+  muscleMassKg: number | null;
+  maintenanceCalories: number | null;
+}
+
+export interface GoalHistoryPoint {
+  date: string; // ISO
+  weight: number | null;
+  bodyFatPercentage: number | null;
+  muscleMassKg: number | null;
+}
+
+export interface LinearTrend {
+  /** Cambio por día del indicador. */
+  slopePerDay: number;
+  intercept: number;
+  originTime: number;
+  rSquared: number | null;
+  points: number;
+  spanDays: number;
+}
+
+export type TrendStatus = "on_track" | "reached" | "away" | "too_slow" | "insufficient_data";
+
+export const TREND_STATUS_LABELS: Record<TrendStatus, string> = {
+  on_track: "La tendencia actual llega al objetivo",
+  reached: "El objetivo ya está alcanzado",
+  away: "La tendencia actual se aleja del objetivo",
+  too_slow: "Al ritmo actual tardaría más de 2 años",
+  insufficient_data: "Faltan mediciones para calcular la tendencia",
+};
+
+export interface GoalCurvePoint {
+  date: string; // aaaa-mm-dd
+  actual: number | null;
+  trend: number | null;
+  plan: number | null;
+}
+
+export interface GoalSimulation {
+  target: GoalTarget;
+  current: GoalCurrentState;
+  currentValue: number | null;
+  targetWeight: number | null;
+  weightChangeKg: number | null;
+  direction: "loss" | "gain" | "none";
+  energyPerKg: number;
+  totalEnergyKcal: number | null;
+  weeklyRatePercent: number;
+  weeklyRateKg: number | null;
+  /** Negativo = déficit, positivo = superávit (kcal/día). */
+  dailyEnergyBalance: number | null;
+  targetCalories: number | null;
+  plannedWeeks: number | null;
+  plannedDate: string | null;
+  trend: (LinearTrend & { slopePerWeek: number }) | null;
+  trendStatus: TrendStatus;
+  projectedDate: string | null;
+  curve: GoalCurvePoint[];
+  warnings: string[];
+}
+
+export interface GoalSimulationInput {
+  current: GoalCurrentState;
+  history: GoalHistoryPoint[];
+  target: GoalTarget;
+  weeklyRatePercent?: number | null;
+}
+
+const round = (value: number, digits = 1) => parseFloat(value.toFixed(digits));
+const toDateKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/** Regresión por mínimos cuadrados del indicador contra el tiempo. */
+export function fitLinearTrend(points: { time: number; value: number }[]): LinearTrend | null {
+  if (points.length < 2) return null;
+  const originTime = Math.min(...points.map((point) => point.time));
+  const xs = points.map((point) => (point.time - originTime) / DAY_MS);
+  const ys = points.map((point) => point.value);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const sxy = xs.reduce((sum, x, index) => sum + (x - meanX) * (ys[index] - meanY), 0);
+  const slopePerDay = sxy / sxx;
+  const intercept = meanY - slopePerDay * meanX;
+  const ssTot = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+  const ssRes = ys.reduce((sum, y, index) => sum + (y - (intercept + slopePerDay * xs[index])) ** 2, 0);
+  return {
+    slopePerDay,
+    intercept,
+    originTime,
+    rSquared: ssTot > 0 ? round(1 - ssRes / ssTot, 3) : null,
+    points: points.length,
+    spanDays: Math.round(Math.max(...xs)),
+  };
+}
+
+const trendValueAt = (trend: LinearTrend, time: number) => trend.intercept + trend.slopePerDay * ((time - trend.originTime) / DAY_MS);
+
+function getMetric(point: { bodyFatPercentage: number | null; muscleMassKg: number | null }, type: GoalTargetType) {
+  return type === "bodyFat" ? point.bodyFatPercentage : point.muscleMassKg;
+}
+
+export function simulateGoal({ current, history, target, weeklyRatePercent }: GoalSimulationInput): GoalSimulation {
+  const warnings: string[] = [];
+  const currentValue = getMetric(current, target.type);
+  let targetWeight: number | null = null;
+
+  if (target.type === "bodyFat") {
+    if (current.leanMass === null) {
+      warnings.push("La medición actual no tiene masa magra: faltan los pliegues para estimar el % de grasa.");
+    } else if (target.value <= 0 || target.value >= 100) {
+      warnings.push("El % de grasa objetivo debe estar entre 0 y 100.");
+    } else {
+      // Masa magra constante: peso = masa magra / (1 − %grasa)
+      targetWeight = current.leanMass / (1 - target.value / 100);
+    }
+  } else if (current.muscleMassKg === null) {
+    warnings.push("La medición actual no tiene fraccionamiento de Kerr: faltan perímetros, pliegues o diámetros.");
+  } else {
+    // Masa grasa constante: el peso cambia lo mismo que la masa muscular
+    targetWeight = current.weight + (target.value - current.muscleMassKg);
+  }
+
+  const weightChangeKg = targetWeight !== null ? round(targetWeight - current.weight, 2) : null;
+  const direction = weightChangeKg === null || Math.abs(weightChangeKg) < 0.05 ? "none" : weightChangeKg < 0 ? "loss" : "gain";
+  const energyPerKg = target.type === "bodyFat" ? FAT_TISSUE_KCAL_PER_KG : LEAN_TISSUE_KCAL_PER_KG;
+  const ratePercent = weeklyRatePercent && weeklyRatePercent > 0
+    ? weeklyRatePercent
+    : DEFAULT_WEEKLY_RATE_PERCENT[direction === "loss" ? "loss" : "gain"];
+  const weeklyRateKg = direction === "none" ? null : round((current.weight * ratePercent) / 100, 2);
+  const sign = direction === "loss" ? -1 : 1;
+  // Sin peso objetivo (faltan datos) no hay balance ni plazo; con objetivo ya alcanzado, ambos son 0
+  const dailyEnergyBalance = weightChangeKg === null ? null : weeklyRateKg !== null ? Math.round((sign * weeklyRateKg * energyPerKg) / 7) : 0;
+  const plannedWeeks = weightChangeKg === null ? null : weeklyRateKg ? round(Math.abs(weightChangeKg) / weeklyRateKg, 1) : 0;
+  const currentTime = new Date(current.date).getTime();
+  const plannedTime = plannedWeeks !== null ? currentTime + plannedWeeks * 7 * DAY_MS : null;
+
+  if (direction === "loss" && ratePercent > 1) {
+    warnings.push("Un descenso mayor al 1 % del peso por semana aumenta la pérdida de masa magra.");
+  }
+  if (target.type === "muscleMass" && direction === "gain") {
+    warnings.push("El superávit sólo cubre la energía del tejido magro; la síntesis proteica y el entrenamiento suman un costo adicional.");
+  }
+
+  // Tendencia real del indicador
+  const trendPoints = history
+    .map((point) => ({ time: new Date(point.date).getTime(), value: getMetric(point, target.type) }))
+    .filter((point): point is { time: number; value: number } => point.value !== null && Number.isFinite(point.time))
+    .sort((a, b) => a.time - b.time);
+  const fitted = fitLinearTrend(trendPoints);
+  const trend = fitted && fitted.spanDays >= MIN_TREND_SPAN_DAYS ? fitted : null;
+  let trendStatus: TrendStatus = "insufficient_data";
+  let projectedTime: number | null = null;
+
+  if (currentValue !== null && Math.abs(currentValue - target.value) < 0.1) {
+    trendStatus = "reached";
+  } else if (trend && currentValue !== null) {
+    const remaining = target.value - currentValue;
+    if (trend.slopePerDay === 0 || Math.sign(trend.slopePerDay) !== Math.sign(remaining)) {
+      trendStatus = "away";
+    } else {
+      const days = remaining / trend.slopePerDay;
+      if (days > MAX_PROJECTION_DAYS) {
+        trendStatus = "too_slow";
+      } else {
+        trendStatus = "on_track";
+        projectedTime = currentTime + days * DAY_MS;
+      }
+    }
+  }
+
+  // Curva: mediciones reales, recta de tendencia y plan al ritmo elegido
+  const curve: GoalCurvePoint[] = trendPoints.map((point) => ({
+    date: toDateKey(point.time),
+    actual: round(point.value, 2),
+    trend: trend ? round(trendValueAt(trend, point.time), 2) : null,
+    plan: null,
+  }));
+  const lastActual = curve[curve.length - 1];
+  if (lastActual && toDateKey(currentTime) === lastActual.date) {
+    lastActual.plan = currentValue !== null ? round(currentValue, 2) : null;
+  }
+
+  const horizonTime = Math.min(
+    currentTime + MAX_PROJECTION_DAYS * DAY_MS,
+    Math.max(plannedTime ?? currentTime, projectedTime ?? currentTime, currentTime + 8 * 7 * DAY_MS),
+  );
+  const stepDays = Math.max(7, Math.ceil((horizonTime - currentTime) / DAY_MS / 16));
+  const planValueAt = (time: number): number | null => {
+    if (currentValue === null || targetWeight === null || plannedTime === null) return null;
+    const progress = plannedTime > currentTime ? Math.min(1, (time - currentTime) / (plannedTime - currentTime)) : 1;
+    if (target.type === "muscleMass") return currentValue + (target.value - currentValue) * progress;
+    // % de grasa con masa magra constante a medida que baja (o sube) el peso
+    const weight = current.weight + (targetWeight - current.weight) * progress;
+    return ((weight - (current.leanMass ?? 0)) / weight) * 100;
+  };
+  const futureTimes: number[] = [];
+  for (let time = currentTime + stepDays * DAY_MS; time < horizonTime; time += stepDays * DAY_MS) {
+    futureTimes.push(time);
+  }
+  futureTimes.push(horizonTime);
+  for (const time of futureTimes) {
+    const trendValue = trend ? trendValueAt(trend, time) : null;
+    const plan = planValueAt(time);
+    curve.push({
+      date: toDateKey(time),
+      actual: null,
+      trend: trendValue !== null && (projectedTime === null || time <= projectedTime) ? round(trendValue, 2) : null,
+      plan: plan !== null ? round(plan, 2) : null,
+    });
+  }
+
+  return {
+    target,
+    current,
+    currentValue,
+    targetWeight: targetWeight !== null ? round(targetWeight, 1) : null,
+    weightChangeKg,
+    direction,
+    energyPerKg,
+    totalEnergyKcal: weightChangeKg !== null ? Math.round(Math.abs(weightChangeKg) * energyPerKg) : null,
+    weeklyRatePercent: ratePercent,
+    weeklyRateKg,
+    dailyEnergyBalance,
+    targetCalories:
+      current.maintenanceCalories !== null && dailyEnergyBalance !== null
+        ? Math.round(current.maintenanceCalories + dailyEnergyBalance)
+        : null,
+    plannedWeeks,
+    plannedDate: plannedTime !== null ? toDateKey(plannedTime) : null,
+    trend: trend ? { ...trend, slopePerWeek: round(trend.slopePerDay * 7, 3) } : null,
+    trendStatus,
+    projectedDate: projectedTime !== null ? toDateKey(projectedTime) : null,
+    curve,
+    warnings,
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Referencias de crecimiento de la OMS para pacientes menores de 19 años.
+ * - 2 a 5 años: Patrones de Crecimiento Infantil OMS 2006.
+ * - 5 a 19 años: Referencia de Crecimiento OMS 2007 (peso para la edad sólo hasta 10 años).
+ * Las tablas LMS son las mensuales publicadas (who-growth-lms.ts); sólo una
+ * edad fraccionaria se interpola entre meses. El Score-Z se calcula con el
+ * método LMS de Cole y el percentil con la distribución normal estándar.
+ */
+
+import { getBMIClassification } from "./isak-calculations";
+import { normalizeGender } from "./body-fat-equations";
+import { WHO_LMS_ROWS } from "./who-growth-lms";
+
+export type GrowthIndicator = "weightForAge" | "heightForAge" | "bmiForAge";
+export type GrowthSex = "M" | "F";
+export type GrowthReferenceId = "who-2006" | "who-2007";
+
+export interface LmsPoint {
+  month: number;
+  L: number;
+  M: number;
+  S: number;
+}
+
+export const GROWTH_MIN_AGE_MONTHS = 24;
+export const GROWTH_MAX_AGE_MONTHS = 228; // 19 años
+const WHO_2007_START_MONTHS = 61;
+
+export const GROWTH_INDICATORS: Record<GrowthIndicator, { label: string; unit: string; maxAgeMonths: number }> = {
+  weightForAge: { label: "Peso para la edad", unit: "kg", maxAgeMonths: 120 },
+  heightForAge: { label: "Talla para la edad", unit: "cm", maxAgeMonths: GROWTH_MAX_AGE_MONTHS },
+  bmiForAge: { label: "IMC para la edad", unit: "kg/m²", maxAgeMonths: GROWTH_MAX_AGE_MONTHS },
+};
+
+const WHO_LMS = Object.fromEntries(
+  Object.entries(WHO_LMS_ROWS).map(([indicator, bySex]) => [
+    indicator,
+    {
+      M: bySex.M.map(([month, L, M, S]) => ({ month, L, M, S })),
+      F: bySex.F.map(([month, L, M, S]) => ({ month, L, M, S })),
+    },
+  ]),
+) as Record<GrowthIndicator, Record<GrowthSex, LmsPoint[]>>;
+
+const AVERAGE_DAYS_PER_MONTH = 30.4375;
+
+/** Edad en meses (con decimales) a una fecha dada; null si falta la fecha de nacimiento. */
+export function getAgeInMonths(
+  birthDate: Date | string | null | undefined,
+  at: Date | string | null | undefined = new Date(),
+): number | null {
+  if (!birthDate) return null;
+  const birth = new Date(birthDate);
+  const reference = at ? new Date(at) : new Date();
+  if (Number.isNaN(birth.getTime()) || Number.isNaN(reference.getTime())) return null;
+  const days = (reference.getTime() - birth.getTime()) / (1000 * 60 * 60 * 24);
+  return days >= 0 ? days / AVERAGE_DAYS_PER_MONTH : null;
+}
+
+/** Menores de 19 años dentro del rango cubierto por las tablas OMS. */
+export function isPediatricAge(ageMonths: number | null | undefined): ageMonths is number {
+  return (
+    ageMonths !== null &&
+    ageMonths !== undefined &&
+    ageMonths >= GROWTH_MIN_AGE_MONTHS &&
+    ageMonths < GROWTH_MAX_AGE_MONTHS
+  );
+}
+
+export function getGrowthReferenceId(ageMonths: number): GrowthReferenceId {
+  return ageMonths < WHO_2007_START_MONTHS ? "who-2006" : "who-2007";
+}
+
+/** Parámetros LMS interpolados para la edad; null fuera del rango del indicador. */
+export function getLms(indicator: GrowthIndicator, sex: GrowthSex, ageMonths: number): LmsPoint | null {
+  if (ageMonths < GROWTH_MIN_AGE_MONTHS || ageMonths > GROWTH_INDICATORS[indicator].maxAgeMonths) {
+    return null;
+  }
+  const table = WHO_LMS[indicator][sex];
+  const upperIndex = table.findIndex((point) => point.month >= ageMonths);
+  if (upperIndex <= 0) return upperIndex === 0 ? table[0] : null;
+  const lower = table[upperIndex - 1];
+  const upper = table[upperIndex];
+  const t = (ageMonths - lower.month) / (upper.month - lower.month);
+  const mix = (a: number, b: number) => a + (b - a) * t;
+  return { month: ageMonths, L: mix(lower.L, upper.L), M: mix(lower.M, upper.M), S: mix(lower.S, upper.S) };
+}
+
+/** Valor del indicador correspondiente a un Score-Z. */
+export function valueAtZScore({ L, M, S }: LmsPoint, z: number): number {
+  return L === 0 ? M * Math.exp(S * z) : M * Math.pow(1 + L * S * z, 1 / L);
+}
+
+/**
+ * Score-Z LMS. Para peso e IMC la OMS restringe la cola más allá de ±3 SD
+ * usando la distancia entre las curvas de 2 y 3 SD, ya que el sesgo de la
+ * distribución exagera los valores extremos.
+ */
+export function calculateLmsZScore(value: number, point: LmsPoint, restrictTails = false): number {
+  const { L, M, S } = point;
+  const z = L === 0 ? Math.log(value / M) / S : (Math.pow(value / M, L) - 1) / (L * S);
+  if (!restrictTails || Math.abs(z) <= 3) return z;
+
+  if (z > 3) {
+    const sd3 = valueAtZScore(point, 3);
+    const sd23 = sd3 - valueAtZScore(point, 2);
+    return 3 + (value - sd3) / sd23;
+  }
+  const sd3 = valueAtZScore(point, -3);
+  const sd23 = valueAtZScore(point, -2) - sd3;
+  return -3 + (value - sd3) / sd23;
+}
+
+/** Percentil (0-100) de un Score-Z según la normal estándar. */
+export function zScoreToPercentile(z: number): number {
+  // Aproximación de Abramowitz y Stegun 7.1.26 para erf (error < 1.5e-7)
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  const cdf = z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  return cdf * 100;
+}
+
+/** Clasificación OMS del IMC para la edad (puntos de corte distintos antes y después de los 5 años). */
+export function classifyBMIForAge(z: number, ageMonths: number): string {
+  if (ageMonths < WHO_2007_START_MONTHS) {
+    if (z > 3) return "Obesidad";
+    if (z > 2) return "Sobrepeso";
+    if (z > 1) return "Riesgo de sobrepeso";
+    if (z < -3) return "Emaciación severa";
+    if (z < -2) return "Emaciación";
+    return "Normal";
+  }
+  if (z > 2) return "Obesidad";
+  if (z > 1) return "Sobrepeso";
+  if (z < -3) return "Delgadez severa";
+  if (z < -2) return "Delgadez";
+  return "Normal";
+}
+
+export function classifyHeightForAge(z: number): string {
+  if (z < -3) return "Talla baja severa";
+  if (z < -2) return "Talla baja";
+  if (z > 3) return "Talla muy alta";
+  return "Normal";
+}
+
+export function classifyWeightForAge(z: number): string {
+  if (z < -3) return "Bajo peso severo";
+  if (z < -2) return "Bajo peso";
+  if (z > 1) return "Evaluar con IMC para la edad";
+  return "Normal";
+}
+
+export interface GrowthAssessment {
+  indicator: GrowthIndicator;
+  reference: GrowthReferenceId;
+  ageMonths: number;
+  value: number;
+  zScore: number;
+  percentile: number;
+  classification: string;
+}
+
+/** Score-Z, percentil y clasificación de un indicador; null si no aplica por edad o sexo. */
+export function assessGrowth(
+  indicator: GrowthIndicator,
+  value: number | null | undefined,
+  gender: string | null | undefined,
+  ageMonths: number | null | undefined,
+): GrowthAssessment | null {
+  const sex = normalizeGender(gender ?? null);
+  if (value === null || value === undefined || !Number.isFinite(value) || value <= 0) return null;
+  if (!sex || !isPediatricAge(ageMonths)) return null;
+  const point = getLms(indicator, sex, ageMonths);
+  if (!point) return null;
+
+  const zScore = calculateLmsZScore(value, point, indicator !== "heightForAge");
+  const classification =
+    indicator === "bmiForAge"
+      ? classifyBMIForAge(zScore, ageMonths)
+      : indicator === "heightForAge"
+        ? classifyHeightForAge(zScore)
+        : classifyWeightForAge(zScore);
+
+  return {
+    indicator,
+    reference: getGrowthReferenceId(ageMonths),
+    ageMonths,
+    value,
+    zScore,
+    percentile: zScoreToPercentile(zScore),
+    classification,
+  };
+}
+
+/**
+ * Clasificación del IMC según la edad: IMC para la edad (OMS) en menores de
+ * 19 años y puntos de corte de adultos en el resto.
+ */
+export function classifyBMI(
+  bmi: number,
+  gender: string | null | undefined,
+  ageMonths: number | null | undefined,
+): string {
+  const assessment = assessGrowth("bmiForAge", bmi, gender, ageMonths);
+  return assessment ? assessment.classification : getBMIClassification(bmi);
+}
+
+export const GROWTH_CURVE_Z_LINES = [-3, -2, -1, 0, 1, 2, 3] as const;
+
+export function growthCurveKey(z: number): string {
+  return z === 0 ? "sd0" : z > 0 ? `sd+${z}` : `sd${z}`;
+}
+
+export interface GrowthCurvePoint {
+  ageMonths: number;
+  ageYears: number;
+  [curveKey: string]: number;
+}
+
+/** Curvas de Score-Z (-3 a +3) de un indicador para graficar, cada `stepMonths` meses. */
+export function getGrowthCurves(
+  indicator: GrowthIndicator,
+  sex: GrowthSex,
+  stepMonths = 3,
+  range: { fromMonths?: number; toMonths?: number } = {},
+): GrowthCurvePoint[] {
+  const from = Math.max(range.fromMonths ?? GROWTH_MIN_AGE_MONTHS, GROWTH_MIN_AGE_MONTHS);
+  const to = Math.min(range.toMonths ?? GROWTH_INDICATORS[indicator].maxAgeMonths, GROWTH_INDICATORS[indicator].maxAgeMonths);
+  const points: GrowthCurvePoint[] = [];
+  for (let month = from; month <= to; month += stepMonths) {
+    const point = getLms(indicator, sex, month);
+    if (!point) continue;
+    const entry: GrowthCurvePoint = { ageMonths: month, ageYears: parseFloat((month / 12).toFixed(2)) };
+    GROWTH_CURVE_Z_LINES.forEach((z) => {
+      entry[growthCurveKey(z)] = parseFloat(valueAtZScore(point, z).toFixed(2));
+    });
+    points.push(entry);
+  }
+  return points;
+}
@@ -31,8 +31,88 @@ export const ETM_VALUES: Record<string, number> = {
   calfSkinfold: 1.62,
 };
 
+export type MeasurementSiteKey =
+  | "weight"
+  | "height"
+  | "seatedHeight"
+  | "triceps"
+  | "subscapular"
+  | "biceps"
+  | "suprailiac"
+  | "supraspinal"
+  | "abdominal"
+  | "thighSkinfold"
+  | "calfSkinfold"
+  | "chestSkinfold"
+  | "midaxillarySkinfold"
+  | "head"
+  | "relaxedArm"
+  | "flexedArm"
+  | "forearm"
+  | "thoraxCirc"
+  | "waist"
+  | "hip"
+  | "thighSuperior"
+  | "thighMedial"
+  | "calf"
+  | "biacromial"
+  | "biiliocristideo"
+  | "thoraxTransverse"
+  | "thoraxAnteroposterior"
+  | "humeral"
+  | "femoral";
+
+export type MeasurementSiteGroup = "basic" | "skinfold" | "perimeter" | "diameter";
+
+export interface MeasurementSiteDefinition {
+  key: MeasurementSiteKey;
+  label: string;
+  unit: "kg" | "cm" | "mm";
+  group: MeasurementSiteGroup;
+}
+
+// Sitios de medición en el orden de toma del protocolo ISAK (pectoral y axilar medio no son ISAK)
+export const ISAK_SITES: MeasurementSiteDefinition[] = [
+  { key: "weight", label: "Peso", unit: "kg", group: "basic" },
+  { key: "height", label: "Talla", unit: "cm", group: "basic" },
+  { key: "seatedHeight", label: "Talla sentado", unit: "cm", group: "basic" },
+  { key: "triceps", label: "Tríceps", unit: "mm", group: "skinfold" },
+  { key: "subscapular", label: "Subescapular", unit: "mm", group: "skinfold" },
+  { key: "biceps", label: "Bíceps", unit: "mm", group: "skinfold" },
+  { key: "suprailiac", label: "Cresta ilíaca", unit: "mm", group: "skinfold" },
+  { key: "supraspinal", label: "Supraespinal", unit: "mm", group: "skinfold" },
+  { key: "abdominal", label: "Abdominal", unit: "mm", group: "skinfold" },
+  { key: "thighSkinfold", label: "Muslo frontal", unit: "mm", group: "skinfold" },
+  { key: "calfSkinfold", label: "Pantorrilla medial", unit: "mm", group: "skinfold" },
+  { key: "chestSkinfold", label: "Pectoral", unit: "mm", group: "skinfold" },
+  { key: "midaxillarySkinfold", label: "Axilar medio", unit: "mm", group: "skinfold" },
+  { key: "head", label: "Cabeza", unit: "cm", group: "perimeter" },
+  { key: "relaxedArm", label: "Brazo relajado", unit: "cm", group: "perimeter" },
+  { key: "flexedArm", label: "Brazo flexionado", unit: "cm", group: "perimeter" },
+  { key: "forearm", label: "Antebrazo", unit: "cm", group: "perimeter" },
+  { key: "thoraxCirc", label: "Tórax mesoesternal", unit: "cm", group: "perimeter" },
+  { key: "waist", label: "Cintura mínima", unit: "cm", group: "perimeter" },
+  { key: "hip", label: "Cadera máxima", unit: "cm", group: "perimeter" },
+  { key: "thighSuperior", label: "Muslo superior", unit: "cm", group: "perimeter" },
+  { key: "thighMedial", label: "Muslo medial", unit: "cm", group: "perimeter" },
+  { key: "calf", label: "Pantorrilla máxima", unit: "cm", group: "perimeter" },
+  { key: "biacromial", label: "Biacromial", unit: "cm", group: "diameter" },
+  { key: "biiliocristideo", label: "Bi-iliocrestídeo", unit: "cm", group: "diameter" },
+  { key: "thoraxTransverse", label: "Tórax transverso", unit: "cm", group: "diameter" },
+  { key: "thoraxAnteroposterior", label: "Tórax anteroposterior", unit: "cm", group: "diameter" },
+  { key: "humeral", label: "Humeral", unit: "cm", group: "diameter" },
+  { key: "femoral", label: "Femoral", unit: "cm", group: "diameter" },
+];
+
+export function getMeasurementSite(key: string): MeasurementSiteDefinition | undefined {
+  return ISAK_SITES.find((site) => site.key === key);
+}
+
 const ADJUSTMENT_FACTOR = 0.935;
 
+// Estatura del Phantom (Ross & Wilson, 1974), base del escalado proporcional
+export const PHANTOM_HEIGHT = 170.18;
+
 export const REFERENCE_VALUES = {
   weight: { mean: 74.6, sd: 9.8 },
   height: { mean: 179.5, sd: 7.2 },
@@ -61,6 +141,106 @@ export const REFERENCE_VALUES = {
   calfSkinfold: { mean: 11.5, sd: 4.5 },
 };
 
+export type ReferenceKey = keyof typeof REFERENCE_VALUES;
+
+type ReferenceTable = Record<ReferenceKey, { mean: number; sd: number }>;
+
+/**
+ * Exponente dimensional de cada variable para el escalado proporcional
+ * (Ross & Wilson, 1974): 1 para longitudes, diámetros, perímetros y pliegues,
+ * 3 para el peso (volumen). La talla se compara sin escalar.
+ */
+export const DIMENSIONAL_EXPONENTS: Record<ReferenceKey, number> = {
+  weight: 3,
+  height: 0,
+  seatedHeight: 1,
+  biacromial: 1,
+  thoraxTransverse: 1,
+  thoraxAnteroposterior: 1,
+  biiliocristideo: 1,
+  humeral: 1,
+  femoral: 1,
+  head: 1,
+  relaxedArm: 1,
+  flexedArm: 1,
+  forearm: 1,
+  thoraxCirc: 1,
+  waist: 1,
+  hip: 1,
+  thighSuperior: 1,
+  thighMedial: 1,
+  calf: 1,
+  triceps: 1,
+  subscapular: 1,
+  supraspinal: 1,
+  abdominal: 1,
+  thighSkinfold: 1,
+  calfSkinfold: 1,
+};
+
+/**
+ * Población de referencia para los Score-Z proporcionales. `values` son las
+ * medias y DE de la población tal como se midieron y `stature` su talla media:
+ * tanto el paciente como la población se llevan a la talla del Phantom
+ * (170,18 cm) con el exponente dimensional de cada variable antes de comparar.
+ */
+export interface ReferencePopulation {
+  id: string;
+  label: string;
+  description: string;
+  stature: number;
+  gender?: "M" | "F";
+  minAge?: number;
+  maxAge?: number;
+  sportSpecific?: boolean;
+  values: ReferenceTable;
+}
+
+// Phantom unisex de Ross & Wilson (Ross & Marfell-Jones, 1991)
+export const PHANTOM_POPULATION: ReferencePopulation = {
+  id: "phantom",
+  label: "Phantom (Ross & Wilson)",
+  description: "Referencia unisex de proporcionalidad (talla 170,18 cm).",
+  stature: PHANTOM_HEIGHT,
+  values: {
+    weight: { mean: 64.58, sd: 8.6 },
+    height: { mean: 170.18, sd: 6.29 },
+    seatedHeight: { mean: 89.92, sd: 4.5 },
+    biacromial: { mean: 38.04, sd: 1.92 },
+    thoraxTransverse: { mean: 27.92, sd: 1.74 },
+    thoraxAnteroposterior: { mean: 17.5, sd: 1.38 },
+    biiliocristideo: { mean: 28.84, sd: 1.75 },
+    humeral: { mean: 6.48, sd: 0.35 },
+    femoral: { mean: 9.52, sd: 0.48 },
+    head: { mean: 56.0, sd: 1.44 },
+    relaxedArm: { mean: 26.89, sd: 2.33 },
+    flexedArm: { mean: 29.41, sd: 2.37 },
+    forearm: { mean: 25.13, sd: 1.41 },
+    thoraxCirc: { mean: 87.86, sd: 5.18 },
+    waist: { mean: 71.91, sd: 4.45 },
+    hip: { mean: 94.67, sd: 5.58 },
+    thighSuperior: { mean: 55.82, sd: 4.23 },
+    thighMedial: { mean: 53.2, sd: 4.56 },
+    calf: { mean: 35.25, sd: 2.3 },
+    triceps: { mean: 15.4, sd: 4.47 },
+    subscapular: { mean: 17.2, sd: 5.07 },
+    supraspinal: { mean: 15.4, sd: 4.47 },
+    abdominal: { mean: 25.4, sd: 7.78 },
+    thighSkinfold: { mean: 27.0, sd: 8.33 },
+    calfSkinfold: { mean: 16.0, sd: 4.67 },
+  },
+};
+
+/**
+ * Poblaciones disponibles. Por ahora sólo el Phantom: no hay cargadas tablas
+ * publicadas por sexo, edad o deporte, así que la selección automática por
+ * sexo/edad siempre termina en el Phantom. Una población nueva se agrega acá
+ * con la cita de la que salen sus medias y DE.
+ */
+export const REFERENCE_POPULATIONS: Record<string, ReferencePopulation> = {
+  phantom: PHANTOM_POPULATION,
+};
+
 export interface MeasurementData {
   weight: number;
   height: number;
@@ -106,6 +286,11 @@ export interface BodyCompositionResult {
   adiposeToMuscleRatio: number;
   structuredWeight: number;
   weightDifference: number;
+  correctedArmGirth: number;
+  correctedThighGirth: number;
+  correctedCalfGirth: number;
+  correctedArmMuscleArea: number;
+  thighMuscleArea: number;
 }
 
 export function calculateBMI(weight: number, height: number): number {
@@ -163,6 +348,35 @@ export function calculateMuscleMass(
   return weight - (skinMass + adiposeMass + boneMass + residualMass);
 }
 
+/**
+ * Perímetro corregido por el pliegue que lo recubre: perímetro (cm) − π · pliegue (mm) / 10.
+ * Es el perímetro estimado del músculo y el hueso, sin el tejido adiposo subcutáneo.
+ */
+export function calculateCorrectedGirth(girth: number, skinfold: number): number {
+  return girth - (Math.PI * skinfold) / 10;
+}
+
+/** Área transversal (cm²) de un perímetro corregido, suponiendo una sección circular. */
+export function calculateMuscleArea(correctedGirth: number): number {
+  return (correctedGirth * correctedGirth) / (4 * Math.PI);
+}
+
+// Heymsfield et al. (1982): el área ósea media del brazo se descuenta según el sexo
+const ARM_BONE_AREA = { male: 10, female: 6.5 } as const;
+
+/**
+ * Área muscular del brazo corregida (cm²). Sin sexo se descuenta el promedio
+ * de ambos valores para no sobreestimarla.
+ */
+export function calculateCorrectedArmMuscleArea(
+  relaxedArm: number,
+  triceps: number,
+  gender?: 'male' | 'female' | null
+): number {
+  const boneArea = gender ? ARM_BONE_AREA[gender] : (ARM_BONE_AREA.male + ARM_BONE_AREA.female) / 2;
+  return Math.max(0, calculateMuscleArea(calculateCorrectedGirth(relaxedArm, triceps)) - boneArea);
+}
+
 export function calculateBodyComposition(
   data: MeasurementData,
   gender: 'male' | 'female' = 'male'
@@ -193,6 +407,10 @@ export function calculateBodyComposition(
   const adiposeToMuscleRatio = muscleMassKg > 0 ? adiposeMassKg / muscleMassKg : 0;
   const weightDifference = ((structuredWeight - data.weight) / data.weight) * 100;
 
+  const correctedArmGirth = calculateCorrectedGirth(data.relaxedArm, data.triceps);
+  const correctedThighGirth = calculateCorrectedGirth(data.thighMedial, data.thighSkinfold);
+  const correctedCalfGirth = calculateCorrectedGirth(data.calf, data.calfSkinfold);
+
   return {
     bmi,
     skinMassKg,
@@ -210,7 +428,139 @@ export function calculateBodyComposition(
     adiposeToMuscleRatio,
     structuredWeight,
     weightDifference,
+    correctedArmGirth,
+    correctedThighGirth,
+    correctedCalfGirth,
+    correctedArmMuscleArea: calculateCorrectedArmMuscleArea(data.relaxedArm, data.triceps, gender),
+    thighMuscleArea: calculateMuscleArea(correctedThighGirth),
+  };
+}
+
+// Carter & Heath (1990): ningún componente se informa por debajo de 0.1
+const MIN_SOMATOTYPE_COMPONENT = 0.1;
+
+export interface SomatotypeInput {
+  weight: number;
+  height: number;
+  triceps: number;
+  subscapular: number;
+  supraspinal: number;
+  humeral: number;
+  femoral: number;
+  flexedArm: number;
+  calf: number;
+  calfSkinfold: number;
+}
+
+export interface SomatotypeComponents {
+  endomorphy: number;
+  mesomorphy: number;
+  ectomorphy: number;
+}
+
+export interface SomatotypeResult extends SomatotypeComponents {
+  somatochartX: number;
+  somatochartY: number;
+}
+
+export function calculateEndomorphy(data: Pick<SomatotypeInput, 'height' | 'triceps' | 'subscapular' | 'supraspinal'>): number {
+  const x = (data.triceps + data.subscapular + data.supraspinal) * (PHANTOM_HEIGHT / data.height);
+  const endomorphy = -0.7182 + 0.1451 * x - 0.00068 * x * x + 0.0000014 * x * x * x;
+  return Math.max(MIN_SOMATOTYPE_COMPONENT, endomorphy);
+}
+
+export function calculateMesomorphy(
+  data: Pick<SomatotypeInput, 'height' | 'humeral' | 'femoral' | 'flexedArm' | 'triceps' | 'calf' | 'calfSkinfold'>
+): number {
+  // Perímetros corregidos: perímetro (cm) - pliegue (mm) / 10
+  const correctedArm = data.flexedArm - data.triceps / 10;
+  const correctedCalf = data.calf - data.calfSkinfold / 10;
+  const mesomorphy =
+    0.858 * data.humeral +
+    0.601 * data.femoral +
+    0.188 * correctedArm +
+    0.161 * correctedCalf -
+    0.131 * data.height +
+    4.5;
+  return Math.max(MIN_SOMATOTYPE_COMPONENT, mesomorphy);
+}
+
+export function calculateHeightWeightRatio(height: number, weight: number): number {
+  return height / Math.cbrt(weight);
+}
+
+export function calculateEctomorphy(data: Pick<SomatotypeInput, 'height' | 'weight'>): number {
+  const hwr = calculateHeightWeightRatio(data.height, data.weight);
+  let ectomorphy: number;
+  if (hwr >= 40.75) {
+    ectomorphy = 0.732 * hwr - 28.58;
+  } else if (hwr > 38.25) {
+    ectomorphy = 0.463 * hwr - 17.63;
+  } else {
+    ectomorphy = MIN_SOMATOTYPE_COMPONENT;
+  }
+  return Math.max(MIN_SOMATOTYPE_COMPONENT, ectomorphy);
+}
+
+export function calculateSomatochartCoordinates(somatotype: SomatotypeComponents): { x: number; y: number } {
+  return {
+    x: somatotype.ectomorphy - somatotype.endomorphy,
+    y: 2 * somatotype.mesomorphy - (somatotype.endomorphy + somatotype.ectomorphy),
+  };
+}
+
+/**
+ * Somatotipo antropométrico de Heath-Carter con coordenadas de la somatocarta
+ */
+export function calculateHeathCarterSomatotype(data: SomatotypeInput): SomatotypeResult {
+  const endomorphy = calculateEndomorphy(data);
+  const mesomorphy = calculateMesomorphy(data);
+  const ectomorphy = calculateEctomorphy(data);
+  const { x, y } = calculateSomatochartCoordinates({ endomorphy, mesomorphy, ectomorphy });
+
+  return {
+    endomorphy,
+    mesomorphy,
+    ectomorphy,
+    somatochartX: x,
+    somatochartY: y,
+  };
+}
+
+/** SAD a partir de la cual dos somatotipos se consideran distintos (Carter & Heath, 1990). */
+export const SAD_MEANINGFUL_CHANGE = 1;
+
+/**
+ * Distancia actitudinal del somatotipo (SAD) entre dos somatotipos, en unidades de componente
+ */
+export function calculateSomatotypeAttitudinalDistance(a: SomatotypeComponents, b: SomatotypeComponents): number {
+  return Math.sqrt(
+    (a.endomorphy - b.endomorphy) ** 2 +
+    (a.mesomorphy - b.mesomorphy) ** 2 +
+    (a.ectomorphy - b.ectomorphy) ** 2
+  );
+}
+
+/**
+ * Media actitudinal del somatotipo (SAM): promedio de las SAD de cada somatotipo
+ * respecto al somatotipo medio del conjunto. Para dos mediciones equivale a SAD / 2.
+ */
+export function calculateSomatotypeAttitudinalMean(somatotypes: SomatotypeComponents[]): number | null {
+  if (somatotypes.length < 2) {
+    return null;
+  }
+
+  const mean: SomatotypeComponents = {
+    endomorphy: somatotypes.reduce((acc, s) => acc + s.endomorphy, 0) / somatotypes.length,
+    mesomorphy: somatotypes.reduce((acc, s) => acc + s.mesomorphy, 0) / somatotypes.length,
+    ectomorphy: somatotypes.reduce((acc, s) => acc + s.ectomorphy, 0) / somatotypes.length,
   };
+
+  const totalDistance = somatotypes.reduce(
+    (acc, somatotype) => acc + calculateSomatotypeAttitudinalDistance(somatotype, mean),
+    0
+  );
+  return totalDistance / somatotypes.length;
 }
 
 export function calculateZScore(value: number, mean: number, sd: number): number {
@@ -234,14 +584,225 @@ export function calculateAdjustedValue(
   return rawValue;
 }
 
-export function getETM(measurementKey: keyof typeof ETM_VALUES): number {
+// ===== Error técnico de medición (ETM/TEM) por evaluador =====
+
+export interface SiteTEM {
+  absolute: number; // en la unidad del sitio (kg, cm, mm)
+  relative: number; // % sobre la media
+  n: number; // pares test-retest
+  mean: number;
+}
+
+/** %ETM propio de un evaluador por sitio, calculado con un estudio test-retest. */
+export type EvaluatorTEM = Partial<Record<MeasurementSiteKey, SiteTEM>>;
+
+export type TrialPairs = Partial<Record<MeasurementSiteKey, Array<[number, number]>>>;
+
+// Mínimo de pares para informar un ETM por sitio
+export const MIN_TEM_PAIRS = 2;
+
+/** ETM intra-evaluador: √(Σd² / 2n); relativo = ETM / media · 100. */
+export function calculateTEM(pairs: Array<[number, number]>): SiteTEM | null {
+  const valid = pairs.filter(([a, b]) => Number.isFinite(a) && Number.isFinite(b));
+  if (valid.length < MIN_TEM_PAIRS) return null;
+
+  const sumSquares = valid.reduce((acc, [a, b]) => acc + (a - b) ** 2, 0);
+  const absolute = Math.sqrt(sumSquares / (2 * valid.length));
+  const mean = valid.reduce((acc, [a, b]) => acc + a + b, 0) / (2 * valid.length);
+  if (mean === 0) return null;
+
+  return {
+    absolute: parseFloat(absolute.toFixed(3)),
+    relative: parseFloat(((absolute / Math.abs(mean)) * 100).toFixed(2)),
+    n: valid.length,
+    mean: parseFloat(mean.toFixed(2)),
+  };
+}
+
+export function calculateEvaluatorTEM(pairs: TrialPairs): EvaluatorTEM {
+  const result: EvaluatorTEM = {};
+  (Object.entries(pairs) as Array<[MeasurementSiteKey, Array<[number, number]> | undefined]>).forEach(([site, sitePairs]) => {
+    const tem = calculateTEM(sitePairs ?? []);
+    if (tem) result[site] = tem;
+  });
+  return result;
+}
+
+/** Arma pares test-retest con las dos primeras tomas de cada sitio de varias mediciones. */
+export function extractTrialPairs(trialsList: Array<MeasurementTrials | null | undefined>): TrialPairs {
+  const pairs: TrialPairs = {};
+  trialsList.forEach((trials) => {
+    if (!trials) return;
+    (Object.entries(trials) as Array<[MeasurementSiteKey, number[] | undefined]>).forEach(([site, values]) => {
+      const valid = (values ?? []).filter((value) => Number.isFinite(value));
+      if (valid.length < 2) return;
+      (pairs[site] ??= []).push([valid[0], valid[1]]);
+    });
+  });
+  return pairs;
+}
+
+/** %ETM del sitio: el del evaluador si tiene estudio, si no el valor de referencia. */
+export function getETM(measurementKey: keyof typeof ETM_VALUES, evaluatorTem?: EvaluatorTEM | null): number {
+  const own = evaluatorTem?.[measurementKey as MeasurementSiteKey];
+  if (own) return own.relative;
   return ETM_VALUES[measurementKey] || 0;
 }
 
+// ===== Tomas repetidas (ISAK) =====
+
+/** Tomas crudas por sitio: { triceps: [10.2, 10.6], waist: [78.1, 78.3, 78.2] } */
+export type MeasurementTrials = Partial<Record<MeasurementSiteKey, number[]>>;
+
+// Límite del 95% para la diferencia entre dos tomas: 1.96 · √2 · %ETM
+export const TRIAL_TOLERANCE_FACTOR = 1.96 * Math.SQRT2;
+
+// Tolerancias ISAK cuando el sitio no tiene %ETM de referencia
+const DEFAULT_TRIAL_TOLERANCE_PERCENT: Record<MeasurementSiteGroup, number> = {
+  basic: 1,
+  skinfold: 5,
+  perimeter: 1,
+  diameter: 1,
+};
+
+/** Tolerancia relativa (%) entre la primera y la segunda toma del sitio. */
+export function getTrialTolerancePercent(site: MeasurementSiteKey, evaluatorTem?: EvaluatorTEM | null): number {
+  const etm = getETM(site, evaluatorTem);
+  if (etm) return etm * TRIAL_TOLERANCE_FACTOR;
+  const group = getMeasurementSite(site)?.group ?? "basic";
+  return DEFAULT_TRIAL_TOLERANCE_PERCENT[group];
+}
+
+/** Indica si las dos primeras tomas difieren más que la tolerancia y hace falta una tercera. */
+export function needsThirdTrial(
+  site: MeasurementSiteKey,
+  trials: number[],
+  evaluatorTem?: EvaluatorTEM | null
+): boolean {
+  if (trials.length < 2) return false;
+  const [first, second] = trials;
+  const mean = (first + second) / 2;
+  if (mean === 0) return false;
+  const differencePercent = (Math.abs(first - second) / Math.abs(mean)) * 100;
+  return differencePercent > getTrialTolerancePercent(site, evaluatorTem);
+}
+
+/** Valor final ISAK: la toma única, la media de dos o la mediana de tres. */
+export function resolveTrialValue(trials: number[]): number | null {
+  const valid = trials.filter((value) => Number.isFinite(value));
+  if (valid.length === 0) return null;
+  if (valid.length === 1) return valid[0];
+  if (valid.length === 2) return (valid[0] + valid[1]) / 2;
+  const sorted = [...valid.slice(0, 3)].sort((a, b) => a - b);
+  return sorted[1];
+}
+
+export interface ResolvedMeasurementTrials {
+  values: Partial<Record<MeasurementSiteKey, number>>;
+  pendingThirdTrial: MeasurementSiteKey[];
+}
+
+/**
+ * Resuelve todas las tomas de una medición. Los sitios cuyas dos primeras
+ * tomas superan la tolerancia y no tienen tercera quedan en pendingThirdTrial
+ * y no reciben valor final.
+ */
+export function resolveMeasurementTrials(
+  trials: MeasurementTrials | null | undefined,
+  evaluatorTem?: EvaluatorTEM | null
+): ResolvedMeasurementTrials {
+  const result: ResolvedMeasurementTrials = { values: {}, pendingThirdTrial: [] };
+  if (!trials) return result;
+
+  (Object.entries(trials) as Array<[MeasurementSiteKey, number[] | undefined]>).forEach(([site, values]) => {
+    const valid = (values ?? []).filter((value) => Number.isFinite(value));
+    if (valid.length === 0) return;
+    if (valid.length === 2 && needsThirdTrial(site, valid, evaluatorTem)) {
+      result.pendingThirdTrial.push(site);
+      return;
+    }
+    const resolved = resolveTrialValue(valid);
+    if (resolved !== null) {
+      result.values[site] = parseFloat(resolved.toFixed(2));
+    }
+  });
+
+  return result;
+}
+
 export function getReferenceValues(
-  measurementKey: keyof typeof REFERENCE_VALUES
+  measurementKey: keyof typeof REFERENCE_VALUES,
+  population?: ReferencePopulation
 ): { mean: number; sd: number } {
-  return REFERENCE_VALUES[measurementKey] || { mean: 0, sd: 1 };
+  const table = population?.values ?? REFERENCE_VALUES;
+  return table[measurementKey] || { mean: 0, sd: 1 };
+}
+
+export function getReferencePopulation(id: string | null | undefined): ReferencePopulation | null {
+  if (!id) return null;
+  return REFERENCE_POPULATIONS[id] ?? null;
+}
+
+/**
+ * Devuelve la población elegida para el paciente o, si no tiene una asignada,
+ * la población general que corresponde a su sexo y edad. Phantom es el
+ * fallback universal (menores, sexo no informado, edades fuera de rango) y,
+ * mientras no haya otras poblaciones cargadas, el único resultado posible.
+ */
+export function resolveReferencePopulation(options: {
+  populationId?: string | null;
+  gender?: string | null;
+  age?: number | null;
+}): ReferencePopulation {
+  const explicit = getReferencePopulation(options.populationId);
+  if (explicit) return explicit;
+
+  const gender = options.gender === "M" || options.gender === "F" ? options.gender : null;
+  if (!gender || options.age === null || options.age === undefined) {
+    return PHANTOM_POPULATION;
+  }
+
+  const age = options.age;
+  const match = Object.values(REFERENCE_POPULATIONS).find(
+    (population) =>
+      !population.sportSpecific &&
+      population.gender === gender &&
+      (population.minAge === undefined || age >= population.minAge) &&
+      (population.maxAge === undefined || age <= population.maxAge)
+  );
+  return match ?? PHANTOM_POPULATION;
+}
+
+// v_p = v · (170,18 / talla)^d
+export function calculateProportionalValue(
+  value: number,
+  measurementKey: ReferenceKey,
+  height: number
+): number {
+  const exponent = DIMENSIONAL_EXPONENTS[measurementKey] ?? 1;
+  if (!height || exponent === 0) return value;
+  return value * Math.pow(PHANTOM_HEIGHT / height, exponent);
+}
+
+/**
+ * Score-Z proporcional: z = (v · (170,18 / talla)^d − media_p) / DE_p, con la
+ * media y la DE de la población llevadas a la misma talla (para el Phantom
+ * quedan como están). Sin talla se compara el valor crudo contra la población.
+ */
+export function calculateProportionalZScore(
+  value: number,
+  measurementKey: ReferenceKey,
+  height: number | null | undefined,
+  population: ReferencePopulation = PHANTOM_POPULATION
+): number {
+  const ref = getReferenceValues(measurementKey, population);
+  if (!height || height <= 0) {
+    return calculateZScore(value, ref.mean, ref.sd);
+  }
+  const scaled = calculateProportionalValue(value, measurementKey, height);
+  const mean = calculateProportionalValue(ref.mean, measurementKey, population.stature);
+  const sd = calculateProportionalValue(ref.sd, measurementKey, population.stature);
+  return calculateZScore(scaled, mean, sd);
 }
 
 export function getBMIClassification(bmi: number): string {
@@ -0,0 +1,186 @@
+/**
+ * Periodización de macronutrientes por tipo de día (entrenamiento, descanso y
+ * competencia) y reparto de cada día entre las comidas. Los hidratos se fijan
+ * en g/kg según el volumen de entrenamiento del día; proteínas y grasas se
+ * mantienen estables durante la semana.
+ */
+
+import type { MealDistribution, TrainingSession } from "./schema";
+
+export type MealSlot = keyof MealDistribution;
+
+export const MEAL_SLOTS: { id: MealSlot; label: string }[] = [
+  { id: "breakfast", label: "Desayuno" },
+  { id: "snack1", label: "Colación AM" },
+  { id: "lunch", label: "Almuerzo" },
+  { id: "snack2", label: "Colación PM" },
+  { id: "dinner", label: "Cena" },
+];
+
+export const DEFAULT_MEAL_DISTRIBUTION: MealDistribution = {
+  breakfast: 0.25,
+  snack1: 0.1,
+  lunch: 0.3,
+  snack2: 0.15,
+  dinner: 0.2,
+};
+
+export type MealDistributionSource = "patient" | "settings" | "default";
+
+export interface ResolvedMealDistribution {
+  distribution: MealDistribution;
+  source: MealDistributionSource;
+}
+
+function isMealDistribution(value: unknown): value is MealDistribution {
+  if (!value || typeof value !== "object") return false;
+  const entries = MEAL_SLOTS.map((slot) => (value as Record<string, unknown>)[slot.id]);
+  if (!entries.every((entry) => typeof entry === "number" && Number.isFinite(entry) && entry >= 0)) return false;
+  const total = (entries as number[]).reduce((sum, entry) => sum + entry, 0);
+  return Math.abs(total - 1) < 0.011;
+}
+
+/** Distribución del paciente, si tiene; si no, la de configuración; si no, la por defecto. */
+export function resolveMealDistribution(patientValue: unknown, settingsValue: unknown): ResolvedMealDistribution {
+  if (isMealDistribution(patientValue)) return { distribution: patientValue, source: "patient" };
+  if (isMealDistribution(settingsValue)) return { distribution: settingsValue, source: "settings" };
+  return { distribution: DEFAULT_MEAL_DISTRIBUTION, source: "default" };
+}
+
+export type DayType = "training" | "rest" | "competition";
+
+export const DAY_TYPES: Record<DayType, { label: string; short: string }> = {
+  training: { label: "Entrenamiento", short: "Entreno" },
+  rest: { label: "Descanso", short: "Descanso" },
+  competition: { label: "Competencia", short: "Compe" },
+};
+
+export const DAY_TYPE_ORDER: DayType[] = ["training", "rest", "competition"];
+
+// Hidratos según volumen diario (Thomas, Erdman & Burke, ACSM 2016; Burke et al., 2011)
+const CARB_VOLUME_BANDS: { maxMinutes: number; gramsPerKg: number; label: string }[] = [
+  { maxMinutes: 60, gramsPerKg: 5, label: "Liviano (hasta 1 h)" },
+  { maxMinutes: 120, gramsPerKg: 6, label: "Moderado (1-2 h)" },
+  { maxMinutes: 180, gramsPerKg: 8, label: "Alto (2-3 h)" },
+  { maxMinutes: Infinity, gramsPerKg: 10, label: "Muy alto (más de 3 h)" },
+];
+const REST_DAY_CARBS_PER_KG = 3;
+const COMPETITION_DAY_CARBS_PER_KG = 10;
+const HIGH_INTENSITY_CARB_BONUS = 1;
+// Ajuste por objetivo: recorta o suma hidratos en todos los tipos de día
+const OBJECTIVE_CARB_ADJUSTMENT = { loss: -1, maintain: 0, gain: 1 } as const;
+const MIN_CARBS_PER_KG = 2;
+const MAX_CARBS_PER_KG = 12;
+
+export interface CarbPrescription {
+  gramsPerKg: number;
+  band: string;
+}
+
+export function getCarbsPerKg(
+  dayType: DayType,
+  trainingMinutes: number,
+  highIntensity: boolean,
+  objective: keyof typeof OBJECTIVE_CARB_ADJUSTMENT,
+): CarbPrescription {
+  let gramsPerKg: number;
+  let band: string;
+  if (dayType === "rest" || trainingMinutes <= 0) {
+    gramsPerKg = REST_DAY_CARBS_PER_KG;
+    band = "Descanso";
+  } else {
+    const volume = CARB_VOLUME_BANDS.find((entry) => trainingMinutes <= entry.maxMinutes) ?? CARB_VOLUME_BANDS[CARB_VOLUME_BANDS.length - 1];
+    gramsPerKg = volume.gramsPerKg + (highIntensity ? HIGH_INTENSITY_CARB_BONUS : 0);
+    band = highIntensity ? `${volume.label}, intensidad alta` : volume.label;
+  }
+  if (dayType === "competition") {
+    gramsPerKg = Math.max(gramsPerKg, COMPETITION_DAY_CARBS_PER_KG);
+    band = "Competencia";
+  }
+  gramsPerKg += OBJECTIVE_CARB_ADJUSTMENT[objective];
+  return {
+    gramsPerKg: Math.min(MAX_CARBS_PER_KG, Math.max(MIN_CARBS_PER_KG, gramsPerKg)),
+    band,
+  };
+}
+
+/** Tipo de día de un día de la semana (1 = lunes) según la agenda y los días de competencia. */
+export function getDayType(weekday: number, sessions: TrainingSession[], competitionWeekdays: number[]): DayType {
+  if (competitionWeekdays.includes(weekday)) return "competition";
+  return sessions.some((session) => session.weekday === weekday) ? "training" : "rest";
+}
+
+export interface MacroTarget {
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fats: number | null;
+}
+
+export interface DayTypeTarget extends MacroTarget {
+  dayType: DayType;
+  weekdays: number[];
+  /** Minutos de entrenamiento promedio de los días de este tipo. */
+  trainingMinutes: number;
+  carbsPerKg: number;
+  carbBand: string;
+  perMealPlan: Record<MealSlot, MacroTarget>;
+}
+
+export type DayTypeTargets = Record<DayType, DayTypeTarget>;
+
+export function splitByMeal(target: MacroTarget, distribution: MealDistribution): Record<MealSlot, MacroTarget> {
+  const scale = (value: number | null, ratio: number, digits: number) =>
+    value === null ? null : parseFloat((value * ratio).toFixed(digits));
+  return MEAL_SLOTS.reduce((acc, slot) => {
+    const ratio = distribution[slot.id];
+    acc[slot.id] = {
+      calories: target.calories === null ? null : Math.round(target.calories * ratio),
+      protein: scale(target.protein, ratio, 1),
+      carbs: scale(target.carbs, ratio, 1),
+      fats: scale(target.fats, ratio, 1),
+    };
+    return acc;
+  }, {} as Record<MealSlot, MacroTarget>);
+}
+
+export interface DayTypeTargetsInput {
+  weight: number;
+  proteinPerDay: number | null;
+  fatsPerDay: number | null;
+  sessions: TrainingSession[];
+  competitionWeekdays: number[];
+  objective: keyof typeof OBJECTIVE_CARB_ADJUSTMENT;
+  distribution: MealDistribution;
+}
+
+export function calculateDayTypeTargets(input: DayTypeTargetsInput): DayTypeTargets {
+  const weekdays = [1, 2, 3, 4, 5, 6, 7];
+  return DAY_TYPE_ORDER.reduce((acc, dayType) => {
+    const days = weekdays.filter((weekday) => getDayType(weekday, input.sessions, input.competitionWeekdays) === dayType);
+    const daySessions = input.sessions.filter((session) => days.includes(session.weekday));
+    const totalMinutes = daySessions.reduce((total, session) => total + session.durationMinutes, 0);
+    // Sin días asignados se usa una sesión tipo de 60 min para tener igual una referencia
+    const trainingMinutes = dayType === "rest" ? 0 : days.length > 0 ? Math.round(totalMinutes / days.length) : 60;
+    const highIntensity = daySessions.some((session) => session.intensity === "alta");
+    const carbs = getCarbsPerKg(dayType, trainingMinutes, highIntensity, input.objective);
+    const carbsPerDay = parseFloat((carbs.gramsPerKg * input.weight).toFixed(1));
+    const calories = Math.round(carbsPerDay * 4 + (input.proteinPerDay ?? 0) * 4 + (input.fatsPerDay ?? 0) * 9);
+    const target: MacroTarget = {
+      calories,
+      protein: input.proteinPerDay === null ? null : parseFloat(input.proteinPerDay.toFixed(1)),
+      carbs: carbsPerDay,
+      fats: input.fatsPerDay === null ? null : parseFloat(input.fatsPerDay.toFixed(1)),
+    };
+    acc[dayType] = {
+      ...target,
+      dayType,
+      weekdays: days,
+      trainingMinutes,
+      carbsPerKg: carbs.gramsPerKg,
+      carbBand: carbs.band,
+      perMealPlan: splitByMeal(target, input.distribution),
+    };
+    return acc;
+  }, {} as DayTypeTargets);
+}
@@ -0,0 +1,384 @@
+/**
+ * Detección de cambios reales entre dos mediciones. Cada diferencia se compara
+ * con su cambio mínimo detectable (MDC = z · √(ETM₁² + ETM₂²)), usando el ETM
+ * del evaluador de cada medición o los %ETM de referencia. Para las masas y el
+ * % de grasa el ETM se propaga desde los sitios que intervienen en la fórmula.
+ */
+
+import {
+  ETM_VALUES,
+  ISAK_SITES,
+  calculateBodyComposition,
+  calculateCorrectedArmMuscleArea,
+  calculateCorrectedGirth,
+  calculateMuscleArea,
+  toNumberOrNull,
+  type EvaluatorTEM,
+  type MeasurementData,
+  type MeasurementSiteGroup,
+  type MeasurementSiteKey,
+} from "./isak-calculations";
+import {
+  DEFAULT_BODY_FAT_EQUATION,
+  DEFAULT_DENSITY_CONVERSION,
+  estimateBodyFat,
+  normalizeGender,
+  type BodyFatEquationId,
+  type DensityConversion,
+} from "./body-fat-equations";
+
+export type ConfidenceLevel = 80 | 90 | 95 | 99;
+
+// Valor z bilateral para cada nivel de confianza
+export const CONFIDENCE_LEVELS: Record<ConfidenceLevel, number> = {
+  80: 1.282,
+  90: 1.645,
+  95: 1.96,
+  99: 2.576,
+};
+
+export const DEFAULT_CONFIDENCE_LEVEL: ConfidenceLevel = 95;
+
+export function isConfidenceLevel(value: unknown): value is ConfidenceLevel {
+  return typeof value === "number" && value in CONFIDENCE_LEVELS;
+}
+
+export type ComparableMeasurement = Partial<Record<MeasurementSiteKey, number | string | null>>;
+
+export interface ComparisonSide {
+  measurement: ComparableMeasurement;
+  evaluatorTem?: EvaluatorTEM | null;
+}
+
+export interface ComparisonContext {
+  gender: string | null;
+  age: number | null;
+  bodyFatEquation?: BodyFatEquationId | null;
+  densityConversion?: DensityConversion | null;
+}
+
+export type DerivedMetricKey =
+  | "sumOf6Skinfolds"
+  | "bodyFatPercentage"
+  | "adiposeMassKg"
+  | "muscleMassKg"
+  | "boneMassKg"
+  | "skinMassKg"
+  | "residualMassKg"
+  | "correctedArmGirth"
+  | "correctedThighGirth"
+  | "correctedCalfGirth"
+  | "correctedArmMuscleArea"
+  | "thighMuscleArea";
+
+export interface ComparisonEntry<K extends string = string> {
+  key: K;
+  label: string;
+  unit: string;
+  baseline: number;
+  current: number;
+  delta: number;
+  /** ETM absoluto de cada medición (en la unidad del sitio). */
+  baselineTem: number | null;
+  currentTem: number | null;
+  mdc: number | null;
+  /** null cuando no hay ETM para decidir. */
+  significant: boolean | null;
+}
+
+export interface SiteComparisonEntry extends ComparisonEntry<MeasurementSiteKey> {
+  group: MeasurementSiteGroup;
+}
+
+export interface MeasurementComparisonResult {
+  confidenceLevel: ConfidenceLevel;
+  z: number;
+  sites: SiteComparisonEntry[];
+  derived: ComparisonEntry<DerivedMetricKey>[];
+}
+
+// %ETM medio de cada grupo para sitios sin valor de referencia propio (bíceps, suprailiaco, ...)
+const GROUP_MEAN_ETM: Record<MeasurementSiteGroup, number> = (() => {
+  const sums: Record<MeasurementSiteGroup, { total: number; count: number }> = {
+    basic: { total: 0, count: 0 },
+    skinfold: { total: 0, count: 0 },
+    perimeter: { total: 0, count: 0 },
+    diameter: { total: 0, count: 0 },
+  };
+  ISAK_SITES.forEach((site) => {
+    const etm = ETM_VALUES[site.key];
+    if (etm === undefined) return;
+    sums[site.group].total += etm;
+    sums[site.group].count += 1;
+  });
+  return Object.fromEntries(
+    Object.entries(sums).map(([group, { total, count }]) => [group, count > 0 ? total / count : 0]),
+  ) as Record<MeasurementSiteGroup, number>;
+})();
+
+/** ETM absoluto del sitio para un valor medido. */
+export function getAbsoluteTEM(
+  site: MeasurementSiteKey,
+  value: number,
+  evaluatorTem?: EvaluatorTEM | null,
+): number | null {
+  const own = evaluatorTem?.[site];
+  if (own) return own.absolute;
+
+  const group = ISAK_SITES.find((item) => item.key === site)?.group;
+  const relative = ETM_VALUES[site] ?? (group ? GROUP_MEAN_ETM[group] : 0);
+  if (!relative) return null;
+  return (relative / 100) * Math.abs(value);
+}
+
+/** Cambio mínimo detectable entre dos mediciones con ETM propios. */
+export function calculateMDC(
+  baselineTem: number,
+  currentTem: number,
+  confidenceLevel: ConfidenceLevel = DEFAULT_CONFIDENCE_LEVEL,
+): number {
+  return CONFIDENCE_LEVELS[confidenceLevel] * Math.sqrt(baselineTem ** 2 + currentTem ** 2);
+}
+
+type SiteValues = Partial<Record<MeasurementSiteKey, number>>;
+
+function toSiteValues(measurement: ComparableMeasurement): SiteValues {
+  const values: SiteValues = {};
+  ISAK_SITES.forEach((site) => {
+    const value = toNumberOrNull(measurement[site.key] ?? null);
+    if (value !== null) values[site.key] = value;
+  });
+  return values;
+}
+
+// Sitios que usa el fraccionamiento de Kerr (los perímetros no intervienen en las masas)
+const COMPOSITION_SITES: MeasurementSiteKey[] = [
+  "weight",
+  "height",
+  "triceps",
+  "subscapular",
+  "supraspinal",
+  "abdominal",
+  "thighSkinfold",
+  "calfSkinfold",
+  "humeral",
+  "femoral",
+];
+
+const SUM_OF_6_SITES: MeasurementSiteKey[] = [
+  "triceps",
+  "subscapular",
+  "supraspinal",
+  "abdominal",
+  "thighSkinfold",
+  "calfSkinfold",
+];
+
+function toCompositionData(values: SiteValues): MeasurementData | null {
+  if (COMPOSITION_SITES.some((site) => values[site] === undefined)) return null;
+  return {
+    weight: values.weight!,
+    height: values.height!,
+    triceps: values.triceps!,
+    subscapular: values.subscapular!,
+    supraspinal: values.supraspinal!,
+    abdominal: values.abdominal!,
+    thighSkinfold: values.thighSkinfold!,
+    calfSkinfold: values.calfSkinfold!,
+    humeral: values.humeral!,
+    femoral: values.femoral!,
+    relaxedArm: values.relaxedArm ?? 0,
+    flexedArm: values.flexedArm ?? 0,
+    forearm: values.forearm ?? 0,
+    thoraxCirc: values.thoraxCirc ?? 0,
+    waist: values.waist ?? 0,
+    hip: values.hip ?? 0,
+    thighMedial: values.thighMedial ?? 0,
+    calf: values.calf ?? 0,
+  };
+}
+
+interface DerivedMetricDefinition {
+  key: DerivedMetricKey;
+  label: string;
+  unit: string;
+  inputs: MeasurementSiteKey[];
+  compute: (values: SiteValues, context: ComparisonContext) => number | null;
+}
+
+const kerrMass =
+  (component: "adiposeMassKg" | "muscleMassKg" | "boneMassKg" | "skinMassKg" | "residualMassKg") =>
+  (values: SiteValues, context: ComparisonContext): number | null => {
+    const data = toCompositionData(values);
+    if (!data) return null;
+    const gender = normalizeGender(context.gender) === "F" ? "female" : "male";
+    return calculateBodyComposition(data, gender)[component];
+  };
+
+const correctedGirth =
+  (girth: MeasurementSiteKey, skinfold: MeasurementSiteKey, toValue: (corrected: number) => number = (corrected) => corrected) =>
+  (values: SiteValues): number | null =>
+    values[girth] !== undefined && values[skinfold] !== undefined
+      ? toValue(calculateCorrectedGirth(values[girth]!, values[skinfold]!))
+      : null;
+
+const DERIVED_METRICS: DerivedMetricDefinition[] = [
+  {
+    key: "sumOf6Skinfolds",
+    label: "Suma de 6 pliegues",
+    unit: "mm",
+    inputs: SUM_OF_6_SITES,
+    compute: (values) =>
+      SUM_OF_6_SITES.every((site) => values[site] !== undefined)
+        ? SUM_OF_6_SITES.reduce((sum, site) => sum + values[site]!, 0)
+        : null,
+  },
+  {
+    key: "bodyFatPercentage",
+    label: "% Grasa corporal",
+    unit: "%",
+    inputs: ISAK_SITES.filter((site) => site.group === "skinfold").map((site) => site.key),
+    compute: (values, context) =>
+      estimateBodyFat(
+        context.bodyFatEquation ?? DEFAULT_BODY_FAT_EQUATION,
+        values,
+        { age: context.age, gender: normalizeGender(context.gender) },
+        context.densityConversion ?? DEFAULT_DENSITY_CONVERSION,
+      )?.bodyFatPercentage ?? null,
+  },
+  { key: "adiposeMassKg", label: "Masa adiposa", unit: "kg", inputs: COMPOSITION_SITES, compute: kerrMass("adiposeMassKg") },
+  { key: "muscleMassKg", label: "Masa muscular", unit: "kg", inputs: COMPOSITION_SITES, compute: kerrMass("muscleMassKg") },
+  { key: "boneMassKg", label: "Masa ósea", unit: "kg", inputs: COMPOSITION_SITES, compute: kerrMass("boneMassKg") },
+  { key: "skinMassKg", label: "Masa de la piel", unit: "kg", inputs: COMPOSITION_SITES, compute: kerrMass("skinMassKg") },
+  { key: "residualMassKg", label: "Masa residual", unit: "kg", inputs: COMPOSITION_SITES, compute: kerrMass("residualMassKg") },
+  { key: "correctedArmGirth", label: "Perímetro de brazo corregido", unit: "cm", inputs: ["relaxedArm", "triceps"], compute: correctedGirth("relaxedArm", "triceps") },
+  { key: "correctedThighGirth", label: "Perímetro de muslo corregido", unit: "cm", inputs: ["thighMedial", "thighSkinfold"], compute: correctedGirth("thighMedial", "thighSkinfold") },
+  { key: "correctedCalfGirth", label: "Perímetro de pantorrilla corregido", unit: "cm", inputs: ["calf", "calfSkinfold"], compute: correctedGirth("calf", "calfSkinfold") },
+  {
+    key: "correctedArmMuscleArea",
+    label: "Área muscular del brazo corregida",
+    unit: "cm²",
+    inputs: ["relaxedArm", "triceps"],
+    compute: (values, context) => {
+      if (values.relaxedArm === undefined || values.triceps === undefined) return null;
+      const gender = normalizeGender(context.gender);
+      return calculateCorrectedArmMuscleArea(
+        values.relaxedArm,
+        values.triceps,
+        gender === "F" ? "female" : gender === "M" ? "male" : null,
+      );
+    },
+  },
+  {
+    key: "thighMuscleArea",
+    label: "Área muscular del muslo",
+    unit: "cm²",
+    inputs: ["thighMedial", "thighSkinfold"],
+    compute: correctedGirth("thighMedial", "thighSkinfold", calculateMuscleArea),
+  },
+];
+
+/**
+ * ETM de una variable derivada por propagación de errores de primer orden:
+ * cada sitio se desplaza en su ETM y se suman en cuadratura los cambios.
+ */
+function propagateTEM(
+  metric: DerivedMetricDefinition,
+  values: SiteValues,
+  context: ComparisonContext,
+  evaluatorTem: EvaluatorTEM | null | undefined,
+  baseValue: number,
+): number | null {
+  let sumSquares = 0;
+  for (const site of metric.inputs) {
+    const value = values[site];
+    if (value === undefined) continue;
+    const tem = getAbsoluteTEM(site, value, evaluatorTem);
+    if (tem === null) continue;
+    const shifted = metric.compute({ ...values, [site]: value + tem }, context);
+    if (shifted === null) return null;
+    sumSquares += (shifted - baseValue) ** 2;
+  }
+  return Math.sqrt(sumSquares);
+}
+
+const round = (value: number, decimals = 3) => parseFloat(value.toFixed(decimals));
+
+function buildEntry<K extends string>(
+  key: K,
+  label: string,
+  unit: string,
+  baseline: number,
+  current: number,
+  baselineTem: number | null,
+  currentTem: number | null,
+  confidenceLevel: ConfidenceLevel,
+): ComparisonEntry<K> {
+  const delta = current - baseline;
+  const mdc =
+    baselineTem !== null && currentTem !== null ? calculateMDC(baselineTem, currentTem, confidenceLevel) : null;
+  return {
+    key,
+    label,
+    unit,
+    baseline: round(baseline),
+    current: round(current),
+    delta: round(delta),
+    baselineTem: baselineTem !== null ? round(baselineTem) : null,
+    currentTem: currentTem !== null ? round(currentTem) : null,
+    mdc: mdc !== null ? round(mdc) : null,
+    significant: mdc !== null ? Math.abs(delta) > mdc : null,
+  };
+}
+
+/** Compara dos mediciones sitio por sitio y para las masas derivadas. */
+export function compareMeasurements(
+  baseline: ComparisonSide,
+  current: ComparisonSide,
+  context: ComparisonContext,
+  confidenceLevel: ConfidenceLevel = DEFAULT_CONFIDENCE_LEVEL,
+): MeasurementComparisonResult {
+  const baselineValues = toSiteValues(baseline.measurement);
+  const currentValues = toSiteValues(current.measurement);
+
+  const sites: SiteComparisonEntry[] = [];
+  ISAK_SITES.forEach((site) => {
+    const before = baselineValues[site.key];
+    const after = currentValues[site.key];
+    if (before === undefined || after === undefined) return;
+    sites.push({
+      ...buildEntry(
+        site.key,
+        site.label,
+        site.unit,
+        before,
+        after,
+        getAbsoluteTEM(site.key, before, baseline.evaluatorTem),
+        getAbsoluteTEM(site.key, after, current.evaluatorTem),
+        confidenceLevel,
+      ),
+      group: site.group,
+    });
+  });
+
+  const derived: ComparisonEntry<DerivedMetricKey>[] = [];
+  DERIVED_METRICS.forEach((metric) => {
+    const before = metric.compute(baselineValues, context);
+    const after = metric.compute(currentValues, context);
+    if (before === null || after === null) return;
+    derived.push(
+      buildEntry(
+        metric.key,
+        metric.label,
+        metric.unit,
+        before,
+        after,
+        propagateTEM(metric, baselineValues, context, baseline.evaluatorTem, before),
+        propagateTEM(metric, currentValues, context, current.evaluatorTem, after),
+        confidenceLevel,
+      ),
+    );
+  });
+
+  return { confidenceLevel, z: CONFIDENCE_LEVELS[confidenceLevel], sites, derived };
+}
@@ -0,0 +1,368 @@
+/**
+ * Validación de plausibilidad de una medición antes de guardarla: rangos
+ * fisiológicos por sitio, saltos respecto de la medición anterior del paciente
+ * y consistencia interna entre sitios. Las advertencias no bloquean: el
+ * profesional puede confirmarlas y la confirmación queda guardada con la
+ * medición (ver plausibilityOverrides en el esquema).
+ *
+ * Un salto se marca cuando la diferencia supera el cambio mínimo detectable
+ * (ETM de ambas mediciones) más el cambio fisiológico esperable para el
+ * tiempo transcurrido. Los rangos y ritmos de cambio son deliberadamente
+ * amplios: buscan errores de carga (95 en lugar de 9.5), no valores atípicos.
+ */
+
+import {
+  ISAK_SITES,
+  getMeasurementSite,
+  toNumberOrNull,
+  type EvaluatorTEM,
+  type MeasurementSiteGroup,
+  type MeasurementSiteKey,
+} from "./isak-calculations";
+import { calculateMDC, getAbsoluteTEM, type ComparableMeasurement } from "./measurement-comparison";
+
+export type PlausibilityCheck = "range" | "jump" | "consistency";
+export type PlausibilitySeverity = "warning" | "critical";
+
+export interface PlausibilityWarning {
+  /** Identificador estable ("range:triceps", "jump:weight", ...) para confirmar la advertencia. */
+  code: string;
+  check: PlausibilityCheck;
+  severity: PlausibilitySeverity;
+  sites: MeasurementSiteKey[];
+  message: string;
+  /** Valor observado: el del sitio, la diferencia o el índice según el control. */
+  value: number;
+  expectedMin: number | null;
+  expectedMax: number | null;
+  previousValue?: number;
+  /** Valor probable cuando parece un error de coma o de unidad (95 → 9.5). */
+  suggestion?: number;
+}
+
+/** Confirmación que envía el cliente para guardar pese a una advertencia. */
+export interface PlausibilityOverrideInput {
+  code: string;
+  value?: number | null;
+  reason?: string | null;
+}
+
+export interface PlausibilityContext {
+  /** Edad a la fecha de la medición; los menores usan límites inferiores y ritmos de crecimiento propios. */
+  age: number | null;
+  measurementDate: Date | string;
+  evaluatorTem?: EvaluatorTEM | null;
+  previous?: {
+    measurement: ComparableMeasurement;
+    measurementDate: Date | string;
+    evaluatorTem?: EvaluatorTEM | null;
+  } | null;
+}
+
+interface SiteRange {
+  min: number;
+  max: number;
+  /** Mínimo para menores de 18 años. */
+  pediatricMin?: number;
+}
+
+export const PLAUSIBLE_RANGES: Record<MeasurementSiteKey, SiteRange> = {
+  weight: { min: 30, max: 250, pediatricMin: 2 },
+  height: { min: 130, max: 220, pediatricMin: 45 },
+  seatedHeight: { min: 65, max: 115, pediatricMin: 30 },
+  triceps: { min: 2, max: 50 },
+  subscapular: { min: 3, max: 60 },
+  biceps: { min: 2, max: 40 },
+  suprailiac: { min: 3, max: 60 },
+  supraspinal: { min: 2, max: 50 },
+  abdominal: { min: 3, max: 70 },
+  thighSkinfold: { min: 3, max: 70 },
+  calfSkinfold: { min: 2, max: 50 },
+  chestSkinfold: { min: 2, max: 50 },
+  midaxillarySkinfold: { min: 2, max: 50 },
+  head: { min: 48, max: 64, pediatricMin: 30 },
+  relaxedArm: { min: 17, max: 55, pediatricMin: 10 },
+  flexedArm: { min: 18, max: 60, pediatricMin: 10 },
+  forearm: { min: 17, max: 45, pediatricMin: 10 },
+  thoraxCirc: { min: 65, max: 160, pediatricMin: 30 },
+  waist: { min: 50, max: 180, pediatricMin: 35 },
+  hip: { min: 65, max: 180, pediatricMin: 35 },
+  thighSuperior: { min: 38, max: 95, pediatricMin: 20 },
+  thighMedial: { min: 33, max: 85, pediatricMin: 18 },
+  calf: { min: 23, max: 60, pediatricMin: 12 },
+  biacromial: { min: 28, max: 50, pediatricMin: 12 },
+  biiliocristideo: { min: 20, max: 40, pediatricMin: 10 },
+  thoraxTransverse: { min: 20, max: 42, pediatricMin: 10 },
+  thoraxAnteroposterior: { min: 13, max: 34, pediatricMin: 7 },
+  humeral: { min: 5, max: 9, pediatricMin: 3 },
+  femoral: { min: 7, max: 12.5, pediatricMin: 4 },
+};
+
+/**
+ * Cambio fisiológico admitido entre mediciones, como fracción del valor
+ * anterior: base (variación de marcas y técnica) + ritmo semanal hasta un tope.
+ */
+interface ChangeAllowance {
+  base: number;
+  weekly: number;
+  max: number;
+}
+
+const CHANGE_ALLOWANCES: Record<MeasurementSiteGroup, ChangeAllowance> = {
+  basic: { base: 0.01, weekly: 0.015, max: 0.3 },
+  skinfold: { base: 0.15, weekly: 0.1, max: 1 },
+  perimeter: { base: 0.02, weekly: 0.01, max: 0.25 },
+  diameter: { base: 0.04, weekly: 0, max: 0 },
+};
+
+// En adultos la talla y el perímetro cefálico se comportan como los diámetros óseos
+const SITE_CHANGE_ALLOWANCES: Partial<Record<MeasurementSiteKey, ChangeAllowance>> = {
+  height: { base: 0.005, weekly: 0, max: 0 },
+  seatedHeight: { base: 0.01, weekly: 0, max: 0 },
+  head: { base: 0.01, weekly: 0, max: 0 },
+};
+
+// Crecimiento admitido en menores de 18 años para los sitios esqueléticos
+const GROWTH_SITES: MeasurementSiteKey[] = [
+  "height",
+  "seatedHeight",
+  "head",
+  "biacromial",
+  "biiliocristideo",
+  "thoraxTransverse",
+  "thoraxAnteroposterior",
+  "humeral",
+  "femoral",
+];
+const GROWTH_ALLOWANCE = { weekly: 0.003, max: 0.5 };
+
+const PEDIATRIC_AGE_LIMIT = 18;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WAIST_HIP_RATIO_RANGE = { min: 0.6, max: 1.25 };
+const CORMIC_INDEX_RANGE = { min: 0.45, max: 0.6, pediatricMax: 0.7 };
+
+// Perímetros corregidos por el pliegue del mismo segmento (perímetro − π · pliegue)
+const CORRECTED_GIRTHS: { girth: MeasurementSiteKey; skinfold: MeasurementSiteKey }[] = [
+  { girth: "relaxedArm", skinfold: "triceps" },
+  { girth: "thighMedial", skinfold: "thighSkinfold" },
+  { girth: "calf", skinfold: "calfSkinfold" },
+];
+
+const round = (value: number, digits = 2) => parseFloat(value.toFixed(digits));
+
+const siteLabel = (site: MeasurementSiteKey) => getMeasurementSite(site)?.label ?? site;
+
+const formatValue = (value: number, site: MeasurementSiteKey) =>
+  `${round(value)} ${getMeasurementSite(site)?.unit ?? ""}`.trim();
+
+function getRange(site: MeasurementSiteKey, isPediatric: boolean): { min: number; max: number } {
+  const range = PLAUSIBLE_RANGES[site];
+  return { min: isPediatric ? (range.pediatricMin ?? range.min) : range.min, max: range.max };
+}
+
+// Coma omitida (95 en lugar de 9.5) o talla en metros (1.75 en lugar de 175)
+function suggestCorrection(value: number, range: { min: number; max: number }): number | undefined {
+  for (const factor of [0.1, 100]) {
+    const candidate = round(value * factor);
+    if (candidate >= range.min && candidate <= range.max) return candidate;
+  }
+  return undefined;
+}
+
+function checkRanges(values: Partial<Record<MeasurementSiteKey, number>>, isPediatric: boolean): PlausibilityWarning[] {
+  const warnings: PlausibilityWarning[] = [];
+  ISAK_SITES.forEach(({ key }) => {
+    const value = values[key];
+    if (value === undefined) return;
+    const range = getRange(key, isPediatric);
+    if (value >= range.min && value <= range.max) return;
+
+    const suggestion = suggestCorrection(value, range);
+    warnings.push({
+      code: `range:${key}`,
+      check: "range",
+      severity: "critical",
+      sites: [key],
+      message:
+        `${siteLabel(key)}: ${formatValue(value, key)} está fuera del rango fisiológico (${range.min}–${range.max})` +
+        (suggestion !== undefined ? `. ¿Quisiste cargar ${suggestion}?` : "."),
+      value,
+      expectedMin: range.min,
+      expectedMax: range.max,
+      ...(suggestion !== undefined ? { suggestion } : {}),
+    });
+  });
+  return warnings;
+}
+
+function getChangeAllowance(site: MeasurementSiteKey, group: MeasurementSiteGroup, isPediatric: boolean): ChangeAllowance {
+  const allowance = SITE_CHANGE_ALLOWANCES[site] ?? CHANGE_ALLOWANCES[group];
+  if (!isPediatric || !GROWTH_SITES.includes(site)) return allowance;
+  return {
+    base: allowance.base,
+    weekly: allowance.weekly + GROWTH_ALLOWANCE.weekly,
+    max: allowance.max + GROWTH_ALLOWANCE.max,
+  };
+}
+
+function checkJumps(
+  values: Partial<Record<MeasurementSiteKey, number>>,
+  context: PlausibilityContext,
+  isPediatric: boolean,
+): PlausibilityWarning[] {
+  const previous = context.previous;
+  if (!previous) return [];
+  const days = Math.max(
+    0,
+    (new Date(context.measurementDate).getTime() - new Date(previous.measurementDate).getTime()) / DAY_MS,
+  );
+  const weeks = Math.max(1, days / 7);
+
+  const warnings: PlausibilityWarning[] = [];
+  ISAK_SITES.forEach(({ key, group }) => {
+    const current = values[key];
+    const before = toNumberOrNull(previous.measurement[key] ?? null);
+    if (current === undefined || before === null || before <= 0) return;
+
+    const currentTem = getAbsoluteTEM(key, current, context.evaluatorTem);
+    const previousTem = getAbsoluteTEM(key, before, previous.evaluatorTem);
+    const mdc = currentTem !== null && previousTem !== null ? calculateMDC(previousTem, currentTem) : 0;
+    const allowance = getChangeAllowance(key, group, isPediatric);
+    // Un menor no "decrece": la tolerancia de crecimiento sólo vale hacia arriba
+    const growthOnly = isPediatric && GROWTH_SITES.includes(key) && current < before;
+    const fraction = allowance.base + (growthOnly ? 0 : Math.min(allowance.max, allowance.weekly * weeks));
+    const limit = mdc + before * fraction;
+    const delta = current - before;
+    if (Math.abs(delta) <= limit) return;
+
+    warnings.push({
+      code: `jump:${key}`,
+      check: "jump",
+      severity: Math.abs(delta) > limit * 2 ? "critical" : "warning",
+      sites: [key],
+      message:
+        `${siteLabel(key)}: ${delta > 0 ? "+" : ""}${formatValue(delta, key)} respecto de la medición anterior ` +
+        `(${formatValue(before, key)} hace ${Math.round(days)} días); el cambio esperable es de hasta ±${formatValue(limit, key)}.`,
+      value: current,
+      previousValue: before,
+      expectedMin: round(before - limit),
+      expectedMax: round(before + limit),
+    });
+  });
+  return warnings;
+}
+
+function checkConsistency(values: Partial<Record<MeasurementSiteKey, number>>, isPediatric: boolean): PlausibilityWarning[] {
+  const warnings: PlausibilityWarning[] = [];
+  const { relaxedArm, flexedArm, waist, hip, thighSuperior, thighMedial, height, seatedHeight } = values;
+
+  if (relaxedArm !== undefined && flexedArm !== undefined && flexedArm < relaxedArm) {
+    warnings.push({
+      code: "consistency:flexedArm-relaxedArm",
+      check: "consistency",
+      severity: "warning",
+      sites: ["flexedArm", "relaxedArm"],
+      message: `El brazo flexionado (${formatValue(flexedArm, "flexedArm")}) es menor que el relajado (${formatValue(relaxedArm, "relaxedArm")}). ¿Están invertidos?`,
+      value: round(flexedArm - relaxedArm),
+      expectedMin: 0,
+      expectedMax: null,
+    });
+  }
+
+  if (thighSuperior !== undefined && thighMedial !== undefined && thighSuperior < thighMedial) {
+    warnings.push({
+      code: "consistency:thighSuperior-thighMedial",
+      check: "consistency",
+      severity: "warning",
+      sites: ["thighSuperior", "thighMedial"],
+      message: `El muslo superior (${formatValue(thighSuperior, "thighSuperior")}) es menor que el medial (${formatValue(thighMedial, "thighMedial")}).`,
+      value: round(thighSuperior - thighMedial),
+      expectedMin: 0,
+      expectedMax: null,
+    });
+  }
+
+  if (waist !== undefined && hip !== undefined && hip > 0) {
+    const ratio = waist / hip;
+    if (ratio < WAIST_HIP_RATIO_RANGE.min || ratio > WAIST_HIP_RATIO_RANGE.max) {
+      warnings.push({
+        code: "consistency:waist-hip",
+        check: "consistency",
+        severity: "warning",
+        sites: ["waist", "hip"],
+        message: `Índice cintura/cadera de ${ratio.toFixed(2)} (cintura ${formatValue(waist, "waist")}, cadera ${formatValue(hip, "hip")}), fuera de ${WAIST_HIP_RATIO_RANGE.min}–${WAIST_HIP_RATIO_RANGE.max}.`,
+        value: round(ratio),
+        expectedMin: WAIST_HIP_RATIO_RANGE.min,
+        expectedMax: WAIST_HIP_RATIO_RANGE.max,
+      });
+    }
+  }
+
+  if (height !== undefined && seatedHeight !== undefined && height > 0) {
+    const cormic = seatedHeight / height;
+    const max = isPediatric ? CORMIC_INDEX_RANGE.pediatricMax : CORMIC_INDEX_RANGE.max;
+    if (cormic < CORMIC_INDEX_RANGE.min || cormic > max) {
+      warnings.push({
+        code: "consistency:seatedHeight-height",
+        check: "consistency",
+        severity: cormic >= 1 ? "critical" : "warning",
+        sites: ["seatedHeight", "height"],
+        message: `La talla sentado es el ${Math.round(cormic * 100)} % de la talla (esperable ${Math.round(CORMIC_INDEX_RANGE.min * 100)}–${Math.round(max * 100)} %).`,
+        value: round(cormic),
+        expectedMin: CORMIC_INDEX_RANGE.min,
+        expectedMax: max,
+      });
+    }
+  }
+
+  CORRECTED_GIRTHS.forEach(({ girth, skinfold }) => {
+    const girthValue = values[girth];
+    const skinfoldValue = values[skinfold];
+    if (girthValue === undefined || skinfoldValue === undefined) return;
+    const corrected = girthValue - Math.PI * (skinfoldValue / 10);
+    if (corrected > 0) return;
+    warnings.push({
+      code: `consistency:corrected-${girth}`,
+      check: "consistency",
+      severity: "critical",
+      sites: [girth, skinfold],
+      message: `El pliegue ${siteLabel(skinfold).toLowerCase()} (${formatValue(skinfoldValue, skinfold)}) no es compatible con el perímetro ${siteLabel(girth).toLowerCase()} (${formatValue(girthValue, girth)}): el perímetro corregido da ${round(corrected, 1)} cm.`,
+      value: round(corrected),
+      expectedMin: 0,
+      expectedMax: null,
+    });
+  });
+
+  return warnings;
+}
+
+export function checkMeasurementPlausibility(
+  measurement: ComparableMeasurement,
+  context: PlausibilityContext,
+): PlausibilityWarning[] {
+  const values: Partial<Record<MeasurementSiteKey, number>> = {};
+  ISAK_SITES.forEach(({ key }) => {
+    const value = toNumberOrNull(measurement[key] ?? null);
+    if (value !== null) values[key] = value;
+  });
+  const isPediatric = context.age !== null && context.age < PEDIATRIC_AGE_LIMIT;
+
+  return [
+    ...checkRanges(values, isPediatric),
+    ...checkJumps(values, context, isPediatric),
+    ...checkConsistency(values, isPediatric),
+  ];
+}
+
+/**
+ * Una confirmación cubre la advertencia con el mismo código y el mismo valor:
+ * si el valor se vuelve a cambiar, hay que confirmarlo de nuevo.
+ */
+export function isWarningOverridden(warning: PlausibilityWarning, overrides: PlausibilityOverrideInput[]): boolean {
+  return overrides.some(
+    (override) =>
+      override.code === warning.code &&
+      (override.value === undefined || override.value === null || round(override.value) === round(warning.value)),
+  );
+}
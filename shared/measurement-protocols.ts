@@ -0,0 +1,230 @@
+/**
+ * Perfiles de protocolo antropométrico. Cada perfil declara los sitios
+ * obligatorios y opcionales; el formulario muestra sólo esos sitios en el
+ * orden de medición ISAK y, antes de medir, se informa qué cálculos quedan
+ * habilitados (calculateAll omite en silencio los que no tienen sus datos).
+ */
+
+import { ISAK_SITES, type MeasurementSiteKey } from "./isak-calculations";
+import { BODY_FAT_EQUATIONS, normalizeGender, type BodyFatEquationId } from "./body-fat-equations";
+import type { CustomProtocol } from "./schema";
+
+export interface MeasurementProtocol {
+  id: string;
+  label: string;
+  description: string | null;
+  requiredSites: MeasurementSiteKey[];
+  optionalSites: MeasurementSiteKey[];
+  builtIn: boolean;
+}
+
+const SIX_SKINFOLDS: MeasurementSiteKey[] = [
+  "triceps",
+  "subscapular",
+  "supraspinal",
+  "abdominal",
+  "thighSkinfold",
+  "calfSkinfold",
+];
+
+// Los 8 pliegues del perfil ISAK (los 6 de la sumatoria + bíceps y cresta ilíaca)
+const ISAK_SKINFOLDS: MeasurementSiteKey[] = [...SIX_SKINFOLDS, "biceps", "suprailiac"];
+
+const SOMATOTYPE_SITES: MeasurementSiteKey[] = [
+  "weight",
+  "height",
+  "triceps",
+  "subscapular",
+  "supraspinal",
+  "calfSkinfold",
+  "flexedArm",
+  "calf",
+  "humeral",
+  "femoral",
+];
+
+const FIVE_COMPONENT_SITES: MeasurementSiteKey[] = [
+  "weight",
+  "height",
+  ...SIX_SKINFOLDS,
+  "relaxedArm",
+  "flexedArm",
+  "forearm",
+  "thoraxCirc",
+  "waist",
+  "hip",
+  "thighMedial",
+  "calf",
+  "humeral",
+  "femoral",
+];
+
+const JACKSON_POLLOCK_SKINFOLDS: MeasurementSiteKey[] = [
+  "chestSkinfold",
+  "midaxillarySkinfold",
+  "triceps",
+  "subscapular",
+  "abdominal",
+  "suprailiac",
+  "thighSkinfold",
+];
+
+const ALL_SITES = ISAK_SITES.map((site) => site.key);
+const NON_ISAK_SITES: MeasurementSiteKey[] = ["chestSkinfold", "midaxillarySkinfold"];
+
+export const BUILT_IN_PROTOCOLS: MeasurementProtocol[] = [
+  {
+    id: "isak_restricted",
+    label: "ISAK restringido",
+    description: "Perfil restringido de 17 sitios: masa, talla, 8 pliegues, 5 perímetros y 2 diámetros.",
+    requiredSites: ["weight", "height", ...ISAK_SKINFOLDS, "relaxedArm", "flexedArm", "waist", "hip", "calf", "humeral", "femoral"],
+    optionalSites: ["seatedHeight"],
+    builtIn: true,
+  },
+  {
+    id: "isak_full",
+    label: "ISAK completo",
+    description: "Perfil completo sin longitudes: habilita el fraccionamiento en cinco componentes y la proporcionalidad.",
+    requiredSites: ALL_SITES.filter((site) => !NON_ISAK_SITES.includes(site)),
+    optionalSites: NON_ISAK_SITES,
+    builtIn: true,
+  },
+  {
+    id: "quick_check",
+    label: "Control rápido",
+    description: "Peso y cintura para controles entre evaluaciones completas.",
+    requiredSites: ["weight", "waist"],
+    optionalSites: ["height", "hip"],
+    builtIn: true,
+  },
+  {
+    id: "sport_somatotype",
+    label: "Deportivo: somatotipo",
+    description: "Los 10 sitios del somatotipo de Heath-Carter, más los pliegues para la sumatoria de 6.",
+    requiredSites: SOMATOTYPE_SITES,
+    optionalSites: ["abdominal", "thighSkinfold", "relaxedArm", "waist", "hip"],
+    builtIn: true,
+  },
+  {
+    id: "sport_jackson_pollock",
+    label: "Gimnasio: Jackson & Pollock",
+    description: "Siete pliegues de Jackson & Pollock con perímetros de seguimiento.",
+    requiredSites: ["weight", "height", ...JACKSON_POLLOCK_SKINFOLDS],
+    optionalSites: ["relaxedArm", "flexedArm", "waist", "hip", "thighMedial"],
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_PROTOCOL_ID = "isak_restricted";
+
+export function isMeasurementSiteKey(value: unknown): value is MeasurementSiteKey {
+  return typeof value === "string" && ALL_SITES.includes(value as MeasurementSiteKey);
+}
+
+function toProtocol(custom: CustomProtocol): MeasurementProtocol {
+  const requiredSites = custom.requiredSites.filter(isMeasurementSiteKey);
+  return {
+    id: custom.id,
+    label: custom.label,
+    description: custom.description ?? null,
+    requiredSites,
+    optionalSites: custom.optionalSites.filter((site) => isMeasurementSiteKey(site) && !requiredSites.includes(site)) as MeasurementSiteKey[],
+    builtIn: false,
+  };
+}
+
+export function listProtocols(customProtocols: CustomProtocol[] | null | undefined): MeasurementProtocol[] {
+  return [...BUILT_IN_PROTOCOLS, ...(customProtocols ?? []).map(toProtocol)];
+}
+
+export function findProtocol(
+  id: string | null | undefined,
+  customProtocols: CustomProtocol[] | null | undefined,
+): MeasurementProtocol | null {
+  if (!id) return null;
+  return listProtocols(customProtocols).find((protocol) => protocol.id === id) ?? null;
+}
+
+/** Sitios del perfil en el orden de medición ISAK (básicos, pliegues, perímetros, diámetros). */
+export function getProtocolSites(protocol: MeasurementProtocol): MeasurementSiteKey[] {
+  return ALL_SITES.filter((site) => protocol.requiredSites.includes(site) || protocol.optionalSites.includes(site));
+}
+
+const hasValue = (value: unknown) =>
+  value !== null && value !== undefined && value !== "" && Number.isFinite(Number(value));
+
+export function getMissingRequiredSites(
+  protocol: MeasurementProtocol,
+  values: Partial<Record<MeasurementSiteKey, unknown>>,
+): MeasurementSiteKey[] {
+  return protocol.requiredSites.filter((site) => !hasValue(values[site]));
+}
+
+export type ProtocolCalculationId =
+  | "bmi"
+  | "waistHipRatio"
+  | "sumOf6Skinfolds"
+  | "bodyFat"
+  | "somatotype"
+  | "fiveComponent"
+  | "energy";
+
+/**
+ * enabled: lo garantizan los sitios obligatorios; optional: depende de cargar
+ * sitios opcionales; unavailable: al perfil le faltan sitios.
+ */
+export type ProtocolCalculationStatus = "enabled" | "optional" | "unavailable";
+
+export interface ProtocolCalculation {
+  id: ProtocolCalculationId;
+  label: string;
+  status: ProtocolCalculationStatus;
+  /** Sitios del cálculo que el perfil no incluye (o que son opcionales si status es optional). */
+  missingSites: MeasurementSiteKey[];
+}
+
+export interface ProtocolCalculationContext {
+  bodyFatEquation: BodyFatEquationId;
+  gender?: string | null;
+}
+
+function getCalculationRequirements(context: ProtocolCalculationContext) {
+  const equation = BODY_FAT_EQUATIONS[context.bodyFatEquation];
+  return [
+    { id: "bmi" as const, label: "IMC", sites: ["weight", "height"] as MeasurementSiteKey[] },
+    { id: "waistHipRatio" as const, label: "Índice cintura/cadera", sites: ["waist", "hip"] as MeasurementSiteKey[] },
+    { id: "sumOf6Skinfolds" as const, label: "Sumatoria de 6 pliegues", sites: SIX_SKINFOLDS },
+    {
+      id: "bodyFat" as const,
+      label: `% de grasa (${equation.label})`,
+      sites: ["weight", ...equation.requiredSites(normalizeGender(context.gender ?? null))] as MeasurementSiteKey[],
+    },
+    { id: "somatotype" as const, label: "Somatotipo de Heath-Carter", sites: SOMATOTYPE_SITES },
+    { id: "fiveComponent" as const, label: "Fraccionamiento en 5 componentes (Kerr)", sites: FIVE_COMPONENT_SITES },
+    { id: "energy" as const, label: "Gasto energético y macronutrientes", sites: ["weight", "height"] as MeasurementSiteKey[] },
+  ];
+}
+
+export function getProtocolCalculations(
+  protocol: MeasurementProtocol,
+  context: ProtocolCalculationContext,
+): ProtocolCalculation[] {
+  return getCalculationRequirements(context).map(({ id, label, sites }) => {
+    const notRequired = sites.filter((site) => !protocol.requiredSites.includes(site));
+    const notIncluded = notRequired.filter((site) => !protocol.optionalSites.includes(site));
+    const status: ProtocolCalculationStatus =
+      notRequired.length === 0 ? "enabled" : notIncluded.length === 0 ? "optional" : "unavailable";
+    return { id, label, status, missingSites: status === "unavailable" ? notIncluded : notRequired };
+  });
+}
+
+/** Perfil tal como lo devuelve la API: sitios en orden ISAK y cálculos que habilita. */
+export interface MeasurementProtocolSummary extends MeasurementProtocol {
+  sites: MeasurementSiteKey[];
+  calculations: ProtocolCalculation[];
+}
+
+export interface MeasurementProtocolsResponse {
+  defaultProtocolId: string;
+  protocols: MeasurementProtocolSummary[];
+}
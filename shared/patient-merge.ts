@@ -0,0 +1,264 @@
+/**
+ * Pacientes duplicados: puntaje de similitud entre pares de fichas (nombre,
+ * email, teléfono y fecha de nacimiento) y resolución campo a campo de los
+ * datos de la ficha que sobrevive a una fusión.
+ */
+
+import { z } from "zod";
+import type { Patient } from "./schema";
+
+// Puntos por coincidencia; un par se propone como duplicado desde DUPLICATE_SCORE_THRESHOLD
+const NAME_POINTS = 50;
+const EMAIL_POINTS = 30;
+const PHONE_POINTS = 25;
+const BIRTH_DATE_POINTS = 20;
+const BIRTH_DATE_MISMATCH_PENALTY = 30;
+const MIN_NAME_SIMILARITY = 0.6;
+// Se comparan los últimos dígitos para ignorar +54, 9 y característica
+const PHONE_DIGITS_COMPARED = 8;
+
+export const DUPLICATE_SCORE_THRESHOLD = 50;
+
+export type DuplicateReasonKind = "name" | "email" | "phone" | "birthDate" | "birthDateMismatch";
+
+export interface DuplicateReason {
+  kind: DuplicateReasonKind;
+  label: string;
+}
+
+export interface DuplicateScore {
+  /** 0 a 100. */
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+type DuplicateComparable = Pick<Patient, "name" | "email" | "phone"> & {
+  birthDate: Date | string | null;
+};
+
+export function normalizePersonName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, " ");
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    pairs.push(compact.slice(i, i + 2));
+  }
+  return pairs;
+}
+
+/**
+ * Coeficiente de Dice sobre bigramas de los nombres normalizados (sin tildes
+ * y con las palabras ordenadas, así "Pérez Juan" y "Juan Perez" dan 1).
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizePersonName(a);
+  const right = normalizePersonName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  if (leftPairs.length === 0 || rightPairs.length === 0) return 0;
+
+  const remaining = [...rightPairs];
+  let matches = 0;
+  for (const pair of leftPairs) {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      matches++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * matches) / (leftPairs.length + rightPairs.length);
+}
+
+function normalizeEmail(email: string | null | undefined): string | null {
+  const value = email?.trim().toLowerCase();
+  return value ? value : null;
+}
+
+function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = phone?.replace(/\D/g, "") ?? "";
+  return digits.length >= 6 ? digits.slice(-PHONE_DIGITS_COMPARED) : null;
+}
+
+function toDateKey(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+export function scoreDuplicatePair(a: DuplicateComparable, b: DuplicateComparable): DuplicateScore {
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= MIN_NAME_SIMILARITY) {
+    score += Math.round(similarity * NAME_POINTS);
+    reasons.push({
+      kind: "name",
+      label: similarity === 1 ? "Mismo nombre" : `Nombre similar (${Math.round(similarity * 100)}%)`,
+    });
+  }
+
+  const emailA = normalizeEmail(a.email);
+  if (emailA && emailA === normalizeEmail(b.email)) {
+    score += EMAIL_POINTS;
+    reasons.push({ kind: "email", label: "Mismo email" });
+  }
+
+  const phoneA = normalizePhone(a.phone);
+  if (phoneA && phoneA === normalizePhone(b.phone)) {
+    score += PHONE_POINTS;
+    reasons.push({ kind: "phone", label: "Mismo teléfono" });
+  }
+
+  const birthA = toDateKey(a.birthDate);
+  const birthB = toDateKey(b.birthDate);
+  if (birthA && birthB) {
+    if (birthA === birthB) {
+      score += BIRTH_DATE_POINTS;
+      reasons.push({ kind: "birthDate", label: "Misma fecha de nacimiento" });
+    } else {
+      // Hermanos o familiares que comparten email o teléfono
+      score -= BIRTH_DATE_MISMATCH_PENALTY;
+      reasons.push({ kind: "birthDateMismatch", label: "Fecha de nacimiento distinta" });
+    }
+  }
+
+  return { score: Math.max(0, Math.min(100, score)), reasons };
+}
+
+export interface DuplicatePair<T> extends DuplicateScore {
+  patients: [T, T];
+}
+
+/** Pares con puntaje desde DUPLICATE_SCORE_THRESHOLD, del más probable al menos probable. */
+export function findDuplicatePairs<T extends DuplicateComparable>(patients: T[]): DuplicatePair<T>[] {
+  const pairs: DuplicatePair<T>[] = [];
+  for (let i = 0; i < patients.length; i++) {
+    for (let j = i + 1; j < patients.length; j++) {
+      const result = scoreDuplicatePair(patients[i], patients[j]);
+      if (result.score >= DUPLICATE_SCORE_THRESHOLD) {
+        pairs.push({ ...result, patients: [patients[i], patients[j]] });
+      }
+    }
+  }
+  return pairs.sort((a, b) => b.score - a.score);
+}
+
+// ===== Fusión =====
+
+/** Datos de la ficha que se resuelven al fusionar (el resto es metadato). */
+export const MERGEABLE_PATIENT_FIELDS = [
+  "name",
+  "email",
+  "phone",
+  "birthDate",
+  "gender",
+  "objective",
+  "notes",
+  "avatarUrl",
+  "exercisesRegularly",
+  "sportType",
+  "exerciseDays",
+  "exerciseSchedule",
+  "trainingSessions",
+  "competitionWeekdays",
+  "mealDistribution",
+  "isVegetarian",
+  "isVegan",
+  "foodAllergies",
+  "foodDislikes",
+  "allergens",
+  "medicalConditions",
+  "medications",
+  "referencePopulation",
+] as const;
+export type MergeablePatientField = (typeof MERGEABLE_PATIENT_FIELDS)[number];
+
+export type MergeFieldSource = "survivor" | "duplicate";
+
+export const patientMergeRequestSchema = z.object({
+  survivorId: z.string().min(1),
+  duplicateId: z.string().min(1),
+  /** Versión de la ficha que sobrevive, como en cualquier edición. */
+  survivorVersion: z.number().int(),
+  /** Campos en conflicto: de qué ficha se toma el valor. Los omitidos quedan como en la que sobrevive. */
+  fieldChoices: z.record(z.enum(MERGEABLE_PATIENT_FIELDS), z.enum(["survivor", "duplicate"])).default({}),
+});
+export type PatientMergeRequest = z.infer<typeof patientMergeRequestSchema>;
+
+/** Registros reasignados a la ficha que sobrevive, por tipo. */
+export const PATIENT_MERGE_RECORD_LABELS = {
+  measurements: "Mediciones",
+  consultations: "Consultas",
+  reports: "Informes",
+  biochemicalResults: "Análisis bioquímicos",
+  biaMeasurements: "Mediciones BIA",
+  groupMemberships: "Grupos",
+  dietAssignments: "Dietas asignadas",
+  dietGenerations: "Dietas generadas",
+  weeklyPlanAssignments: "Planes semanales",
+  appointments: "Turnos",
+  followUpContacts: "Contactos de seguimiento",
+  patientShareLinks: "Enlaces al portal",
+} as const;
+export type PatientMergeRecordType = keyof typeof PATIENT_MERGE_RECORD_LABELS;
+export type PatientMergeMovedRecords = Record<PatientMergeRecordType, number>;
+
+type MergeablePatient = Record<MergeablePatientField, unknown>;
+
+// Los flags en false son el valor por defecto del alta, no un dato cargado
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === false ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) => (value instanceof Date ? value.toISOString() : value);
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/** Campos cargados en ambas fichas con valores distintos: los que hay que resolver a mano. */
+export function getPatientMergeConflicts(survivor: MergeablePatient, duplicate: MergeablePatient): MergeablePatientField[] {
+  return MERGEABLE_PATIENT_FIELDS.filter(
+    (field) =>
+      !isEmptyValue(survivor[field]) && !isEmptyValue(duplicate[field]) && !sameValue(survivor[field], duplicate[field]),
+  );
+}
+
+/**
+ * Cambios a aplicar en la ficha que sobrevive: lo que sólo tiene el duplicado
+ * se completa solo y los conflictos se toman según fieldChoices.
+ */
+export function resolvePatientMergeUpdates(
+  survivor: MergeablePatient,
+  duplicate: MergeablePatient,
+  fieldChoices: Partial<Record<MergeablePatientField, MergeFieldSource>>,
+): Partial<Record<MergeablePatientField, unknown>> {
+  const updates: Partial<Record<MergeablePatientField, unknown>> = {};
+  for (const field of MERGEABLE_PATIENT_FIELDS) {
+    if (isEmptyValue(duplicate[field]) || sameValue(survivor[field], duplicate[field])) continue;
+    if (isEmptyValue(survivor[field]) || fieldChoices[field] === "duplicate") {
+      updates[field] = duplicate[field];
+    }
+  }
+  return updates;
+}
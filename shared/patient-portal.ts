@@ -0,0 +1,73 @@
+/**
+ * Portal del paciente: lo que ve quien abre un enlace compartido (plan
+ * semanal vigente, informes, evolución y notas marcadas para compartir).
+ * Sólo viaja lo que se arma acá; nunca registros completos.
+ */
+
+import { z } from "zod";
+
+export const DEFAULT_SHARE_LINK_DAYS = 30;
+export const MAX_SHARE_LINK_DAYS = 180;
+
+export const patientShareLinkRequestSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_LINK_DAYS).default(DEFAULT_SHARE_LINK_DAYS),
+});
+export type PatientShareLinkRequest = z.infer<typeof patientShareLinkRequestSchema>;
+
+/** Enlace tal como lo ve el profesional en la ficha del paciente. */
+export interface PatientShareLinkSummary {
+  id: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  lastAccessedAt: string | null;
+  createdAt: string;
+  active: boolean;
+  /** Ruta del portal (sólo en los vigentes). */
+  url: string | null;
+}
+
+export interface PortalPlanMeal {
+  dayOfWeek: number; // 1 = lunes ... 7 = domingo
+  mealSlot: string;
+  slotOrder: number;
+  suggestedTime: string | null;
+  name: string;
+  description: string | null;
+  portionSize: string | null;
+}
+
+export interface PortalPlan {
+  name: string;
+  goal: string | null;
+  dailyCalories: number | null;
+  startDate: string | null;
+  endDate: string | null;
+  meals: PortalPlanMeal[];
+}
+
+export interface PortalReport {
+  id: string;
+  createdAt: string;
+}
+
+export interface PortalEvolutionPoint {
+  date: string;
+  weight: number | null;
+  bodyFatPercentage: number | null;
+  fatMassKg: number | null;
+}
+
+export interface PortalNote {
+  date: string;
+  text: string;
+}
+
+export interface PatientPortalData {
+  firstName: string;
+  practiceName: string | null;
+  expiresAt: string;
+  plan: PortalPlan | null;
+  reports: PortalReport[];
+  evolution: PortalEvolutionPoint[];
+  notes: PortalNote[];
+}
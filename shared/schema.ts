@@ -8,6 +8,7 @@ export const patientGroups = pgTable("patient_groups", {
   name: text("name").notNull(),
   description: text("description"),
   color: text("color").notNull().default("#3b82f6"), // Color hex para diferenciar grupos visualmente
+  followUpCadenceDays: integer("follow_up_cadence_days"), // días entre controles de sus miembros (null = según objetivo)
   version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -18,11 +19,87 @@ export const insertPatientGroupSchema = createInsertSchema(patientGroups).omit({
   version: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  followUpCadenceDays: z.number().int().min(7).max(365).nullable().optional(),
 });
 export type InsertPatientGroup = z.infer<typeof insertPatientGroupSchema>;
 export type PatientGroup = typeof patientGroups.$inferSelect;
 
 // Patients Table
+// Sesión de la agenda semanal de entrenamiento (MET del Compendio de Actividades Físicas)
+export const trainingIntensitySchema = z.enum(["baja", "moderada", "alta"]);
+export type TrainingIntensity = z.infer<typeof trainingIntensitySchema>;
+
+export const trainingSessionSchema = z.object({
+  weekday: z.number().int().min(1).max(7), // 1 = lunes ... 7 = domingo
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullable(), // "18:00"
+  durationMinutes: z.number().int().min(1).max(600),
+  sport: z.string().trim().min(1),
+  intensity: trainingIntensitySchema,
+  met: z.number().min(1).max(25),
+});
+export type TrainingSession = z.infer<typeof trainingSessionSchema>;
+
+// Alérgenos de declaración obligatoria (los 14 del Reglamento UE 1169/2011); etiquetas y palabras clave en allergens.ts
+export const majorAllergenSchema = z.enum([
+  "gluten",
+  "crustaceans",
+  "eggs",
+  "fish",
+  "peanuts",
+  "soy",
+  "milk",
+  "tree_nuts",
+  "celery",
+  "mustard",
+  "sesame",
+  "sulphites",
+  "lupin",
+  "molluscs",
+]);
+export type MajorAllergen = z.infer<typeof majorAllergenSchema>;
+
+export const allergySeveritySchema = z.enum(["allergy", "intolerance", "preference"]);
+export type AllergySeverity = z.infer<typeof allergySeveritySchema>;
+
+// Alergia, intolerancia o preferencia del paciente: uno de los 14 o un alimento propio ("custom")
+export const patientAllergenSchema = z
+  .object({
+    allergen: z.union([majorAllergenSchema, z.literal("custom")]),
+    customName: z.string().trim().max(80).nullable().optional(), // sólo para "custom": "kiwi", "durazno"
+    severity: allergySeveritySchema,
+  })
+  .refine((entry) => entry.allergen !== "custom" || Boolean(entry.customName), {
+    message: "Indicá el alimento",
+    path: ["customName"],
+  });
+export type PatientAllergen = z.infer<typeof patientAllergenSchema>;
+
+// Fracción de las calorías y macros del día que va a cada comida (debe sumar 1)
+export const mealDistributionSchema = z
+  .object({
+    breakfast: z.number().min(0).max(1),
+    snack1: z.number().min(0).max(1),
+    lunch: z.number().min(0).max(1),
+    snack2: z.number().min(0).max(1),
+    dinner: z.number().min(0).max(1),
+  })
+  .refine(
+    (distribution) => Math.abs(Object.values(distribution).reduce((total, value) => total + value, 0) - 1) < 0.011,
+    { message: "La distribución de comidas debe sumar 100%" },
+  );
+export type MealDistribution = z.infer<typeof mealDistributionSchema>;
+
+// Perfil de protocolo definido por el nutricionista (los predefinidos viven en measurement-protocols.ts)
+export const customProtocolSchema = z.object({
+  id: z.string().min(1).max(64),
+  label: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(300).nullable().optional(),
+  requiredSites: z.array(z.string()).min(1),
+  optionalSites: z.array(z.string()).default([]),
+});
+export type CustomProtocol = z.infer<typeof customProtocolSchema>;
+
 export const patients = pgTable("patients", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: text("name").notNull(),
@@ -37,20 +114,31 @@ export const patients = pgTable("patients", {
   // Activity & Lifestyle
   exercisesRegularly: boolean("exercises_regularly").default(false),
   sportType: text("sport_type"), // Tipo de deporte/actividad
-  exerciseDays: text("exercise_days"), // Días que entrena (ej: "Lunes, Miércoles, Viernes")
-  exerciseSchedule: text("exercise_schedule"), // Horarios (ej: "18:00-19:30")
+  exerciseDays: text("exercise_days"), // Texto libre anterior a trainingSessions (ej: "Lunes, Miércoles, Viernes")
+  exerciseSchedule: text("exercise_schedule"), // Texto libre anterior a trainingSessions (ej: "18:00-19:30")
+  trainingSessions: jsonb("training_sessions"), // [{ weekday, startTime, durationMinutes, sport, intensity, met }] agenda semanal
+  competitionWeekdays: jsonb("competition_weekdays"), // [6, 7] días habituales de competencia (1 = lunes)
+  mealDistribution: jsonb("meal_distribution"), // { breakfast: 0.25, ... } (null = la de configuración)
   
   // Dietary Preferences
   isVegetarian: boolean("is_vegetarian").default(false),
   isVegan: boolean("is_vegan").default(false),
-  foodAllergies: text("food_allergies"), // Alergias alimentarias
-  foodDislikes: text("food_dislikes"), // Alimentos que no le gustan
+  foodAllergies: text("food_allergies"), // Texto libre anterior a allergens
+  foodDislikes: text("food_dislikes"), // Texto libre anterior a allergens (preferencias)
+  allergens: jsonb("allergens"), // PatientAllergen[] (null = derivar de los textos libres)
   medicalConditions: text("medical_conditions"), // Condiciones médicas relevantes
   medications: text("medications"), // Medicamentos actuales
+
+  // Proporcionalidad
+  referencePopulation: text("reference_population"), // "phantom" (null = automática por sexo/edad)
+
+  // Seguimiento
+  followUpCadenceDays: integer("follow_up_cadence_days"), // días entre controles (null = la del grupo o del objetivo)
   
   version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // en la papelera desde (null = activo)
 });
 
 export const insertPatientSchema = createInsertSchema(patients).omit({
@@ -58,8 +146,14 @@ export const insertPatientSchema = createInsertSchema(patients).omit({
   version: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
 }).extend({
   birthDate: z.string().nullable().optional().transform(val => val ? new Date(val) : null),
+  trainingSessions: z.array(trainingSessionSchema).nullable().optional(),
+  competitionWeekdays: z.array(z.number().int().min(1).max(7)).nullable().optional(),
+  mealDistribution: mealDistributionSchema.nullable().optional(),
+  allergens: z.array(patientAllergenSchema).nullable().optional(),
+  followUpCadenceDays: z.number().int().min(7).max(365).nullable().optional(),
 });
 export type InsertPatient = z.infer<typeof insertPatientSchema>;
 export type Patient = typeof patients.$inferSelect;
@@ -93,24 +187,159 @@ export const consultations = pgTable("consultations", {
   dietaryPreferences: jsonb("dietary_preferences"),
   supplements: jsonb("supplements"),
   notes: text("notes"),
+  notesShared: boolean("notes_shared").notNull().default(false), // las notas se muestran en el portal del paciente
   attachments: jsonb("attachments"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // en la papelera desde (null = activa)
 });
 
 export const insertConsultationSchema = createInsertSchema(consultations).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
 });
 export type InsertConsultation = z.infer<typeof insertConsultationSchema>;
 export type Consultation = typeof consultations.$inferSelect;
 
+export const appointmentTypeSchema = z.enum(["first_visit", "follow_up", "measurement", "online"]);
+export type AppointmentType = z.infer<typeof appointmentTypeSchema>;
+
+export const appointmentStatusSchema = z.enum(["scheduled", "confirmed", "attended", "no_show", "cancelled"]);
+export type AppointmentStatus = z.infer<typeof appointmentStatusSchema>;
+
+// Appointments Table (turnos agendados; al atenderse generan la consulta)
+export const appointments = pgTable("appointments", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  patientId: uuid("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }), // profesional que atiende (null = sin asignar)
+  startsAt: timestamp("starts_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(30),
+  type: text("type").notNull().default("follow_up"), // AppointmentType
+  status: text("status").notNull().default("scheduled"), // AppointmentStatus
+  reason: text("reason"), // motivo visible en la agenda (no es nota clínica)
+  consultationId: uuid("consultation_id").references(() => consultations.id, { onDelete: "set null" }),
+  version: integer("version").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAppointmentSchema = createInsertSchema(appointments)
+  .omit({
+    id: true,
+    consultationId: true,
+    version: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    startsAt: z.coerce.date(),
+    durationMinutes: z.number().int().min(5).max(480).optional(),
+    type: appointmentTypeSchema.optional(),
+    status: appointmentStatusSchema.optional(),
+  });
+export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type Appointment = typeof appointments.$inferSelect;
+
+// Follow-up Contacts Table (registro de avisos de control enviados a pacientes)
+export const followUpContacts = pgTable("follow_up_contacts", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  patientId: uuid("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }), // quién lo contactó
+  contactedAt: timestamp("contacted_at").defaultNow().notNull(),
+  note: text("note"),
+});
+
+export const insertFollowUpContactSchema = createInsertSchema(followUpContacts).omit({
+  id: true,
+  contactedAt: true,
+});
+export type InsertFollowUpContact = z.infer<typeof insertFollowUpContactSchema>;
+export type FollowUpContact = typeof followUpContacts.$inferSelect;
+
+// Patient Share Links Table (enlaces firmados al portal de sólo lectura del paciente)
+export const patientShareLinks = pgTable("patient_share_links", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  patientId: uuid("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  createdByUserId: uuid("created_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(), // también va firmado dentro del token
+  revokedAt: timestamp("revoked_at"),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPatientShareLinkSchema = createInsertSchema(patientShareLinks).omit({
+  id: true,
+  revokedAt: true,
+  lastAccessedAt: true,
+  createdAt: true,
+});
+export type InsertPatientShareLink = z.infer<typeof insertPatientShareLinkSchema>;
+export type PatientShareLink = typeof patientShareLinks.$inferSelect;
+
+// Evaluators Table (antropometristas que toman las mediciones)
+export const evaluators = pgTable("evaluators", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").notNull(),
+  email: text("email"),
+  isakLevel: text("isak_level"), // "1" | "2" | "3" | "4"
+  certificationExpiresAt: timestamp("certification_expires_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  temValues: jsonb("tem_values"), // ETM por sitio del último estudio test-retest (EvaluatorTEM)
+  temUpdatedAt: timestamp("tem_updated_at"),
+  notes: text("notes"),
+  version: integer("version").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertEvaluatorSchema = createInsertSchema(evaluators).omit({
+  id: true,
+  temValues: true,
+  temUpdatedAt: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertEvaluator = z.infer<typeof insertEvaluatorSchema>;
+export type Evaluator = typeof evaluators.$inferSelect;
+
+// Evaluator TEM Studies Table (test-retest: pares de tomas por sitio y ETM resultante)
+export const evaluatorTemStudies = pgTable("evaluator_tem_studies", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  evaluatorId: uuid("evaluator_id").notNull().references(() => evaluators.id, { onDelete: "cascade" }),
+  studyDate: timestamp("study_date").notNull().defaultNow(),
+  source: text("source").notNull().default("manual"), // "manual" | "measurements"
+  pairs: jsonb("pairs").notNull(), // { [sitio]: [[toma1, toma2], ...] }
+  results: jsonb("results").notNull(), // EvaluatorTEM
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertEvaluatorTemStudySchema = createInsertSchema(evaluatorTemStudies).omit({
+  id: true,
+  results: true,
+  createdAt: true,
+});
+export type InsertEvaluatorTemStudy = z.infer<typeof insertEvaluatorTemStudySchema>;
+export type EvaluatorTemStudy = typeof evaluatorTemStudies.$inferSelect;
+
 // Measurements Table (Anthropometric data - ISAK 2)
+export const plausibilityOverrideSchema = z.object({
+  code: z.string().min(1),
+  value: z.number().nullable().optional(),
+  reason: z.string().trim().max(500).nullable().optional(),
+  message: z.string().optional(),
+  confirmedAt: z.string().optional(),
+});
+export type PlausibilityOverride = z.infer<typeof plausibilityOverrideSchema>;
+
 export const measurements = pgTable("measurements", {
   id: uuid("id").defaultRandom().primaryKey(),
   patientId: uuid("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
   consultationId: uuid("consultation_id").references(() => consultations.id, { onDelete: "set null" }),
+  evaluatorId: uuid("evaluator_id").references(() => evaluators.id, { onDelete: "set null" }),
   measurementDate: timestamp("measurement_date").notNull(),
   
   // Basic measurements
@@ -147,11 +376,22 @@ export const measurements = pgTable("measurements", {
   abdominal: decimal("abdominal", { precision: 5, scale: 2 }), // mm
   thighSkinfold: decimal("thigh_skinfold", { precision: 5, scale: 2 }), // mm
   calfSkinfold: decimal("calf_skinfold", { precision: 5, scale: 2 }), // mm
+  chestSkinfold: decimal("chest_skinfold", { precision: 5, scale: 2 }), // mm - Jackson & Pollock
+  midaxillarySkinfold: decimal("midaxillary_skinfold", { precision: 5, scale: 2 }), // mm - Jackson & Pollock 7
+
+  // Perfil de protocolo con el que se midió (isak_restricted, quick_check, custom-…); null en mediciones anteriores
+  protocolId: text("protocol_id"),
+
+  // Tomas repetidas ISAK: { triceps: [10.2, 10.6], ... }. Los valores de arriba son el resultado final (media/mediana)
+  rawTrials: jsonb("raw_trials"),
+  // Advertencias de plausibilidad confirmadas al guardar: [{ code, value, message, reason, confirmedAt }]
+  plausibilityOverrides: jsonb("plausibility_overrides"),
   
   notes: text("notes"),
   version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // en la papelera desde (null = activa)
 });
 
 export const insertMeasurementSchema = createInsertSchema(measurements).omit({
@@ -159,8 +399,10 @@ export const insertMeasurementSchema = createInsertSchema(measurements).omit({
   version: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
 }).extend({
   measurementDate: z.string().transform(val => new Date(val)),
+  plausibilityOverrides: z.array(plausibilityOverrideSchema).nullable().optional(),
 });
 export type InsertMeasurement = z.infer<typeof insertMeasurementSchema>;
 export type Measurement = typeof measurements.$inferSelect;
@@ -189,11 +431,22 @@ export const measurementCalculations = pgTable("measurement_calculations", {
   boneMassPercent: decimal("bone_mass_percent", { precision: 5, scale: 2 }),
   residualMassKg: decimal("residual_mass_kg", { precision: 6, scale: 3 }),
   residualMassPercent: decimal("residual_mass_percent", { precision: 5, scale: 2 }),
-  
+  muscleBoneIndex: decimal("muscle_bone_index", { precision: 5, scale: 3 }), // masa muscular / masa ósea
+
+  // Skinfold-corrected girths and muscle areas
+  correctedArmGirth: decimal("corrected_arm_girth", { precision: 5, scale: 2 }), // cm - brazo relajado − π · tríceps
+  correctedThighGirth: decimal("corrected_thigh_girth", { precision: 5, scale: 2 }), // cm - muslo medial − π · pliegue de muslo
+  correctedCalfGirth: decimal("corrected_calf_girth", { precision: 5, scale: 2 }), // cm - pantorrilla − π · pliegue de pantorrilla
+  correctedArmMuscleArea: decimal("corrected_arm_muscle_area", { precision: 6, scale: 2 }), // cm² - Heymsfield (descuenta el área ósea)
+  thighMuscleArea: decimal("thigh_muscle_area", { precision: 6, scale: 2 }), // cm² - área del perímetro corregido de muslo
+
   // Additional calculations
   sumOf4Skinfolds: decimal("sum_of_4_skinfolds", { precision: 6, scale: 2 }), // mm - Durnin & Womersley (triceps + biceps + subscapular + suprailiac)
   sumOf6Skinfolds: decimal("sum_of_6_skinfolds", { precision: 6, scale: 2 }), // mm - ISAK (triceps + subscapular + supraspinal + abdominal + thigh + calf)
-  bodyFatPercentage: decimal("body_fat_percentage", { precision: 5, scale: 2 }), // % - Based on Durnin & Womersley (4 skinfolds)
+  bodyFatPercentage: decimal("body_fat_percentage", { precision: 5, scale: 2 }), // % - Ecuación indicada en bodyFatEquation
+  bodyFatEquation: text("body_fat_equation"), // "durnin_womersley", "jackson_pollock_3", ... (ver shared/body-fat-equations)
+  densityConversion: text("density_conversion"), // "siri" | "brozek" (null si la ecuación da % directo)
+  bodyFatEstimates: jsonb("body_fat_estimates"), // [{ equation, bodyFatPercentage, density, ... }] todas las ecuaciones aplicables
   leanMass: decimal("lean_mass", { precision: 6, scale: 2 }), // kg
   waistHipRatio: decimal("waist_hip_ratio", { precision: 5, scale: 3 }), // ratio
  
@@ -201,10 +454,15 @@ export const measurementCalculations = pgTable("measurement_calculations", {
   endomorphy: decimal("endomorphy", { precision: 4, scale: 2 }),
   mesomorphy: decimal("mesomorphy", { precision: 4, scale: 2 }),
   ectomorphy: decimal("ectomorphy", { precision: 4, scale: 2 }),
+  somatochartX: decimal("somatochart_x", { precision: 5, scale: 2 }), // X = ecto - endo
+  somatochartY: decimal("somatochart_y", { precision: 5, scale: 2 }), // Y = 2·meso - (endo + ecto)
  
   // Nutritional targets derived from measurements
   basalMetabolicRate: decimal("basal_metabolic_rate", { precision: 7, scale: 2 }),
-  activityMultiplier: decimal("activity_multiplier", { precision: 4, scale: 2 }),
+  bmrEquation: text("bmr_equation"), // "mifflin_st_jeor", "katch_mcardle", ... (ver shared/energy-equations)
+  activityMultiplier: decimal("activity_multiplier", { precision: 4, scale: 2 }), // GET / TMB (equivalente en el modelo factorial)
+  energyModel: text("energy_model"), // "multiplier" | "factorial"
+  energyBreakdown: jsonb("energy_breakdown"), // { bmr, model, multiplier | factorial: { sessions, ... }, totalEnergyExpenditure }
   maintenanceCalories: integer("maintenance_calories"),
   targetCalories: integer("target_calories"),
   calorieObjective: text("calorie_objective"),
@@ -212,11 +470,23 @@ export const measurementCalculations = pgTable("measurement_calculations", {
   carbsPerDay: decimal("carbs_per_day", { precision: 6, scale: 2 }), // g
   fatsPerDay: decimal("fats_per_day", { precision: 6, scale: 2 }), // g
   perMealPlan: jsonb("per_meal_plan"), // { breakfast: { calories, protein, ... }, ... }
+  mealDistribution: jsonb("meal_distribution"), // { distribution: { breakfast: 0.25, ... }, source: "patient" | "settings" | "default" }
+  dayTypeTargets: jsonb("day_type_targets"), // { training | rest | competition: { weekdays, carbsPerKg, calories, protein, carbs, fats, perMealPlan } }
 
   // Z-scores for comparison
   weightZScore: decimal("weight_z_score", { precision: 5, scale: 2 }),
   heightZScore: decimal("height_z_score", { precision: 5, scale: 2 }),
   bmiZScore: decimal("bmi_z_score", { precision: 5, scale: 2 }),
+  weightPercentile: decimal("weight_percentile", { precision: 5, scale: 2 }), // sólo menores de 19 (OMS)
+  heightPercentile: decimal("height_percentile", { precision: 5, scale: 2 }),
+  bmiPercentile: decimal("bmi_percentile", { precision: 5, scale: 2 }),
+  bmiClassification: text("bmi_classification"), // IMC para la edad (OMS) o puntos de corte de adultos
+  growthReference: text("growth_reference"), // "who-2006" | "who-2007"; null = Score-Z Phantom de adultos
+  referencePopulation: text("reference_population"), // Población usada para los Score-Z
+  proportionalityZScores: jsonb("proportionality_z_scores"), // { triceps: -0.8, waist: 0.4, ... } escalados con Phantom
+
+  formulaSetVersion: integer("formula_set_version"), // FORMULA_SET_VERSION que produjo la fila (null = anterior al versionado)
+  inputSnapshot: jsonb("input_snapshot"), // edad, sexo, objetivo, actividad, configuración y ecuaciones usadas
  
   version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -264,6 +534,7 @@ export const reports = pgTable("reports", {
   measurementId: uuid("measurement_id").notNull().references(() => measurements.id, { onDelete: "cascade" }),
   consultationId: uuid("consultation_id").references(() => consultations.id, { onDelete: "set null" }),
   pdfUrl: text("pdf_url"), // URL to stored PDF file
+  portalPdfUrl: text("portal_pdf_url"), // Copia sin notas internas para el portal del paciente
   status: text("status").notNull().default("pending"), // "pending", "generated", "sent"
   sentVia: text("sent_via").array(), // ["email", "whatsapp"]
   sentAt: timestamp("sent_at"),
@@ -356,6 +627,67 @@ export type UpdateBiochemicalResult = z.infer<typeof updateBiochemicalResultSche
 
 export type BiochemicalResult = typeof biochemicalResults.$inferSelect;
 
+// Bioimpedancia (BIA) - balanzas segmentales tipo InBody/Tanita
+export const biaSegmentSchema = z.object({
+  leanMassKg: z.number().nonnegative().nullable(),
+  fatMassKg: z.number().nonnegative().nullable(),
+});
+export const biaSegmentalSchema = z.object({
+  rightArm: biaSegmentSchema.optional(),
+  leftArm: biaSegmentSchema.optional(),
+  trunk: biaSegmentSchema.optional(),
+  rightLeg: biaSegmentSchema.optional(),
+  leftLeg: biaSegmentSchema.optional(),
+});
+export type BiaSegmental = z.infer<typeof biaSegmentalSchema>;
+
+export const biaMeasurements = pgTable("bia_measurements", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  patientId: uuid("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  measurementDate: timestamp("measurement_date").notNull(),
+  device: text("device"), // "InBody 570", "Tanita MC-780", ...
+  source: text("source").notNull().default("manual"), // "manual" | "csv"
+
+  weight: decimal("weight", { precision: 5, scale: 2 }), // kg
+  fatMassKg: decimal("fat_mass_kg", { precision: 5, scale: 2 }),
+  bodyFatPercentage: decimal("body_fat_percentage", { precision: 4, scale: 1 }),
+  fatFreeMassKg: decimal("fat_free_mass_kg", { precision: 5, scale: 2 }),
+  skeletalMuscleMassKg: decimal("skeletal_muscle_mass_kg", { precision: 5, scale: 2 }),
+  totalBodyWaterL: decimal("total_body_water_l", { precision: 5, scale: 2 }),
+  intracellularWaterL: decimal("intracellular_water_l", { precision: 5, scale: 2 }),
+  extracellularWaterL: decimal("extracellular_water_l", { precision: 5, scale: 2 }),
+  visceralFatLevel: decimal("visceral_fat_level", { precision: 4, scale: 1 }), // nivel/área según fabricante
+  phaseAngle: decimal("phase_angle", { precision: 4, scale: 2 }), // grados (50 kHz, cuerpo entero)
+  basalMetabolicRate: integer("basal_metabolic_rate"), // kcal, estimada por el equipo
+  segmental: jsonb("segmental"), // { rightArm: { leanMassKg, fatMassKg }, leftArm, trunk, rightLeg, leftLeg }
+
+  rawData: jsonb("raw_data"), // fila original del CSV exportado por el equipo
+  notes: text("notes"),
+
+  version: integer("version").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+const biaMeasurementBaseSchema = createInsertSchema(biaMeasurements).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  measurementDate: z.union([z.string(), z.date()]).transform(val => val instanceof Date ? val : new Date(val)),
+  source: z.enum(["manual", "csv"]).optional(),
+  segmental: biaSegmentalSchema.nullable().optional(),
+});
+
+export const insertBiaMeasurementSchema = biaMeasurementBaseSchema;
+export type InsertBiaMeasurement = z.infer<typeof insertBiaMeasurementSchema>;
+
+export const updateBiaMeasurementSchema = biaMeasurementBaseSchema.omit({ patientId: true }).partial();
+export type UpdateBiaMeasurement = z.infer<typeof updateBiaMeasurementSchema>;
+
+export type BiaMeasurement = typeof biaMeasurements.$inferSelect;
+
 // Nutritionist Settings
 export const nutritionistSettings = pgTable("nutritionist_settings", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -364,8 +696,16 @@ export const nutritionistSettings = pgTable("nutritionist_settings", {
   proteinMultiplierMaintain: decimal("protein_multiplier_maintain", { precision: 4, scale: 2 }).notNull().default("1.80"),
   proteinMultiplierGain: decimal("protein_multiplier_gain", { precision: 4, scale: 2 }).notNull().default("2.00"),
   fatPerKg: decimal("fat_per_kg", { precision: 4, scale: 2 }).notNull().default("0.90"),
+  bodyFatEquation: text("body_fat_equation").notNull().default("durnin_womersley"),
+  densityConversion: text("density_conversion").notNull().default("siri"),
+  bmrEquation: text("bmr_equation").notNull().default("katch_mcardle"),
+  energyModel: text("energy_model").notNull().default("multiplier"),
+  mealDistribution: jsonb("meal_distribution"), // { breakfast: 0.25, snack1: 0.1, ... } (null = distribución por defecto)
+  defaultProtocolId: text("default_protocol_id").notNull().default("isak_restricted"),
+  customProtocols: jsonb("custom_protocols"), // [{ id, label, description, requiredSites, optionalSites }]
   whatsappTemplateClassic: text("whatsapp_template_classic"),
   whatsappTemplateWithDocs: text("whatsapp_template_with_docs"),
+  trashRetentionDays: integer("trash_retention_days").notNull().default(30), // días en la papelera antes de la purga automática
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -378,6 +718,75 @@ export const insertNutritionistSettingsSchema = createInsertSchema(nutritionistS
 export type InsertNutritionistSettings = z.infer<typeof insertNutritionistSettingsSchema>;
 export type NutritionistSettingsRow = typeof nutritionistSettings.$inferSelect;
 
+// Users Table (cuentas del consultorio; roles en shared/auth)
+export const users = pgTable("users", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  username: text("username").notNull().unique(), // en minúsculas
+  passwordHash: text("password_hash").notNull(), // scrypt: "salt:hash" en hex
+  displayName: text("display_name").notNull(),
+  role: text("role").notNull().default("readonly"), // "nutritionist" | "assistant" | "readonly"
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
+  calendarFeedToken: text("calendar_feed_token").unique(), // suscripción .ics a la agenda (null = sin feed)
+  version: integer("version").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  lastLoginAt: true,
+  calendarFeedToken: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+/** Usuario tal como lo devuelve la API (sin el hash de la contraseña ni el token del feed de la agenda). */
+export type PublicUser = Omit<User, "passwordHash" | "calendarFeedToken">;
+
+// Audit Log Table (sólo se agregan filas; una por alta, edición o baja de un registro clínico)
+export const auditLog = pgTable("audit_log", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  entityType: text("entity_type").notNull(), // "patient" | "measurement" | ... (AUDITED_ENTITY_TYPES)
+  entityId: text("entity_id").notNull(),
+  patientId: text("patient_id"), // sin FK: el historial sobrevive a la baja del paciente
+  action: text("action").notNull(), // "create" | "update" | "delete"
+  changes: jsonb("changes").notNull(), // AuditFieldChange[]
+  userId: text("user_id"), // null = proceso del sistema (seed, recálculo)
+  userName: text("user_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogSchema>;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+// Patient Merges Table (fusiones de fichas duplicadas, para revisarlas después)
+export const patientMerges = pgTable("patient_merges", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  survivorId: text("survivor_id").notNull(), // sin FK, igual que audit_log
+  duplicateId: text("duplicate_id").notNull(),
+  duplicateName: text("duplicate_name").notNull(),
+  duplicateSnapshot: jsonb("duplicate_snapshot").notNull(), // ficha del duplicado antes de eliminarla
+  fieldChoices: jsonb("field_choices").notNull(), // { email: "duplicate", ... } conflictos resueltos
+  movedRecords: jsonb("moved_records").notNull(), // PatientMergeMovedRecords
+  userId: text("user_id"),
+  userName: text("user_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPatientMergeSchema = createInsertSchema(patientMerges).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertPatientMerge = z.infer<typeof insertPatientMergeSchema>;
+export type PatientMerge = typeof patientMerges.$inferSelect;
+
 // Diet Assignments Table (Many-to-Many relationship between patients and diets)
 export const dietAssignments = pgTable("diet_assignments", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -601,6 +1010,7 @@ export const meals = pgTable("meals", {
   isVegan: boolean("is_vegan").default(false),
   isGlutenFree: boolean("is_gluten_free").default(false),
   isDairyFree: boolean("is_dairy_free").default(false),
+  allergens: jsonb("allergens"), // MajorAllergen[] declarados (null = inferidos de los ingredientes)
   
   // Image
   imageUrl: text("image_url"), // URL to uploaded or AI-generated image
@@ -609,6 +1019,7 @@ export const meals = pgTable("meals", {
   version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // en la papelera desde (null = activa)
 });
 
 export const insertMealSchema = createInsertSchema(meals).omit({
@@ -616,6 +1027,9 @@ export const insertMealSchema = createInsertSchema(meals).omit({
   version: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
+}).extend({
+  allergens: z.array(majorAllergenSchema).nullable().optional(),
 });
 export type InsertMeal = z.infer<typeof insertMealSchema>;
 export type Meal = typeof meals.$inferSelect;
@@ -688,6 +1102,7 @@ export const weeklyDietPlans = pgTable("weekly_diet_plans", {
   version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // en la papelera desde (null = activo)
 });
 
 export const insertWeeklyDietPlanSchema = createInsertSchema(weeklyDietPlans).omit({
@@ -695,6 +1110,7 @@ export const insertWeeklyDietPlanSchema = createInsertSchema(weeklyDietPlans).om
   version: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
 });
 export type InsertWeeklyDietPlan = z.infer<typeof insertWeeklyDietPlanSchema>;
 export type WeeklyDietPlan = typeof weeklyDietPlans.$inferSelect;
@@ -0,0 +1,225 @@
+/**
+ * Agenda semanal de entrenamiento del paciente (patients.trainingSessions).
+ * Reemplaza a los textos libres exerciseDays/exerciseSchedule: los pacientes
+ * que sólo tienen esos textos se convierten con parseLegacyTrainingSchedule.
+ */
+
+import type { TrainingSession, TrainingIntensity } from "./schema";
+import { MET_PRESETS } from "./energy-equations";
+
+// Mismo criterio que exercise_blocks y weekly_plan_meals: 1 = lunes ... 7 = domingo
+export const TRAINING_WEEKDAYS: { value: number; label: string; short: string }[] = [
+  { value: 1, label: "Lunes", short: "Lun" },
+  { value: 2, label: "Martes", short: "Mar" },
+  { value: 3, label: "Miércoles", short: "Mié" },
+  { value: 4, label: "Jueves", short: "Jue" },
+  { value: 5, label: "Viernes", short: "Vie" },
+  { value: 6, label: "Sábado", short: "Sáb" },
+  { value: 7, label: "Domingo", short: "Dom" },
+];
+
+export const TRAINING_INTENSITY_LABELS: Record<TrainingIntensity, string> = {
+  baja: "Baja",
+  moderada: "Moderada",
+  alta: "Alta",
+};
+
+const DEFAULT_SESSION_MINUTES = 60;
+const DEFAULT_SESSION_MET = 5;
+
+const WEEKDAY_KEYWORDS: [string, number][] = [
+  ["lunes", 1],
+  ["lun", 1],
+  ["martes", 2],
+  ["mar", 2],
+  ["miercoles", 3],
+  ["mie", 3],
+  ["jueves", 4],
+  ["jue", 4],
+  ["viernes", 5],
+  ["vie", 5],
+  ["sabado", 6],
+  ["sab", 6],
+  ["domingo", 7],
+  ["dom", 7],
+];
+
+// Días supuestos cuando el texto sólo indica cuántas veces por semana entrena
+const SPREAD_WEEKDAYS: Record<number, number[]> = {
+  1: [3],
+  2: [2, 4],
+  3: [1, 3, 5],
+  4: [1, 2, 4, 5],
+  5: [1, 2, 3, 4, 5],
+  6: [1, 2, 3, 4, 5, 6],
+  7: [1, 2, 3, 4, 5, 6, 7],
+};
+
+const SPORT_MET_KEYWORDS: [string[], string][] = [
+  [["corr", "running", "run", "maraton", "trail"], "running"],
+  [["cicl", "bici", "spinning", "mtb"], "cycling"],
+  [["nata", "swim", "pileta"], "swimming"],
+  [["crossfit", "funcional", "hiit"], "hiit"],
+  [["muscul", "gym", "gimnasio", "pesas", "fuerza", "hipertrofia"], "strength"],
+  [["futbol", "fútbol"], "football"],
+  [["basquet", "básquet", "basket"], "basketball"],
+  [["tenis", "padel", "pádel"], "tennis"],
+  [["remo"], "rowing"],
+  [["danza", "baile"], "dance"],
+  [["yoga", "pilates"], "yoga"],
+  [["camin", "walk"], "walking"],
+];
+
+export const HIGH_INTENSITY_KEYWORDS = ["alto rendimiento", "profesional", "intenso", "competencia", "selección"];
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+export function getWeekdayLabel(weekday: number): string {
+  return TRAINING_WEEKDAYS.find((day) => day.value === weekday)?.label ?? `Día ${weekday}`;
+}
+
+/** MET sugerido para un deporte escrito libremente (Compendio de Actividades Físicas). */
+export function suggestMetForSport(sport: string | null | undefined): number {
+  if (!sport) return DEFAULT_SESSION_MET;
+  const normalized = normalizeText(sport);
+  const match = SPORT_MET_KEYWORDS.find(([keywords]) => keywords.some((keyword) => normalized.includes(normalizeText(keyword))));
+  return MET_PRESETS.find((preset) => preset.id === match?.[1])?.met ?? DEFAULT_SESSION_MET;
+}
+
+function parseWeekdays(text: string): number[] {
+  const normalized = normalizeText(text);
+  if (/todos los dias|todos|diario/.test(normalized)) return SPREAD_WEEKDAYS[7];
+
+  // "lunes a viernes"
+  const range = normalized.match(/([a-z]+)\s+a\s+([a-z]+)/);
+  if (range) {
+    const from = WEEKDAY_KEYWORDS.find(([keyword]) => range[1].startsWith(keyword))?.[1];
+    const to = WEEKDAY_KEYWORDS.find(([keyword]) => range[2].startsWith(keyword))?.[1];
+    if (from && to && from <= to) {
+      return Array.from({ length: to - from + 1 }, (_, index) => from + index);
+    }
+  }
+
+  const days = new Set<number>();
+  normalized.split(/[^a-z]+/).forEach((token) => {
+    if (token.length < 3) return;
+    const match = WEEKDAY_KEYWORDS.find(([keyword]) => token.startsWith(keyword));
+    if (match) days.add(match[1]);
+  });
+  if (days.size > 0) return Array.from(days).sort((a, b) => a - b);
+
+  const count = parseInt(normalized.match(/\d+/)?.[0] ?? "", 10);
+  return SPREAD_WEEKDAYS[Math.min(7, count)] ?? [];
+}
+
+function parseTime(token: string): number | null {
+  const match = token.match(/(\d{1,2})(?:[:.h](\d{2}))?/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+export function formatMinutesOfDay(minutes: number): string {
+  const normalized = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(normalized / 60)).padStart(2, "0")}:${String(normalized % 60).padStart(2, "0")}`;
+}
+
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  if (!value) return null;
+  return parseTime(value);
+}
+
+/** "18:00-19:30" → inicio y duración; "7 a 8:30" también es aceptado. */
+function parseSchedule(text: string | null | undefined): { startTime: string | null; durationMinutes: number } {
+  if (!text) return { startTime: null, durationMinutes: DEFAULT_SESSION_MINUTES };
+  const [startToken, endToken] = normalizeText(text).split(/\s*(?:-|–|\sa\s)\s*/);
+  const start = startToken ? parseTime(startToken) : null;
+  const end = endToken ? parseTime(endToken) : null;
+  if (start === null) return { startTime: null, durationMinutes: DEFAULT_SESSION_MINUTES };
+  const duration = end !== null && end > start ? end - start : DEFAULT_SESSION_MINUTES;
+  return { startTime: formatMinutesOfDay(start), durationMinutes: duration };
+}
+
+/**
+ * Convierte los textos libres de actividad en sesiones estructuradas. Es una
+ * conversión aproximada: sin días reconocibles no genera sesiones.
+ */
+export function parseLegacyTrainingSchedule(patient: {
+  exercisesRegularly?: boolean | null;
+  exerciseDays?: string | null;
+  exerciseSchedule?: string | null;
+  sportType?: string | null;
+}): TrainingSession[] {
+  if (!patient.exerciseDays?.trim()) return [];
+  const weekdays = parseWeekdays(patient.exerciseDays);
+  const { startTime, durationMinutes } = parseSchedule(patient.exerciseSchedule);
+  const sport = patient.sportType?.trim() || "Entrenamiento";
+  const highIntensity = HIGH_INTENSITY_KEYWORDS.some((keyword) => normalizeText(sport).includes(normalizeText(keyword)));
+
+  return weekdays.map((weekday) => ({
+    weekday,
+    startTime,
+    durationMinutes,
+    sport,
+    intensity: highIntensity ? "alta" : "moderada",
+    met: suggestMetForSport(sport),
+  }));
+}
+
+/** Sesiones del paciente: las estructuradas o, si no tiene, las derivadas de los textos libres. */
+export function resolveTrainingSessions(patient: {
+  trainingSessions?: unknown;
+  exercisesRegularly?: boolean | null;
+  exerciseDays?: string | null;
+  exerciseSchedule?: string | null;
+  sportType?: string | null;
+} | null | undefined): TrainingSession[] {
+  if (!patient) return [];
+  const structured = Array.isArray(patient.trainingSessions) ? (patient.trainingSessions as TrainingSession[]) : [];
+  return structured.length > 0 ? sortTrainingSessions(structured) : parseLegacyTrainingSchedule(patient);
+}
+
+export function sortTrainingSessions(sessions: TrainingSession[]): TrainingSession[] {
+  return [...sessions].sort(
+    (a, b) => a.weekday - b.weekday || (parseTimeOfDay(a.startTime) ?? 0) - (parseTimeOfDay(b.startTime) ?? 0),
+  );
+}
+
+export function getTrainingWeekdays(sessions: TrainingSession[]): number[] {
+  return Array.from(new Set(sessions.map((session) => session.weekday))).sort((a, b) => a - b);
+}
+
+/** "Lunes 18:00 · Running · 90 min · alta (9.8 MET)" */
+export function describeTrainingSession(session: TrainingSession): string {
+  return [
+    `${getWeekdayLabel(session.weekday)}${session.startTime ? ` ${session.startTime}` : ""}`,
+    session.sport,
+    `${session.durationMinutes} min`,
+    `${session.intensity} (${session.met} MET)`,
+  ].join(" · ");
+}
+
+export type WorkoutLink = { type: "pre" | "post"; session: TrainingSession };
+
+// Ventanas para considerar una comida como pre o post entrenamiento
+const PRE_WORKOUT_WINDOW_MINUTES = 180;
+const POST_WORKOUT_WINDOW_MINUTES = 120;
+
+/** Sesión del día a la que queda asociada una comida por horario (pre o post entrenamiento). */
+export function findWorkoutLink(sessions: TrainingSession[], weekday: number, mealTime: string): WorkoutLink | null {
+  const meal = parseTimeOfDay(mealTime);
+  if (meal === null) return null;
+  for (const session of sessions) {
+    if (session.weekday !== weekday) continue;
+    const start = parseTimeOfDay(session.startTime);
+    if (start === null) continue;
+    const end = start + session.durationMinutes;
+    if (meal < start && start - meal <= PRE_WORKOUT_WINDOW_MINUTES) return { type: "pre", session };
+    if (meal >= end && meal - end <= POST_WORKOUT_WINDOW_MINUTES) return { type: "post", session };
+  }
+  return null;
+}
@@ -0,0 +1,62 @@
+/**
+ * Papelera: registros con baja lógica (deletedAt) que se pueden restaurar
+ * hasta que vence la retención configurada y se purgan definitivamente.
+ */
+
+export const TRASH_ENTITY_TYPES = ["patient", "measurement", "consultation", "meal", "weeklyDietPlan"] as const;
+export type TrashEntityType = (typeof TRASH_ENTITY_TYPES)[number];
+
+export const TRASH_ENTITY_LABELS: Record<TrashEntityType, string> = {
+  patient: "Paciente",
+  measurement: "Medición",
+  consultation: "Consulta",
+  meal: "Comida",
+  weeklyDietPlan: "Plan semanal",
+};
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MIN_TRASH_RETENTION_DAYS = 1;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+export interface TrashItem {
+  entityType: TrashEntityType;
+  id: string;
+  /** Nombre del paciente, la comida o el plan. */
+  name: string | null;
+  /** Fecha de la medición o de la consulta. */
+  date: Date | null;
+  /** Paciente al que pertenece (mediciones y consultas). */
+  patientName: string | null;
+  deletedAt: Date;
+  /** Fecha en que la purga automática lo elimina definitivamente. */
+  purgeAt: Date;
+}
+
+export function isTrashEntityType(value: unknown): value is TrashEntityType {
+  return typeof value === "string" && (TRASH_ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+export function getTrashPurgeDate(deletedAt: Date, retentionDays: number): Date {
+  return new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+export interface TrashRow {
+  id: string;
+  deletedAt: Date | null;
+  name?: string | null;
+  date?: Date | null;
+  patientName?: string | null;
+}
+
+export function toTrashItem(entityType: TrashEntityType, row: TrashRow, retentionDays: number): TrashItem {
+  const deletedAt = row.deletedAt ?? new Date();
+  return {
+    entityType,
+    id: row.id,
+    name: row.name ?? null,
+    date: row.date ?? null,
+    patientName: row.patientName ?? null,
+    deletedAt,
+    purgeAt: getTrashPurgeDate(deletedAt, retentionDays),
+  };
+}